@@ -0,0 +1,75 @@
+/**
+ * 患者敏感字段加密迁移
+ *
+ * 将历史明文或旧版本密钥加密的idCard、phone、emergencyContact、emergencyPhone
+ * 使用当前密钥重新加密，并补全盲索引。可重复执行，已是最新版本的记录会跳过。
+ *
+ * 用法：npm run db:encrypt-patients [-- --dry-run]
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { getFieldEncryptor } from '../src/utils/field-encryption';
+import { encryptPatientData, PATIENT_ENCRYPTED_FIELDS } from '../src/utils/patient-encryption';
+import { logger } from '../src/utils/logger';
+
+// 使用未注册加密中间件的客户端，直接读写数据库中的原始值
+const prisma = new PrismaClient();
+const BATCH_SIZE = 200;
+
+async function encryptPatientFields(dryRun: boolean) {
+  const encryptor = getFieldEncryptor();
+  logger.info(`开始迁移患者敏感字段，当前密钥版本 v${encryptor.keyVersion}${dryRun ? '（试运行）' : ''}`);
+
+  let cursor: string | undefined;
+  let scanned = 0;
+  let updated = 0;
+
+  for (;;) {
+    const patients = await prisma.patient.findMany({
+      select: {
+        id: true,
+        idCard: true,
+        phone: true,
+        emergencyContact: true,
+        emergencyPhone: true,
+        idCardHash: true,
+        phoneHash: true
+      },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {})
+    });
+    if (patients.length === 0) break;
+
+    for (const patient of patients) {
+      const { id, ...fields } = patient;
+      const encrypted = encryptPatientData(fields, encryptor);
+      const changed = [...PATIENT_ENCRYPTED_FIELDS, 'idCardHash', 'phoneHash'].some(
+        (field) => (encrypted as Record<string, unknown>)[field] !== (fields as Record<string, unknown>)[field]
+      );
+
+      if (changed) {
+        if (!dryRun) {
+          await prisma.patient.update({ where: { id }, data: encrypted });
+        }
+        updated++;
+      }
+    }
+
+    scanned += patients.length;
+    cursor = patients[patients.length - 1].id;
+    logger.info(`已处理 ${scanned} 条患者记录`);
+  }
+
+  logger.info(`迁移完成：共 ${scanned} 条，${dryRun ? '需要' : '已'}更新 ${updated} 条`);
+}
+
+encryptPatientFields(process.argv.includes('--dry-run'))
+  .then(() => process.exit(0))
+  .catch((error) => {
+    logger.error('患者敏感字段迁移失败:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,68 @@
+/**
+ * 库存批次库位迁移（需在 prisma migrate 之前执行）
+ *
+ * medicine_stocks.location 改为非空（默认MAIN）后，药品+批号+库位的唯一索引才能防止重复批次。
+ * 迁移前将未指定库位的批次归入主库位；同一药品、批号在主库位有多个批次时合并为一个：
+ * 数量累加到最早创建的批次，库存流水和发药批次记录改挂到该批次后删除其余批次。
+ * 可重复执行，已迁移的数据不会再变化。
+ *
+ * 用法：npm run db:merge-stock-locations [-- --dry-run]
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import { DEFAULT_STOCK_LOCATION } from '../src/services/inventory.service';
+import { logger } from '../src/utils/logger';
+
+// location 列此时仍可能为NULL，全部使用原生SQL读写
+const prisma = new PrismaClient();
+
+async function mergeStockLocations(dryRun: boolean) {
+  logger.info(`开始迁移库存批次库位，主库位: ${DEFAULT_STOCK_LOCATION}${dryRun ? '（试运行）' : ''}`);
+
+  const groups = await prisma.$queryRaw<Array<{ medicine_id: string; batch_no: string; ids: string }>>`
+    SELECT medicine_id, batch_no, GROUP_CONCAT(id ORDER BY created_at, id) AS ids
+    FROM medicine_stocks
+    WHERE location IS NULL OR location = ${DEFAULT_STOCK_LOCATION}
+    GROUP BY medicine_id, batch_no
+    HAVING COUNT(*) > 1
+  `;
+
+  for (const group of groups) {
+    const [keepId, ...mergedIds] = group.ids.split(',');
+    logger.info(`合并批次 - 药品: ${group.medicine_id}, 批号: ${group.batch_no}, 合并 ${mergedIds.length} 条到 ${keepId}`);
+    if (dryRun) continue;
+
+    const merged = Prisma.join(mergedIds);
+    await prisma.$transaction(async (tx) => {
+      const [{ quantity }] = await tx.$queryRaw<Array<{ quantity: number | bigint | null }>>`
+        SELECT SUM(quantity) AS quantity FROM medicine_stocks WHERE id IN (${merged})
+      `;
+      await tx.$executeRaw`UPDATE medicine_stocks SET quantity = quantity + ${Number(quantity ?? 0)} WHERE id = ${keepId}`;
+      await tx.$executeRaw`UPDATE inventory_transactions SET stock_id = ${keepId} WHERE stock_id IN (${merged})`;
+      await tx.$executeRaw`UPDATE prescription_dispense_allocations SET stock_id = ${keepId} WHERE stock_id IN (${merged})`;
+      await tx.$executeRaw`DELETE FROM medicine_stocks WHERE id IN (${merged})`;
+    });
+  }
+
+  if (!dryRun) {
+    const stocks = await prisma.$executeRaw`
+      UPDATE medicine_stocks SET location = ${DEFAULT_STOCK_LOCATION} WHERE location IS NULL
+    `;
+    const transactions = await prisma.$executeRaw`
+      UPDATE inventory_transactions SET location = ${DEFAULT_STOCK_LOCATION} WHERE location IS NULL
+    `;
+    logger.info(`已将 ${stocks} 个批次、${transactions} 条流水归入主库位`);
+  }
+
+  logger.info(`迁移完成：${dryRun ? '需要' : '已'}合并 ${groups.length} 组重复批次，请继续执行 npm run prisma:migrate`);
+}
+
+mergeStockLocations(process.argv.includes('--dry-run'))
+  .then(() => process.exit(0))
+  .catch((error) => {
+    logger.error('库存批次库位迁移失败:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,86 @@
+/**
+ * 排队号去重迁移（需在 prisma migrate 之前执行）
+ *
+ * 排队号改为按科室+就诊日期唯一之前，历史排队号按挂号当天分配，同一科室同一就诊日期可能重复。
+ * 添加唯一索引前，每组重复号码保留最早挂号的记录，其余依次改为该科室当天的最大号之后，
+ * 排队记录同步更新，并将排队号计数器推进到最大号，之后新挂号的号码不会冲突。
+ * 可重复执行，没有重复号码时不做任何修改。
+ *
+ * 用法：npm run db:renumber-queues [-- --dry-run]
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../src/utils/logger';
+
+const prisma = new PrismaClient();
+
+async function renumberQueueNumbers(dryRun: boolean) {
+  logger.info(`开始检查重复排队号${dryRun ? '（试运行）' : ''}`);
+
+  const groups = await prisma.$queryRaw<Array<{ department_id: string; appointment_date: Date }>>`
+    SELECT DISTINCT department_id, appointment_date
+    FROM appointments
+    GROUP BY department_id, appointment_date, queue_number
+    HAVING COUNT(*) > 1
+  `;
+
+  let renumbered = 0;
+  for (const group of groups) {
+    const departmentId = group.department_id;
+    const appointmentDate = group.appointment_date;
+    const appointments = await prisma.appointment.findMany({
+      where: { departmentId, appointmentDate },
+      select: { id: true, appointmentNo: true, queueNumber: true },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+    });
+
+    let maxNumber = Math.max(...appointments.map((appointment) => appointment.queueNumber));
+    const seen = new Set<number>();
+    const changes: Array<{ id: string; appointmentNo: string; from: number; to: number }> = [];
+    for (const appointment of appointments) {
+      if (!seen.has(appointment.queueNumber)) {
+        seen.add(appointment.queueNumber);
+        continue;
+      }
+      maxNumber += 1;
+      changes.push({ id: appointment.id, appointmentNo: appointment.appointmentNo, from: appointment.queueNumber, to: maxNumber });
+    }
+
+    const date = appointmentDate.toISOString().slice(0, 10);
+    for (const change of changes) {
+      logger.info(`科室 ${departmentId} ${date} 挂号 ${change.appointmentNo}: 排队号 ${change.from} → ${change.to}`);
+    }
+    renumbered += changes.length;
+    if (dryRun) continue;
+
+    const scope = `queue:${departmentId}`;
+    await prisma.$transaction(async (tx) => {
+      for (const change of changes) {
+        await tx.appointment.update({ where: { id: change.id }, data: { queueNumber: change.to } });
+        await tx.queue.updateMany({ where: { appointmentId: change.id }, data: { queueNumber: change.to } });
+      }
+
+      const counter = await tx.dailyCounter.findUnique({ where: { scope_date: { scope, date: appointmentDate } } });
+      await tx.dailyCounter.upsert({
+        where: { scope_date: { scope, date: appointmentDate } },
+        create: { scope, date: appointmentDate, value: maxNumber },
+        update: { value: Math.max(counter?.value ?? 0, maxNumber) }
+      });
+    });
+  }
+
+  logger.info(
+    `迁移完成：${groups.length} 个科室就诊日存在重复排队号，${dryRun ? '需要' : '已'}重新编号 ${renumbered} 条挂号，` +
+      '请继续执行 npm run prisma:migrate'
+  );
+}
+
+renumberQueueNumbers(process.argv.includes('--dry-run'))
+  .then(() => process.exit(0))
+  .catch((error) => {
+    logger.error('排队号去重迁移失败:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -1,6 +1,7 @@
-import { PrismaClient, UserRole, UserStatus } from '@prisma/client';
+import { PrismaClient, UserRole, UserStatus, TimeSlot } from '@prisma/client';
 import { PasswordManager } from '../src/auth/password.manager';
 import { logger } from '../src/utils/logger';
+import { encryptPatientData } from '../src/utils/patient-encryption';
 
 const prisma = new PrismaClient();
 const passwordManager = new PasswordManager();
@@ -84,7 +85,7 @@ async function seed() {
       }
     });
 
-    await prisma.doctor.upsert({
+    const doctor1 = await prisma.doctor.upsert({
       where: { userId: doctor1User.id },
       update: {},
       create: {
@@ -115,7 +116,7 @@ async function seed() {
       }
     });
 
-    await prisma.doctor.upsert({
+    const doctor2 = await prisma.doctor.upsert({
       where: { userId: doctor2User.id },
       update: {},
       create: {
@@ -132,6 +133,28 @@ async function seed() {
     });
     logger.info(`创建医生用户: ${doctor2User.username} (外科)`);
 
+    // 创建医生排班：周一至周六上午、下午出诊
+    const scheduleTemplates = [
+      { timeSlot: TimeSlot.MORNING, startTime: '08:00', endTime: '12:00', maxPatients: 20 },
+      { timeSlot: TimeSlot.AFTERNOON, startTime: '14:00', endTime: '17:30', maxPatients: 15 }
+    ];
+    let scheduleCount = 0;
+    for (const doctor of [doctor1, doctor2]) {
+      for (let dayOfWeek = 1; dayOfWeek <= 6; dayOfWeek++) {
+        for (const template of scheduleTemplates) {
+          await prisma.doctorSchedule.upsert({
+            where: {
+              doctorId_dayOfWeek_timeSlot: { doctorId: doctor.id, dayOfWeek, timeSlot: template.timeSlot }
+            },
+            update: {},
+            create: { doctorId: doctor.id, dayOfWeek, ...template }
+          });
+          scheduleCount++;
+        }
+      }
+    }
+    logger.info(`创建了 ${scheduleCount} 条医生排班`);
+
     // 创建操作员用户
     const operatorPassword = await passwordManager.hashPassword('Operator123!');
     const operatorUser = await prisma.user.upsert({
@@ -164,34 +187,34 @@ async function seed() {
       prisma.patient.upsert({
         where: { patientNo: 'PAT001' },
         update: {},
-        create: {
+        create: encryptPatientData({
           patientNo: 'PAT001',
           name: '赵六',
           gender: 'MALE',
           birthDate: new Date('1990-05-15'),
-          idCard: 'encrypted_110101199005150001', // 实际应用中应加密
-          phone: 'encrypted_13900000001', // 实际应用中应加密
+          idCard: '110101199005150001',
+          phone: '13900000001',
           address: '北京市朝阳区xxx街道xxx号',
           bloodType: 'A',
           allergies: '青霉素过敏',
           medicalHistory: '高血压病史5年'
-        }
+        })
       }),
       prisma.patient.upsert({
         where: { patientNo: 'PAT002' },
         update: {},
-        create: {
+        create: encryptPatientData({
           patientNo: 'PAT002',
           name: '钱七',
           gender: 'FEMALE',
           birthDate: new Date('1985-08-20'),
-          idCard: 'encrypted_110101198508200002',
-          phone: 'encrypted_13900000002',
+          idCard: '110101198508200002',
+          phone: '13900000002',
           address: '北京市海淀区xxx街道xxx号',
           bloodType: 'B',
           allergies: '无',
           medicalHistory: '糖尿病史3年'
-        }
+        })
       })
     ]);
     logger.info(`创建了 ${patients.length} 个患者记录`);
@@ -11,13 +11,18 @@ import {
   ChatResponse,
   StreamResponse,
   AIError,
-  UsageStats
+  UsageStats,
+  EmbeddingRequest,
+  EmbeddingResponse
 } from './types';
+import { localEmbedder } from './local-embedding';
+import { deidentifyRequest, deidentifyTexts, reidentifyResponse, DeidentifyResult, StreamReidentifier } from './deidentification';
 import { DeepSeekProvider } from './providers/deepseek.provider';
 import { GeminiProvider } from './providers/gemini.provider';
 import { KimiProvider } from './providers/kimi.provider';
 import { OpenAIProvider } from './providers/openai.provider';
 import EventEmitter from 'events';
+import { logger } from '../utils/logger';
 
 /**
  * 负载均衡策略
@@ -39,6 +44,8 @@ export interface AIProviderManagerConfig {
   enableFailover?: boolean;
   maxRetries?: number;
   healthCheckInterval?: number;
+  embeddingProvider?: AIProviderType; // 嵌入专用Provider，未设置时使用当前活动Provider
+  deidentify?: boolean; // 发往不可信Provider的请求是否去标识化，默认开启
   providers?: {
     [key in AIProviderType]?: ProviderConfig;
   };
@@ -57,6 +64,7 @@ interface ProviderState {
   lastHealthCheck?: Date;
   lastError?: Error;
   weight?: number;
+  trusted: boolean;
 }
 
 /**
@@ -77,6 +85,7 @@ export class AIProviderManager extends EventEmitter {
       enableFailover: true,
       maxRetries: 3,
       healthCheckInterval: 60000, // 1分钟
+      deidentify: true,
       ...config
     };
   }
@@ -137,7 +146,8 @@ export class AIProviderManager extends EventEmitter {
     if (process.env.DEEPSEEK_API_KEY) {
       envProviders[AIProviderType.DEEPSEEK] = {
         apiKey: process.env.DEEPSEEK_API_KEY,
-        apiBase: process.env.DEEPSEEK_API_BASE
+        apiBase: process.env.DEEPSEEK_API_BASE,
+        trusted: process.env.DEEPSEEK_TRUSTED === 'true'
       };
     }
 
@@ -145,7 +155,8 @@ export class AIProviderManager extends EventEmitter {
     if (process.env.GEMINI_API_KEY) {
       envProviders[AIProviderType.GEMINI] = {
         apiKey: process.env.GEMINI_API_KEY,
-        apiBase: process.env.GEMINI_API_BASE
+        apiBase: process.env.GEMINI_API_BASE,
+        trusted: process.env.GEMINI_TRUSTED === 'true'
       };
     }
 
@@ -153,7 +164,8 @@ export class AIProviderManager extends EventEmitter {
     if (process.env.KIMI_API_KEY) {
       envProviders[AIProviderType.KIMI] = {
         apiKey: process.env.KIMI_API_KEY,
-        apiBase: process.env.KIMI_API_BASE
+        apiBase: process.env.KIMI_API_BASE,
+        trusted: process.env.KIMI_TRUSTED === 'true'
       };
     }
 
@@ -162,7 +174,8 @@ export class AIProviderManager extends EventEmitter {
       envProviders[AIProviderType.OPENAI] = {
         apiKey: process.env.OPENAI_API_KEY,
         apiBase: process.env.OPENAI_API_BASE,
-        organization: process.env.OPENAI_ORGANIZATION
+        organization: process.env.OPENAI_ORGANIZATION,
+        trusted: process.env.OPENAI_TRUSTED === 'true'
       };
     }
 
@@ -216,7 +229,8 @@ export class AIProviderManager extends EventEmitter {
         isHealthy: true,
         activeConnections: 0,
         averageResponseTime: 0,
-        weight: 1
+        weight: 1,
+        trusted: config.trusted ?? false
       });
 
       this.emit('providerRegistered', type);
@@ -366,7 +380,7 @@ export class AIProviderManager extends EventEmitter {
       if (this.config.enableFailover) {
         return await this.chatWithFailover(request);
       } else {
-        return await provider.chat(request);
+        return await this.chatVia(provider, request);
       }
 
     } catch (error) {
@@ -404,7 +418,7 @@ export class AIProviderManager extends EventEmitter {
       triedProviders.add(type);
 
       try {
-        return await state.provider.chat(request);
+        return await this.chatVia(state.provider, request);
       } catch (error) {
         lastError = error as Error;
         console.error(`Provider ${type} failed:`, error);
@@ -422,6 +436,42 @@ export class AIProviderManager extends EventEmitter {
     );
   }
 
+  /**
+   * 调用Provider对话，不可信Provider的请求去标识化后发送，响应还原占位符
+   */
+  private async chatVia(provider: IAIProvider, request: ChatRequest): Promise<ChatResponse> {
+    const phi = this.deidentify(provider, request);
+    if (!phi) {
+      return provider.chat(request);
+    }
+
+    const response = await provider.chat(phi.request);
+    return reidentifyResponse(response, phi.mapping);
+  }
+
+  /**
+   * 请求去标识化，Provider可信或未识别到身份信息时返回undefined（原样发送）
+   * 只记录替换的信息类型和数量，不记录原值
+   */
+  private deidentify(provider: IAIProvider, request: ChatRequest): DeidentifyResult | undefined {
+    if (!this.config.deidentify || this.getProviderState(provider)?.trusted) {
+      return undefined;
+    }
+
+    const result = deidentifyRequest(request);
+    if (result.mapping.size === 0) {
+      return undefined;
+    }
+
+    logger.info(`发往AI服务商前已去标识化 - 服务商: ${provider.name}`, {
+      provider: provider.name,
+      userId: request.context?.userId,
+      counts: result.counts
+    });
+    this.emit('phiRedacted', provider.name, result.counts);
+    return result;
+  }
+
   /**
    * 流式对话接口
    */
@@ -435,7 +485,28 @@ export class AIProviderManager extends EventEmitter {
     }
 
     try {
-      yield* provider.streamChat(request);
+      const phi = this.deidentify(provider, request);
+      if (!phi) {
+        yield* provider.streamChat(request);
+        return;
+      }
+
+      const restorer = new StreamReidentifier(phi.mapping);
+      let last: StreamResponse | undefined;
+      for await (const chunk of provider.streamChat(phi.request)) {
+        last = chunk;
+        let content = chunk.delta?.content !== undefined ? restorer.push(chunk.delta.content) : undefined;
+        if (chunk.done) {
+          content = (content ?? '') + restorer.flush();
+        }
+        yield content === undefined ? chunk : { ...chunk, delta: { ...chunk.delta, content } };
+      }
+
+      // 流意外结束时输出暂存的内容
+      const rest = restorer.flush();
+      if (rest && last) {
+        yield { ...last, delta: { content: rest } };
+      }
     } finally {
       if (state) {
         state.activeConnections--;
@@ -443,6 +514,69 @@ export class AIProviderManager extends EventEmitter {
     }
   }
 
+  /**
+   * 文本嵌入
+   * 优先使用支持嵌入的Provider，不可用或调用失败时降级为本地嵌入
+   * 不可信Provider的输入去标识化后发送
+   */
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResponse> {
+    const provider = this.getEmbeddingProvider();
+
+    if (provider) {
+      try {
+        return await provider.embed(this.deidentifyEmbedding(provider, request));
+      } catch (error) {
+        this.emit('embeddingFailed', provider.name, error);
+      }
+    }
+
+    return {
+      provider: 'local',
+      model: localEmbedder.model,
+      dimensions: localEmbedder.dimensions,
+      embeddings: localEmbedder.embedBatch(request.input)
+    };
+  }
+
+  /**
+   * 嵌入输入去标识化，Provider可信时原样返回
+   */
+  private deidentifyEmbedding(provider: IAIProvider, request: EmbeddingRequest): EmbeddingRequest {
+    const { phi, userId, ...rest } = request;
+    if (!this.config.deidentify || this.getProviderState(provider)?.trusted) {
+      return rest;
+    }
+
+    const result = deidentifyTexts(request.input, phi);
+    if (Object.keys(result.counts).length > 0) {
+      logger.info(`向量化前已去标识化 - 服务商: ${provider.name}`, {
+        provider: provider.name,
+        userId,
+        counts: result.counts
+      });
+      this.emit('phiRedacted', provider.name, result.counts);
+    }
+
+    return { ...rest, input: result.texts };
+  }
+
+  /**
+   * 获取用于嵌入的Provider
+   */
+  private getEmbeddingProvider(): IAIProvider | undefined {
+    const candidates = [this.config.embeddingProvider, this.activeProvider];
+
+    for (const type of candidates) {
+      if (!type) continue;
+      const state = this.providers.get(type);
+      if (state && state.isActive && state.provider.capabilities.embedding) {
+        return state.provider;
+      }
+    }
+
+    return undefined;
+  }
+
   /**
    * 获取Provider状态
    */
@@ -0,0 +1,247 @@
+/**
+ * AI辅助功能的输出结构定义
+ *
+ * 与提示词中要求的JSON格式一一对应。对模型常见的小偏差做归一化
+ * （中文枚举值、数字写成字符串、单个字符串代替数组等），
+ * 缺少关键字段或取值无法识别时校验失败，由调用方要求模型修正。
+ */
+
+import { z } from 'zod';
+
+/**
+ * 文本字段：数字转为字符串
+ */
+const text = z.preprocess((value) => (typeof value === 'number' ? String(value) : value), z.string());
+
+/**
+ * 可选文本字段：缺失或为null时为空字符串
+ */
+const optionalText = z.preprocess((value) => value ?? '', text);
+
+/**
+ * 字符串列表：缺失时为空列表，单个字符串视为只有一项
+ */
+const textList = z.preprocess(
+  (value) => (value === undefined || value === null ? [] : typeof value === 'string' ? [value] : value),
+  z.array(text)
+);
+
+/**
+ * 对象列表：缺失时为空列表
+ */
+const list = <T extends z.ZodTypeAny>(item: T) =>
+  z.preprocess((value) => value ?? [], z.array(item));
+
+/**
+ * 0-100分
+ */
+const score = z.coerce.number().min(0).max(100);
+
+/**
+ * 枚举：按同义词表归一化（不区分大小写）后校验
+ */
+function normalizedEnum<T extends [string, ...string[]]>(values: T, aliases: Record<string, T[number]> = {}) {
+  return z.preprocess((value) => {
+    if (typeof value !== 'string') return value;
+    const key = value.trim().toLowerCase();
+    return aliases[key] ?? key;
+  }, z.enum(values));
+}
+
+const riskLevel = normalizedEnum(['low', 'medium', 'high'], {
+  低: 'low',
+  低风险: 'low',
+  中: 'medium',
+  中风险: 'medium',
+  中等: 'medium',
+  高: 'high',
+  高风险: 'high'
+});
+
+export const DiagnoseOutputSchema = z.object({
+  possibleDiseases: z
+    .array(
+      z.object({
+        name: text,
+        probability: optionalText,
+        reasoning: optionalText
+      })
+    )
+    .min(1, '至少提供一个可能的疾病'),
+  recommendedTests: textList,
+  urgencyLevel: normalizedEnum(['low', 'medium', 'high', 'emergency'], {
+    低: 'low',
+    中: 'medium',
+    高: 'high',
+    紧急: 'emergency',
+    急诊: 'emergency'
+  }),
+  suggestions: optionalText
+});
+
+export const QuickRecordOutputSchema = z.object({
+  chiefComplaint: text,
+  presentIllness: text,
+  suggestedDiagnosis: optionalText,
+  recommendedExams: textList,
+  treatmentSuggestions: optionalText
+});
+
+export const DrugInteractionOutputSchema = z.object({
+  riskLevel: normalizedEnum(['low', 'medium', 'high', 'critical'], {
+    低: 'low',
+    低风险: 'low',
+    中: 'medium',
+    中风险: 'medium',
+    高: 'high',
+    高风险: 'high',
+    严重: 'critical'
+  }),
+  interactions: list(
+    z.object({
+      drugs: textList,
+      severity: text,
+      description: text,
+      clinicalSignificance: optionalText,
+      management: optionalText
+    })
+  ),
+  overallAssessment: text,
+  recommendations: textList
+});
+
+export const ContraindicationOutputSchema = z.object({
+  contraindications: list(
+    z.object({
+      medicine: text,
+      severity: text,
+      reason: text,
+      evidence: optionalText,
+      alternatives: textList
+    })
+  ),
+  warnings: textList,
+  recommendations: textList
+});
+
+export const DosageOutputSchema = z.object({
+  isAppropriate: z.preprocess((value) => {
+    if (typeof value !== 'string') return value;
+    if (['true', '是', '合理'].includes(value.trim())) return true;
+    if (['false', '否', '不合理'].includes(value.trim())) return false;
+    return value;
+  }, z.boolean()),
+  assessment: text,
+  standardDosage: optionalText,
+  recommendedDosage: optionalText,
+  adjustmentReason: optionalText,
+  specialConsiderations: textList,
+  monitoringParameters: textList
+});
+
+export const PrescriptionReviewOutputSchema = z.object({
+  overallApproval: normalizedEnum(['approve', 'reject', 'conditional'], {
+    通过: 'approve',
+    不通过: 'reject',
+    驳回: 'reject',
+    有条件通过: 'conditional'
+  }),
+  riskLevel,
+  appropriateness: z.object({
+    score,
+    assessment: optionalText
+  }),
+  issues: list(
+    z.object({
+      severity: normalizedEnum(['critical', 'warning', 'info'], {
+        严重: 'critical',
+        警告: 'warning',
+        提示: 'info'
+      }),
+      category: optionalText,
+      description: text,
+      recommendation: optionalText
+    })
+  ),
+  strengths: textList,
+  improvements: textList,
+  summary: text
+});
+
+export const AlternativeMedicineOutputSchema = z.object({
+  alternatives: list(
+    z.object({
+      medicine: text,
+      reason: text,
+      dosage: optionalText,
+      advantages: textList,
+      considerations: textList,
+      costComparison: optionalText
+    })
+  ),
+  recommendations: optionalText
+});
+
+export const RecordQualityOutputSchema = z.object({
+  overallScore: score,
+  completeness: z.object({ score, missing: textList }),
+  accuracy: z.object({ score, issues: textList }),
+  standardization: z.object({ score, suggestions: textList }),
+  recommendations: textList
+});
+
+export const DiagnosisSuggestionOutputSchema = z.object({
+  suggestedDiagnoses: list(
+    z.object({
+      diagnosis: text,
+      confidence: optionalText,
+      reasoning: optionalText,
+      icd10Code: text.optional()
+    })
+  ),
+  differentialDiagnoses: textList,
+  recommendedTests: textList,
+  notes: optionalText
+});
+
+export const TreatmentPlanOutputSchema = z.object({
+  treatmentPlan: text,
+  medications: list(
+    z.object({
+      name: text,
+      dosage: optionalText,
+      frequency: optionalText,
+      duration: optionalText,
+      notes: optionalText
+    })
+  ),
+  lifestyle: textList,
+  followUp: optionalText,
+  warnings: textList
+});
+
+export const SearchIntentOutputSchema = z.object({
+  intent: text,
+  keywords: textList,
+  filters: z
+    .preprocess(
+      (value) => value ?? {},
+      z.object({
+        symptoms: textList,
+        diagnoses: textList,
+        treatments: textList
+      })
+    )
+});
+
+export type DiagnoseOutput = z.infer<typeof DiagnoseOutputSchema>;
+export type QuickRecordOutput = z.infer<typeof QuickRecordOutputSchema>;
+export type DrugInteractionOutput = z.infer<typeof DrugInteractionOutputSchema>;
+export type ContraindicationOutput = z.infer<typeof ContraindicationOutputSchema>;
+export type DosageOutput = z.infer<typeof DosageOutputSchema>;
+export type PrescriptionReviewOutput = z.infer<typeof PrescriptionReviewOutputSchema>;
+export type AlternativeMedicineOutput = z.infer<typeof AlternativeMedicineOutputSchema>;
+export type RecordQualityOutput = z.infer<typeof RecordQualityOutputSchema>;
+export type DiagnosisSuggestionOutput = z.infer<typeof DiagnosisSuggestionOutputSchema>;
+export type TreatmentPlanOutput = z.infer<typeof TreatmentPlanOutputSchema>;
+export type SearchIntentOutput = z.infer<typeof SearchIntentOutputSchema>;
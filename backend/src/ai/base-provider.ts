@@ -14,8 +14,11 @@ import {
   HealthStatus,
   AIError,
   AIProviderType,
-  ImageAnalysis
+  ImageAnalysis,
+  EmbeddingRequest,
+  EmbeddingResponse
 } from './types';
+import { localEmbedder } from './local-embedding';
 import * as crypto from 'crypto';
 
 /**
@@ -127,14 +130,30 @@ export abstract class BaseAIProvider implements IAIProvider {
   abstract validateApiKey(): Promise<boolean>;
 
   /**
-   * 文本嵌入（可选，子类可重写）
+   * 文本嵌入（默认使用本地嵌入，支持远程嵌入的子类可重写）
    */
-  async embedText?(_text: string): Promise<number[]> {
-    throw new AIError(
-      'Text embedding not supported',
-      'NOT_SUPPORTED',
-      this.name as AIProviderType
-    );
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResponse> {
+    return this.embedLocally(request);
+  }
+
+  /**
+   * 单条文本嵌入
+   */
+  async embedText?(text: string): Promise<number[]> {
+    const response = await this.embed({ input: [text] });
+    return response.embeddings[0];
+  }
+
+  /**
+   * 本地确定性嵌入
+   */
+  protected embedLocally(request: EmbeddingRequest): EmbeddingResponse {
+    return {
+      provider: 'local',
+      model: localEmbedder.model,
+      dimensions: localEmbedder.dimensions,
+      embeddings: localEmbedder.embedBatch(request.input)
+    };
   }
 
   /**
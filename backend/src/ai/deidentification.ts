@@ -0,0 +1,225 @@
+/**
+ * PHI去标识化
+ *
+ * 请求发往院外AI服务商前，将患者姓名、身份证号、电话、地址和病历/患者编号替换为
+ * [姓名1]、[电话1]等占位符，响应中的占位符再还原为原值。
+ * 对照表只在单次请求内有效，不落库也不写日志。
+ *
+ * 识别规则：
+ * - 身份证号、手机号/座机、院内编号（患者/病历/处方/挂号编号）按格式识别
+ * - 姓名、地址、病历号等按"姓名：""住址："等标签识别，调用方也可通过 context.phi 直接提供
+ * - 识别出的值在整个请求中出现的所有位置统一替换
+ * - 嵌入文本同样去标识化，向量不需要还原，不保留对照表
+ */
+
+import { ChatRequest, ChatResponse, MessageRole, PhiHints } from './types';
+
+export type PhiType = 'name' | 'idCard' | 'phone' | 'address' | 'recordNo';
+
+const PLACEHOLDER_LABELS: Record<PhiType, string> = {
+  name: '姓名',
+  idCard: '身份证号',
+  phone: '电话',
+  address: '地址',
+  recordNo: '编号'
+};
+
+/**
+ * 占位符（兼容模型改写为全角括号）
+ */
+const PLACEHOLDER_PATTERN = new RegExp(`[\\[【](${Object.values(PLACEHOLDER_LABELS).join('|')})(\\d+)[\\]】]`, 'g');
+
+/**
+ * 流式输出中可能被截断的占位符的最大长度
+ */
+const MAX_PLACEHOLDER_LENGTH = 12;
+
+const PLACEHOLDER_NOTICE = '文中形如[姓名1]、[电话1]的内容是已隐去的患者身份信息，回复中需要提及时请原样保留占位符。';
+
+interface PhiDetector {
+  type: PhiType;
+  pattern: RegExp; // 有捕获组时取第一个捕获组
+}
+
+const DETECTORS: PhiDetector[] = [
+  {
+    type: 'idCard',
+    pattern: /(?<![\dA-Za-z])\d{6}(?:18|19|20)\d{2}(?:0[1-9]|1[0-2])(?:0[1-9]|[12]\d|3[01])\d{3}[\dXx](?![\dA-Za-z])/g
+  },
+  { type: 'phone', pattern: /(?<!\d)(?:\+?86[-\s]?)?1[3-9]\d{9}(?!\d)/g },
+  { type: 'phone', pattern: /(?<!\d)0\d{2,3}-\d{7,8}(?!\d)/g },
+  // 患者编号P、病历号R、处方号RX、挂号号（科室代码）+ 日期 + 序号
+  { type: 'recordNo', pattern: /(?<![\dA-Za-z])[A-Z][A-Z\d]{0,2}(?:19|20)\d{6}\d{4,5}(?![\dA-Za-z])/g },
+  { type: 'recordNo', pattern: /(?:病历号|病案号|住院号|门诊号|患者编号|就诊卡号|医保卡号)[:：]\s*([A-Za-z\d-]{4,})/g },
+  {
+    type: 'name',
+    pattern: /(?:姓名|当前患者|病人|联系人|家属)[:：]\s*([\u4e00-\u9fff·]{2,5})(?=[\s，,。；;、（(]|$)/gm
+  },
+  { type: 'address', pattern: /(?:住址|地址)[:：]\s*([^\s，,。；;]{4,60})/g },
+  { type: 'address', pattern: /[\u4e00-\u9fff\d]{2,8}(?:路|街|巷|弄|大道)\d+号(?:[\dA-Za-z-]+(?:号楼|栋|幢|单元|室|楼))*/g }
+];
+
+export interface DeidentifyResult {
+  request: ChatRequest;
+  mapping: Map<string, string>; // 占位符 -> 原值
+  counts: Partial<Record<PhiType, number>>; // 各类信息替换的不同值个数
+}
+
+/**
+ * 识别文本中的身份信息，返回 原值 -> 类型
+ */
+function detectPhi(texts: string[], hints?: PhiHints): Map<string, PhiType> {
+  const found = new Map<string, PhiType>();
+
+  const add = (type: PhiType, value: string) => {
+    const trimmed = value.trim();
+    if (trimmed.length >= 2 && !found.has(trimmed)) {
+      found.set(trimmed, type);
+    }
+  };
+
+  hints?.names?.forEach((value) => add('name', value));
+  hints?.addresses?.forEach((value) => add('address', value));
+  hints?.identifiers?.forEach((value) => add('recordNo', value));
+
+  for (const text of texts) {
+    for (const detector of DETECTORS) {
+      for (const match of text.matchAll(detector.pattern)) {
+        add(detector.type, match[1] ?? match[0]);
+      }
+    }
+  }
+
+  return found;
+}
+
+/**
+ * 为文本中出现的身份信息分配占位符，返回对照表和替换函数
+ */
+function buildRedaction(texts: string[], hints?: PhiHints) {
+  const mapping = new Map<string, string>();
+  const counts: Partial<Record<PhiType, number>> = {};
+  const replacements: Array<[string, string]> = [];
+
+  for (const [value, type] of detectPhi(texts, hints)) {
+    if (!texts.some((text) => text.includes(value))) continue;
+    counts[type] = (counts[type] ?? 0) + 1;
+    const placeholder = `[${PLACEHOLDER_LABELS[type]}${counts[type]}]`;
+    mapping.set(placeholder, value);
+    replacements.push([value, placeholder]);
+  }
+
+  // 先替换较长的值，避免姓名等短值破坏包含它的地址
+  replacements.sort((a, b) => b[0].length - a[0].length);
+  const redact = (text: string) =>
+    replacements.reduce((result, [value, placeholder]) => result.split(value).join(placeholder), text);
+
+  return { mapping, counts, redact };
+}
+
+/**
+ * 对请求去标识化，没有识别到身份信息时原样返回请求
+ */
+export function deidentifyRequest(request: ChatRequest): DeidentifyResult {
+  const texts = [request.systemPrompt ?? '', ...request.messages.map((message) => message.content)];
+  const { mapping, counts, redact } = buildRedaction(texts, request.context?.phi);
+
+  if (mapping.size === 0) {
+    return { request, mapping, counts };
+  }
+
+  const messages = request.messages.map((message) => ({ ...message, content: redact(message.content) }));
+  if (messages[0]?.role === MessageRole.SYSTEM) {
+    messages[0] = { ...messages[0], content: `${messages[0].content}\n\n${PLACEHOLDER_NOTICE}` };
+  } else {
+    messages.unshift({ role: MessageRole.SYSTEM, content: PLACEHOLDER_NOTICE });
+  }
+
+  // 身份信息提示不随请求发出
+  const { phi: _phi, ...context } = request.context ?? {};
+
+  return {
+    request: {
+      ...request,
+      messages,
+      systemPrompt: request.systemPrompt && redact(request.systemPrompt),
+      context
+    },
+    mapping,
+    counts
+  };
+}
+
+/**
+ * 对嵌入文本去标识化
+ * 嵌入结果不需要还原，每段文本单独编号，同样内容的病历得到相同的文本
+ */
+export function deidentifyTexts(
+  texts: string[],
+  hints?: PhiHints
+): { texts: string[]; counts: Partial<Record<PhiType, number>> } {
+  const counts: Partial<Record<PhiType, number>> = {};
+
+  const redacted = texts.map((text) => {
+    const result = buildRedaction([text], hints);
+    for (const [type, count] of Object.entries(result.counts) as Array<[PhiType, number]>) {
+      counts[type] = (counts[type] ?? 0) + count;
+    }
+    return result.redact(text);
+  });
+
+  return { texts: redacted, counts };
+}
+
+/**
+ * 将文本中的占位符还原为原值
+ */
+export function reidentify(text: string, mapping: Map<string, string>): string {
+  return text.replace(PLACEHOLDER_PATTERN, (match, label, index) => mapping.get(`[${label}${index}]`) ?? match);
+}
+
+/**
+ * 还原响应中的占位符
+ */
+export function reidentifyResponse(response: ChatResponse, mapping: Map<string, string>): ChatResponse {
+  const { message } = response;
+  return {
+    ...response,
+    message: {
+      ...message,
+      content: reidentify(message.content ?? '', mapping),
+      ...(message.functionCall && {
+        functionCall: { ...message.functionCall, arguments: reidentify(message.functionCall.arguments, mapping) }
+      })
+    }
+  };
+}
+
+/**
+ * 流式输出的占位符还原
+ * 占位符可能被拆到相邻的两段输出中，末尾未闭合的部分暂存到下一段再处理
+ */
+export class StreamReidentifier {
+  private pending = '';
+
+  constructor(private mapping: Map<string, string>) {}
+
+  push(chunk: string): string {
+    const text = this.pending + chunk;
+    const open = Math.max(text.lastIndexOf('['), text.lastIndexOf('【'));
+
+    if (open >= 0 && !/[\]】]/.test(text.slice(open)) && text.length - open <= MAX_PLACEHOLDER_LENGTH) {
+      this.pending = text.slice(open);
+      return reidentify(text.slice(0, open), this.mapping);
+    }
+
+    this.pending = '';
+    return reidentify(text, this.mapping);
+  }
+
+  flush(): string {
+    const rest = reidentify(this.pending, this.mapping);
+    this.pending = '';
+    return rest;
+  }
+}
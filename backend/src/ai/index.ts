@@ -12,6 +12,15 @@ export { GeminiProvider } from './providers/gemini.provider';
 export { KimiProvider } from './providers/kimi.provider';
 export { OpenAIProvider } from './providers/openai.provider';
 
+// 嵌入与向量索引导出
+export { LocalEmbedder, localEmbedder, LOCAL_EMBEDDING_MODEL, LOCAL_EMBEDDING_DIMENSIONS } from './local-embedding';
+export { InMemoryVectorIndex, cosineSimilarity } from './vector-index';
+export type { IVectorIndex, VectorRecord, VectorQuery, VectorMatch } from './vector-index';
+
+// 去标识化导出
+export { deidentifyRequest, deidentifyTexts, reidentify, reidentifyResponse, StreamReidentifier } from './deidentification';
+export type { PhiType, DeidentifyResult } from './deidentification';
+
 // Manager导出
 export { AIProviderManager, LoadBalanceStrategy, AIProviderManagerConfig } from './ai-provider-manager';
 
@@ -26,6 +35,8 @@ export function createDefaultAIProviderManager(): AIProviderManager {
   const manager = new AIProviderManager({
     defaultProvider: (process.env.DEFAULT_AI_PROVIDER as AIProviderType) || AIProviderType.DEEPSEEK,
     enableFailover: true,
+    embeddingProvider: process.env.EMBEDDING_PROVIDER as AIProviderType | undefined,
+    deidentify: process.env.AI_DEIDENTIFY !== 'false',
     healthCheckInterval: 60000,
     loadBalanceStrategy: undefined // 不使用负载均衡，使用单一Provider
   });
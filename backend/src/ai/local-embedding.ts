@@ -0,0 +1,96 @@
+/**
+ * 本地文本嵌入
+ * 基于特征哈希（hashing trick）的确定性向量化，不依赖外部API
+ * 用于没有嵌入能力的Provider以及离线/测试环境
+ */
+
+/**
+ * 本地嵌入模型标识
+ */
+export const LOCAL_EMBEDDING_MODEL = 'local-hash-v1';
+
+/**
+ * 本地嵌入默认维度
+ */
+export const LOCAL_EMBEDDING_DIMENSIONS = 512;
+
+/**
+ * FNV-1a 32位哈希
+ */
+function fnv1a(text: string, seed: number = 0x811c9dc5): number {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * 提取文本特征
+ * 英文/数字按词，中文取单字和二元组（二元组权重更高）
+ */
+function extractFeatures(text: string): Map<string, number> {
+  const features = new Map<string, number>();
+  const add = (feature: string, weight: number) => {
+    features.set(feature, (features.get(feature) || 0) + weight);
+  };
+
+  const segments = text.toLowerCase().match(/[a-z0-9]+|[\u4e00-\u9fff]+/g) || [];
+
+  for (const segment of segments) {
+    if (!/[\u4e00-\u9fff]/.test(segment)) {
+      add(`w:${segment}`, 1);
+      continue;
+    }
+
+    for (let i = 0; i < segment.length; i++) {
+      add(`u:${segment[i]}`, 0.5);
+      if (i < segment.length - 1) {
+        add(`b:${segment.slice(i, i + 2)}`, 1);
+      }
+    }
+  }
+
+  return features;
+}
+
+/**
+ * 本地嵌入器
+ */
+export class LocalEmbedder {
+  readonly model = LOCAL_EMBEDDING_MODEL;
+
+  constructor(readonly dimensions: number = LOCAL_EMBEDDING_DIMENSIONS) {}
+
+  /**
+   * 生成单条文本的归一化向量
+   * 相同输入总是得到相同输出
+   */
+  embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    for (const [feature, weight] of extractFeatures(text)) {
+      const hash = fnv1a(feature);
+      const index = hash % this.dimensions;
+      // 使用第二个哈希决定符号，减少哈希碰撞带来的偏差
+      const sign = fnv1a(feature, 0x9747b28c) & 1 ? 1 : -1;
+      vector[index] += sign * (1 + Math.log(weight + 1));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map(v => v / norm) : vector;
+  }
+
+  /**
+   * 批量生成向量
+   */
+  embedBatch(texts: string[]): number[][] {
+    return texts.map(text => this.embed(text));
+  }
+}
+
+/**
+ * 默认本地嵌入器实例
+ */
+export const localEmbedder = new LocalEmbedder();
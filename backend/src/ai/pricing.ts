@@ -0,0 +1,57 @@
+/**
+ * AI模型单价（元/百万tokens），用于估算调用费用和科室费用分摊
+ *
+ * 按各服务商公开价格整理，美元价格按 1:7.2 折算。
+ * 未列出的模型使用同一服务商的默认单价。
+ */
+
+import { TokenUsage } from './types';
+
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'deepseek-chat': { input: 2, output: 8 },
+  'deepseek-reasoner': { input: 4, output: 16 },
+  'moonshot-v1-8k': { input: 12, output: 12 },
+  'moonshot-v1-32k': { input: 24, output: 24 },
+  'moonshot-v1-128k': { input: 60, output: 60 },
+  'gemini-pro': { input: 3.6, output: 10.8 },
+  'gemini-1.5-flash': { input: 0.54, output: 2.16 },
+  'gemini-1.5-pro': { input: 9, output: 36 },
+  'gpt-4o': { input: 18, output: 72 },
+  'gpt-4o-mini': { input: 1.08, output: 4.32 },
+  'gpt-4-turbo': { input: 72, output: 216 },
+  'gpt-4': { input: 216, output: 432 },
+  'gpt-3.5-turbo': { input: 3.6, output: 10.8 }
+};
+
+const PROVIDER_DEFAULT_PRICES: Record<string, ModelPrice> = {
+  deepseek: MODEL_PRICES['deepseek-chat'],
+  kimi: MODEL_PRICES['moonshot-v1-8k'],
+  gemini: MODEL_PRICES['gemini-pro'],
+  openai: MODEL_PRICES['gpt-3.5-turbo']
+};
+
+/**
+ * 查询模型单价，模型带日期等后缀时按最长前缀匹配（如 gpt-4o-2024-08-06）
+ */
+export function priceOf(provider: string, model: string): ModelPrice | undefined {
+  const matched = Object.keys(MODEL_PRICES)
+    .filter((name) => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return matched ? MODEL_PRICES[matched] : PROVIDER_DEFAULT_PRICES[provider];
+}
+
+/**
+ * 估算调用费用（元），无法确定单价时为0
+ */
+export function estimateCost(provider: string, model: string, usage: TokenUsage): number {
+  const price = priceOf(provider, model);
+  if (!price) {
+    return 0;
+  }
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1000000;
+}
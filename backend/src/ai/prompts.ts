@@ -0,0 +1,761 @@
+/**
+ * AI辅助提示词
+ *
+ * 提示词使用{{name}}引用变量；{{#name}}...{{/name}}段落仅在变量有值时保留；
+ * 引用的变量全部为空的行会被删除（如未提供年龄时去掉“年龄：岁”一行）。
+ * 数据库没有激活的提示词版本时使用此处的内置默认提示词（版本号0）。
+ */
+
+export interface PromptVariable {
+  name: string;
+  label: string;
+  sample: string; // 预览时使用的示例值
+}
+
+export interface PromptContent {
+  system: string;
+  user: string;
+}
+
+export interface PromptDefinition extends PromptContent {
+  name: string;
+  description: string;
+  variables: PromptVariable[];
+}
+
+export type PromptVariables = Record<string, string | number | null | undefined>;
+
+export const PROMPT_KEYS = [
+  'diagnose',
+  'analyze-health-risk',
+  'analyze-medication-review',
+  'analyze-treatment-effectiveness',
+  'analyze-comprehensive',
+  'quick-record',
+  'medical-qa-doctor',
+  'medical-qa-patient',
+  'treatment-suggestions',
+  'drug-interaction',
+  'contraindication',
+  'dosage',
+  'prescription-review',
+  'alternative-medicine',
+  'record-summary',
+  'record-quality',
+  'diagnosis-suggestion',
+  'treatment-plan',
+  'search-intent'
+] as const;
+
+export type PromptKey = (typeof PROMPT_KEYS)[number];
+
+// 常用变量
+const v = {
+  age: { name: 'age', label: '患者年龄', sample: '45' },
+  gender: { name: 'gender', label: '患者性别', sample: '男' },
+  allergies: { name: 'allergies', label: '过敏史（无记录时为“无”）', sample: '青霉素' },
+  medicalHistory: { name: 'medicalHistory', label: '既往病史（无记录时为“无”）', sample: '高血压5年' },
+  chiefComplaint: { name: 'chiefComplaint', label: '主诉', sample: '头痛3天' },
+  symptoms: { name: 'symptoms', label: '症状描述', sample: '头痛、低热，体温37.8℃' },
+  diagnosis: { name: 'diagnosis', label: '诊断', sample: '上呼吸道感染' },
+  medicines: { name: 'medicines', label: '药物列表', sample: '阿莫西林 (0.5g)、布洛芬 (0.2g)' }
+} satisfies Record<string, PromptVariable>;
+
+const analyzePatientVariables: PromptVariable[] = [
+  { name: 'name', label: '患者姓名', sample: '张三' },
+  v.age,
+  v.gender,
+  { name: 'bloodType', label: '血型（未知时为“未知”）', sample: 'A' },
+  v.allergies,
+  v.medicalHistory,
+  { name: 'visitCount', label: '就诊次数', sample: '6' },
+  { name: 'recordCount', label: '病历数', sample: '6' },
+  { name: 'prescriptionCount', label: '处方数', sample: '4' }
+];
+
+const medicalRecordVariables: PromptVariable[] = [
+  v.chiefComplaint,
+  { name: 'presentIllness', label: '现病史', sample: '3天前受凉后出现头痛，伴低热' },
+  { name: 'pastHistory', label: '既往史', sample: '高血压5年' },
+  { name: 'familyHistory', label: '家族史', sample: '父亲有糖尿病' },
+  { name: 'physicalExam', label: '体格检查', sample: 'T 37.8℃，咽部充血' },
+  { name: 'auxiliaryExam', label: '辅助检查', sample: '血常规：白细胞8.5×10^9/L' },
+  v.diagnosis,
+  { name: 'treatmentPlan', label: '治疗方案', sample: '对症退热，多饮水休息' }
+];
+
+export const DEFAULT_PROMPTS: Record<PromptKey, PromptDefinition> = {
+  diagnose: {
+    name: '智能问诊',
+    description: '根据症状分析可能的疾病、建议检查和紧急程度',
+    variables: [
+      { name: 'symptoms', label: '症状（逗号分隔）', sample: '头痛, 发热' },
+      { name: 'patientHistory', label: '病史', sample: '高血压5年' },
+      v.age,
+      v.gender,
+      { name: 'duration', label: '症状持续时间', sample: '3天' }
+    ],
+    system:
+      '你是一位专业的医疗AI助手，具备丰富的临床诊断经验。你的回答应该专业、准确、谨慎，并强调这只是辅助诊断，最终诊断需要医生确认。',
+    user: `你是一位经验丰富的临床医生助手。请根据以下信息进行初步诊断分析：
+
+症状：{{symptoms}}
+病史：{{patientHistory}}
+年龄：{{age}}岁
+性别：{{gender}}
+症状持续时间：{{duration}}
+
+请按以下JSON格式提供分析：
+{
+  "possibleDiseases": [
+    {
+      "name": "疾病名称",
+      "probability": "可能性（高/中/低）",
+      "reasoning": "诊断依据"
+    }
+  ],
+  "recommendedTests": ["建议检查项目"],
+  "urgencyLevel": "紧急程度（low/medium/high/emergency）",
+  "suggestions": "医生建议"
+}
+
+注意：
+1. 提供3-5个最可能的疾病
+2. 按可能性从高到低排序
+3. 建议具体的检查项目
+4. 评估是否需要紧急处理
+5. 保持专业和谨慎`
+  },
+
+  'analyze-health-risk': {
+    name: '患者分析-健康风险',
+    description: '评估患者的健康风险因素和预防建议',
+    variables: analyzePatientVariables,
+    system: '你是一位专业的医疗数据分析专家，擅长从患者数据中发现健康风险和治疗机会。',
+    user: `请分析以下患者的健康风险：
+
+患者信息：
+- 姓名：{{name}}
+- 年龄：{{age}}岁
+- 性别：{{gender}}
+- 血型：{{bloodType}}
+- 过敏史：{{allergies}}
+- 既往病史：{{medicalHistory}}
+
+就诊记录：{{visitCount}}次
+处方记录：{{prescriptionCount}}次
+
+请评估：
+1. 主要健康风险因素
+2. 需要关注的疾病倾向
+3. 预防建议
+4. 随访计划建议`
+  },
+
+  'analyze-medication-review': {
+    name: '患者分析-用药评估',
+    description: '评估患者用药的合理性和潜在相互作用',
+    variables: analyzePatientVariables,
+    system: '你是一位专业的医疗数据分析专家，擅长从患者数据中发现健康风险和治疗机会。',
+    user: `请分析患者的用药情况：
+
+患者信息：
+- 年龄：{{age}}岁
+- 性别：{{gender}}
+- 过敏史：{{allergies}}
+
+处方记录数：{{prescriptionCount}}
+
+请评估：
+1. 用药合理性
+2. 潜在药物相互作用
+3. 用药建议
+4. 需要调整的用药`
+  },
+
+  'analyze-treatment-effectiveness': {
+    name: '患者分析-治疗效果',
+    description: '评估患者的治疗依从性和效果',
+    variables: analyzePatientVariables,
+    system: '你是一位专业的医疗数据分析专家，擅长从患者数据中发现健康风险和治疗机会。',
+    user: `请分析患者的治疗效果：
+
+患者信息：
+- 就诊次数：{{visitCount}}
+- 处方次数：{{prescriptionCount}}
+
+请评估：
+1. 治疗依从性
+2. 症状改善情况
+3. 治疗方案调整建议`
+  },
+
+  'analyze-comprehensive': {
+    name: '患者分析-全面分析',
+    description: '对患者健康状况进行全面评估',
+    variables: analyzePatientVariables,
+    system: '你是一位专业的医疗数据分析专家，擅长从患者数据中发现健康风险和治疗机会。',
+    user: `请对患者进行全面健康分析：
+
+患者基本信息：
+- 姓名：{{name}}
+- 年龄：{{age}}岁
+- 性别：{{gender}}
+- 血型：{{bloodType}}
+- 过敏史：{{allergies}}
+- 既往病史：{{medicalHistory}}
+
+医疗记录：
+- 就诊次数：{{visitCount}}
+- 病历数：{{recordCount}}
+- 处方数：{{prescriptionCount}}
+
+请提供：
+1. 健康状况总体评估
+2. 主要健康风险
+3. 治疗建议
+4. 生活方式建议
+5. 随访计划`
+  },
+
+  'quick-record': {
+    name: '病历快速录入',
+    description: '根据主诉和症状生成结构化病历',
+    variables: [
+      v.chiefComplaint,
+      v.symptoms,
+      { name: 'patientAge', label: '患者年龄', sample: '45' },
+      { name: 'patientGender', label: '患者性别', sample: '男' }
+    ],
+    system: '你是一位经验丰富的临床医生，擅长撰写规范的医疗病历。',
+    user: `你是一位专业的医疗文书助手。请根据以下信息生成结构化的病历记录：
+
+主诉：{{chiefComplaint}}
+症状描述：{{symptoms}}
+患者年龄：{{patientAge}}岁
+患者性别：{{patientGender}}
+
+请按以下JSON格式生成病历：
+{
+  "chiefComplaint": "精炼的主诉",
+  "presentIllness": "现病史（详细描述症状的发生、发展、伴随症状、诱因、加重缓解因素等）",
+  "suggestedDiagnosis": "初步诊断建议",
+  "recommendedExams": ["建议检查项目"],
+  "treatmentSuggestions": "治疗方案建议"
+}
+
+要求：
+1. 主诉简明扼要
+2. 现病史详细完整
+3. 诊断建议合理
+4. 检查项目针对性强
+5. 治疗建议符合规范`
+  },
+
+  'medical-qa-doctor': {
+    name: '医疗知识问答-医生',
+    description: '面向医生的专业医学问答',
+    variables: [
+      { name: 'question', label: '问题', sample: '社区获得性肺炎的经验性抗菌治疗方案？' },
+      { name: 'context', label: '背景信息', sample: '患者65岁，青霉素过敏' }
+    ],
+    system:
+      '你是一位资深的临床医学专家，拥有丰富的临床经验和扎实的医学理论基础。请用专业的医学术语回答问题，并引用相关的医学文献或指南。',
+    user: `{{#context}}背景信息：{{context}}
+
+问题：{{/context}}{{question}}`
+  },
+
+  'medical-qa-patient': {
+    name: '医疗知识问答-患者',
+    description: '面向患者的通俗医学科普问答',
+    variables: [
+      { name: 'question', label: '问题', sample: '感冒需要吃抗生素吗？' },
+      { name: 'context', label: '背景信息', sample: '发热两天' }
+    ],
+    system:
+      '你是一位友好的医疗科普专家，擅长用通俗易懂的语言解释医学知识。请避免使用复杂的医学术语，用患者能理解的方式回答问题。',
+    user: `{{#context}}背景信息：{{context}}
+
+问题：{{/context}}{{question}}`
+  },
+
+  'treatment-suggestions': {
+    name: '患者治疗建议',
+    description: '基于患者信息和就诊记录提供治疗建议',
+    variables: [v.age, v.gender, v.allergies, v.medicalHistory, { name: 'visitCount', label: '最近就诊记录数', sample: '3' }],
+    system: '你是一位经验丰富的临床医生，擅长制定个性化的治疗方案。',
+    user: `基于以下患者信息和最近就诊记录，请提供治疗建议：
+
+患者信息：
+- 年龄：{{age}}岁
+- 性别：{{gender}}
+- 过敏史：{{allergies}}
+- 既往病史：{{medicalHistory}}
+
+最近就诊记录数：{{visitCount}}
+
+请提供：
+1. 当前健康状况评估
+2. 需要关注的健康问题
+3. 治疗方案建议
+4. 预防保健建议
+5. 随访计划`
+  },
+
+  'drug-interaction': {
+    name: '药物相互作用检查',
+    description: '分析多种药物组合的相互作用风险',
+    variables: [v.medicines],
+    system:
+      '你是一位资深的临床药师，拥有丰富的药物相互作用知识。你的分析应该基于循证医学证据，并考虑临床实际情况。',
+    user: `你是一位专业的临床药师。请分析以下药物组合的相互作用风险：
+
+药物列表：{{medicines}}
+
+请按以下JSON格式提供分析：
+{
+  "riskLevel": "风险等级（low/medium/high/critical）",
+  "interactions": [
+    {
+      "drugs": ["药物A", "药物B"],
+      "severity": "严重程度（轻度/中度/严重）",
+      "description": "相互作用描述",
+      "clinicalSignificance": "临床意义",
+      "management": "管理建议"
+    }
+  ],
+  "overallAssessment": "总体评估",
+  "recommendations": ["建议1", "建议2"]
+}
+
+要求：
+1. 识别所有可能的药物相互作用
+2. 评估每个相互作用的临床意义
+3. 提供具体的管理建议
+4. 如果有严重相互作用，建议替代方案`
+  },
+
+  contraindication: {
+    name: '禁忌症检查',
+    description: '根据患者病史和过敏史检查用药禁忌',
+    variables: [
+      v.age,
+      v.gender,
+      v.allergies,
+      v.medicalHistory,
+      { name: 'currentConditions', label: '当前疾病（无时为“无”）', sample: '慢性肾病' },
+      v.medicines
+    ],
+    system: '你是一位资深的临床药师，擅长识别用药禁忌和特殊人群用药注意事项。',
+    user: `你是一位专业的临床药师。请根据患者信息检查以下药物的使用禁忌：
+
+患者信息：
+- 年龄：{{age}}岁
+- 性别：{{gender}}
+- 过敏史：{{allergies}}
+- 既往病史：{{medicalHistory}}
+- 当前疾病：{{currentConditions}}
+
+药物列表：{{medicines}}
+
+请按以下JSON格式提供分析：
+{
+  "contraindications": [
+    {
+      "medicine": "药物名称",
+      "severity": "严重程度（禁用/慎用/注意）",
+      "reason": "禁忌原因",
+      "evidence": "循证依据",
+      "alternatives": ["替代药物建议"]
+    }
+  ],
+  "warnings": ["警告信息"],
+  "recommendations": ["用药建议"]
+}
+
+要求：
+1. 检查每种药物的禁忌症
+2. 考虑患者的特殊情况（年龄、性别、过敏史、病史）
+3. 提供安全的替代方案
+4. 给出明确的用药建议`
+  },
+
+  dosage: {
+    name: '剂量合理性检查',
+    description: '根据患者年龄、体重、肝肾功能评估剂量是否合理',
+    variables: [
+      { name: 'medicine', label: '药物', sample: '阿莫西林' },
+      { name: 'dosage', label: '剂量', sample: '0.5g' },
+      { name: 'frequency', label: '用法', sample: '每日3次' },
+      v.age,
+      v.gender,
+      { name: 'weight', label: '体重（kg）', sample: '70' },
+      { name: 'height', label: '身高（cm）', sample: '175' },
+      { name: 'renalFunction', label: '肾功能', sample: '正常' },
+      { name: 'hepaticFunction', label: '肝功能', sample: '正常' }
+    ],
+    system: '你是一位资深的临床药师，擅长个体化药物剂量调整和特殊人群用药管理。',
+    user: `你是一位专业的临床药师。请评估以下用药方案的剂量合理性：
+
+药物：{{medicine}}
+剂量：{{dosage}}
+用法：{{frequency}}
+
+患者信息：
+- 年龄：{{age}}岁
+- 性别：{{gender}}
+- 体重：{{weight}}kg
+- 身高：{{height}}cm
+- 肾功能：{{renalFunction}}
+- 肝功能：{{hepaticFunction}}
+
+请按以下JSON格式提供分析：
+{
+  "isAppropriate": true/false,
+  "assessment": "剂量评估结论（合理/偏低/偏高/需调整）",
+  "standardDosage": "标准剂量范围",
+  "recommendedDosage": "推荐剂量",
+  "adjustmentReason": "调整原因（如需调整）",
+  "specialConsiderations": ["特殊考虑因素"],
+  "monitoringParameters": ["需监测的指标"]
+}
+
+要求：
+1. 基于患者的年龄、体重、肝肾功能评估剂量
+2. 考虑特殊人群（儿童、老年人、器官功能不全）的剂量调整
+3. 提供具体的剂量建议
+4. 说明需要监测的指标`
+  },
+
+  'prescription-review': {
+    name: '处方智能审核',
+    description: '综合评估处方的合理性、安全性和有效性',
+    variables: [
+      v.diagnosis,
+      v.age,
+      v.gender,
+      v.allergies,
+      v.medicalHistory,
+      { name: 'medicines', label: '处方药物（每行一种）', sample: '- 阿莫西林 0.5g 每日3次 7天' }
+    ],
+    system: '你是一位经验丰富的临床药师，负责处方审核工作。你的审核应该严谨、专业，确保患者用药安全。',
+    user: `你是一位资深的临床药师，请对以下处方进行全面审核：
+
+诊断：{{diagnosis}}
+
+患者信息：
+- 年龄：{{age}}岁
+- 性别：{{gender}}
+- 过敏史：{{allergies}}
+- 既往病史：{{medicalHistory}}
+
+处方药物：
+{{medicines}}
+
+请按以下JSON格式提供审核结果：
+{
+  "overallApproval": "approve/reject/conditional",
+  "riskLevel": "低风险/中风险/高风险",
+  "appropriateness": {
+    "score": 0-100,
+    "assessment": "处方合理性评估"
+  },
+  "issues": [
+    {
+      "severity": "严重/警告/提示",
+      "category": "类别（相互作用/禁忌症/剂量/疗程等）",
+      "description": "问题描述",
+      "recommendation": "建议"
+    }
+  ],
+  "strengths": ["处方优点"],
+  "improvements": ["改进建议"],
+  "summary": "审核总结"
+}
+
+要求：
+1. 评估处方与诊断的符合性
+2. 检查药物相互作用
+3. 验证剂量和用法的合理性
+4. 考虑患者特殊情况
+5. 提供明确的审批意见`
+  },
+
+  'alternative-medicine': {
+    name: '替代药物建议',
+    description: '在药物不可用或有禁忌时提供替代药物建议',
+    variables: [
+      { name: 'originalMedicine', label: '原药物', sample: '阿莫西林' },
+      { name: 'reason', label: '替代原因', sample: '青霉素过敏' },
+      { name: 'indication', label: '适应症', sample: '社区获得性肺炎' },
+      { name: 'age', label: '患者年龄（提供患者信息时才有值）', sample: '45' },
+      { name: 'allergies', label: '过敏史', sample: '青霉素' },
+      { name: 'medicalHistory', label: '既往病史', sample: '无' }
+    ],
+    system: '你是一位资深的临床药师，熟悉各类药物的特性和替代方案。',
+    user: `你是一位经验丰富的临床药师。请为以下情况推荐替代药物：
+
+原药物：{{originalMedicine}}
+替代原因：{{reason}}
+适应症：{{indication}}
+
+{{#age}}患者信息：
+- 年龄：{{age}}岁
+- 过敏史：{{allergies}}
+- 既往病史：{{medicalHistory}}{{/age}}
+
+请按以下JSON格式提供建议：
+{
+  "alternatives": [
+    {
+      "medicine": "替代药物名称",
+      "reason": "推荐理由",
+      "dosage": "推荐剂量",
+      "advantages": ["优点"],
+      "considerations": ["注意事项"],
+      "costComparison": "价格对比"
+    }
+  ],
+  "recommendations": "总体建议"
+}
+
+要求：
+1. 推荐2-3种替代药物
+2. 考虑药物的有效性、安全性、经济性
+3. 说明每种药物的优缺点
+4. 提供具体的用法用量建议`
+  },
+
+  'record-summary': {
+    name: '病历智能总结',
+    description: '生成病历摘要，提取关键信息',
+    variables: medicalRecordVariables.filter((item) => !['familyHistory', 'auxiliaryExam'].includes(item.name)),
+    system: '你是一位经验丰富的医疗文书助手，擅长提炼病历关键信息。',
+    user: `你是一位专业的医疗文书助手。请为以下病历生成简洁的摘要（200字以内）：
+
+主诉：{{chiefComplaint}}
+现病史：{{presentIllness}}
+既往史：{{pastHistory}}
+体格检查：{{physicalExam}}
+诊断：{{diagnosis}}
+治疗方案：{{treatmentPlan}}
+
+要求：
+1. 摘要应包含关键诊断和治疗信息
+2. 语言简洁专业
+3. 突出重点，易于快速了解病情
+4. 控制在200字以内`
+  },
+
+  'record-quality': {
+    name: '病历质量检查',
+    description: '检查病历的完整性和规范性（缺失项显示为“（缺失）”）',
+    variables: medicalRecordVariables,
+    system: '你是一位资深的病历质控专家，熟悉病历书写规范和质量标准。',
+    user: `你是一位资深的病历质控专家。请对以下病历进行质量评估：
+
+主诉：{{chiefComplaint}}
+现病史：{{presentIllness}}
+既往史：{{pastHistory}}
+家族史：{{familyHistory}}
+体格检查：{{physicalExam}}
+辅助检查：{{auxiliaryExam}}
+诊断：{{diagnosis}}
+治疗方案：{{treatmentPlan}}
+
+请按以下JSON格式提供评估：
+{
+  "overallScore": 0-100,
+  "completeness": {
+    "score": 0-100,
+    "missing": ["缺失的内容项"]
+  },
+  "accuracy": {
+    "score": 0-100,
+    "issues": ["准确性问题"]
+  },
+  "standardization": {
+    "score": 0-100,
+    "suggestions": ["规范性建议"]
+  },
+  "recommendations": ["总体改进建议"]
+}
+
+评估维度：
+1. 完整性：病历各项是否齐全
+2. 准确性：描述是否准确、逻辑是否连贯
+3. 规范性：是否符合病历书写规范
+4. 提供具体的改进建议`
+  },
+
+  'diagnosis-suggestion': {
+    name: '诊断建议生成',
+    description: '基于症状和检查结果提供诊断建议',
+    variables: [
+      v.chiefComplaint,
+      v.symptoms,
+      { name: 'physicalExam', label: '体格检查', sample: 'T 37.8℃，咽部充血' },
+      { name: 'auxiliaryExam', label: '辅助检查', sample: '血常规正常' },
+      { name: 'age', label: '患者年龄（提供患者信息时才有值）', sample: '45' },
+      v.gender,
+      v.medicalHistory
+    ],
+    system: '你是一位资深的临床医生，具有丰富的诊断经验。你的建议应该基于循证医学，考虑常见病优先原则。',
+    user: `你是一位经验丰富的临床医生。请根据以下信息提供诊断建议：
+
+主诉：{{chiefComplaint}}
+症状描述：{{symptoms}}
+体格检查：{{physicalExam}}
+辅助检查：{{auxiliaryExam}}
+
+{{#age}}患者信息：
+- 年龄：{{age}}岁
+- 性别：{{gender}}
+- 既往病史：{{medicalHistory}}{{/age}}
+
+请按以下JSON格式提供诊断建议：
+{
+  "suggestedDiagnoses": [
+    {
+      "diagnosis": "诊断名称",
+      "confidence": "可能性（高/中/低）",
+      "reasoning": "诊断依据",
+      "icd10Code": "ICD-10编码（如知道）"
+    }
+  ],
+  "differentialDiagnoses": ["鉴别诊断1", "鉴别诊断2"],
+  "recommendedTests": ["建议的检查项目"],
+  "notes": "诊断注意事项"
+}
+
+要求：
+1. 提供2-4个可能的诊断，按可能性排序
+2. 每个诊断都要说明依据
+3. 提供鉴别诊断
+4. 建议必要的检查项目`
+  },
+
+  'treatment-plan': {
+    name: '治疗方案建议',
+    description: '基于诊断和患者情况生成治疗方案建议',
+    variables: [
+      v.diagnosis,
+      v.symptoms,
+      v.age,
+      v.gender,
+      v.allergies,
+      v.medicalHistory,
+      { name: 'currentMedications', label: '正在服用的药物', sample: '氨氯地平' }
+    ],
+    system: '你是一位资深的临床医生，擅长制定个体化的治疗方案。你的方案应该基于循证医学，考虑患者的具体情况。',
+    user: `你是一位经验丰富的临床医生。请为以下情况制定治疗方案：
+
+诊断：{{diagnosis}}
+症状：{{symptoms}}
+
+患者信息：
+- 年龄：{{age}}岁
+- 性别：{{gender}}
+- 过敏史：{{allergies}}
+- 既往病史：{{medicalHistory}}
+- 正在服用的药物：{{currentMedications}}
+
+请按以下JSON格式提供治疗方案：
+{
+  "treatmentPlan": "总体治疗方案说明",
+  "medications": [
+    {
+      "name": "药物名称",
+      "dosage": "剂量",
+      "frequency": "用药频率",
+      "duration": "疗程",
+      "notes": "注意事项"
+    }
+  ],
+  "lifestyle": ["生活方式建议"],
+  "followUp": "随访计划",
+  "warnings": ["注意事项和警告"]
+}
+
+要求：
+1. 治疗方案应符合临床指南
+2. 考虑患者的特殊情况（年龄、过敏史等）
+3. 药物选择合理，剂量准确
+4. 提供明确的随访计划
+5. 强调重要的注意事项`
+  },
+
+  'search-intent': {
+    name: '病历检索意图解析',
+    description: '理解病历检索查询并提取关键词',
+    variables: [{ name: 'query', label: '检索查询', sample: '近半年胸痛伴高血压的患者' }],
+    system: '你是一位医疗信息检索专家，擅长理解医疗查询意图。',
+    user: `你是一位医疗信息检索专家。请分析以下搜索查询，提取关键信息：
+
+查询：{{query}}
+
+请按以下JSON格式提供分析（只返回JSON）：
+{
+  "intent": "搜索意图",
+  "keywords": ["关键词1", "关键词2"],
+  "filters": {
+    "symptoms": ["症状"],
+    "diagnoses": ["诊断"],
+    "treatments": ["治疗"]
+  }
+}
+
+要求：
+1. 关键词使用病历中常见的医学术语（如"高血压"、"胸痛"）
+2. 不要包含"患者"、"病历"等通用词`
+  }
+};
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+const SECTION = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+
+export function isPromptKey(key: string): key is PromptKey {
+  return (PROMPT_KEYS as readonly string[]).includes(key);
+}
+
+/**
+ * 渲染提示词
+ */
+export function renderPrompt(template: string, variables: PromptVariables): string {
+  const valueOf = (name: string) => {
+    const value = variables[name];
+    return value === undefined || value === null ? '' : String(value);
+  };
+
+  const lines = template
+    .replace(SECTION, (_, name: string, body: string) => (valueOf(name) ? body : ''))
+    .split('\n')
+    .filter((line) => {
+      const names = [...line.matchAll(PLACEHOLDER)].map((match) => match[1]);
+      return names.length === 0 || names.some((name) => valueOf(name));
+    })
+    .map((line) => line.replace(PLACEHOLDER, (_, name: string) => valueOf(name)));
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * 检查提示词中的未知变量（含段落变量）
+ * @returns 未知的变量列表
+ */
+export function findUnknownVariables(key: PromptKey, template: string): string[] {
+  const known = new Set(DEFAULT_PROMPTS[key].variables.map((variable) => variable.name));
+  const unknown = new Set<string>();
+  for (const match of template.matchAll(/\{\{\s*[#/]?\s*(\w+)\s*\}\}/g)) {
+    if (!known.has(match[1])) unknown.add(match[1]);
+  }
+  return [...unknown];
+}
+
+/**
+ * 预览用的示例变量
+ */
+export function samplePromptVariables(key: PromptKey): PromptVariables {
+  return Object.fromEntries(DEFAULT_PROMPTS[key].variables.map((variable) => [variable.name, variable.sample]));
+}
@@ -11,8 +11,11 @@ import {
   StreamResponse,
   AIError,
   AIProviderType,
-  MessageRole
+  MessageRole,
+  EmbeddingRequest,
+  EmbeddingResponse
 } from '../types';
+import { LOCAL_EMBEDDING_MODEL } from '../local-embedding';
 import axios, { AxiosInstance, AxiosError } from 'axios';
 
 /**
@@ -88,7 +91,8 @@ export class DeepSeekProvider extends BaseAIProvider {
     models: [
       'deepseek-chat',
       'deepseek-coder'
-    ]
+    ],
+    embeddingModels: [LOCAL_EMBEDDING_MODEL] // DeepSeek未提供嵌入接口，使用本地嵌入
   };
 
   private client!: AxiosInstance;
@@ -344,6 +348,14 @@ export class DeepSeekProvider extends BaseAIProvider {
     }
   }
 
+  /**
+   * 文本嵌入
+   * DeepSeek API不提供嵌入模型，统一使用本地嵌入
+   */
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResponse> {
+    return this.embedLocally(request);
+  }
+
   /**
    * 构建请求参数
    */
@@ -11,7 +11,9 @@ import {
   StreamResponse,
   AIError,
   AIProviderType,
-  MessageRole
+  MessageRole,
+  EmbeddingRequest,
+  EmbeddingResponse
 } from '../types';
 import axios, { AxiosInstance, AxiosError } from 'axios';
 
@@ -35,6 +37,10 @@ export class GeminiProvider extends BaseAIProvider {
       'gemini-pro',
       'gemini-pro-vision',
       'gemini-ultra'
+    ],
+    embeddingModels: [
+      'embedding-001',
+      'text-embedding-004'
     ]
   };
 
@@ -280,24 +286,37 @@ export class GeminiProvider extends BaseAIProvider {
   /**
    * 文本嵌入
    */
-  async embedText(text: string): Promise<number[]> {
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResponse> {
     this.ensureInitialized();
 
+    const model = request.model || 'embedding-001';
+    const startTime = Date.now();
+
     try {
       const response = await this.client.post(
-        `/models/embedding-001:embedContent`,
+        `/models/${model}:batchEmbedContents`,
         {
-          model: 'models/embedding-001',
-          content: {
-            parts: [{
-              text: text
-            }]
-          }
+          requests: request.input.map(text => ({
+            model: `models/${model}`,
+            content: {
+              parts: [{ text }]
+            }
+          }))
         }
       );
 
-      return response.data.embedding.values;
+      const embeddings: number[][] = response.data.embeddings.map((item: any) => item.values);
+
+      this.recordRequest(true, 0, Date.now() - startTime);
+
+      return {
+        provider: AIProviderType.GEMINI,
+        model,
+        dimensions: embeddings[0]?.length || 0,
+        embeddings
+      };
     } catch (error) {
+      this.recordRequest(false, 0, Date.now() - startTime);
       throw new AIError(
         error instanceof Error ? error.message : 'Embedding failed',
         'EMBEDDING_ERROR',
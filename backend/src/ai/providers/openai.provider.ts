@@ -12,7 +12,9 @@ import {
   AIError,
   AIProviderType,
   MessageRole,
-  ImageAnalysis
+  ImageAnalysis,
+  EmbeddingRequest,
+  EmbeddingResponse
 } from '../types';
 import axios, { AxiosInstance, AxiosError } from 'axios';
 
@@ -39,6 +41,11 @@ export class OpenAIProvider extends BaseAIProvider {
       'gpt-4-vision-preview',
       'gpt-3.5-turbo',
       'gpt-3.5-turbo-16k'
+    ],
+    embeddingModels: [
+      'text-embedding-3-small',
+      'text-embedding-3-large',
+      'text-embedding-ada-002'
     ]
   };
 
@@ -268,17 +275,38 @@ export class OpenAIProvider extends BaseAIProvider {
   /**
    * 文本嵌入
    */
-  async embedText(text: string): Promise<number[]> {
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResponse> {
     this.ensureInitialized();
 
+    const model = request.model || 'text-embedding-3-small';
+    const startTime = Date.now();
+
     try {
       const response = await this.client.post('/embeddings', {
-        model: 'text-embedding-ada-002',
-        input: text
+        model,
+        input: request.input
       });
 
-      return response.data.data[0].embedding;
+      const data = response.data;
+      const embeddings: number[][] = data.data
+        .sort((a: any, b: any) => a.index - b.index)
+        .map((item: any) => item.embedding);
+
+      this.recordRequest(true, data.usage?.total_tokens || 0, Date.now() - startTime);
+
+      return {
+        provider: AIProviderType.OPENAI,
+        model: data.model || model,
+        dimensions: embeddings[0]?.length || 0,
+        embeddings,
+        usage: data.usage ? {
+          promptTokens: data.usage.prompt_tokens,
+          completionTokens: 0,
+          totalTokens: data.usage.total_tokens
+        } : undefined
+      };
     } catch (error) {
+      this.recordRequest(false, 0, Date.now() - startTime);
       throw new AIError(
         error instanceof Error ? error.message : 'Embedding failed',
         'EMBEDDING_ERROR',
@@ -0,0 +1,101 @@
+/**
+ * AI结构化输出解析
+ *
+ * 模型被要求返回JSON，但常常夹带说明文字、代码块标记，或字段缺失/类型不符。
+ * 这里负责从回复中取出JSON并按zod结构校验，校验失败时生成修正提示，
+ * 由调用方要求模型重新输出。
+ */
+
+import { ZodError, ZodType, ZodTypeDef } from 'zod';
+
+/**
+ * 结构化结果的附加信息
+ * - confidence：0-1，模型自报的把握程度（未提供时为1），每次格式修复重试后打八折，降级结果为0
+ * - fallback：模型输出始终不符合结构，返回的是根据原文生成的降级结果
+ * - attempts：调用模型的次数
+ */
+export interface StructuredMeta {
+  confidence: number;
+  fallback: boolean;
+  attempts: number;
+}
+
+export type Structured<T> = T & StructuredMeta;
+
+export type StructuredParseResult<T> =
+  | { success: true; data: T; confidence?: number }
+  | { success: false; error: string };
+
+/**
+ * 每次格式修复重试后置信度的折扣
+ */
+export const REPAIR_CONFIDENCE_FACTOR = 0.8;
+
+/**
+ * 从模型回复中取出JSON文本：优先使用```json代码块，其次取第一个{到最后一个}
+ */
+export function extractJson(content: string): string | null {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const text = fenced ? fenced[1] : content;
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start >= 0 && end > start ? text.slice(start, end + 1) : null;
+}
+
+/**
+ * 将zod校验错误整理为模型可读的修正说明
+ */
+export function describeIssues(error: ZodError): string {
+  return error.issues
+    .slice(0, 10)
+    .map((issue) => `- ${issue.path.length > 0 ? issue.path.join('.') : '根对象'}: ${issue.message}`)
+    .join('\n');
+}
+
+/**
+ * 解析并校验模型输出
+ */
+export function parseStructuredOutput<T>(
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  content: string
+): StructuredParseResult<T> {
+  const json = extractJson(content);
+  if (!json) {
+    return { success: false, error: '- 回复中没有JSON对象' };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    return { success: false, error: `- JSON语法错误: ${(error as Error).message}` };
+  }
+
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    return { success: false, error: describeIssues(result.error) };
+  }
+  return { success: true, data: result.data, confidence: readConfidence(value) };
+}
+
+/**
+ * 要求模型修正格式的提示
+ */
+export function buildRepairPrompt(error: string): string {
+  return `你上一次的回复不符合要求的JSON格式，存在以下问题：
+${error}
+
+请修正后重新输出完整的JSON。只返回JSON对象本身，不要包含任何说明文字或代码块标记，字段名和取值范围保持与要求一致。`;
+}
+
+/**
+ * 模型在JSON中自报的置信度（0-1或百分制）
+ */
+function readConfidence(value: unknown): number | undefined {
+  const raw = (value as { confidence?: unknown })?.confidence;
+  const confidence = typeof raw === 'string' ? parseFloat(raw) : raw;
+  if (typeof confidence !== 'number' || !Number.isFinite(confidence) || confidence < 0) {
+    return undefined;
+  }
+  return Math.min(confidence > 1 ? confidence / 100 : confidence, 1);
+}
@@ -71,9 +71,20 @@ export interface ChatRequest {
     userId?: string;
     sessionId?: string;
     metadata?: Record<string, any>;
+    phi?: PhiHints; // 已知的患者身份信息，发往不可信Provider前去标识化
   };
 }
 
+/**
+ * 患者身份信息提示
+ * 格式可识别的信息（身份证号、电话等）会自动检测，这里用于提供无法可靠识别的姓名、地址等
+ */
+export interface PhiHints {
+  names?: string[];
+  addresses?: string[];
+  identifiers?: string[];
+}
+
 /**
  * 聊天响应接口
  */
@@ -105,6 +116,27 @@ export interface StreamResponse {
   error?: AIError;
 }
 
+/**
+ * 文本嵌入请求
+ */
+export interface EmbeddingRequest {
+  input: string[];
+  model?: string;
+  phi?: PhiHints; // 已知的患者身份信息，发往不可信Provider前去标识化
+  userId?: string; // 发起请求的用户，用于去标识化日志
+}
+
+/**
+ * 文本嵌入响应
+ */
+export interface EmbeddingResponse {
+  provider: AIProviderType | 'local';
+  model: string;
+  dimensions: number;
+  embeddings: number[][];
+  usage?: TokenUsage;
+}
+
 /**
  * Token使用统计
  */
@@ -127,6 +159,7 @@ export interface AICapabilities {
   maxContextLength: number;
   supportedLanguages: string[];
   models: string[];
+  embeddingModels?: string[];
 }
 
 /**
@@ -141,6 +174,7 @@ export interface ProviderConfig {
   timeout?: number;
   proxy?: string;
   headers?: Record<string, string>;
+  trusted?: boolean; // 可信Provider（如院内自建部署），请求不做去标识化
 }
 
 /**
@@ -224,6 +258,9 @@ export interface IAIProvider {
   chat(request: ChatRequest): Promise<ChatResponse>;
   streamChat(request: ChatRequest): AsyncIterableIterator<StreamResponse>;
 
+  // 文本嵌入（不支持远程嵌入的Provider使用本地嵌入）
+  embed(request: EmbeddingRequest): Promise<EmbeddingResponse>;
+
   // 高级功能（可选）
   embedText?(text: string): Promise<number[]>;
   analyzeImage?(image: Buffer, mimeType?: string): Promise<ImageAnalysis>;
@@ -0,0 +1,120 @@
+/**
+ * 向量索引
+ * 定义可插拔的向量存储接口，并提供进程内实现
+ */
+
+/**
+ * 向量记录
+ */
+export interface VectorRecord<M = Record<string, any>> {
+  id: string;
+  vector: number[];
+  model: string; // 生成向量的嵌入模型，不同模型的向量不可比较
+  metadata: M;
+  updatedAt: Date;
+}
+
+/**
+ * 向量查询参数
+ */
+export interface VectorQuery<M = Record<string, any>> {
+  vector: number[];
+  model: string;
+  topK?: number;
+  minScore?: number;
+  filter?: (metadata: M, id: string) => boolean;
+}
+
+/**
+ * 向量查询结果
+ */
+export interface VectorMatch<M = Record<string, any>> {
+  id: string;
+  score: number;
+  metadata: M;
+}
+
+/**
+ * 向量索引接口
+ * 异步接口便于替换为数据库或外部向量服务实现
+ */
+export interface IVectorIndex<M = Record<string, any>> {
+  upsert(record: VectorRecord<M>): Promise<void>;
+  remove(id: string): Promise<void>;
+  get(id: string): Promise<VectorRecord<M> | undefined>;
+  query(query: VectorQuery<M>): Promise<Array<VectorMatch<M>>>;
+  size(): Promise<number>;
+  clear(): Promise<void>;
+}
+
+/**
+ * 余弦相似度
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * 进程内向量索引
+ * 暴力检索，适合万级以下的数据量
+ */
+export class InMemoryVectorIndex<M = Record<string, any>> implements IVectorIndex<M> {
+  private records = new Map<string, VectorRecord<M>>();
+
+  async upsert(record: VectorRecord<M>): Promise<void> {
+    this.records.set(record.id, record);
+  }
+
+  async remove(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+
+  async get(id: string): Promise<VectorRecord<M> | undefined> {
+    return this.records.get(id);
+  }
+
+  async query(query: VectorQuery<M>): Promise<Array<VectorMatch<M>>> {
+    const { vector, model, topK = 10, minScore = 0, filter } = query;
+    const matches: Array<VectorMatch<M>> = [];
+
+    for (const record of this.records.values()) {
+      if (record.model !== model) continue;
+      if (filter && !filter(record.metadata, record.id)) continue;
+
+      const score = cosineSimilarity(vector, record.vector);
+      if (score >= minScore) {
+        matches.push({ id: record.id, score, metadata: record.metadata });
+      }
+    }
+
+    return matches
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  async size(): Promise<number> {
+    return this.records.size;
+  }
+
+  async clear(): Promise<void> {
+    this.records.clear();
+  }
+}
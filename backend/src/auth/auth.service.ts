@@ -1,6 +1,7 @@
 import { PrismaClient, UserRole, UserStatus } from '@prisma/client';
 import { JWTManager } from './jwt.manager';
 import { PasswordManager } from './password.manager';
+import { LoginAttemptManager, LoginContext } from './login-attempt.manager';
 import {
   LoginRequest,
   LoginResponse,
@@ -22,21 +23,25 @@ export class AuthService {
   private prisma: PrismaClient;
   private jwtManager: JWTManager;
   private passwordManager: PasswordManager;
+  private loginAttemptManager: LoginAttemptManager;
 
   constructor(
     prisma: PrismaClient = new PrismaClient(),
     jwtManager: JWTManager = new JWTManager(),
-    passwordManager: PasswordManager = new PasswordManager()
+    passwordManager: PasswordManager = new PasswordManager(),
+    loginAttemptManager: LoginAttemptManager = new LoginAttemptManager(prisma)
   ) {
     this.prisma = prisma;
     this.jwtManager = jwtManager;
     this.passwordManager = passwordManager;
+    this.loginAttemptManager = loginAttemptManager;
   }
 
   /**
    * 用户登录
+   * @param context 请求来源（IP、User-Agent），用于登录日志和异常识别
    */
-  async login(request: LoginRequest): Promise<LoginResponse> {
+  async login(request: LoginRequest, context: LoginContext = {}): Promise<LoginResponse> {
     const { username, password } = request;
 
     // 查找用户
@@ -60,6 +65,9 @@ export class AuthService {
       );
     }
 
+    // 锁定期内直接拒绝，不再校验密码
+    this.loginAttemptManager.assertNotLocked(user);
+
     // 检查用户状态
     if (user.status === UserStatus.INACTIVE) {
       throw new AuthError(
@@ -84,8 +92,8 @@ export class AuthService {
     );
 
     if (!isValidPassword) {
-      // 记录失败的登录尝试
-      await this.recordLoginAttempt(user.id, false);
+      // 记录失败的登录尝试，连续失败达到阈值时锁定账号（响应与密码错误相同）
+      await this.loginAttemptManager.recordFailure(user, context);
       logger.warn(`登录失败 - 密码错误: ${username}`);
       throw new AuthError(
         '用户名或密码错误',
@@ -94,15 +102,15 @@ export class AuthService {
     }
 
     // 生成Token
-    const tokens = this.jwtManager.generateTokens(
+    const tokens = await this.jwtManager.generateTokens(
       user.id,
       user.username,
       user.email || undefined,
       user.role
     );
 
-    // 记录成功的登录
-    await this.recordLoginAttempt(user.id, true);
+    // 记录成功的登录（同时清除锁定状态、识别新IP/新设备）
+    const anomaly = await this.loginAttemptManager.recordSuccess(user, context);
 
     // 使用mapUserToResponse映射完整用户信息
     const userResponse = this.mapUserToResponse(user);
@@ -110,7 +118,8 @@ export class AuthService {
     // 构建响应
     const response: LoginResponse = {
       user: userResponse,
-      tokens
+      tokens,
+      anomaly
     };
 
     logger.info(`登录成功 - 用户: ${username}, 角色: ${user.role}`);
@@ -121,10 +130,11 @@ export class AuthService {
    * 用户登出
    */
   async logout(userId: string, accessToken: string, refreshToken?: string): Promise<void> {
-    // 撤销Token
-    this.jwtManager.revokeToken(accessToken);
+    // 撤销Access Token所属会话，请求未携带cookie时客户端保存的Refresh Token同样失效
+    await this.jwtManager.revokeSession(accessToken);
+    // cookie中的Refresh Token可能属于其他会话，一并撤销
     if (refreshToken) {
-      this.jwtManager.revokeToken(refreshToken);
+      await this.jwtManager.revokeToken(refreshToken);
     }
 
     logger.info(`登出成功 - 用户ID: ${userId}`);
@@ -329,27 +339,6 @@ export class AuthService {
     return this.mapUserToResponse(newUser);
   }
 
-  /**
-   * 记录登录尝试
-   */
-  private async recordLoginAttempt(
-    userId: string,
-    success: boolean
-  ): Promise<void> {
-    try {
-      await this.prisma.loginLog.create({
-        data: {
-          userId,
-          success,
-          ip: '127.0.0.1', // TODO: 从请求中获取真实IP
-          userAgent: 'Unknown' // TODO: 从请求中获取User-Agent
-        }
-      });
-    } catch (error) {
-      logger.error('记录登录日志失败:', error);
-    }
-  }
-
   /**
    * 映射用户实体到响应对象
    */
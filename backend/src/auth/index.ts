@@ -8,7 +8,10 @@ export * from './types';
 
 // 导出核心类
 export { JWTManager } from './jwt.manager';
+export { PrismaTokenStore, InMemoryTokenStore } from './token.store';
+export type { TokenStore, RefreshTokenRecord } from './token.store';
 export { PasswordManager } from './password.manager';
+export { LoginAttemptManager } from './login-attempt.manager';
 export { AuthService } from './auth.service';
 
 // 导出中间件
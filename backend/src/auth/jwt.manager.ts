@@ -1,11 +1,15 @@
 import * as jwt from 'jsonwebtoken';
+import { randomUUID } from 'crypto';
 import { TokenPayload, TokenPair, AuthError, AuthErrorCode } from './types';
+import { TokenStore, PrismaTokenStore } from './token.store';
 import { UserRole } from '@prisma/client';
 import { logger } from '../utils/logger';
+import { prisma } from '../utils/prisma';
 
 /**
  * JWT Token管理器
  * 处理JWT Token的生成、验证、刷新和撤销
+ * 撤销状态和Refresh Token轮换记录保存在TokenStore中（默认数据库）
  */
 export class JWTManager {
   private accessTokenSecret: string;
@@ -13,20 +17,22 @@ export class JWTManager {
   private accessTokenExpiry: string;
   private refreshTokenExpiry: string;
   private issuer: string;
-  private revokedTokens: Set<string> = new Set(); // 简单的内存黑名单，生产环境应使用Redis
+  private tokenStore: TokenStore;
 
   constructor(
     accessTokenSecret: string = process.env.JWT_SECRET || 'default-secret-change-in-production',
     refreshTokenSecret: string = process.env.JWT_REFRESH_SECRET || 'refresh-secret-change-in-production',
     accessTokenExpiry: string = process.env.JWT_EXPIRES_IN || '15m',
     refreshTokenExpiry: string = process.env.JWT_REFRESH_EXPIRES_IN || '7d',
-    issuer: string = 'AiliaoX'
+    issuer: string = 'AiliaoX',
+    tokenStore: TokenStore = new PrismaTokenStore(prisma)
   ) {
     this.accessTokenSecret = accessTokenSecret;
     this.refreshTokenSecret = refreshTokenSecret;
     this.accessTokenExpiry = accessTokenExpiry;
     this.refreshTokenExpiry = refreshTokenExpiry;
     this.issuer = issuer;
+    this.tokenStore = tokenStore;
 
     // 警告：使用默认密钥
     if (accessTokenSecret.includes('default')) {
@@ -36,24 +42,36 @@ export class JWTManager {
 
   /**
    * 生成Token对
+   * @param familyId 登录会话标识，刷新时沿用，新登录时自动生成
    */
-  generateTokens(userId: string, username: string, email: string | undefined, role: UserRole): TokenPair {
+  async generateTokens(
+    userId: string,
+    username: string,
+    email: string | undefined,
+    role: UserRole,
+    familyId: string = randomUUID()
+  ): Promise<TokenPair> {
     // Access Token载荷
     const accessPayload: TokenPayload = {
       userId,
       username,
       email,
       role,
-      type: 'access'
+      type: 'access',
+      jti: randomUUID(),
+      familyId
     };
 
     // Refresh Token载荷
+    const refreshJti = randomUUID();
     const refreshPayload: TokenPayload = {
       userId,
       username,
       email,
       role,
-      type: 'refresh'
+      type: 'refresh',
+      jti: refreshJti,
+      familyId
     };
 
     // 生成Access Token
@@ -82,6 +100,14 @@ export class JWTManager {
     const accessExpiresIn = this.parseExpiry(this.accessTokenExpiry);
     const refreshExpiresIn = this.parseExpiry(this.refreshTokenExpiry);
 
+    // 登记Refresh Token，用于轮换和重放检测
+    await this.tokenStore.saveRefreshToken({
+      jti: refreshJti,
+      familyId,
+      userId,
+      expiresAt: new Date(Date.now() + refreshExpiresIn * 1000)
+    });
+
     logger.info(`生成Token对 - 用户: ${username}, 角色: ${role}`);
 
     return {
@@ -95,30 +121,13 @@ export class JWTManager {
   /**
    * 验证Access Token
    */
-  verifyAccessToken(token: string): TokenPayload {
+  async verifyAccessToken(token: string): Promise<TokenPayload> {
+    let payload: TokenPayload;
     try {
-      // 检查是否在黑名单中
-      if (this.isTokenRevoked(token)) {
-        throw new AuthError(
-          'Token已被撤销',
-          AuthErrorCode.TOKEN_REVOKED
-        );
-      }
-
       // 验证Token
-      const payload = jwt.verify(token, this.accessTokenSecret, {
+      payload = jwt.verify(token, this.accessTokenSecret, {
         issuer: this.issuer
       }) as TokenPayload;
-
-      // 确保是Access Token
-      if (payload.type !== 'access') {
-        throw new AuthError(
-          '无效的Token类型',
-          AuthErrorCode.TOKEN_INVALID
-        );
-      }
-
-      return payload;
     } catch (error) {
       if (error instanceof jwt.TokenExpiredError) {
         throw new AuthError(
@@ -130,44 +139,146 @@ export class JWTManager {
           '无效的Access Token',
           AuthErrorCode.TOKEN_INVALID
         );
-      } else if (error instanceof AuthError) {
-        throw error;
-      } else {
-        throw new AuthError(
-          'Token验证失败',
-          AuthErrorCode.TOKEN_INVALID
-        );
       }
+      throw new AuthError(
+        'Token验证失败',
+        AuthErrorCode.TOKEN_INVALID
+      );
+    }
+
+    // 确保是Access Token
+    if (payload.type !== 'access' || !payload.jti) {
+      throw new AuthError(
+        '无效的Token类型',
+        AuthErrorCode.TOKEN_INVALID
+      );
+    }
+
+    // 检查Token本身或所属会话是否已被撤销
+    if (await this.tokenStore.isAccessTokenRevoked(payload.jti, payload.familyId)) {
+      throw new AuthError(
+        'Token已被撤销',
+        AuthErrorCode.TOKEN_REVOKED
+      );
     }
+
+    return payload;
   }
 
   /**
    * 验证Refresh Token
+   * 已使用（已轮换）或已撤销的Refresh Token均视为无效
    */
-  verifyRefreshToken(token: string): TokenPayload {
-    try {
-      // 检查是否在黑名单中
-      if (this.isTokenRevoked(token)) {
-        throw new AuthError(
-          'Refresh Token已被撤销',
-          AuthErrorCode.TOKEN_REVOKED
-        );
-      }
+  async verifyRefreshToken(token: string): Promise<TokenPayload> {
+    const { payload, usedAt } = await this.loadRefreshToken(token);
+
+    if (usedAt) {
+      throw new AuthError(
+        'Refresh Token已被撤销',
+        AuthErrorCode.TOKEN_REVOKED
+      );
+    }
 
+    return payload;
+  }
+
+  /**
+   * 刷新Token
+   * 每次刷新都会轮换Refresh Token；若已使用过的Refresh Token被再次提交，
+   * 视为Token被盗用，撤销整个会话的所有Token
+   */
+  async refreshTokens(refreshToken: string): Promise<TokenPair> {
+    const { payload, usedAt } = await this.loadRefreshToken(refreshToken);
+    const familyId = payload.familyId!;
+
+    if (usedAt) {
+      await this.handleRefreshTokenReuse(payload);
+    }
+
+    // 生成新的Token对并将旧Token标记为已使用
+    const tokens = await this.generateTokens(
+      payload.userId,
+      payload.username,
+      payload.email,
+      payload.role,
+      familyId
+    );
+    const newJti = this.decodeToken(tokens.refreshToken)!.jti!;
+
+    const marked = await this.tokenStore.markRefreshTokenUsed(payload.jti!, newJti);
+    if (!marked) {
+      // 并发请求抢先使用了同一个Refresh Token
+      await this.handleRefreshTokenReuse(payload);
+    }
+
+    return tokens;
+  }
+
+  /**
+   * 撤销Token
+   * Access Token单独撤销；Refresh Token撤销其所属的整个会话
+   */
+  async revokeToken(token: string, reason: string = 'logout'): Promise<void> {
+    const payload = this.decodeToken(token);
+    if (!payload?.jti) {
+      logger.warn('撤销Token失败 - 无法解析Token标识');
+      return;
+    }
+
+    if (payload.type === 'refresh' && payload.familyId) {
+      await this.tokenStore.revokeFamily(payload.familyId, reason);
+    } else {
+      const expiresAt = payload.exp
+        ? new Date(payload.exp * 1000)
+        : new Date(Date.now() + this.parseExpiry(this.accessTokenExpiry) * 1000);
+      await this.tokenStore.revokeAccessToken(payload.jti, payload.userId, expiresAt, reason);
+    }
+    logger.info(`Token已撤销: ${payload.jti}`);
+
+    // 顺带清理已过期的记录
+    this.cleanupRevokedTokens();
+  }
+
+  /**
+   * 撤销Token所属的整个登录会话（用于登出）
+   * Access Token本身同时撤销，同一会话的Refresh Token无论保存在cookie还是客户端存储中都失效
+   */
+  async revokeSession(token: string, reason: string = 'logout'): Promise<void> {
+    await this.revokeToken(token, reason);
+
+    const payload = this.decodeToken(token);
+    if (payload?.type === 'access' && payload.familyId) {
+      const count = await this.tokenStore.revokeFamily(payload.familyId, reason);
+      logger.info(`登录会话已撤销: ${payload.familyId}, Refresh Token数量: ${count}`);
+    }
+  }
+
+  /**
+   * 检查Token是否被撤销
+   */
+  async isTokenRevoked(token: string): Promise<boolean> {
+    const payload = this.decodeToken(token);
+    if (!payload?.jti) {
+      return false;
+    }
+
+    if (payload.type === 'refresh') {
+      const record = await this.tokenStore.findRefreshToken(payload.jti);
+      return !record || Boolean(record.revokedAt || record.usedAt);
+    }
+    return this.tokenStore.isAccessTokenRevoked(payload.jti, payload.familyId);
+  }
+
+  /**
+   * 校验Refresh Token签名并读取其持久化状态
+   */
+  private async loadRefreshToken(token: string): Promise<{ payload: TokenPayload; usedAt?: Date | null }> {
+    let payload: TokenPayload;
+    try {
       // 验证Token
-      const payload = jwt.verify(token, this.refreshTokenSecret, {
+      payload = jwt.verify(token, this.refreshTokenSecret, {
         issuer: this.issuer
       }) as TokenPayload;
-
-      // 确保是Refresh Token
-      if (payload.type !== 'refresh') {
-        throw new AuthError(
-          '无效的Token类型',
-          AuthErrorCode.REFRESH_TOKEN_INVALID
-        );
-      }
-
-      return payload;
     } catch (error) {
       if (error instanceof jwt.TokenExpiredError) {
         throw new AuthError(
@@ -179,52 +290,50 @@ export class JWTManager {
           '无效的Refresh Token',
           AuthErrorCode.REFRESH_TOKEN_INVALID
         );
-      } else if (error instanceof AuthError) {
-        throw error;
-      } else {
-        throw new AuthError(
-          'Refresh Token验证失败',
-          AuthErrorCode.REFRESH_TOKEN_INVALID
-        );
       }
+      throw new AuthError(
+        'Refresh Token验证失败',
+        AuthErrorCode.REFRESH_TOKEN_INVALID
+      );
     }
-  }
-
-  /**
-   * 刷新Token
-   */
-  refreshTokens(refreshToken: string): TokenPair {
-    // 验证Refresh Token
-    const payload = this.verifyRefreshToken(refreshToken);
 
-    // 撤销旧的Refresh Token
-    this.revokeToken(refreshToken);
+    // 确保是Refresh Token
+    if (payload.type !== 'refresh' || !payload.jti || !payload.familyId) {
+      throw new AuthError(
+        '无效的Token类型',
+        AuthErrorCode.REFRESH_TOKEN_INVALID
+      );
+    }
 
-    // 生成新的Token对
-    return this.generateTokens(
-      payload.userId,
-      payload.username,
-      payload.email,
-      payload.role
-    );
-  }
+    const record = await this.tokenStore.findRefreshToken(payload.jti);
+    if (!record) {
+      throw new AuthError(
+        '无效的Refresh Token',
+        AuthErrorCode.REFRESH_TOKEN_INVALID
+      );
+    }
 
-  /**
-   * 撤销Token
-   */
-  revokeToken(token: string): void {
-    this.revokedTokens.add(token);
-    logger.info(`Token已撤销: ${token.substring(0, 20)}...`);
+    if (record.revokedAt) {
+      throw new AuthError(
+        'Refresh Token已被撤销',
+        AuthErrorCode.TOKEN_REVOKED
+      );
+    }
 
-    // 定期清理过期的撤销记录（避免内存泄漏）
-    this.cleanupRevokedTokens();
+    return { payload, usedAt: record.usedAt };
   }
 
   /**
-   * 检查Token是否被撤销
+   * 处理Refresh Token重放：撤销整个会话并拒绝请求
    */
-  isTokenRevoked(token: string): boolean {
-    return this.revokedTokens.has(token);
+  private async handleRefreshTokenReuse(payload: TokenPayload): Promise<never> {
+    const count = await this.tokenStore.revokeFamily(payload.familyId!, 'refresh_token_reuse');
+    logger.warn(`检测到Refresh Token重复使用，已撤销会话 - 用户: ${payload.username}, 会话: ${payload.familyId}, 撤销数量: ${count}`);
+
+    throw new AuthError(
+      'Refresh Token已被使用，当前会话已失效，请重新登录',
+      AuthErrorCode.REFRESH_TOKEN_REUSED
+    );
   }
 
   /**
@@ -279,12 +388,15 @@ export class JWTManager {
    * 清理过期的撤销记录
    */
   private cleanupRevokedTokens(): void {
-    // 简单实现：当撤销列表超过1000个时，清空
-    // 生产环境应该使用Redis并设置TTL
-    if (this.revokedTokens.size > 1000) {
-      this.revokedTokens.clear();
-      logger.info('清理Token撤销列表');
-    }
+    this.tokenStore.deleteExpired(new Date())
+      .then((count) => {
+        if (count > 0) {
+          logger.info(`清理过期Token记录: ${count}条`);
+        }
+      })
+      .catch((error) => {
+        logger.error('清理过期Token记录失败:', error);
+      });
   }
 
   /**
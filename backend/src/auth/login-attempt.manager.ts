@@ -0,0 +1,223 @@
+import { PrismaClient } from '@prisma/client';
+import { AuthError, AuthErrorCode } from './types';
+import { logger } from '../utils/logger';
+
+/**
+ * 登录请求上下文
+ */
+export interface LoginContext {
+  ip?: string;
+  userAgent?: string;
+}
+
+/**
+ * 登录锁定策略
+ */
+export interface LockoutPolicy {
+  maxFailures: number; // 窗口内允许的连续失败次数
+  windowMinutes: number; // 统计连续失败的时间窗口
+  baseLockMinutes: number; // 首次锁定时长
+  maxLockMinutes: number; // 锁定时长上限
+}
+
+/**
+ * 登录异常标记
+ */
+export interface LoginAnomaly {
+  isNewIp: boolean;
+  isNewUserAgent: boolean;
+}
+
+const DEFAULT_POLICY: LockoutPolicy = {
+  maxFailures: parseInt(process.env.LOGIN_MAX_FAILURES || '5'),
+  windowMinutes: parseInt(process.env.LOGIN_FAILURE_WINDOW_MINUTES || '15'),
+  baseLockMinutes: parseInt(process.env.LOGIN_LOCK_MINUTES || '15'),
+  maxLockMinutes: parseInt(process.env.LOGIN_MAX_LOCK_MINUTES || '1440')
+};
+
+const UNKNOWN_IP = 'unknown';
+
+/**
+ * 计算第N次锁定的时长（分钟），每次锁定时长翻倍直至上限
+ */
+export function calculateLockMinutes(lockoutCount: number, policy: LockoutPolicy): number {
+  const minutes = policy.baseLockMinutes * Math.pow(2, Math.max(0, lockoutCount - 1));
+  return Math.min(minutes, policy.maxLockMinutes);
+}
+
+/**
+ * 登录尝试管理器
+ * 基于LoginLog实现暴力破解防护（连续失败锁定、递增锁定时长）和异常登录识别
+ */
+export class LoginAttemptManager {
+  private prisma: PrismaClient;
+  private policy: LockoutPolicy;
+
+  constructor(prisma: PrismaClient, policy: Partial<LockoutPolicy> = {}) {
+    this.prisma = prisma;
+    this.policy = { ...DEFAULT_POLICY, ...policy };
+  }
+
+  /**
+   * 检查账号是否处于锁定期，锁定中则拒绝登录
+   * 与用户不存在、密码错误返回相同的响应，避免通过锁定状态探测用户名是否存在
+   */
+  assertNotLocked(user: { username: string; lockedUntil: Date | null }, now: Date = new Date()): void {
+    if (user.lockedUntil && user.lockedUntil > now) {
+      const remainingMinutes = Math.ceil((user.lockedUntil.getTime() - now.getTime()) / 60000);
+      logger.warn(`登录被拒绝 - 账号已锁定: ${user.username}, 剩余${remainingMinutes}分钟`);
+      throw new AuthError(
+        '用户名或密码错误',
+        AuthErrorCode.INVALID_CREDENTIALS
+      );
+    }
+  }
+
+  /**
+   * 记录失败的登录尝试，达到阈值时锁定账号
+   * @returns 锁定截止时间，未触发锁定时返回null
+   */
+  async recordFailure(
+    user: { id: string; username: string; lockedUntil: Date | null; lockoutCount: number; unlockedAt?: Date | null },
+    context: LoginContext = {},
+    reason: string = 'INVALID_PASSWORD',
+    now: Date = new Date()
+  ): Promise<Date | null> {
+    await this.createLog(user.id, false, context, { failureReason: reason });
+
+    // 统计窗口内、上次锁定结束或管理员解锁后的失败记录，遇到成功登录即中断
+    const windowStart = new Date(now.getTime() - this.policy.windowMinutes * 60000);
+    const since = [user.lockedUntil, user.unlockedAt].reduce<Date>(
+      (latest, time) => (time && time > latest ? time : latest),
+      windowStart
+    );
+    const recentLogs = await this.prisma.loginLog.findMany({
+      where: { userId: user.id, loginAt: { gte: since } },
+      orderBy: { loginAt: 'desc' },
+      take: this.policy.maxFailures,
+      select: { success: true }
+    });
+
+    const consecutiveFailures = recentLogs.findIndex((log) => log.success);
+    const failures = consecutiveFailures === -1 ? recentLogs.length : consecutiveFailures;
+    if (failures < this.policy.maxFailures) {
+      return null;
+    }
+
+    const lockoutCount = user.lockoutCount + 1;
+    const lockedUntil = new Date(now.getTime() + calculateLockMinutes(lockoutCount, this.policy) * 60000);
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: { lockedUntil, lockoutCount }
+    });
+
+    logger.warn(`账号已锁定 - 用户: ${user.username}, 第${lockoutCount}次锁定, 解锁时间: ${lockedUntil.toISOString()}`);
+    return lockedUntil;
+  }
+
+  /**
+   * 记录成功的登录，清除锁定状态并识别新IP/新设备
+   */
+  async recordSuccess(
+    user: { id: string; username: string; lockoutCount: number },
+    context: LoginContext = {}
+  ): Promise<LoginAnomaly> {
+    const anomaly = await this.detectAnomaly(user.id, context);
+    await this.createLog(user.id, true, context, anomaly);
+
+    if (user.lockoutCount > 0) {
+      await this.prisma.user.update({
+        where: { id: user.id },
+        data: { lockedUntil: null, lockoutCount: 0 }
+      });
+    }
+
+    if (anomaly.isNewIp || anomaly.isNewUserAgent) {
+      logger.warn(
+        `异常登录 - 用户: ${user.username}, IP: ${context.ip || UNKNOWN_IP}` +
+        `${anomaly.isNewIp ? '（新IP）' : ''}${anomaly.isNewUserAgent ? '，新设备' : ''}`
+      );
+    }
+
+    return anomaly;
+  }
+
+  /**
+   * 获取用户登录历史
+   */
+  async getLoginHistory(userId: string, options: { page?: number; limit?: number; success?: boolean } = {}) {
+    const { page = 1, limit = 20, success } = options;
+    const where = {
+      userId,
+      ...(success !== undefined && { success })
+    };
+
+    const [logs, total] = await Promise.all([
+      this.prisma.loginLog.findMany({
+        where,
+        orderBy: { loginAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      this.prisma.loginLog.count({ where })
+    ]);
+
+    return {
+      logs,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  /**
+   * 与历史成功登录比对，判断是否来自新IP或新设备
+   * 首次登录不视为异常
+   */
+  private async detectAnomaly(userId: string, context: LoginContext): Promise<LoginAnomaly> {
+    const previous = await this.prisma.loginLog.count({
+      where: { userId, success: true }
+    });
+    if (previous === 0) {
+      return { isNewIp: false, isNewUserAgent: false };
+    }
+
+    const [sameIp, sameUserAgent] = await Promise.all([
+      context.ip
+        ? this.prisma.loginLog.count({ where: { userId, success: true, ip: context.ip } })
+        : Promise.resolve(1),
+      context.userAgent
+        ? this.prisma.loginLog.count({ where: { userId, success: true, userAgent: context.userAgent } })
+        : Promise.resolve(1)
+    ]);
+
+    return {
+      isNewIp: sameIp === 0,
+      isNewUserAgent: sameUserAgent === 0
+    };
+  }
+
+  private async createLog(
+    userId: string,
+    success: boolean,
+    context: LoginContext,
+    extra: { failureReason?: string; isNewIp?: boolean; isNewUserAgent?: boolean }
+  ): Promise<void> {
+    try {
+      await this.prisma.loginLog.create({
+        data: {
+          userId,
+          success,
+          ip: (context.ip || UNKNOWN_IP).substring(0, 45),
+          userAgent: context.userAgent,
+          ...extra
+        }
+      });
+    } catch (error) {
+      logger.error('记录登录日志失败:', error);
+    }
+  }
+}
@@ -0,0 +1,187 @@
+import { PrismaClient } from '@prisma/client';
+
+/**
+ * Refresh Token持久化记录
+ */
+export interface RefreshTokenRecord {
+  jti: string;
+  familyId: string;
+  userId: string;
+  expiresAt: Date;
+  usedAt?: Date | null;
+  replacedById?: string | null;
+  revokedAt?: Date | null;
+}
+
+/**
+ * Token状态存储
+ * 保存已签发的Refresh Token和已撤销的Access Token，使撤销在重启和多实例间生效
+ */
+export interface TokenStore {
+  saveRefreshToken(record: RefreshTokenRecord): Promise<void>;
+  findRefreshToken(jti: string): Promise<RefreshTokenRecord | null>;
+  /**
+   * 将Refresh Token标记为已使用
+   * 仅当Token尚未使用时成功，返回false表示已被使用过（并发刷新或重放）
+   */
+  markRefreshTokenUsed(jti: string, replacedById: string): Promise<boolean>;
+  revokeFamily(familyId: string, reason: string): Promise<number>;
+  revokeAccessToken(jti: string, userId: string | undefined, expiresAt: Date, reason: string): Promise<void>;
+  isAccessTokenRevoked(jti: string, familyId?: string): Promise<boolean>;
+  deleteExpired(now: Date): Promise<number>;
+}
+
+/**
+ * 基于数据库的Token存储
+ */
+export class PrismaTokenStore implements TokenStore {
+  constructor(private prisma: PrismaClient) {}
+
+  async saveRefreshToken(record: RefreshTokenRecord): Promise<void> {
+    await this.prisma.refreshToken.create({
+      data: {
+        id: record.jti,
+        familyId: record.familyId,
+        userId: record.userId,
+        expiresAt: record.expiresAt
+      }
+    });
+  }
+
+  async findRefreshToken(jti: string): Promise<RefreshTokenRecord | null> {
+    const token = await this.prisma.refreshToken.findUnique({ where: { id: jti } });
+    if (!token) {
+      return null;
+    }
+
+    return {
+      jti: token.id,
+      familyId: token.familyId,
+      userId: token.userId,
+      expiresAt: token.expiresAt,
+      usedAt: token.usedAt,
+      replacedById: token.replacedById,
+      revokedAt: token.revokedAt
+    };
+  }
+
+  async markRefreshTokenUsed(jti: string, replacedById: string): Promise<boolean> {
+    // 条件更新保证同一Refresh Token只能成功轮换一次
+    const result = await this.prisma.refreshToken.updateMany({
+      where: { id: jti, usedAt: null, revokedAt: null },
+      data: { usedAt: new Date(), replacedById }
+    });
+    return result.count === 1;
+  }
+
+  async revokeFamily(familyId: string, reason: string): Promise<number> {
+    const result = await this.prisma.refreshToken.updateMany({
+      where: { familyId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason }
+    });
+    return result.count;
+  }
+
+  async revokeAccessToken(jti: string, userId: string | undefined, expiresAt: Date, reason: string): Promise<void> {
+    await this.prisma.revokedToken.upsert({
+      where: { jti },
+      create: { jti, userId, expiresAt, reason },
+      update: {}
+    });
+  }
+
+  async isAccessTokenRevoked(jti: string, familyId?: string): Promise<boolean> {
+    const [revoked, revokedFamily] = await Promise.all([
+      this.prisma.revokedToken.findUnique({ where: { jti } }),
+      familyId
+        ? this.prisma.refreshToken.findFirst({
+            where: { familyId, revokedAt: { not: null } },
+            select: { id: true }
+          })
+        : Promise.resolve(null)
+    ]);
+    return Boolean(revoked || revokedFamily);
+  }
+
+  async deleteExpired(now: Date): Promise<number> {
+    const [refreshTokens, revokedTokens] = await this.prisma.$transaction([
+      this.prisma.refreshToken.deleteMany({ where: { expiresAt: { lt: now } } }),
+      this.prisma.revokedToken.deleteMany({ where: { expiresAt: { lt: now } } })
+    ]);
+    return refreshTokens.count + revokedTokens.count;
+  }
+}
+
+/**
+ * 内存Token存储（用于测试和单实例开发环境）
+ */
+export class InMemoryTokenStore implements TokenStore {
+  private refreshTokens = new Map<string, RefreshTokenRecord>();
+  private revokedAccessTokens = new Map<string, Date>();
+
+  async saveRefreshToken(record: RefreshTokenRecord): Promise<void> {
+    this.refreshTokens.set(record.jti, { ...record, usedAt: null, replacedById: null, revokedAt: null });
+  }
+
+  async findRefreshToken(jti: string): Promise<RefreshTokenRecord | null> {
+    const record = this.refreshTokens.get(jti);
+    return record ? { ...record } : null;
+  }
+
+  async markRefreshTokenUsed(jti: string, replacedById: string): Promise<boolean> {
+    const record = this.refreshTokens.get(jti);
+    if (!record || record.usedAt || record.revokedAt) {
+      return false;
+    }
+    record.usedAt = new Date();
+    record.replacedById = replacedById;
+    return true;
+  }
+
+  async revokeFamily(familyId: string, _reason: string): Promise<number> {
+    let count = 0;
+    for (const record of this.refreshTokens.values()) {
+      if (record.familyId === familyId && !record.revokedAt) {
+        record.revokedAt = new Date();
+        count++;
+      }
+    }
+    return count;
+  }
+
+  async revokeAccessToken(jti: string, _userId: string | undefined, expiresAt: Date, _reason: string): Promise<void> {
+    this.revokedAccessTokens.set(jti, expiresAt);
+  }
+
+  async isAccessTokenRevoked(jti: string, familyId?: string): Promise<boolean> {
+    if (this.revokedAccessTokens.has(jti)) {
+      return true;
+    }
+    if (!familyId) {
+      return false;
+    }
+    for (const record of this.refreshTokens.values()) {
+      if (record.familyId === familyId && record.revokedAt) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  async deleteExpired(now: Date): Promise<number> {
+    let count = 0;
+    for (const [jti, record] of this.refreshTokens) {
+      if (record.expiresAt < now) {
+        this.refreshTokens.delete(jti);
+        count++;
+      }
+    }
+    for (const [jti, expiresAt] of this.revokedAccessTokens) {
+      if (expiresAt < now) {
+        this.revokedAccessTokens.delete(jti);
+        count++;
+      }
+    }
+    return count;
+  }
+}
@@ -14,6 +14,8 @@ export interface TokenPayload {
   email?: string;
   role: UserRole;
   type: 'access' | 'refresh';
+  jti?: string; // Token唯一标识，用于撤销
+  familyId?: string; // 登录会话标识，同一会话轮换出的Token共享
   iat?: number;
   exp?: number;
 }
@@ -51,6 +53,10 @@ export interface LoginResponse {
     permissions?: string[]; // 用户权限列表
   };
   tokens: TokenPair;
+  anomaly?: {
+    isNewIp: boolean;
+    isNewUserAgent: boolean;
+  };
 }
 
 /**
@@ -138,6 +144,10 @@ export enum Permission {
   APPOINTMENT_UPDATE = 'appointment:update',
   APPOINTMENT_DELETE = 'appointment:delete',
 
+  // 医生排班权限
+  SCHEDULE_VIEW = 'schedule:view',
+  SCHEDULE_MANAGE = 'schedule:manage',
+
   // 排队管理权限
   QUEUE_VIEW = 'queue:view',
   QUEUE_CREATE = 'queue:create',
@@ -152,6 +162,10 @@ export enum Permission {
   MEDICINE_DELETE = 'medicine:delete',
   MEDICINE_CATEGORY_MANAGE = 'medicine:category:manage',
 
+  // 药房库存权限
+  INVENTORY_VIEW = 'inventory:view',
+  INVENTORY_MANAGE = 'inventory:manage',
+
   // 处方管理权限
   PRESCRIPTION_VIEW = 'prescription:view',
   PRESCRIPTION_CREATE = 'prescription:create',
@@ -204,6 +218,7 @@ export enum Permission {
   USER_DELETE = 'user:delete',
   SYSTEM_ADMIN = 'system:admin',
   SYSTEM_MANAGE = 'system:manage', // 系统管理（包括公告管理）
+  AUDIT_VIEW = 'audit:view', // 审计日志查看（仅管理员）
   ANNOUNCEMENT_PUBLISH = 'announcement:publish'
 }
 
@@ -230,10 +245,12 @@ export const RolePermissions: Record<UserRole, Permission[]> = {
     Permission.APPOINTMENT_VIEW,
     Permission.APPOINTMENT_CREATE,
     Permission.APPOINTMENT_UPDATE,
+    Permission.SCHEDULE_VIEW,
     Permission.QUEUE_VIEW,
     Permission.QUEUE_CALL,
     Permission.QUEUE_UPDATE,
     Permission.MEDICINE_VIEW,
+    Permission.INVENTORY_VIEW,
     Permission.PRESCRIPTION_VIEW,
     Permission.PRESCRIPTION_CREATE,
     Permission.PRESCRIPTION_UPDATE,
@@ -279,10 +296,15 @@ export const RolePermissions: Record<UserRole, Permission[]> = {
     Permission.APPOINTMENT_CREATE,
     Permission.APPOINTMENT_UPDATE,
     Permission.APPOINTMENT_DELETE,
+    Permission.SCHEDULE_VIEW,
+    Permission.SCHEDULE_MANAGE,
     Permission.QUEUE_VIEW,
     Permission.QUEUE_CREATE,
+    Permission.QUEUE_UPDATE,
     Permission.QUEUE_DELETE,
     Permission.MEDICINE_VIEW,
+    Permission.INVENTORY_VIEW,
+    Permission.INVENTORY_MANAGE,
     Permission.PRESCRIPTION_VIEW,
     Permission.PRESCRIPTION_DISPENSE,
     // 里程碑6: 病历查看权限（操作员只能查看）
@@ -342,7 +364,8 @@ export enum AuthErrorCode {
   USER_SUSPENDED = 'AUTH010',
   PASSWORD_INCORRECT = 'AUTH011',
   PASSWORD_TOO_WEAK = 'AUTH012',
-  TOKEN_REVOKED = 'AUTH013'
+  TOKEN_REVOKED = 'AUTH013',
+  REFRESH_TOKEN_REUSED = 'AUTH014'
 }
 
 /**
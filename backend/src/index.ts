@@ -1,4 +1,5 @@
 import express, { Express, Request, Response, NextFunction } from 'express';
+import { createServer } from 'http';
 import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
@@ -9,6 +10,9 @@ import logger from './utils/logger';
 import apiRoutes from './routes/index';
 import path from 'path';
 import { initializeDefaultAIProvider } from './ai';
+import { initializeSocketServer } from './realtime/socket.server';
+import { startJobScheduler } from './services/scheduled-jobs';
+import { medicalRecordEmbeddingService } from './services/medical-record-embedding.service';
 
 // 加载环境变量 - 明确指定.env文件路径
 dotenv.config({ path: path.resolve(__dirname, '../.env') });
@@ -20,7 +24,8 @@ const PORT = process.env.BACKEND_PORT || 3000;
 app.use(helmet()); // 安全headers
 app.use(cors({
   origin: process.env.CORS_ORIGIN || 'http://localhost:5173',
-  credentials: true
+  credentials: true,
+  exposedHeaders: ['X-AI-Quota-Warning'] // AI配额提醒
 }));
 app.use(compression()); // 响应压缩
 app.use(express.json({ limit: '10mb' }));
@@ -78,13 +83,24 @@ const startServer = async () => {
     await initializeDefaultAIProvider();
     logger.info('✅ AI Provider initialized successfully');
 
-    app.listen(PORT, () => {
+    // 后台构建相似病历向量索引，不阻塞启动
+    medicalRecordEmbeddingService.startIndexing();
+
+    // HTTP服务同时承载WebSocket实时推送
+    const httpServer = createServer(app);
+    initializeSocketServer(httpServer);
+
+    // 定时任务（公告过期、爽约处理、效期巡检、定时报表等）
+    await startJobScheduler();
+
+    httpServer.listen(PORT, () => {
       logger.info(`
 🚀 AiliaoX Backend Server is running!
 📍 Port: ${PORT}
 🌍 Environment: ${process.env.NODE_ENV || 'development'}
 🔗 Health Check: http://localhost:${PORT}/health
 🔗 API: http://localhost:${PORT}/api/v1
+🔌 WebSocket: ws://localhost:${PORT}/socket.io
       `);
     });
   } catch (error) {
@@ -0,0 +1,56 @@
+/**
+ * 邮件捕获适配器
+ *
+ * 生成与SMTP发送完全相同的邮件原文，但不连接邮件服务器，而是保存为.eml文件，
+ * 开发和测试环境离线可用，可直接用邮件客户端打开查看效果
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { MessageChannel } from '@prisma/client';
+import { ChannelAdapter, OutboundMessage, SendResult } from '../types';
+import { buildEmailMessage, createMessageId } from './smtp.adapter';
+
+export interface CapturedEmail {
+  messageId: string;
+  to: string;
+  subject?: string;
+  raw: string;
+}
+
+/**
+ * 邮件捕获适配器类
+ */
+export class EmailCaptureAdapter implements ChannelAdapter {
+  readonly name = 'capture';
+  readonly channel = MessageChannel.EMAIL;
+
+  // 最近捕获的邮件，供测试断言
+  readonly captured: CapturedEmail[] = [];
+  private maxCaptured = 100;
+
+  /**
+   * @param outputDir 保存.eml文件的目录，为空时只保留在内存中
+   */
+  constructor(
+    private from: string,
+    private outputDir?: string
+  ) {}
+
+  async send(message: OutboundMessage): Promise<SendResult> {
+    const messageId = createMessageId(this.from);
+    const raw = buildEmailMessage(this.from, message, messageId);
+
+    if (this.outputDir) {
+      await fs.mkdir(this.outputDir, { recursive: true });
+      const fileName = `${Date.now()}-${messageId.replace(/[<>@]/g, '').slice(0, 36)}.eml`;
+      await fs.writeFile(path.join(this.outputDir, fileName), raw, 'utf8');
+    }
+
+    this.captured.push({ messageId, to: message.to, subject: message.subject, raw });
+    if (this.captured.length > this.maxCaptured) {
+      this.captured.shift();
+    }
+    return { externalId: messageId };
+  }
+}
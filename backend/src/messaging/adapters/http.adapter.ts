@@ -0,0 +1,42 @@
+/**
+ * HTTP网关适配器
+ *
+ * 以JSON POST调用短信或微信模板消息网关：{ channel, to, subject, body }
+ * 网关返回的 id 或 messageId 记为服务商消息ID；非2xx响应视为发送失败
+ */
+
+import axios from 'axios';
+import { MessageChannel } from '@prisma/client';
+import { ChannelAdapter, OutboundMessage, SendResult } from '../types';
+
+export interface HttpGatewayConfig {
+  url: string;
+  token?: string; // Bearer Token
+  timeoutMs?: number;
+}
+
+/**
+ * HTTP网关适配器类
+ */
+export class HttpGatewayAdapter implements ChannelAdapter {
+  readonly name = 'http';
+
+  constructor(
+    readonly channel: MessageChannel,
+    private config: HttpGatewayConfig
+  ) {}
+
+  async send(message: OutboundMessage): Promise<SendResult> {
+    const response = await axios.post(
+      this.config.url,
+      { channel: message.channel, to: message.to, subject: message.subject, body: message.body },
+      {
+        timeout: this.config.timeoutMs || 10000,
+        headers: this.config.token ? { Authorization: `Bearer ${this.config.token}` } : undefined
+      }
+    );
+
+    const externalId = response.data?.id ?? response.data?.messageId;
+    return { externalId: externalId !== undefined ? String(externalId) : undefined };
+  }
+}
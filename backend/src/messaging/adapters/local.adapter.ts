@@ -0,0 +1,65 @@
+/**
+ * 本地渠道适配器
+ * 开发和测试环境使用，不连接外部服务：消息输出到日志或追加写入文件
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { MessageChannel } from '@prisma/client';
+import { ChannelAdapter, OutboundMessage, SendResult } from '../types';
+import { logger } from '../../utils/logger';
+
+const CHANNEL_TEXT: Record<MessageChannel, string> = {
+  [MessageChannel.SMS]: '短信',
+  [MessageChannel.EMAIL]: '邮件',
+  [MessageChannel.WECHAT]: '微信'
+};
+
+/**
+ * 脱敏接收人：保留前3位和后4位
+ */
+export function maskRecipient(recipient: string): string {
+  if (recipient.length <= 7) {
+    return `${recipient.slice(0, 1)}***`;
+  }
+  return `${recipient.slice(0, 3)}****${recipient.slice(-4)}`;
+}
+
+/**
+ * 控制台适配器：消息写入日志
+ */
+export class ConsoleAdapter implements ChannelAdapter {
+  readonly name = 'console';
+
+  constructor(readonly channel: MessageChannel) {}
+
+  async send(message: OutboundMessage): Promise<SendResult> {
+    const externalId = randomUUID();
+    logger.info(`[${CHANNEL_TEXT[message.channel]}] ${maskRecipient(message.to)}: ${message.body}`);
+    return { externalId };
+  }
+}
+
+/**
+ * 文件适配器：每条消息以一行JSON追加到文件，便于开发时查看和测试断言
+ */
+export class FileAdapter implements ChannelAdapter {
+  readonly name = 'file';
+
+  constructor(
+    readonly channel: MessageChannel,
+    private filePath: string
+  ) {}
+
+  async send(message: OutboundMessage): Promise<SendResult> {
+    const externalId = randomUUID();
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(
+      this.filePath,
+      JSON.stringify({ id: externalId, sentAt: new Date().toISOString(), ...message }) + '\n',
+      'utf8'
+    );
+    return { externalId };
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * SMTP邮件适配器
+ *
+ * 直接通过SMTP协议发送邮件，支持STARTTLS（587端口）和隐式TLS（465端口）、AUTH LOGIN认证。
+ * 开发环境可指向本地邮件捕获服务（如MailHog、Mailpit的1025端口）离线查看邮件。
+ */
+
+import * as net from 'net';
+import * as os from 'os';
+import * as tls from 'tls';
+import { randomUUID } from 'crypto';
+import { MessageChannel } from '@prisma/client';
+import { ChannelAdapter, OutboundMessage, SendResult } from '../types';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure?: boolean; // 隐式TLS，465端口使用
+  user?: string;
+  pass?: string;
+  from: string;
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+/**
+ * RFC 2047编码邮件头（UTF-8 Base64）
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * 生成邮件原文（纯文本，正文Base64编码，不会出现需要转义的"."开头行）
+ */
+export function buildEmailMessage(from: string, message: OutboundMessage, messageId: string, date = new Date()): string {
+  const body = Buffer.from(message.body, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject || '')}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body
+  ].join('\r\n');
+}
+
+/**
+ * 生成Message-ID，域名取发件地址
+ */
+export function createMessageId(from: string): string {
+  const domain = from.split('@')[1]?.replace(/>$/, '') || 'localhost';
+  return `<${randomUUID()}@${domain}>`;
+}
+
+/**
+ * SMTP连接：按行读取服务端应答，多行应答（250-xxx）合并为一条
+ */
+class SmtpConnection {
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiters: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }[] = [];
+  private error: Error | null = null;
+
+  constructor(
+    private socket: net.Socket,
+    private timeoutMs: number
+  ) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.timeoutMs, () => socket.destroy(new Error('SMTP连接超时')));
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      this.flush();
+    });
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP连接已关闭')));
+  }
+
+  private flush() {
+    let index: number;
+    while ((index = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.lines.push(line);
+
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: parseInt(line.slice(0, 3)), text: this.lines.map((item) => item.slice(4)).join('\n') };
+        this.lines = [];
+        const waiter = this.waiters.shift();
+        if (waiter) {
+          waiter.resolve(reply);
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  }
+
+  private fail(error: Error) {
+    if (this.error) return;
+    this.error = error;
+    this.waiters.splice(0).forEach((waiter) => waiter.reject(error));
+  }
+
+  private read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.error) return Promise.reject(this.error);
+    return new Promise((resolve, reject) => this.waiters.push({ resolve, reject }));
+  }
+
+  /**
+   * 读取应答并检查应答码
+   */
+  async expect(...codes: number[]): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP错误 ${reply.code}: ${reply.text}`);
+    }
+    return reply;
+  }
+
+  /**
+   * 发送命令并检查应答码
+   */
+  async command(line: string, ...codes: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(...codes);
+  }
+
+  /**
+   * 在当前连接上升级为TLS
+   */
+  async startTls(host: string): Promise<void> {
+    this.socket.removeAllListeners('data');
+    this.socket.removeAllListeners('error');
+    this.socket.removeAllListeners('close');
+    this.socket.setTimeout(0);
+
+    const secureSocket = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secureSocket.once('secureConnect', resolve);
+      secureSocket.once('error', reject);
+    });
+    this.socket = secureSocket;
+    this.attach(secureSocket);
+  }
+
+  close() {
+    this.socket.destroy();
+  }
+}
+
+/**
+ * SMTP邮件适配器类
+ */
+export class SmtpAdapter implements ChannelAdapter {
+  readonly name = 'smtp';
+  readonly channel = MessageChannel.EMAIL;
+
+  constructor(private config: SmtpConfig) {}
+
+  private connect(): Promise<SmtpConnection> {
+    const { host, port, secure, timeoutMs = 10000 } = this.config;
+
+    return new Promise((resolve, reject) => {
+      const socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+      socket.setTimeout(timeoutMs, () => socket.destroy(new Error('SMTP连接超时')));
+      socket.once('error', reject);
+      socket.once(secure ? 'secureConnect' : 'connect', () => {
+        socket.off('error', reject);
+        resolve(new SmtpConnection(socket, timeoutMs));
+      });
+    });
+  }
+
+  async send(message: OutboundMessage): Promise<SendResult> {
+    const { host, user, pass, from, secure } = this.config;
+    const messageId = createMessageId(from);
+    const connection = await this.connect();
+
+    try {
+      await connection.expect(220);
+      let ehlo = await connection.command(`EHLO ${os.hostname()}`, 250);
+
+      if (!secure && /^STARTTLS$/im.test(ehlo.text)) {
+        await connection.command('STARTTLS', 220);
+        await connection.startTls(host);
+        ehlo = await connection.command(`EHLO ${os.hostname()}`, 250);
+      }
+
+      if (user) {
+        await connection.command('AUTH LOGIN', 334);
+        await connection.command(Buffer.from(user).toString('base64'), 334);
+        await connection.command(Buffer.from(pass || '').toString('base64'), 235);
+      }
+
+      await connection.command(`MAIL FROM:<${from.replace(/^.*<|>$/g, '')}>`, 250);
+      await connection.command(`RCPT TO:<${message.to}>`, 250, 251);
+      await connection.command('DATA', 354);
+      await connection.command(`${buildEmailMessage(from, message, messageId)}\r\n.`, 250);
+      await connection.command('QUIT', 221).catch(() => undefined);
+    } finally {
+      connection.close();
+    }
+
+    return { externalId: messageId };
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * 患者消息模块导出文件
+ *
+ * 各渠道适配器由环境变量选择：
+ * - MESSAGE_SMS_ADAPTER: console（默认）| file | http
+ * - MESSAGE_EMAIL_ADAPTER: capture（默认）| smtp
+ * - MESSAGE_WECHAT_ADAPTER: console（默认）| file | http
+ */
+
+import * as path from 'path';
+import { MessageChannel } from '@prisma/client';
+import { ChannelAdapter, ChannelAdapters } from './types';
+import { ConsoleAdapter, FileAdapter } from './adapters/local.adapter';
+import { EmailCaptureAdapter } from './adapters/email-capture.adapter';
+import { SmtpAdapter } from './adapters/smtp.adapter';
+import { HttpGatewayAdapter } from './adapters/http.adapter';
+
+// 类型导出
+export * from './types';
+
+// 适配器导出
+export { ConsoleAdapter, FileAdapter, maskRecipient } from './adapters/local.adapter';
+export { EmailCaptureAdapter } from './adapters/email-capture.adapter';
+export type { CapturedEmail } from './adapters/email-capture.adapter';
+export { SmtpAdapter, buildEmailMessage } from './adapters/smtp.adapter';
+export type { SmtpConfig } from './adapters/smtp.adapter';
+export { HttpGatewayAdapter } from './adapters/http.adapter';
+export type { HttpGatewayConfig } from './adapters/http.adapter';
+
+// 模板导出
+export {
+  DEFAULT_MESSAGE_TEMPLATES,
+  MESSAGE_PLACEHOLDERS,
+  defaultTemplate,
+  renderTemplate,
+  findUnknownPlaceholders
+} from './templates';
+export type { MessageContext, MessageTemplateContent } from './templates';
+
+/**
+ * 创建短信或微信适配器
+ */
+function createGatewayAdapter(
+  channel: MessageChannel,
+  type: string,
+  outboxDir: string,
+  url: string | undefined,
+  token: string | undefined
+): ChannelAdapter {
+  switch (type) {
+    case 'console':
+      return new ConsoleAdapter(channel);
+    case 'file':
+      return new FileAdapter(channel, path.join(outboxDir, `${channel.toLowerCase()}.jsonl`));
+    case 'http':
+      if (!url) {
+        throw new Error(`${channel}渠道使用http适配器时必须配置网关地址`);
+      }
+      return new HttpGatewayAdapter(channel, { url, token });
+    default:
+      throw new Error(`未知的消息渠道适配器: ${type}`);
+  }
+}
+
+/**
+ * 根据环境变量创建各渠道适配器
+ */
+export function createChannelAdapters(env: NodeJS.ProcessEnv = process.env): ChannelAdapters {
+  const outboxDir = env.MESSAGE_OUTBOX_DIR || './outbox';
+  const from = env.SMTP_FROM || env.SMTP_USER || 'noreply@ailiaox.local';
+
+  const emailType = env.MESSAGE_EMAIL_ADAPTER || 'capture';
+  let email: ChannelAdapter;
+  if (emailType === 'capture') {
+    email = new EmailCaptureAdapter(from, path.join(outboxDir, 'email'));
+  } else if (emailType === 'smtp') {
+    if (!env.SMTP_HOST) {
+      throw new Error('邮件渠道使用smtp适配器时必须配置SMTP_HOST');
+    }
+    const port = parseInt(env.SMTP_PORT || '587');
+    email = new SmtpAdapter({
+      host: env.SMTP_HOST,
+      port,
+      secure: env.SMTP_SECURE ? env.SMTP_SECURE === 'true' : port === 465,
+      user: env.SMTP_USER,
+      pass: env.SMTP_PASS,
+      from
+    });
+  } else {
+    throw new Error(`未知的消息渠道适配器: ${emailType}`);
+  }
+
+  return {
+    [MessageChannel.SMS]: createGatewayAdapter(
+      MessageChannel.SMS,
+      env.MESSAGE_SMS_ADAPTER || 'console',
+      outboxDir,
+      env.SMS_GATEWAY_URL,
+      env.SMS_GATEWAY_TOKEN
+    ),
+    [MessageChannel.EMAIL]: email,
+    [MessageChannel.WECHAT]: createGatewayAdapter(
+      MessageChannel.WECHAT,
+      env.MESSAGE_WECHAT_ADAPTER || 'console',
+      outboxDir,
+      env.WECHAT_GATEWAY_URL,
+      env.WECHAT_GATEWAY_TOKEN
+    )
+  };
+}
+
+let defaultAdapters: ChannelAdapters | null = null;
+
+/**
+ * 获取默认适配器（延迟创建，配置错误时在首次发送消息时报错）
+ */
+export function getDefaultChannelAdapters(): ChannelAdapters {
+  if (!defaultAdapters) {
+    defaultAdapters = createChannelAdapters();
+  }
+  return defaultAdapters;
+}
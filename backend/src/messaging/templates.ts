@@ -0,0 +1,111 @@
+/**
+ * 消息模板
+ *
+ * 模板正文使用{{path}}占位符引用渲染数据（如{{patient.name}}），缺失的值渲染为空字符串。
+ * 数据库未配置模板时使用此处的内置默认模板。
+ */
+
+import { MessageChannel, MessageEvent } from '@prisma/client';
+
+export interface MessageTemplateContent {
+  subject?: string;
+  body: string;
+}
+
+/**
+ * 模板渲染数据
+ */
+export interface MessageContext {
+  patient: { name: string; patientNo: string };
+  appointment: {
+    appointmentNo: string;
+    date: string; // YYYY-MM-DD
+    timeSlot: string; // 上午/下午/晚上
+    queueNumber: number | null;
+  };
+  doctor: { name: string; title: string };
+  department: { name: string; location: string };
+  hospital: { name: string };
+}
+
+/**
+ * 模板中可使用的占位符
+ */
+export const MESSAGE_PLACEHOLDERS = [
+  'patient.name',
+  'patient.patientNo',
+  'appointment.appointmentNo',
+  'appointment.date',
+  'appointment.timeSlot',
+  'appointment.queueNumber',
+  'doctor.name',
+  'doctor.title',
+  'department.name',
+  'department.location',
+  'hospital.name'
+] as const;
+
+const SUBJECT_PREFIX = '【{{hospital.name}}】';
+
+export const DEFAULT_MESSAGE_TEMPLATES: Record<MessageEvent, MessageTemplateContent> = {
+  [MessageEvent.APPOINTMENT_CREATED]: {
+    subject: `${SUBJECT_PREFIX}挂号成功`,
+    body:
+      '{{patient.name}}您好，您已成功挂号{{department.name}}{{doctor.name}}医生，' +
+      '就诊时间{{appointment.date}}{{appointment.timeSlot}}，排队号{{appointment.queueNumber}}，' +
+      '挂号单号{{appointment.appointmentNo}}。请按时到{{department.location}}候诊。'
+  },
+  [MessageEvent.APPOINTMENT_CANCELLED]: {
+    subject: `${SUBJECT_PREFIX}挂号已取消`,
+    body:
+      '{{patient.name}}您好，您{{appointment.date}}{{appointment.timeSlot}}{{department.name}}' +
+      '{{doctor.name}}医生的挂号（单号{{appointment.appointmentNo}}）已取消。'
+  },
+  [MessageEvent.QUEUE_CALLED]: {
+    subject: `${SUBJECT_PREFIX}请前往就诊`,
+    body:
+      '{{patient.name}}您好，请{{appointment.queueNumber}}号到{{department.location}}' +
+      '{{doctor.name}}医生处就诊。'
+  }
+};
+
+/**
+ * 短信没有主题，各渠道使用同一正文
+ */
+export function defaultTemplate(event: MessageEvent, channel: MessageChannel): MessageTemplateContent {
+  const template = DEFAULT_MESSAGE_TEMPLATES[event];
+  return channel === MessageChannel.EMAIL ? template : { body: template.body };
+}
+
+/**
+ * 读取嵌套属性
+ */
+function lookup(data: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    data
+  );
+}
+
+/**
+ * 渲染模板字符串
+ */
+export function renderTemplate(template: string, context: MessageContext): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, path: string) => {
+    const value = lookup(context, path);
+    return value === undefined || value === null ? '' : String(value);
+  });
+}
+
+/**
+ * 检查模板中的未知占位符
+ * @returns 未知的占位符列表
+ */
+export function findUnknownPlaceholders(template: string): string[] {
+  const known = new Set<string>(MESSAGE_PLACEHOLDERS);
+  const unknown = new Set<string>();
+  for (const match of template.matchAll(/\{\{\s*([\w.]+)\s*\}\}/g)) {
+    if (!known.has(match[1])) unknown.add(match[1]);
+  }
+  return [...unknown];
+}
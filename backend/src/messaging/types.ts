@@ -0,0 +1,38 @@
+/**
+ * 患者消息 类型定义
+ * 定义了短信、邮件、微信等外发渠道适配器的统一接口
+ */
+
+import { MessageChannel } from '@prisma/client';
+
+/**
+ * 待发送的消息
+ */
+export interface OutboundMessage {
+  channel: MessageChannel;
+  to: string; // 手机号、邮箱或微信OpenID
+  subject?: string; // 邮件主题，其他渠道忽略
+  body: string;
+}
+
+/**
+ * 发送结果
+ */
+export interface SendResult {
+  externalId?: string; // 服务商返回的消息ID
+}
+
+/**
+ * 渠道适配器接口
+ * 发送失败时抛出错误，由消息服务记录并按间隔重试
+ */
+export interface ChannelAdapter {
+  readonly name: string;
+  readonly channel: MessageChannel;
+  send(message: OutboundMessage): Promise<SendResult>;
+}
+
+/**
+ * 各渠道使用的适配器
+ */
+export type ChannelAdapters = Partial<Record<MessageChannel, ChannelAdapter>>;
@@ -0,0 +1,73 @@
+import { Request, Response, NextFunction } from 'express';
+import { AIUsageService, QuotaCheck } from '../services/ai-usage.service';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+
+/**
+ * 超出软限制时通过响应头提醒前端，格式：scope:period:used/limit，多项以逗号分隔
+ */
+export const QUOTA_WARNING_HEADER = 'X-AI-Quota-Warning';
+
+// 每次AI调用预留的预估tokens，调用结束后释放
+const RESERVED_TOKENS = parseInt(process.env.AI_QUOTA_RESERVED_TOKENS || '2000');
+
+const SCOPE_TEXT = { USER: '个人', DEPARTMENT: '科室' } as const;
+const PERIOD_TEXT = { DAILY: '今日', MONTHLY: '本月' } as const;
+
+export function describeQuota(check: QuotaCheck, limit: number): string {
+  return `${SCOPE_TEXT[check.scope]}${PERIOD_TEXT[check.period]}AI用量 ${check.used} tokens，已达配额 ${limit} tokens`;
+}
+
+/**
+ * AI配额中间件
+ * 挂载在认证中间件之后、调用AI的路由之前；配额检查失败时放行，不影响临床使用
+ * 放行时预留预估用量，响应结束后释放，避免并发请求同时通过检查后超出配额
+ */
+export class AIQuotaMiddleware {
+  private usageService: AIUsageService;
+
+  constructor(usageService: AIUsageService = new AIUsageService(prisma)) {
+    this.usageService = usageService;
+  }
+
+  enforce(estimatedTokens: number = RESERVED_TOKENS) {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      if (!req.user) {
+        return next();
+      }
+
+      try {
+        const { status, release } = await this.usageService.reserveQuota(req.user.userId, estimatedTokens);
+
+        if (status.exceeded) {
+          logger.warn(`AI配额已用尽 - 用户: ${req.user.username}, ${status.exceeded.scope}/${status.exceeded.period}`);
+          return res.status(429).json({
+            success: false,
+            error: {
+              code: 'AI_QUOTA_EXCEEDED',
+              message: `${describeQuota(status.exceeded, status.exceeded.hardLimit!)}，请联系管理员调整`
+            }
+          });
+        }
+
+        res.once('finish', release);
+        res.once('close', release);
+
+        if (status.warnings.length > 0) {
+          res.setHeader(
+            QUOTA_WARNING_HEADER,
+            status.warnings
+              .map((check) => `${check.scope.toLowerCase()}:${check.period.toLowerCase()}:${check.used}/${check.softLimit}`)
+              .join(',')
+          );
+        }
+      } catch (error) {
+        logger.warn('AI配额检查失败，放行本次调用:', error);
+      }
+
+      next();
+    };
+  }
+}
+
+export const aiQuotaMiddleware = new AIQuotaMiddleware();
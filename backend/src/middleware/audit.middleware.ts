@@ -0,0 +1,259 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuditService, AuditResource, diffFields } from '../services/audit.service';
+import { ExportRecord } from './export.middleware';
+import { JWTManager } from '../auth/jwt.manager';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// 列表和搜索结果最多记录的资源ID数
+const MAX_RESULT_IDS = 200;
+
+/**
+ * 从路由挂载点之后的路径中解析资源ID、子操作和关联对象ID
+ * 只有紧跟挂载点的UUID是本资源ID，其余UUID按前一段路径记为关联对象ID
+ * 例如 /abc-uuid/dispense => { resourceId: 'abc-uuid', subAction: 'dispense', relatedIds: {} }
+ *      /patient/abc-uuid => { subAction: undefined, relatedIds: { patientId: 'abc-uuid' } }
+ */
+export function parseAuditPath(path: string): {
+  resourceId?: string;
+  subAction?: string;
+  relatedIds: Record<string, string>;
+} {
+  const segments = path.split('/').filter(Boolean);
+  const resourceId = segments.length > 0 && UUID_PATTERN.test(segments[0]) ? segments[0] : undefined;
+  const relatedIds: Record<string, string> = {};
+  const rest: string[] = [];
+
+  for (const segment of segments.slice(resourceId ? 1 : 0)) {
+    if (UUID_PATTERN.test(segment)) {
+      // 前一段是关联对象类型（如 patient、doctor），不作为子操作
+      const type = rest.pop();
+      relatedIds[`${toCamelCase(type || 'related')}Id`] = segment;
+    } else {
+      rest.push(segment);
+    }
+  }
+
+  return {
+    resourceId,
+    subAction: rest.length > 0 ? rest[rest.length - 1] : undefined,
+    relatedIds
+  };
+}
+
+function toCamelCase(segment: string): string {
+  return segment.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+/**
+ * 根据HTTP方法和路径生成审计动作名，如 patient.read、prescription.dispense
+ */
+export function buildAuditAction(resource: AuditResource, method: string, path: string): string {
+  const { resourceId, subAction } = parseAuditPath(path);
+  if (subAction) {
+    return `${resource}.${subAction}`;
+  }
+
+  switch (method) {
+    case 'GET':
+      return `${resource}.${resourceId ? 'read' : 'list'}`;
+    case 'POST':
+      return `${resource}.create`;
+    case 'PUT':
+    case 'PATCH':
+      return `${resource}.update`;
+    case 'DELETE':
+      return `${resource}.delete`;
+    default:
+      return `${resource}.${method.toLowerCase()}`;
+  }
+}
+
+/**
+ * 从返回列表的响应数据中提取资源ID
+ * 响应数据可能直接是数组，也可能是包含数组字段的分页对象（如 { patients: [...], total }）；
+ * 带id的单个资源不视为列表，其中的明细数组不记录
+ */
+export function collectResultIds(data: unknown): string[] {
+  const items = Array.isArray(data)
+    ? data
+    : typeof data === 'object' && data !== null && !('id' in data)
+      ? Object.values(data).find(Array.isArray)
+      : undefined;
+  if (!items) {
+    return [];
+  }
+
+  const ids = items
+    .map((item: unknown) => (typeof item === 'object' && item !== null && 'id' in item ? item.id : undefined))
+    .filter((id): id is string => typeof id === 'string');
+  return ids.slice(0, MAX_RESULT_IDS);
+}
+
+/**
+ * 审计中间件
+ * 挂载在资源路由之前，在响应结束后记录访问者、动作、资源ID、结果和字段级变更
+ */
+export class AuditMiddleware {
+  private auditService: AuditService;
+  private jwtManager: JWTManager;
+
+  constructor(
+    auditService: AuditService = new AuditService(prisma),
+    jwtManager: JWTManager = new JWTManager()
+  ) {
+    this.auditService = auditService;
+    this.jwtManager = jwtManager;
+  }
+
+  /**
+   * 跟踪指定资源的访问
+   * 用户信息由路由内的认证中间件写入req.user，因此在响应结束时读取
+   */
+  track(resource: AuditResource) {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      const startedAt = Date.now();
+      const method = req.method;
+      const path = req.path;
+      const { resourceId } = parseAuditPath(path);
+      const isMutation = method !== 'GET' && method !== 'HEAD' && method !== 'OPTIONS';
+
+      // 修改已有资源前先保存快照，用于计算字段级差异；Token验证通过后才读取，未认证请求不访问资源数据
+      let before: Record<string, unknown> | null = null;
+      if (isMutation && resourceId && await this.isAuthenticated(req)) {
+        try {
+          before = await this.auditService.loadSnapshot(resource, resourceId);
+        } catch (error) {
+          logger.warn(`读取审计快照失败: ${resource}/${resourceId}`);
+        }
+      }
+
+      // 截获响应体，用于获取新建资源ID和错误信息
+      let responseBody: any;
+      const originalJson = res.json.bind(res);
+      res.json = (body: any) => {
+        responseBody = body;
+        return originalJson(body);
+      };
+
+      // 正常结束时先后触发finish和close，连接中断（如导出中途出错）时只触发close
+      let finished = false;
+      let recorded = false;
+      const record = () => {
+        if (recorded || !req.user) {
+          return;
+        }
+        recorded = true;
+
+        this.recordRequest({
+          req,
+          resource,
+          method,
+          path,
+          statusCode: res.statusCode,
+          responseBody,
+          exported: res.locals.export,
+          aborted: !finished,
+          before,
+          durationMs: Date.now() - startedAt
+        }).catch((error) => logger.error('记录审计日志失败:', error));
+      };
+      res.on('finish', () => {
+        finished = true;
+        record();
+      });
+      res.on('close', record);
+
+      next();
+    };
+  }
+
+  /**
+   * 请求是否携带有效的Access Token
+   * 路由内的认证中间件在本中间件之后执行，这里只验证不写入req.user
+   */
+  private async isAuthenticated(req: Request): Promise<boolean> {
+    const token = this.jwtManager.extractTokenFromHeader(req.headers.authorization);
+    if (!token) {
+      return false;
+    }
+
+    try {
+      await this.jwtManager.verifyAccessToken(token);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async recordRequest(params: {
+    req: Request;
+    resource: AuditResource;
+    method: string;
+    path: string;
+    statusCode: number;
+    responseBody: any;
+    exported?: ExportRecord;
+    aborted: boolean;
+    before: Record<string, unknown> | null;
+    durationMs: number;
+  }): Promise<void> {
+    const { req, resource, method, path, statusCode, responseBody, exported, aborted, before, durationMs } = params;
+    const succeeded = statusCode < 400 && !aborted;
+    const parsed = parseAuditPath(path);
+    const resourceId = parsed.resourceId
+      || (succeeded && method === 'POST' ? responseBody?.data?.id : undefined);
+
+    const metadata: Record<string, unknown> = { statusCode, durationMs };
+    if (method === 'GET' && Object.keys(req.query).length > 0) {
+      metadata.query = req.query;
+    }
+    Object.assign(metadata, parsed.relatedIds);
+
+    // 导出记录格式、行数和全部导出的资源ID（中断时为已输出的部分）
+    if (exported) {
+      metadata.export = { format: exported.format, rowCount: exported.rowCount, completed: exported.completed };
+      if (exported.ids.length > 0) {
+        metadata.resultIds = exported.ids;
+      }
+    } else if (succeeded) {
+      // 返回列表的接口（含按患者、医生查询）记录返回了哪些资源
+      const resultIds = collectResultIds(responseBody?.data);
+      if (resultIds.length > 0) {
+        metadata.resultIds = resultIds;
+      }
+    }
+
+    // 修改成功后比较前后快照
+    if (succeeded && before && resourceId) {
+      const after = await this.auditService.loadSnapshot(resource, resourceId);
+      if (after) {
+        metadata.changes = diffFields(before, after);
+      } else {
+        // 物理删除，不再重复记录全部字段
+        metadata.deleted = true;
+      }
+    }
+
+    await this.auditService.record({
+      userId: req.user!.userId,
+      action: buildAuditAction(resource, method, path),
+      resource,
+      resourceId,
+      method,
+      ip: req.ip || 'unknown',
+      userAgent: req.get('user-agent'),
+      status: succeeded ? 'SUCCESS' : 'FAILURE',
+      errorMsg: succeeded
+        ? undefined
+        : aborted
+          ? '响应未完成，连接已中断'
+          : (responseBody?.message || responseBody?.error?.message),
+      metadata
+    });
+  }
+}
+
+// 创建默认实例
+export const auditMiddleware = new AuditMiddleware();
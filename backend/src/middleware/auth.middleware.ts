@@ -53,7 +53,7 @@ export class AuthMiddleware {
         }
 
         // 验证Token
-        const payload = this.jwtManager.verifyAccessToken(token);
+        const payload = await this.jwtManager.verifyAccessToken(token);
 
         // 将用户信息附加到请求对象
         req.user = {
@@ -222,7 +222,7 @@ export class AuthMiddleware {
         }
 
         // 验证Refresh Token并生成新Token对
-        const tokens = this.jwtManager.refreshTokens(refreshToken);
+        const tokens = await this.jwtManager.refreshTokens(refreshToken);
 
         return res.json({
           success: true,
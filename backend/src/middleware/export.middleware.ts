@@ -0,0 +1,181 @@
+/**
+ * 数据导出中间件
+ *
+ * 功能：
+ * - 通过 ?format=csv|xlsx 或 Accept 头协商导出格式，未请求导出时按原接口返回JSON
+ * - 请求导出时额外要求 REPORT_EXPORT 权限（需放在认证和接口权限检查之后）
+ * - 统计结果一次性输出，列表数据分批查询、边查边输出
+ * - 导出格式、行数和导出的资源ID写入res.locals.export，由审计中间件记录
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { Permission } from '../auth/types';
+import { authMiddleware } from './auth.middleware';
+import { logger } from '../utils/logger';
+import { CellValue, Sheet, createCsvWriter, createXlsxWriter, sheetsToCsv, toXlsx } from '../utils/spreadsheet';
+import { formatDate } from '../utils/time-range';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+/**
+ * 本次导出的内容，供审计记录
+ */
+export interface ExportRecord {
+  format: ExportFormat;
+  title: string;
+  rowCount: number;
+  ids: string[]; // 导出的资源ID（列表导出），统计结果为空
+  completed: boolean; // 输出中断时为false
+}
+
+// 扩展Express的Request接口和res.locals
+declare global {
+  namespace Express {
+    interface Request {
+      exportFormat?: ExportFormat;
+    }
+    interface Locals {
+      export?: ExportRecord;
+    }
+  }
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+/**
+ * 解析导出格式
+ * format参数优先（json表示不导出）；未指定时按Accept头，浏览器默认的Accept不会触发导出
+ */
+export function negotiateExportFormat(req: Request): ExportFormat | null {
+  const format = req.query.format;
+  if (format !== undefined) {
+    const value = String(format).toLowerCase();
+    if (value === 'json') return null;
+    if (value === 'csv' || value === 'xlsx') return value;
+    throw new Error('导出格式必须是csv或xlsx');
+  }
+
+  const accepted = req.accepts(['application/json', CONTENT_TYPES.xlsx, 'text/csv']);
+  if (accepted === CONTENT_TYPES.xlsx) return 'xlsx';
+  if (accepted === 'text/csv') return 'csv';
+  return null;
+}
+
+/**
+ * 设置下载响应头，文件名为"名称-导出日期"
+ */
+function setDownloadHeaders(res: Response, format: ExportFormat, title: string) {
+  const filename = `${title}-${formatDate(new Date())}.${format}`;
+  res.setHeader('Content-Type', CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`);
+}
+
+/**
+ * 导出工作表（统计结果等数据量较小的内容）
+ * CSV只能包含一张表，多张表时依次输出
+ */
+export function sendExport(res: Response, format: ExportFormat, title: string, sheets: Sheet[]) {
+  const buffer = format === 'csv' ? Buffer.from(sheetsToCsv(sheets), 'utf8') : toXlsx(sheets);
+  res.locals.export = {
+    format,
+    title,
+    rowCount: sheets.reduce((sum, sheet) => sum + sheet.rows.length, 0),
+    ids: [],
+    completed: true
+  };
+  setDownloadHeaders(res, format, title);
+  res.setHeader('Content-Length', buffer.length);
+  return res.send(buffer);
+}
+
+/**
+ * 导出列定义
+ */
+export interface ExportColumn<T> {
+  header: string;
+  value: (item: T) => CellValue;
+}
+
+/**
+ * 导出行的资源ID
+ */
+function exportedId(item: unknown): string | undefined {
+  return typeof item === 'object' && item !== null && 'id' in item && typeof item.id === 'string' ? item.id : undefined;
+}
+
+/**
+ * 流式导出列表数据
+ * 第一批数据查询失败时抛出异常，由路由按原接口返回错误；开始输出后出错只能中断连接
+ */
+export async function streamExport<T>(
+  res: Response,
+  format: ExportFormat,
+  title: string,
+  columns: ExportColumn<T>[],
+  batches: AsyncIterable<T[]>
+): Promise<void> {
+  const iterator = batches[Symbol.asyncIterator]();
+  let batch = await iterator.next();
+  const headers = columns.map((column) => column.header);
+  const record: ExportRecord = { format, title, rowCount: 0, ids: [], completed: false };
+  res.locals.export = record;
+
+  setDownloadHeaders(res, format, title);
+  try {
+    const writer = format === 'csv' ? await createCsvWriter(res, headers) : await createXlsxWriter(res, title, headers);
+    while (!batch.done) {
+      // 先记录再输出，中断时已写出的行也在记录中
+      record.ids.push(...batch.value.map(exportedId).filter((id): id is string => id !== undefined));
+      record.rowCount += batch.value.length;
+      await writer.writeRows(batch.value.map((item) => columns.map((column) => column.value(item))));
+      batch = await iterator.next();
+    }
+    await writer.end();
+    record.completed = true;
+    res.end();
+    logger.info(`数据导出完成 - ${title}, 格式: ${format}, 行数: ${record.rowCount}`);
+  } catch (error) {
+    logger.error(`数据导出中断 - ${title}`, error);
+    await iterator.return?.(undefined);
+    res.destroy(error instanceof Error ? error : undefined);
+  }
+}
+
+/**
+ * 导出中间件类
+ */
+export class ExportMiddleware {
+  /**
+   * 协商导出格式，请求导出时检查REPORT_EXPORT权限
+   */
+  negotiate() {
+    const requireExportPermission = authMiddleware.requirePermission(Permission.REPORT_EXPORT);
+
+    return (req: Request, res: Response, next: NextFunction) => {
+      let format: ExportFormat | null;
+      try {
+        format = negotiateExportFormat(req);
+      } catch (error) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error instanceof Error ? error.message : '导出格式无效'
+          }
+        });
+      }
+
+      if (!format) {
+        return next();
+      }
+      req.exportFormat = format;
+      return requireExportPermission(req, res, next);
+    };
+  }
+}
+
+// 创建默认实例
+export const exportMiddleware = new ExportMiddleware();
@@ -0,0 +1,48 @@
+/**
+ * 通知事件总线
+ *
+ * 通知服务在创建、已读、删除通知后发布事件，由WebSocket服务推送给通知所属用户的全部连接，
+ * 多个标签页或设备上的通知列表和未读数因此保持同步。
+ */
+
+import { EventEmitter } from 'events';
+import { Notification } from '@prisma/client';
+
+export type NotificationEvent =
+  | { type: 'created'; userId: string; notification: Notification }
+  | { type: 'read'; userId: string; notificationIds: string[] | null } // null表示全部已读
+  | { type: 'deleted'; userId: string; notificationIds: string[] };
+
+type NotificationEventListener = (event: NotificationEvent) => void;
+
+/**
+ * 通知事件总线类
+ */
+export class NotificationEventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // 每个WebSocket服务实例注册一个监听器，测试中可能创建多个
+    this.emitter.setMaxListeners(50);
+  }
+
+  /**
+   * 发布通知事件
+   */
+  publish(event: NotificationEvent): void {
+    this.emitter.emit('notification', event);
+  }
+
+  /**
+   * 订阅通知事件，返回取消订阅函数
+   */
+  subscribe(listener: NotificationEventListener): () => void {
+    this.emitter.on('notification', listener);
+    return () => {
+      this.emitter.off('notification', listener);
+    };
+  }
+}
+
+// 导出单例
+export const notificationEvents = new NotificationEventBus();
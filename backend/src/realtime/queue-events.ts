@@ -0,0 +1,79 @@
+/**
+ * 排队事件总线
+ *
+ * 排队服务在排队状态变化后发布事件，由WebSocket服务推送给订阅的客户端。
+ * 事件只包含排队号、状态等标识信息，不含患者姓名等隐私数据，
+ * 客户端收到事件后通过REST接口重新获取详情。
+ */
+
+import { EventEmitter } from 'events';
+import { QueueStatus } from '@prisma/client';
+
+export type QueueEventType =
+  | 'created'
+  | 'called'
+  | 'completed'
+  | 'cancelled'
+  | 'skipped'
+  | 'recalled'
+  | 'transferred'
+  | 'no_show';
+
+export interface QueueEvent {
+  type: QueueEventType;
+  queueId: string;
+  appointmentId: string;
+  queueNumber: number;
+  status: QueueStatus;
+  departmentId: string;
+  doctorId: string;
+  occurredAt: string;
+}
+
+type QueueEventListener = (event: QueueEvent) => void;
+
+/**
+ * 排队事件总线类
+ */
+export class QueueEventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // 每个WebSocket服务实例注册一个监听器，测试中可能创建多个
+    this.emitter.setMaxListeners(50);
+  }
+
+  /**
+   * 发布排队事件
+   */
+  publish(
+    type: QueueEventType,
+    queue: { id: string; appointmentId: string; queueNumber: number; status: QueueStatus },
+    appointment: { departmentId: string; doctorId: string }
+  ): void {
+    const event: QueueEvent = {
+      type,
+      queueId: queue.id,
+      appointmentId: queue.appointmentId,
+      queueNumber: queue.queueNumber,
+      status: queue.status,
+      departmentId: appointment.departmentId,
+      doctorId: appointment.doctorId,
+      occurredAt: new Date().toISOString()
+    };
+    this.emitter.emit('queue', event);
+  }
+
+  /**
+   * 订阅排队事件，返回取消订阅函数
+   */
+  subscribe(listener: QueueEventListener): () => void {
+    this.emitter.on('queue', listener);
+    return () => {
+      this.emitter.off('queue', listener);
+    };
+  }
+}
+
+// 导出单例
+export const queueEvents = new QueueEventBus();
@@ -0,0 +1,172 @@
+/**
+ * WebSocket实时推送服务
+ *
+ * 基于Socket.IO推送排队事件和站内通知，替代前端的定时轮询：
+ * - 连接时通过handshake.auth.token（或Authorization头）进行JWT认证
+ * - 客户端发送 queue:subscribe 订阅科室或医生的排队变化（需要QUEUE_VIEW权限）
+ * - 排队变化时推送 queue:update，叫号时额外推送 queue:call
+ * - 每个连接自动加入所属用户的房间，新通知推送 notification:new，
+ *   已读、删除推送 notification:change
+ */
+
+import { Server as HttpServer } from 'http';
+import { Server, Socket } from 'socket.io';
+import { UserRole } from '@prisma/client';
+import { z } from 'zod';
+import { JWTManager } from '../auth/jwt.manager';
+import { AuthError, Permission, RolePermissions } from '../auth/types';
+import { logger } from '../utils/logger';
+import { QueueEvent, QueueEventBus, queueEvents } from './queue-events';
+import { NotificationEvent, NotificationEventBus, notificationEvents } from './notification-events';
+
+export const SOCKET_EVENTS = {
+  QUEUE_SUBSCRIBE: 'queue:subscribe',
+  QUEUE_UNSUBSCRIBE: 'queue:unsubscribe',
+  QUEUE_UPDATE: 'queue:update',
+  QUEUE_CALL: 'queue:call',
+  NOTIFICATION_NEW: 'notification:new',
+  NOTIFICATION_CHANGE: 'notification:change'
+} as const;
+
+const QueueSubscriptionSchema = z
+  .object({
+    departmentId: z.string().min(1).optional(),
+    doctorId: z.string().min(1).optional()
+  })
+  .refine((data) => data.departmentId || data.doctorId, {
+    message: '必须指定科室或医生'
+  });
+
+type SubscriptionAck = (response: { success: boolean; message?: string }) => void;
+
+export interface SocketServerOptions {
+  jwtManager?: JWTManager;
+  events?: QueueEventBus;
+  notifications?: NotificationEventBus;
+  corsOrigin?: string;
+}
+
+const departmentRoom = (departmentId: string) => `queue:department:${departmentId}`;
+const doctorRoom = (doctorId: string) => `queue:doctor:${doctorId}`;
+const userRoom = (userId: string) => `user:${userId}`;
+
+/**
+ * 是否可以订阅排队变化
+ */
+function canViewQueue(role: UserRole): boolean {
+  return role === UserRole.ADMIN || (RolePermissions[role] || []).includes(Permission.QUEUE_VIEW);
+}
+
+/**
+ * 根据订阅参数获取房间列表
+ */
+function subscriptionRooms(payload: unknown): string[] {
+  const { departmentId, doctorId } = QueueSubscriptionSchema.parse(payload);
+  const rooms: string[] = [];
+  if (departmentId) rooms.push(departmentRoom(departmentId));
+  if (doctorId) rooms.push(doctorRoom(doctorId));
+  return rooms;
+}
+
+/**
+ * 包装订阅处理，参数错误时通过ack返回错误
+ */
+function handleSubscription(socket: Socket, action: (rooms: string[]) => void) {
+  return (payload: unknown, ack?: SubscriptionAck) => {
+    if (!canViewQueue(socket.data.user.role)) {
+      ack?.({ success: false, message: `缺少权限: ${Permission.QUEUE_VIEW}` });
+      return;
+    }
+    try {
+      action(subscriptionRooms(payload));
+      ack?.({ success: true });
+    } catch (error) {
+      const message = error instanceof z.ZodError ? '订阅参数无效' : '订阅失败';
+      logger.warn(`WebSocket订阅失败 - 连接: ${socket.id}, 原因: ${message}`);
+      ack?.({ success: false, message });
+    }
+  };
+}
+
+/**
+ * 初始化WebSocket服务并挂载到HTTP服务
+ */
+export function initializeSocketServer(httpServer: HttpServer, options: SocketServerOptions = {}): Server {
+  const jwtManager = options.jwtManager ?? new JWTManager();
+  const events = options.events ?? queueEvents;
+  const notifications = options.notifications ?? notificationEvents;
+
+  const io = new Server(httpServer, {
+    cors: {
+      origin: options.corsOrigin ?? process.env.CORS_ORIGIN ?? 'http://localhost:5173',
+      credentials: true
+    }
+  });
+
+  // 连接认证
+  io.use(async (socket, next) => {
+    try {
+      const token =
+        (typeof socket.handshake.auth?.token === 'string' && socket.handshake.auth.token) ||
+        jwtManager.extractTokenFromHeader(socket.handshake.headers.authorization);
+      if (!token) {
+        return next(new Error('未提供认证Token'));
+      }
+
+      const payload = await jwtManager.verifyAccessToken(token);
+      socket.data.user = {
+        userId: payload.userId,
+        username: payload.username,
+        role: payload.role
+      };
+      next();
+    } catch (error) {
+      if (!(error instanceof AuthError)) {
+        logger.error('WebSocket认证错误:', error);
+      }
+      next(new Error(error instanceof AuthError ? error.message : '认证服务异常'));
+    }
+  });
+
+  io.on('connection', (socket) => {
+    logger.debug(`WebSocket连接建立 - 用户: ${socket.data.user?.username}, 连接: ${socket.id}`);
+    socket.join(userRoom(socket.data.user.userId));
+
+    socket.on(
+      SOCKET_EVENTS.QUEUE_SUBSCRIBE,
+      handleSubscription(socket, (rooms) => socket.join(rooms))
+    );
+    socket.on(
+      SOCKET_EVENTS.QUEUE_UNSUBSCRIBE,
+      handleSubscription(socket, (rooms) => rooms.forEach((room) => socket.leave(room)))
+    );
+
+    socket.on('disconnect', (reason) => {
+      logger.debug(`WebSocket连接断开 - 连接: ${socket.id}, 原因: ${reason}`);
+    });
+  });
+
+  // 推送排队事件到对应科室和医生的房间（同时订阅两者的连接只收到一次）
+  const unsubscribe = events.subscribe((event: QueueEvent) => {
+    const target = io.to([departmentRoom(event.departmentId), doctorRoom(event.doctorId)]);
+    target.emit(SOCKET_EVENTS.QUEUE_UPDATE, event);
+    if (event.type === 'called') {
+      target.emit(SOCKET_EVENTS.QUEUE_CALL, event);
+    }
+  });
+  httpServer.on('close', unsubscribe);
+
+  // 推送通知事件到通知所属用户的全部连接
+  const unsubscribeNotifications = notifications.subscribe((event: NotificationEvent) => {
+    const target = io.to(userRoom(event.userId));
+    if (event.type === 'created') {
+      target.emit(SOCKET_EVENTS.NOTIFICATION_NEW, event.notification);
+    } else {
+      target.emit(SOCKET_EVENTS.NOTIFICATION_CHANGE, { type: event.type, notificationIds: event.notificationIds });
+    }
+  });
+  httpServer.on('close', unsubscribeNotifications);
+
+  logger.info('WebSocket服务已启动');
+  return io;
+}
@@ -11,17 +11,24 @@
  * - POST /api/v1/ai-assistant/check-contraindication - AI禁忌症检查
  * - POST /api/v1/ai-assistant/check-dosage - AI剂量合理性检查
  * - POST /api/v1/ai-assistant/review-prescription - AI处方智能审核
+ * - POST /api/v1/ai-assistant/review-prescription/:prescriptionId - 按处方ID进行AI审核
  * - POST /api/v1/ai-assistant/suggest-alternative - AI替代药物建议
  * - POST /api/v1/ai-assistant/medical-record/summarize - AI病历智能总结
  * - POST /api/v1/ai-assistant/medical-record/quality-check - AI病历质量检查
  * - POST /api/v1/ai-assistant/diagnosis/suggest - AI诊断建议生成
  * - POST /api/v1/ai-assistant/treatment/suggest - AI治疗方案建议
  * - POST /api/v1/ai-assistant/medical-records/search - AI病历智能检索
+ * - GET /api/v1/ai-assistant/metrics/schema-violations - 各AI服务商结构化输出违规率
+ *
+ * 调用AI的端点受用户和科室AI配额限制，超出硬限制时返回429
+ *
+ * 返回JSON结构的功能附带confidence（0-1）、fallback（是否为降级结果）和attempts（调用次数）
  */
 
 import { Router, Request, Response } from 'express';
-import { AIAssistantService } from '../services/ai-assistant.service';
+import { AIAssistantService, AssistantContext } from '../services/ai-assistant.service';
 import { authMiddleware } from '../middleware/auth.middleware';
+import { aiQuotaMiddleware } from '../middleware/ai-quota.middleware';
 import { Permission } from '../auth/types';
 import { defaultAIProviderManager } from '../ai';
 import { prisma } from '../utils/prisma';
@@ -30,7 +37,9 @@ import {
   DiagnoseSchema,
   PatientAnalysisSchema,
   QuickRecordSchema,
-  MedicalQASchema
+  MedicalQASchema,
+  MedicalRecordSearchSchema,
+  SchemaViolationStatsQuerySchema
 } from '../validation/schemas';
 import { ZodError } from 'zod';
 
@@ -39,6 +48,13 @@ const router = Router();
 // 创建AI辅助服务实例
 const aiAssistantService = new AIAssistantService(defaultAIProviderManager, prisma);
 
+/**
+ * 调用上下文：按当前用户所在科室选择提示词，并记录调用人
+ */
+function assistantContext(req: Request): AssistantContext {
+  return { userId: req.user?.userId };
+}
+
 /**
  * AI智能问诊
  * POST /api/v1/ai-assistant/diagnose
@@ -47,13 +63,14 @@ const aiAssistantService = new AIAssistantService(defaultAIProviderManager, pris
 router.post(
   '/diagnose',
   authMiddleware.authenticate(),
+  aiQuotaMiddleware.enforce(),
   async (req: Request, res: Response) => {
     try {
       // 验证输入
       const validatedData = DiagnoseSchema.parse(req.body);
 
       // 调用AI问诊服务
-      const diagnoseResult = await aiAssistantService.diagnose(validatedData);
+      const diagnoseResult = await aiAssistantService.diagnose(validatedData, assistantContext(req));
 
       logger.info(`AI问诊完成 - 用户: ${req.user?.username}, 症状: ${validatedData.symptoms.join(', ')}`);
 
@@ -93,13 +110,14 @@ router.post(
 router.post(
   '/analyze-patient',
   authMiddleware.authenticate(),
+  aiQuotaMiddleware.enforce(),
   async (req: Request, res: Response) => {
     try {
       // 验证输入
       const validatedData = PatientAnalysisSchema.parse(req.body);
 
       // 调用患者分析服务
-      const analysisResult = await aiAssistantService.analyzePatient(validatedData);
+      const analysisResult = await aiAssistantService.analyzePatient(validatedData, assistantContext(req));
 
       logger.info(
         `患者分析完成 - 用户: ${req.user?.username}, 患者ID: ${validatedData.patientId}, 分析类型: ${validatedData.analysisType}`
@@ -141,13 +159,14 @@ router.post(
 router.post(
   '/quick-record',
   authMiddleware.authenticate(),
+  aiQuotaMiddleware.enforce(),
   async (req: Request, res: Response) => {
     try {
       // 验证输入
       const validatedData = QuickRecordSchema.parse(req.body);
 
       // 调用病历录入辅助服务
-      const recordResult = await aiAssistantService.quickRecord(validatedData);
+      const recordResult = await aiAssistantService.quickRecord(validatedData, assistantContext(req));
 
       logger.info(
         `病历快速录入完成 - 用户: ${req.user?.username}, 主诉: ${validatedData.chiefComplaint.slice(0, 50)}...`
@@ -189,13 +208,14 @@ router.post(
 router.post(
   '/medical-qa',
   authMiddleware.authenticate(),
+  aiQuotaMiddleware.enforce(),
   async (req: Request, res: Response) => {
     try {
       // 验证输入
       const validatedData = MedicalQASchema.parse(req.body);
 
       // 调用医疗知识问答服务
-      const answer = await aiAssistantService.medicalQA(validatedData);
+      const answer = await aiAssistantService.medicalQA(validatedData, assistantContext(req));
 
       logger.info(
         `医疗知识问答完成 - 用户: ${req.user?.username}, 问题: ${validatedData.question.slice(0, 50)}...`
@@ -242,6 +262,7 @@ router.post(
 router.get(
   '/suggestions/:patientId',
   authMiddleware.authenticate(),
+  aiQuotaMiddleware.enforce(),
   async (req: Request, res: Response) => {
     try {
       const { patientId } = req.params;
@@ -259,7 +280,7 @@ router.get(
       }
 
       // 获取治疗建议
-      const suggestions = await aiAssistantService.getPatientTreatmentSuggestions(patientId);
+      const suggestions = await aiAssistantService.getPatientTreatmentSuggestions(patientId, assistantContext(req));
 
       logger.info(`获取患者治疗建议完成 - 用户: ${req.user?.username}, 患者ID: ${patientId}`);
 
@@ -292,6 +313,7 @@ router.get(
 router.post(
   '/check-drug-interaction',
   authMiddleware.authenticate(),
+  aiQuotaMiddleware.enforce(),
   async (req: Request, res: Response) => {
     try {
       const { medicines } = req.body;
@@ -319,7 +341,7 @@ router.post(
         }
       }
 
-      const result = await aiAssistantService.checkDrugInteraction(medicines);
+      const result = await aiAssistantService.checkDrugInteraction(medicines, assistantContext(req));
 
       logger.info(`AI药物相互作用检查完成 - 用户: ${req.user?.username}, 药物数: ${medicines.length}`);
 
@@ -348,6 +370,7 @@ router.post(
 router.post(
   '/check-contraindication',
   authMiddleware.authenticate(),
+  aiQuotaMiddleware.enforce(),
   async (req: Request, res: Response) => {
     try {
       const { medicines, patientInfo } = req.body;
@@ -372,7 +395,7 @@ router.post(
         });
       }
 
-      const result = await aiAssistantService.checkContraindication({ medicines, patientInfo });
+      const result = await aiAssistantService.checkContraindication({ medicines, patientInfo }, assistantContext(req));
 
       logger.info(`AI禁忌症检查完成 - 用户: ${req.user?.username}, 药物数: ${medicines.length}`);
 
@@ -401,6 +424,7 @@ router.post(
 router.post(
   '/check-dosage',
   authMiddleware.authenticate(),
+  aiQuotaMiddleware.enforce(),
   async (req: Request, res: Response) => {
     try {
       const { medicine, dosage, frequency, patientInfo } = req.body;
@@ -425,7 +449,10 @@ router.post(
         });
       }
 
-      const result = await aiAssistantService.checkDosage({ medicine, dosage, frequency, patientInfo });
+      const result = await aiAssistantService.checkDosage(
+        { medicine, dosage, frequency, patientInfo },
+        assistantContext(req)
+      );
 
       logger.info(`AI剂量检查完成 - 用户: ${req.user?.username}, 药物: ${medicine}`);
 
@@ -454,6 +481,7 @@ router.post(
 router.post(
   '/review-prescription',
   authMiddleware.authenticate(),
+  aiQuotaMiddleware.enforce(),
   async (req: Request, res: Response) => {
     try {
       const { diagnosis, medicines, patientInfo } = req.body;
@@ -491,7 +519,10 @@ router.post(
         }
       }
 
-      const result = await aiAssistantService.reviewPrescription({ diagnosis, medicines, patientInfo });
+      const result = await aiAssistantService.reviewPrescription(
+        { diagnosis, medicines, patientInfo },
+        assistantContext(req)
+      );
 
       logger.info(`AI处方审核完成 - 用户: ${req.user?.username}, 药物数: ${medicines.length}`);
 
@@ -512,6 +543,39 @@ router.post(
   }
 );
 
+/**
+ * 按处方ID进行AI审核
+ * POST /api/v1/ai-assistant/review-prescription/:prescriptionId
+ * 权限：需要认证
+ */
+router.post(
+  '/review-prescription/:prescriptionId',
+  authMiddleware.authenticate(),
+  aiQuotaMiddleware.enforce(),
+  async (req: Request, res: Response) => {
+    try {
+      const result = await aiAssistantService.reviewPrescriptionById(req.params.prescriptionId, assistantContext(req));
+
+      logger.info(`AI处方审核完成 - 用户: ${req.user?.username}, 处方: ${req.params.prescriptionId}`);
+
+      return res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      logger.error('AI处方审核失败:', error);
+      const message = error instanceof Error ? error.message : 'AI处方审核服务异常';
+      return res.status(message === '处方不存在' ? 404 : 500).json({
+        success: false,
+        error: {
+          code: 'AI009',
+          message
+        }
+      });
+    }
+  }
+);
+
 /**
  * AI替代药物建议
  * POST /api/v1/ai-assistant/suggest-alternative
@@ -520,6 +584,7 @@ router.post(
 router.post(
   '/suggest-alternative',
   authMiddleware.authenticate(),
+  aiQuotaMiddleware.enforce(),
   async (req: Request, res: Response) => {
     try {
       const { originalMedicine, reason, indication, patientInfo } = req.body;
@@ -539,7 +604,7 @@ router.post(
         reason,
         indication,
         patientInfo
-      });
+      }, assistantContext(req));
 
       logger.info(`AI替代药物建议完成 - 用户: ${req.user?.username}, 原药物: ${originalMedicine}`);
 
@@ -568,6 +633,7 @@ router.post(
 router.post(
   '/medical-record/summarize',
   authMiddleware.authenticate(),
+  aiQuotaMiddleware.enforce(),
   authMiddleware.requirePermission(Permission.AI_REVIEW_USE),
   async (req: Request, res: Response) => {
     try {
@@ -597,7 +663,7 @@ router.post(
         physicalExam,
         diagnosis,
         treatmentPlan
-      });
+      }, assistantContext(req));
 
       logger.info(`AI病历总结完成 - 用户: ${req.user?.username}`);
 
@@ -629,6 +695,7 @@ router.post(
 router.post(
   '/medical-record/quality-check',
   authMiddleware.authenticate(),
+  aiQuotaMiddleware.enforce(),
   authMiddleware.requirePermission(Permission.AI_REVIEW_USE),
   async (req: Request, res: Response) => {
     try {
@@ -662,7 +729,7 @@ router.post(
         auxiliaryExam,
         diagnosis,
         treatmentPlan
-      });
+      }, assistantContext(req));
 
       logger.info(`AI病历质量检查完成 - 用户: ${req.user?.username}, 总分: ${qualityReport.overallScore}`);
 
@@ -691,6 +758,7 @@ router.post(
 router.post(
   '/diagnosis/suggest',
   authMiddleware.authenticate(),
+  aiQuotaMiddleware.enforce(),
   authMiddleware.requirePermission(Permission.AI_REVIEW_USE),
   async (req: Request, res: Response) => {
     try {
@@ -712,7 +780,7 @@ router.post(
         physicalExam,
         auxiliaryExam,
         patientInfo
-      });
+      }, assistantContext(req));
 
       logger.info(`AI诊断建议生成完成 - 用户: ${req.user?.username}`);
 
@@ -741,6 +809,7 @@ router.post(
 router.post(
   '/treatment/suggest',
   authMiddleware.authenticate(),
+  aiQuotaMiddleware.enforce(),
   authMiddleware.requirePermission(Permission.AI_REVIEW_USE),
   async (req: Request, res: Response) => {
     try {
@@ -770,7 +839,7 @@ router.post(
         diagnosis,
         symptoms,
         patientInfo
-      });
+      }, assistantContext(req));
 
       logger.info(`AI治疗方案建议完成 - 用户: ${req.user?.username}, 诊断: ${diagnosis}`);
 
@@ -799,35 +868,32 @@ router.post(
 router.post(
   '/medical-records/search',
   authMiddleware.authenticate(),
+  aiQuotaMiddleware.enforce(),
   authMiddleware.requirePermission(Permission.AI_REVIEW_USE),
   async (req: Request, res: Response) => {
     try {
-      const { query, patientId, dateRange, limit } = req.body;
+      const validatedData = MedicalRecordSearchSchema.parse(req.body);
 
-      if (!query) {
+      const searchResult = await aiAssistantService.searchMedicalRecords(validatedData, assistantContext(req));
+
+      logger.info(`AI病历检索完成 - 用户: ${req.user?.username}, 查询: ${validatedData.query}, 结果数: ${searchResult.results.length}`);
+
+      return res.json({
+        success: true,
+        data: searchResult
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
         return res.status(400).json({
           success: false,
           error: {
             code: 'VALIDATION_ERROR',
-            message: '搜索查询不能为空'
+            message: '输入验证失败',
+            details: error.errors
           }
         });
       }
 
-      const searchResult = await aiAssistantService.searchMedicalRecords({
-        query,
-        patientId,
-        dateRange,
-        limit
-      });
-
-      logger.info(`AI病历检索完成 - 用户: ${req.user?.username}, 查询: ${query}, 结果数: ${searchResult.results.length}`);
-
-      return res.json({
-        success: true,
-        data: searchResult
-      });
-    } catch (error) {
       logger.error('AI病历检索失败:', error);
       return res.status(500).json({
         success: false,
@@ -848,6 +914,7 @@ router.post(
 router.post(
   '/record-summary/:recordId',
   authMiddleware.authenticate(),
+  aiQuotaMiddleware.enforce(),
   async (req: Request, res: Response) => {
     try {
       const { recordId } = req.params;
@@ -879,7 +946,7 @@ router.post(
         physicalExam: record.physicalExam || '',
         diagnosis: record.diagnosis,
         treatmentPlan: record.treatmentPlan
-      });
+      }, assistantContext(req));
 
       logger.info(`AI病历摘要生成完成 - 用户: ${req.user?.username}, 病历ID: ${recordId}`);
 
@@ -912,6 +979,7 @@ router.post(
 router.post(
   '/diagnosis-suggestions/:recordId',
   authMiddleware.authenticate(),
+  aiQuotaMiddleware.enforce(),
   async (req: Request, res: Response) => {
     try {
       const { recordId } = req.params;
@@ -950,7 +1018,7 @@ router.post(
           gender: record.patient.gender,
           medicalHistory: (record.patient as any).allergies || ''  // 使用类型断言处理allergies字段
         }
-      });
+      }, assistantContext(req));
 
       // 转换为前端期待的格式
       const primaryDiagnosis = suggestions.suggestedDiagnoses.map(d => d.diagnosis);
@@ -1045,4 +1113,47 @@ router.get(
   }
 );
 
+/**
+ * 各AI服务商结构化输出违规率
+ * GET /api/v1/ai-assistant/metrics/schema-violations?days=7
+ * 权限：需要认证 + SYSTEM_MANAGE
+ */
+router.get(
+  '/metrics/schema-violations',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.SYSTEM_MANAGE),
+  async (req: Request, res: Response) => {
+    try {
+      const { days } = SchemaViolationStatsQuerySchema.parse(req.query);
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      const stats = await aiAssistantService.getSchemaViolationStats(since);
+
+      return res.json({
+        success: true,
+        data: stats
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '输入验证失败',
+            details: error.errors
+          }
+        });
+      }
+
+      logger.error('获取结构化输出统计失败:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'AI019',
+          message: error instanceof Error ? error.message : '获取结构化输出统计失败'
+        }
+      });
+    }
+  }
+);
+
 export default router;
\ No newline at end of file
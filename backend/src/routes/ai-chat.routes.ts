@@ -0,0 +1,177 @@
+/**
+ * AI问诊会话API路由
+ *
+ * 端点（需要认证，会话仅创建者本人可访问）：
+ * - POST /api/v1/ai/sessions - 创建会话（可关联患者和挂号）
+ * - GET /api/v1/ai/sessions - 获取会话列表（可按患者筛选）
+ * - GET /api/v1/ai/sessions/:id - 获取会话详情和对话记录（恢复会话）
+ * - POST /api/v1/ai/sessions/:id/messages - 发送消息（受AI配额限制）
+ * - DELETE /api/v1/ai/sessions/:id - 删除会话
+ */
+
+import { Router, Request, Response } from 'express';
+import { AIChatService } from '../services/ai-chat.service';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { aiQuotaMiddleware } from '../middleware/ai-quota.middleware';
+import { defaultAIProviderManager } from '../ai';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { CreateAIChatSessionSchema, AIChatMessageSchema, AIChatSessionSearchSchema } from '../validation/schemas';
+import { ZodError } from 'zod';
+
+const router = Router();
+const aiChatService = new AIChatService(prisma, defaultAIProviderManager);
+
+/**
+ * 错误响应：验证失败或挂号与患者不匹配400，会话/患者/挂号不存在404，其余500
+ */
+function sendError(res: Response, error: unknown, code: string, fallback: string) {
+  if (error instanceof ZodError) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: '输入验证失败',
+        details: error.errors
+      }
+    });
+  }
+
+  const message = error instanceof Error ? error.message : fallback;
+  const status = message.endsWith('不存在') ? 404 : message === '挂号不属于该患者' ? 400 : 500;
+  return res.status(status).json({
+    success: false,
+    error: { code, message }
+  });
+}
+
+/**
+ * 创建会话
+ * POST /api/v1/ai/sessions
+ * 权限：需要认证
+ */
+router.post(
+  '/',
+  authMiddleware.authenticate(),
+  async (req: Request, res: Response) => {
+    try {
+      const input = CreateAIChatSessionSchema.parse(req.body);
+      const session = await aiChatService.createSession(req.user!.userId, input);
+
+      logger.info(`AI问诊会话创建 - 用户: ${req.user?.username}, 会话: ${session.id}`);
+
+      return res.status(201).json({
+        success: true,
+        data: session
+      });
+    } catch (error) {
+      logger.error('创建AI问诊会话失败:', error);
+      return sendError(res, error, 'AICHAT001', '创建会话失败');
+    }
+  }
+);
+
+/**
+ * 获取会话列表
+ * GET /api/v1/ai/sessions
+ * 权限：需要认证
+ */
+router.get(
+  '/',
+  authMiddleware.authenticate(),
+  async (req: Request, res: Response) => {
+    try {
+      const { limit, ...query } = AIChatSessionSearchSchema.parse(req.query);
+      const result = await aiChatService.listSessions(req.user!.userId, { ...query, pageSize: limit });
+
+      return res.json({
+        success: true,
+        data: result.sessions,
+        pagination: {
+          total: result.total,
+          page: result.page,
+          pageSize: result.pageSize,
+          totalPages: Math.ceil(result.total / result.pageSize)
+        }
+      });
+    } catch (error) {
+      logger.error('获取AI问诊会话列表失败:', error);
+      return sendError(res, error, 'AICHAT002', '获取会话列表失败');
+    }
+  }
+);
+
+/**
+ * 获取会话详情和对话记录
+ * GET /api/v1/ai/sessions/:id
+ * 权限：需要认证
+ */
+router.get(
+  '/:id',
+  authMiddleware.authenticate(),
+  async (req: Request, res: Response) => {
+    try {
+      const session = await aiChatService.getSession(req.user!.userId, req.params.id);
+
+      return res.json({
+        success: true,
+        data: session
+      });
+    } catch (error) {
+      logger.error('获取AI问诊会话失败:', error);
+      return sendError(res, error, 'AICHAT003', '获取会话失败');
+    }
+  }
+);
+
+/**
+ * 发送消息
+ * POST /api/v1/ai/sessions/:id/messages
+ * 权限：需要认证
+ */
+router.post(
+  '/:id/messages',
+  authMiddleware.authenticate(),
+  aiQuotaMiddleware.enforce(),
+  async (req: Request, res: Response) => {
+    try {
+      const { content } = AIChatMessageSchema.parse(req.body);
+      const result = await aiChatService.sendMessage(req.user!.userId, req.params.id, content);
+
+      return res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      logger.error('AI问诊会话发送消息失败:', error);
+      return sendError(res, error, 'AICHAT004', '发送消息失败');
+    }
+  }
+);
+
+/**
+ * 删除会话
+ * DELETE /api/v1/ai/sessions/:id
+ * 权限：需要认证
+ */
+router.delete(
+  '/:id',
+  authMiddleware.authenticate(),
+  async (req: Request, res: Response) => {
+    try {
+      await aiChatService.deleteSession(req.user!.userId, req.params.id);
+
+      logger.info(`AI问诊会话删除 - 用户: ${req.user?.username}, 会话: ${req.params.id}`);
+
+      return res.json({
+        success: true,
+        message: '会话已删除'
+      });
+    } catch (error) {
+      logger.error('删除AI问诊会话失败:', error);
+      return sendError(res, error, 'AICHAT005', '删除会话失败');
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,240 @@
+/**
+ * AI提示词管理API路由
+ *
+ * 端点（需要SYSTEM_MANAGE权限）：
+ * - GET /api/v1/ai-prompts - 获取全部提示词及激活版本
+ * - GET /api/v1/ai-prompts/runs - 获取AI辅助调用记录（含使用的提示词版本）
+ * - GET /api/v1/ai-prompts/:key/versions - 获取历史版本（departmentId为空时为全院版本）
+ * - POST /api/v1/ai-prompts/:key/versions - 保存新版本
+ * - POST /api/v1/ai-prompts/:key/preview - 使用示例变量预览提示词
+ * - DELETE /api/v1/ai-prompts/:key/active - 恢复默认提示词
+ * - POST /api/v1/ai-prompts/versions/:id/activate - 激活历史版本（回滚）
+ */
+
+import { Router, Request, Response } from 'express';
+import { PromptRegistryService } from '../services/prompt-registry.service';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { Permission } from '../auth/types';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import {
+  CreatePromptVersionSchema,
+  PromptPreviewSchema,
+  PromptDepartmentQuerySchema,
+  AIAssistantRunSearchSchema
+} from '../validation/schemas';
+import { ZodError } from 'zod';
+
+const router = Router();
+const promptRegistry = new PromptRegistryService(prisma);
+
+/**
+ * 错误响应：验证失败或包含未知变量400，提示词/版本/科室不存在404，其余500
+ */
+function sendError(res: Response, error: unknown, code: string, fallback: string) {
+  if (error instanceof ZodError) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: '输入验证失败',
+        details: error.errors
+      }
+    });
+  }
+
+  const message = error instanceof Error ? error.message : fallback;
+  const status = message.endsWith('不存在') ? 404 : message.startsWith('提示词包含未知变量') ? 400 : 500;
+  return res.status(status).json({
+    success: false,
+    error: { code, message }
+  });
+}
+
+/**
+ * 获取全部提示词
+ * GET /api/v1/ai-prompts
+ * 权限：SYSTEM_MANAGE
+ */
+router.get(
+  '/',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.SYSTEM_MANAGE),
+  async (_req: Request, res: Response) => {
+    try {
+      const prompts = await promptRegistry.listPrompts();
+
+      return res.json({
+        success: true,
+        data: prompts
+      });
+    } catch (error) {
+      logger.error('获取AI提示词失败:', error);
+      return sendError(res, error, 'PROMPT001', '获取AI提示词失败');
+    }
+  }
+);
+
+/**
+ * 获取AI辅助调用记录
+ * GET /api/v1/ai-prompts/runs
+ * 权限：SYSTEM_MANAGE
+ */
+router.get(
+  '/runs',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.SYSTEM_MANAGE),
+  async (req: Request, res: Response) => {
+    try {
+      const { limit, ...query } = AIAssistantRunSearchSchema.parse(req.query);
+      const result = await promptRegistry.listRuns({ ...query, pageSize: limit });
+
+      return res.json({
+        success: true,
+        data: result.runs,
+        pagination: {
+          total: result.total,
+          page: result.page,
+          pageSize: result.pageSize,
+          totalPages: Math.ceil(result.total / result.pageSize)
+        }
+      });
+    } catch (error) {
+      logger.error('获取AI辅助调用记录失败:', error);
+      return sendError(res, error, 'PROMPT002', '获取AI辅助调用记录失败');
+    }
+  }
+);
+
+/**
+ * 获取提示词历史版本
+ * GET /api/v1/ai-prompts/:key/versions
+ * 权限：SYSTEM_MANAGE
+ */
+router.get(
+  '/:key/versions',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.SYSTEM_MANAGE),
+  async (req: Request, res: Response) => {
+    try {
+      const { departmentId } = PromptDepartmentQuerySchema.parse(req.query);
+      const result = await promptRegistry.listVersions(req.params.key, departmentId);
+
+      return res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      logger.error('获取AI提示词版本失败:', error);
+      return sendError(res, error, 'PROMPT003', '获取AI提示词版本失败');
+    }
+  }
+);
+
+/**
+ * 保存提示词新版本
+ * POST /api/v1/ai-prompts/:key/versions
+ * 权限：SYSTEM_MANAGE
+ */
+router.post(
+  '/:key/versions',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.SYSTEM_MANAGE),
+  async (req: Request, res: Response) => {
+    try {
+      const input = CreatePromptVersionSchema.parse(req.body);
+      const version = await promptRegistry.createVersion(req.params.key, input, req.user?.userId);
+
+      logger.info(`AI提示词保存成功 - 用户: ${req.user?.username}, 提示词: ${version.key}, 版本: ${version.version}`);
+
+      return res.status(201).json({
+        success: true,
+        data: version
+      });
+    } catch (error) {
+      logger.error('保存AI提示词失败:', error);
+      return sendError(res, error, 'PROMPT004', '保存AI提示词失败');
+    }
+  }
+);
+
+/**
+ * 预览提示词
+ * POST /api/v1/ai-prompts/:key/preview
+ * 权限：SYSTEM_MANAGE
+ */
+router.post(
+  '/:key/preview',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.SYSTEM_MANAGE),
+  async (req: Request, res: Response) => {
+    try {
+      const { system, user, variables, departmentId } = PromptPreviewSchema.parse(req.body);
+      const content = system !== undefined && user !== undefined ? { system, user } : undefined;
+      const preview = await promptRegistry.preview(req.params.key, content, variables, departmentId);
+
+      return res.json({
+        success: true,
+        data: preview
+      });
+    } catch (error) {
+      logger.error('预览AI提示词失败:', error);
+      return sendError(res, error, 'PROMPT005', '预览AI提示词失败');
+    }
+  }
+);
+
+/**
+ * 恢复默认提示词
+ * DELETE /api/v1/ai-prompts/:key/active
+ * 权限：SYSTEM_MANAGE
+ */
+router.delete(
+  '/:key/active',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.SYSTEM_MANAGE),
+  async (req: Request, res: Response) => {
+    try {
+      const { departmentId } = PromptDepartmentQuerySchema.parse(req.query);
+      await promptRegistry.resetToDefault(req.params.key, departmentId);
+
+      logger.info(`AI提示词已恢复默认 - 用户: ${req.user?.username}, 提示词: ${req.params.key}`);
+
+      return res.json({
+        success: true,
+        message: departmentId ? '已恢复为全院提示词' : '已恢复默认提示词'
+      });
+    } catch (error) {
+      logger.error('恢复默认提示词失败:', error);
+      return sendError(res, error, 'PROMPT006', '恢复默认提示词失败');
+    }
+  }
+);
+
+/**
+ * 激活历史版本（回滚）
+ * POST /api/v1/ai-prompts/versions/:id/activate
+ * 权限：SYSTEM_MANAGE
+ */
+router.post(
+  '/versions/:id/activate',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.SYSTEM_MANAGE),
+  async (req: Request, res: Response) => {
+    try {
+      const version = await promptRegistry.activateVersion(req.params.id);
+
+      logger.info(`AI提示词回滚 - 用户: ${req.user?.username}, 提示词: ${version.key}, 版本: ${version.version}`);
+
+      return res.json({
+        success: true,
+        data: version
+      });
+    } catch (error) {
+      logger.error('激活AI提示词版本失败:', error);
+      return sendError(res, error, 'PROMPT007', '激活AI提示词版本失败');
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,177 @@
+/**
+ * AI用量与配额API路由
+ *
+ * 端点：
+ * - GET /api/v1/ai-usage/me - 当前用户的配额使用情况（需要认证）
+ * - GET /api/v1/ai-usage/summary - 按科室/用户/服务商/模型/功能汇总用量和费用（SYSTEM_MANAGE）
+ * - GET /api/v1/ai-usage/quotas - 获取配额配置（SYSTEM_MANAGE）
+ * - PUT /api/v1/ai-usage/quotas - 设置配额，同一对象和周期已有配额时覆盖（SYSTEM_MANAGE）
+ * - DELETE /api/v1/ai-usage/quotas/:id - 删除配额（SYSTEM_MANAGE）
+ */
+
+import { Router, Request, Response } from 'express';
+import { AIUsageService } from '../services/ai-usage.service';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { Permission } from '../auth/types';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { AIUsageSummaryQuerySchema, SetAIQuotaSchema } from '../validation/schemas';
+import { ZodError } from 'zod';
+
+const router = Router();
+const usageService = new AIUsageService(prisma);
+
+/**
+ * 错误响应：验证失败400，配额/用户/科室不存在404，其余500
+ */
+function sendError(res: Response, error: unknown, code: string, fallback: string) {
+  if (error instanceof ZodError) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: '输入验证失败',
+        details: error.errors
+      }
+    });
+  }
+
+  const message = error instanceof Error ? error.message : fallback;
+  return res.status(message.endsWith('不存在') ? 404 : 500).json({
+    success: false,
+    error: { code, message }
+  });
+}
+
+/**
+ * 当前用户的配额使用情况
+ * GET /api/v1/ai-usage/me
+ * 权限：需要认证
+ */
+router.get(
+  '/me',
+  authMiddleware.authenticate(),
+  async (req: Request, res: Response) => {
+    try {
+      const status = await usageService.checkQuota(req.user!.userId);
+
+      return res.json({
+        success: true,
+        data: status
+      });
+    } catch (error) {
+      logger.error('获取AI配额使用情况失败:', error);
+      return sendError(res, error, 'USAGE001', '获取AI配额使用情况失败');
+    }
+  }
+);
+
+/**
+ * 用量汇总
+ * GET /api/v1/ai-usage/summary
+ * 权限：SYSTEM_MANAGE
+ */
+router.get(
+  '/summary',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.SYSTEM_MANAGE),
+  async (req: Request, res: Response) => {
+    try {
+      const query = AIUsageSummaryQuerySchema.parse(req.query);
+      const now = new Date();
+      const startDate = query.startDate ?? new Date(now.getFullYear(), now.getMonth(), 1);
+      const endDate = query.endDate ?? new Date(now.getFullYear(), now.getMonth(), now.getDate());
+      const summary = await usageService.getSummary({ startDate, endDate, groupBy: query.groupBy });
+
+      return res.json({
+        success: true,
+        data: { startDate, endDate, groupBy: query.groupBy, ...summary }
+      });
+    } catch (error) {
+      logger.error('获取AI用量汇总失败:', error);
+      return sendError(res, error, 'USAGE002', '获取AI用量汇总失败');
+    }
+  }
+);
+
+/**
+ * 获取配额配置
+ * GET /api/v1/ai-usage/quotas
+ * 权限：SYSTEM_MANAGE
+ */
+router.get(
+  '/quotas',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.SYSTEM_MANAGE),
+  async (_req: Request, res: Response) => {
+    try {
+      const quotas = await usageService.listQuotas();
+
+      return res.json({
+        success: true,
+        data: quotas
+      });
+    } catch (error) {
+      logger.error('获取AI配额失败:', error);
+      return sendError(res, error, 'USAGE003', '获取AI配额失败');
+    }
+  }
+);
+
+/**
+ * 设置配额
+ * PUT /api/v1/ai-usage/quotas
+ * 权限：SYSTEM_MANAGE
+ */
+router.put(
+  '/quotas',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.SYSTEM_MANAGE),
+  async (req: Request, res: Response) => {
+    try {
+      const input = SetAIQuotaSchema.parse(req.body);
+      const quota = await usageService.setQuota(input, req.user?.userId);
+
+      logger.info(
+        `AI配额已设置 - 用户: ${req.user?.username}, ${quota.scope}/${quota.targetId ?? '默认'}/${quota.period}, ` +
+          `软限制: ${quota.softLimit ?? '-'}, 硬限制: ${quota.hardLimit ?? '-'}`
+      );
+
+      return res.json({
+        success: true,
+        data: quota
+      });
+    } catch (error) {
+      logger.error('设置AI配额失败:', error);
+      return sendError(res, error, 'USAGE004', '设置AI配额失败');
+    }
+  }
+);
+
+/**
+ * 删除配额
+ * DELETE /api/v1/ai-usage/quotas/:id
+ * 权限：SYSTEM_MANAGE
+ */
+router.delete(
+  '/quotas/:id',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.SYSTEM_MANAGE),
+  async (req: Request, res: Response) => {
+    try {
+      await usageService.deleteQuota(req.params.id);
+
+      logger.info(`AI配额已删除 - 用户: ${req.user?.username}, 配额: ${req.params.id}`);
+
+      return res.json({
+        success: true,
+        message: '配额已删除'
+      });
+    } catch (error) {
+      logger.error('删除AI配额失败:', error);
+      return sendError(res, error, 'USAGE005', '删除AI配额失败');
+    }
+  }
+);
+
+export default router;
@@ -1,9 +1,15 @@
 import { Router, Request, Response } from 'express';
 import logger from '../utils/logger';
 import { AIProviderManager } from '../ai/ai-provider-manager';
+import { StreamResponse } from '../ai/types';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { aiQuotaMiddleware } from '../middleware/ai-quota.middleware';
+import { AIUsageService } from '../services/ai-usage.service';
+import { prisma } from '../utils/prisma';
 
 const router = Router();
 const aiManager = new AIProviderManager();
+const usageService = new AIUsageService(prisma);
 
 // 初始化AI Manager
 let isInitialized = false;
@@ -21,8 +27,9 @@ const initializeAI = async () => {
  * 支持两种格式：
  * 1. { messages: Array } - 标准格式
  * 2. { message: string, context: Object } - 简化格式（用于患者问诊对话）
+ * 需要认证，受AI配额限制，每次调用记录用量
  */
-router.post('/chat', async (req: Request, res: Response) => {
+router.post('/chat', authMiddleware.authenticate(), aiQuotaMiddleware.enforce(), async (req: Request, res: Response) => {
   try {
     await initializeAI();
 
@@ -80,13 +87,22 @@ router.post('/chat', async (req: Request, res: Response) => {
       res.setHeader('Connection', 'keep-alive');
 
       try {
+        let last: StreamResponse | undefined;
         for await (const chunk of aiManager.streamChat({
           messages,
           maxTokens,
           temperature,
+          context: { userId: req.user?.userId },
         })) {
+          // 用量在最后几段输出中返回
+          if (chunk.usage || !last) last = chunk;
           res.write(`data: ${JSON.stringify(chunk)}\n\n`);
         }
+        if (last) {
+          usageService
+            .record({ userId: req.user?.userId, feature: 'chat', response: last })
+            .catch((error) => logger.warn('记录AI用量失败:', error));
+        }
         res.write('data: [DONE]\n\n');
         res.end();
       } catch (error) {
@@ -100,7 +116,11 @@ router.post('/chat', async (req: Request, res: Response) => {
         messages,
         maxTokens,
         temperature,
+        context: { userId: req.user?.userId },
       });
+      usageService
+        .record({ userId: req.user?.userId, feature: 'chat', response })
+        .catch((error) => logger.warn('记录AI用量失败:', error));
 
       // 统一返回格式，兼容前端期望的 { message: string }
       // response.message 是一个对象 { role, content }，需要提取 content
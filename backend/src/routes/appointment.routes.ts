@@ -3,11 +3,12 @@
  *
  * 端点：
  * - POST /api/v1/appointments - 创建挂号
- * - GET /api/v1/appointments - 获取挂号列表（支持搜索、筛选、分页）
+ * - GET /api/v1/appointments - 获取挂号列表（支持搜索、筛选、分页；format=csv|xlsx导出全部结果）
  * - GET /api/v1/appointments/statistics - 获取挂号统计信息
  * - GET /api/v1/appointments/patient/:patientId/history - 获取患者挂号历史
  * - GET /api/v1/appointments/doctor/:doctorId - 获取医生挂号列表
  * - GET /api/v1/appointments/department/:departmentId/statistics - 获取科室挂号统计
+ * - GET /api/v1/appointments/available-slots - 获取医生某日可预约时间段及剩余号源
  * - GET /api/v1/appointments/check-availability - 检查时间段可用性
  * - GET /api/v1/appointments/:id - 获取挂号详情
  * - PUT /api/v1/appointments/:id - 更新挂号信息
@@ -15,9 +16,10 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { AppointmentService } from '../services/appointment.service';
+import { AppointmentService, AppointmentWithRelations } from '../services/appointment.service';
 import { QueueService } from '../services/queue.service';
 import { authMiddleware } from '../middleware/auth.middleware';
+import { exportMiddleware, streamExport, ExportColumn } from '../middleware/export.middleware';
 import { Permission } from '../auth/types';
 import { prisma } from '../utils/prisma';
 import { logger } from '../utils/logger';
@@ -33,6 +35,38 @@ const router = Router();
 const appointmentService = new AppointmentService(prisma);
 const queueService = new QueueService(prisma);
 
+const STATUS_TEXT: Record<string, string> = {
+  PENDING: '待确认',
+  CONFIRMED: '已确认',
+  CHECKED_IN: '已签到',
+  IN_PROGRESS: '就诊中',
+  COMPLETED: '已完成',
+  CANCELLED: '已取消',
+  NO_SHOW: '爽约'
+};
+const PRIORITY_TEXT: Record<string, string> = { NORMAL: '普通', URGENT: '紧急', EMERGENCY: '急诊' };
+const TIME_SLOT_TEXT: Record<string, string> = { MORNING: '上午', AFTERNOON: '下午', EVENING: '晚上' };
+
+/**
+ * 挂号导出列
+ */
+const APPOINTMENT_EXPORT_COLUMNS: ExportColumn<AppointmentWithRelations>[] = [
+  { header: '挂号单号', value: (a) => a.appointmentNo },
+  { header: '患者编号', value: (a) => a.patient.patientNo },
+  { header: '患者', value: (a) => a.patient.name },
+  { header: '科室', value: (a) => a.department.name },
+  { header: '医生', value: (a) => a.doctor.name },
+  { header: '就诊日期', value: (a) => a.appointmentDate.toISOString().slice(0, 10) },
+  { header: '时段', value: (a) => TIME_SLOT_TEXT[a.timeSlot] || a.timeSlot },
+  { header: '排队号', value: (a) => a.queueNumber },
+  { header: '状态', value: (a) => STATUS_TEXT[a.status] || a.status },
+  { header: '优先级', value: (a) => PRIORITY_TEXT[a.priority] || a.priority },
+  { header: '症状', value: (a) => a.symptoms },
+  { header: '挂号时间', value: (a) => a.createdAt },
+  { header: '签到时间', value: (a) => a.checkedInAt },
+  { header: '完成时间', value: (a) => a.completedAt }
+];
+
 /**
  * 创建挂号
  * POST /api/v1/appointments
@@ -97,12 +131,13 @@ router.post(
 /**
  * 获取挂号列表（支持搜索、筛选、分页）
  * GET /api/v1/appointments
- * 权限：APPOINTMENT_VIEW
+ * 权限：APPOINTMENT_VIEW（导出另需REPORT_EXPORT）
  */
 router.get(
   '/',
   authMiddleware.authenticate(),
   authMiddleware.requirePermission(Permission.APPOINTMENT_VIEW),
+  exportMiddleware.negotiate(),
   async (req: Request, res: Response) => {
     try {
       // 验证查询参数
@@ -117,6 +152,17 @@ router.get(
         searchParams.dateTo = new Date(validatedParams.dateTo);
       }
 
+      // 导出全部搜索结果
+      if (req.exportFormat) {
+        return await streamExport(
+          res,
+          req.exportFormat,
+          '挂号列表',
+          APPOINTMENT_EXPORT_COLUMNS,
+          appointmentService.iterateSearchResults(searchParams)
+        );
+      }
+
       // 搜索挂号
       const result = await appointmentService.searchAppointments(searchParams);
 
@@ -285,6 +331,51 @@ router.get(
   }
 );
 
+/**
+ * 获取医生某日可预约时间段及剩余号源
+ * GET /api/v1/appointments/available-slots?doctorId=xxx&date=YYYY-MM-DD
+ * 权限：APPOINTMENT_VIEW
+ */
+router.get(
+  '/available-slots',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.APPOINTMENT_VIEW),
+  async (req: Request, res: Response) => {
+    try {
+      const { doctorId, date } = req.query;
+
+      if (!doctorId || !date) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '缺少必需参数: doctorId, date'
+          }
+        });
+      }
+
+      const slots = await appointmentService.getAvailableSlots(
+        doctorId as string,
+        new Date(date as string)
+      );
+
+      return res.json({
+        success: true,
+        data: slots
+      });
+    } catch (error) {
+      logger.error('获取可预约时间段失败:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'APPOINTMENT011',
+          message: error instanceof Error ? error.message : '获取可预约时间段失败'
+        }
+      });
+    }
+  }
+);
+
 /**
  * 检查时间段可用性
  * GET /api/v1/appointments/check-availability
@@ -308,7 +399,7 @@ router.get(
         });
       }
 
-      const isAvailable = await appointmentService.checkTimeSlotAvailability(
+      const availability = await appointmentService.checkTimeSlotAvailability(
         doctorId as string,
         new Date(appointmentDate as string),
         timeSlot as TimeSlot
@@ -316,9 +407,7 @@ router.get(
 
       return res.json({
         success: true,
-        data: {
-          available: isAvailable
-        }
+        data: availability
       });
     } catch (error) {
       logger.error('检查时间段可用性失败:', error);
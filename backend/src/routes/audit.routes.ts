@@ -0,0 +1,110 @@
+/**
+ * 审计日志API路由
+ *
+ * 端点：
+ * - GET    /api/v1/audit-logs - 审计日志查询（分页、按用户/资源/时间筛选）
+ * - GET    /api/v1/audit-logs/:id - 审计日志详情
+ */
+
+import { Router, Request, Response } from 'express';
+import { AuditService } from '../services/audit.service';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { Permission } from '../auth/types';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { ZodError, z } from 'zod';
+
+const router = Router();
+const auditService = new AuditService(prisma);
+
+// Zod验证Schema
+const AuditLogQuerySchema = z.object({
+  userId: z.string().optional(),
+  username: z.string().optional(),
+  resource: z.enum(['patient', 'medicalRecord', 'prescription', 'user']).optional(),
+  resourceId: z.string().optional(),
+  action: z.string().optional(),
+  status: z.enum(['SUCCESS', 'FAILURE']).optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  pageSize: z.coerce.number().int().min(1).max(100).optional()
+});
+
+/**
+ * 审计日志查询
+ * GET /api/v1/audit-logs
+ * 权限：AUDIT_VIEW
+ */
+router.get(
+  '/',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.AUDIT_VIEW),
+  async (req: Request, res: Response) => {
+    try {
+      const query = AuditLogQuerySchema.parse(req.query);
+      const result = await auditService.getLogs(query);
+
+      return res.json({
+        success: true,
+        data: result.logs,
+        pagination: {
+          total: result.total,
+          page: result.page,
+          pageSize: result.pageSize,
+          totalPages: Math.ceil(result.total / result.pageSize)
+        }
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: '输入验证失败',
+          errors: error.errors
+        });
+      }
+
+      logger.error('获取审计日志失败:', error);
+      return res.status(500).json({
+        success: false,
+        message: '获取审计日志失败'
+      });
+    }
+  }
+);
+
+/**
+ * 审计日志详情
+ * GET /api/v1/audit-logs/:id
+ * 权限：AUDIT_VIEW
+ */
+router.get(
+  '/:id',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.AUDIT_VIEW),
+  async (req: Request, res: Response) => {
+    try {
+      const log = await auditService.getLogById(req.params.id);
+
+      if (!log) {
+        return res.status(404).json({
+          success: false,
+          message: '审计日志不存在'
+        });
+      }
+
+      return res.json({
+        success: true,
+        data: log
+      });
+    } catch (error) {
+      logger.error('获取审计日志详情失败:', error);
+      return res.status(500).json({
+        success: false,
+        message: '获取审计日志详情失败'
+      });
+    }
+  }
+);
+
+export default router;
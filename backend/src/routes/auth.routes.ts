@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import { AuthService } from '../auth/auth.service';
+import { AuthErrorCode } from '../auth/types';
 import { authMiddleware } from '../middleware/auth.middleware';
 import { logger } from '../utils/logger';
 import { prisma } from '../utils/prisma';
@@ -31,7 +32,10 @@ router.post('/login', async (req: Request, res: Response) => {
     const validatedData = loginSchema.parse(req.body);
 
     // 执行登录
-    const result = await authService.login(validatedData);
+    const result = await authService.login(validatedData, {
+      ip: req.ip,
+      userAgent: req.get('user-agent')
+    });
 
     // 设置刷新Token到httpOnly cookie（更安全）
     res.cookie('refreshToken', result.tokens.refreshToken, {
@@ -46,7 +50,8 @@ router.post('/login', async (req: Request, res: Response) => {
       data: {
         user: result.user,
         accessToken: result.tokens.accessToken,
-        expiresIn: result.tokens.expiresIn
+        expiresIn: result.tokens.expiresIn,
+        anomaly: result.anomaly
       }
     });
   } catch (error: any) {
@@ -152,6 +157,12 @@ router.post('/refresh', async (req: Request, res: Response) => {
     });
   } catch (error: any) {
     logger.error('刷新Token错误:', error);
+
+    // 会话已被撤销（含重放检测），清除失效的cookie
+    if (error.code === AuthErrorCode.REFRESH_TOKEN_REUSED || error.code === AuthErrorCode.TOKEN_REVOKED) {
+      res.clearCookie('refreshToken');
+    }
+
     return res.status(error.statusCode || 500).json({
       success: false,
       error: {
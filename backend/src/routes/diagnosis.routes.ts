@@ -8,17 +8,19 @@
  * - DELETE /api/v1/diagnoses/:id - 删除诊断
  * - GET    /api/v1/diagnoses/patient/:patientId - 获取患者诊断历史
  * - GET    /api/v1/diagnoses - 诊断列表查询
- * - GET    /api/v1/diagnoses/statistics/common - 常见诊断统计
- * - GET    /api/v1/diagnoses/statistics/overview - 诊断统计概览
+ * - GET    /api/v1/diagnoses/statistics/common - 常见诊断统计（支持format=csv|xlsx导出）
+ * - GET    /api/v1/diagnoses/statistics/overview - 诊断统计概览（支持format=csv|xlsx导出）
  * - GET    /api/v1/diagnoses/icd10/:code - 根据ICD-10编码查询诊断信息
  */
 
 import { Router, Request, Response } from 'express';
 import { DiagnosisService } from '../services/diagnosis.service';
 import { authMiddleware } from '../middleware/auth.middleware';
+import { exportMiddleware, sendExport } from '../middleware/export.middleware';
 import { Permission } from '../auth/types';
 import { prisma } from '../utils/prisma';
 import { logger } from '../utils/logger';
+import { rowsToSheet, statisticsToSheets } from '../utils/statistics-tables';
 import { ZodError, z } from 'zod';
 
 const router = Router();
@@ -370,12 +372,17 @@ router.get(
   '/statistics/common',
   authMiddleware.authenticate(),
   authMiddleware.requirePermission(Permission.DIAGNOSIS_READ),
+  exportMiddleware.negotiate(),
   async (req: Request, res: Response) => {
     try {
       const validatedQuery = CommonDiagnosesQuerySchema.parse(req.query);
 
       const commonDiagnoses = await diagnosisService.getCommonDiagnoses(validatedQuery);
 
+      if (req.exportFormat) {
+        return sendExport(res, req.exportFormat, '常见诊断', [rowsToSheet('常见诊断', commonDiagnoses)]);
+      }
+
       logger.info(`常见诊断统计查询成功 - 用户: ${req.user?.username}`);
 
       return res.json({
@@ -412,6 +419,7 @@ router.get(
   '/statistics/overview',
   authMiddleware.authenticate(),
   authMiddleware.requirePermission(Permission.DIAGNOSIS_READ),
+  exportMiddleware.negotiate(),
   async (req: Request, res: Response) => {
     try {
       const options: any = {};
@@ -430,6 +438,10 @@ router.get(
 
       const statistics = await diagnosisService.getDiagnosisStatistics(options);
 
+      if (req.exportFormat) {
+        return sendExport(res, req.exportFormat, '诊断统计', statisticsToSheets(statistics));
+      }
+
       logger.info(`诊断统计概览查询成功 - 用户: ${req.user?.username}`);
 
       return res.json({
@@ -34,6 +34,7 @@ router.get(
         where,
         select: {
           id: true,
+          userId: true,
           doctorNo: true,
           name: true,
           departmentId: true,
@@ -1,45 +1,69 @@
 import { Router } from 'express';
 import aiRoutes from './ai.routes';
+import aiChatRoutes from './ai-chat.routes';
 import mcpRoutes from './mcp.routes';
 import authRoutes from './auth.routes';
 import userRoutes from './user.routes';
 import patientRoutes from './patient.routes';
 import aiAssistantRoutes from './ai-assistant.routes';
+import aiPromptRoutes from './ai-prompt.routes';
+import aiUsageRoutes from './ai-usage.routes';
 import appointmentRoutes from './appointment.routes';
 import queueRoutes from './queue.routes';
 import medicineRoutes from './medicine.routes';
+import inventoryRoutes from './inventory.routes';
 import prescriptionRoutes from './prescription.routes';
 import medicalRecordRoutes from './medical-record.routes';
 import diagnosisRoutes from './diagnosis.routes';
 import recordTemplateRoutes from './record-template.routes';
 import departmentRoutes from './department.routes';
 import doctorRoutes from './doctor.routes';
+import scheduleRoutes from './schedule.routes';
 import statisticsRoutes from './statistics.routes';
+import reportRoutes from './report.routes';
 import announcementRoutes from './announcement.routes';
+import auditRoutes from './audit.routes';
+import jobRoutes from './job.routes';
+import notificationRoutes from './notification.routes';
+import messageRoutes from './message.routes';
+import { auditMiddleware } from '../middleware/audit.middleware';
 
 const router = Router();
 
 // API版本前缀
 router.use('/auth', authRoutes);
-router.use('/users', userRoutes);
+router.use('/users', auditMiddleware.track('user'), userRoutes);
+router.use('/ai/sessions', aiChatRoutes);
 router.use('/ai', aiRoutes);
 router.use('/mcp', mcpRoutes);
-router.use('/patients', patientRoutes);
+router.use('/patients', auditMiddleware.track('patient'), patientRoutes);
 router.use('/ai-assistant', aiAssistantRoutes);
+router.use('/ai-prompts', aiPromptRoutes);
+router.use('/ai-usage', aiUsageRoutes);
 router.use('/departments', departmentRoutes);
 router.use('/doctors', doctorRoutes);
+router.use('/schedules', scheduleRoutes);
 router.use('/appointments', appointmentRoutes);
 router.use('/queue', queueRoutes);
 router.use('/medicines', medicineRoutes);
-router.use('/prescriptions', prescriptionRoutes);
+router.use('/inventory', inventoryRoutes);
+router.use('/prescriptions', auditMiddleware.track('prescription'), prescriptionRoutes);
 // 里程碑6: 病历管理路由
-router.use('/medical-records', medicalRecordRoutes);
+router.use('/medical-records', auditMiddleware.track('medicalRecord'), medicalRecordRoutes);
 router.use('/diagnoses', diagnosisRoutes);
 router.use('/record-templates', recordTemplateRoutes);
 // 里程碑7: 统计报表路由
 router.use('/statistics', statisticsRoutes);
+router.use('/reports', reportRoutes);
 // 里程碑7: 系统公告路由
 router.use('/announcements', announcementRoutes);
+// 审计日志路由
+router.use('/audit-logs', auditRoutes);
+// 站内通知路由
+router.use('/notifications', notificationRoutes);
+router.use('/messages', messageRoutes);
+// 定时任务管理路由
+router.use('/jobs', jobRoutes);
 
 // API根路径信息
 router.get('/', (_req, res) => {
@@ -57,6 +81,7 @@ router.get('/', (_req, res) => {
       users: {
         list: 'GET /api/v1/users',
         detail: 'GET /api/v1/users/:id',
+        loginHistory: 'GET /api/v1/users/:id/login-history',
         create: 'POST /api/v1/users',
         update: 'PUT /api/v1/users/:id',
         delete: 'DELETE /api/v1/users/:id',
@@ -71,6 +96,8 @@ router.get('/', (_req, res) => {
         statistics: 'GET /api/v1/patients/:id/statistics',
         addTag: 'POST /api/v1/patients/:id/tags',
         removeTag: 'DELETE /api/v1/patients/:id/tags/:tag',
+        messagePreferences: 'GET /api/v1/patients/:id/message-preferences',
+        updateMessagePreferences: 'PUT /api/v1/patients/:id/message-preferences',
         globalStats: 'GET /api/v1/patients/statistics/global',
       },
       appointments: {
@@ -82,8 +109,15 @@ router.get('/', (_req, res) => {
         patientHistory: 'GET /api/v1/appointments/patient/:patientId/history',
         doctorList: 'GET /api/v1/appointments/doctor/:doctorId',
         deptStats: 'GET /api/v1/appointments/department/:departmentId/statistics',
+        availableSlots: 'GET /api/v1/appointments/available-slots',
         checkAvailability: 'GET /api/v1/appointments/check-availability',
       },
+      schedules: {
+        list: 'GET /api/v1/schedules',
+        create: 'POST /api/v1/schedules',
+        update: 'PUT /api/v1/schedules/:id',
+        delete: 'DELETE /api/v1/schedules/:id',
+      },
       queue: {
         create: 'POST /api/v1/queue',
         detail: 'GET /api/v1/queue/:id',
@@ -93,8 +127,15 @@ router.get('/', (_req, res) => {
         callNext: 'POST /api/v1/queue/call-next',
         complete: 'PUT /api/v1/queue/:id/complete',
         cancel: 'DELETE /api/v1/queue/:id',
+        callAgain: 'POST /api/v1/queue/:id/call',
+        skip: 'POST /api/v1/queue/:id/skip',
+        recall: 'POST /api/v1/queue/:id/recall',
+        transfer: 'POST /api/v1/queue/:id/transfer',
         position: 'GET /api/v1/queue/:id/position',
         deptStats: 'GET /api/v1/queue/department/:departmentId/statistics',
+        deptPolicy: 'GET /api/v1/queue/department/:departmentId/policy',
+        updateDeptPolicy: 'PUT /api/v1/queue/department/:departmentId/policy',
+        resetDeptPolicy: 'DELETE /api/v1/queue/department/:departmentId/policy',
       },
       aiAssistant: {
         diagnose: 'POST /api/v1/ai-assistant/diagnose',
@@ -106,12 +147,30 @@ router.get('/', (_req, res) => {
         checkContraindication: 'POST /api/v1/ai-assistant/check-contraindication',
         checkDosage: 'POST /api/v1/ai-assistant/check-dosage',
         reviewPrescription: 'POST /api/v1/ai-assistant/review-prescription',
+        reviewPrescriptionById: 'POST /api/v1/ai-assistant/review-prescription/:prescriptionId',
         suggestAlternative: 'POST /api/v1/ai-assistant/suggest-alternative',
         summarizeMedicalRecord: 'POST /api/v1/ai-assistant/medical-record/summarize',
         checkMedicalRecordQuality: 'POST /api/v1/ai-assistant/medical-record/quality-check',
         suggestDiagnosis: 'POST /api/v1/ai-assistant/diagnosis/suggest',
         suggestTreatment: 'POST /api/v1/ai-assistant/treatment/suggest',
         searchMedicalRecords: 'POST /api/v1/ai-assistant/medical-records/search',
+        schemaViolations: 'GET /api/v1/ai-assistant/metrics/schema-violations',
+      },
+      aiPrompts: {
+        list: 'GET /api/v1/ai-prompts',
+        runs: 'GET /api/v1/ai-prompts/runs',
+        versions: 'GET /api/v1/ai-prompts/:key/versions',
+        createVersion: 'POST /api/v1/ai-prompts/:key/versions',
+        preview: 'POST /api/v1/ai-prompts/:key/preview',
+        reset: 'DELETE /api/v1/ai-prompts/:key/active',
+        activate: 'POST /api/v1/ai-prompts/versions/:id/activate',
+      },
+      aiUsage: {
+        me: 'GET /api/v1/ai-usage/me',
+        summary: 'GET /api/v1/ai-usage/summary',
+        quotas: 'GET /api/v1/ai-usage/quotas',
+        setQuota: 'PUT /api/v1/ai-usage/quotas',
+        deleteQuota: 'DELETE /api/v1/ai-usage/quotas/:id',
       },
       medicines: {
         list: 'GET /api/v1/medicines',
@@ -125,6 +184,17 @@ router.get('/', (_req, res) => {
         categories: 'GET /api/v1/medicines/categories',
         createCategory: 'POST /api/v1/medicines/categories',
       },
+      inventory: {
+        stocks: 'GET /api/v1/inventory/stocks',
+        transactions: 'GET /api/v1/inventory/transactions',
+        receive: 'POST /api/v1/inventory/receipts',
+        adjust: 'POST /api/v1/inventory/adjustments',
+        transfer: 'POST /api/v1/inventory/transfers',
+        supplierReturn: 'POST /api/v1/inventory/returns',
+        stocktake: 'POST /api/v1/inventory/stocktakes',
+        reconciliation: 'GET /api/v1/inventory/reconciliation',
+        openingBalances: 'POST /api/v1/inventory/opening-balances',
+      },
       prescriptions: {
         list: 'GET /api/v1/prescriptions',
         create: 'POST /api/v1/prescriptions',
@@ -145,6 +215,7 @@ router.get('/', (_req, res) => {
         update: 'PUT /api/v1/medical-records/:id',
         delete: 'DELETE /api/v1/medical-records/:id',
         patientRecords: 'GET /api/v1/medical-records/patient/:patientId',
+        similar: 'GET /api/v1/medical-records/:id/similar',
         submit: 'POST /api/v1/medical-records/:id/submit',
         approve: 'POST /api/v1/medical-records/:id/approve',
         reject: 'POST /api/v1/medical-records/:id/reject',
@@ -179,6 +250,17 @@ router.get('/', (_req, res) => {
         prescriptions: 'GET /api/v1/statistics/prescriptions',
         medicalRecords: 'GET /api/v1/statistics/medical-records',
       },
+      reports: {
+        configs: 'GET /api/v1/reports/configs',
+        createConfig: 'POST /api/v1/reports/configs',
+        configDetail: 'GET /api/v1/reports/configs/:id',
+        updateConfig: 'PUT /api/v1/reports/configs/:id',
+        deleteConfig: 'DELETE /api/v1/reports/configs/:id',
+        run: 'POST /api/v1/reports/configs/:id/run',
+        list: 'GET /api/v1/reports',
+        detail: 'GET /api/v1/reports/:id',
+        download: 'GET /api/v1/reports/:id/download',
+      },
       announcements: {
         list: 'GET /api/v1/announcements',
         create: 'POST /api/v1/announcements',
@@ -190,10 +272,40 @@ router.get('/', (_req, res) => {
         archive: 'POST /api/v1/announcements/:id/archive',
         markRead: 'POST /api/v1/announcements/:id/read',
       },
+      auditLogs: {
+        list: 'GET /api/v1/audit-logs',
+        detail: 'GET /api/v1/audit-logs/:id',
+      },
+      notifications: {
+        list: 'GET /api/v1/notifications',
+        unreadCount: 'GET /api/v1/notifications/unread-count',
+        readAll: 'POST /api/v1/notifications/read-all',
+        read: 'PATCH /api/v1/notifications/:id/read',
+        delete: 'DELETE /api/v1/notifications/:id',
+        send: 'POST /api/v1/notifications',
+      },
+      messages: {
+        templates: 'GET /api/v1/messages/templates',
+        saveTemplate: 'PUT /api/v1/messages/templates/:event/:channel',
+        resetTemplate: 'DELETE /api/v1/messages/templates/:event/:channel',
+        deliveries: 'GET /api/v1/messages/deliveries',
+        retry: 'POST /api/v1/messages/deliveries/:id/retry',
+      },
+      jobs: {
+        list: 'GET /api/v1/jobs',
+        runs: 'GET /api/v1/jobs/:name/runs',
+        run: 'POST /api/v1/jobs/:name/run',
+        update: 'PATCH /api/v1/jobs/:name',
+      },
       ai: {
         chat: 'POST /api/v1/ai/chat',
         providers: 'GET /api/v1/ai/providers',
         switchProvider: 'POST /api/v1/ai/provider/switch',
+        createSession: 'POST /api/v1/ai/sessions',
+        sessions: 'GET /api/v1/ai/sessions',
+        session: 'GET /api/v1/ai/sessions/:id',
+        sendSessionMessage: 'POST /api/v1/ai/sessions/:id/messages',
+        deleteSession: 'DELETE /api/v1/ai/sessions/:id',
       },
       mcp: {
         query: 'POST /api/v1/mcp/query',
@@ -0,0 +1,339 @@
+/**
+ * 药房库存API路由
+ *
+ * 端点：
+ * - GET    /api/v1/inventory/stocks - 库存批次列表
+ * - GET    /api/v1/inventory/transactions - 库存流水查询（分页、筛选）
+ * - POST   /api/v1/inventory/receipts - 采购入库
+ * - POST   /api/v1/inventory/adjustments - 库存调整
+ * - POST   /api/v1/inventory/transfers - 库位调拨
+ * - POST   /api/v1/inventory/returns - 退货给供应商
+ * - POST   /api/v1/inventory/stocktakes - 库存盘点
+ * - GET    /api/v1/inventory/reconciliation - 账实核对
+ * - POST   /api/v1/inventory/opening-balances - 补记期初结存
+ */
+
+import { Router, Request, Response } from 'express';
+import { InventoryTransactionType } from '@prisma/client';
+import { InventoryService } from '../services/inventory.service';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { Permission } from '../auth/types';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { ZodError, z } from 'zod';
+
+const router = Router();
+const inventoryService = new InventoryService(prisma);
+
+// Zod验证Schema
+const StockQuerySchema = z.object({
+  medicineId: z.string().optional(),
+  location: z.string().optional(),
+  keyword: z.string().optional(),
+  includeEmpty: z.enum(['true', 'false']).transform(v => v === 'true').optional()
+});
+
+const LedgerQuerySchema = z.object({
+  medicineId: z.string().optional(),
+  stockId: z.string().optional(),
+  type: z.nativeEnum(InventoryTransactionType).optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  pageSize: z.coerce.number().int().min(1).max(100).optional()
+});
+
+const ReceiveStockSchema = z.object({
+  medicineId: z.string().min(1, '药品ID不能为空'),
+  batchNo: z.string().min(1, '批号不能为空').max(50),
+  expiryDate: z.coerce.date({ errorMap: () => ({ message: '效期格式不正确' }) }),
+  quantity: z.number().int().positive('入库数量必须大于0'),
+  location: z.string().max(100).optional(),
+  minStock: z.number().int().min(0).optional(),
+  maxStock: z.number().int().min(0).optional(),
+  reason: z.string().optional()
+});
+
+const AdjustStockSchema = z.object({
+  stockId: z.string().min(1, '库存批次不能为空'),
+  quantity: z.number().int().refine(v => v !== 0, '调整数量不能为0'),
+  reason: z.string().min(1, '调整原因不能为空')
+});
+
+const TransferStockSchema = z.object({
+  stockId: z.string().min(1, '库存批次不能为空'),
+  toLocation: z.string().min(1, '调入库位不能为空').max(100),
+  quantity: z.number().int().positive('调拨数量必须大于0'),
+  reason: z.string().optional()
+});
+
+const SupplierReturnSchema = z.object({
+  stockId: z.string().min(1, '库存批次不能为空'),
+  quantity: z.number().int().positive('退货数量必须大于0'),
+  reason: z.string().min(1, '退货原因不能为空')
+});
+
+const StocktakeSchema = z.object({
+  items: z.array(z.object({
+    stockId: z.string().min(1),
+    countedQuantity: z.number().int().min(0, '实盘数量不能为负数')
+  })).min(1, '盘点明细不能为空'),
+  reason: z.string().optional()
+});
+
+/**
+ * 统一处理写操作错误
+ */
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof ZodError) {
+    return res.status(400).json({
+      success: false,
+      message: '输入验证失败',
+      errors: error.errors
+    });
+  }
+
+  logger.error(`${fallback}:`, error);
+  return res.status(500).json({
+    success: false,
+    message: error instanceof Error ? error.message : fallback
+  });
+}
+
+/**
+ * 库存批次列表
+ * GET /api/v1/inventory/stocks
+ * 权限：INVENTORY_VIEW
+ */
+router.get(
+  '/stocks',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.INVENTORY_VIEW),
+  async (req: Request, res: Response) => {
+    try {
+      const query = StockQuerySchema.parse(req.query);
+      const stocks = await inventoryService.getStocks(query);
+
+      return res.json({
+        success: true,
+        data: stocks
+      });
+    } catch (error) {
+      return handleError(res, error, '获取库存批次失败');
+    }
+  }
+);
+
+/**
+ * 库存流水查询
+ * GET /api/v1/inventory/transactions
+ * 权限：INVENTORY_VIEW
+ */
+router.get(
+  '/transactions',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.INVENTORY_VIEW),
+  async (req: Request, res: Response) => {
+    try {
+      const query = LedgerQuerySchema.parse(req.query);
+      const result = await inventoryService.getLedger(query);
+
+      return res.json({
+        success: true,
+        data: result.transactions,
+        pagination: {
+          total: result.total,
+          page: result.page,
+          pageSize: result.pageSize,
+          totalPages: Math.ceil(result.total / result.pageSize)
+        }
+      });
+    } catch (error) {
+      return handleError(res, error, '获取库存流水失败');
+    }
+  }
+);
+
+/**
+ * 采购入库
+ * POST /api/v1/inventory/receipts
+ * 权限：INVENTORY_MANAGE
+ */
+router.post(
+  '/receipts',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.INVENTORY_MANAGE),
+  async (req: Request, res: Response) => {
+    try {
+      const data = ReceiveStockSchema.parse(req.body);
+      const stock = await inventoryService.receiveStock(data, req.user?.userId);
+
+      logger.info(`药品入库: 批次 ${stock.batchNo} - 用户: ${req.user?.username}`);
+
+      return res.status(201).json({
+        success: true,
+        message: '入库成功',
+        data: stock
+      });
+    } catch (error) {
+      return handleError(res, error, '药品入库失败');
+    }
+  }
+);
+
+/**
+ * 库存调整
+ * POST /api/v1/inventory/adjustments
+ * 权限：INVENTORY_MANAGE
+ */
+router.post(
+  '/adjustments',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.INVENTORY_MANAGE),
+  async (req: Request, res: Response) => {
+    try {
+      const data = AdjustStockSchema.parse(req.body);
+      const entry = await inventoryService.adjustStock(data, req.user?.userId);
+
+      logger.info(`库存调整: 批次 ${entry.batchNo}, 变动 ${entry.quantity} - 用户: ${req.user?.username}`);
+
+      return res.status(201).json({
+        success: true,
+        message: '库存调整成功',
+        data: entry
+      });
+    } catch (error) {
+      return handleError(res, error, '库存调整失败');
+    }
+  }
+);
+
+/**
+ * 库位调拨
+ * POST /api/v1/inventory/transfers
+ * 权限：INVENTORY_MANAGE
+ */
+router.post(
+  '/transfers',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.INVENTORY_MANAGE),
+  async (req: Request, res: Response) => {
+    try {
+      const data = TransferStockSchema.parse(req.body);
+      const result = await inventoryService.transferStock(data, req.user?.userId);
+
+      logger.info(`库存调拨: 批次 ${result.from.batchNo} → ${data.toLocation} - 用户: ${req.user?.username}`);
+
+      return res.status(201).json({
+        success: true,
+        message: '调拨成功',
+        data: result
+      });
+    } catch (error) {
+      return handleError(res, error, '库存调拨失败');
+    }
+  }
+);
+
+/**
+ * 退货给供应商
+ * POST /api/v1/inventory/returns
+ * 权限：INVENTORY_MANAGE
+ */
+router.post(
+  '/returns',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.INVENTORY_MANAGE),
+  async (req: Request, res: Response) => {
+    try {
+      const data = SupplierReturnSchema.parse(req.body);
+      const entry = await inventoryService.returnToSupplier(data, req.user?.userId);
+
+      logger.info(`供应商退货: 批次 ${entry.batchNo}, 数量 ${data.quantity} - 用户: ${req.user?.username}`);
+
+      return res.status(201).json({
+        success: true,
+        message: '退货成功',
+        data: entry
+      });
+    } catch (error) {
+      return handleError(res, error, '供应商退货失败');
+    }
+  }
+);
+
+/**
+ * 库存盘点
+ * POST /api/v1/inventory/stocktakes
+ * 权限：INVENTORY_MANAGE
+ */
+router.post(
+  '/stocktakes',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.INVENTORY_MANAGE),
+  async (req: Request, res: Response) => {
+    try {
+      const data = StocktakeSchema.parse(req.body);
+      const result = await inventoryService.stocktake(data, req.user?.userId);
+
+      logger.info(`库存盘点: ${result.items.length} 个批次, 差异 ${result.adjustedCount} 个 - 用户: ${req.user?.username}`);
+
+      return res.status(201).json({
+        success: true,
+        message: '盘点完成',
+        data: result
+      });
+    } catch (error) {
+      return handleError(res, error, '库存盘点失败');
+    }
+  }
+);
+
+/**
+ * 账实核对
+ * GET /api/v1/inventory/reconciliation
+ * 权限：INVENTORY_VIEW
+ */
+router.get(
+  '/reconciliation',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.INVENTORY_VIEW),
+  async (_req: Request, res: Response) => {
+    try {
+      const result = await inventoryService.reconcile();
+
+      return res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      return handleError(res, error, '库存账实核对失败');
+    }
+  }
+);
+
+/**
+ * 补记期初结存（为上线前已有的库存批次生成首条流水）
+ * POST /api/v1/inventory/opening-balances
+ * 权限：SYSTEM_ADMIN
+ */
+router.post(
+  '/opening-balances',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.SYSTEM_ADMIN),
+  async (req: Request, res: Response) => {
+    try {
+      const count = await inventoryService.createOpeningBalances(req.user?.userId);
+
+      return res.status(201).json({
+        success: true,
+        message: `已补记 ${count} 个批次的期初结存`,
+        data: { count }
+      });
+    } catch (error) {
+      return handleError(res, error, '补记期初结存失败');
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,172 @@
+/**
+ * 定时任务管理API路由（仅管理员）
+ *
+ * 端点：
+ * - GET /api/v1/jobs - 获取全部任务状态（计划、下次执行时间、最近执行结果、锁持有实例）
+ * - GET /api/v1/jobs/:name/runs - 获取任务执行记录
+ * - POST /api/v1/jobs/:name/run - 立即执行任务
+ * - PATCH /api/v1/jobs/:name - 启用/停用任务
+ */
+
+import { Router, Request, Response } from 'express';
+import { UserRole } from '@prisma/client';
+import { jobScheduler } from '../services/scheduled-jobs';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { logger } from '../utils/logger';
+import { z, ZodError } from 'zod';
+
+const router = Router();
+
+const RunQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).optional(),
+  pageSize: z.coerce.number().int().min(1).max(100).optional()
+});
+
+const UpdateJobSchema = z.object({
+  enabled: z.boolean()
+});
+
+/**
+ * 错误响应：验证失败400，任务不存在404，其余500
+ */
+function sendError(res: Response, error: unknown, code: string, fallback: string) {
+  if (error instanceof ZodError) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: '输入验证失败',
+        details: error.errors
+      }
+    });
+  }
+
+  const message = error instanceof Error ? error.message : fallback;
+  return res.status(message.endsWith('不存在') ? 404 : 500).json({
+    success: false,
+    error: { code, message }
+  });
+}
+
+/**
+ * 获取全部任务状态
+ * GET /api/v1/jobs
+ * 权限：ADMIN
+ */
+router.get(
+  '/',
+  authMiddleware.authenticate(),
+  authMiddleware.requireRole(UserRole.ADMIN),
+  async (_req: Request, res: Response) => {
+    try {
+      const jobs = await jobScheduler.getStatus();
+
+      return res.json({
+        success: true,
+        data: {
+          instanceId: jobScheduler.instanceId,
+          jobs
+        }
+      });
+    } catch (error) {
+      logger.error('获取定时任务状态失败:', error);
+      return sendError(res, error, 'JOB001', '获取定时任务状态失败');
+    }
+  }
+);
+
+/**
+ * 获取任务执行记录
+ * GET /api/v1/jobs/:name/runs
+ * 权限：ADMIN
+ */
+router.get(
+  '/:name/runs',
+  authMiddleware.authenticate(),
+  authMiddleware.requireRole(UserRole.ADMIN),
+  async (req: Request, res: Response) => {
+    try {
+      const { page, pageSize } = RunQuerySchema.parse(req.query);
+      const result = await jobScheduler.listRuns(req.params.name, page, pageSize);
+
+      return res.json({
+        success: true,
+        data: result.runs,
+        pagination: {
+          total: result.total,
+          page: result.page,
+          pageSize: result.pageSize,
+          totalPages: Math.ceil(result.total / result.pageSize)
+        }
+      });
+    } catch (error) {
+      logger.error('获取定时任务执行记录失败:', error);
+      return sendError(res, error, 'JOB002', '获取定时任务执行记录失败');
+    }
+  }
+);
+
+/**
+ * 立即执行任务（等待执行完成后返回执行记录）
+ * POST /api/v1/jobs/:name/run
+ * 权限：ADMIN
+ */
+router.post(
+  '/:name/run',
+  authMiddleware.authenticate(),
+  authMiddleware.requireRole(UserRole.ADMIN),
+  async (req: Request, res: Response) => {
+    try {
+      const run = await jobScheduler.runNow(req.params.name);
+
+      if (!run) {
+        return res.status(409).json({
+          success: false,
+          error: {
+            code: 'JOB003',
+            message: '任务正在执行中，请稍后再试'
+          }
+        });
+      }
+
+      logger.info(`手动执行定时任务 - 用户: ${req.user?.username}, 任务: ${req.params.name}, 结果: ${run.status}`);
+
+      return res.json({
+        success: true,
+        data: run
+      });
+    } catch (error) {
+      logger.error('手动执行定时任务失败:', error);
+      return sendError(res, error, 'JOB004', '手动执行定时任务失败');
+    }
+  }
+);
+
+/**
+ * 启用/停用任务
+ * PATCH /api/v1/jobs/:name
+ * 权限：ADMIN
+ */
+router.patch(
+  '/:name',
+  authMiddleware.authenticate(),
+  authMiddleware.requireRole(UserRole.ADMIN),
+  async (req: Request, res: Response) => {
+    try {
+      const { enabled } = UpdateJobSchema.parse(req.body);
+      await jobScheduler.setEnabled(req.params.name, enabled);
+
+      logger.info(`定时任务${enabled ? '启用' : '停用'} - 用户: ${req.user?.username}, 任务: ${req.params.name}`);
+
+      return res.json({
+        success: true,
+        message: enabled ? '任务已启用' : '任务已停用'
+      });
+    } catch (error) {
+      logger.error('更新定时任务失败:', error);
+      return sendError(res, error, 'JOB005', '更新定时任务失败');
+    }
+  }
+);
+
+export default router;
@@ -7,6 +7,7 @@
  * - PUT    /api/v1/medical-records/:id - 更新病历
  * - DELETE /api/v1/medical-records/:id - 删除病历（软删除）
  * - GET    /api/v1/medical-records/patient/:patientId - 获取患者所有病历
+ * - GET    /api/v1/medical-records/:id/similar - 查找临床表现相似的病历
  * - POST   /api/v1/medical-records/:id/submit - 提交病历审核
  * - POST   /api/v1/medical-records/:id/approve - 审核通过病历
  * - POST   /api/v1/medical-records/:id/reject - 驳回病历
@@ -15,7 +16,12 @@
 
 import { Router, Request, Response } from 'express';
 import { MedicalRecordService } from '../services/medical-record.service';
+import { INDEX_NOT_READY_MESSAGE, medicalRecordEmbeddingService as recordEmbeddingService } from '../services/medical-record-embedding.service';
+import { AIAssistantService } from '../services/ai-assistant.service';
+import { defaultAIProviderManager, MessageRole } from '../ai';
 import { authMiddleware } from '../middleware/auth.middleware';
+import { aiQuotaMiddleware } from '../middleware/ai-quota.middleware';
+import { AIUsageService } from '../services/ai-usage.service';
 import { Permission } from '../auth/types';
 import { prisma } from '../utils/prisma';
 import { logger } from '../utils/logger';
@@ -23,7 +29,9 @@ import { ZodError, z } from 'zod';
 import { RecordType } from '@prisma/client';
 
 const router = Router();
-const medicalRecordService = new MedicalRecordService(prisma);
+const medicalRecordService = new MedicalRecordService(prisma, recordEmbeddingService);
+const usageService = new AIUsageService(prisma);
+const aiAssistantService = new AIAssistantService(defaultAIProviderManager, prisma);
 
 // Zod验证Schema
 const CreateMedicalRecordSchema = z.object({
@@ -71,6 +79,28 @@ const SearchMedicalRecordsSchema = z.object({
   pageSize: z.string().transform(Number).optional()
 });
 
+// 空字符串视为未填写
+const emptyToUndefined = (val: unknown) => (val === '' || val === null ? undefined : val);
+
+const AISearchDateSchema = z.preprocess(
+  emptyToUndefined,
+  z.string()
+    .refine(val => !Number.isNaN(new Date(val).getTime()), '日期格式不正确')
+    .transform(val => new Date(val))
+    .optional()
+);
+
+const AISearchSchema = z.object({
+  query: z.string({ required_error: 'query参数不能为空' }).trim().min(1, 'query参数不能为空'),
+  filters: z.object({
+    patientId: z.preprocess(emptyToUndefined, z.string().optional()),
+    department: z.preprocess(emptyToUndefined, z.string().optional()),
+    startDate: AISearchDateSchema,
+    endDate: AISearchDateSchema
+  }).default({}),
+  limit: z.coerce.number().int().min(1).max(50).default(10)
+});
+
 /**
  * 创建病历
  * POST /api/v1/medical-records
@@ -296,6 +326,53 @@ router.get(
   }
 );
 
+/**
+ * 查找临床表现相似的病历
+ * GET /api/v1/medical-records/:id/similar?limit=5&includeSamePatient=false
+ * 权限：MEDICAL_RECORD_READ
+ */
+router.get(
+  '/:id/similar',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.MEDICAL_RECORD_READ),
+  aiQuotaMiddleware.enforce(),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 5, 1), 20);
+      const includeSamePatient = req.query.includeSamePatient === 'true';
+
+      const hits = await recordEmbeddingService.findSimilarRecords(id, {
+        limit,
+        excludeSamePatient: !includeSamePatient,
+        userId: req.user?.userId
+      });
+
+      logger.info(`相似病历检索: 病历ID ${id}, 命中 ${hits.length} 条 - 用户: ${req.user?.username}`);
+
+      return res.json({
+        success: true,
+        data: {
+          recordId: id,
+          records: hits.map(hit => ({
+            ...hit.record,
+            similarity: hit.similarity
+          })),
+          total: hits.length
+        }
+      });
+    } catch (error) {
+      logger.error('相似病历检索失败:', error);
+      const message = error instanceof Error ? error.message : '相似病历检索失败';
+      const status = message === '病历不存在' ? 404 : message === INDEX_NOT_READY_MESSAGE ? 503 : 500;
+      return res.status(status).json({
+        success: false,
+        message
+      });
+    }
+  }
+);
+
 /**
  * 提交病历审核
  * POST /api/v1/medical-records/:id/submit
@@ -396,16 +473,8 @@ router.post(
         });
       }
 
-      const record = await medicalRecordService.getMedicalRecordById(id);
+      const record = await medicalRecordService.rejectMedicalRecord(id, reason, req.user?.userId);
 
-      if (!record) {
-        return res.status(404).json({
-          success: false,
-          message: '病历不存在'
-        });
-      }
-
-      // 这里可以添加具体的驳回逻辑，例如记录驳回原因或发送通知
       logger.info(`病历驳回: ${record.recordNo}, 原因: ${reason} - 用户: ${req.user?.username}`);
 
       return res.json({
@@ -418,6 +487,18 @@ router.post(
       });
     } catch (error) {
       logger.error('驳回病历失败:', error);
+      if (error instanceof Error && error.message === '病历不存在') {
+        return res.status(404).json({
+          success: false,
+          message: error.message
+        });
+      }
+      if (error instanceof Error && error.message.startsWith('病历已归档')) {
+        return res.status(400).json({
+          success: false,
+          message: error.message
+        });
+      }
       return res.status(500).json({
         success: false,
         message: error instanceof Error ? error.message : '驳回病历失败'
@@ -434,6 +515,12 @@ router.post(
  * 请求体：
  * {
  *   "query": "自然语言查询，如：查找发烧患者的病历",
+ *   "filters": {  // 可选
+ *     "patientId": "患者ID",
+ *     "department": "科室名称",
+ *     "startDate": "2025-01-01",
+ *     "endDate": "2025-01-31"
+ *   },
  *   "limit": 10  // 可选，默认10
  * }
  */
@@ -441,259 +528,48 @@ router.post(
   '/ai-search',
   authMiddleware.authenticate(),
   authMiddleware.requirePermission(Permission.MEDICAL_RECORD_READ),
+  aiQuotaMiddleware.enforce(),
   async (req: Request, res: Response) => {
     try {
-      const { query, limit = 10 } = req.body;
+      const { query, filters, limit } = AISearchSchema.parse(req.body);
+      const { patientId, department, startDate, endDate } = filters;
 
-      if (!query || typeof query !== 'string') {
-        return res.status(400).json({
-          success: false,
-          message: 'query参数不能为空且必须是字符串'
-        });
-      }
-
-      // 使用AI进行智能查询理解和关键词提取
-      const { defaultAIProviderManager: aiProviderManager } = await import('../ai');
-      const { MessageRole } = await import('../ai/types');
+      // 结束日期包含当天
+      endDate?.setHours(23, 59, 59, 999);
 
-      // Step 1: AI理解用户查询并提取关键信息
-      const analyzePrompt = `你是一个医疗病历智能检索助手。请分析以下用户查询，提取关键的医疗信息用于数据库搜索。
+      // Step 1-3: AI理解查询意图，按相关性检索病历
+      const searchResult = await aiAssistantService.searchMedicalRecords({
+        query,
+        patientId,
+        department,
+        dateRange: startDate || endDate ? { from: startDate, to: endDate } : undefined,
+        limit
+      }, { userId: req.user?.userId });
 
-用户查询："${query}"
+      const { results, keywords, searchIntent } = searchResult;
 
-请以JSON格式返回分析结果（只返回JSON，不要其他文本）：
-{
-  "keywords": ["关键词1", "关键词2"],  // 提取的核心医疗术语
-  "entities": {
-    "diseases": ["疾病名称"],  // 提取的疾病
-    "symptoms": ["症状"],  // 提取的症状
-    "treatments": ["治疗方案"],  // 提取的治疗方法
-    "timeRange": "时间范围描述"  // 如"最近一个月"等
-  },
-  "searchIntent": "搜索意图描述",
-  "queryType": "diagnosis" | "symptom" | "treatment" | "general"  // 查询类型
-}`;
-
-      const aiAnalysisResponse = await aiProviderManager.chat({
-        messages: [{ role: MessageRole.USER, content: analyzePrompt }]
-      });
-
-      const aiAnalysis = aiAnalysisResponse.message.content;
-
-      // 解析AI返回的JSON
-      let analysisResult: any = {};
-      try {
-        // 尝试从AI回复中提取JSON
-        const jsonMatch = aiAnalysis.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          analysisResult = JSON.parse(jsonMatch[0]);
-        }
-      } catch (parseError) {
-        logger.warn('AI分析结果解析失败，使用简单关键词匹配', parseError);
-        analysisResult = {
-          keywords: query.toLowerCase().split(/\s+/),
-          entities: { diseases: [], symptoms: [], treatments: [] },
-          searchIntent: query,
-          queryType: 'general'
-        };
-      }
-
-      logger.info(`AI查询分析: ${JSON.stringify(analysisResult)}`);
-
-      // Step 2: 根据AI分析结果构建数据库查询
-      const keywords = analysisResult.keywords || [];
-      const diseases = analysisResult.entities?.diseases || [];
-      const symptoms = analysisResult.entities?.symptoms || [];
-      const treatments = analysisResult.entities?.treatments || [];
-
-      // 构建综合查询条件
-      const searchTerms = [...keywords, ...diseases, ...symptoms, ...treatments];
-      const where: any = {
-        OR: []
-      };
-
-      // 对每个搜索词进行多字段匹配
-      // 注意：MySQL的contains操作符默认是大小写不敏感的（取决于排序规则，通常是utf8mb4_general_ci）
-      searchTerms.forEach(term => {
-        if (term && term.length > 1) {
-          where.OR.push(
-            { chiefComplaint: { contains: term } },
-            { presentIllness: { contains: term } },
-            { diagnosis: { contains: term } },
-            { treatmentPlan: { contains: term } },
-            { aiSummary: { contains: term } },
-            { aiDiagnosticAdvice: { contains: term } },
-            { pastHistory: { contains: term } },
-            { physicalExam: { contains: term } }
-          );
-        }
-      });
-
-      // 如果没有有效的搜索条件，使用原始查询
-      if (where.OR.length === 0) {
-        where.OR = [
-          { chiefComplaint: { contains: query } },
-          { presentIllness: { contains: query } },
-          { diagnosis: { contains: query } },
-          { treatmentPlan: { contains: query } }
-        ];
-      }
-
-      // Step 3: 执行数据库查询
-      const records = await prisma.medicalRecord.findMany({
-        where,
-        include: {
-          patient: {
-            select: {
-              id: true,
-              patientNo: true,
-              name: true,
-              gender: true,
-              birthDate: true
-            }
-          },
-          doctor: {
-            select: {
-              id: true,
-              doctorNo: true,
-              name: true,
-              title: true,
-              department: {
-                select: {
-                  id: true,
-                  name: true
-                }
-              }
-            }
-          }
-        },
-        orderBy: {
-          createdAt: 'desc'
-        },
-        take: limit * 2  // 多取一些，后续用AI评分排序
-      });
-
-      if (records.length === 0) {
+      if (results.length === 0) {
         return res.json({
           success: true,
           data: {
             records: [],
             relevanceScores: [],
+            keywords,
             explanation: `未找到与"${query}"相关的病历。建议尝试：\n1. 使用更通用的医疗术语\n2. 简化查询条件\n3. 检查拼写是否正确`
           }
         });
       }
 
-      // Step 4: 使用AI计算每条病历的相关性评分
-      const relevanceScores: { recordId: string; score: number; reasoning: string }[] = [];
-
-      for (const record of records.slice(0, limit)) {
-        // 构建病历摘要用于AI评分
-        const recordSummary = `
-主诉：${record.chiefComplaint}
-现病史：${record.presentIllness}
-诊断：${record.diagnosis}
-治疗方案：${record.treatmentPlan}
-${record.aiSummary ? `AI摘要：${record.aiSummary}` : ''}
-        `.trim();
-
-        // AI评分prompt
-        const scoringPrompt = `作为医疗信息检索专家，请评估以下病历与用户查询的相关性。
+      const averageRelevance = (results.reduce((sum, r) => sum + r.relevance, 0) / results.length * 100).toFixed(0);
 
-用户查询："${query}"
-查询意图：${analysisResult.searchIntent}
-
-病历内容：
-${recordSummary}
-
-请给出0-1之间的相关性评分（只返回数字和简短理由，格式: 评分|理由）：`;
-
-        try {
-          const scoreResponseObj = await aiProviderManager.chat({
-            messages: [{ role: MessageRole.USER, content: scoringPrompt }]
-          });
-
-          const scoreResponse = scoreResponseObj.message.content;
-
-          // 解析评分
-          const scoreMatch = scoreResponse.match(/(0\.\d+|1\.0|0|1)\s*[|丨]\s*(.+)/);
-          if (scoreMatch) {
-            relevanceScores.push({
-              recordId: record.id,
-              score: parseFloat(scoreMatch[1]),
-              reasoning: scoreMatch[2].trim()
-            });
-          } else {
-            // 如果AI评分失败，使用简单的字段匹配评分
-            let score = 0;
-            const fields = [
-              record.chiefComplaint,
-              record.presentIllness,
-              record.diagnosis,
-              record.treatmentPlan,
-              record.aiSummary,
-              record.aiDiagnosticAdvice
-            ];
-
-            searchTerms.forEach(term => {
-              fields.forEach(field => {
-                if (field && field.toLowerCase().includes(term.toLowerCase())) {
-                  score += 0.15;
-                }
-              });
-            });
-
-            relevanceScores.push({
-              recordId: record.id,
-              score: Math.min(score, 1),
-              reasoning: '基于关键词匹配计算'
-            });
-          }
-        } catch (scoringError) {
-          logger.warn(`AI评分失败: ${scoringError}`);
-          // 使用简单评分作为备选
-          let score = 0;
-          const fields = [
-            record.chiefComplaint,
-            record.presentIllness,
-            record.diagnosis,
-            record.treatmentPlan
-          ];
-
-          searchTerms.forEach(term => {
-            fields.forEach(field => {
-              if (field && field.toLowerCase().includes(term.toLowerCase())) {
-                score += 0.15;
-              }
-            });
-          });
-
-          relevanceScores.push({
-            recordId: record.id,
-            score: Math.min(score, 1),
-            reasoning: '基于关键词匹配计算'
-          });
-        }
-      }
-
-      // Step 5: 按相关性评分排序并截取top N
-      relevanceScores.sort((a, b) => b.score - a.score);
-      const topScores = relevanceScores.slice(0, limit);
-      const topRecordIds = topScores.map(s => s.recordId);
-      const rankedRecords = records.filter(r => topRecordIds.includes(r.id))
-        .sort((a, b) => {
-          const scoreA = topScores.find(s => s.recordId === a.id)?.score || 0;
-          const scoreB = topScores.find(s => s.recordId === b.id)?.score || 0;
-          return scoreB - scoreA;
-        });
-
-      // Step 6: 生成AI智能解释
+      // Step 4: 生成AI智能解释
       const explanationPrompt = `基于以下搜索信息，生成一段友好的搜索结果说明（不超过150字）：
 
 用户查询："${query}"
-查询意图：${analysisResult.searchIntent}
-找到病历数：${rankedRecords.length}
-平均相关度：${(topScores.reduce((sum, s) => sum + s.score, 0) / topScores.length * 100).toFixed(0)}%
+查询意图：${searchIntent}
+检索关键词：${keywords.join('、')}
+找到病历数：${results.length}
+平均相关度：${averageRelevance}%
 
 请生成简洁、专业的搜索结果说明，包括：
 1. 搜索范围说明
@@ -703,25 +579,41 @@ ${recordSummary}
 
       let explanation = '';
       try {
-        const explanationResponse = await aiProviderManager.chat({
+        const explanationResponse = await defaultAIProviderManager.chat({
           messages: [{ role: MessageRole.USER, content: explanationPrompt }]
         });
+        usageService
+          .record({ userId: req.user?.userId, feature: 'search-explanation', response: explanationResponse })
+          .catch((error) => logger.warn('记录AI用量失败:', error));
         explanation = explanationResponse.message.content;
       } catch (explainError) {
-        explanation = `基于您的查询"${query}"，共找到 ${rankedRecords.length} 条高度相关的病历。\n\n搜索范围：主诉、现病史、诊断、治疗方案及AI分析。\n平均相关度：${(topScores.reduce((sum, s) => sum + s.score, 0) / topScores.length * 100).toFixed(0)}%\n\n结果已按AI智能评分排序，评分越高表示与您的查询越相关。`;
+        explanation = `基于您的查询"${query}"，共找到 ${results.length} 条相关病历。\n\n检索关键词：${keywords.join('、')}\n搜索范围：主诉、现病史、诊断、治疗方案、既往史、检查及AI分析。\n平均相关度：${averageRelevance}%\n\n结果已按相关度排序，评分越高表示与您的查询越相关。`;
       }
 
-      logger.info(`AI智能检索: 查询"${query}" - 用户: ${req.user?.username}, 返回: ${rankedRecords.length}条, 平均相关度: ${(topScores.reduce((sum, s) => sum + s.score, 0) / topScores.length * 100).toFixed(0)}%`);
+      logger.info(`AI智能检索: 查询"${query}" - 用户: ${req.user?.username}, 返回: ${results.length}条, 平均相关度: ${averageRelevance}%`);
 
       return res.json({
         success: true,
         data: {
-          records: rankedRecords,
-          relevanceScores: topScores.map(({ recordId, score }) => ({ recordId, score })),
+          records: results.map(r => r.record),
+          relevanceScores: results.map(({ recordId, relevance, matchedContent }) => ({
+            recordId,
+            score: relevance,
+            matchedContent
+          })),
+          keywords,
           explanation: explanation.trim()
         }
       });
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: '输入验证失败',
+          errors: error.errors
+        });
+      }
+
       logger.error('AI智能检索失败:', error);
       return res.status(500).json({
         success: false,
@@ -0,0 +1,199 @@
+/**
+ * 患者消息API路由
+ *
+ * 端点（需要SYSTEM_MANAGE权限）：
+ * - GET /api/v1/messages/templates - 获取全部事件和渠道的消息模板（含默认模板）
+ * - PUT /api/v1/messages/templates/:event/:channel - 保存消息模板
+ * - DELETE /api/v1/messages/templates/:event/:channel - 恢复默认模板
+ * - GET /api/v1/messages/deliveries - 获取消息投递记录（可按患者、状态、渠道、事件筛选）
+ * - POST /api/v1/messages/deliveries/:id/retry - 重发消息
+ *
+ * 患者渠道偏好见 /api/v1/patients/:id/message-preferences
+ */
+
+import { Router, Request, Response } from 'express';
+import { MessageChannel, MessageEvent } from '@prisma/client';
+import { MessagingService } from '../services/messaging.service';
+import { MESSAGE_PLACEHOLDERS } from '../messaging';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { Permission } from '../auth/types';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { MessageTemplateSchema, MessageDeliverySearchSchema } from '../validation/schemas';
+import { z, ZodError } from 'zod';
+
+const router = Router();
+const messagingService = new MessagingService(prisma);
+
+const TemplateParamsSchema = z.object({
+  event: z.nativeEnum(MessageEvent, { errorMap: () => ({ message: '消息事件无效' }) }),
+  channel: z.nativeEnum(MessageChannel, { errorMap: () => ({ message: '消息渠道无效' }) })
+});
+
+/**
+ * 错误响应：验证失败或模板无效400，记录不存在404，已发送的消息重发409，其余500
+ */
+function sendError(res: Response, error: unknown, code: string, fallback: string) {
+  if (error instanceof ZodError) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: '输入验证失败',
+        details: error.errors
+      }
+    });
+  }
+
+  const message = error instanceof Error ? error.message : fallback;
+  const status = message.endsWith('不存在')
+    ? 404
+    : message.startsWith('模板包含未知占位符')
+      ? 400
+      : message.endsWith('无需重发')
+        ? 409
+        : 500;
+  return res.status(status).json({
+    success: false,
+    error: { code, message }
+  });
+}
+
+/**
+ * 获取消息模板
+ * GET /api/v1/messages/templates
+ * 权限：SYSTEM_MANAGE
+ */
+router.get(
+  '/templates',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.SYSTEM_MANAGE),
+  async (_req: Request, res: Response) => {
+    try {
+      const templates = await messagingService.listTemplates();
+
+      return res.json({
+        success: true,
+        data: templates,
+        placeholders: MESSAGE_PLACEHOLDERS
+      });
+    } catch (error) {
+      logger.error('获取消息模板失败:', error);
+      return sendError(res, error, 'MESSAGE001', '获取消息模板失败');
+    }
+  }
+);
+
+/**
+ * 保存消息模板
+ * PUT /api/v1/messages/templates/:event/:channel
+ * 权限：SYSTEM_MANAGE
+ */
+router.put(
+  '/templates/:event/:channel',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.SYSTEM_MANAGE),
+  async (req: Request, res: Response) => {
+    try {
+      const { event, channel } = TemplateParamsSchema.parse(req.params);
+      const input = MessageTemplateSchema.parse(req.body);
+      const template = await messagingService.upsertTemplate(event, channel, input, req.user?.userId);
+
+      logger.info(`消息模板保存成功 - 用户: ${req.user?.username}, 事件: ${event}, 渠道: ${channel}`);
+
+      return res.json({
+        success: true,
+        data: template
+      });
+    } catch (error) {
+      logger.error('保存消息模板失败:', error);
+      return sendError(res, error, 'MESSAGE002', '保存消息模板失败');
+    }
+  }
+);
+
+/**
+ * 恢复默认模板
+ * DELETE /api/v1/messages/templates/:event/:channel
+ * 权限：SYSTEM_MANAGE
+ */
+router.delete(
+  '/templates/:event/:channel',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.SYSTEM_MANAGE),
+  async (req: Request, res: Response) => {
+    try {
+      const { event, channel } = TemplateParamsSchema.parse(req.params);
+      await messagingService.resetTemplate(event, channel);
+
+      logger.info(`消息模板已恢复默认 - 用户: ${req.user?.username}, 事件: ${event}, 渠道: ${channel}`);
+
+      return res.json({
+        success: true,
+        message: '已恢复默认模板'
+      });
+    } catch (error) {
+      logger.error('恢复默认模板失败:', error);
+      return sendError(res, error, 'MESSAGE003', '恢复默认模板失败');
+    }
+  }
+);
+
+/**
+ * 获取消息投递记录
+ * GET /api/v1/messages/deliveries
+ * 权限：SYSTEM_MANAGE
+ */
+router.get(
+  '/deliveries',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.SYSTEM_MANAGE),
+  async (req: Request, res: Response) => {
+    try {
+      const { limit, ...query } = MessageDeliverySearchSchema.parse(req.query);
+      const result = await messagingService.listDeliveries({ ...query, pageSize: limit });
+
+      return res.json({
+        success: true,
+        data: result.deliveries,
+        pagination: {
+          total: result.total,
+          page: result.page,
+          pageSize: result.pageSize,
+          totalPages: Math.ceil(result.total / result.pageSize)
+        }
+      });
+    } catch (error) {
+      logger.error('获取消息投递记录失败:', error);
+      return sendError(res, error, 'MESSAGE004', '获取消息投递记录失败');
+    }
+  }
+);
+
+/**
+ * 重发消息
+ * POST /api/v1/messages/deliveries/:id/retry
+ * 权限：SYSTEM_MANAGE
+ */
+router.post(
+  '/deliveries/:id/retry',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.SYSTEM_MANAGE),
+  async (req: Request, res: Response) => {
+    try {
+      const delivery = await messagingService.retryDelivery(req.params.id);
+
+      logger.info(`消息重发 - 用户: ${req.user?.username}, 记录: ${req.params.id}, 结果: ${delivery.status}`);
+
+      return res.json({
+        success: true,
+        data: delivery
+      });
+    } catch (error) {
+      logger.error('重发消息失败:', error);
+      return sendError(res, error, 'MESSAGE005', '重发消息失败');
+    }
+  }
+);
+
+export default router;
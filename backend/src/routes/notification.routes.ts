@@ -0,0 +1,193 @@
+/**
+ * 站内通知API路由
+ *
+ * 端点（登录用户只能访问自己的通知）：
+ * - GET /api/v1/notifications - 获取通知列表（含未读数，可按已读状态、类型筛选）
+ * - GET /api/v1/notifications/unread-count - 获取未读通知数
+ * - POST /api/v1/notifications/read-all - 全部标记已读
+ * - PATCH /api/v1/notifications/:id/read - 标记已读
+ * - DELETE /api/v1/notifications/:id - 删除通知
+ * - POST /api/v1/notifications - 向指定用户发送系统通知（需要SYSTEM_MANAGE权限）
+ */
+
+import { Router, Request, Response } from 'express';
+import { NotificationType } from '@prisma/client';
+import { NotificationService } from '../services/notification.service';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { Permission } from '../auth/types';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { z, ZodError } from 'zod';
+
+const router = Router();
+const notificationService = new NotificationService(prisma);
+
+const NotificationQuerySchema = z.object({
+  isRead: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+  type: z.nativeEnum(NotificationType).optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  pageSize: z.coerce.number().int().min(1).max(100).optional()
+});
+
+const SendNotificationSchema = z.object({
+  userIds: z.array(z.string().min(1)).min(1, '至少指定一个接收人').max(500),
+  title: z.string().min(1, '标题不能为空').max(200),
+  content: z.string().min(1, '内容不能为空').max(2000)
+});
+
+/**
+ * 错误响应：验证失败400，通知不存在404，其余500
+ */
+function sendError(res: Response, error: unknown, code: string, fallback: string) {
+  if (error instanceof ZodError) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: '输入验证失败',
+        details: error.errors
+      }
+    });
+  }
+
+  const message = error instanceof Error ? error.message : fallback;
+  return res.status(message.endsWith('不存在') ? 404 : 500).json({
+    success: false,
+    error: { code, message }
+  });
+}
+
+/**
+ * 获取通知列表
+ * GET /api/v1/notifications
+ * 权限：登录用户
+ */
+router.get('/', authMiddleware.authenticate(), async (req: Request, res: Response) => {
+  try {
+    const query = NotificationQuerySchema.parse(req.query);
+    const result = await notificationService.listNotifications(req.user!.userId, query);
+
+    return res.json({
+      success: true,
+      data: result.notifications,
+      unreadCount: result.unreadCount,
+      pagination: {
+        total: result.total,
+        page: result.page,
+        pageSize: result.pageSize,
+        totalPages: Math.ceil(result.total / result.pageSize)
+      }
+    });
+  } catch (error) {
+    logger.error('获取通知列表失败:', error);
+    return sendError(res, error, 'NOTIFICATION001', '获取通知列表失败');
+  }
+});
+
+/**
+ * 获取未读通知数
+ * GET /api/v1/notifications/unread-count
+ * 权限：登录用户
+ */
+router.get('/unread-count', authMiddleware.authenticate(), async (req: Request, res: Response) => {
+  try {
+    const count = await notificationService.getUnreadCount(req.user!.userId);
+
+    return res.json({
+      success: true,
+      data: { count }
+    });
+  } catch (error) {
+    logger.error('获取未读通知数失败:', error);
+    return sendError(res, error, 'NOTIFICATION002', '获取未读通知数失败');
+  }
+});
+
+/**
+ * 全部标记已读
+ * POST /api/v1/notifications/read-all
+ * 权限：登录用户
+ */
+router.post('/read-all', authMiddleware.authenticate(), async (req: Request, res: Response) => {
+  try {
+    const count = await notificationService.markAllAsRead(req.user!.userId);
+
+    return res.json({
+      success: true,
+      data: { count }
+    });
+  } catch (error) {
+    logger.error('全部标记已读失败:', error);
+    return sendError(res, error, 'NOTIFICATION003', '全部标记已读失败');
+  }
+});
+
+/**
+ * 标记已读
+ * PATCH /api/v1/notifications/:id/read
+ * 权限：登录用户
+ */
+router.patch('/:id/read', authMiddleware.authenticate(), async (req: Request, res: Response) => {
+  try {
+    const notification = await notificationService.markAsRead(req.user!.userId, req.params.id);
+
+    return res.json({
+      success: true,
+      data: notification
+    });
+  } catch (error) {
+    logger.error('标记通知已读失败:', error);
+    return sendError(res, error, 'NOTIFICATION004', '标记通知已读失败');
+  }
+});
+
+/**
+ * 删除通知
+ * DELETE /api/v1/notifications/:id
+ * 权限：登录用户
+ */
+router.delete('/:id', authMiddleware.authenticate(), async (req: Request, res: Response) => {
+  try {
+    await notificationService.deleteNotification(req.user!.userId, req.params.id);
+
+    return res.json({
+      success: true,
+      message: '通知已删除'
+    });
+  } catch (error) {
+    logger.error('删除通知失败:', error);
+    return sendError(res, error, 'NOTIFICATION005', '删除通知失败');
+  }
+});
+
+/**
+ * 发送系统通知
+ * POST /api/v1/notifications
+ * 权限：SYSTEM_MANAGE
+ */
+router.post(
+  '/',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.SYSTEM_MANAGE),
+  async (req: Request, res: Response) => {
+    try {
+      const { userIds, title, content } = SendNotificationSchema.parse(req.body);
+      const notifications = await notificationService.sendSystemNotification(req.user!.userId, userIds, {
+        title,
+        content
+      });
+
+      logger.info(`系统通知发送成功 - 用户: ${req.user?.username}, 接收人数: ${notifications.length}`);
+
+      return res.status(201).json({
+        success: true,
+        data: { count: notifications.length }
+      });
+    } catch (error) {
+      logger.error('发送系统通知失败:', error);
+      return sendError(res, error, 'NOTIFICATION006', '发送系统通知失败');
+    }
+  }
+);
+
+export default router;
@@ -3,7 +3,7 @@
  *
  * 端点：
  * - POST /api/v1/patients - 创建患者
- * - GET /api/v1/patients - 获取患者列表（分页、搜索、筛选）
+ * - GET /api/v1/patients - 获取患者列表（分页、搜索、筛选；format=csv|xlsx导出全部结果）
  * - GET /api/v1/patients/:id - 获取患者详情
  * - PUT /api/v1/patients/:id - 更新患者信息
  * - DELETE /api/v1/patients/:id - 删除患者（软删除）
@@ -11,12 +11,16 @@
  * - GET /api/v1/patients/:id/statistics - 获取患者统计信息
  * - POST /api/v1/patients/:id/tags - 添加患者标签
  * - DELETE /api/v1/patients/:id/tags/:tag - 删除患者标签
+ * - GET /api/v1/patients/:id/message-preferences - 获取患者消息渠道偏好
+ * - PUT /api/v1/patients/:id/message-preferences - 设置患者消息渠道偏好
  * - GET /api/v1/patients/statistics/global - 获取全局患者统计
  */
 
 import { Router, Request, Response } from 'express';
 import { PatientService } from '../services/patient.service';
+import { MessagingService } from '../services/messaging.service';
 import { authMiddleware } from '../middleware/auth.middleware';
+import { exportMiddleware, streamExport, ExportColumn } from '../middleware/export.middleware';
 import { Permission } from '../auth/types';
 import { prisma } from '../utils/prisma';
 import { logger } from '../utils/logger';
@@ -24,12 +28,41 @@ import {
   CreatePatientSchema,
   UpdatePatientSchema,
   PatientSearchSchema,
-  AddPatientTagSchema
+  AddPatientTagSchema,
+  ChannelPreferencesSchema
 } from '../validation/schemas';
 import { ZodError } from 'zod';
+import { Patient } from '@prisma/client';
 
 const router = Router();
 const patientService = new PatientService(prisma);
+const messagingService = new MessagingService(prisma);
+
+const GENDER_TEXT: Record<string, string> = { MALE: '男', FEMALE: '女', OTHER: '其他' };
+
+/**
+ * 导出时脱敏：只保留首尾字符
+ */
+const mask = (value: string | null, keepStart: number, keepEnd: number) =>
+  value && value.length > keepStart + keepEnd
+    ? value.slice(0, keepStart) + '*'.repeat(value.length - keepStart - keepEnd) + value.slice(-keepEnd)
+    : value;
+
+/**
+ * 患者导出列（身份证号、电话脱敏）
+ */
+const PATIENT_EXPORT_COLUMNS: ExportColumn<Patient>[] = [
+  { header: '患者编号', value: (p) => p.patientNo },
+  { header: '姓名', value: (p) => p.name },
+  { header: '性别', value: (p) => GENDER_TEXT[p.gender] || p.gender },
+  { header: '出生日期', value: (p) => p.birthDate.toISOString().slice(0, 10) },
+  { header: '身份证号', value: (p) => mask(p.idCard, 6, 4) },
+  { header: '联系电话', value: (p) => mask(p.phone, 3, 4) },
+  { header: '血型', value: (p) => p.bloodType },
+  { header: '过敏史', value: (p) => p.allergies },
+  { header: '地址', value: (p) => p.address },
+  { header: '建档时间', value: (p) => p.createdAt }
+];
 
 /**
  * 创建患者
@@ -87,17 +120,29 @@ router.post(
 /**
  * 获取患者列表（分页、搜索、筛选）
  * GET /api/v1/patients
- * 权限：PATIENT_VIEW
+ * 权限：PATIENT_VIEW（导出另需REPORT_EXPORT）
  */
 router.get(
   '/',
   authMiddleware.authenticate(),
   authMiddleware.requirePermission(Permission.PATIENT_VIEW),
+  exportMiddleware.negotiate(),
   async (req: Request, res: Response) => {
     try {
       // 验证查询参数
       const validatedParams = PatientSearchSchema.parse(req.query);
 
+      // 导出全部搜索结果
+      if (req.exportFormat) {
+        return await streamExport(
+          res,
+          req.exportFormat,
+          '患者列表',
+          PATIENT_EXPORT_COLUMNS,
+          patientService.iterateSearchResults(validatedParams)
+        );
+      }
+
       // 搜索患者
       const result = await patientService.searchPatients(validatedParams);
 
@@ -407,6 +452,86 @@ router.delete(
   }
 );
 
+/**
+ * 获取患者消息渠道偏好
+ * GET /api/v1/patients/:id/message-preferences
+ * 权限：PATIENT_VIEW
+ */
+router.get(
+  '/:id/message-preferences',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.PATIENT_VIEW),
+  async (req: Request, res: Response) => {
+    try {
+      const preferences = await messagingService.getPreferences(req.params.id);
+
+      return res.json({
+        success: true,
+        data: preferences
+      });
+    } catch (error) {
+      logger.error('获取消息渠道偏好失败:', error);
+      const message = error instanceof Error ? error.message : '获取消息渠道偏好失败';
+      return res.status(message === '患者不存在' ? 404 : 500).json({
+        success: false,
+        error: {
+          code: 'PATIENT011',
+          message
+        }
+      });
+    }
+  }
+);
+
+/**
+ * 设置患者消息渠道偏好
+ * PUT /api/v1/patients/:id/message-preferences
+ * 权限：PATIENT_UPDATE
+ */
+router.put(
+  '/:id/message-preferences',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.PATIENT_UPDATE),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      // 验证输入
+      const { preferences } = ChannelPreferencesSchema.parse(req.body);
+
+      const result = await messagingService.updatePreferences(id, preferences);
+
+      logger.info(`消息渠道偏好设置成功 - 用户: ${req.user?.username}, 患者ID: ${id}`);
+
+      return res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '输入验证失败',
+            details: error.errors
+          }
+        });
+      }
+
+      logger.error('设置消息渠道偏好失败:', error);
+      const message = error instanceof Error ? error.message : '设置消息渠道偏好失败';
+      return res.status(message === '患者不存在' ? 404 : 500).json({
+        success: false,
+        error: {
+          code: 'PATIENT012',
+          message
+        }
+      });
+    }
+  }
+);
+
 /**
  * 获取全局患者统计
  * GET /api/v1/patients/statistics/global
@@ -12,15 +12,17 @@
  * - GET    /api/v1/prescriptions/:id/print - 获取处方打印数据
  * - GET    /api/v1/prescriptions/patient/:patientId - 患者处方历史
  * - GET    /api/v1/prescriptions/doctor/:doctorId/statistics - 医生处方统计
- * - GET    /api/v1/prescriptions/statistics/overview - 处方统计信息
+ * - GET    /api/v1/prescriptions/statistics/overview - 处方统计信息（支持format=csv|xlsx导出）
  */
 
 import { Router, Request, Response } from 'express';
 import { PrescriptionService } from '../services/prescription.service';
 import { authMiddleware } from '../middleware/auth.middleware';
+import { exportMiddleware, sendExport } from '../middleware/export.middleware';
 import { Permission } from '../auth/types';
 import { prisma } from '../utils/prisma';
 import { logger } from '../utils/logger';
+import { statisticsToSheets } from '../utils/statistics-tables';
 import { ZodError, z } from 'zod';
 import { PrescriptionStatus } from '@prisma/client';
 
@@ -234,7 +236,7 @@ router.delete(
     try {
       const { id } = req.params;
 
-      const prescription = await prescriptionService.cancelPrescription(id);
+      const prescription = await prescriptionService.cancelPrescription(id, req.user?.userId);
 
       logger.info(`处方取消成功: ${prescription.prescriptionNo} - 用户: ${req.user?.username}`);
 
@@ -266,7 +268,7 @@ router.post(
     try {
       const { id } = req.params;
 
-      const prescription = await prescriptionService.approvePrescription(id);
+      const prescription = await prescriptionService.approvePrescription(id, req.user?.userId);
 
       logger.info(`处方审批成功: ${prescription.prescriptionNo} - 用户: ${req.user?.username}`);
 
@@ -298,7 +300,7 @@ router.post(
     try {
       const { id } = req.params;
 
-      const prescription = await prescriptionService.dispensePrescription(id);
+      const prescription = await prescriptionService.dispensePrescription(id, req.user?.userId);
 
       logger.info(`发药成功: ${prescription.prescriptionNo} - 用户: ${req.user?.username}`);
 
@@ -416,10 +418,15 @@ router.get(
   '/statistics/overview',
   authMiddleware.authenticate(),
   authMiddleware.requirePermission(Permission.PRESCRIPTION_VIEW),
-  async (_req: Request, res: Response) => {
+  exportMiddleware.negotiate(),
+  async (req: Request, res: Response) => {
     try {
       const statistics = await prescriptionService.getPrescriptionStatistics();
 
+      if (req.exportFormat) {
+        return sendExport(res, req.exportFormat, '处方统计', statisticsToSheets(statistics));
+      }
+
       return res.json({
         success: true,
         data: statistics
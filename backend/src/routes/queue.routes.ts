@@ -10,21 +10,30 @@
  * - POST /api/v1/queue/call-next - 叫号
  * - PUT /api/v1/queue/:id/complete - 完成就诊
  * - DELETE /api/v1/queue/:id - 取消排队
+ * - POST /api/v1/queue/:id/call - 重呼
+ * - POST /api/v1/queue/:id/skip - 过号（叫号次数达到上限时记为爽约）
+ * - POST /api/v1/queue/:id/recall - 过号回队
+ * - POST /api/v1/queue/:id/transfer - 转诊到同科室其他医生
  * - GET /api/v1/queue/:id/position - 获取排队位置
  * - GET /api/v1/queue/department/:departmentId/statistics - 获取科室排队统计
+ * - GET /api/v1/queue/department/:departmentId/policy - 获取科室排队排序策略
+ * - PUT /api/v1/queue/department/:departmentId/policy - 设置科室排队排序策略
+ * - DELETE /api/v1/queue/department/:departmentId/policy - 恢复系统默认排序策略
  */
 
 import { Router, Request, Response } from 'express';
 import { QueueService } from '../services/queue.service';
+import { QueueOrderingService } from '../services/queue-ordering.service';
 import { authMiddleware } from '../middleware/auth.middleware';
 import { Permission } from '../auth/types';
 import { prisma } from '../utils/prisma';
 import { logger } from '../utils/logger';
-import { CreateQueueSchema } from '../validation/schemas';
+import { CreateQueueSchema, QueuePolicySchema, RecallQueueSchema, TransferQueueSchema } from '../validation/schemas';
 import { ZodError } from 'zod';
 
 const router = Router();
 const queueService = new QueueService(prisma);
+const orderingService = new QueueOrderingService(prisma);
 
 /**
  * 创建排队
@@ -193,7 +202,7 @@ router.get(
 
 /**
  * 获取医生排队列表
- * GET /api/v1/queue/doctor/:doctorId
+ * GET /api/v1/queue/doctor/:doctorId?includeSkipped=true
  * 权限：QUEUE_VIEW
  */
 router.get(
@@ -203,8 +212,9 @@ router.get(
   async (req: Request, res: Response) => {
     try {
       const { doctorId } = req.params;
+      const includeSkipped = req.query.includeSkipped === 'true';
 
-      const queues = await queueService.getDoctorQueue(doctorId);
+      const queues = await queueService.getDoctorQueue(doctorId, includeSkipped);
 
       return res.json({
         success: true,
@@ -246,7 +256,7 @@ router.post(
         });
       }
 
-      const queue = await queueService.callNext(doctorId);
+      const queue = await queueService.callNext(doctorId, req.user?.userId);
 
       if (!queue) {
         return res.json({
@@ -349,6 +359,174 @@ router.delete(
   }
 );
 
+/**
+ * 重呼
+ * POST /api/v1/queue/:id/call
+ * 权限：QUEUE_CALL
+ */
+router.post(
+  '/:id/call',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.QUEUE_CALL),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const queue = await queueService.callAgain(id, req.user?.userId);
+
+      logger.info(
+        `重呼 - 用户: ${req.user?.username}, 排队号码: ${queue.queueNumber}`
+      );
+
+      return res.json({
+        success: true,
+        data: queue
+      });
+    } catch (error) {
+      logger.error('重呼失败:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'QUEUE011',
+          message: error instanceof Error ? error.message : '重呼失败'
+        }
+      });
+    }
+  }
+);
+
+/**
+ * 过号
+ * POST /api/v1/queue/:id/skip
+ * 权限：QUEUE_UPDATE
+ */
+router.post(
+  '/:id/skip',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.QUEUE_UPDATE),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const queue = await queueService.skipQueue(id);
+
+      logger.info(
+        `过号 - 用户: ${req.user?.username}, 排队号码: ${queue.queueNumber}, 状态: ${queue.status}`
+      );
+
+      return res.json({
+        success: true,
+        data: queue
+      });
+    } catch (error) {
+      logger.error('过号失败:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'QUEUE012',
+          message: error instanceof Error ? error.message : '过号失败'
+        }
+      });
+    }
+  }
+);
+
+/**
+ * 过号回队
+ * POST /api/v1/queue/:id/recall
+ * 权限：QUEUE_UPDATE
+ */
+router.post(
+  '/:id/recall',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.QUEUE_UPDATE),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { position } = RecallQueueSchema.parse(req.body);
+
+      const queue = await queueService.recallQueue(id, position);
+
+      logger.info(
+        `过号回队 - 用户: ${req.user?.username}, 排队号码: ${queue.queueNumber}`
+      );
+
+      return res.json({
+        success: true,
+        data: queue
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '输入验证失败',
+            details: error.errors
+          }
+        });
+      }
+
+      logger.error('过号回队失败:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'QUEUE013',
+          message: error instanceof Error ? error.message : '过号回队失败'
+        }
+      });
+    }
+  }
+);
+
+/**
+ * 转诊
+ * POST /api/v1/queue/:id/transfer
+ * 权限：QUEUE_UPDATE
+ */
+router.post(
+  '/:id/transfer',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.QUEUE_UPDATE),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { doctorId } = TransferQueueSchema.parse(req.body);
+
+      const queue = await queueService.transferQueue(id, doctorId);
+
+      logger.info(
+        `转诊 - 用户: ${req.user?.username}, 排队号码: ${queue.queueNumber}, 医生: ${doctorId}`
+      );
+
+      return res.json({
+        success: true,
+        data: queue
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '输入验证失败',
+            details: error.errors
+          }
+        });
+      }
+
+      logger.error('转诊失败:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'QUEUE014',
+          message: error instanceof Error ? error.message : '转诊失败'
+        }
+      });
+    }
+  }
+);
+
 /**
  * 获取排队位置
  * GET /api/v1/queue/:id/position
@@ -413,4 +591,120 @@ router.get(
   }
 );
 
+/**
+ * 获取科室排队排序策略
+ * GET /api/v1/queue/department/:departmentId/policy
+ * 权限：QUEUE_VIEW
+ */
+router.get(
+  '/department/:departmentId/policy',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.QUEUE_VIEW),
+  async (req: Request, res: Response) => {
+    try {
+      const { departmentId } = req.params;
+
+      const policy = await orderingService.getPolicyConfig(departmentId);
+
+      return res.json({
+        success: true,
+        data: policy
+      });
+    } catch (error) {
+      logger.error('获取科室排队策略失败:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'QUEUE015',
+          message: error instanceof Error ? error.message : '获取科室排队策略失败'
+        }
+      });
+    }
+  }
+);
+
+/**
+ * 设置科室排队排序策略
+ * PUT /api/v1/queue/department/:departmentId/policy
+ * 权限：SYSTEM_MANAGE
+ */
+router.put(
+  '/department/:departmentId/policy',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.SYSTEM_MANAGE),
+  async (req: Request, res: Response) => {
+    try {
+      const { departmentId } = req.params;
+      const config = QueuePolicySchema.parse(req.body);
+
+      const policy = await orderingService.updatePolicyConfig(departmentId, config);
+
+      logger.info(
+        `科室排队策略已设置 - 用户: ${req.user?.username}, 科室: ${departmentId}, 策略: ${policy.type}`
+      );
+
+      return res.json({
+        success: true,
+        data: policy
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '输入验证失败',
+            details: error.errors
+          }
+        });
+      }
+
+      logger.error('设置科室排队策略失败:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'QUEUE016',
+          message: error instanceof Error ? error.message : '设置科室排队策略失败'
+        }
+      });
+    }
+  }
+);
+
+/**
+ * 恢复系统默认排序策略
+ * DELETE /api/v1/queue/department/:departmentId/policy
+ * 权限：SYSTEM_MANAGE
+ */
+router.delete(
+  '/department/:departmentId/policy',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.SYSTEM_MANAGE),
+  async (req: Request, res: Response) => {
+    try {
+      const { departmentId } = req.params;
+
+      const policy = await orderingService.updatePolicyConfig(departmentId, null);
+
+      logger.info(
+        `科室排队策略已恢复默认 - 用户: ${req.user?.username}, 科室: ${departmentId}`
+      );
+
+      return res.json({
+        success: true,
+        data: policy
+      });
+    } catch (error) {
+      logger.error('恢复科室排队策略失败:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'QUEUE017',
+          message: error instanceof Error ? error.message : '恢复科室排队策略失败'
+        }
+      });
+    }
+  }
+);
+
 export default router;
\ No newline at end of file
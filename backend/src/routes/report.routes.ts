@@ -0,0 +1,295 @@
+/**
+ * 报表API路由
+ *
+ * 端点：
+ * - GET /api/v1/reports/configs - 获取报表配置列表
+ * - POST /api/v1/reports/configs - 创建报表配置
+ * - GET /api/v1/reports/configs/:id - 获取报表配置详情
+ * - PUT /api/v1/reports/configs/:id - 更新报表配置
+ * - DELETE /api/v1/reports/configs/:id - 删除报表配置及其报表
+ * - POST /api/v1/reports/configs/:id/run - 立即生成报表
+ * - GET /api/v1/reports - 获取已生成的报表列表（可按configId筛选）
+ * - GET /api/v1/reports/:id - 获取报表详情（含报表数据）
+ * - GET /api/v1/reports/:id/download - 下载报表文件（format: CSV | XLSX | PDF，默认为配置的格式）
+ */
+
+import { Router, Request, Response } from 'express';
+import { ReportFormat } from '@prisma/client';
+import { ReportService } from '../services/report.service';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { Permission } from '../auth/types';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { CreateReportConfigSchema, UpdateReportConfigSchema, ReportSearchSchema } from '../validation/schemas';
+import { z, ZodError } from 'zod';
+
+const router = Router();
+const reportService = new ReportService(prisma);
+
+const DownloadQuerySchema = z.object({
+  format: z
+    .string()
+    .transform((value) => value.toUpperCase())
+    .pipe(z.nativeEnum(ReportFormat, { errorMap: () => ({ message: '报表格式必须是CSV、XLSX或PDF' }) }))
+    .optional()
+});
+
+/**
+ * 错误响应：验证失败400，资源不存在404，名称冲突409，其余500
+ */
+function sendError(res: Response, error: unknown, code: string, fallback: string) {
+  if (error instanceof ZodError) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: '输入验证失败',
+        details: error.errors
+      }
+    });
+  }
+
+  const message = error instanceof Error ? error.message : fallback;
+  const status = message.endsWith('不存在') ? 404 : message.endsWith('已存在') ? 409 : 500;
+  return res.status(status).json({
+    success: false,
+    error: { code, message }
+  });
+}
+
+/**
+ * 获取报表配置列表
+ * GET /api/v1/reports/configs
+ * 权限：REPORT_VIEW
+ */
+router.get(
+  '/configs',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.REPORT_VIEW),
+  async (_req: Request, res: Response) => {
+    try {
+      const configs = await reportService.listConfigs();
+
+      return res.json({
+        success: true,
+        data: configs
+      });
+    } catch (error) {
+      logger.error('获取报表配置列表失败:', error);
+      return sendError(res, error, 'REPORT001', '获取报表配置列表失败');
+    }
+  }
+);
+
+/**
+ * 创建报表配置
+ * POST /api/v1/reports/configs
+ * 权限：SYSTEM_MANAGE
+ */
+router.post(
+  '/configs',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.SYSTEM_MANAGE),
+  async (req: Request, res: Response) => {
+    try {
+      const validatedData = CreateReportConfigSchema.parse(req.body);
+
+      const config = await reportService.createConfig(validatedData);
+
+      logger.info(`报表配置创建成功 - 用户: ${req.user?.username}, 报表: ${config.name}`);
+
+      return res.status(201).json({
+        success: true,
+        data: config
+      });
+    } catch (error) {
+      logger.error('创建报表配置失败:', error);
+      return sendError(res, error, 'REPORT002', '创建报表配置失败');
+    }
+  }
+);
+
+/**
+ * 获取报表配置详情
+ * GET /api/v1/reports/configs/:id
+ * 权限：REPORT_VIEW
+ */
+router.get(
+  '/configs/:id',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.REPORT_VIEW),
+  async (req: Request, res: Response) => {
+    try {
+      const config = await reportService.getConfig(req.params.id);
+
+      return res.json({
+        success: true,
+        data: config
+      });
+    } catch (error) {
+      logger.error('获取报表配置详情失败:', error);
+      return sendError(res, error, 'REPORT003', '获取报表配置详情失败');
+    }
+  }
+);
+
+/**
+ * 更新报表配置
+ * PUT /api/v1/reports/configs/:id
+ * 权限：SYSTEM_MANAGE
+ */
+router.put(
+  '/configs/:id',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.SYSTEM_MANAGE),
+  async (req: Request, res: Response) => {
+    try {
+      const validatedData = UpdateReportConfigSchema.parse(req.body);
+
+      const config = await reportService.updateConfig(req.params.id, validatedData);
+
+      logger.info(`报表配置更新成功 - 用户: ${req.user?.username}, 报表: ${config.name}`);
+
+      return res.json({
+        success: true,
+        data: config
+      });
+    } catch (error) {
+      logger.error('更新报表配置失败:', error);
+      return sendError(res, error, 'REPORT004', '更新报表配置失败');
+    }
+  }
+);
+
+/**
+ * 删除报表配置及其生成的报表
+ * DELETE /api/v1/reports/configs/:id
+ * 权限：SYSTEM_MANAGE
+ */
+router.delete(
+  '/configs/:id',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.SYSTEM_MANAGE),
+  async (req: Request, res: Response) => {
+    try {
+      await reportService.deleteConfig(req.params.id);
+
+      logger.info(`报表配置删除成功 - 用户: ${req.user?.username}, 配置ID: ${req.params.id}`);
+
+      return res.json({
+        success: true,
+        message: '报表配置已删除'
+      });
+    } catch (error) {
+      logger.error('删除报表配置失败:', error);
+      return sendError(res, error, 'REPORT005', '删除报表配置失败');
+    }
+  }
+);
+
+/**
+ * 立即生成报表
+ * POST /api/v1/reports/configs/:id/run
+ * 权限：REPORT_EXPORT
+ */
+router.post(
+  '/configs/:id/run',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.REPORT_EXPORT),
+  async (req: Request, res: Response) => {
+    try {
+      const report = await reportService.runReport(req.params.id, 'manual');
+
+      logger.info(`手动生成报表成功 - 用户: ${req.user?.username}, 报表ID: ${report.id}`);
+
+      return res.status(201).json({
+        success: true,
+        data: report
+      });
+    } catch (error) {
+      logger.error('生成报表失败:', error);
+      return sendError(res, error, 'REPORT006', '生成报表失败');
+    }
+  }
+);
+
+/**
+ * 获取已生成的报表列表
+ * GET /api/v1/reports
+ * 权限：REPORT_VIEW
+ */
+router.get(
+  '/',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.REPORT_VIEW),
+  async (req: Request, res: Response) => {
+    try {
+      const search = ReportSearchSchema.parse(req.query);
+
+      const result = await reportService.listReports(search);
+
+      return res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      logger.error('获取报表列表失败:', error);
+      return sendError(res, error, 'REPORT007', '获取报表列表失败');
+    }
+  }
+);
+
+/**
+ * 获取报表详情
+ * GET /api/v1/reports/:id
+ * 权限：REPORT_VIEW
+ */
+router.get(
+  '/:id',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.REPORT_VIEW),
+  async (req: Request, res: Response) => {
+    try {
+      const report = await reportService.getReport(req.params.id);
+
+      return res.json({
+        success: true,
+        data: report
+      });
+    } catch (error) {
+      logger.error('获取报表详情失败:', error);
+      return sendError(res, error, 'REPORT008', '获取报表详情失败');
+    }
+  }
+);
+
+/**
+ * 下载报表文件
+ * GET /api/v1/reports/:id/download
+ * 权限：REPORT_EXPORT
+ */
+router.get(
+  '/:id/download',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.REPORT_EXPORT),
+  async (req: Request, res: Response) => {
+    try {
+      const { format } = DownloadQuerySchema.parse(req.query);
+
+      const file = await reportService.getReportFile(req.params.id, format);
+
+      logger.info(`下载报表 - 用户: ${req.user?.username}, 报表ID: ${req.params.id}, 文件: ${file.filename}`);
+
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(file.filename)}`);
+      res.setHeader('Content-Length', file.buffer.length);
+
+      return res.send(file.buffer);
+    } catch (error) {
+      logger.error('下载报表失败:', error);
+      return sendError(res, error, 'REPORT009', '下载报表失败');
+    }
+  }
+);
+
+export default router;
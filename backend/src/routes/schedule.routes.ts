@@ -0,0 +1,181 @@
+/**
+ * 医生排班API路由
+ *
+ * 端点：
+ * - GET /api/v1/schedules - 获取排班列表（支持按医生、科室筛选）
+ * - POST /api/v1/schedules - 创建排班
+ * - PUT /api/v1/schedules/:id - 更新排班
+ * - DELETE /api/v1/schedules/:id - 删除排班
+ */
+
+import { Router, Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { ScheduleService } from '../services/schedule.service';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { Permission } from '../auth/types';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { CreateScheduleSchema, UpdateScheduleSchema } from '../validation/schemas';
+
+const router = Router();
+const scheduleService = new ScheduleService(prisma);
+
+/**
+ * 获取排班列表
+ * GET /api/v1/schedules?doctorId=xxx&departmentId=xxx&activeOnly=true
+ * 权限：SCHEDULE_VIEW
+ */
+router.get(
+  '/',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.SCHEDULE_VIEW),
+  async (req: Request, res: Response) => {
+    try {
+      const { doctorId, departmentId, activeOnly } = req.query;
+
+      const schedules = await scheduleService.listSchedules({
+        doctorId: doctorId as string | undefined,
+        departmentId: departmentId as string | undefined,
+        activeOnly: activeOnly === 'true'
+      });
+
+      return res.json({
+        success: true,
+        data: schedules
+      });
+    } catch (error) {
+      logger.error('获取排班列表失败:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'SCHEDULE001',
+          message: error instanceof Error ? error.message : '获取排班列表失败'
+        }
+      });
+    }
+  }
+);
+
+/**
+ * 创建排班
+ * POST /api/v1/schedules
+ * 权限：SCHEDULE_MANAGE
+ */
+router.post(
+  '/',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.SCHEDULE_MANAGE),
+  async (req: Request, res: Response) => {
+    try {
+      const validatedData = CreateScheduleSchema.parse(req.body);
+
+      const schedule = await scheduleService.createSchedule(validatedData);
+
+      logger.info(`排班创建成功 - 用户: ${req.user?.username}, 排班ID: ${schedule.id}`);
+
+      return res.status(201).json({
+        success: true,
+        data: schedule
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '输入验证失败',
+            details: error.errors
+          }
+        });
+      }
+
+      logger.error('创建排班失败:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'SCHEDULE002',
+          message: error instanceof Error ? error.message : '创建排班失败'
+        }
+      });
+    }
+  }
+);
+
+/**
+ * 更新排班
+ * PUT /api/v1/schedules/:id
+ * 权限：SCHEDULE_MANAGE
+ */
+router.put(
+  '/:id',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.SCHEDULE_MANAGE),
+  async (req: Request, res: Response) => {
+    try {
+      const validatedData = UpdateScheduleSchema.parse(req.body);
+
+      const schedule = await scheduleService.updateSchedule(req.params.id, validatedData);
+
+      logger.info(`排班更新成功 - 用户: ${req.user?.username}, 排班ID: ${schedule.id}`);
+
+      return res.json({
+        success: true,
+        data: schedule
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '输入验证失败',
+            details: error.errors
+          }
+        });
+      }
+
+      logger.error('更新排班失败:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'SCHEDULE003',
+          message: error instanceof Error ? error.message : '更新排班失败'
+        }
+      });
+    }
+  }
+);
+
+/**
+ * 删除排班
+ * DELETE /api/v1/schedules/:id
+ * 权限：SCHEDULE_MANAGE
+ */
+router.delete(
+  '/:id',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.SCHEDULE_MANAGE),
+  async (req: Request, res: Response) => {
+    try {
+      await scheduleService.deleteSchedule(req.params.id);
+
+      logger.info(`排班删除成功 - 用户: ${req.user?.username}, 排班ID: ${req.params.id}`);
+
+      return res.json({
+        success: true,
+        message: '排班已删除'
+      });
+    } catch (error) {
+      logger.error('删除排班失败:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'SCHEDULE004',
+          message: error instanceof Error ? error.message : '删除排班失败'
+        }
+      });
+    }
+  }
+);
+
+export default router;
@@ -9,18 +9,54 @@
  * - GET /api/v1/statistics/appointments - 获取挂号统计
  * - GET /api/v1/statistics/prescriptions - 获取处方统计
  * - GET /api/v1/statistics/medical-records - 获取病历统计
+ *
+ * 除Dashboard外均支持Query参数：
+ * - timeRange: TODAY | WEEK | MONTH | QUARTER | YEAR | CUSTOM（默认MONTH）
+ * - startDate / endDate: 自定义起止日期 YYYY-MM-DD（CUSTOM时必填）
+ * - granularity: 趋势粒度 day | week | month（默认按时间跨度选择）
+ * - departmentId / doctorId: 按科室、医生筛选
+ *
+ * 所有端点支持导出（需REPORT_EXPORT权限）：
+ * - format: csv | xlsx，或通过Accept头指定
  */
 
 import { Router, Request, Response } from 'express';
-import { StatisticsService, StatisticsTimeRange, CustomTimeRangeRequest } from '../services/statistics.service';
+import { StatisticsService, StatisticsTimeRange, StatisticsQuery } from '../services/statistics.service';
 import { authMiddleware } from '../middleware/auth.middleware';
+import { exportMiddleware, sendExport } from '../middleware/export.middleware';
 import { Permission } from '../auth/types';
 import { prisma } from '../utils/prisma';
 import { logger } from '../utils/logger';
+import { statisticsToSheets } from '../utils/statistics-tables';
+import { StatisticsQuerySchema } from '../validation/schemas';
+import { ZodError } from 'zod';
 
 const router = Router();
 const statisticsService = new StatisticsService(prisma);
 
+/**
+ * 解析统计查询参数
+ */
+function parseStatisticsQuery(query: Request['query']): StatisticsQuery {
+  const { timeRange, startDate, endDate, ...filters } = StatisticsQuerySchema.parse(query);
+  return {
+    ...filters,
+    timeRange: timeRange as StatisticsTimeRange,
+    customRange: timeRange === 'CUSTOM' ? { startDate: startDate!, endDate: endDate! } : undefined
+  };
+}
+
+/**
+ * 查询参数验证失败响应
+ */
+function validationError(res: Response, error: ZodError) {
+  return res.status(400).json({
+    success: false,
+    message: '输入验证失败',
+    details: error.errors
+  });
+}
+
 /**
  * 获取Dashboard综合统计数据
  * GET /api/v1/statistics/dashboard
@@ -30,10 +66,15 @@ router.get(
   '/dashboard',
   authMiddleware.authenticate(),
   authMiddleware.requirePermission(Permission.STATISTICS_VIEW),
+  exportMiddleware.negotiate(),
   async (req: Request, res: Response) => {
     try {
       const data = await statisticsService.getDashboardStatistics();
 
+      if (req.exportFormat) {
+        return sendExport(res, req.exportFormat, '综合统计', statisticsToSheets(data));
+      }
+
       logger.info(`获取Dashboard统计成功 - 用户: ${req.user?.username}`);
 
       return res.json({
@@ -53,46 +94,35 @@ router.get(
 /**
  * 获取患者统计数据
  * GET /api/v1/statistics/patients
- * Query参数：
- * - timeRange: TODAY | WEEK | MONTH | QUARTER | YEAR | CUSTOM
- * - startDate: 自定义开始日期（CUSTOM时必填）
- * - endDate: 自定义结束日期（CUSTOM时必填）
+ * Query参数：timeRange、startDate、endDate、granularity、departmentId、doctorId
  * 权限：STATISTICS_VIEW
  */
 router.get(
   '/patients',
   authMiddleware.authenticate(),
   authMiddleware.requirePermission(Permission.STATISTICS_VIEW),
+  exportMiddleware.negotiate(),
   async (req: Request, res: Response) => {
     try {
-      const { timeRange = 'MONTH', startDate, endDate } = req.query;
-
-      let customRange: CustomTimeRangeRequest | undefined;
-      if (timeRange === 'CUSTOM') {
-        if (!startDate || !endDate) {
-          return res.status(400).json({
-            success: false,
-            message: 'CUSTOM时间范围需要提供startDate和endDate'
-          });
-        }
-        customRange = {
-          startDate: new Date(startDate as string),
-          endDate: new Date(endDate as string)
-        };
-      }
+      const query = parseStatisticsQuery(req.query);
+
+      const data = await statisticsService.getPatientStatistics(query);
 
-      const data = await statisticsService.getPatientStatistics(
-        timeRange as StatisticsTimeRange,
-        customRange
-      );
+      if (req.exportFormat) {
+        return sendExport(res, req.exportFormat, '患者统计', statisticsToSheets(data));
+      }
 
-      logger.info(`获取患者统计成功 - 用户: ${req.user?.username}, 时间范围: ${timeRange}`);
+      logger.info(`获取患者统计成功 - 用户: ${req.user?.username}, 时间范围: ${query.timeRange}`);
 
       return res.json({
         success: true,
         data
       });
     } catch (error) {
+      if (error instanceof ZodError) {
+        return validationError(res, error);
+      }
+
       logger.error('获取患者统计失败:', error);
       return res.status(500).json({
         success: false,
@@ -105,15 +135,23 @@ router.get(
 /**
  * 获取医生统计数据
  * GET /api/v1/statistics/doctors
+ * Query参数：timeRange、startDate、endDate、granularity、departmentId、doctorId
  * 权限：STATISTICS_VIEW
  */
 router.get(
   '/doctors',
   authMiddleware.authenticate(),
   authMiddleware.requirePermission(Permission.STATISTICS_VIEW),
+  exportMiddleware.negotiate(),
   async (req: Request, res: Response) => {
     try {
-      const data = await statisticsService.getDoctorStatistics();
+      const query = parseStatisticsQuery(req.query);
+
+      const data = await statisticsService.getDoctorStatistics(query);
+
+      if (req.exportFormat) {
+        return sendExport(res, req.exportFormat, '医生统计', statisticsToSheets(data));
+      }
 
       logger.info(`获取医生统计成功 - 用户: ${req.user?.username}`);
 
@@ -122,6 +160,10 @@ router.get(
         data
       });
     } catch (error) {
+      if (error instanceof ZodError) {
+        return validationError(res, error);
+      }
+
       logger.error('获取医生统计失败:', error);
       return res.status(500).json({
         success: false,
@@ -134,15 +176,23 @@ router.get(
 /**
  * 获取科室统计数据
  * GET /api/v1/statistics/departments
+ * Query参数：timeRange、startDate、endDate、granularity、departmentId、doctorId
  * 权限：STATISTICS_VIEW
  */
 router.get(
   '/departments',
   authMiddleware.authenticate(),
   authMiddleware.requirePermission(Permission.STATISTICS_VIEW),
+  exportMiddleware.negotiate(),
   async (req: Request, res: Response) => {
     try {
-      const data = await statisticsService.getDepartmentStatistics();
+      const query = parseStatisticsQuery(req.query);
+
+      const data = await statisticsService.getDepartmentStatistics(query);
+
+      if (req.exportFormat) {
+        return sendExport(res, req.exportFormat, '科室统计', statisticsToSheets(data));
+      }
 
       logger.info(`获取科室统计成功 - 用户: ${req.user?.username}`);
 
@@ -151,6 +201,10 @@ router.get(
         data
       });
     } catch (error) {
+      if (error instanceof ZodError) {
+        return validationError(res, error);
+      }
+
       logger.error('获取科室统计失败:', error);
       return res.status(500).json({
         success: false,
@@ -163,46 +217,35 @@ router.get(
 /**
  * 获取挂号统计数据
  * GET /api/v1/statistics/appointments
- * Query参数：
- * - timeRange: TODAY | WEEK | MONTH | QUARTER | YEAR | CUSTOM
- * - startDate: 自定义开始日期（CUSTOM时必填）
- * - endDate: 自定义结束日期（CUSTOM时必填）
+ * Query参数：timeRange、startDate、endDate、granularity、departmentId、doctorId
  * 权限：STATISTICS_VIEW
  */
 router.get(
   '/appointments',
   authMiddleware.authenticate(),
   authMiddleware.requirePermission(Permission.STATISTICS_VIEW),
+  exportMiddleware.negotiate(),
   async (req: Request, res: Response) => {
     try {
-      const { timeRange = 'MONTH', startDate, endDate } = req.query;
-
-      let customRange: CustomTimeRangeRequest | undefined;
-      if (timeRange === 'CUSTOM') {
-        if (!startDate || !endDate) {
-          return res.status(400).json({
-            success: false,
-            message: 'CUSTOM时间范围需要提供startDate和endDate'
-          });
-        }
-        customRange = {
-          startDate: new Date(startDate as string),
-          endDate: new Date(endDate as string)
-        };
-      }
+      const query = parseStatisticsQuery(req.query);
+
+      const data = await statisticsService.getAppointmentStatistics(query);
 
-      const data = await statisticsService.getAppointmentStatistics(
-        timeRange as StatisticsTimeRange,
-        customRange
-      );
+      if (req.exportFormat) {
+        return sendExport(res, req.exportFormat, '挂号统计', statisticsToSheets(data));
+      }
 
-      logger.info(`获取挂号统计成功 - 用户: ${req.user?.username}, 时间范围: ${timeRange}`);
+      logger.info(`获取挂号统计成功 - 用户: ${req.user?.username}, 时间范围: ${query.timeRange}`);
 
       return res.json({
         success: true,
         data
       });
     } catch (error) {
+      if (error instanceof ZodError) {
+        return validationError(res, error);
+      }
+
       logger.error('获取挂号统计失败:', error);
       return res.status(500).json({
         success: false,
@@ -215,46 +258,35 @@ router.get(
 /**
  * 获取处方统计数据
  * GET /api/v1/statistics/prescriptions
- * Query参数：
- * - timeRange: TODAY | WEEK | MONTH | QUARTER | YEAR | CUSTOM
- * - startDate: 自定义开始日期（CUSTOM时必填）
- * - endDate: 自定义结束日期（CUSTOM时必填）
+ * Query参数：timeRange、startDate、endDate、granularity、departmentId、doctorId
  * 权限：STATISTICS_VIEW
  */
 router.get(
   '/prescriptions',
   authMiddleware.authenticate(),
   authMiddleware.requirePermission(Permission.STATISTICS_VIEW),
+  exportMiddleware.negotiate(),
   async (req: Request, res: Response) => {
     try {
-      const { timeRange = 'MONTH', startDate, endDate } = req.query;
-
-      let customRange: CustomTimeRangeRequest | undefined;
-      if (timeRange === 'CUSTOM') {
-        if (!startDate || !endDate) {
-          return res.status(400).json({
-            success: false,
-            message: 'CUSTOM时间范围需要提供startDate和endDate'
-          });
-        }
-        customRange = {
-          startDate: new Date(startDate as string),
-          endDate: new Date(endDate as string)
-        };
-      }
+      const query = parseStatisticsQuery(req.query);
+
+      const data = await statisticsService.getPrescriptionStatistics(query);
 
-      const data = await statisticsService.getPrescriptionStatistics(
-        timeRange as StatisticsTimeRange,
-        customRange
-      );
+      if (req.exportFormat) {
+        return sendExport(res, req.exportFormat, '处方统计', statisticsToSheets(data));
+      }
 
-      logger.info(`获取处方统计成功 - 用户: ${req.user?.username}, 时间范围: ${timeRange}`);
+      logger.info(`获取处方统计成功 - 用户: ${req.user?.username}, 时间范围: ${query.timeRange}`);
 
       return res.json({
         success: true,
         data
       });
     } catch (error) {
+      if (error instanceof ZodError) {
+        return validationError(res, error);
+      }
+
       logger.error('获取处方统计失败:', error);
       return res.status(500).json({
         success: false,
@@ -267,46 +299,35 @@ router.get(
 /**
  * 获取病历统计数据
  * GET /api/v1/statistics/medical-records
- * Query参数：
- * - timeRange: TODAY | WEEK | MONTH | QUARTER | YEAR | CUSTOM
- * - startDate: 自定义开始日期（CUSTOM时必填）
- * - endDate: 自定义结束日期（CUSTOM时必填）
+ * Query参数：timeRange、startDate、endDate、granularity、departmentId、doctorId
  * 权限：STATISTICS_VIEW
  */
 router.get(
   '/medical-records',
   authMiddleware.authenticate(),
   authMiddleware.requirePermission(Permission.STATISTICS_VIEW),
+  exportMiddleware.negotiate(),
   async (req: Request, res: Response) => {
     try {
-      const { timeRange = 'MONTH', startDate, endDate } = req.query;
-
-      let customRange: CustomTimeRangeRequest | undefined;
-      if (timeRange === 'CUSTOM') {
-        if (!startDate || !endDate) {
-          return res.status(400).json({
-            success: false,
-            message: 'CUSTOM时间范围需要提供startDate和endDate'
-          });
-        }
-        customRange = {
-          startDate: new Date(startDate as string),
-          endDate: new Date(endDate as string)
-        };
-      }
+      const query = parseStatisticsQuery(req.query);
+
+      const data = await statisticsService.getMedicalRecordStatistics(query);
 
-      const data = await statisticsService.getMedicalRecordStatistics(
-        timeRange as StatisticsTimeRange,
-        customRange
-      );
+      if (req.exportFormat) {
+        return sendExport(res, req.exportFormat, '病历统计', statisticsToSheets(data));
+      }
 
-      logger.info(`获取病历统计成功 - 用户: ${req.user?.username}, 时间范围: ${timeRange}`);
+      logger.info(`获取病历统计成功 - 用户: ${req.user?.username}, 时间范围: ${query.timeRange}`);
 
       return res.json({
         success: true,
         data
       });
     } catch (error) {
+      if (error instanceof ZodError) {
+        return validationError(res, error);
+      }
+
       logger.error('获取病历统计失败:', error);
       return res.status(500).json({
         success: false,
@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import { AuthService } from '../auth/auth.service';
+import { LoginAttemptManager } from '../auth/login-attempt.manager';
 import { authMiddleware } from '../middleware/auth.middleware';
 import { Permission } from '../auth/types';
 import { UserRole, UserStatus } from '@prisma/client';
@@ -9,6 +10,7 @@ import { prisma } from '../utils/prisma';
 
 const router = Router();
 const authService = new AuthService(prisma);
+const loginAttemptManager = new LoginAttemptManager(prisma);
 
 // 创建用户请求验证
 const createUserSchema = z.object({
@@ -55,6 +57,7 @@ const updateUserSchema = z.object({
   email: z.string().email('邮箱格式不正确').optional(),
   phone: z.string().regex(/^1[3-9]\d{9}$/, '手机号格式不正确').optional(),
   status: z.nativeEnum(UserStatus).optional(),
+  unlock: z.boolean().optional(), // 解除登录锁定（仅管理员）
 
   // 医生信息更新
   doctor: z.object({
@@ -83,6 +86,13 @@ const querySchema = z.object({
   search: z.string().optional()
 });
 
+// 登录历史查询参数验证
+const loginHistoryQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  success: z.enum(['true', 'false']).transform((v) => v === 'true').optional()
+});
+
 /**
  * GET /api/v1/users
  * 获取用户列表（需要USER_VIEW权限）
@@ -146,6 +156,8 @@ router.get('/',
         phone: user.phone,
         role: user.role,
         status: user.status,
+        lockedUntil: user.lockedUntil,
+        isLocked: !!user.lockedUntil && user.lockedUntil > new Date(),
         doctor: user.doctor ? {
           id: user.doctor.id,
           doctorNo: user.doctor.doctorNo,
@@ -250,6 +262,8 @@ router.get('/:id',
           phone: user.phone,
           role: user.role,
           status: user.status,
+          lockedUntil: user.lockedUntil,
+          isLocked: !!user.lockedUntil && user.lockedUntil > new Date(),
           doctor: user.doctor ? {
             id: user.doctor.id,
             doctorNo: user.doctor.doctorNo,
@@ -288,6 +302,63 @@ router.get('/:id',
   }
 );
 
+/**
+ * GET /api/v1/users/:id/login-history
+ * 获取用户登录历史（需要USER_VIEW权限）
+ */
+router.get('/:id/login-history',
+  authMiddleware.authenticate(),
+  authMiddleware.requirePermission(Permission.USER_VIEW),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const query = loginHistoryQuerySchema.parse(req.query);
+
+      const user = await prisma.user.findFirst({
+        where: { id, deletedAt: null },
+        select: { id: true }
+      });
+
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'USER_NOT_FOUND',
+            message: '用户不存在'
+          }
+        });
+      }
+
+      const result = await loginAttemptManager.getLoginHistory(id, query);
+
+      return res.json({
+        success: true,
+        data: result
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: '请求参数验证失败',
+            details: error.errors
+          }
+        });
+      }
+
+      logger.error('获取登录历史错误:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'LOGIN_HISTORY_ERROR',
+          message: '获取登录历史失败'
+        }
+      });
+    }
+  }
+);
+
 /**
  * POST /api/v1/users
  * 创建用户（需要USER_CREATE权限）
@@ -365,6 +436,17 @@ router.put('/:id',
       // 验证请求数据
       const validatedData = updateUserSchema.parse(req.body);
 
+      // 解除登录锁定仅限管理员
+      if (validatedData.unlock && req.user.role !== UserRole.ADMIN) {
+        return res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: '只有管理员可以解锁账号'
+          }
+        });
+      }
+
       // 更新用户
       const result = await prisma.$transaction(async (tx) => {
         // 更新用户基本信息
@@ -374,6 +456,7 @@ router.put('/:id',
             email: validatedData.email,
             phone: validatedData.phone,
             status: validatedData.status,
+            ...(validatedData.unlock && { lockedUntil: null, lockoutCount: 0, unlockedAt: new Date() }),
             updatedAt: new Date(),
             updatedBy: req.user!.userId
           }
@@ -409,6 +492,10 @@ router.put('/:id',
         });
       });
 
+      if (validatedData.unlock) {
+        logger.info(`账号已解锁 - 用户ID: ${id}, 操作人: ${req.user.username}`);
+      }
+
       return res.json({
         success: true,
         data: result
@@ -0,0 +1,370 @@
+/**
+ * AI问诊会话服务
+ *
+ * 功能：
+ * - 会话关联患者和挂号，对话轮次持久化到AIChat，可随时恢复继续问诊
+ * - 每轮对话带上历史上下文，超出上下文预算时将较早的轮次压缩为摘要
+ * - 摘要生成失败时直接裁剪较早的轮次，不影响本轮对话
+ * - 每次调用AI（含生成摘要）记录用量
+ *
+ * 会话仅创建者本人可见
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import { AIProviderManager } from '../ai/ai-provider-manager';
+import { Message, MessageRole, PhiHints } from '../ai/types';
+import { logger } from '../utils/logger';
+import { AIUsageService } from './ai-usage.service';
+
+const DEFAULT_TITLE = '新的问诊';
+const TITLE_LENGTH = 30;
+
+const GENDER_TEXT: Record<string, string> = { MALE: '男', FEMALE: '女', OTHER: '其他' };
+
+const sessionInclude = {
+  patient: {
+    select: { id: true, name: true, patientNo: true, gender: true, birthDate: true, allergies: true, medicalHistory: true }
+  },
+  appointment: { select: { id: true, appointmentNo: true, appointmentDate: true, symptoms: true } }
+} satisfies Prisma.AIChatSessionInclude;
+
+type SessionWithContext = Prisma.AIChatSessionGetPayload<{ include: typeof sessionInclude }>;
+
+export interface AIChatOptions {
+  contextTokens?: number; // 每次请求携带的上下文token预算
+  maxRecentTurns?: number; // 未压缩的轮次上限，超出时触发摘要
+  maxTokens?: number; // 单次回复的最大token
+}
+
+export interface CreateSessionInput {
+  patientId?: string;
+  appointmentId?: string;
+  title?: string;
+}
+
+export interface SessionQuery {
+  patientId?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+/**
+ * 一轮对话：医生提问和AI回复，对应一条AIChat记录
+ */
+interface ChatTurn {
+  id: string;
+  messages: Message[];
+  createdAt: Date;
+}
+
+/**
+ * 会话关联患者的姓名，发往院外Provider前去标识化
+ */
+function phiHints(session: SessionWithContext): PhiHints | undefined {
+  return session.patient ? { names: [session.patient.name] } : undefined;
+}
+
+/**
+ * 估算文本token数：中日韩字符按1个计，其余按4个字符1个计
+ */
+export function estimateTokens(text: string): number {
+  const cjk = text.match(/[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g)?.length ?? 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+function countTokens(messages: Message[]): number {
+  return messages.reduce((sum, message) => sum + estimateTokens(message.content) + 4, 0);
+}
+
+function turnMessages(turns: ChatTurn[]): Message[] {
+  return turns.flatMap((turn) => turn.messages);
+}
+
+function ageOf(birthDate: Date, now = new Date()): number {
+  let age = now.getFullYear() - birthDate.getFullYear();
+  const birthday = new Date(now.getFullYear(), birthDate.getMonth(), birthDate.getDate());
+  if (now < birthday) age--;
+  return age;
+}
+
+/**
+ * AI问诊会话服务类
+ */
+export class AIChatService {
+  private prisma: PrismaClient;
+  private aiManager: AIProviderManager;
+  private contextTokens: number;
+  private maxRecentTurns: number;
+  private maxTokens: number;
+  private usageService: AIUsageService;
+
+  constructor(prisma: PrismaClient, aiManager: AIProviderManager, options: AIChatOptions = {}) {
+    this.prisma = prisma;
+    this.aiManager = aiManager;
+    this.contextTokens = options.contextTokens ?? parseInt(process.env.AI_CHAT_CONTEXT_TOKENS || '6000');
+    this.maxRecentTurns = options.maxRecentTurns ?? 10;
+    this.maxTokens = options.maxTokens ?? 2000;
+    this.usageService = new AIUsageService(prisma);
+  }
+
+  /**
+   * 创建会话，指定挂号时患者取挂号对应的患者
+   */
+  async createSession(userId: string, input: CreateSessionInput = {}) {
+    let patientId = input.patientId;
+
+    if (input.appointmentId) {
+      const appointment = await this.prisma.appointment.findUnique({ where: { id: input.appointmentId } });
+      if (!appointment) {
+        throw new Error('挂号不存在');
+      }
+      if (patientId && appointment.patientId !== patientId) {
+        throw new Error('挂号不属于该患者');
+      }
+      patientId = appointment.patientId;
+    }
+
+    if (patientId) {
+      const patient = await this.prisma.patient.findFirst({ where: { id: patientId, deletedAt: null } });
+      if (!patient) {
+        throw new Error('患者不存在');
+      }
+    }
+
+    const session = await this.prisma.aIChatSession.create({
+      data: {
+        userId,
+        patientId,
+        appointmentId: input.appointmentId,
+        title: input.title?.trim() || DEFAULT_TITLE
+      },
+      include: sessionInclude
+    });
+
+    logger.info(`AI问诊会话创建成功: ${session.id}`);
+    return session;
+  }
+
+  /**
+   * 获取会话列表（按最近更新时间倒序）
+   */
+  async listSessions(userId: string, query: SessionQuery = {}) {
+    const { page = 1, pageSize = 20 } = query;
+    const where: Prisma.AIChatSessionWhereInput = { userId };
+    if (query.patientId) where.patientId = query.patientId;
+
+    const [total, sessions] = await Promise.all([
+      this.prisma.aIChatSession.count({ where }),
+      this.prisma.aIChatSession.findMany({
+        where,
+        include: { patient: { select: { id: true, name: true, patientNo: true } } },
+        orderBy: { updatedAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize
+      })
+    ]);
+
+    return { sessions, total, page, pageSize };
+  }
+
+  /**
+   * 获取会话详情和完整对话记录，用于恢复会话
+   */
+  async getSession(userId: string, id: string) {
+    const session = await this.findOwnSession(userId, id);
+    const turns = await this.loadTurns(id);
+
+    return {
+      ...session,
+      messages: turns.flatMap((turn) =>
+        turn.messages.map((message) => ({ role: message.role, content: message.content, createdAt: turn.createdAt }))
+      )
+    };
+  }
+
+  /**
+   * 删除会话（对话记录级联删除）
+   */
+  async deleteSession(userId: string, id: string) {
+    await this.findOwnSession(userId, id);
+    await this.prisma.aIChatSession.delete({ where: { id } });
+    logger.info(`AI问诊会话删除成功: ${id}`);
+  }
+
+  /**
+   * 发送消息：带上摘要和最近的对话轮次请求AI，保存本轮对话
+   */
+  async sendMessage(userId: string, id: string, content: string) {
+    const session = await this.findOwnSession(userId, id);
+    const turns = await this.loadTurns(id);
+    const question: Message = { role: MessageRole.USER, content };
+
+    const { summary, summarizedTurns, recent } = await this.fitContext(session, turns, question);
+    const messages: Message[] = [{ role: MessageRole.SYSTEM, content: this.buildSystemPrompt(session) }];
+    if (summary) {
+      messages.push({ role: MessageRole.SYSTEM, content: `此前对话摘要：\n${summary}` });
+    }
+    messages.push(...turnMessages(recent), question);
+
+    const startedAt = Date.now();
+    const response = await this.aiManager.chat({
+      messages,
+      maxTokens: this.maxTokens,
+      temperature: 0.7,
+      context: { userId, sessionId: id, phi: phiHints(session) }
+    });
+    this.usageService
+      .record({ userId, feature: 'chat', response })
+      .catch((error) => logger.warn(`记录AI用量失败: ${id}`, error));
+    const answer: Message = { role: MessageRole.ASSISTANT, content: response.message.content };
+
+    await this.prisma.aIChat.create({
+      data: {
+        sessionId: id,
+        userId,
+        provider: response.provider,
+        model: response.model,
+        messages: [question, answer] as unknown as Prisma.InputJsonValue,
+        tokensUsed: response.usage?.totalTokens,
+        responseTime: Date.now() - startedAt
+      }
+    });
+
+    const updated = await this.prisma.aIChatSession.update({
+      where: { id },
+      data: {
+        summary,
+        summarizedTurns,
+        turnCount: turns.length + 1,
+        lastMessageAt: new Date(),
+        // 未指定标题时以第一个问题作为标题
+        ...(turns.length === 0 && session.title === DEFAULT_TITLE && { title: content.trim().slice(0, TITLE_LENGTH) })
+      },
+      include: sessionInclude
+    });
+
+    return { message: answer, usage: response.usage, session: updated };
+  }
+
+  private async findOwnSession(userId: string, id: string): Promise<SessionWithContext> {
+    const session = await this.prisma.aIChatSession.findFirst({ where: { id, userId }, include: sessionInclude });
+    if (!session) {
+      throw new Error('会话不存在');
+    }
+    return session;
+  }
+
+  private async loadTurns(sessionId: string): Promise<ChatTurn[]> {
+    const chats = await this.prisma.aIChat.findMany({ where: { sessionId }, orderBy: { createdAt: 'asc' } });
+    return chats.map((chat) => ({
+      id: chat.id,
+      messages: chat.messages as unknown as Message[],
+      createdAt: chat.createdAt
+    }));
+  }
+
+  /**
+   * 选择本次请求携带的上下文
+   *
+   * 未压缩的轮次超出数量上限或token预算时，只保留最近约一半预算的轮次，
+   * 其余并入摘要；摘要失败时这些轮次直接不再携带
+   */
+  private async fitContext(session: SessionWithContext, turns: ChatTurn[], question: Message) {
+    let summary = session.summary;
+    let summarizedTurns = Math.min(session.summarizedTurns, turns.length);
+    const pending = turns.slice(summarizedTurns);
+
+    const fixedTokens =
+      countTokens([{ role: MessageRole.SYSTEM, content: this.buildSystemPrompt(session) }, question]) +
+      (summary ? estimateTokens(summary) : 0);
+    const pendingTokens = countTokens(turnMessages(pending));
+
+    if (pending.length <= this.maxRecentTurns && fixedTokens + pendingTokens <= this.contextTokens) {
+      return { summary, summarizedTurns, recent: pending };
+    }
+
+    // 从最近的轮次往前保留
+    const keepBudget = Math.max(this.contextTokens / 2 - fixedTokens, 0);
+    const keepLimit = Math.floor(this.maxRecentTurns / 2);
+    let keep = 0;
+    let keptTokens = 0;
+    while (keep < pending.length && keep < keepLimit) {
+      const tokens = countTokens(pending[pending.length - 1 - keep].messages);
+      if (keptTokens + tokens > keepBudget) break;
+      keptTokens += tokens;
+      keep++;
+    }
+
+    const folded = pending.slice(0, pending.length - keep);
+    if (folded.length === 0) {
+      return { summary, summarizedTurns, recent: pending };
+    }
+
+    try {
+      summary = await this.summarize(session, summary, folded);
+    } catch (error) {
+      logger.warn(`AI问诊会话摘要生成失败，裁剪较早的对话: ${session.id}`, error);
+    }
+    summarizedTurns += folded.length;
+
+    return { summary, summarizedTurns, recent: pending.slice(pending.length - keep) };
+  }
+
+  /**
+   * 将已有摘要和较早的对话轮次合并为新的摘要
+   */
+  private async summarize(session: SessionWithContext, previous: string | null, turns: ChatTurn[]): Promise<string> {
+    const transcript = turnMessages(turns)
+      .map((message) => `${message.role === MessageRole.USER ? '医生' : 'AI助手'}：${message.content}`)
+      .join('\n');
+
+    const response = await this.aiManager.chat({
+      messages: [
+        {
+          role: MessageRole.SYSTEM,
+          content:
+            '你负责整理医疗问诊对话的摘要。请保留症状、病史、检查结果、诊断思路和已给出的建议等关键信息，' +
+            '用简洁的中文条目输出，不超过500字。'
+        },
+        {
+          role: MessageRole.USER,
+          content: `${previous ? `已有摘要：\n${previous}\n\n` : ''}新增对话：\n${transcript}\n\n请输出合并后的摘要。`
+        }
+      ],
+      maxTokens: 800,
+      temperature: 0.3,
+      context: { userId: session.userId, sessionId: session.id, phi: phiHints(session) }
+    });
+    this.usageService
+      .record({ userId: session.userId, feature: 'chat-summary', response })
+      .catch((error) => logger.warn(`记录AI用量失败: ${session.id}`, error));
+
+    const summary = response.message.content.trim();
+    if (!summary) {
+      throw new Error('摘要内容为空');
+    }
+    return summary;
+  }
+
+  /**
+   * 根据关联的患者和挂号生成系统提示
+   */
+  private buildSystemPrompt(session: SessionWithContext): string {
+    const lines = ['你是一位专业的医疗AI助手，负责协助医生进行问诊。回答需基于对话上下文，必要时提示就医风险。'];
+
+    const { patient, appointment } = session;
+    if (patient) {
+      lines.push(
+        `当前患者：${patient.name}，${GENDER_TEXT[patient.gender] ?? patient.gender}，${ageOf(patient.birthDate)}岁`
+      );
+      if (patient.allergies) lines.push(`过敏史：${patient.allergies}`);
+      if (patient.medicalHistory) lines.push(`既往病史：${patient.medicalHistory}`);
+    }
+    if (appointment) {
+      lines.push(`本次挂号：${appointment.appointmentNo}（${appointment.appointmentDate.toISOString().slice(0, 10)}）`);
+      if (appointment.symptoms) lines.push(`挂号时描述的症状：${appointment.symptoms}`);
+    }
+
+    return lines.join('\n');
+  }
+}
@@ -0,0 +1,401 @@
+/**
+ * AI用量与配额服务
+ *
+ * 功能：
+ * - 每次AI调用记录tokens和估算费用，归属到用户、科室、服务商、模型和功能
+ * - 按用户和科室配置每日/每月tokens配额，超出软限制时提醒，超出硬限制时拒绝调用
+ * - 按科室、用户、服务商、模型或功能汇总用量，用于费用分摊
+ *
+ * 单独为某个用户或科室配置的配额优先于该范围的默认配额
+ *
+ * 用量在AI调用完成后才记录。放行调用前先按预估tokens预留配额，同一进程内后检查的调用计入先前调用的预留，
+ * 超出硬限制的部分不超过最后放行的一次调用的用量加上各调用实际用量超过预估的差值；
+ * 预留只在本进程内可见，多实例部署时每个实例各自按上述范围超出
+ */
+
+import { PrismaClient, Prisma, AIQuota, AIQuotaScope, AIQuotaPeriod } from '@prisma/client';
+import { ChatResponse, EmbeddingResponse } from '../ai/types';
+import { estimateCost } from '../ai/pricing';
+
+export interface UsageEntry {
+  userId?: string;
+  departmentId?: string | null; // 未提供时按用户所在科室
+  feature: string;
+  response: Pick<ChatResponse | EmbeddingResponse, 'provider' | 'model' | 'usage'>;
+}
+
+/**
+ * 单项配额的使用情况
+ */
+export interface QuotaCheck {
+  quotaId: string;
+  scope: AIQuotaScope;
+  period: AIQuotaPeriod;
+  targetId: string; // 用户ID或科室ID
+  used: number;
+  softLimit: number | null;
+  hardLimit: number | null;
+}
+
+export interface QuotaStatus {
+  allowed: boolean;
+  exceeded?: QuotaCheck; // 超出硬限制的配额
+  warnings: QuotaCheck[]; // 超出软限制（未超出硬限制）的配额
+  checks: QuotaCheck[];
+}
+
+/**
+ * 配额预留：调用结束（或被拒绝）后释放
+ */
+export interface QuotaReservation {
+  status: QuotaStatus;
+  release: () => void;
+}
+
+export type UsageGroupBy = 'department' | 'user' | 'provider' | 'model' | 'feature';
+
+const GROUP_FIELDS = {
+  department: 'departmentId',
+  user: 'userId',
+  provider: 'provider',
+  model: 'model',
+  feature: 'feature'
+} as const;
+
+export interface UsageSummaryQuery {
+  startDate: Date;
+  endDate: Date; // 包含当天
+  groupBy: UsageGroupBy;
+}
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number; // 元
+}
+
+export interface UsageGroup extends UsageTotals {
+  key: string | null;
+  label: string;
+}
+
+export interface SetQuotaInput {
+  scope: AIQuotaScope;
+  targetId?: string | null; // 为空表示默认配额
+  period: AIQuotaPeriod;
+  softLimit?: number | null;
+  hardLimit?: number | null;
+}
+
+/**
+ * 配额周期的开始时间（本地时间）
+ */
+export function periodStart(period: AIQuotaPeriod, now: Date = new Date()): Date {
+  return period === AIQuotaPeriod.DAILY
+    ? new Date(now.getFullYear(), now.getMonth(), now.getDate())
+    : new Date(now.getFullYear(), now.getMonth(), 1);
+}
+
+/**
+ * 同一范围和周期只取一项配额，单独配置优先于默认配额
+ */
+function effectiveQuotas(quotas: AIQuota[]): AIQuota[] {
+  const selected = new Map<string, AIQuota>();
+  for (const quota of quotas) {
+    const key = `${quota.scope}:${quota.period}`;
+    const current = selected.get(key);
+    if (!current || (current.targetId === null && quota.targetId !== null)) {
+      selected.set(key, quota);
+    }
+  }
+  return [...selected.values()];
+}
+
+export class AIUsageService {
+  private prisma: PrismaClient;
+  // 已放行但尚未完成的调用预留，按预留顺序编号，keys 为 scope:targetId
+  private reservations = new Map<number, { keys: string[]; tokens: number }>();
+  private nextReservationId = 1;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * 记录一次AI调用的用量
+   */
+  async record(entry: UsageEntry): Promise<void> {
+    const { provider, model, usage } = entry.response;
+    const tokens = usage ?? { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    const departmentId =
+      entry.departmentId !== undefined
+        ? entry.departmentId
+        : entry.userId
+          ? await this.departmentOf(entry.userId)
+          : null;
+
+    await this.prisma.aIUsageRecord.create({
+      data: {
+        userId: entry.userId,
+        departmentId,
+        provider,
+        model,
+        feature: entry.feature,
+        promptTokens: tokens.promptTokens,
+        completionTokens: tokens.completionTokens,
+        totalTokens: tokens.totalTokens,
+        cost: Math.round(estimateCost(provider, model, tokens) * 1000000) / 1000000
+      }
+    });
+  }
+
+  /**
+   * 检查用户本人及其所在科室的配额
+   */
+  async checkQuota(userId: string, now: Date = new Date()): Promise<QuotaStatus> {
+    return this.evaluateQuota(userId, await this.departmentOf(userId), now);
+  }
+
+  /**
+   * 为一次AI调用预留预估用量并检查配额
+   * 先预留再检查，每次调用计入在它之前预留的调用；超出硬限制时立即释放
+   */
+  async reserveQuota(userId: string, estimatedTokens: number, now: Date = new Date()): Promise<QuotaReservation> {
+    const departmentId = await this.departmentOf(userId);
+    const keys = [reservationKey(AIQuotaScope.USER, userId)];
+    if (departmentId) {
+      keys.push(reservationKey(AIQuotaScope.DEPARTMENT, departmentId));
+    }
+    const id = this.nextReservationId++;
+    this.reservations.set(id, { keys, tokens: estimatedTokens });
+    const release = () => {
+      this.reservations.delete(id);
+    };
+
+    try {
+      const status = await this.evaluateQuota(userId, departmentId, now, id);
+      if (!status.allowed) {
+        release();
+      }
+      return { status, release };
+    } catch (error) {
+      release();
+      throw error;
+    }
+  }
+
+  /**
+   * 已用量包含进行中调用的预留；指定预留编号时只计入在它之前的预留
+   */
+  private async evaluateQuota(
+    userId: string,
+    departmentId: string | null,
+    now: Date,
+    reservationId?: number
+  ): Promise<QuotaStatus> {
+    const targets: Prisma.AIQuotaWhereInput[] = [
+      { scope: AIQuotaScope.USER, targetId: userId },
+      { scope: AIQuotaScope.USER, targetId: null }
+    ];
+    if (departmentId) {
+      targets.push(
+        { scope: AIQuotaScope.DEPARTMENT, targetId: departmentId },
+        { scope: AIQuotaScope.DEPARTMENT, targetId: null }
+      );
+    }
+
+    const quotas = effectiveQuotas(await this.prisma.aIQuota.findMany({ where: { OR: targets } }));
+    const checks: QuotaCheck[] = [];
+    for (const quota of quotas) {
+      const targetId = quota.scope === AIQuotaScope.USER ? userId : departmentId!;
+      checks.push({
+        quotaId: quota.id,
+        scope: quota.scope,
+        period: quota.period,
+        targetId,
+        used:
+          (await this.usedTokens(quota.scope, targetId, periodStart(quota.period, now))) +
+          this.reservedTokens(reservationKey(quota.scope, targetId), reservationId),
+        softLimit: quota.softLimit,
+        hardLimit: quota.hardLimit
+      });
+    }
+
+    const exceeded = checks.find((check) => check.hardLimit !== null && check.used >= check.hardLimit);
+    const warnings = checks.filter(
+      (check) => check !== exceeded && check.softLimit !== null && check.used >= check.softLimit
+    );
+
+    return { allowed: !exceeded, exceeded, warnings, checks };
+  }
+
+  /**
+   * 按维度汇总用量，按费用从高到低排序
+   */
+  async getSummary(query: UsageSummaryQuery): Promise<{ totals: UsageTotals; groups: UsageGroup[] }> {
+    const endExclusive = new Date(query.endDate);
+    endExclusive.setDate(endExclusive.getDate() + 1);
+    const where: Prisma.AIUsageRecordWhereInput = { createdAt: { gte: query.startDate, lt: endExclusive } };
+    const field = GROUP_FIELDS[query.groupBy];
+    const sum = { promptTokens: true, completionTokens: true, totalTokens: true, cost: true } as const;
+
+    const [aggregate, groups] = await Promise.all([
+      this.prisma.aIUsageRecord.aggregate({ where, _count: { _all: true }, _sum: sum }),
+      this.prisma.aIUsageRecord.groupBy({ by: [field], where, _count: { _all: true }, _sum: sum })
+    ]);
+
+    const keys = groups.map((group) => group[field]);
+    const labels = await this.labelsOf(query.groupBy, keys.filter((key): key is string => key !== null));
+
+    return {
+      totals: toTotals(aggregate._count._all, aggregate._sum),
+      groups: groups
+        .map((group) => ({
+          key: group[field],
+          label: labelOf(query.groupBy, group[field], labels),
+          ...toTotals(group._count._all, group._sum)
+        }))
+        .sort((a, b) => b.cost - a.cost || b.totalTokens - a.totalTokens)
+    };
+  }
+
+  /**
+   * 获取全部配额（附用户或科室名称）
+   */
+  async listQuotas() {
+    const quotas = await this.prisma.aIQuota.findMany({
+      orderBy: [{ scope: 'asc' }, { targetId: 'asc' }, { period: 'asc' }]
+    });
+
+    const userLabels = await this.labelsOf('user', targetIds(quotas, AIQuotaScope.USER));
+    const departmentLabels = await this.labelsOf('department', targetIds(quotas, AIQuotaScope.DEPARTMENT));
+
+    return quotas.map((quota) => ({
+      ...quota,
+      targetName:
+        quota.targetId === null
+          ? null
+          : (quota.scope === AIQuotaScope.USER ? userLabels : departmentLabels).get(quota.targetId) ?? quota.targetId
+    }));
+  }
+
+  /**
+   * 设置配额：同一对象和周期已有配额时覆盖
+   */
+  async setQuota(input: SetQuotaInput, operatorId?: string): Promise<AIQuota> {
+    const targetId = input.targetId ?? null;
+    if (targetId) {
+      const exists =
+        input.scope === AIQuotaScope.USER
+          ? await this.prisma.user.findFirst({ where: { id: targetId, deletedAt: null }, select: { id: true } })
+          : await this.prisma.department.findUnique({ where: { id: targetId }, select: { id: true } });
+      if (!exists) {
+        throw new Error(input.scope === AIQuotaScope.USER ? '用户不存在' : '科室不存在');
+      }
+    }
+
+    const data = {
+      softLimit: input.softLimit ?? null,
+      hardLimit: input.hardLimit ?? null,
+      updatedBy: operatorId
+    };
+    const existing = await this.prisma.aIQuota.findFirst({
+      where: { scope: input.scope, targetId, period: input.period }
+    });
+
+    return existing
+      ? this.prisma.aIQuota.update({ where: { id: existing.id }, data })
+      : this.prisma.aIQuota.create({ data: { scope: input.scope, targetId, period: input.period, ...data } });
+  }
+
+  /**
+   * 删除配额
+   */
+  async deleteQuota(id: string): Promise<void> {
+    const quota = await this.prisma.aIQuota.findUnique({ where: { id } });
+    if (!quota) {
+      throw new Error('配额不存在');
+    }
+    await this.prisma.aIQuota.delete({ where: { id } });
+  }
+
+  private async usedTokens(scope: AIQuotaScope, targetId: string, since: Date): Promise<number> {
+    const result = await this.prisma.aIUsageRecord.aggregate({
+      where: {
+        ...(scope === AIQuotaScope.USER ? { userId: targetId } : { departmentId: targetId }),
+        createdAt: { gte: since }
+      },
+      _sum: { totalTokens: true }
+    });
+    return result._sum.totalTokens ?? 0;
+  }
+
+  private reservedTokens(key: string, beforeId?: number): number {
+    let tokens = 0;
+    for (const [id, reservation] of this.reservations) {
+      if (beforeId !== undefined && id >= beforeId) break;
+      if (reservation.keys.includes(key)) tokens += reservation.tokens;
+    }
+    return tokens;
+  }
+
+  private async departmentOf(userId: string): Promise<string | null> {
+    const doctor = await this.prisma.doctor.findUnique({ where: { userId }, select: { departmentId: true } });
+    return doctor?.departmentId ?? null;
+  }
+
+  /**
+   * 科室和用户的显示名称，医生显示姓名，其余用户显示用户名
+   */
+  private async labelsOf(groupBy: UsageGroupBy, ids: string[]): Promise<Map<string, string>> {
+    if (ids.length === 0 || (groupBy !== 'department' && groupBy !== 'user')) {
+      return new Map();
+    }
+
+    if (groupBy === 'department') {
+      const departments = await this.prisma.department.findMany({
+        where: { id: { in: ids } },
+        select: { id: true, name: true }
+      });
+      return new Map(departments.map((department) => [department.id, department.name]));
+    }
+
+    const users = await this.prisma.user.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, username: true, doctor: { select: { name: true } } }
+    });
+    return new Map(users.map((user) => [user.id, user.doctor?.name ?? user.username]));
+  }
+}
+
+function reservationKey(scope: AIQuotaScope, targetId: string): string {
+  return `${scope}:${targetId}`;
+}
+
+function toTotals(
+  requests: number,
+  sum: { promptTokens: number | null; completionTokens: number | null; totalTokens: number | null; cost: Prisma.Decimal | null }
+): UsageTotals {
+  return {
+    requests,
+    promptTokens: sum.promptTokens ?? 0,
+    completionTokens: sum.completionTokens ?? 0,
+    totalTokens: sum.totalTokens ?? 0,
+    cost: Math.round((sum.cost?.toNumber() ?? 0) * 100) / 100
+  };
+}
+
+function labelOf(groupBy: UsageGroupBy, key: string | null, labels: Map<string, string>): string {
+  if (key === null) {
+    return groupBy === 'department' ? '未归属科室' : '未知用户';
+  }
+  return labels.get(key) ?? key;
+}
+
+function targetIds(quotas: AIQuota[], scope: AIQuotaScope): string[] {
+  return quotas
+    .filter((quota) => quota.scope === scope && quota.targetId !== null)
+    .map((quota) => quota.targetId!);
+}
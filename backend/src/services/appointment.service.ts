@@ -6,11 +6,18 @@
  * - 挂号号码自动生成
  * - 挂号历史查询
  * - 挂号状态管理
+ * - 按医生排班控制号源
  * - 挂号统计
+ * - 就诊日过后未到诊的挂号记为爽约
+ * - 挂号成功、取消挂号时向患者发送消息
  */
 
-import { PrismaClient, Appointment, AppointmentStatus, TimeSlot, Priority } from '@prisma/client';
+import { PrismaClient, Prisma, Appointment, AppointmentStatus, MessageEvent, QueueStatus, TimeSlot, Priority } from '@prisma/client';
 import { logger } from '../utils/logger';
+import { toDbDate } from '../utils/time-range';
+import { nextDailyValue, withTransactionRetry } from '../utils/daily-counter';
+import { ScheduleService, SlotCapacity, CAPACITY_STATUSES } from './schedule.service';
+import { MessagingService } from './messaging.service';
 
 export interface CreateAppointmentInput {
   patientId: string;
@@ -42,66 +49,100 @@ export interface AppointmentSearchParams {
   sortOrder?: 'asc' | 'desc';
 }
 
+/**
+ * 挂号记录（含患者、医生、科室）
+ */
+export type AppointmentWithRelations = Prisma.AppointmentGetPayload<{
+  include: { patient: true; doctor: true; department: true };
+}>;
+
+/**
+ * 时间段可用性（号源情况）
+ */
+export interface SlotAvailability {
+  available: boolean;
+  scheduled: boolean;
+  maxPatients: number;
+  booked: number;
+  remaining: number;
+  startTime?: string;
+  endTime?: string;
+}
+
 /**
  * 挂号管理服务类
  */
 export class AppointmentService {
   private prisma: PrismaClient;
+  private scheduleService: ScheduleService;
+  private messagingService: MessagingService;
 
   constructor(prisma: PrismaClient) {
     this.prisma = prisma;
+    this.scheduleService = new ScheduleService(prisma);
+    this.messagingService = new MessagingService(prisma);
+  }
+
+  /**
+   * 向患者发送挂号消息（不等待发送完成，失败不影响挂号操作）
+   */
+  private sendPatientMessage(event: MessageEvent, appointmentId: string): void {
+    this.messagingService.notifyAppointment(event, appointmentId).catch((error) => {
+      logger.error(`发送患者消息失败 - 事件: ${event}, 挂号ID: ${appointmentId}:`, error);
+    });
   }
 
   /**
    * 生成挂号号码
-   * 格式：科室代码 + 日期(YYYYMMDD) + 4位序号
+   * 格式：科室代码 + 日期(YYYYMMDD) + 5位序号
    * 例如：NEI2025100100001（内科 2025年10月1日 第1号）
+   * 序号按科室代码和日期由数据库计数器分配，必须在挂号事务内调用
    */
-  private async generateAppointmentNo(departmentId: string, appointmentDate: Date): Promise<string> {
-    try {
-      // 获取科室信息
-      const department = await this.prisma.department.findUnique({
-        where: { id: departmentId }
-      });
-
-      if (!department) {
-        throw new Error('科室不存在');
-      }
-
-      // 获取科室代码（使用departmentNo字段）
-      const deptCode = department.departmentNo.substring(0, 3).toUpperCase();
-
-      // 格式化日期
-      const dateStr = appointmentDate.toISOString().slice(0, 10).replace(/-/g, '');
-
-      // 查询当天该科室的最后一个挂号号码
-      const lastAppointment = await this.prisma.appointment.findFirst({
-        where: {
-          departmentId,
-          appointmentDate: {
-            gte: new Date(appointmentDate.getFullYear(), appointmentDate.getMonth(), appointmentDate.getDate()),
-            lt: new Date(appointmentDate.getFullYear(), appointmentDate.getMonth(), appointmentDate.getDate() + 1)
-          }
-        },
+  private async generateAppointmentNo(
+    tx: Prisma.TransactionClient,
+    departmentNo: string,
+    appointmentDate: Date
+  ): Promise<string> {
+    // 获取科室代码（使用departmentNo字段）
+    const deptCode = departmentNo.substring(0, 3).toUpperCase();
+    const prefix = `${deptCode}${appointmentDate.toISOString().slice(0, 10).replace(/-/g, '')}`;
+
+    const sequence = await nextDailyValue(tx, `appointment-no:${deptCode}`, appointmentDate, async () => {
+      // 计数器首次使用时从已有最大序号继续
+      const lastAppointment = await tx.appointment.findFirst({
+        where: { appointmentNo: { startsWith: prefix } },
         orderBy: { appointmentNo: 'desc' }
       });
+      return lastAppointment ? parseInt(lastAppointment.appointmentNo.slice(-5)) || 0 : 0;
+    });
 
-      let sequence = 1;
-      if (lastAppointment && lastAppointment.appointmentNo) {
-        // 提取序号并加1
-        const lastSequence = parseInt(lastAppointment.appointmentNo.slice(-5));
-        sequence = lastSequence + 1;
-      }
+    return `${prefix}${sequence.toString().padStart(5, '0')}`;
+  }
 
-      return `${deptCode}${dateStr}${sequence.toString().padStart(5, '0')}`;
-    } catch (error) {
-      logger.error('生成挂号号码失败:', error);
-      throw new Error('生成挂号号码失败');
-    }
+  /**
+   * 生成排队号码
+   * 格式：科室当天（就诊日期）的顺序号，必须在挂号事务内调用
+   */
+  private async generateQueueNumber(
+    tx: Prisma.TransactionClient,
+    departmentId: string,
+    appointmentDate: Date
+  ): Promise<number> {
+    return nextDailyValue(tx, `queue:${departmentId}`, appointmentDate, async () => {
+      const result = await tx.appointment.aggregate({
+        where: { departmentId, appointmentDate },
+        _max: { queueNumber: true }
+      });
+      return result._max.queueNumber || 0;
+    });
   }
 
   /**
    * 创建挂号
+   *
+   * 号源检查、号码分配和写入在同一事务内完成：
+   * 先递增该医生时间段的号源计数行获得行锁，同一时间段的并发挂号在此串行化，
+   * 之后统计的已预约数量即为最新值；号码冲突或死锁时整体重试
    */
   async createAppointment(input: CreateAppointmentInput): Promise<Appointment> {
     try {
@@ -129,82 +170,74 @@ export class AppointmentService {
         throw new Error('科室不存在');
       }
 
-      // 检查时间段是否已被占用
-      const existingAppointment = await this.prisma.appointment.findFirst({
-        where: {
-          doctorId: input.doctorId,
-          appointmentDate: input.appointmentDate,
-          timeSlot: input.timeSlot,
-          status: {
-            in: [AppointmentStatus.PENDING, AppointmentStatus.CONFIRMED]
-          }
+      const appointment = await withTransactionRetry(() => this.prisma.$transaction(async (tx) => {
+        // 锁定号源（须为事务内第一条语句，之后的读取才能看到已提交的挂号）
+        await nextDailyValue(tx, `slot:${input.doctorId}:${input.timeSlot}`, input.appointmentDate);
+
+        // 检查医生排班和剩余号源（急诊可超出号源加号，但医生必须出诊）
+        const capacity = await this.scheduleService.getSlotCapacity(
+          input.doctorId,
+          input.appointmentDate,
+          input.timeSlot,
+          tx
+        );
+        if (!capacity) {
+          throw new Error('医生该日该时间段未出诊');
+        }
+        if (!capacity.available && input.priority !== Priority.EMERGENCY) {
+          throw new Error('该时间段号源已满');
         }
-      });
 
-      if (existingAppointment) {
-        throw new Error('该时间段已被预约');
-      }
+        // 同一患者不能重复预约同一医生的同一时间段
+        const duplicateAppointment = await tx.appointment.findFirst({
+          where: {
+            patientId: input.patientId,
+            doctorId: input.doctorId,
+            appointmentDate: input.appointmentDate,
+            timeSlot: input.timeSlot,
+            status: { in: CAPACITY_STATUSES }
+          }
+        });
 
-      // 生成挂号号码和排队号
-      const appointmentNo = await this.generateAppointmentNo(input.departmentId, input.appointmentDate);
-      const queueNumber = await this.generateQueueNumber(input.departmentId);
-
-      // 创建挂号记录
-      const appointment = await this.prisma.appointment.create({
-        data: {
-          appointmentNo,
-          patientId: input.patientId,
-          doctorId: input.doctorId,
-          departmentId: input.departmentId,
-          appointmentDate: input.appointmentDate,
-          timeSlot: input.timeSlot,
-          queueNumber,
-          symptoms: input.symptoms,
-          priority: input.priority || Priority.NORMAL,
-          status: input.priority === Priority.EMERGENCY ? AppointmentStatus.CONFIRMED : AppointmentStatus.PENDING
-        },
-        include: {
-          patient: true,
-          doctor: {
-            include: {
-              user: true
-            }
-          },
-          department: true
+        if (duplicateAppointment) {
+          throw new Error('患者已预约该时间段');
         }
-      });
-
-      logger.info(`挂号创建成功: ${appointmentNo} - 患者: ${patient.name}, 医生ID: ${input.doctorId}`);
-      return appointment;
-    } catch (error) {
-      logger.error('创建挂号失败:', error);
-      throw error;
-    }
-  }
 
-  /**
-   * 生成排队号码
-   * 格式：当天的顺序号
-   */
-  private async generateQueueNumber(departmentId: string): Promise<number> {
-    try {
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const tomorrow = new Date(today);
-      tomorrow.setDate(tomorrow.getDate() + 1);
-
-      const lastAppointment = await this.prisma.appointment.findFirst({
-        where: {
-          departmentId,
-          appointmentDate: {
-            gte: today,
-            lt: tomorrow
+        // 生成挂号号码和排队号
+        const appointmentNo = await this.generateAppointmentNo(tx, department.departmentNo, input.appointmentDate);
+        const queueNumber = await this.generateQueueNumber(tx, input.departmentId, input.appointmentDate);
+
+        // 创建挂号记录
+        return tx.appointment.create({
+          data: {
+            appointmentNo,
+            patientId: input.patientId,
+            doctorId: input.doctorId,
+            departmentId: input.departmentId,
+            appointmentDate: input.appointmentDate,
+            timeSlot: input.timeSlot,
+            queueNumber,
+            symptoms: input.symptoms,
+            priority: input.priority || Priority.NORMAL,
+            status: input.priority === Priority.EMERGENCY ? AppointmentStatus.CONFIRMED : AppointmentStatus.PENDING
+          },
+          include: {
+            patient: true,
+            doctor: {
+              include: {
+                user: true
+              }
+            },
+            department: true
           }
-        },
-        orderBy: { queueNumber: 'desc' }
-      });
+        });
+      }, {
+        isolationLevel: Prisma.TransactionIsolationLevel.ReadCommitted
+      }));
 
-      return lastAppointment ? lastAppointment.queueNumber + 1 : 1;
+      logger.info(`挂号创建成功: ${appointment.appointmentNo} - 患者: ${patient.name}, 医生ID: ${input.doctorId}`);
+      this.sendPatientMessage(MessageEvent.APPOINTMENT_CREATED, appointment.id);
+      return appointment;
     } catch (error) {
       logger.error('创建挂号失败:', error);
       throw error;
@@ -316,6 +349,7 @@ export class AppointmentService {
       });
 
       logger.info(`挂号取消成功: ${appointment.appointmentNo}`);
+      this.sendPatientMessage(MessageEvent.APPOINTMENT_CANCELLED, appointment.id);
       return updatedAppointment;
     } catch (error) {
       logger.error('取消挂号失败:', error);
@@ -323,6 +357,92 @@ export class AppointmentService {
     }
   }
 
+  /**
+   * 爽约处理 - 就诊日已过仍未就诊的挂号记为爽约
+   * 包括未签到的挂号，以及签到后仍在候诊、已叫号或过号未回队的挂号（排队记录同步记为爽约）
+   * @returns 记为爽约的挂号数
+   */
+  async markNoShows(now: Date = new Date()): Promise<number> {
+    try {
+      const today = toDbDate(now);
+
+      const count = await this.prisma.$transaction(async (tx) => {
+        const queues = await tx.queue.findMany({
+          where: {
+            status: { in: [QueueStatus.WAITING, QueueStatus.CALLED, QueueStatus.SKIPPED] },
+            appointment: { appointmentDate: { lt: today } }
+          },
+          select: { id: true, appointmentId: true }
+        });
+
+        if (queues.length > 0) {
+          await tx.queue.updateMany({
+            where: { id: { in: queues.map((queue) => queue.id) } },
+            data: { status: QueueStatus.NO_SHOW }
+          });
+        }
+
+        const result = await tx.appointment.updateMany({
+          where: {
+            appointmentDate: { lt: today },
+            OR: [
+              { status: { in: [AppointmentStatus.PENDING, AppointmentStatus.CONFIRMED] } },
+              { id: { in: queues.map((queue) => queue.appointmentId) }, status: AppointmentStatus.CHECKED_IN }
+            ]
+          },
+          data: { status: AppointmentStatus.NO_SHOW }
+        });
+        return result.count;
+      });
+
+      if (count > 0) {
+        logger.info(`爽约处理完成 - 记为爽约: ${count}`);
+      }
+      return count;
+    } catch (error) {
+      logger.error('爽约处理失败:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 构建挂号搜索条件
+   */
+  private buildSearchWhere(params: AppointmentSearchParams): Prisma.AppointmentWhereInput {
+    const { patientId, doctorId, departmentId, status, dateFrom, dateTo, priority } = params;
+
+    const where: Prisma.AppointmentWhereInput = {};
+
+    if (patientId) {
+      where.patientId = patientId;
+    }
+
+    if (doctorId) {
+      where.doctorId = doctorId;
+    }
+
+    if (departmentId) {
+      where.departmentId = departmentId;
+    }
+
+    if (status) {
+      where.status = status;
+    }
+
+    if (dateFrom || dateTo) {
+      where.appointmentDate = {
+        ...(dateFrom ? { gte: dateFrom } : {}),
+        ...(dateTo ? { lte: dateTo } : {})
+      };
+    }
+
+    if (priority !== undefined) {
+      where.priority = priority;
+    }
+
+    return where;
+  }
+
   /**
    * 搜索和筛选挂号记录
    */
@@ -335,13 +455,6 @@ export class AppointmentService {
   }> {
     try {
       const {
-        patientId,
-        doctorId,
-        departmentId,
-        status,
-        dateFrom,
-        dateTo,
-        priority,
         page = 1,
         limit = 20,
         sortBy = 'appointmentDate',
@@ -349,37 +462,7 @@ export class AppointmentService {
       } = params;
 
       // 构建查询条件
-      const where: any = {};
-
-      if (patientId) {
-        where.patientId = patientId;
-      }
-
-      if (doctorId) {
-        where.doctorId = doctorId;
-      }
-
-      if (departmentId) {
-        where.departmentId = departmentId;
-      }
-
-      if (status) {
-        where.status = status;
-      }
-
-      if (dateFrom || dateTo) {
-        where.appointmentDate = {};
-        if (dateFrom) {
-          where.appointmentDate.gte = dateFrom;
-        }
-        if (dateTo) {
-          where.appointmentDate.lte = dateTo;
-        }
-      }
-
-      if (priority !== undefined) {
-        where.priority = priority;
-      }
+      const where = this.buildSearchWhere(params);
 
       // 查询总数
       const total = await this.prisma.appointment.count({ where });
@@ -412,6 +495,38 @@ export class AppointmentService {
     }
   }
 
+  /**
+   * 分批遍历全部搜索结果（忽略分页参数，用于导出）
+   * @param batchSize 每批查询的挂号数
+   */
+  async *iterateSearchResults(
+    params: AppointmentSearchParams,
+    batchSize: number = 500
+  ): AsyncGenerator<AppointmentWithRelations[]> {
+    const { sortBy = 'appointmentDate', sortOrder = 'desc' } = params;
+    const where = this.buildSearchWhere(params);
+    let cursor: string | undefined;
+
+    while (true) {
+      const batch = await this.prisma.appointment.findMany({
+        where,
+        include: {
+          patient: true,
+          doctor: true,
+          department: true
+        },
+        orderBy: [{ [sortBy]: sortOrder }, { id: 'asc' }],
+        take: batchSize,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+      });
+      if (batch.length === 0) return;
+
+      yield batch;
+      if (batch.length < batchSize) return;
+      cursor = batch[batch.length - 1].id;
+    }
+  }
+
   /**
    * 获取患者挂号历史
    */
@@ -642,26 +757,41 @@ export class AppointmentService {
   }
 
   /**
-   * 检查医生时间段可用性
+   * 获取医生某日的可预约时间段（仅返回医生出诊的时间段）
+   */
+  async getAvailableSlots(doctorId: string, appointmentDate: Date): Promise<SlotCapacity[]> {
+    try {
+      return await this.scheduleService.getDaySlots(doctorId, appointmentDate);
+    } catch (error) {
+      logger.error('获取可预约时间段失败:', error);
+      throw new Error('获取可预约时间段失败');
+    }
+  }
+
+  /**
+   * 检查医生时间段可用性，返回剩余号源
    */
   async checkTimeSlotAvailability(
     doctorId: string,
     appointmentDate: Date,
     timeSlot: TimeSlot
-  ): Promise<boolean> {
+  ): Promise<SlotAvailability> {
     try {
-      const existingAppointment = await this.prisma.appointment.findFirst({
-        where: {
-          doctorId,
-          appointmentDate,
-          timeSlot,
-          status: {
-            in: [AppointmentStatus.PENDING, AppointmentStatus.CONFIRMED]
-          }
-        }
-      });
+      const capacity = await this.scheduleService.getSlotCapacity(doctorId, appointmentDate, timeSlot);
 
-      return !existingAppointment;
+      if (!capacity) {
+        return { available: false, scheduled: false, maxPatients: 0, booked: 0, remaining: 0 };
+      }
+
+      return {
+        available: capacity.available,
+        scheduled: true,
+        maxPatients: capacity.maxPatients,
+        booked: capacity.booked,
+        remaining: capacity.remaining,
+        startTime: capacity.startTime,
+        endTime: capacity.endTime
+      };
     } catch (error) {
       logger.error('检查时间段可用性失败:', error);
       throw new Error('检查时间段可用性失败');
@@ -0,0 +1,222 @@
+/**
+ * 审计日志服务
+ * 记录用户对患者、病历、处方、用户等敏感资源的访问和修改，并提供查询
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import { logger } from '../utils/logger';
+
+/**
+ * 纳入审计的资源类型
+ */
+export type AuditResource = 'patient' | 'medicalRecord' | 'prescription' | 'user';
+
+export type AuditStatus = 'SUCCESS' | 'FAILURE';
+
+/**
+ * 字段级变更
+ */
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEntry {
+  userId: string;
+  action: string;
+  resource: AuditResource;
+  resourceId?: string | null;
+  method: string;
+  ip: string;
+  userAgent?: string;
+  status: AuditStatus;
+  errorMsg?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AuditLogQuery {
+  userId?: string;
+  username?: string;
+  resource?: AuditResource;
+  resourceId?: string;
+  action?: string;
+  status?: AuditStatus;
+  startDate?: Date;
+  endDate?: Date;
+  page?: number;
+  pageSize?: number;
+}
+
+// 不写入审计日志的字段
+const IGNORED_FIELDS = new Set(['updatedAt', 'createdAt', 'idCardHash', 'phoneHash']);
+// 密码及患者加密字段只记录是否变更
+const REDACTED_FIELDS = new Set(['passwordHash', 'idCard', 'phone', 'emergencyContact', 'emergencyPhone']);
+const MAX_VALUE_LENGTH = 500;
+
+/**
+ * 规范化字段值，便于比较和存储
+ */
+function normalizeValue(field: string, value: unknown): unknown {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (REDACTED_FIELDS.has(field)) {
+    return '[已脱敏]';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'object') {
+    // Decimal等对象统一转为字符串
+    return 'toJSON' in value && typeof value.toJSON === 'function' ? value.toJSON() : JSON.stringify(value);
+  }
+  if (typeof value === 'string' && value.length > MAX_VALUE_LENGTH) {
+    return `${value.substring(0, MAX_VALUE_LENGTH)}...`;
+  }
+  return value;
+}
+
+/**
+ * 比较资源修改前后的快照，返回字段级差异
+ * 只比较标量字段，关联对象和数组忽略
+ */
+export function diffFields(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+
+    const rawBefore = before?.[field];
+    const rawAfter = after?.[field];
+    if (Array.isArray(rawBefore) || Array.isArray(rawAfter)) continue;
+
+    const beforeValue = normalizeValue(field, rawBefore);
+    const afterValue = normalizeValue(field, rawAfter);
+
+    if (REDACTED_FIELDS.has(field)) {
+      // 敏感字段只记录是否变更，不记录值
+      if (JSON.stringify(rawBefore ?? null) !== JSON.stringify(rawAfter ?? null)) {
+        changes.push({ field, before: beforeValue, after: afterValue });
+      }
+      continue;
+    }
+
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes.push({ field, before: beforeValue, after: afterValue });
+    }
+  }
+
+  return changes;
+}
+
+export class AuditService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * 读取资源当前快照（用于计算修改差异）
+   */
+  async loadSnapshot(resource: AuditResource, id: string): Promise<Record<string, unknown> | null> {
+    switch (resource) {
+      case 'patient':
+        return this.prisma.patient.findUnique({ where: { id } });
+      case 'medicalRecord':
+        return this.prisma.medicalRecord.findUnique({ where: { id } });
+      case 'prescription':
+        return this.prisma.prescription.findUnique({ where: { id } });
+      case 'user':
+        return this.prisma.user.findUnique({ where: { id } });
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * 写入审计日志
+   * 审计写入失败不影响业务请求，只记录错误
+   */
+  async record(entry: AuditEntry): Promise<void> {
+    try {
+      await this.prisma.auditLog.create({
+        data: {
+          userId: entry.userId,
+          action: entry.action.substring(0, 100),
+          resource: entry.resource,
+          resourceId: entry.resourceId || null,
+          method: entry.method,
+          ip: entry.ip.substring(0, 45),
+          userAgent: entry.userAgent,
+          status: entry.status,
+          errorMsg: entry.errorMsg,
+          metadata: entry.metadata as Prisma.InputJsonValue | undefined
+        }
+      });
+    } catch (error) {
+      logger.error('写入审计日志失败:', error);
+    }
+  }
+
+  /**
+   * 查询审计日志（分页、筛选）
+   */
+  async getLogs(query: AuditLogQuery = {}) {
+    const { page = 1, pageSize = 20 } = query;
+    const where: Prisma.AuditLogWhereInput = {};
+
+    if (query.userId) where.userId = query.userId;
+    if (query.username) where.user = { username: { contains: query.username } };
+    if (query.resource) where.resource = query.resource;
+    if (query.resourceId) where.resourceId = query.resourceId;
+    if (query.action) where.action = { contains: query.action };
+    if (query.status) where.status = query.status;
+
+    if (query.startDate || query.endDate) {
+      where.createdAt = {};
+      if (query.startDate) where.createdAt.gte = query.startDate;
+      if (query.endDate) where.createdAt.lte = query.endDate;
+    }
+
+    const [total, logs] = await Promise.all([
+      this.prisma.auditLog.count({ where }),
+      this.prisma.auditLog.findMany({
+        where,
+        include: {
+          user: {
+            select: {
+              id: true,
+              username: true,
+              role: true
+            }
+          }
+        },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        orderBy: { createdAt: 'desc' }
+      })
+    ]);
+
+    return { logs, total, page, pageSize };
+  }
+
+  /**
+   * 获取单条审计日志
+   */
+  async getLogById(id: string) {
+    return this.prisma.auditLog.findUnique({
+      where: { id },
+      include: {
+        user: {
+          select: {
+            id: true,
+            username: true,
+            role: true
+          }
+        }
+      }
+    });
+  }
+}
@@ -0,0 +1,724 @@
+/**
+ * 药房库存流水服务
+ *
+ * 功能:
+ * - 采购入库（新批次，含效期和库位）
+ * - 手工调整（必须填写原因）
+ * - 库位间调拨
+ * - 退货给供应商
+ * - 定期盘点与差异处理
+ * - 库存流水查询与账实核对
+ * - 效期巡检，过期和近效期批次通知库存管理人员
+ * - 出库后低库存提醒
+ *
+ * 所有库存变动都通过 applyMovement 写入不可修改的流水记录，
+ * MedicineStock.quantity 始终等于该批次全部流水数量之和
+ */
+
+import {
+  PrismaClient,
+  Prisma,
+  MedicineStock,
+  InventoryTransaction,
+  InventoryTransactionType,
+  NotificationType
+} from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { logger } from '../utils/logger';
+import { Permission } from '../auth/types';
+import { NotificationService } from './notification.service';
+import { withTransactionRetry } from '../utils/daily-counter';
+
+/**
+ * 入库未指定库位时使用的主库位
+ */
+export const DEFAULT_STOCK_LOCATION = 'MAIN';
+
+export interface InventoryMovement {
+  stockId: string;
+  quantity: number;          // 变动数量（入库为正，出库为负）
+  type: InventoryTransactionType;
+  reason?: string;
+  referenceType?: string;    // 关联单据类型: PRESCRIPTION / TRANSFER / STOCKTAKE
+  referenceId?: string;
+  operatorId?: string;
+}
+
+export interface ReceiveStockDTO {
+  medicineId: string;
+  batchNo: string;
+  expiryDate: Date;
+  quantity: number;
+  location?: string;
+  minStock?: number;
+  maxStock?: number;
+  reason?: string;
+}
+
+export interface AdjustStockDTO {
+  stockId: string;
+  quantity: number;
+  reason: string;
+}
+
+export interface TransferStockDTO {
+  stockId: string;
+  toLocation: string;
+  quantity: number;
+  reason?: string;
+}
+
+export interface SupplierReturnDTO {
+  stockId: string;
+  quantity: number;
+  reason: string;
+}
+
+export interface StocktakeDTO {
+  items: Array<{ stockId: string; countedQuantity: number }>;
+  reason?: string;
+}
+
+export interface InventoryStockQuery {
+  medicineId?: string;
+  location?: string;
+  keyword?: string;
+  includeEmpty?: boolean;
+}
+
+export interface ExpiryScanResult {
+  expiredCount: number;
+  expiringCount: number;
+  notifiedCount: number;
+}
+
+export interface InventoryLedgerQuery {
+  medicineId?: string;
+  stockId?: string;
+  type?: InventoryTransactionType;
+  startDate?: Date;
+  endDate?: Date;
+  page?: number;
+  pageSize?: number;
+}
+
+/**
+ * 库存流水服务类
+ */
+export class InventoryService {
+  private notificationService: NotificationService;
+
+  constructor(private prisma: PrismaClient) {
+    this.notificationService = new NotificationService(prisma);
+  }
+
+  /**
+   * 执行一次库存变动并记录流水
+   * 需在调用方的事务内执行，出库时数量不足会抛出错误
+   */
+  async applyMovement(
+    tx: Prisma.TransactionClient,
+    movement: InventoryMovement
+  ): Promise<InventoryTransaction> {
+    const { stockId, quantity, type } = movement;
+
+    if (!Number.isInteger(quantity) || quantity === 0) {
+      throw new Error('库存变动数量必须为非零整数');
+    }
+
+    const stock = await tx.medicineStock.findUnique({
+      where: { id: stockId }
+    });
+
+    if (!stock) {
+      throw new Error('库存批次不存在');
+    }
+
+    // 出库带数量条件，防止并发扣减导致库存为负
+    const result = await tx.medicineStock.updateMany({
+      where: quantity < 0
+        ? { id: stockId, quantity: { gte: -quantity } }
+        : { id: stockId },
+      data: {
+        quantity: { increment: quantity }
+      }
+    });
+
+    if (result.count === 0) {
+      throw new Error(`库存不足: 批次 ${stock.batchNo} 需要${-quantity}, 当前库存不足`);
+    }
+
+    const updated = await tx.medicineStock.findUniqueOrThrow({
+      where: { id: stockId }
+    });
+
+    return tx.inventoryTransaction.create({
+      data: {
+        type,
+        medicineId: stock.medicineId,
+        stockId,
+        batchNo: stock.batchNo,
+        location: stock.location,
+        quantity,
+        balanceAfter: updated.quantity,
+        reason: movement.reason,
+        referenceType: movement.referenceType,
+        referenceId: movement.referenceId,
+        operatorId: movement.operatorId
+      }
+    });
+  }
+
+  /**
+   * 采购入库
+   * 同一药品、批号、库位已存在时累加到原批次；并发入库同一新批次时后到者唯一约束冲突后重试
+   */
+  async receiveStock(data: ReceiveStockDTO, operatorId?: string): Promise<MedicineStock> {
+    try {
+      const stock = await withTransactionRetry(() => this.prisma.$transaction(async (tx) => {
+        const medicine = await tx.medicine.findUnique({
+          where: { id: data.medicineId }
+        });
+
+        if (!medicine) {
+          throw new Error('药品不存在');
+        }
+
+        const location = data.location || DEFAULT_STOCK_LOCATION;
+        const target = await tx.medicineStock.upsert({
+          where: {
+            medicineId_batchNo_location: {
+              medicineId: data.medicineId,
+              batchNo: data.batchNo,
+              location
+            }
+          },
+          create: {
+            medicineId: data.medicineId,
+            batchNo: data.batchNo,
+            expiryDate: data.expiryDate,
+            location,
+            quantity: 0,
+            minStock: data.minStock ?? 0,
+            maxStock: data.maxStock ?? 0
+          },
+          update: {}
+        });
+
+        if (toDateString(target.expiryDate) !== toDateString(data.expiryDate)) {
+          throw new Error(`批次 ${data.batchNo} 已存在且效期不一致`);
+        }
+
+        await this.applyMovement(tx, {
+          stockId: target.id,
+          quantity: data.quantity,
+          type: InventoryTransactionType.RECEIPT,
+          reason: data.reason,
+          operatorId
+        });
+
+        return tx.medicineStock.findUniqueOrThrow({ where: { id: target.id } });
+      }));
+
+      logger.info(`药品入库成功: 批次 ${stock.batchNo}, 数量 ${data.quantity}`);
+      return stock;
+    } catch (error) {
+      logger.error('药品入库失败:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 手工调整库存（报损、破损、纠错等）
+   */
+  async adjustStock(data: AdjustStockDTO, operatorId?: string): Promise<InventoryTransaction> {
+    try {
+      const entry = await this.prisma.$transaction(tx =>
+        this.applyMovement(tx, {
+          stockId: data.stockId,
+          quantity: data.quantity,
+          type: InventoryTransactionType.ADJUSTMENT,
+          reason: data.reason,
+          operatorId
+        })
+      );
+
+      logger.info(`库存调整成功: 批次 ${entry.batchNo}, 变动 ${entry.quantity}, 原因: ${data.reason}`);
+      if (entry.quantity < 0) {
+        await this.checkLowStock(new Map([[entry.medicineId, -entry.quantity]]));
+      }
+      return entry;
+    } catch (error) {
+      logger.error('库存调整失败:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 库位间调拨
+   * 调出和调入两条流水共用同一个调拨单号
+   */
+  async transferStock(data: TransferStockDTO, operatorId?: string): Promise<{
+    transferId: string;
+    from: InventoryTransaction;
+    to: InventoryTransaction;
+  }> {
+    try {
+      if (data.quantity <= 0) {
+        throw new Error('调拨数量必须大于0');
+      }
+
+      const result = await withTransactionRetry(() => this.prisma.$transaction(async (tx) => {
+        const source = await tx.medicineStock.findUnique({
+          where: { id: data.stockId }
+        });
+
+        if (!source) {
+          throw new Error('库存批次不存在');
+        }
+
+        if (source.location === data.toLocation) {
+          throw new Error('调入库位不能与调出库位相同');
+        }
+
+        const target = await tx.medicineStock.upsert({
+          where: {
+            medicineId_batchNo_location: {
+              medicineId: source.medicineId,
+              batchNo: source.batchNo,
+              location: data.toLocation
+            }
+          },
+          create: {
+            medicineId: source.medicineId,
+            batchNo: source.batchNo,
+            expiryDate: source.expiryDate,
+            location: data.toLocation,
+            quantity: 0,
+            minStock: source.minStock,
+            maxStock: source.maxStock
+          },
+          update: {}
+        });
+
+        const transferId = randomUUID();
+        const movement = {
+          reason: data.reason,
+          referenceType: 'TRANSFER',
+          referenceId: transferId,
+          operatorId
+        };
+
+        const from = await this.applyMovement(tx, {
+          ...movement,
+          stockId: source.id,
+          quantity: -data.quantity,
+          type: InventoryTransactionType.TRANSFER_OUT
+        });
+
+        const to = await this.applyMovement(tx, {
+          ...movement,
+          stockId: target.id,
+          quantity: data.quantity,
+          type: InventoryTransactionType.TRANSFER_IN
+        });
+
+        return { transferId, from, to };
+      }));
+
+      logger.info(`库存调拨成功: 批次 ${result.from.batchNo}, ${result.from.location} → ${data.toLocation}, 数量 ${data.quantity}`);
+      return result;
+    } catch (error) {
+      logger.error('库存调拨失败:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 退货给供应商
+   */
+  async returnToSupplier(data: SupplierReturnDTO, operatorId?: string): Promise<InventoryTransaction> {
+    try {
+      if (data.quantity <= 0) {
+        throw new Error('退货数量必须大于0');
+      }
+
+      const entry = await this.prisma.$transaction(tx =>
+        this.applyMovement(tx, {
+          stockId: data.stockId,
+          quantity: -data.quantity,
+          type: InventoryTransactionType.SUPPLIER_RETURN,
+          reason: data.reason,
+          operatorId
+        })
+      );
+
+      logger.info(`供应商退货成功: 批次 ${entry.batchNo}, 数量 ${data.quantity}`);
+      await this.checkLowStock(new Map([[entry.medicineId, data.quantity]]));
+      return entry;
+    } catch (error) {
+      logger.error('供应商退货失败:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 盘点
+   * 按实盘数量与系统数量的差异生成盘点流水，同一次盘点共用盘点单号
+   */
+  async stocktake(data: StocktakeDTO, operatorId?: string): Promise<{
+    stocktakeId: string;
+    items: Array<{
+      stockId: string;
+      batchNo: string;
+      medicineName: string;
+      systemQuantity: number;
+      countedQuantity: number;
+      difference: number;
+    }>;
+    adjustedCount: number;
+  }> {
+    try {
+      const stocktakeId = randomUUID();
+
+      const items = await this.prisma.$transaction(async (tx) => {
+        const results = [];
+
+        for (const item of data.items) {
+          // 先锁定批次再读取系统数量，防止盘点期间并发出入库导致差异计算错误
+          await tx.medicineStock.updateMany({
+            where: { id: item.stockId },
+            data: { quantity: { increment: 0 } }
+          });
+
+          const stock = await tx.medicineStock.findUnique({
+            where: { id: item.stockId },
+            include: { medicine: true }
+          });
+
+          if (!stock) {
+            throw new Error(`库存批次不存在: ${item.stockId}`);
+          }
+
+          const difference = item.countedQuantity - stock.quantity;
+
+          if (difference !== 0) {
+            await this.applyMovement(tx, {
+              stockId: stock.id,
+              quantity: difference,
+              type: InventoryTransactionType.STOCKTAKE,
+              reason: data.reason,
+              referenceType: 'STOCKTAKE',
+              referenceId: stocktakeId,
+              operatorId
+            });
+          }
+
+          results.push({
+            stockId: stock.id,
+            batchNo: stock.batchNo,
+            medicineName: stock.medicine.name,
+            systemQuantity: stock.quantity,
+            countedQuantity: item.countedQuantity,
+            difference
+          });
+        }
+
+        return results;
+      });
+
+      const adjustedCount = items.filter(item => item.difference !== 0).length;
+      logger.info(`库存盘点完成: 盘点 ${items.length} 个批次, 差异 ${adjustedCount} 个`);
+
+      return { stocktakeId, items, adjustedCount };
+    } catch (error) {
+      logger.error('库存盘点失败:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 查询库存批次
+   */
+  async getStocks(query: InventoryStockQuery = {}) {
+    try {
+      const where: Prisma.MedicineStockWhereInput = {};
+
+      if (query.medicineId) {
+        where.medicineId = query.medicineId;
+      }
+
+      if (query.location) {
+        where.location = query.location;
+      }
+
+      if (query.keyword) {
+        where.OR = [
+          { batchNo: { contains: query.keyword } },
+          { medicine: { name: { contains: query.keyword } } }
+        ];
+      }
+
+      if (!query.includeEmpty) {
+        where.quantity = { gt: 0 };
+      }
+
+      return await this.prisma.medicineStock.findMany({
+        where,
+        include: {
+          medicine: {
+            select: {
+              id: true,
+              medicineNo: true,
+              name: true,
+              specification: true,
+              unit: true
+            }
+          }
+        },
+        orderBy: [{ expiryDate: 'asc' }, { batchNo: 'asc' }]
+      });
+    } catch (error) {
+      logger.error('获取库存批次失败:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 查询库存流水
+   */
+  async getLedger(query: InventoryLedgerQuery = {}) {
+    try {
+      const { page = 1, pageSize = 20 } = query;
+      const where: Prisma.InventoryTransactionWhereInput = {};
+
+      if (query.medicineId) where.medicineId = query.medicineId;
+      if (query.stockId) where.stockId = query.stockId;
+      if (query.type) where.type = query.type;
+
+      if (query.startDate || query.endDate) {
+        where.createdAt = {};
+        if (query.startDate) where.createdAt.gte = query.startDate;
+        if (query.endDate) where.createdAt.lte = query.endDate;
+      }
+
+      const [total, transactions] = await Promise.all([
+        this.prisma.inventoryTransaction.count({ where }),
+        this.prisma.inventoryTransaction.findMany({
+          where,
+          include: {
+            medicine: {
+              select: {
+                id: true,
+                name: true,
+                unit: true
+              }
+            }
+          },
+          skip: (page - 1) * pageSize,
+          take: pageSize,
+          orderBy: { createdAt: 'desc' }
+        })
+      ]);
+
+      return { transactions, total, page, pageSize };
+    } catch (error) {
+      logger.error('获取库存流水失败:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 账实核对
+   * 比较每个批次的当前库存与流水累计数量，返回不一致的批次
+   */
+  async reconcile() {
+    try {
+      const [stocks, sums] = await Promise.all([
+        this.prisma.medicineStock.findMany({
+          include: {
+            medicine: {
+              select: { name: true }
+            }
+          }
+        }),
+        this.prisma.inventoryTransaction.groupBy({
+          by: ['stockId'],
+          _sum: { quantity: true }
+        })
+      ]);
+
+      const ledgerMap = new Map(sums.map(sum => [sum.stockId, sum._sum.quantity || 0]));
+
+      const discrepancies = stocks
+        .map(stock => ({
+          stockId: stock.id,
+          medicineName: stock.medicine.name,
+          batchNo: stock.batchNo,
+          location: stock.location,
+          stockQuantity: stock.quantity,
+          ledgerQuantity: ledgerMap.get(stock.id) || 0
+        }))
+        .filter(item => item.stockQuantity !== item.ledgerQuantity);
+
+      return {
+        checkedCount: stocks.length,
+        discrepancies
+      };
+    } catch (error) {
+      logger.error('库存账实核对失败:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 效期巡检
+   * 查找有库存的过期批次和指定天数内到期的批次，通知有库存管理权限的用户
+   * @param warningDays 近效期天数
+   */
+  async scanExpiringStock(now: Date = new Date(), warningDays: number = 30): Promise<ExpiryScanResult> {
+    try {
+      const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+      const warningDate = new Date(today.getFullYear(), today.getMonth(), today.getDate() + warningDays);
+
+      const stocks = await this.prisma.medicineStock.findMany({
+        where: {
+          quantity: { gt: 0 },
+          expiryDate: { lte: warningDate }
+        },
+        include: {
+          medicine: {
+            select: { name: true, unit: true }
+          }
+        },
+        orderBy: [{ expiryDate: 'asc' }, { batchNo: 'asc' }]
+      });
+
+      const items = stocks.map(stock => ({
+        stockId: stock.id,
+        medicineName: stock.medicine.name,
+        batchNo: stock.batchNo,
+        location: stock.location,
+        quantity: stock.quantity,
+        unit: stock.medicine.unit,
+        expiryDate: toDateString(stock.expiryDate),
+        expired: stock.expiryDate < today
+      }));
+      const expiredCount = items.filter(item => item.expired).length;
+      const expiringCount = items.length - expiredCount;
+
+      if (items.length === 0) {
+        return { expiredCount, expiringCount, notifiedCount: 0 };
+      }
+
+      const notifications = await this.notificationService.notifyPermission(Permission.INVENTORY_MANAGE, {
+        title: '药品效期预警',
+        content: `共有${expiredCount}个批次已过期、${expiringCount}个批次将在${warningDays}天内到期，请及时处理。`,
+        type: NotificationType.SYSTEM_ALERT,
+        data: { warningDays, items }
+      });
+
+      logger.info(`效期巡检完成 - 已过期: ${expiredCount}, 近效期: ${expiringCount}, 通知: ${notifications.length}人`);
+      return { expiredCount, expiringCount, notifiedCount: notifications.length };
+    } catch (error) {
+      logger.error('效期巡检失败:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 低库存提醒
+   * 出库后药品的可用库存（未过期批次合计）降到下限及以下时通知库存管理人员，
+   * 只在本次出库使库存越过下限时通知，避免每次出库重复提醒；下限取该药品各批次最低库存设置的最大值
+   * 提醒失败只记录日志，不影响出库
+   * @param consumed 本次出库的药品ID及数量
+   * @returns 库存不足的药品ID
+   */
+  async checkLowStock(consumed: Map<string, number>): Promise<string[]> {
+    try {
+      if (consumed.size === 0) return [];
+
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      const stocks = await this.prisma.medicineStock.findMany({
+        where: { medicineId: { in: [...consumed.keys()] } },
+        include: {
+          medicine: {
+            select: { name: true, unit: true }
+          }
+        }
+      });
+
+      const items = [...consumed].flatMap(([medicineId, quantity]) => {
+        const batches = stocks.filter(stock => stock.medicineId === medicineId);
+        if (batches.length === 0) return [];
+
+        const minStock = Math.max(...batches.map(batch => batch.minStock));
+        const available = batches
+          .filter(batch => batch.expiryDate >= today)
+          .reduce((sum, batch) => sum + batch.quantity, 0);
+        if (available > minStock || available + quantity <= minStock) return [];
+
+        const { name, unit } = batches[0].medicine;
+        return [{ medicineId, medicineName: name, unit, available, minStock }];
+      });
+
+      if (items.length > 0) {
+        await this.notificationService.notifyPermission(Permission.INVENTORY_MANAGE, {
+          title: '药品库存不足',
+          content: `${items.map(item => `${item.medicineName}（剩余${item.available}${item.unit}）`).join('、')}已低于最低库存，请及时补货。`,
+          type: NotificationType.SYSTEM_ALERT,
+          data: { items }
+        });
+        logger.warn(`低库存提醒 - 药品: ${items.map(item => item.medicineName).join(', ')}`);
+      }
+      return items.map(item => item.medicineId);
+    } catch (error) {
+      logger.error('低库存检查失败:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 为尚无流水的历史批次补记期初结存
+   */
+  async createOpeningBalances(operatorId?: string): Promise<number> {
+    try {
+      const stocks = await this.prisma.medicineStock.findMany({
+        where: {
+          transactions: { none: {} },
+          quantity: { not: 0 }
+        }
+      });
+
+      if (stocks.length > 0) {
+        await this.prisma.inventoryTransaction.createMany({
+          data: stocks.map(stock => ({
+            type: InventoryTransactionType.OPENING,
+            medicineId: stock.medicineId,
+            stockId: stock.id,
+            batchNo: stock.batchNo,
+            location: stock.location,
+            quantity: stock.quantity,
+            balanceAfter: stock.quantity,
+            reason: '期初结存',
+            operatorId
+          }))
+        });
+      }
+
+      logger.info(`期初结存补记完成: ${stocks.length} 个批次`);
+      return stocks.length;
+    } catch (error) {
+      logger.error('期初结存补记失败:', error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * 效期按日期存储，比较时只取日期部分
+ */
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
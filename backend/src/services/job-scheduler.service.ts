@@ -0,0 +1,358 @@
+/**
+ * 定时任务调度服务
+ *
+ * 功能：
+ * - 按CRON表达式在进程内调度任务（每分钟检查一次，对齐到整分钟）
+ * - 数据库锁保证多实例部署时同一任务同一计划时间只由一个实例执行，执行期间定期续期
+ * - 失败自动重试（间隔逐次加倍），每次执行写入执行记录
+ * - 任务状态查询、启用/停用和手动执行
+ */
+
+import { PrismaClient, Prisma, JobRun, JobRunStatus, ScheduledJob } from '@prisma/client';
+import { hostname } from 'os';
+import { logger } from '../utils/logger';
+import { CronSchedule, parseCron, matchesCron, nextCronTime } from '../utils/cron';
+
+const MINUTE = 60 * 1000;
+
+export type JobTrigger = 'schedule' | 'manual';
+
+/**
+ * 任务执行上下文
+ */
+export interface JobContext {
+  trigger: JobTrigger;
+  scheduledAt: Date | null; // 计划执行时间，手动执行时为空
+  attempt: number; // 第几次执行（从1开始）
+}
+
+/**
+ * 任务定义
+ */
+export interface JobDefinition {
+  name: string;
+  description: string;
+  schedule: string; // CRON表达式
+  retries?: number; // 失败后重试次数，默认2
+  retryDelayMs?: number; // 首次重试间隔，默认30秒
+  lockTtlMs?: number; // 锁有效期，执行期间每隔1/3有效期续期一次，默认10分钟
+  handler: (context: JobContext) => Promise<unknown>; // 返回值记入执行记录
+}
+
+/**
+ * 任务状态
+ */
+export interface JobStatus {
+  name: string;
+  description: string;
+  schedule: string;
+  enabled: boolean;
+  running: boolean;
+  nextRunAt: Date | null;
+  lastRunAt: Date | null;
+  lastStatus: JobRunStatus | null;
+  lockedBy: string | null;
+  lockedUntil: Date | null;
+}
+
+export interface JobSchedulerOptions {
+  instanceId?: string;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+interface RegisteredJob {
+  definition: JobDefinition;
+  schedule: CronSchedule;
+}
+
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY = 30 * 1000;
+const DEFAULT_LOCK_TTL = 10 * MINUTE;
+
+const toJsonValue = (value: unknown): Prisma.InputJsonValue | undefined =>
+  value === undefined || value === null ? undefined : JSON.parse(JSON.stringify(value));
+
+/**
+ * 定时任务调度器
+ */
+export class JobScheduler {
+  readonly instanceId: string;
+  private jobs = new Map<string, RegisteredJob>();
+  private running = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private sleep: (ms: number) => Promise<void>;
+
+  constructor(
+    private prisma: PrismaClient,
+    options: JobSchedulerOptions = {}
+  ) {
+    this.instanceId = options.instanceId || `${hostname()}-${process.pid}`;
+    this.sleep = options.sleep || ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+  }
+
+  /**
+   * 注册任务（CRON表达式无效或名称重复时报错）
+   */
+  register(definition: JobDefinition): void {
+    if (this.jobs.has(definition.name)) {
+      throw new Error(`定时任务已存在: ${definition.name}`);
+    }
+    this.jobs.set(definition.name, { definition, schedule: parseCron(definition.schedule) });
+  }
+
+  private getJob(name: string): RegisteredJob {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new Error('定时任务不存在');
+    }
+    return job;
+  }
+
+  /**
+   * 启动调度：登记任务状态记录后每分钟检查一次
+   */
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    for (const name of this.jobs.keys()) {
+      await this.prisma.scheduledJob.upsert({ where: { name }, create: { name }, update: {} });
+    }
+
+    this.timer = setTimeout(() => {
+      void this.tick(new Date());
+      this.timer = setInterval(() => void this.tick(new Date()), MINUTE);
+    }, MINUTE - (Date.now() % MINUTE));
+
+    logger.info(`✅ 定时任务调度已启动 - 实例: ${this.instanceId}, 任务数: ${this.jobs.size}`);
+  }
+
+  /**
+   * 停止调度（不中断正在执行的任务）
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * 执行当前分钟到期的任务，各任务并行执行
+   */
+  async tick(now: Date = new Date()): Promise<void> {
+    const scheduledAt = new Date(Math.floor(now.getTime() / MINUTE) * MINUTE);
+    const due = [...this.jobs.values()].filter((job) => matchesCron(job.schedule, scheduledAt));
+
+    await Promise.all(due.map((job) => this.execute(job, 'schedule', scheduledAt)));
+  }
+
+  /**
+   * 手动执行任务（停用的任务也可以手动执行）
+   * @returns 执行记录；任务正在其他实例执行时返回null
+   */
+  async runNow(name: string): Promise<JobRun | null> {
+    return this.execute(this.getJob(name), 'manual', null);
+  }
+
+  /**
+   * 获取锁
+   * 计划执行时同时检查该计划时间是否已被其他实例执行，获取成功即记下计划时间
+   */
+  private async acquireLock(job: RegisteredJob, scheduledAt: Date | null): Promise<boolean> {
+    const now = new Date();
+    const conditions: Prisma.ScheduledJobWhereInput[] = [
+      { OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }] }
+    ];
+    if (scheduledAt) {
+      conditions.push({ enabled: true }, { OR: [{ lastScheduledAt: null }, { lastScheduledAt: { lt: scheduledAt } }] });
+    }
+
+    const result = await this.prisma.scheduledJob.updateMany({
+      where: { name: job.definition.name, AND: conditions },
+      data: {
+        lockedBy: this.instanceId,
+        lockedUntil: new Date(now.getTime() + (job.definition.lockTtlMs ?? DEFAULT_LOCK_TTL)),
+        ...(scheduledAt ? { lastScheduledAt: scheduledAt } : {})
+      }
+    });
+    return result.count === 1;
+  }
+
+  /**
+   * 执行期间定期续期锁，任务执行时间超过锁有效期时其他实例也不会接管
+   */
+  private startHeartbeat(job: RegisteredJob): NodeJS.Timeout {
+    const { name, lockTtlMs = DEFAULT_LOCK_TTL } = job.definition;
+    const timer = setInterval(() => {
+      this.prisma.scheduledJob
+        .updateMany({
+          where: { name, lockedBy: this.instanceId },
+          data: { lockedUntil: new Date(Date.now() + lockTtlMs) }
+        })
+        .then((result) => {
+          if (result.count === 0) {
+            logger.warn(`定时任务锁已失效 - 任务: ${name}, 实例: ${this.instanceId}`);
+          }
+        })
+        .catch((error) => logger.warn(`定时任务锁续期失败 - 任务: ${name}`, error));
+    }, lockTtlMs / 3);
+    timer.unref();
+    return timer;
+  }
+
+  private async releaseLock(name: string, status: JobRunStatus, finishedAt: Date): Promise<void> {
+    await this.prisma.scheduledJob.updateMany({
+      where: { name, lockedBy: this.instanceId },
+      data: { lockedBy: null, lockedUntil: null, lastRunAt: finishedAt, lastStatus: status }
+    });
+  }
+
+  /**
+   * 执行任务：加锁、失败重试、写执行记录
+   */
+  private async execute(job: RegisteredJob, trigger: JobTrigger, scheduledAt: Date | null): Promise<JobRun | null> {
+    const { name } = job.definition;
+    if (this.running.has(name)) return null;
+
+    this.running.add(name);
+    try {
+      if (!(await this.acquireLock(job, scheduledAt))) {
+        return null;
+      }
+
+      const heartbeat = this.startHeartbeat(job);
+      try {
+        return await this.runLocked(job, trigger, scheduledAt);
+      } finally {
+        clearInterval(heartbeat);
+      }
+    } catch (error) {
+      logger.error(`定时任务调度异常 - 任务: ${name}`, error);
+      return null;
+    } finally {
+      this.running.delete(name);
+    }
+  }
+
+  /**
+   * 持有锁时执行任务：失败重试、写执行记录、释放锁
+   */
+  private async runLocked(job: RegisteredJob, trigger: JobTrigger, scheduledAt: Date | null): Promise<JobRun> {
+    const { name, retries = DEFAULT_RETRIES, retryDelayMs = DEFAULT_RETRY_DELAY } = job.definition;
+
+    const startedAt = new Date();
+    const run = await this.prisma.jobRun.create({
+      data: { jobName: name, trigger, status: JobRunStatus.RUNNING, instanceId: this.instanceId, scheduledAt, startedAt }
+    });
+
+    let attempt = 0;
+    let result: unknown;
+    let lastError: unknown = null;
+    while (attempt <= retries) {
+      attempt += 1;
+      try {
+        result = await job.definition.handler({ trigger, scheduledAt, attempt });
+        lastError = null;
+        break;
+      } catch (error) {
+        lastError = error;
+        logger.warn(`定时任务执行失败 - 任务: ${name}, 第${attempt}次`, error);
+        if (attempt <= retries) {
+          await this.sleep(retryDelayMs * 2 ** (attempt - 1));
+        }
+      }
+    }
+
+    const finishedAt = new Date();
+    const status = lastError ? JobRunStatus.FAILED : JobRunStatus.SUCCEEDED;
+    const finishedRun = await this.prisma.jobRun.update({
+      where: { id: run.id },
+      data: {
+        status,
+        attempts: attempt,
+        finishedAt,
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+        result: lastError ? undefined : toJsonValue(result),
+        error: lastError ? (lastError instanceof Error ? lastError.message : String(lastError)) : null
+      }
+    });
+    await this.releaseLock(name, status, finishedAt);
+
+    if (lastError) {
+      logger.error(`定时任务最终失败 - 任务: ${name}, 共执行${attempt}次`, lastError);
+    } else {
+      logger.info(`定时任务完成 - 任务: ${name}, 耗时: ${finishedRun.durationMs}ms`);
+    }
+    return finishedRun;
+  }
+
+  /**
+   * 获取全部任务状态
+   */
+  async getStatus(now: Date = new Date()): Promise<JobStatus[]> {
+    const records = await this.prisma.scheduledJob.findMany({
+      where: { name: { in: [...this.jobs.keys()] } }
+    });
+    const recordMap = new Map<string, ScheduledJob>(records.map((record) => [record.name, record]));
+
+    return [...this.jobs.values()].map(({ definition, schedule }) => {
+      const record = recordMap.get(definition.name);
+      const enabled = record ? record.enabled : true;
+      const locked = record?.lockedUntil && record.lockedUntil > now;
+      return {
+        name: definition.name,
+        description: definition.description,
+        schedule: definition.schedule,
+        enabled,
+        running: Boolean(locked),
+        nextRunAt: enabled ? nextCronTime(schedule, now) : null,
+        lastRunAt: record?.lastRunAt || null,
+        lastStatus: record?.lastStatus || null,
+        lockedBy: locked ? record!.lockedBy : null,
+        lockedUntil: locked ? record!.lockedUntil : null
+      };
+    });
+  }
+
+  /**
+   * 启用/停用任务（对所有实例生效）
+   */
+  async setEnabled(name: string, enabled: boolean): Promise<void> {
+    this.getJob(name);
+    await this.prisma.scheduledJob.upsert({
+      where: { name },
+      create: { name, enabled },
+      update: { enabled }
+    });
+    logger.info(`定时任务已${enabled ? '启用' : '停用'} - 任务: ${name}`);
+  }
+
+  /**
+   * 查询执行记录
+   */
+  async listRuns(name: string, page: number = 1, pageSize: number = 20) {
+    this.getJob(name);
+    const where = { jobName: name };
+    const [total, runs] = await Promise.all([
+      this.prisma.jobRun.count({ where }),
+      this.prisma.jobRun.findMany({
+        where,
+        orderBy: { startedAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize
+      })
+    ]);
+    return { runs, total, page, pageSize };
+  }
+
+  /**
+   * 清理早于指定时间的执行记录
+   */
+  async pruneRuns(before: Date): Promise<number> {
+    const result = await this.prisma.jobRun.deleteMany({
+      where: { startedAt: { lt: before }, status: { not: JobRunStatus.RUNNING } }
+    });
+    return result.count;
+  }
+}
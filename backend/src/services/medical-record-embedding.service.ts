@@ -0,0 +1,403 @@
+/**
+ * 病历向量服务
+ *
+ * 功能:
+ * - 病历临床表现文本向量化
+ * - 向量索引维护（服务启动时后台构建，创建/更新/删除时同步）
+ * - 相似病例检索
+ *
+ * 同一索引只保存同一嵌入模型的向量：重建时部分批次降级为本地向量则全部改用本地向量重建，
+ * 查询时模型与索引不一致则改用本地向量或报错，避免病历因模型不同而检索不到
+ */
+
+import { PrismaClient, Prisma, MedicalRecord } from '@prisma/client';
+import { AIProviderManager } from '../ai/ai-provider-manager';
+import { defaultAIProviderManager } from '../ai';
+import { localEmbedder } from '../ai/local-embedding';
+import { IVectorIndex, InMemoryVectorIndex } from '../ai/vector-index';
+import { EmbeddingRequest, EmbeddingResponse } from '../ai/types';
+import { AIUsageService } from './ai-usage.service';
+import { prisma as defaultPrisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+
+/**
+ * 参与向量化的病历字段（按临床表现的重要程度排序）
+ */
+const EMBEDDING_FIELDS = [
+  'chiefComplaint',
+  'diagnosis',
+  'presentIllness',
+  'physicalExam',
+  'auxiliaryExam',
+  'pastHistory'
+] as const;
+
+type EmbeddingField = typeof EMBEDDING_FIELDS[number];
+
+// 重建索引时每批处理的病历数量
+const REBUILD_BATCH_SIZE = 50;
+
+// 单条病历参与向量化的最大字符数
+const MAX_EMBEDDING_TEXT_LENGTH = 2000;
+
+// 启动时构建索引失败后的重试间隔
+const BUILD_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+export const INDEX_NOT_READY_MESSAGE = '相似病历索引正在构建，请稍后重试';
+
+export interface MedicalRecordVectorMetadata {
+  recordNo: string;
+  patientId: string;
+  doctorId: string;
+  createdAt: Date;
+}
+
+export interface SimilarRecordOptions {
+  limit?: number;
+  minScore?: number;
+  excludeSamePatient?: boolean;
+  userId?: string; // 发起检索的用户，病历尚未索引时的向量化用量归属到该用户
+}
+
+/**
+ * 相似病历返回的患者、医生信息
+ */
+const SIMILAR_RECORD_INCLUDE = {
+  patient: {
+    select: {
+      id: true,
+      patientNo: true,
+      name: true,
+      gender: true,
+      birthDate: true
+    }
+  },
+  doctor: {
+    select: {
+      id: true,
+      name: true,
+      department: {
+        select: {
+          id: true,
+          name: true
+        }
+      }
+    }
+  }
+} satisfies Prisma.MedicalRecordInclude;
+
+export type SimilarRecord = Prisma.MedicalRecordGetPayload<{ include: typeof SIMILAR_RECORD_INCLUDE }>;
+
+export interface SimilarRecordHit {
+  record: SimilarRecord;
+  recordId: string;
+  recordNo: string;
+  similarity: number;
+}
+
+type EmbeddableRecord = Pick<MedicalRecord, 'id' | 'recordNo' | 'patientId' | 'doctorId' | 'createdAt'> &
+  Partial<Record<EmbeddingField, string | null>> & {
+    patient?: { name: string } | null; // 患者姓名，用于发往院外Provider前去标识化
+  };
+
+/**
+ * 病历中患者姓名作为去标识化提示
+ */
+function phiHints(records: EmbeddableRecord[]) {
+  const names = records.map(record => record.patient?.name).filter((name): name is string => Boolean(name));
+  return names.length > 0 ? { names } : undefined;
+}
+
+/**
+ * 病历向量服务类
+ */
+export class MedicalRecordEmbeddingService {
+  private prisma: PrismaClient;
+  private aiManager: AIProviderManager;
+  private index: IVectorIndex<MedicalRecordVectorMetadata>;
+  private usageService: AIUsageService;
+  private indexModel?: string; // 索引中向量的嵌入模型
+  private ready = false;
+  private building?: Promise<number>;
+
+  constructor(
+    prisma: PrismaClient,
+    aiManager: AIProviderManager,
+    index: IVectorIndex<MedicalRecordVectorMetadata> = new InMemoryVectorIndex()
+  ) {
+    this.prisma = prisma;
+    this.aiManager = aiManager;
+    this.index = index;
+    this.usageService = new AIUsageService(prisma);
+  }
+
+  /**
+   * 拼接病历中描述临床表现的文本
+   */
+  static buildRecordText(record: Partial<Record<EmbeddingField, string | null>>): string {
+    return EMBEDDING_FIELDS
+      .map(field => record[field]?.trim())
+      .filter(Boolean)
+      .join('\n')
+      .slice(0, MAX_EMBEDDING_TEXT_LENGTH);
+  }
+
+  /**
+   * 索引单条病历（已存在时覆盖）
+   */
+  async indexRecord(record: EmbeddableRecord, userId?: string): Promise<void> {
+    const text = MedicalRecordEmbeddingService.buildRecordText(record);
+    if (!text) {
+      await this.index.remove(record.id);
+      return;
+    }
+
+    const response = await this.embedForIndex({ input: [text], phi: phiHints([record]) }, userId);
+
+    this.indexModel = response.model;
+    await this.index.upsert({
+      id: record.id,
+      vector: response.embeddings[0],
+      model: response.model,
+      metadata: {
+        recordNo: record.recordNo,
+        patientId: record.patientId,
+        doctorId: record.doctorId,
+        createdAt: record.createdAt
+      },
+      updatedAt: new Date()
+    });
+  }
+
+  /**
+   * 从索引中移除病历
+   */
+  async removeRecord(recordId: string): Promise<void> {
+    await this.index.remove(recordId);
+  }
+
+  /**
+   * 重建全部病历索引
+   */
+  async rebuild(): Promise<number> {
+    this.ready = false;
+    const indexed = await this.buildIndex(false);
+    this.ready = true;
+
+    logger.info(`病历向量索引重建完成 - 共 ${indexed} 条, 模型: ${this.indexModel ?? '无'}`);
+    return indexed;
+  }
+
+  /**
+   * 服务启动时在后台构建索引，失败后定时重试
+   */
+  startIndexing(): void {
+    if (this.ready || this.building) {
+      return;
+    }
+
+    this.building = this.rebuild();
+    this.building
+      .catch((error) => {
+        logger.error('病历向量索引构建失败，稍后重试:', error);
+        setTimeout(() => this.startIndexing(), BUILD_RETRY_DELAY_MS).unref();
+      })
+      .finally(() => {
+        this.building = undefined;
+      });
+  }
+
+  /**
+   * 逐批向量化全部病历
+   * 各批次返回的模型不一致（部分批次降级为本地向量）时，清空后全部使用本地向量重建
+   */
+  private async buildIndex(localOnly: boolean): Promise<number> {
+    await this.index.clear();
+    this.indexModel = undefined;
+
+    let indexed = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const records = await this.prisma.medicalRecord.findMany({
+        take: REBUILD_BATCH_SIZE,
+        ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+        orderBy: { id: 'asc' },
+        include: { patient: { select: { name: true } } }
+      });
+
+      if (records.length === 0) break;
+
+      const items = records
+        .map(record => ({ record, text: MedicalRecordEmbeddingService.buildRecordText(record) }))
+        .filter(item => item.text);
+
+      if (items.length > 0) {
+        const input = items.map(item => item.text);
+        const response = localOnly
+          ? this.embedLocally(input)
+          : await this.embed({ input, phi: phiHints(items.map(item => item.record)) });
+
+        if (this.indexModel && response.model !== this.indexModel) {
+          logger.warn(`病历向量索引重建时嵌入模型不一致（${this.indexModel} / ${response.model}），改为全部使用本地向量重建`);
+          return this.buildIndex(true);
+        }
+        this.indexModel = response.model;
+
+        for (let i = 0; i < items.length; i++) {
+          const { record } = items[i];
+          await this.index.upsert({
+            id: record.id,
+            vector: response.embeddings[i],
+            model: response.model,
+            metadata: {
+              recordNo: record.recordNo,
+              patientId: record.patientId,
+              doctorId: record.doctorId,
+              createdAt: record.createdAt
+            },
+            updatedAt: new Date()
+          });
+        }
+        indexed += items.length;
+      }
+
+      cursor = records[records.length - 1].id;
+    }
+
+    return indexed;
+  }
+
+  /**
+   * 索引未构建完成时拒绝检索，不在请求中全量构建
+   */
+  private assertReady(): void {
+    if (!this.ready) {
+      throw new Error(INDEX_NOT_READY_MESSAGE);
+    }
+  }
+
+  /**
+   * 查找与指定病历临床表现相似的病历
+   */
+  async findSimilarRecords(recordId: string, options: SimilarRecordOptions = {}): Promise<SimilarRecordHit[]> {
+    this.assertReady();
+
+    let entry = await this.index.get(recordId);
+    if (!entry) {
+      const record = await this.prisma.medicalRecord.findUnique({
+        where: { id: recordId },
+        include: { patient: { select: { name: true } } }
+      });
+      if (!record) {
+        throw new Error('病历不存在');
+      }
+
+      await this.indexRecord(record, options.userId);
+      entry = await this.index.get(recordId);
+      if (!entry) {
+        return [];
+      }
+    }
+
+    const { excludeSamePatient = true } = options;
+    const sourcePatientId = entry.metadata.patientId;
+
+    return this.queryIndex(entry.vector, entry.model, options, (metadata, id) =>
+      id !== recordId && !(excludeSamePatient && metadata.patientId === sourcePatientId)
+    );
+  }
+
+  /**
+   * 查找与一段临床描述相似的病历
+   */
+  async findSimilarToText(text: string, options: SimilarRecordOptions = {}): Promise<SimilarRecordHit[]> {
+    this.assertReady();
+
+    const response = await this.embedForIndex({ input: [text] }, options.userId);
+    return this.queryIndex(response.embeddings[0], response.model, options);
+  }
+
+  /**
+   * 调用AI向量化并记录用量，本地向量化不产生费用不记录
+   * 索引维护的用量不归属到具体用户
+   */
+  private async embed(request: EmbeddingRequest, userId?: string): Promise<EmbeddingResponse> {
+    const response = await this.aiManager.embed({ ...request, userId });
+    if (response.provider !== 'local') {
+      this.usageService
+        .record({ userId, feature: 'embedding', response })
+        .catch(error => logger.warn('记录AI向量化用量失败:', error));
+    }
+    return response;
+  }
+
+  /**
+   * 按索引的嵌入模型向量化单条文本
+   * 索引为本地向量时直接本地向量化；AI服务返回的模型与索引不一致（如降级为本地向量）时报错，
+   * 不同模型的向量无法比较
+   */
+  private async embedForIndex(request: EmbeddingRequest, userId?: string): Promise<EmbeddingResponse> {
+    if (this.indexModel === localEmbedder.model) {
+      return this.embedLocally(request.input);
+    }
+
+    const response = await this.embed(request, userId);
+    if (this.indexModel && response.model !== this.indexModel) {
+      logger.error(`嵌入模型与病历向量索引不一致 - 索引: ${this.indexModel}, 本次: ${response.model}`);
+      throw new Error('向量化服务暂不可用，无法检索相似病历');
+    }
+    return response;
+  }
+
+  /**
+   * 本地向量化，不产生费用
+   */
+  private embedLocally(input: string[]): EmbeddingResponse {
+    return {
+      provider: 'local',
+      model: localEmbedder.model,
+      dimensions: localEmbedder.dimensions,
+      embeddings: localEmbedder.embedBatch(input)
+    };
+  }
+
+  /**
+   * 查询索引并加载病历详情
+   */
+  private async queryIndex(
+    vector: number[],
+    model: string,
+    options: SimilarRecordOptions,
+    filter?: (metadata: MedicalRecordVectorMetadata, id: string) => boolean
+  ): Promise<SimilarRecordHit[]> {
+    const { limit = 5, minScore = 0.1 } = options;
+
+    const matches = await this.index.query({ vector, model, topK: limit, minScore, filter });
+    if (matches.length === 0) {
+      return [];
+    }
+
+    const records = await this.prisma.medicalRecord.findMany({
+      where: { id: { in: matches.map(match => match.id) } },
+      include: SIMILAR_RECORD_INCLUDE
+    });
+
+    const recordMap = new Map(records.map(record => [record.id, record]));
+
+    return matches.flatMap(match => {
+      const record = recordMap.get(match.id);
+      return record
+        ? [{
+          record,
+          recordId: match.id,
+          recordNo: match.metadata.recordNo,
+          similarity: Math.round(match.score * 1000) / 1000
+        }]
+        : [];
+    });
+  }
+}
+
+// 默认实例，服务启动时构建索引，供病历路由使用
+export const medicalRecordEmbeddingService = new MedicalRecordEmbeddingService(defaultPrisma, defaultAIProviderManager);
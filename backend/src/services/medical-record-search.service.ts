@@ -0,0 +1,514 @@
+/**
+ * 病历检索服务
+ *
+ * 功能：
+ * - 病历文本字段分词与索引（中文二元切分 + 英文/数字词）
+ * - 基于BM25的多字段加权相关性排序
+ * - 患者、医生、科室、日期范围过滤
+ * - 命中内容片段提取
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import { logger } from '../utils/logger';
+
+/**
+ * 参与检索的病历文本字段及其权重
+ */
+export const SEARCHABLE_FIELDS = {
+  diagnosis: 3.0,
+  chiefComplaint: 2.5,
+  presentIllness: 1.5,
+  treatmentPlan: 1.5,
+  aiSummary: 1.2,
+  pastHistory: 1.0,
+  physicalExam: 1.0,
+  auxiliaryExam: 1.0,
+  aiDiagnosticAdvice: 1.0,
+  familyHistory: 0.8,
+  followUpPlan: 0.8
+} as const;
+
+export type SearchableField = keyof typeof SEARCHABLE_FIELDS;
+
+/**
+ * 字段中文名称（用于命中片段前缀）
+ */
+const FIELD_LABELS: Record<SearchableField, string> = {
+  diagnosis: '诊断',
+  chiefComplaint: '主诉',
+  presentIllness: '现病史',
+  treatmentPlan: '治疗方案',
+  aiSummary: 'AI摘要',
+  pastHistory: '既往史',
+  physicalExam: '体格检查',
+  auxiliaryExam: '辅助检查',
+  aiDiagnosticAdvice: 'AI诊断建议',
+  familyHistory: '家族史',
+  followUpPlan: '随访计划'
+};
+
+/**
+ * 查询中无检索意义的常见词
+ */
+const QUERY_STOP_WORDS = [
+  '查找', '查询', '搜索', '找出', '找到', '检索', '显示', '列出',
+  '所有', '全部', '相关', '有关', '最近', '一个月', '一周',
+  '患者', '病人', '病历', '病例', '记录', '的', '和', '或', '与', '使用'
+];
+
+// BM25参数
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// 候选病历分批读取的数量与片段窗口
+const CANDIDATE_BATCH_SIZE = 500;
+const SNIPPET_RADIUS = 40;
+
+/**
+ * 评分只读取文本字段，命中的病历再加载患者、医生信息
+ */
+const CANDIDATE_SELECT = {
+  id: true,
+  recordNo: true,
+  diagnosis: true,
+  chiefComplaint: true,
+  presentIllness: true,
+  treatmentPlan: true,
+  aiSummary: true,
+  pastHistory: true,
+  physicalExam: true,
+  auxiliaryExam: true,
+  aiDiagnosticAdvice: true,
+  familyHistory: true,
+  followUpPlan: true
+} satisfies Prisma.MedicalRecordSelect;
+
+const RECORD_DETAIL_INCLUDE = {
+  patient: {
+    select: {
+      id: true,
+      patientNo: true,
+      name: true,
+      gender: true,
+      birthDate: true
+    }
+  },
+  doctor: {
+    select: {
+      id: true,
+      doctorNo: true,
+      name: true,
+      title: true,
+      department: {
+        select: {
+          id: true,
+          name: true
+        }
+      }
+    }
+  }
+} satisfies Prisma.MedicalRecordInclude;
+
+type SearchCandidate = Prisma.MedicalRecordGetPayload<{ select: typeof CANDIDATE_SELECT }>;
+
+export type SearchedMedicalRecord = Prisma.MedicalRecordGetPayload<{ include: typeof RECORD_DETAIL_INCLUDE }>;
+
+export interface MedicalRecordSearchOptions {
+  query: string;
+  keywords?: string[];
+  patientId?: string;
+  doctorId?: string;
+  department?: string;
+  dateRange?: { from?: Date; to?: Date };
+  limit?: number;
+}
+
+export interface MedicalRecordSearchHit {
+  record: SearchedMedicalRecord;
+  recordId: string;
+  recordNo: string;
+  relevance: number;
+  matchedTerms: string[];
+  matchedFields: SearchableField[];
+  matchedContent: string;
+  summary: string;
+}
+
+export interface MedicalRecordSearchResult {
+  hits: MedicalRecordSearchHit[];
+  terms: string[];
+  totalCandidates: number;
+}
+
+/**
+ * 文本分词
+ * 英文和数字按词切分，中文按二元组切分（单字成词时保留单字）
+ */
+export function tokenize(text: string | null | undefined): string[] {
+  if (!text) {
+    return [];
+  }
+
+  const tokens: string[] = [];
+  const segments = text.toLowerCase().match(/[a-z0-9]+(?:\.[0-9]+)?|[\u4e00-\u9fff]+/g) || [];
+
+  for (const segment of segments) {
+    if (!/[\u4e00-\u9fff]/.test(segment)) {
+      tokens.push(segment);
+      continue;
+    }
+
+    if (segment.length === 1) {
+      tokens.push(segment);
+      continue;
+    }
+
+    for (let i = 0; i < segment.length - 1; i++) {
+      tokens.push(segment.slice(i, i + 2));
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * 从自然语言查询中提取检索词（AI关键词不可用时的兜底）
+ */
+export function extractQueryTerms(query: string): string[] {
+  let cleaned = query;
+  for (const word of QUERY_STOP_WORDS) {
+    cleaned = cleaned.split(word).join(' ');
+  }
+
+  return cleaned
+    .split(/[\s,，。、;；:：!！?？"“”'()（）]+/)
+    .map(term => term.trim())
+    .filter(term => term.length > 1);
+}
+
+/**
+ * 规范化检索词：去重、去空、去掉过短的词
+ */
+export function normalizeTerms(terms: Array<string | null | undefined>): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+
+  for (const term of terms) {
+    if (typeof term !== 'string') continue;
+    const trimmed = term.trim();
+    if (!trimmed || (trimmed.length < 2 && !/[\u4e00-\u9fff]/.test(trimmed))) continue;
+
+    const key = trimmed.toLowerCase();
+    if (!seen.has(key)) {
+      seen.add(key);
+      result.push(trimmed);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 提取命中片段
+ */
+export function buildSnippet(text: string, terms: string[], radius: number = SNIPPET_RADIUS): string {
+  const lower = text.toLowerCase();
+  let position = -1;
+  let matchLength = 0;
+
+  for (const term of terms) {
+    const index = lower.indexOf(term.toLowerCase());
+    if (index !== -1 && (position === -1 || index < position)) {
+      position = index;
+      matchLength = term.length;
+    }
+  }
+
+  if (position === -1) {
+    return text.length > radius * 2 ? `${text.slice(0, radius * 2)}…` : text;
+  }
+
+  const start = Math.max(0, position - radius);
+  const end = Math.min(text.length, position + matchLength + radius);
+
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
+
+interface IndexedDocument {
+  fieldTokens: Partial<Record<SearchableField, Map<string, number>>>;
+  fieldLengths: Partial<Record<SearchableField, number>>;
+}
+
+/**
+ * 病历文本索引
+ * 对候选病历建立倒排统计，按BM25计算多字段加权得分
+ */
+export class MedicalRecordTextIndex {
+  private documents = new Map<string, IndexedDocument>();
+  private documentFrequency = new Map<string, number>();
+  private totalFieldLength: Partial<Record<SearchableField, number>> = {};
+
+  constructor(private corpusSize?: number) {}
+
+  /**
+   * 添加文档
+   */
+  add(id: string, fields: Partial<Record<SearchableField, string | null>>): void {
+    const doc: IndexedDocument = { fieldTokens: {}, fieldLengths: {} };
+    const seenTokens = new Set<string>();
+
+    for (const field of Object.keys(SEARCHABLE_FIELDS) as SearchableField[]) {
+      const tokens = tokenize(fields[field]);
+      if (tokens.length === 0) continue;
+
+      const counts = new Map<string, number>();
+      for (const token of tokens) {
+        counts.set(token, (counts.get(token) || 0) + 1);
+        seenTokens.add(token);
+      }
+
+      doc.fieldTokens[field] = counts;
+      doc.fieldLengths[field] = tokens.length;
+      this.totalFieldLength[field] = (this.totalFieldLength[field] || 0) + tokens.length;
+    }
+
+    for (const token of seenTokens) {
+      this.documentFrequency.set(token, (this.documentFrequency.get(token) || 0) + 1);
+    }
+
+    this.documents.set(id, doc);
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * 计算文档对检索词的得分
+   * @returns 总得分、命中的检索词和命中的字段
+   */
+  score(id: string, terms: string[]): {
+    score: number;
+    matchedTerms: string[];
+    matchedFields: SearchableField[];
+  } {
+    const doc = this.documents.get(id);
+    if (!doc) {
+      return { score: 0, matchedTerms: [], matchedFields: [] };
+    }
+
+    const n = Math.max(this.corpusSize ?? 0, this.documents.size);
+    const fieldScores = new Map<SearchableField, number>();
+    const matchedTerms: string[] = [];
+    let total = 0;
+
+    for (const term of terms) {
+      const termTokens = Array.from(new Set(tokenize(term)));
+      if (termTokens.length === 0) continue;
+
+      let termScore = 0;
+      let tokensHit = 0;
+
+      for (const token of termTokens) {
+        const df = this.documentFrequency.get(token) || 0;
+        if (df === 0) continue;
+
+        const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+        let tokenHit = false;
+
+        for (const field of Object.keys(doc.fieldTokens) as SearchableField[]) {
+          const tf = doc.fieldTokens[field]!.get(token) || 0;
+          if (tf === 0) continue;
+
+          tokenHit = true;
+          const length = doc.fieldLengths[field] || 0;
+          const avgLength = (this.totalFieldLength[field] || 1) / this.documents.size;
+          const norm = tf * (BM25_K1 + 1) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * length / avgLength));
+          const contribution = idf * norm * SEARCHABLE_FIELDS[field];
+
+          termScore += contribution;
+          fieldScores.set(field, (fieldScores.get(field) || 0) + contribution);
+        }
+
+        if (tokenHit) {
+          tokensHit++;
+        }
+      }
+
+      // 多字检索词要求大部分二元组命中，避免只命中半个词
+      if (tokensHit > 0 && tokensHit / termTokens.length >= 0.5) {
+        matchedTerms.push(term);
+        total += termScore * (tokensHit / termTokens.length);
+      }
+    }
+
+    const matchedFields = Array.from(fieldScores.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([field]) => field);
+
+    return { score: total, matchedTerms, matchedFields };
+  }
+}
+
+/**
+ * 病历检索服务类
+ */
+export class MedicalRecordSearchService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * 检索病历并按相关性排序
+   */
+  async search(options: MedicalRecordSearchOptions): Promise<MedicalRecordSearchResult> {
+    try {
+      const { query, patientId, doctorId, department, dateRange, limit = 10 } = options;
+
+      const terms = normalizeTerms([
+        ...(options.keywords || []),
+        ...extractQueryTerms(query)
+      ]);
+
+      const filterWhere = this.buildFilterWhere({ patientId, doctorId, department, dateRange });
+
+      if (terms.length === 0) {
+        return { hits: [], terms, totalCandidates: 0 };
+      }
+
+      // 数据库预筛选：任一检索词出现在任一文本字段
+      const where: Prisma.MedicalRecordWhereInput = {
+        ...filterWhere,
+        OR: terms.flatMap(term =>
+          (Object.keys(SEARCHABLE_FIELDS) as SearchableField[]).map(field => ({
+            [field]: { contains: term }
+          }))
+        )
+      };
+
+      const [corpusSize, candidates] = await Promise.all([
+        this.prisma.medicalRecord.count({ where: filterWhere }),
+        this.loadCandidates(where)
+      ]);
+
+      const index = new MedicalRecordTextIndex(corpusSize);
+      for (const record of candidates) {
+        index.add(record.id, record);
+      }
+
+      const scored = candidates
+        .map(record => ({ record, ...index.score(record.id, terms) }))
+        .filter(item => item.score > 0);
+
+      const maxScore = scored.reduce((max, item) => Math.max(max, item.score), 0);
+
+      const ranked = scored
+        .map(item => {
+          const coverage = item.matchedTerms.length / terms.length;
+          const relevance = maxScore > 0 ? 0.7 * (item.score / maxScore) + 0.3 * coverage : 0;
+          const bestField = item.matchedFields[0];
+          const bestText = bestField ? (item.record[bestField] as string | null) || '' : '';
+
+          return {
+            recordId: item.record.id,
+            recordNo: item.record.recordNo,
+            relevance: Math.round(relevance * 100) / 100,
+            matchedTerms: item.matchedTerms,
+            matchedFields: item.matchedFields,
+            matchedContent: bestField
+              ? `${FIELD_LABELS[bestField]}：${buildSnippet(bestText, item.matchedTerms)}`
+              : '',
+            summary: item.record.aiSummary || `${item.record.chiefComplaint}；诊断：${item.record.diagnosis}`
+          };
+        })
+        .sort((a, b) => b.relevance - a.relevance)
+        .slice(0, limit);
+
+      // 只为返回的病历加载患者、医生信息
+      const records = ranked.length > 0
+        ? await this.prisma.medicalRecord.findMany({
+          where: { id: { in: ranked.map(hit => hit.recordId) } },
+          include: RECORD_DETAIL_INCLUDE
+        })
+        : [];
+      const recordMap = new Map(records.map(record => [record.id, record]));
+      const hits: MedicalRecordSearchHit[] = ranked.flatMap(hit => {
+        const record = recordMap.get(hit.recordId);
+        return record ? [{ ...hit, record }] : [];
+      });
+
+      logger.info(`病历检索完成 - 检索词: ${terms.join(',')}, 候选: ${candidates.length}, 命中: ${hits.length}`);
+
+      return { hits, terms, totalCandidates: candidates.length };
+    } catch (error) {
+      logger.error('病历检索失败:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 读取预筛选命中的全部病历文本，按ID分批读取，全部参与相关性排序
+   */
+  private async loadCandidates(where: Prisma.MedicalRecordWhereInput): Promise<SearchCandidate[]> {
+    const candidates: SearchCandidate[] = [];
+    let cursor: string | undefined;
+
+    for (;;) {
+      const batch = await this.prisma.medicalRecord.findMany({
+        where,
+        select: CANDIDATE_SELECT,
+        orderBy: { id: 'asc' },
+        take: CANDIDATE_BATCH_SIZE,
+        ...(cursor ? { skip: 1, cursor: { id: cursor } } : {})
+      });
+      candidates.push(...batch);
+
+      if (batch.length < CANDIDATE_BATCH_SIZE) break;
+      cursor = batch[batch.length - 1].id;
+    }
+
+    return candidates;
+  }
+
+  /**
+   * 构建过滤条件
+   */
+  private buildFilterWhere(filters: {
+    patientId?: string;
+    doctorId?: string;
+    department?: string;
+    dateRange?: { from?: Date; to?: Date };
+  }): Prisma.MedicalRecordWhereInput {
+    const where: Prisma.MedicalRecordWhereInput = {};
+
+    if (filters.patientId) {
+      where.patientId = filters.patientId;
+    }
+
+    if (filters.doctorId) {
+      where.doctorId = filters.doctorId;
+    }
+
+    if (filters.department) {
+      where.doctor = {
+        department: {
+          name: filters.department
+        }
+      };
+    }
+
+    if (filters.dateRange?.from || filters.dateRange?.to) {
+      where.createdAt = {};
+      if (filters.dateRange.from) {
+        where.createdAt.gte = filters.dateRange.from;
+      }
+      if (filters.dateRange.to) {
+        where.createdAt.lte = filters.dateRange.to;
+      }
+    }
+
+    return where;
+  }
+}
@@ -7,10 +7,13 @@
  * - 患者病历列表
  * - 医生病历统计
  * - 病历状态管理
+ * - 病历驳回时通知书写医生
  */
 
-import { PrismaClient, RecordType, MedicalRecord, Prisma } from '@prisma/client';
+import { PrismaClient, RecordType, MedicalRecord, Prisma, NotificationType } from '@prisma/client';
 import { logger } from '../utils/logger';
+import { MedicalRecordEmbeddingService } from './medical-record-embedding.service';
+import { NotificationService } from './notification.service';
 import puppeteer from 'puppeteer';
 
 export interface CreateMedicalRecordRequest {
@@ -61,9 +64,24 @@ export interface SearchMedicalRecordsRequest {
  */
 export class MedicalRecordService {
   private prisma: PrismaClient;
+  private embeddingService?: MedicalRecordEmbeddingService;
+  private notificationService: NotificationService;
 
-  constructor(prisma: PrismaClient) {
+  constructor(prisma: PrismaClient, embeddingService?: MedicalRecordEmbeddingService) {
     this.prisma = prisma;
+    this.embeddingService = embeddingService;
+    this.notificationService = new NotificationService(prisma);
+  }
+
+  /**
+   * 异步同步病历向量索引（失败不影响病历主流程）
+   */
+  private syncEmbedding(record: MedicalRecord): void {
+    if (!this.embeddingService) return;
+
+    this.embeddingService.indexRecord(record).catch(error => {
+      logger.error(`病历向量索引更新失败 - 病历号: ${record.recordNo}`, error);
+    });
   }
 
   /**
@@ -165,6 +183,7 @@ export class MedicalRecordService {
       });
 
       logger.info(`病历创建成功 - 病历号: ${recordNo}, 患者: ${patient.name}, 医生: ${doctor.name}`);
+      this.syncEmbedding(medicalRecord);
       return medicalRecord;
     } catch (error) {
       logger.error('创建病历失败:', error);
@@ -285,6 +304,7 @@ export class MedicalRecordService {
       });
 
       logger.info(`病历更新成功 - 病历号: ${existingRecord.recordNo}`);
+      this.syncEmbedding(updatedRecord);
       return updatedRecord;
     } catch (error) {
       logger.error('更新病历失败:', error);
@@ -314,6 +334,8 @@ export class MedicalRecordService {
         where: { id }
       });
 
+      await this.embeddingService?.removeRecord(id);
+
       logger.info(`病历删除成功 - 病历号: ${existingRecord.recordNo}`);
     } catch (error) {
       logger.error('删除病历失败:', error);
@@ -528,6 +550,52 @@ export class MedicalRecordService {
     }
   }
 
+  /**
+   * 驳回病历
+   * 已归档的病历不能驳回；审核人不是书写医生本人时通知书写医生修改
+   * @param reviewerId 审核人用户ID
+   */
+  async rejectMedicalRecord(id: string, reason: string, reviewerId?: string): Promise<MedicalRecord> {
+    try {
+      const record = await this.prisma.medicalRecord.findUnique({
+        where: { id },
+        include: {
+          doctor: {
+            select: { userId: true }
+          }
+        }
+      });
+
+      if (!record) {
+        throw new Error('病历不存在');
+      }
+
+      if (record.isFinal) {
+        throw new Error('病历已归档，无法驳回');
+      }
+
+      logger.info(`病历驳回 - 病历号: ${record.recordNo}, 原因: ${reason}`);
+
+      if (record.doctor.userId !== reviewerId) {
+        try {
+          await this.notificationService.notifyUser(record.doctor.userId, {
+            title: '病历被驳回',
+            content: `病历${record.recordNo}被驳回，原因：${reason}。请修改后重新提交审核。`,
+            type: NotificationType.SYSTEM_ALERT,
+            data: { medicalRecordId: record.id, recordNo: record.recordNo, reason }
+          });
+        } catch (error) {
+          logger.error(`病历驳回通知发送失败 - 病历号: ${record.recordNo}`, error);
+        }
+      }
+
+      return record;
+    } catch (error) {
+      logger.error('驳回病历失败:', error);
+      throw error;
+    }
+  }
+
   /**
    * 获取病历统计信息
    */
@@ -294,6 +294,15 @@ export class MedicineService {
         throw new Error('该药品已被使用,无法删除');
       }
 
+      // 库存流水不可删除，有流水的药品只能保留
+      const transactionCount = await this.prisma.inventoryTransaction.count({
+        where: { medicineId: id }
+      });
+
+      if (transactionCount > 0) {
+        throw new Error('该药品已有库存流水,无法删除');
+      }
+
       // 删除药品及其库存
       await this.prisma.$transaction([
         this.prisma.medicineStock.deleteMany({
@@ -0,0 +1,413 @@
+/**
+ * 患者消息服务
+ *
+ * 功能：
+ * - 挂号、取消挂号、叫号时按患者的渠道偏好（短信/邮件/微信）发送消息
+ * - 消息模板按事件和渠道配置，未配置时使用内置默认模板
+ * - 投递记录：发送失败按加倍间隔重试，达到最大次数后记为失败
+ *
+ * 接收人地址加密存储，列表中脱敏显示
+ */
+
+import {
+  PrismaClient,
+  Prisma,
+  MessageChannel,
+  MessageDelivery,
+  MessageDeliveryStatus,
+  MessageEvent
+} from '@prisma/client';
+import {
+  ChannelAdapters,
+  MessageContext,
+  defaultTemplate,
+  findUnknownPlaceholders,
+  getDefaultChannelAdapters,
+  maskRecipient,
+  renderTemplate
+} from '../messaging';
+import { FieldEncryptor, getFieldEncryptor } from '../utils/field-encryption';
+import { logger } from '../utils/logger';
+
+const MINUTE = 60 * 1000;
+const CLAIM_LEASE_MS = 5 * MINUTE; // 发送时占用投递记录的时间，避免定时重试或多实例重复发送
+
+const TIME_SLOT_TEXT: Record<string, string> = { MORNING: '上午', AFTERNOON: '下午', EVENING: '晚上' };
+
+const appointmentMessageInclude = {
+  patient: { select: { id: true, name: true, patientNo: true, phone: true } },
+  doctor: { select: { name: true, title: true } },
+  department: { select: { name: true, location: true } }
+} satisfies Prisma.AppointmentInclude;
+
+type AppointmentForMessage = Prisma.AppointmentGetPayload<{ include: typeof appointmentMessageInclude }>;
+
+export interface MessagingOptions {
+  adapters?: ChannelAdapters; // 默认按环境变量创建
+  maxAttempts?: number; // 每条消息最多发送次数
+  retryDelayMs?: number; // 首次重试间隔，之后每次加倍
+  hospitalName?: string;
+  encryptor?: FieldEncryptor;
+}
+
+export interface ChannelPreferenceInput {
+  channel: MessageChannel;
+  enabled: boolean;
+  address?: string | null;
+}
+
+export interface MessageTemplateInput {
+  subject?: string | null;
+  body: string;
+  enabled?: boolean;
+}
+
+export interface DeliveryQuery {
+  patientId?: string;
+  status?: MessageDeliveryStatus;
+  channel?: MessageChannel;
+  event?: MessageEvent;
+  page?: number;
+  pageSize?: number;
+}
+
+/**
+ * 挂号信息转换为模板渲染数据
+ */
+export function buildMessageContext(appointment: AppointmentForMessage, hospitalName: string): MessageContext {
+  return {
+    patient: { name: appointment.patient.name, patientNo: appointment.patient.patientNo },
+    appointment: {
+      appointmentNo: appointment.appointmentNo,
+      date: appointment.appointmentDate.toISOString().slice(0, 10),
+      timeSlot: TIME_SLOT_TEXT[appointment.timeSlot] || appointment.timeSlot,
+      queueNumber: appointment.queueNumber
+    },
+    doctor: { name: appointment.doctor.name, title: appointment.doctor.title || '' },
+    department: { name: appointment.department.name, location: appointment.department.location || appointment.department.name },
+    hospital: { name: hospitalName }
+  };
+}
+
+/**
+ * 患者消息服务类
+ */
+export class MessagingService {
+  private maxAttempts: number;
+  private retryDelayMs: number;
+  private hospitalName: string;
+  private encryptor: FieldEncryptor;
+
+  constructor(
+    private prisma: PrismaClient,
+    private options: MessagingOptions = {}
+  ) {
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.retryDelayMs = options.retryDelayMs ?? MINUTE;
+    this.hospitalName = options.hospitalName ?? process.env.HOSPITAL_NAME ?? 'AiliaoX';
+    this.encryptor = options.encryptor ?? getFieldEncryptor();
+  }
+
+  private get adapters(): ChannelAdapters {
+    return this.options.adapters ?? getDefaultChannelAdapters();
+  }
+
+  /**
+   * 发送挂号相关消息
+   * 先为每个渠道写入投递记录，再立即发送一次；失败的由定时任务重试
+   * 投递记录创建时即占用，立即发送期间定时任务不会重复发送，进程中断时占用到期后由定时任务补发
+   */
+  async notifyAppointment(event: MessageEvent, appointmentId: string): Promise<MessageDelivery[]> {
+    const appointment = await this.prisma.appointment.findUnique({
+      where: { id: appointmentId },
+      include: appointmentMessageInclude
+    });
+    if (!appointment) {
+      throw new Error('挂号记录不存在');
+    }
+
+    const recipients = await this.resolveRecipients(appointment.patient);
+    if (recipients.length === 0) {
+      logger.debug(`患者无可用消息渠道，跳过发送 - 患者: ${appointment.patient.patientNo}, 事件: ${event}`);
+      return [];
+    }
+
+    const context = buildMessageContext(appointment, this.hospitalName);
+    const templates = await this.prisma.messageTemplate.findMany({ where: { event } });
+
+    const deliveries: MessageDelivery[] = [];
+    for (const { channel, address } of recipients) {
+      const template = templates.find((item) => item.channel === channel);
+      if (template && !template.enabled) continue; // 模板停用表示该事件不通过此渠道发送
+
+      const content = template ? { subject: template.subject ?? undefined, body: template.body } : defaultTemplate(event, channel);
+      const delivery = await this.prisma.messageDelivery.create({
+        data: {
+          patientId: appointment.patient.id,
+          event,
+          channel,
+          adapter: this.adapters[channel]?.name || 'none',
+          recipient: this.encryptor.encrypt(address),
+          subject: content.subject ? renderTemplate(content.subject, context) : null,
+          body: renderTemplate(content.body, context),
+          relatedId: appointment.id,
+          maxAttempts: this.maxAttempts,
+          nextAttemptAt: new Date(Date.now() + CLAIM_LEASE_MS)
+        }
+      });
+      deliveries.push(await this.attempt(delivery, address));
+    }
+
+    return deliveries;
+  }
+
+  /**
+   * 按渠道偏好确定接收地址
+   * 未设置任何偏好时默认通过手机号发送短信；短信偏好未填地址时使用患者手机号
+   */
+  private async resolveRecipients(patient: { id: string; phone: string | null }) {
+    const preferences = await this.prisma.patientChannelPreference.findMany({
+      where: { patientId: patient.id }
+    });
+
+    if (preferences.length === 0) {
+      return patient.phone ? [{ channel: MessageChannel.SMS, address: patient.phone }] : [];
+    }
+
+    return preferences
+      .filter((preference) => preference.enabled)
+      .map((preference) => ({
+        channel: preference.channel,
+        address: preference.address
+          ? this.encryptor.decrypt(preference.address)
+          : preference.channel === MessageChannel.SMS
+            ? patient.phone
+            : null
+      }))
+      .filter((recipient): recipient is { channel: MessageChannel; address: string } => Boolean(recipient.address));
+  }
+
+  /**
+   * 发送一次并记录结果
+   */
+  private async attempt(delivery: MessageDelivery, recipient: string): Promise<MessageDelivery> {
+    const adapter = this.adapters[delivery.channel];
+    const attempts = delivery.attempts + 1;
+
+    try {
+      if (!adapter) {
+        throw new Error(`未配置${delivery.channel}渠道适配器`);
+      }
+
+      const result = await adapter.send({
+        channel: delivery.channel,
+        to: recipient,
+        subject: delivery.subject ?? undefined,
+        body: delivery.body
+      });
+
+      return await this.prisma.messageDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: MessageDeliveryStatus.SENT,
+          adapter: adapter.name,
+          attempts,
+          nextAttemptAt: null,
+          lastError: null,
+          externalId: result.externalId ?? null,
+          sentAt: new Date()
+        }
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const exhausted = attempts >= delivery.maxAttempts;
+      logger.warn(`患者消息发送失败 - 记录: ${delivery.id}, 渠道: ${delivery.channel}, 第${attempts}次: ${message}`);
+
+      return this.prisma.messageDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: exhausted ? MessageDeliveryStatus.FAILED : MessageDeliveryStatus.PENDING,
+          attempts,
+          nextAttemptAt: exhausted ? null : new Date(Date.now() + this.retryDelayMs * 2 ** (attempts - 1)),
+          lastError: message
+        }
+      });
+    }
+  }
+
+  /**
+   * 重试到期的投递记录（定时任务调用）
+   * 发送前先将下次重试时间推后占用记录，多实例同时执行时每条只发送一次
+   */
+  async retryDueDeliveries(now: Date = new Date(), limit = 100): Promise<{ sent: number; failed: number }> {
+    const due = await this.prisma.messageDelivery.findMany({
+      where: { status: MessageDeliveryStatus.PENDING, nextAttemptAt: { lte: now } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: limit
+    });
+
+    let sent = 0;
+    let failed = 0;
+    for (const delivery of due) {
+      const claim = await this.prisma.messageDelivery.updateMany({
+        where: { id: delivery.id, status: MessageDeliveryStatus.PENDING, nextAttemptAt: delivery.nextAttemptAt },
+        data: { nextAttemptAt: new Date(now.getTime() + CLAIM_LEASE_MS) }
+      });
+      if (claim.count === 0) continue;
+
+      const result = await this.attempt(delivery, this.encryptor.decrypt(delivery.recipient));
+      if (result.status === MessageDeliveryStatus.SENT) {
+        sent++;
+      } else {
+        failed++;
+      }
+    }
+
+    return { sent, failed };
+  }
+
+  /**
+   * 手动重发（已失败的记录额外发送一次）
+   */
+  async retryDelivery(id: string) {
+    const delivery = await this.prisma.messageDelivery.findUnique({ where: { id } });
+    if (!delivery) {
+      throw new Error('消息记录不存在');
+    }
+    if (delivery.status === MessageDeliveryStatus.SENT) {
+      throw new Error('消息已发送，无需重发');
+    }
+
+    const claim = await this.prisma.messageDelivery.updateMany({
+      where: { id, status: delivery.status, nextAttemptAt: delivery.nextAttemptAt },
+      data: { nextAttemptAt: new Date(Date.now() + CLAIM_LEASE_MS) }
+    });
+    if (claim.count === 0) {
+      throw new Error('消息正在发送中，无需重发');
+    }
+
+    const result = await this.attempt(
+      { ...delivery, maxAttempts: Math.max(delivery.maxAttempts, delivery.attempts + 1) },
+      this.encryptor.decrypt(delivery.recipient)
+    );
+    return this.toDeliveryView(result);
+  }
+
+  /**
+   * 投递记录列表（接收人脱敏）
+   */
+  async listDeliveries(query: DeliveryQuery = {}) {
+    const { page = 1, pageSize = 20 } = query;
+    const where: Prisma.MessageDeliveryWhereInput = {};
+    if (query.patientId) where.patientId = query.patientId;
+    if (query.status) where.status = query.status;
+    if (query.channel) where.channel = query.channel;
+    if (query.event) where.event = query.event;
+
+    const [total, deliveries] = await Promise.all([
+      this.prisma.messageDelivery.count({ where }),
+      this.prisma.messageDelivery.findMany({
+        where,
+        include: { patient: { select: { name: true, patientNo: true } } },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize
+      })
+    ]);
+
+    return { deliveries: deliveries.map((delivery) => this.toDeliveryView(delivery)), total, page, pageSize };
+  }
+
+  private toDeliveryView<T extends MessageDelivery>(delivery: T): T {
+    return { ...delivery, recipient: maskRecipient(this.encryptor.decrypt(delivery.recipient)) };
+  }
+
+  /**
+   * 获取患者的渠道偏好（地址解密）
+   */
+  async getPreferences(patientId: string) {
+    const patient = await this.prisma.patient.findFirst({ where: { id: patientId, deletedAt: null } });
+    if (!patient) {
+      throw new Error('患者不存在');
+    }
+
+    const preferences = await this.prisma.patientChannelPreference.findMany({
+      where: { patientId },
+      orderBy: { channel: 'asc' }
+    });
+    return preferences.map((preference) => ({
+      ...preference,
+      address: preference.address ? this.encryptor.decrypt(preference.address) : null
+    }));
+  }
+
+  /**
+   * 设置患者的渠道偏好（按渠道覆盖，未提交的渠道保持不变）
+   */
+  async updatePreferences(patientId: string, inputs: ChannelPreferenceInput[]) {
+    const patient = await this.prisma.patient.findFirst({ where: { id: patientId, deletedAt: null } });
+    if (!patient) {
+      throw new Error('患者不存在');
+    }
+
+    await this.prisma.$transaction(
+      inputs.map(({ channel, enabled, address }) => {
+        const data = { enabled, address: address ? this.encryptor.encrypt(address) : null };
+        return this.prisma.patientChannelPreference.upsert({
+          where: { patientId_channel: { patientId, channel } },
+          create: { patientId, channel, ...data },
+          update: data
+        });
+      })
+    );
+
+    return this.getPreferences(patientId);
+  }
+
+  /**
+   * 全部事件和渠道的模板（未配置的返回默认模板）
+   */
+  async listTemplates() {
+    const templates = await this.prisma.messageTemplate.findMany();
+
+    return Object.values(MessageEvent).flatMap((event) =>
+      Object.values(MessageChannel).map((channel) => {
+        const template = templates.find((item) => item.event === event && item.channel === channel);
+        if (template) {
+          return { ...template, isDefault: false };
+        }
+        const content = defaultTemplate(event, channel);
+        return { event, channel, subject: content.subject ?? null, body: content.body, enabled: true, isDefault: true };
+      })
+    );
+  }
+
+  /**
+   * 保存模板
+   */
+  async upsertTemplate(event: MessageEvent, channel: MessageChannel, input: MessageTemplateInput, userId?: string) {
+    const unknown = findUnknownPlaceholders(`${input.subject || ''}${input.body}`);
+    if (unknown.length > 0) {
+      throw new Error(`模板包含未知占位符: ${unknown.join(', ')}`);
+    }
+
+    const data = {
+      subject: input.subject ?? null,
+      body: input.body,
+      enabled: input.enabled ?? true,
+      updatedBy: userId
+    };
+    return this.prisma.messageTemplate.upsert({
+      where: { event_channel: { event, channel } },
+      create: { event, channel, ...data },
+      update: data
+    });
+  }
+
+  /**
+   * 删除模板，恢复使用默认模板
+   */
+  async resetTemplate(event: MessageEvent, channel: MessageChannel): Promise<void> {
+    await this.prisma.messageTemplate.deleteMany({ where: { event, channel } });
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * 站内通知服务
+ *
+ * 功能：
+ * - 向指定用户或具有某权限的全部用户发送通知
+ * - 通知列表（含未读数）、标记已读、全部已读、删除
+ * - 通知变化通过通知事件总线实时推送给用户
+ *
+ * 业务模块发送通知失败不影响业务本身，调用方应捕获并记录错误
+ */
+
+import { PrismaClient, Prisma, Notification, NotificationType, UserRole, UserStatus } from '@prisma/client';
+import { Permission, RolePermissions } from '../auth/types';
+import { NotificationEventBus, notificationEvents } from '../realtime/notification-events';
+import { logger } from '../utils/logger';
+
+export interface NotificationInput {
+  title: string;
+  content: string;
+  type: NotificationType;
+  data?: Prisma.InputJsonValue; // 关联业务数据（如处方ID），供前端跳转
+}
+
+export interface NotificationQuery {
+  isRead?: boolean;
+  type?: NotificationType;
+  page?: number;
+  pageSize?: number;
+}
+
+/**
+ * 具有指定权限的角色
+ */
+export function rolesWithPermission(permission: Permission): UserRole[] {
+  return (Object.keys(RolePermissions) as UserRole[]).filter((role) => RolePermissions[role].includes(permission));
+}
+
+/**
+ * 通知服务类
+ */
+export class NotificationService {
+  constructor(
+    private prisma: PrismaClient,
+    private events: NotificationEventBus = notificationEvents
+  ) {}
+
+  /**
+   * 向多个用户发送通知（重复的用户只发送一次）
+   */
+  async notifyUsers(userIds: string[], input: NotificationInput): Promise<Notification[]> {
+    const recipients = [...new Set(userIds)];
+    if (recipients.length === 0) return [];
+
+    const notifications = await this.prisma.$transaction(
+      recipients.map((userId) =>
+        this.prisma.notification.create({
+          data: { userId, ...input }
+        })
+      )
+    );
+
+    for (const notification of notifications) {
+      this.events.publish({ type: 'created', userId: notification.userId, notification });
+    }
+    logger.debug(`通知已发送 - 标题: ${input.title}, 接收人数: ${notifications.length}`);
+    return notifications;
+  }
+
+  /**
+   * 向单个用户发送通知
+   */
+  async notifyUser(userId: string, input: NotificationInput): Promise<Notification> {
+    const [notification] = await this.notifyUsers([userId], input);
+    return notification;
+  }
+
+  /**
+   * 向具有指定权限的全部在职用户发送通知
+   * @param excludeUserId 不通知的用户（通常是触发操作的用户本人）
+   */
+  async notifyPermission(
+    permission: Permission,
+    input: NotificationInput,
+    excludeUserId?: string
+  ): Promise<Notification[]> {
+    const users = await this.prisma.user.findMany({
+      where: {
+        role: { in: rolesWithPermission(permission) },
+        status: UserStatus.ACTIVE,
+        ...(excludeUserId ? { id: { not: excludeUserId } } : {})
+      },
+      select: { id: true }
+    });
+    return this.notifyUsers(users.map((user) => user.id), input);
+  }
+
+  /**
+   * 管理员发送系统通知，接收人必须是在职用户
+   */
+  async sendSystemNotification(
+    senderId: string,
+    userIds: string[],
+    input: { title: string; content: string }
+  ): Promise<Notification[]> {
+    const recipients = [...new Set(userIds)];
+    const count = await this.prisma.user.count({
+      where: { id: { in: recipients }, status: UserStatus.ACTIVE }
+    });
+    if (count !== recipients.length) {
+      throw new Error('接收人不存在');
+    }
+
+    return this.notifyUsers(recipients, {
+      ...input,
+      type: NotificationType.SYSTEM_ALERT,
+      data: { senderId }
+    });
+  }
+
+  /**
+   * 获取用户的通知列表（按时间倒序）和未读数
+   */
+  async listNotifications(userId: string, query: NotificationQuery = {}) {
+    const { page = 1, pageSize = 20 } = query;
+    const where: Prisma.NotificationWhereInput = { userId };
+    if (query.isRead !== undefined) where.isRead = query.isRead;
+    if (query.type) where.type = query.type;
+
+    const [total, unreadCount, notifications] = await Promise.all([
+      this.prisma.notification.count({ where }),
+      this.getUnreadCount(userId),
+      this.prisma.notification.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize
+      })
+    ]);
+
+    return { notifications, total, unreadCount, page, pageSize };
+  }
+
+  /**
+   * 获取未读通知数
+   */
+  async getUnreadCount(userId: string): Promise<number> {
+    return this.prisma.notification.count({ where: { userId, isRead: false } });
+  }
+
+  /**
+   * 标记通知已读（只能操作自己的通知）
+   */
+  async markAsRead(userId: string, id: string): Promise<Notification> {
+    const notification = await this.prisma.notification.findFirst({ where: { id, userId } });
+    if (!notification) {
+      throw new Error('通知不存在');
+    }
+    if (notification.isRead) {
+      return notification;
+    }
+
+    const updated = await this.prisma.notification.update({
+      where: { id },
+      data: { isRead: true, readAt: new Date() }
+    });
+    this.events.publish({ type: 'read', userId, notificationIds: [id] });
+    return updated;
+  }
+
+  /**
+   * 全部标记已读
+   * @returns 标记的通知数
+   */
+  async markAllAsRead(userId: string): Promise<number> {
+    const result = await this.prisma.notification.updateMany({
+      where: { userId, isRead: false },
+      data: { isRead: true, readAt: new Date() }
+    });
+    if (result.count > 0) {
+      this.events.publish({ type: 'read', userId, notificationIds: null });
+    }
+    return result.count;
+  }
+
+  /**
+   * 删除通知（只能删除自己的通知）
+   */
+  async deleteNotification(userId: string, id: string): Promise<void> {
+    const result = await this.prisma.notification.deleteMany({ where: { id, userId } });
+    if (result.count === 0) {
+      throw new Error('通知不存在');
+    }
+    this.events.publish({ type: 'deleted', userId, notificationIds: [id] });
+  }
+}
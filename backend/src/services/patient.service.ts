@@ -10,6 +10,7 @@
 
 import { PrismaClient, Patient, Gender, Prisma } from '@prisma/client';
 import { logger } from '../utils/logger';
+import { patientBlindIndex } from '../utils/patient-encryption';
 
 export interface CreatePatientInput {
   name: string;
@@ -40,7 +41,7 @@ export interface UpdatePatientInput {
 }
 
 export interface PatientSearchParams {
-  keyword?: string; // 姓名、身份证、电话模糊搜索
+  keyword?: string; // 姓名模糊搜索，身份证、电话精确匹配（加密字段通过盲索引查询）
   gender?: Gender;
   ageMin?: number;
   ageMax?: number;
@@ -237,6 +238,63 @@ export class PatientService {
     }
   }
 
+  /**
+   * 构建患者搜索条件（年龄筛选需在查询后按出生日期计算）
+   */
+  private buildSearchWhere(params: PatientSearchParams): Prisma.PatientWhereInput {
+    const { keyword, gender, bloodType, hasAllergies } = params;
+
+    const where: Prisma.PatientWhereInput = {
+      deletedAt: null // 不包含已删除的患者
+    };
+
+    // 关键词搜索（姓名模糊匹配；电话、身份证已加密，通过盲索引精确匹配）
+    if (keyword) {
+      const keywordIndex = patientBlindIndex(keyword);
+      where.OR = [
+        { name: { contains: keyword } },
+        { phoneHash: keywordIndex },
+        { idCardHash: keywordIndex }
+      ];
+    }
+
+    // 性别筛选
+    if (gender) {
+      where.gender = gender;
+    }
+
+    // 血型筛选
+    if (bloodType) {
+      where.bloodType = bloodType;
+    }
+
+    // 过敏史筛选
+    if (hasAllergies !== undefined) {
+      if (hasAllergies) {
+        where.allergies = { not: null };
+      } else {
+        where.allergies = null;
+      }
+    }
+
+    return where;
+  }
+
+  /**
+   * 按年龄筛选患者
+   */
+  private filterByAge(patients: Patient[], ageMin?: number, ageMax?: number): Patient[] {
+    if (ageMin === undefined && ageMax === undefined) {
+      return patients;
+    }
+    return patients.filter(patient => {
+      const age = this.calculateAge(new Date(patient.birthDate));
+      if (ageMin !== undefined && age < ageMin) return false;
+      if (ageMax !== undefined && age > ageMax) return false;
+      return true;
+    });
+  }
+
   /**
    * 搜索和筛选患者
    */
@@ -249,67 +307,25 @@ export class PatientService {
   }> {
     try {
       const {
-        keyword,
-        gender,
         ageMin,
         ageMax,
-        bloodType,
-        hasAllergies,
         page = 1,
         limit = 20,
         sortBy = 'createdAt',
         sortOrder = 'desc'
       } = params;
 
-      // 构建查询条件
-      const where: Prisma.PatientWhereInput = {
-        deletedAt: null // 不包含已删除的患者
-      };
-
-      // 关键词搜索（姓名、电话）
-      if (keyword) {
-        where.OR = [
-          { name: { contains: keyword } },
-          { phone: { contains: keyword } }
-        ];
-      }
-
-      // 性别筛选
-      if (gender) {
-        where.gender = gender;
-      }
-
-      // 血型筛选
-      if (bloodType) {
-        where.bloodType = bloodType;
-      }
-
-      // 过敏史筛选
-      if (hasAllergies !== undefined) {
-        if (hasAllergies) {
-          where.allergies = { not: null };
-        } else {
-          where.allergies = null;
-        }
-      }
-
       // 年龄筛选需要先查询所有患者再过滤（由于Prisma不支持直接计算年龄）
-      let patients = await this.prisma.patient.findMany({
-        where,
-        orderBy: {
-          [sortBy]: sortOrder
-        }
-      });
-
-      // 应用年龄筛选
-      if (ageMin !== undefined || ageMax !== undefined) {
-        patients = patients.filter(patient => {
-          const age = this.calculateAge(new Date(patient.birthDate));
-          if (ageMin !== undefined && age < ageMin) return false;
-          if (ageMax !== undefined && age > ageMax) return false;
-          return true;
-        });
-      }
+      const patients = this.filterByAge(
+        await this.prisma.patient.findMany({
+          where: this.buildSearchWhere(params),
+          orderBy: {
+            [sortBy]: sortOrder
+          }
+        }),
+        ageMin,
+        ageMax
+      );
 
       // 分页
       const total = patients.length;
@@ -330,6 +346,33 @@ export class PatientService {
     }
   }
 
+  /**
+   * 分批遍历全部搜索结果（忽略分页参数，用于导出）
+   * @param batchSize 每批查询的患者数
+   */
+  async *iterateSearchResults(params: PatientSearchParams, batchSize: number = 500): AsyncGenerator<Patient[]> {
+    const { ageMin, ageMax, sortBy = 'createdAt', sortOrder = 'desc' } = params;
+    const where = this.buildSearchWhere(params);
+    let cursor: string | undefined;
+
+    while (true) {
+      const batch = await this.prisma.patient.findMany({
+        where,
+        orderBy: [{ [sortBy]: sortOrder }, { id: 'asc' }],
+        take: batchSize,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+      });
+      if (batch.length === 0) return;
+
+      const patients = this.filterByAge(batch, ageMin, ageMax);
+      if (patients.length > 0) {
+        yield patients;
+      }
+      if (batch.length < batchSize) return;
+      cursor = batch[batch.length - 1].id;
+    }
+  }
+
   /**
    * 获取患者病历历史
    */
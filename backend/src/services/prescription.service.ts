@@ -6,10 +6,21 @@
  * - 处方打印数据生成
  * - 处方历史查询
  * - 处方状态管理
+ * - 发药库存扣减（按效期先出FEFO分配批次）
+ * - 处方审核通过时通知开方医生，发药后检查低库存
  * - 处方统计信息
  */
 
-import { PrismaClient, Prescription, PrescriptionItem, PrescriptionStatus } from '@prisma/client';
+import {
+  PrismaClient,
+  Prescription,
+  PrescriptionItem,
+  PrescriptionStatus,
+  InventoryTransactionType,
+  NotificationType
+} from '@prisma/client';
+import { InventoryService } from './inventory.service';
+import { NotificationService } from './notification.service';
 import { logger } from '../utils/logger';
 
 export interface CreatePrescriptionDTO {
@@ -45,6 +56,57 @@ export interface PrescriptionSearchOptions {
   pageSize?: number;
 }
 
+export interface StockBatch {
+  id: string;
+  batchNo: string;
+  quantity: number;
+  expiryDate: Date;
+}
+
+export interface BatchAllocation {
+  stockId: string;
+  batchNo: string;
+  expiryDate: Date;
+  quantity: number;
+}
+
+/**
+ * 按效期先出(FEFO)分配库存批次
+ * 跳过已过期批次（效期早于当天），返回各批次的扣减数量及未满足的缺口
+ */
+export function allocateBatchesFefo(
+  batches: StockBatch[],
+  quantity: number,
+  asOf: Date = new Date()
+): { allocations: BatchAllocation[]; shortfall: number } {
+  const today = new Date(asOf);
+  today.setHours(0, 0, 0, 0);
+
+  const available = batches
+    .filter(batch => batch.quantity > 0 && batch.expiryDate >= today)
+    .sort((a, b) =>
+      a.expiryDate.getTime() - b.expiryDate.getTime() || a.batchNo.localeCompare(b.batchNo)
+    );
+
+  const allocations: BatchAllocation[] = [];
+  let remaining = quantity;
+
+  for (const batch of available) {
+    if (remaining <= 0) break;
+
+    const take = Math.min(batch.quantity, remaining);
+    allocations.push({
+      stockId: batch.id,
+      batchNo: batch.batchNo,
+      expiryDate: batch.expiryDate,
+      quantity: take
+    });
+    remaining -= take;
+  }
+
+  return { allocations, shortfall: remaining };
+}
+
 export interface PrescriptionPrintData {
   prescription: Prescription & {
     patient: any;
@@ -59,7 +121,13 @@ export interface PrescriptionPrintData {
  * 处方管理服务类
  */
 export class PrescriptionService {
-  constructor(private prisma: PrismaClient) {}
+  private inventoryService: InventoryService;
+  private notificationService: NotificationService;
+
+  constructor(private prisma: PrismaClient) {
+    this.inventoryService = new InventoryService(prisma);
+    this.notificationService = new NotificationService(prisma);
+  }
 
   /**
    * 生成处方编号
@@ -286,7 +354,8 @@ export class PrescriptionService {
                 include: {
                   category: true
                 }
-              }
+              },
+              allocations: true
             }
           }
         }
@@ -347,8 +416,9 @@ export class PrescriptionService {
 
   /**
    * 审核并批准处方
+   * @param approverId 审核人用户ID，审核人不是开方医生本人时通知开方医生
    */
-  async approvePrescription(id: string): Promise<Prescription> {
+  async approvePrescription(id: string, approverId?: string): Promise<Prescription> {
     try {
       const prescription = await this.prisma.prescription.findUnique({
         where: { id }
@@ -380,6 +450,19 @@ export class PrescriptionService {
       });
 
       logger.info(`批准处方成功: ${updated.prescriptionNo}`);
+
+      if (updated.doctor.userId !== approverId) {
+        try {
+          await this.notificationService.notifyUser(updated.doctor.userId, {
+            title: '处方已审核通过',
+            content: `处方${updated.prescriptionNo}（患者：${updated.patient.name}）已审核通过，可以发药。`,
+            type: NotificationType.PRESCRIPTION_READY,
+            data: { prescriptionId: updated.id, prescriptionNo: updated.prescriptionNo }
+          });
+        } catch (error) {
+          logger.error(`处方审核通知发送失败: ${updated.prescriptionNo}`, error);
+        }
+      }
       return updated;
     } catch (error) {
       logger.error('批准处方失败:', error);
@@ -389,39 +472,107 @@ export class PrescriptionService {
 
   /**
    * 发药 (更新处方状态为已发药)
+   * 在同一事务内按FEFO扣减各批次库存并记录批次分配，库存不足时整体回滚
    */
-  async dispensePrescription(id: string): Promise<Prescription> {
+  async dispensePrescription(id: string, operatorId?: string): Promise<Prescription> {
     try {
-      const prescription = await this.prisma.prescription.findUnique({
-        where: { id }
-      });
+      const updated = await this.prisma.$transaction(async (tx) => {
+        const prescription = await tx.prescription.findUnique({
+          where: { id },
+          include: {
+            items: {
+              include: {
+                medicine: true
+              }
+            }
+          }
+        });
 
-      if (!prescription) {
-        throw new Error('处方不存在');
-      }
+        if (!prescription) {
+          throw new Error('处方不存在');
+        }
 
-      if (prescription.status !== PrescriptionStatus.APPROVED) {
-        throw new Error('处方尚未批准,无法发药');
-      }
+        if (prescription.status !== PrescriptionStatus.APPROVED) {
+          throw new Error('处方尚未批准,无法发药');
+        }
 
-      const updated = await this.prisma.prescription.update({
-        where: { id },
-        data: {
-          status: PrescriptionStatus.DISPENSED,
-          dispensedAt: new Date()
-        },
-        include: {
-          patient: true,
-          doctor: true,
-          items: {
-            include: {
-              medicine: true
-            }
+        // 按状态条件更新，防止并发重复发药
+        const claimed = await tx.prescription.updateMany({
+          where: { id, status: PrescriptionStatus.APPROVED },
+          data: {
+            status: PrescriptionStatus.DISPENSED,
+            dispensedAt: new Date()
           }
+        });
+
+        if (claimed.count === 0) {
+          throw new Error('处方状态已变更,无法发药');
         }
+
+        const now = new Date();
+        const today = new Date(now);
+        today.setHours(0, 0, 0, 0);
+
+        for (const item of prescription.items) {
+          const batches = await tx.medicineStock.findMany({
+            where: {
+              medicineId: item.medicineId,
+              quantity: { gt: 0 },
+              expiryDate: { gte: today }
+            },
+            orderBy: [{ expiryDate: 'asc' }, { batchNo: 'asc' }]
+          });
+
+          const { allocations, shortfall } = allocateBatchesFefo(batches, item.quantity, now);
+
+          if (shortfall > 0) {
+            const { name, unit } = item.medicine;
+            throw new Error(
+              `药品库存不足: ${name} 需要${item.quantity}${unit}, 可用${item.quantity - shortfall}${unit}`
+            );
+          }
+
+          for (const allocation of allocations) {
+            await this.inventoryService.applyMovement(tx, {
+              stockId: allocation.stockId,
+              quantity: -allocation.quantity,
+              type: InventoryTransactionType.DISPENSE,
+              referenceType: 'PRESCRIPTION',
+              referenceId: id,
+              operatorId
+            });
+
+            await tx.prescriptionDispenseAllocation.create({
+              data: {
+                prescriptionItemId: item.id,
+                ...allocation
+              }
+            });
+          }
+        }
+
+        return tx.prescription.findUniqueOrThrow({
+          where: { id },
+          include: {
+            patient: true,
+            doctor: true,
+            items: {
+              include: {
+                medicine: true,
+                allocations: true
+              }
+            }
+          }
+        });
       });
 
       logger.info(`发药成功: ${updated.prescriptionNo}`);
+
+      const consumed = new Map<string, number>();
+      for (const item of updated.items) {
+        consumed.set(item.medicineId, (consumed.get(item.medicineId) || 0) + item.quantity);
+      }
+      await this.inventoryService.checkLowStock(consumed);
       return updated;
     } catch (error) {
       logger.error('发药失败:', error);
@@ -431,30 +582,71 @@ export class PrescriptionService {
 
   /**
    * 取消处方
+   * 已发药的处方取消时按发药记录将数量退回原批次
    */
-  async cancelPrescription(id: string): Promise<Prescription> {
+  async cancelPrescription(id: string, operatorId?: string): Promise<Prescription> {
     try {
-      const prescription = await this.prisma.prescription.findUnique({
-        where: { id }
-      });
+      const updated = await this.prisma.$transaction(async (tx) => {
+        const prescription = await tx.prescription.findUnique({
+          where: { id }
+        });
 
-      if (!prescription) {
-        throw new Error('处方不存在');
-      }
+        if (!prescription) {
+          throw new Error('处方不存在');
+        }
 
-      if (prescription.status === PrescriptionStatus.DISPENSED) {
-        throw new Error('已发药的处方无法取消');
-      }
+        if (prescription.status === PrescriptionStatus.CANCELLED) {
+          throw new Error('处方已取消');
+        }
 
-      const updated = await this.prisma.prescription.update({
-        where: { id },
-        data: {
-          status: PrescriptionStatus.CANCELLED
-        },
-        include: {
-          patient: true,
-          doctor: true
+        // 按状态条件更新，防止与发药并发
+        const claimed = await tx.prescription.updateMany({
+          where: { id, status: prescription.status },
+          data: {
+            status: PrescriptionStatus.CANCELLED
+          }
+        });
+
+        if (claimed.count === 0) {
+          throw new Error('处方状态已变更,请刷新后重试');
         }
+
+        if (prescription.status === PrescriptionStatus.DISPENSED) {
+          const allocations = await tx.prescriptionDispenseAllocation.findMany({
+            where: {
+              prescriptionItem: { prescriptionId: id },
+              returnedAt: null
+            }
+          });
+
+          const returnedAt = new Date();
+          for (const allocation of allocations) {
+            await this.inventoryService.applyMovement(tx, {
+              stockId: allocation.stockId,
+              quantity: allocation.quantity,
+              type: InventoryTransactionType.DISPENSE_RETURN,
+              reason: '处方取消退药',
+              referenceType: 'PRESCRIPTION',
+              referenceId: id,
+              operatorId
+            });
+
+            await tx.prescriptionDispenseAllocation.update({
+              where: { id: allocation.id },
+              data: { returnedAt }
+            });
+          }
+
+          logger.info(`处方退药: ${prescription.prescriptionNo}, 退回 ${allocations.length} 个批次`);
+        }
+
+        return tx.prescription.findUniqueOrThrow({
+          where: { id },
+          include: {
+            patient: true,
+            doctor: true
+          }
+        });
       });
 
       logger.info(`取消处方成功: ${updated.prescriptionNo}`);
@@ -0,0 +1,276 @@
+/**
+ * AI提示词管理服务
+ *
+ * 功能：
+ * - 提示词按版本保存，每个提示词在全院和各科室分别有一个激活版本
+ * - 调用时优先使用科室版本，其次全院版本，都没有时使用内置默认提示词
+ * - 编辑保存为新版本，回滚即重新激活历史版本，恢复默认即停用全部版本
+ * - 预览：使用示例变量渲染提示词
+ */
+
+import { PrismaClient, Prisma, AIPromptVersion } from '@prisma/client';
+import {
+  DEFAULT_PROMPTS,
+  PROMPT_KEYS,
+  PromptContent,
+  PromptKey,
+  PromptVariables,
+  findUnknownVariables,
+  isPromptKey,
+  renderPrompt,
+  samplePromptVariables
+} from '../ai/prompts';
+import { logger } from '../utils/logger';
+
+export interface ResolvedPrompt extends PromptContent {
+  key: PromptKey;
+  version: number; // 0表示内置默认提示词
+  versionId: string | null;
+  departmentId: string | null;
+}
+
+export interface RenderedPrompt {
+  prompt: ResolvedPrompt;
+  system: string;
+  user: string;
+}
+
+export interface CreatePromptVersionInput {
+  departmentId?: string | null;
+  system: string;
+  user: string;
+  note?: string;
+  activate?: boolean; // 默认保存后立即激活
+}
+
+export interface PromptRunQuery {
+  feature?: string;
+  promptVersionId?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+/**
+ * AI提示词管理服务类
+ */
+export class PromptRegistryService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * 获取调用时使用的提示词
+   */
+  async resolve(key: PromptKey, departmentId?: string | null): Promise<ResolvedPrompt> {
+    const active = await this.prisma.aIPromptVersion.findMany({
+      where: {
+        key,
+        isActive: true,
+        OR: departmentId ? [{ departmentId }, { departmentId: null }] : [{ departmentId: null }]
+      }
+    });
+    const version = active.find((item) => item.departmentId) ?? active[0];
+
+    if (!version) {
+      const { system, user } = DEFAULT_PROMPTS[key];
+      return { key, version: 0, versionId: null, departmentId: null, system, user };
+    }
+    return {
+      key,
+      version: version.version,
+      versionId: version.id,
+      departmentId: version.departmentId,
+      system: version.system,
+      user: version.user
+    };
+  }
+
+  /**
+   * 获取并渲染提示词
+   */
+  async render(key: PromptKey, variables: PromptVariables, departmentId?: string | null): Promise<RenderedPrompt> {
+    const prompt = await this.resolve(key, departmentId);
+    return {
+      prompt,
+      system: renderPrompt(prompt.system, variables),
+      user: renderPrompt(prompt.user, variables)
+    };
+  }
+
+  /**
+   * 获取全部提示词及当前激活的版本
+   */
+  async listPrompts() {
+    const active = await this.prisma.aIPromptVersion.findMany({
+      where: { isActive: true },
+      include: { department: { select: { id: true, name: true } } }
+    });
+
+    return PROMPT_KEYS.map((key) => {
+      const { name, description, variables } = DEFAULT_PROMPTS[key];
+      const versions = active.filter((item) => item.key === key);
+      return {
+        key,
+        name,
+        description,
+        variables,
+        activeVersion: versions.find((item) => !item.departmentId)?.version ?? 0,
+        departmentOverrides: versions
+          .filter((item) => item.departmentId)
+          .map((item) => ({ departmentId: item.departmentId, department: item.department, version: item.version }))
+      };
+    });
+  }
+
+  /**
+   * 获取提示词的历史版本（默认全院版本）
+   */
+  async listVersions(key: string, departmentId?: string | null) {
+    const promptKey = this.assertKey(key);
+    const versions = await this.prisma.aIPromptVersion.findMany({
+      where: { key: promptKey, departmentId: departmentId || null },
+      orderBy: { version: 'desc' }
+    });
+
+    return { default: DEFAULT_PROMPTS[promptKey], versions };
+  }
+
+  /**
+   * 保存新版本
+   */
+  async createVersion(key: string, input: CreatePromptVersionInput, userId?: string): Promise<AIPromptVersion> {
+    const promptKey = this.assertKey(key);
+    const departmentId = input.departmentId || null;
+
+    const unknown = findUnknownVariables(promptKey, `${input.system}\n${input.user}`);
+    if (unknown.length > 0) {
+      throw new Error(`提示词包含未知变量: ${unknown.join(', ')}`);
+    }
+    if (departmentId) {
+      const department = await this.prisma.department.findUnique({ where: { id: departmentId } });
+      if (!department) {
+        throw new Error('科室不存在');
+      }
+    }
+
+    const activate = input.activate ?? true;
+    const version = await this.prisma.$transaction(async (tx) => {
+      const latest = await tx.aIPromptVersion.findFirst({
+        where: { key: promptKey, departmentId },
+        orderBy: { version: 'desc' }
+      });
+      if (activate) {
+        await tx.aIPromptVersion.updateMany({
+          where: { key: promptKey, departmentId, isActive: true },
+          data: { isActive: false }
+        });
+      }
+      return tx.aIPromptVersion.create({
+        data: {
+          key: promptKey,
+          departmentId,
+          version: (latest?.version ?? 0) + 1,
+          system: input.system,
+          user: input.user,
+          note: input.note,
+          isActive: activate,
+          createdBy: userId
+        }
+      });
+    });
+
+    logger.info(`AI提示词保存成功: ${promptKey} v${version.version}${departmentId ? ` (科室 ${departmentId})` : ''}`);
+    return version;
+  }
+
+  /**
+   * 激活指定版本（用于回滚）
+   */
+  async activateVersion(id: string): Promise<AIPromptVersion> {
+    const version = await this.prisma.aIPromptVersion.findUnique({ where: { id } });
+    if (!version) {
+      throw new Error('提示词版本不存在');
+    }
+
+    const [, activated] = await this.prisma.$transaction([
+      this.prisma.aIPromptVersion.updateMany({
+        where: { key: version.key, departmentId: version.departmentId, isActive: true },
+        data: { isActive: false }
+      }),
+      this.prisma.aIPromptVersion.update({ where: { id }, data: { isActive: true } })
+    ]);
+
+    logger.info(`AI提示词已切换到版本: ${version.key} v${version.version}`);
+    return activated;
+  }
+
+  /**
+   * 恢复内置默认提示词（科室恢复后使用全院版本）
+   */
+  async resetToDefault(key: string, departmentId?: string | null): Promise<void> {
+    const promptKey = this.assertKey(key);
+    await this.prisma.aIPromptVersion.updateMany({
+      where: { key: promptKey, departmentId: departmentId || null, isActive: true },
+      data: { isActive: false }
+    });
+    logger.info(`AI提示词已恢复默认: ${promptKey}${departmentId ? ` (科室 ${departmentId})` : ''}`);
+  }
+
+  /**
+   * 预览提示词：未指定内容时预览当前生效的提示词
+   */
+  async preview(key: string, content?: PromptContent, variables?: PromptVariables, departmentId?: string | null) {
+    const promptKey = this.assertKey(key);
+    const unknown = content ? findUnknownVariables(promptKey, `${content.system}\n${content.user}`) : [];
+    if (unknown.length > 0) {
+      throw new Error(`提示词包含未知变量: ${unknown.join(', ')}`);
+    }
+
+    const template = content ?? (await this.resolve(promptKey, departmentId));
+    const values = { ...samplePromptVariables(promptKey), ...variables };
+    return {
+      system: renderPrompt(template.system, values),
+      user: renderPrompt(template.user, values),
+      variables: values
+    };
+  }
+
+  /**
+   * 获取AI辅助调用记录（可按提示词和版本筛选）
+   */
+  async listRuns(query: PromptRunQuery = {}) {
+    const { page = 1, pageSize = 20 } = query;
+    const where: Prisma.AIAssistantRunWhereInput = {};
+    if (query.feature) where.feature = query.feature;
+    if (query.promptVersionId) where.promptVersionId = query.promptVersionId;
+
+    const [total, runs] = await Promise.all([
+      this.prisma.aIAssistantRun.count({ where }),
+      this.prisma.aIAssistantRun.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize
+      })
+    ]);
+
+    return { runs, total, page, pageSize };
+  }
+
+  /**
+   * 用户所在科室（医生），用于选择科室提示词
+   */
+  async departmentOf(userId: string): Promise<string | null> {
+    const doctor = await this.prisma.doctor.findUnique({ where: { userId }, select: { departmentId: true } });
+    return doctor?.departmentId ?? null;
+  }
+
+  private assertKey(key: string): PromptKey {
+    if (!isPromptKey(key)) {
+      throw new Error('提示词不存在');
+    }
+    return key;
+  }
+}
@@ -0,0 +1,332 @@
+/**
+ * 排队排序策略服务
+ *
+ * 功能：
+ * - 可插拔的候诊排序策略（严格优先级、等待时间老化）
+ * - 限制紧急患者连续插队次数，避免普通患者长时间等待
+ * - 按科室配置排序策略，未配置时使用系统默认
+ * - 给出每位患者排在当前位置的原因
+ */
+
+import { PrismaClient, Prisma, Priority } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { QueuePolicySchema } from '../validation/schemas';
+
+const MINUTE = 60 * 1000;
+const INSERTION_HISTORY_LIMIT = 50; // 统计连续插队时最多回看的叫号记录数
+
+/**
+ * 优先级排序权重（EMERGENCY > URGENT > NORMAL）
+ */
+export const PRIORITY_ORDER: Record<Priority, number> = {
+  [Priority.EMERGENCY]: 3,
+  [Priority.URGENT]: 2,
+  [Priority.NORMAL]: 1
+};
+
+/**
+ * 排队顺序比较：优先级高的在前，相同优先级按排队时间
+ */
+export function compareQueueOrder(
+  a: { priority: Priority; queuedAt: Date },
+  b: { priority: Priority; queuedAt: Date }
+): number {
+  if (a.priority !== b.priority) {
+    return PRIORITY_ORDER[b.priority] - PRIORITY_ORDER[a.priority];
+  }
+  return a.queuedAt.getTime() - b.queuedAt.getTime();
+}
+
+/**
+ * 计算插入到候诊队列第position位（从1开始）所需的排队时间
+ * waiting需已按叫号顺序排列；只在同优先级患者之间调整，高优先级患者始终在前
+ */
+export function queuedAtForPosition(
+  waiting: { priority: Priority; queuedAt: Date }[],
+  priority: Priority,
+  position: number,
+  now: Date = new Date()
+): Date {
+  const index = Math.min(Math.max(position - 1, 0), waiting.length);
+  const before = waiting.slice(0, index).filter((entry) => entry.priority === priority).pop();
+  const after = waiting.slice(index).find((entry) => entry.priority === priority);
+
+  if (!after) {
+    return before ? new Date(Math.max(now.getTime(), before.queuedAt.getTime() + 1)) : now;
+  }
+  if (!before) {
+    return new Date(after.queuedAt.getTime() - 1000);
+  }
+  return new Date(Math.floor((before.queuedAt.getTime() + after.queuedAt.getTime()) / 2));
+}
+
+export type QueuePolicyType = 'strict' | 'aging';
+
+/**
+ * 排序策略配置
+ */
+export interface QueuePolicyConfig {
+  type: QueuePolicyType;
+  agingMinutes: number; // 每等待多少分钟提升一级优先级（仅aging策略）
+  maxConsecutiveInsertions: number; // 非急诊患者最多连续插队次数，0表示不限制（仅aging策略）
+}
+
+/**
+ * 排队位置原因
+ */
+export type QueueOrderReason =
+  | 'emergency' // 急诊优先
+  | 'priority_insertion' // 优先级更高，排在更早排队的患者之前
+  | 'aged' // 等待时间较长，优先级已提升
+  | 'insertion_capped' // 连续插队已达上限，按排队顺序
+  | 'arrival_order'; // 按排队顺序
+
+export const QUEUE_ORDER_REASON_TEXT: Record<QueueOrderReason, string> = {
+  emergency: '急诊优先',
+  priority_insertion: '优先级较高，优先就诊',
+  aged: '等待时间较长，优先级已提升',
+  insertion_capped: '连续插队已达上限，按排队顺序就诊',
+  arrival_order: '按排队顺序'
+};
+
+export interface OrderableEntry {
+  priority: Priority;
+  queuedAt: Date;
+}
+
+export interface OrderedEntry<T> {
+  entry: T;
+  reason: QueueOrderReason;
+  jumped: boolean; // 是否越过了更早排队的非急诊患者
+}
+
+export interface OrderingContext {
+  now: Date;
+  recentInsertions: number; // 最近已连续插队的次数（叫号历史）
+}
+
+/**
+ * 候诊排序策略
+ * order接收候诊患者，返回预计叫号顺序
+ */
+export interface QueueOrderingPolicy {
+  readonly type: QueuePolicyType;
+  order<T extends OrderableEntry>(entries: T[], context: OrderingContext): OrderedEntry<T>[];
+}
+
+const byQueuedAt = (a: OrderableEntry, b: OrderableEntry) => a.queuedAt.getTime() - b.queuedAt.getTime();
+
+/**
+ * 按有效优先级逐个选出下一位患者
+ * 急诊始终最先且不计入插队；其余患者中有效优先级最高者先叫（相同时排队早的先叫），
+ * 越过排队最早的患者即为插队，连续插队达到上限后必须叫排队最早的患者
+ */
+function orderByLevel<T extends OrderableEntry>(
+  entries: T[],
+  context: OrderingContext,
+  level: (entry: T) => number,
+  maxConsecutiveInsertions: number
+): OrderedEntry<T>[] {
+  const emergencies = entries.filter((entry) => entry.priority === Priority.EMERGENCY).sort(byQueuedAt);
+  const pool = entries.filter((entry) => entry.priority !== Priority.EMERGENCY).sort(byQueuedAt);
+  const ordered: OrderedEntry<T>[] = emergencies.map((entry) => ({ entry, reason: 'emergency', jumped: false }));
+  let consecutive = context.recentInsertions;
+
+  while (pool.length > 0) {
+    const head = pool[0];
+    const best = pool.reduce((current, entry) => (level(entry) > level(current) ? entry : current), head);
+    const capped = maxConsecutiveInsertions > 0 && consecutive >= maxConsecutiveInsertions;
+
+    if (best !== head && !capped) {
+      ordered.push({ entry: best, reason: 'priority_insertion', jumped: true });
+      pool.splice(pool.indexOf(best), 1);
+      consecutive += 1;
+      continue;
+    }
+
+    // 排队最早的患者：说明其因老化或插队上限排在了更高优先级患者之前
+    let reason: QueueOrderReason = 'arrival_order';
+    if (best !== head) {
+      reason = 'insertion_capped';
+    } else if (pool.some((entry) => PRIORITY_ORDER[entry.priority] > PRIORITY_ORDER[head.priority])) {
+      reason = 'aged';
+    }
+    ordered.push({ entry: head, reason, jumped: false });
+    pool.shift();
+    consecutive = 0;
+  }
+
+  return ordered;
+}
+
+/**
+ * 严格优先级策略：急诊 > 紧急 > 普通，相同优先级按排队时间，不限制插队
+ */
+export class StrictPriorityPolicy implements QueueOrderingPolicy {
+  readonly type = 'strict' as const;
+
+  order<T extends OrderableEntry>(entries: T[], context: OrderingContext): OrderedEntry<T>[] {
+    return orderByLevel(entries, context, (entry) => PRIORITY_ORDER[entry.priority], 0);
+  }
+}
+
+/**
+ * 老化优先级策略：等待时间越长有效优先级越高（不超过紧急），并限制连续插队次数
+ */
+export class AgingPriorityPolicy implements QueueOrderingPolicy {
+  readonly type = 'aging' as const;
+
+  constructor(
+    private agingMinutes: number,
+    private maxConsecutiveInsertions: number
+  ) {}
+
+  order<T extends OrderableEntry>(entries: T[], context: OrderingContext): OrderedEntry<T>[] {
+    const level = (entry: T) => {
+      const waitedMinutes = Math.max(context.now.getTime() - entry.queuedAt.getTime(), 0) / MINUTE;
+      return Math.min(
+        PRIORITY_ORDER[entry.priority] + waitedMinutes / this.agingMinutes,
+        PRIORITY_ORDER[Priority.URGENT]
+      );
+    };
+    return orderByLevel(entries, context, level, this.maxConsecutiveInsertions);
+  }
+}
+
+/**
+ * 系统默认排序策略配置（环境变量）
+ */
+export function defaultQueuePolicyConfig(): QueuePolicyConfig {
+  return {
+    type: process.env.QUEUE_ORDERING_POLICY === 'strict' ? 'strict' : 'aging',
+    agingMinutes: Number(process.env.QUEUE_AGING_MINUTES) || 30,
+    maxConsecutiveInsertions: Number(process.env.QUEUE_MAX_CONSECUTIVE_INSERTIONS ?? 2)
+  };
+}
+
+/**
+ * 根据配置创建排序策略
+ */
+export function createQueuePolicy(config: QueuePolicyConfig): QueueOrderingPolicy {
+  return config.type === 'strict'
+    ? new StrictPriorityPolicy()
+    : new AgingPriorityPolicy(config.agingMinutes, config.maxConsecutiveInsertions);
+}
+
+/**
+ * 从叫号历史（最近叫号在前）统计当前已连续插队的次数
+ * 急诊叫号不计入也不打断连续插队
+ */
+export function countRecentInsertions(history: { jumpedQueue: boolean; priority: Priority }[]): number {
+  let count = 0;
+  for (const record of history) {
+    if (record.priority === Priority.EMERGENCY) continue;
+    if (!record.jumpedQueue) break;
+    count += 1;
+  }
+  return count;
+}
+
+/**
+ * 排队排序策略服务类
+ */
+export class QueueOrderingService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * 获取科室的排序策略配置
+   * 科室未配置或配置无效时使用系统默认
+   */
+  async getPolicyConfig(departmentId: string): Promise<QueuePolicyConfig & { isDefault: boolean }> {
+    const department = await this.prisma.department.findUnique({
+      where: { id: departmentId },
+      select: { queuePolicy: true }
+    });
+
+    if (department?.queuePolicy) {
+      const parsed = QueuePolicySchema.safeParse(department.queuePolicy);
+      if (parsed.success) {
+        return { ...parsed.data, isDefault: false };
+      }
+      logger.warn(`科室排队策略配置无效，使用默认策略 - 科室: ${departmentId}`);
+    }
+
+    return { ...defaultQueuePolicyConfig(), isDefault: true };
+  }
+
+  /**
+   * 更新科室的排序策略配置，传入null恢复系统默认
+   */
+  async updatePolicyConfig(departmentId: string, config: QueuePolicyConfig | null): Promise<QueuePolicyConfig & { isDefault: boolean }> {
+    const department = await this.prisma.department.findUnique({ where: { id: departmentId } });
+    if (!department) {
+      throw new Error('科室不存在');
+    }
+
+    await this.prisma.department.update({
+      where: { id: departmentId },
+      data: { queuePolicy: config ? { ...config } : Prisma.DbNull }
+    });
+
+    logger.info(`科室排队策略已更新 - 科室: ${department.name}, 策略: ${config ? config.type : '系统默认'}`);
+    return this.getPolicyConfig(departmentId);
+  }
+
+  /**
+   * 统计医生当天已连续插队的次数
+   */
+  async getRecentInsertions(doctorId: string, now: Date = new Date()): Promise<number> {
+    const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const history = await this.prisma.queue.findMany({
+      where: {
+        appointment: { doctorId },
+        lastCalledAt: { gte: startOfDay }
+      },
+      select: {
+        jumpedQueue: true,
+        appointment: { select: { priority: true } }
+      },
+      orderBy: { lastCalledAt: 'desc' },
+      take: INSERTION_HISTORY_LIMIT
+    });
+
+    return countRecentInsertions(
+      history.map((record) => ({ jumpedQueue: record.jumpedQueue, priority: record.appointment.priority }))
+    );
+  }
+
+  /**
+   * 按科室策略排列医生的候诊患者
+   * entries只应包含候诊中（WAITING）的患者
+   */
+  async orderDoctorQueue<T extends OrderableEntry>(
+    entries: T[],
+    doctorId: string,
+    departmentId: string,
+    now: Date = new Date()
+  ): Promise<OrderedEntry<T>[]> {
+    if (entries.length === 0) {
+      return [];
+    }
+
+    const config = await this.getPolicyConfig(departmentId);
+    const recentInsertions = await this.getRecentInsertions(doctorId, now);
+    return createQueuePolicy(config).order(entries, { now, recentInsertions });
+  }
+
+  /**
+   * 按科室策略排列科室的候诊患者（跨医生展示用，不计叫号历史）
+   */
+  async orderDepartmentQueue<T extends OrderableEntry>(
+    entries: T[],
+    departmentId: string,
+    now: Date = new Date()
+  ): Promise<OrderedEntry<T>[]> {
+    if (entries.length === 0) {
+      return [];
+    }
+
+    const config = await this.getPolicyConfig(departmentId);
+    return createQueuePolicy(config).order(entries, { now, recentInsertions: 0 });
+  }
+}
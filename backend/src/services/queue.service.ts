@@ -2,16 +2,41 @@
  * 排队管理服务
  *
  * 功能：
- * - 智能排队算法（优先级、急诊插队）
+ * - 智能排队算法（优先级、急诊插队，按科室策略防止普通患者长时间等待）
  * - 排队号码自动生成
- * - 叫号管理
+ * - 叫号管理（重呼、过号、回队、转诊，多次叫号无应答且超时未到诊自动记为爽约）
+ * - 状态变更按原状态条件更新，并发操作时只有一个生效
  * - 排队状态管理
- * - 排队位置和预计等待时间
+ * - 排队位置和预计等待时间（基于历史就诊时长，排队变化时重新计算）
  * - 排队统计
+ * - 排队状态变化时发布实时事件
+ * - 他人代为叫号时通知接诊医生
+ * - 叫号时向患者发送就诊提醒
  */
 
-import { PrismaClient, Queue, QueueStatus, Priority, AppointmentStatus } from '@prisma/client';
+import {
+  PrismaClient,
+  Prisma,
+  Queue,
+  QueueStatus,
+  Priority,
+  AppointmentStatus,
+  MessageEvent,
+  NotificationType
+} from '@prisma/client';
 import { logger } from '../utils/logger';
+import { queueEvents } from '../realtime/queue-events';
+import { NotificationService } from './notification.service';
+import { MessagingService } from './messaging.service';
+import { summarizePredictionErrors, PredictionErrorSummary, WaitTimeService } from './wait-time.service';
+import {
+  compareQueueOrder,
+  queuedAtForPosition,
+  OrderedEntry,
+  QueueOrderReason,
+  QueueOrderingService,
+  QUEUE_ORDER_REASON_TEXT
+} from './queue-ordering.service';
 
 export interface CreateQueueInput {
   appointmentId: string;
@@ -33,18 +58,87 @@ export interface QueueWithDetails extends Queue {
       };
     };
     priority: Priority;
+    departmentId: string;
   };
 }
 
+export interface QueuePosition {
+  position: number;
+  waitingCount: number;
+  estimatedWaitTime: number;
+  reason: QueueOrderReason | null;
+  reasonText: string | null;
+}
+
+const queueDetailsInclude = {
+  appointment: {
+    include: {
+      patient: {
+        select: {
+          name: true,
+          patientNo: true
+        }
+      },
+      doctor: {
+        include: {
+          user: {
+            select: {
+              username: true
+            }
+          }
+        }
+      },
+      department: {
+        select: {
+          name: true
+        }
+      }
+    }
+  }
+} satisfies Prisma.QueueInclude;
+
 /**
  * 排队管理服务类
  */
 export class QueueService {
   private prisma: PrismaClient;
-  private readonly DEFAULT_CONSULTATION_TIME = 15; // 默认就诊时间（分钟）
+  private waitTimeService: WaitTimeService;
+  private orderingService: QueueOrderingService;
+  private notificationService: NotificationService;
+  private messagingService: MessagingService;
+  private readonly maxCallAttempts = Number(process.env.QUEUE_MAX_CALL_ATTEMPTS) || 3; // 叫号无应答达到次数后过号记为爽约
+  private readonly recallPosition = Number(process.env.QUEUE_RECALL_POSITION) || 3; // 过号回队默认排在第几位
+  private readonly callTimeoutMs = (Number(process.env.QUEUE_CALL_TIMEOUT_MINUTES) || 5) * 60 * 1000; // 最后一次叫号后多久未到诊自动记为爽约
 
   constructor(prisma: PrismaClient) {
     this.prisma = prisma;
+    this.waitTimeService = new WaitTimeService(prisma);
+    this.orderingService = new QueueOrderingService(prisma);
+    this.notificationService = new NotificationService(prisma);
+    this.messagingService = new MessagingService(prisma);
+  }
+
+  /**
+   * 叫号通知：他人（如分诊护士）代为叫号时通知接诊医生，医生本人叫号不通知
+   * @param callerId 叫号人用户ID
+   */
+  private async notifyDoctorOfCall(
+    queue: Prisma.QueueGetPayload<{ include: typeof queueDetailsInclude }>,
+    callerId?: string
+  ): Promise<void> {
+    const doctorUserId = queue.appointment.doctor.userId;
+    if (!callerId || callerId === doctorUserId) return;
+
+    try {
+      await this.notificationService.notifyUser(doctorUserId, {
+        title: '患者已叫号',
+        content: `${queue.appointment.department.name} ${queue.queueNumber}号 ${queue.appointment.patient.name} 已叫号，请准备接诊。`,
+        type: NotificationType.QUEUE_CALL,
+        data: { queueId: queue.id, appointmentId: queue.appointmentId, queueNumber: queue.queueNumber }
+      });
+    } catch (error) {
+      logger.error(`叫号通知发送失败 - 排队号: ${queue.queueNumber}`, error);
+    }
   }
 
   /**
@@ -79,16 +173,12 @@ export class QueueService {
         throw new Error('该挂号已经在排队中');
       }
 
-      // 计算预计就诊时间
-      const estimatedTime = await this.calculateEstimatedTime(appointment.doctorId);
-
-      // 创建排队记录
+      // 创建排队记录（预计就诊时间在入队后按整个队列重新计算）
       const queue = await this.prisma.queue.create({
         data: {
           appointmentId,
           queueNumber: appointment.queueNumber,
-          status: QueueStatus.WAITING,
-          estimatedTime
+          status: QueueStatus.WAITING
         },
         include: {
           appointment: {
@@ -132,6 +222,10 @@ export class QueueService {
         logger.info(`挂号创建后自动加入队列 - 排队号: ${queue.queueNumber}, 患者: ${appointment.patient.name}`);
       }
 
+      const estimates = await this.refreshEstimates(appointment.doctorId);
+      queue.estimatedTime = estimates.get(queue.id) ?? null;
+
+      queueEvents.publish('created', queue, appointment);
       return queue as QueueWithDetails;
     } catch (error) {
       logger.error('创建排队记录失败:', error);
@@ -140,25 +234,17 @@ export class QueueService {
   }
 
   /**
-   * 计算预计就诊时间
+   * 重新计算医生候诊队列的预计就诊时间
+   * 预估失败不影响排队操作本身
    */
-  private async calculateEstimatedTime(doctorId: string): Promise<Date> {
-    // 查询该医生当前等待的患者数量
-    const waitingCount = await this.prisma.queue.count({
-      where: {
-        appointment: {
-          doctorId
-        },
-        status: QueueStatus.WAITING
-      }
-    });
-
-    // 计算预计时间：当前时间 + (等待人数 * 默认就诊时间)
-    const estimatedMinutes = waitingCount * this.DEFAULT_CONSULTATION_TIME;
-    const estimatedTime = new Date();
-    estimatedTime.setMinutes(estimatedTime.getMinutes() + estimatedMinutes);
-
-    return estimatedTime;
+  private async refreshEstimates(doctorId: string): Promise<Map<string, Date>> {
+    try {
+      const estimates = await this.waitTimeService.recalculateDoctorQueue(doctorId);
+      return new Map(estimates.map((estimate) => [estimate.id, estimate.estimatedTime]));
+    } catch (error) {
+      logger.warn('更新预计就诊时间失败:', error);
+      return new Map();
+    }
   }
 
   /**
@@ -247,7 +333,7 @@ export class QueueService {
 
   /**
    * 获取科室排队列表
-   * 按优先级和创建时间排序
+   * 已叫号、就诊中的在前，候诊患者按科室排序策略
    */
   async getDepartmentQueue(departmentId: string): Promise<QueueWithDetails[]> {
     try {
@@ -291,8 +377,12 @@ export class QueueService {
         ]
       });
 
-      // 按优先级手动排序（EMERGENCY > URGENT > NORMAL）
-      return this.sortByPriority(queues as QueueWithDetails[]);
+      // 按科室排序策略排序
+      const waiting = await this.orderWaiting(
+        queues.filter((q) => q.status === QueueStatus.WAITING) as QueueWithDetails[],
+        { departmentId }
+      );
+      return this.sortByPriority(queues as QueueWithDetails[], waiting);
     } catch (error) {
       logger.error('获取科室排队列表失败:', error);
       throw new Error('获取科室排队列表失败');
@@ -301,17 +391,24 @@ export class QueueService {
 
   /**
    * 获取医生排队列表
-   * 按优先级和创建时间排序
+   * 已叫号、就诊中的在前，候诊患者按科室排序策略，includeSkipped为true时包含已过号的患者（排在最后）
+   * 已取消挂号的排队同样是过号状态，不在列表中显示
    */
-  async getDoctorQueue(doctorId: string): Promise<QueueWithDetails[]> {
+  async getDoctorQueue(doctorId: string, includeSkipped = false): Promise<QueueWithDetails[]> {
     try {
+      const statuses: QueueStatus[] = [QueueStatus.WAITING, QueueStatus.CALLED, QueueStatus.IN_PROGRESS];
+      if (includeSkipped) {
+        statuses.push(QueueStatus.SKIPPED);
+      }
+
       const queues = await this.prisma.queue.findMany({
         where: {
           appointment: {
-            doctorId
+            doctorId,
+            status: { not: AppointmentStatus.CANCELLED }
           },
           status: {
-            in: [QueueStatus.WAITING, QueueStatus.CALLED, QueueStatus.IN_PROGRESS]
+            in: statuses
           }
         },
         include: {
@@ -345,8 +442,12 @@ export class QueueService {
         ]
       });
 
-      // 按优先级手动排序
-      return this.sortByPriority(queues as QueueWithDetails[]);
+      // 按科室排序策略排序
+      const waiting = queues.filter((q) => q.status === QueueStatus.WAITING) as QueueWithDetails[];
+      const ordered = waiting.length
+        ? await this.orderWaiting(waiting, { departmentId: waiting[0].appointment.departmentId, doctorId })
+        : [];
+      return this.sortByPriority(queues as QueueWithDetails[], ordered);
     } catch (error) {
       logger.error('获取医生排队列表失败:', error);
       throw new Error('获取医生排队列表失败');
@@ -354,93 +455,103 @@ export class QueueService {
   }
 
   /**
-   * 按优先级排序队列
-   * EMERGENCY > URGENT > NORMAL
+   * 按科室排序策略排列候诊患者（预计叫号顺序）
+   * 未指定医生时按科室展示排序，不计叫号历史
    */
-  private sortByPriority(queues: QueueWithDetails[]): QueueWithDetails[] {
-    const priorityOrder = {
-      [Priority.EMERGENCY]: 3,
-      [Priority.URGENT]: 2,
-      [Priority.NORMAL]: 1
-    };
+  private async orderWaiting(
+    waiting: QueueWithDetails[],
+    scope: { departmentId: string; doctorId?: string }
+  ): Promise<OrderedEntry<QueueWithDetails>[]> {
+    const entries = waiting.map((queue) => ({ queue, priority: queue.appointment.priority, queuedAt: queue.queuedAt }));
+    const ordered = scope.doctorId
+      ? await this.orderingService.orderDoctorQueue(entries, scope.doctorId, scope.departmentId)
+      : await this.orderingService.orderDepartmentQueue(entries, scope.departmentId);
+    return ordered.map(({ entry, reason, jumped }) => ({ entry: entry.queue, reason, jumped }));
+  }
 
-    return queues.sort((a, b) => {
-      const aPriority = priorityOrder[a.appointment.priority];
-      const bPriority = priorityOrder[b.appointment.priority];
+  /**
+   * 合并排序结果：已叫号、就诊中的按优先级在前，候诊患者按策略顺序，已过号的在最后
+   */
+  private sortByPriority(queues: QueueWithDetails[], waiting: OrderedEntry<QueueWithDetails>[]): QueueWithDetails[] {
+    const byPriority = (a: QueueWithDetails, b: QueueWithDetails) =>
+      compareQueueOrder(
+        { priority: a.appointment.priority, queuedAt: a.queuedAt },
+        { priority: b.appointment.priority, queuedAt: b.queuedAt }
+      );
+    const inService = queues
+      .filter((q) => q.status === QueueStatus.CALLED || q.status === QueueStatus.IN_PROGRESS)
+      .sort(byPriority);
+    const skipped = queues.filter((q) => q.status === QueueStatus.SKIPPED).sort(byPriority);
 
-      if (aPriority !== bPriority) {
-        return bPriority - aPriority; // 优先级高的排在前面
-      }
+    return [...inService, ...waiting.map((ordered) => ordered.entry), ...skipped];
+  }
 
-      // 相同优先级按创建时间排序
-      return a.createdAt.getTime() - b.createdAt.getTime();
+  /**
+   * 获取医生的候诊队列（预计叫号顺序及原因）
+   */
+  private async getOrderedWaiting(doctorId: string) {
+    const waiting = await this.prisma.queue.findMany({
+      where: {
+        appointment: { doctorId },
+        status: QueueStatus.WAITING
+      },
+      include: queueDetailsInclude
     });
+    if (waiting.length === 0) {
+      return [];
+    }
+    return this.orderWaiting(waiting as QueueWithDetails[], { departmentId: waiting[0].appointment.departmentId, doctorId });
   }
 
   /**
    * 叫号 - 呼叫下一个患者
+   * 排在第一位的患者已被并发叫号或转诊时依次尝试下一位
+   * @param callerId 叫号人用户ID
    */
-  async callNext(doctorId: string): Promise<QueueWithDetails | null> {
+  async callNext(doctorId: string, callerId?: string): Promise<QueueWithDetails | null> {
     try {
-      // 获取医生的排队列表
-      const queues = await this.getDoctorQueue(doctorId);
-
-      if (queues.length === 0) {
-        return null;
-      }
-
-      // 找到第一个等待中的患者
-      const nextQueue = queues.find(q => q.status === QueueStatus.WAITING);
+      // 按科室排序策略取候诊患者
+      for (const next of await this.getOrderedWaiting(doctorId)) {
+        const nextQueue = next.entry;
 
-      if (!nextQueue) {
-        return null;
-      }
+        const calledQueue = await this.prisma.$transaction(async (tx) => {
+          // 更新排队状态为已叫号，记录是否插队用于限制连续插队
+          const claimed = await tx.queue.updateMany({
+            where: { id: nextQueue.id, status: QueueStatus.WAITING },
+            data: {
+              status: QueueStatus.CALLED,
+              callCount: { increment: 1 },
+              lastCalledAt: new Date(),
+              jumpedQueue: next.jumped
+            }
+          });
+          if (claimed.count === 0) return null;
 
-      // 更新排队状态为已叫号
-      const calledQueue = await this.prisma.queue.update({
-        where: { id: nextQueue.id },
-        data: {
-          status: QueueStatus.CALLED
-        },
-        include: {
-          appointment: {
-            include: {
-              patient: {
-                select: {
-                  name: true,
-                  patientNo: true
-                }
-              },
-              doctor: {
-                include: {
-                  user: {
-                    select: {
-                      username: true
-                    }
-                  }
-                }
-              },
-              department: {
-                select: {
-                  name: true
-                }
-              }
+          // 更新挂号状态为就诊中,记录实际叫号时间
+          await tx.appointment.update({
+            where: { id: nextQueue.appointmentId },
+            data: {
+              status: AppointmentStatus.IN_PROGRESS,
+              calledAt: new Date()
             }
-          }
-        }
-      });
+          });
 
-      // 更新挂号状态为就诊中,记录实际叫号时间
-      await this.prisma.appointment.update({
-        where: { id: nextQueue.appointmentId },
-        data: {
-          status: AppointmentStatus.IN_PROGRESS,
-          calledAt: new Date()
-        }
-      });
+          return tx.queue.findUniqueOrThrow({ where: { id: nextQueue.id }, include: queueDetailsInclude });
+        });
+        if (!calledQueue) continue;
 
-      logger.info(`叫号成功 - 排队号: ${calledQueue.queueNumber}, 患者: ${calledQueue.appointment.patient.name}`);
-      return calledQueue as QueueWithDetails;
+        logger.info(`叫号成功 - 排队号: ${calledQueue.queueNumber}, 患者: ${calledQueue.appointment.patient.name}, 原因: ${QUEUE_ORDER_REASON_TEXT[next.reason]}`);
+        await this.refreshEstimates(doctorId);
+        queueEvents.publish('called', calledQueue, calledQueue.appointment);
+        await this.notifyDoctorOfCall(calledQueue, callerId);
+        // 不等待发送完成，失败不影响叫号
+        this.messagingService.notifyAppointment(MessageEvent.QUEUE_CALLED, calledQueue.appointmentId).catch((error) => {
+          logger.error(`叫号消息发送失败 - 排队号: ${calledQueue.queueNumber}`, error);
+        });
+        return calledQueue as QueueWithDetails;
+      }
+
+      return null;
     } catch (error) {
       logger.error('叫号失败:', error);
       throw new Error('叫号失败');
@@ -512,6 +623,8 @@ export class QueueService {
       });
 
       logger.info(`就诊完成 - 排队号: ${completedQueue.queueNumber}`);
+      await this.refreshEstimates(queue.appointment.doctorId);
+      queueEvents.publish('completed', completedQueue, queue.appointment);
       return completedQueue as QueueWithDetails;
     } catch (error) {
       logger.error('完成就诊失败:', error);
@@ -539,64 +652,311 @@ export class QueueService {
         throw new Error('已完成的排队不能取消');
       }
 
-      // 更新排队状态为跳过
-      const cancelledQueue = await this.prisma.queue.update({
+      // 排队状态置为跳过，挂号状态置为已取消（回队、转诊据此排除已取消的排队）
+      const cancelledQueue = await this.prisma.$transaction(async (tx) => {
+        await tx.appointment.update({
+          where: { id: queue.appointmentId },
+          data: {
+            status: AppointmentStatus.CANCELLED
+          }
+        });
+
+        return tx.queue.update({
+          where: { id },
+          data: {
+            status: QueueStatus.SKIPPED
+          },
+          include: queueDetailsInclude
+        });
+      });
+
+      logger.info(`排队取消 - 排队号: ${cancelledQueue.queueNumber}`);
+      await this.refreshEstimates(queue.appointment.doctorId);
+      queueEvents.publish('cancelled', cancelledQueue, queue.appointment);
+      return cancelledQueue as QueueWithDetails;
+    } catch (error) {
+      logger.error('取消排队失败:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 重呼 - 已叫号患者未到诊时再次呼叫
+   * @param callerId 叫号人用户ID
+   */
+  async callAgain(id: string, callerId?: string): Promise<QueueWithDetails> {
+    try {
+      const queue = await this.prisma.queue.findUnique({
         where: { id },
+        include: { appointment: true }
+      });
+
+      if (!queue) {
+        throw new Error('排队记录不存在');
+      }
+
+      if (queue.status !== QueueStatus.CALLED) {
+        throw new Error('只能重呼已叫号的患者');
+      }
+
+      if (queue.callCount >= this.maxCallAttempts) {
+        throw new Error(`已呼叫${queue.callCount}次，请过号处理`);
+      }
+
+      // 按叫号次数条件更新，防止与并发的重呼、过号重复处理
+      const claimed = await this.prisma.queue.updateMany({
+        where: { id, status: QueueStatus.CALLED, callCount: queue.callCount },
         data: {
-          status: QueueStatus.SKIPPED
-        },
-        include: {
-          appointment: {
-            include: {
-              patient: {
-                select: {
-                  name: true,
-                  patientNo: true
-                }
-              },
-              doctor: {
-                include: {
-                  user: {
-                    select: {
-                      username: true
-                    }
-                  }
-                }
-              },
-              department: {
-                select: {
-                  name: true
-                }
-              }
-            }
+          callCount: { increment: 1 },
+          lastCalledAt: new Date()
+        }
+      });
+      if (claimed.count === 0) {
+        throw new Error('排队状态已变更，请刷新后重试');
+      }
+
+      const calledQueue = await this.prisma.queue.findUniqueOrThrow({ where: { id }, include: queueDetailsInclude });
+
+      logger.info(`重呼 - 排队号: ${calledQueue.queueNumber}, 第${calledQueue.callCount}次`);
+      queueEvents.publish('called', calledQueue, queue.appointment);
+      await this.notifyDoctorOfCall(calledQueue, callerId);
+      return calledQueue as QueueWithDetails;
+    } catch (error) {
+      logger.error('重呼失败:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 将已叫号的排队记录过号或记为爽约，挂号状态同步
+   * 按叫号状态和次数条件更新，记录已被并发操作处理时返回null
+   */
+  private async skipCalled(
+    tx: Prisma.TransactionClient,
+    queue: Queue,
+    noShow: boolean
+  ): Promise<QueueWithDetails | null> {
+    const claimed = await tx.queue.updateMany({
+      where: { id: queue.id, status: QueueStatus.CALLED, callCount: queue.callCount },
+      data: {
+        status: noShow ? QueueStatus.NO_SHOW : QueueStatus.SKIPPED
+      }
+    });
+    if (claimed.count === 0) return null;
+
+    await tx.appointment.update({
+      where: { id: queue.appointmentId },
+      data: {
+        status: noShow ? AppointmentStatus.NO_SHOW : AppointmentStatus.CHECKED_IN
+      }
+    });
+
+    return tx.queue.findUniqueOrThrow({ where: { id: queue.id }, include: queueDetailsInclude });
+  }
+
+  /**
+   * 过号 - 已叫号患者未到诊
+   * 叫号次数达到上限时自动记为爽约，挂号状态同步为爽约
+   */
+  async skipQueue(id: string): Promise<QueueWithDetails> {
+    try {
+      const { queue, skippedQueue, noShow } = await this.prisma.$transaction(async (tx) => {
+        const queue = await tx.queue.findUnique({
+          where: { id },
+          include: { appointment: true }
+        });
+
+        if (!queue) {
+          throw new Error('排队记录不存在');
+        }
+
+        if (queue.status !== QueueStatus.CALLED) {
+          throw new Error('只能对已叫号的患者过号');
+        }
+
+        const noShow = queue.callCount >= this.maxCallAttempts;
+        const skippedQueue = await this.skipCalled(tx, queue, noShow);
+        if (!skippedQueue) {
+          throw new Error('排队状态已变更，请刷新后重试');
+        }
+
+        return { queue, skippedQueue, noShow };
+      });
+
+      logger.info(`${noShow ? '爽约' : '过号'} - 排队号: ${skippedQueue.queueNumber}, 已呼叫${queue.callCount}次`);
+      await this.refreshEstimates(queue.appointment.doctorId);
+      queueEvents.publish(noShow ? 'no_show' : 'skipped', skippedQueue, queue.appointment);
+      return skippedQueue;
+    } catch (error) {
+      logger.error('过号失败:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 叫号超时处理（定时任务调用）
+   * 叫号次数已达上限、最后一次叫号后超过QUEUE_CALL_TIMEOUT_MINUTES仍未到诊的患者自动记为爽约
+   * @returns 记为爽约的人数
+   */
+  async expireUnansweredCalls(now: Date = new Date()): Promise<number> {
+    const queues = await this.prisma.queue.findMany({
+      where: {
+        status: QueueStatus.CALLED,
+        callCount: { gte: this.maxCallAttempts },
+        lastCalledAt: { lte: new Date(now.getTime() - this.callTimeoutMs) }
+      },
+      include: { appointment: true }
+    });
+
+    let count = 0;
+    const doctorIds = new Set<string>();
+    for (const queue of queues) {
+      const noShowQueue = await this.prisma.$transaction((tx) => this.skipCalled(tx, queue, true));
+      if (!noShowQueue) continue; // 已到诊或已被手动处理
+
+      count += 1;
+      doctorIds.add(queue.appointment.doctorId);
+      logger.info(`叫号超时记为爽约 - 排队号: ${noShowQueue.queueNumber}, 已呼叫${queue.callCount}次`);
+      queueEvents.publish('no_show', noShowQueue, queue.appointment);
+    }
+
+    for (const doctorId of doctorIds) {
+      await this.refreshEstimates(doctorId);
+    }
+    return count;
+  }
+
+  /**
+   * 回队 - 过号患者到诊后重新排入候诊队列
+   * @param position 排在候诊队列第几位，默认取QUEUE_RECALL_POSITION配置
+   */
+  async recallQueue(id: string, position: number = this.recallPosition): Promise<QueueWithDetails> {
+    try {
+      const { queue, recalledQueue } = await this.prisma.$transaction(async (tx) => {
+        const queue = await tx.queue.findUnique({
+          where: { id },
+          include: { appointment: true }
+        });
+
+        if (!queue) {
+          throw new Error('排队记录不存在');
+        }
+
+        if (queue.status !== QueueStatus.SKIPPED) {
+          throw new Error('只能对已过号的患者回队');
+        }
+
+        if (queue.appointment.status === AppointmentStatus.CANCELLED) {
+          throw new Error('挂号已取消，不能回队');
+        }
+
+        const waiting = (await this.getOrderedWaiting(queue.appointment.doctorId))
+          .map(({ entry }) => ({ priority: entry.appointment.priority, queuedAt: entry.queuedAt }));
+
+        const claimed = await tx.queue.updateMany({
+          where: { id, status: QueueStatus.SKIPPED, appointment: { status: { not: AppointmentStatus.CANCELLED } } },
+          data: {
+            status: QueueStatus.WAITING,
+            queuedAt: queuedAtForPosition(waiting, queue.appointment.priority, position)
           }
+        });
+        if (claimed.count === 0) {
+          throw new Error('排队状态已变更，请刷新后重试');
         }
+
+        const recalledQueue = await tx.queue.findUniqueOrThrow({ where: { id }, include: queueDetailsInclude });
+        return { queue, recalledQueue };
       });
 
-      // 更新挂号状态为已取消
-      await this.prisma.appointment.update({
-        where: { id: queue.appointmentId },
-        data: {
-          status: AppointmentStatus.CANCELLED
+      logger.info(`过号回队 - 排队号: ${recalledQueue.queueNumber}, 位置: 第${position}位`);
+      await this.refreshEstimates(queue.appointment.doctorId);
+      queueEvents.publish('recalled', recalledQueue, queue.appointment);
+      return recalledQueue;
+    } catch (error) {
+      logger.error('过号回队失败:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 转诊 - 转到同科室其他医生的候诊队列
+   * 保留原排队时间，不丢失已等待的时长；叫号次数重新计算
+   */
+  async transferQueue(id: string, doctorId: string): Promise<QueueWithDetails> {
+    try {
+      const { queue, doctor, transferredQueue } = await this.prisma.$transaction(async (tx) => {
+        const queue = await tx.queue.findUnique({
+          where: { id },
+          include: { appointment: true }
+        });
+
+        if (!queue) {
+          throw new Error('排队记录不存在');
+        }
+
+        const transferable: QueueStatus[] = [QueueStatus.WAITING, QueueStatus.CALLED, QueueStatus.SKIPPED];
+        if (!transferable.includes(queue.status)) {
+          throw new Error('当前排队状态不能转诊');
+        }
+
+        if (queue.appointment.status === AppointmentStatus.CANCELLED) {
+          throw new Error('挂号已取消，不能转诊');
+        }
+
+        if (queue.appointment.doctorId === doctorId) {
+          throw new Error('患者已在该医生的队列中');
+        }
+
+        const doctor = await tx.doctor.findUnique({ where: { id: doctorId } });
+        if (!doctor) {
+          throw new Error('医生不存在');
+        }
+
+        if (doctor.departmentId !== queue.appointment.departmentId) {
+          throw new Error('只能转到同科室的医生');
+        }
+
+        const claimed = await tx.queue.updateMany({
+          where: { id, status: queue.status, appointment: { status: { not: AppointmentStatus.CANCELLED } } },
+          data: {
+            status: QueueStatus.WAITING,
+            callCount: 0
+          }
+        });
+        if (claimed.count === 0) {
+          throw new Error('排队状态已变更，请刷新后重试');
         }
+
+        await tx.appointment.update({
+          where: { id: queue.appointmentId },
+          data: {
+            doctorId,
+            status: AppointmentStatus.CHECKED_IN
+          }
+        });
+
+        const transferredQueue = await tx.queue.findUniqueOrThrow({ where: { id }, include: queueDetailsInclude });
+        return { queue, doctor, transferredQueue };
       });
 
-      logger.info(`排队取消 - 排队号: ${cancelledQueue.queueNumber}`);
-      return cancelledQueue as QueueWithDetails;
+      logger.info(`转诊 - 排队号: ${transferredQueue.queueNumber}, 转至医生: ${doctor.name}`);
+      await this.refreshEstimates(queue.appointment.doctorId);
+      await this.refreshEstimates(doctorId);
+      // 原医生和新医生的队列都发生变化
+      queueEvents.publish('transferred', transferredQueue, queue.appointment);
+      queueEvents.publish('transferred', transferredQueue, transferredQueue.appointment);
+      return transferredQueue;
     } catch (error) {
-      logger.error('取消排队失败:', error);
+      logger.error('转诊失败:', error);
       throw error;
     }
   }
 
   /**
    * 获取排队位置信息
+   * 位置为预计叫号顺序，并给出排在该位置的原因
    */
-  async getQueuePosition(id: string): Promise<{
-    position: number;
-    waitingCount: number;
-    estimatedWaitTime: number;
-  }> {
+  async getQueuePosition(id: string): Promise<QueuePosition> {
     try {
       const queue = await this.prisma.queue.findUnique({
         where: { id },
@@ -617,24 +977,28 @@ export class QueueService {
         return {
           position: 0,
           waitingCount: 0,
-          estimatedWaitTime: 0
+          estimatedWaitTime: 0,
+          reason: null,
+          reasonText: null
         };
       }
 
-      // 获取该医生的所有等待队列
-      const waitingQueues = await this.getDoctorQueue(queue.appointment.doctorId);
-
-      // 找到当前排队的位置
-      const position = waitingQueues.findIndex(q => q.id === id) + 1;
-      const waitingCount = waitingQueues.filter(q => q.status === QueueStatus.WAITING).length;
+      // 按科室排序策略排列该医生的候诊队列
+      const waiting = await this.getOrderedWaiting(queue.appointment.doctorId);
+      const index = waiting.findIndex((ordered) => ordered.entry.id === id);
+      const reason = index >= 0 ? waiting[index].reason : null;
 
-      // 计算预计等待时间（分钟）
-      const estimatedWaitTime = (position - 1) * this.DEFAULT_CONSULTATION_TIME;
+      // 预计等待时间（分钟），取排队变化时更新的预计就诊时间
+      const estimatedWaitTime = queue.estimatedTime
+        ? Math.max(Math.round((queue.estimatedTime.getTime() - Date.now()) / 60000), 0)
+        : 0;
 
       return {
-        position,
-        waitingCount,
-        estimatedWaitTime
+        position: index + 1,
+        waitingCount: waiting.length,
+        estimatedWaitTime,
+        reason,
+        reasonText: reason ? QUEUE_ORDER_REASON_TEXT[reason] : null
       };
     } catch (error) {
       logger.error('获取排队位置失败:', error);
@@ -651,6 +1015,7 @@ export class QueueService {
     totalInProgress: number;
     totalCompleted: number;
     averageWaitTime: number;
+    predictionError: PredictionErrorSummary;
   }> {
     try {
       const today = new Date();
@@ -663,7 +1028,8 @@ export class QueueService {
         totalCalled,
         totalInProgress,
         totalCompleted,
-        completedQueues
+        completedQueues,
+        calledQueues
       ] = await Promise.all([
         this.prisma.queue.count({
           where: {
@@ -710,6 +1076,21 @@ export class QueueService {
             status: QueueStatus.COMPLETED,
             actualTime: { not: null }
           }
+        }),
+        // 已叫号的排队，用于统计预估误差
+        this.prisma.queue.findMany({
+          where: {
+            appointment: {
+              departmentId,
+              appointmentDate: { gte: today, lt: tomorrow },
+              calledAt: { not: null }
+            }
+          },
+          select: {
+            estimatedTime: true,
+            initialEstimatedTime: true,
+            appointment: { select: { calledAt: true } }
+          }
         })
       ]);
 
@@ -731,7 +1112,14 @@ export class QueueService {
         totalCalled,
         totalInProgress,
         totalCompleted,
-        averageWaitTime
+        averageWaitTime,
+        predictionError: summarizePredictionErrors(
+          calledQueues.map((queue) => ({
+            calledAt: queue.appointment.calledAt!,
+            initialEstimatedTime: queue.initialEstimatedTime,
+            estimatedTime: queue.estimatedTime
+          }))
+        )
       };
     } catch (error) {
       logger.error('获取科室排队统计失败:', error);
@@ -0,0 +1,576 @@
+/**
+ * 报表服务
+ *
+ * 功能：
+ * - 报表配置管理，报表内容基于统计服务的报表类型定义（不执行原始SQL）
+ * - 按CRON计划或手动生成报表，结果保存到Report.data
+ * - 生成CSV/XLSX/PDF文件，未生成的格式下载时按保存的数据重新生成
+ * - 报表生成后通知接收人
+ */
+
+import { PrismaClient, Prisma, Report, ReportConfig, ReportFormat, ReportType, NotificationType, UserStatus } from '@prisma/client';
+import fs from 'fs/promises';
+import path from 'path';
+import puppeteer from 'puppeteer';
+import { StatisticsService, StatisticsQuery, StatisticsTimeRange } from './statistics.service';
+import { NotificationService } from './notification.service';
+import { logger } from '../utils/logger';
+import { parseCron, nextCronTime } from '../utils/cron';
+import { Sheet, sheetsToCsv, toXlsx } from '../utils/spreadsheet';
+import { statisticsToSheets } from '../utils/statistics-tables';
+import { formatDate } from '../utils/time-range';
+import {
+  ReportQuerySchema,
+  StatisticsQuerySchema,
+  CreateReportConfigInput,
+  UpdateReportConfigInput,
+  ReportQueryInput,
+  ReportSearchInput
+} from '../validation/schemas';
+
+export type ReportSection = NonNullable<ReportQueryInput['sections']>[number];
+export type ReportTrigger = 'schedule' | 'manual';
+
+/**
+ * 统计内容名称
+ */
+export const REPORT_SECTION_TITLES: Record<ReportSection, string> = {
+  patients: '患者统计',
+  doctors: '医生工作量',
+  departments: '科室绩效',
+  appointments: '挂号统计',
+  prescriptions: '处方与收入',
+  medicalRecords: '病历统计'
+};
+
+/**
+ * 报表类型包含的统计内容，自定义报表由query.sections指定
+ */
+export const REPORT_TYPE_SECTIONS: Record<ReportType, ReportSection[]> = {
+  [ReportType.PATIENT_STATISTICS]: ['patients'],
+  [ReportType.DOCTOR_WORKLOAD]: ['doctors', 'appointments'],
+  [ReportType.DEPARTMENT_PERFORMANCE]: ['departments', 'appointments'],
+  [ReportType.MEDICINE_USAGE]: ['prescriptions'],
+  [ReportType.REVENUE_ANALYSIS]: ['prescriptions', 'departments'],
+  [ReportType.CUSTOM]: []
+};
+
+const FILE_TYPES: Record<ReportFormat, { extension: string; contentType: string }> = {
+  [ReportFormat.CSV]: { extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+  [ReportFormat.XLSX]: {
+    extension: 'xlsx',
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  },
+  [ReportFormat.PDF]: { extension: 'pdf', contentType: 'application/pdf' }
+};
+
+/**
+ * 报表数据（保存到Report.data）
+ */
+export interface ReportData {
+  name: string;
+  reportType: ReportType;
+  query: ReportQueryInput;
+  trigger: ReportTrigger;
+  generatedAt: Date | string;
+  sections: { key: ReportSection; title: string; result: unknown }[];
+}
+
+/**
+ * 报表文件
+ */
+export interface ReportFile {
+  buffer: Buffer;
+  filename: string;
+  contentType: string;
+}
+
+/**
+ * 报表配置（query已解析，附带下次执行时间）
+ */
+export type ReportConfigDetail = Omit<ReportConfig, 'query'> & {
+  query: ReportQueryInput;
+};
+
+/**
+ * 报表文件存放目录
+ */
+export function getReportOutputDir(): string {
+  return path.resolve(process.env.REPORT_OUTPUT_DIR || 'storage/reports');
+}
+
+/**
+ * 解析保存的报表查询条件
+ */
+export function parseReportQuery(raw: string): ReportQueryInput {
+  try {
+    return ReportQuerySchema.parse(raw ? JSON.parse(raw) : {});
+  } catch {
+    throw new Error('报表查询条件无效');
+  }
+}
+
+/**
+ * 报表包含的统计内容
+ */
+export function resolveReportSections(reportType: ReportType, query: ReportQueryInput): ReportSection[] {
+  if (reportType === ReportType.CUSTOM) {
+    return query.sections || [];
+  }
+  return REPORT_TYPE_SECTIONS[reportType];
+}
+
+/**
+ * 报表查询条件转换为统计查询
+ */
+function toStatisticsQuery(query: ReportQueryInput): StatisticsQuery {
+  const { timeRange, startDate, endDate, ...filters } = StatisticsQuerySchema.parse(query);
+  return {
+    ...filters,
+    timeRange: timeRange as StatisticsTimeRange,
+    customRange: timeRange === 'CUSTOM' ? { startDate: startDate!, endDate: endDate! } : undefined
+  };
+}
+
+/**
+ * 报表数据转工作表，多项统计内容时以内容名称区分
+ */
+export function buildReportSheets(data: ReportData): Sheet[] {
+  const multiple = data.sections.length > 1;
+  return data.sections.flatMap((section) =>
+    statisticsToSheets(section.result as object, multiple ? section.title : undefined)
+  );
+}
+
+const escapeHtml = (value: unknown): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * PDF：生成HTML表格后使用puppeteer输出
+ */
+async function renderPdf(data: ReportData, sheets: Sheet[]): Promise<Buffer> {
+  const tables = sheets
+    .map(
+      (sheet) => `
+  <h2>${escapeHtml(sheet.name)}</h2>
+  <table>
+    <thead><tr>${sheet.headers.map((header) => `<th>${escapeHtml(header)}</th>`).join('')}</tr></thead>
+    <tbody>${sheet.rows
+      .map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell instanceof Date ? formatDate(cell) : cell)}</td>`).join('')}</tr>`)
+      .join('')}</tbody>
+  </table>`
+    )
+    .join('');
+
+  const html = `
+<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+  <meta charset="UTF-8">
+  <style>
+    body { font-family: 'Microsoft YaHei', 'SimSun', sans-serif; padding: 20px; color: #333; }
+    h1 { text-align: center; font-size: 22px; border-bottom: 2px solid #1e40af; padding-bottom: 10px; }
+    h2 { font-size: 16px; color: #1e40af; margin-top: 24px; }
+    table { width: 100%; border-collapse: collapse; font-size: 12px; }
+    th, td { border: 1px solid #e5e7eb; padding: 6px 8px; text-align: left; }
+    th { background: #f3f4f6; }
+    .footer { margin-top: 30px; text-align: center; font-size: 12px; color: #6b7280; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(data.name)}</h1>
+  ${tables}
+  <div class="footer">
+    <div>生成时间: ${new Date(data.generatedAt).toLocaleString('zh-CN')}</div>
+    <div>由 AiliaoX 医疗系统生成</div>
+  </div>
+</body>
+</html>
+  `;
+
+  const browser = await puppeteer.launch({
+    headless: true,
+    args: ['--no-sandbox', '--disable-setuid-sandbox']
+  });
+  try {
+    const page = await browser.newPage();
+    await page.setContent(html, { waitUntil: 'load' });
+    const pdfBuffer = await page.pdf({
+      format: 'A4',
+      margin: { top: '15mm', right: '15mm', bottom: '15mm', left: '15mm' },
+      printBackground: true
+    });
+    return Buffer.from(pdfBuffer);
+  } finally {
+    await browser.close();
+  }
+}
+
+/**
+ * 生成报表文件
+ */
+export async function renderReportFile(data: ReportData, format: ReportFormat): Promise<Buffer> {
+  const sheets = buildReportSheets(data);
+  switch (format) {
+    case ReportFormat.CSV:
+      return Buffer.from(sheetsToCsv(sheets), 'utf8');
+    case ReportFormat.XLSX:
+      return toXlsx(sheets);
+    case ReportFormat.PDF:
+      return renderPdf(data, sheets);
+    default:
+      throw new Error(`不支持的报表格式: ${format}`);
+  }
+}
+
+/**
+ * 报表服务类
+ */
+export class ReportService {
+  private statisticsService: StatisticsService;
+  private notificationService: NotificationService;
+
+  constructor(private prisma: PrismaClient) {
+    this.statisticsService = new StatisticsService(prisma);
+    this.notificationService = new NotificationService(prisma);
+  }
+
+  /**
+   * 解析报表配置
+   */
+  private toDetail(config: ReportConfig): ReportConfigDetail {
+    return { ...config, query: parseReportQuery(config.query) };
+  }
+
+  /**
+   * 计算下次计划生成时间，CRON表达式无效时返回null（不再定时生成）
+   */
+  private nextRunAt(name: string, schedule: string | null, now: Date): Date | null {
+    if (!schedule) return null;
+    try {
+      return nextCronTime(parseCron(schedule), now);
+    } catch {
+      logger.warn(`报表CRON表达式无效 - 报表: ${name}, 表达式: ${schedule}`);
+      return null;
+    }
+  }
+
+  /**
+   * 校验接收人均为有效用户
+   */
+  private async validateRecipients(recipients: string[]): Promise<void> {
+    if (recipients.length === 0) return;
+    const count = await this.prisma.user.count({ where: { id: { in: recipients }, status: UserStatus.ACTIVE } });
+    if (count !== new Set(recipients).size) {
+      throw new Error('接收人不存在或已停用');
+    }
+  }
+
+  /**
+   * 获取报表配置列表
+   */
+  async listConfigs(): Promise<(ReportConfigDetail & { reportCount: number })[]> {
+    const configs = await this.prisma.reportConfig.findMany({
+      include: { _count: { select: { reports: true } } },
+      orderBy: { createdAt: 'desc' }
+    });
+    return configs.map(({ _count, ...config }) => ({ ...this.toDetail(config), reportCount: _count.reports }));
+  }
+
+  /**
+   * 获取报表配置详情
+   */
+  async getConfig(id: string): Promise<ReportConfigDetail> {
+    const config = await this.prisma.reportConfig.findUnique({ where: { id } });
+    if (!config) {
+      throw new Error('报表配置不存在');
+    }
+    return this.toDetail(config);
+  }
+
+  /**
+   * 创建报表配置
+   */
+  async createConfig(input: CreateReportConfigInput): Promise<ReportConfigDetail> {
+    const existing = await this.prisma.reportConfig.findUnique({ where: { name: input.name } });
+    if (existing) {
+      throw new Error('报表名称已存在');
+    }
+    await this.validateRecipients(input.recipients || []);
+
+    const config = await this.prisma.reportConfig.create({
+      data: {
+        name: input.name,
+        reportType: input.reportType,
+        schedule: input.schedule || null,
+        nextRunAt: this.nextRunAt(input.name, input.schedule || null, new Date()),
+        format: input.format,
+        query: JSON.stringify(ReportQuerySchema.parse(input.query || {})),
+        chartConfig: (input.chartConfig as Prisma.InputJsonValue) ?? Prisma.DbNull,
+        recipients: input.recipients || []
+      }
+    });
+
+    logger.info(`报表配置已创建 - 报表: ${config.name}, 类型: ${config.reportType}, 计划: ${config.schedule || '手动'}`);
+    return this.toDetail(config);
+  }
+
+  /**
+   * 更新报表配置
+   */
+  async updateConfig(id: string, input: UpdateReportConfigInput): Promise<ReportConfigDetail> {
+    const current = await this.getConfig(id);
+
+    if (input.name && input.name !== current.name) {
+      const existing = await this.prisma.reportConfig.findUnique({ where: { name: input.name } });
+      if (existing) {
+        throw new Error('报表名称已存在');
+      }
+    }
+    if (input.recipients) {
+      await this.validateRecipients(input.recipients);
+    }
+
+    const reportType = input.reportType || current.reportType;
+    const query = input.query || current.query;
+    if (resolveReportSections(reportType, query).length === 0) {
+      throw new Error('自定义报表需要在query.sections中指定统计内容');
+    }
+
+    const data: Prisma.ReportConfigUpdateInput = {
+      name: input.name,
+      reportType: input.reportType,
+      format: input.format,
+      recipients: input.recipients,
+      query: input.query ? JSON.stringify(input.query) : undefined
+    };
+    if (input.schedule !== undefined) {
+      data.schedule = input.schedule || null;
+      data.nextRunAt = this.nextRunAt(input.name || current.name, data.schedule, new Date());
+    }
+    if (input.chartConfig !== undefined) {
+      data.chartConfig = (input.chartConfig as Prisma.InputJsonValue) ?? Prisma.DbNull;
+    }
+
+    const config = await this.prisma.reportConfig.update({ where: { id }, data });
+    logger.info(`报表配置已更新 - 报表: ${config.name}`);
+    return this.toDetail(config);
+  }
+
+  /**
+   * 删除报表配置及其生成的报表和文件
+   */
+  async deleteConfig(id: string): Promise<void> {
+    const config = await this.getConfig(id);
+    const reports = await this.prisma.report.findMany({ where: { configId: id }, select: { id: true } });
+
+    await this.prisma.$transaction([
+      this.prisma.report.deleteMany({ where: { configId: id } }),
+      this.prisma.reportConfig.delete({ where: { id } })
+    ]);
+
+    const outputDir = getReportOutputDir();
+    for (const report of reports) {
+      for (const { extension } of Object.values(FILE_TYPES)) {
+        await fs.rm(path.join(outputDir, `${report.id}.${extension}`), { force: true });
+      }
+    }
+
+    logger.info(`报表配置已删除 - 报表: ${config.name}, 删除报表: ${reports.length}份`);
+  }
+
+  /**
+   * 获取已生成的报表列表（不含报表数据）
+   */
+  async listReports(search: ReportSearchInput) {
+    const where: Prisma.ReportWhereInput = search.configId ? { configId: search.configId } : {};
+    const [reports, total] = await Promise.all([
+      this.prisma.report.findMany({
+        where,
+        select: {
+          id: true,
+          configId: true,
+          generatedAt: true,
+          fileUrl: true,
+          config: { select: { name: true, reportType: true, format: true } }
+        },
+        orderBy: { generatedAt: 'desc' },
+        skip: (search.page - 1) * search.limit,
+        take: search.limit
+      }),
+      this.prisma.report.count({ where })
+    ]);
+
+    return {
+      reports,
+      total,
+      page: search.page,
+      limit: search.limit,
+      totalPages: Math.ceil(total / search.limit)
+    };
+  }
+
+  /**
+   * 获取报表详情
+   */
+  async getReport(id: string): Promise<Report & { config: ReportConfig }> {
+    const report = await this.prisma.report.findUnique({ where: { id }, include: { config: true } });
+    if (!report) {
+      throw new Error('报表不存在');
+    }
+    return report;
+  }
+
+  /**
+   * 生成报表
+   * 文件生成失败时仍保留报表数据，下载时可重新生成
+   */
+  async runReport(configId: string, trigger: ReportTrigger = 'manual', now: Date = new Date()): Promise<Report> {
+    const config = await this.getConfig(configId);
+    const sections = resolveReportSections(config.reportType, config.query);
+    if (sections.length === 0) {
+      throw new Error('自定义报表需要在query.sections中指定统计内容');
+    }
+
+    const statisticsQuery = toStatisticsQuery(config.query);
+    const data: ReportData = {
+      name: config.name,
+      reportType: config.reportType,
+      query: config.query,
+      trigger,
+      generatedAt: now,
+      sections: []
+    };
+    for (const key of sections) {
+      data.sections.push({ key, title: REPORT_SECTION_TITLES[key], result: await this.runSection(key, statisticsQuery) });
+    }
+
+    let report = await this.prisma.report.create({
+      data: {
+        configId,
+        data: JSON.parse(JSON.stringify(data)) as Prisma.InputJsonValue,
+        generatedAt: now
+      }
+    });
+
+    try {
+      const { extension } = FILE_TYPES[config.format];
+      const outputDir = getReportOutputDir();
+      await fs.mkdir(outputDir, { recursive: true });
+      await fs.writeFile(path.join(outputDir, `${report.id}.${extension}`), await renderReportFile(data, config.format));
+
+      report = await this.prisma.report.update({
+        where: { id: report.id },
+        data: { fileUrl: `/api/v1/reports/${report.id}/download` }
+      });
+    } catch (error) {
+      logger.error(`报表文件生成失败 - 报表: ${config.name}`, error);
+    }
+
+    await this.notifyRecipients(config, report);
+
+    logger.info(`报表已生成 - 报表: ${config.name}, 触发方式: ${trigger === 'schedule' ? '定时' : '手动'}`);
+    return report;
+  }
+
+  /**
+   * 执行单项统计
+   */
+  private runSection(section: ReportSection, query: StatisticsQuery): Promise<unknown> {
+    switch (section) {
+      case 'patients':
+        return this.statisticsService.getPatientStatistics(query);
+      case 'doctors':
+        return this.statisticsService.getDoctorStatistics(query);
+      case 'departments':
+        return this.statisticsService.getDepartmentStatistics(query);
+      case 'appointments':
+        return this.statisticsService.getAppointmentStatistics(query);
+      case 'prescriptions':
+        return this.statisticsService.getPrescriptionStatistics(query);
+      case 'medicalRecords':
+        return this.statisticsService.getMedicalRecordStatistics(query);
+    }
+  }
+
+  /**
+   * 通知报表接收人
+   */
+  private async notifyRecipients(config: ReportConfigDetail, report: Report): Promise<void> {
+    const recipients = Array.isArray(config.recipients)
+      ? config.recipients.filter((id): id is string => typeof id === 'string')
+      : [];
+    if (recipients.length === 0) return;
+
+    try {
+      await this.notificationService.notifyUsers(recipients, {
+        title: `报表已生成：${config.name}`,
+        content: `报表「${config.name}」已于${report.generatedAt.toLocaleString('zh-CN')}生成，可在报表中心查看和下载。`,
+        type: NotificationType.SYSTEM_ALERT,
+        data: { reportId: report.id, configId: config.id, fileUrl: report.fileUrl }
+      });
+    } catch (error) {
+      logger.error(`报表通知发送失败 - 报表: ${config.name}`, error);
+    }
+  }
+
+  /**
+   * 获取报表文件
+   * 默认使用报表配置的格式；文件不存在（如指定了其他格式）时按报表数据重新生成
+   */
+  async getReportFile(id: string, format?: ReportFormat): Promise<ReportFile> {
+    const report = await this.getReport(id);
+    const fileFormat = format || report.config.format;
+    const { extension, contentType } = FILE_TYPES[fileFormat];
+    const data = report.data as unknown as ReportData;
+
+    let buffer: Buffer;
+    try {
+      buffer = await fs.readFile(path.join(getReportOutputDir(), `${report.id}.${extension}`));
+    } catch {
+      buffer = await renderReportFile(data, fileFormat);
+    }
+
+    return {
+      buffer,
+      filename: `${report.config.name}-${formatDate(report.generatedAt)}.${extension}`,
+      contentType
+    };
+  }
+
+  /**
+   * 生成到期的定时报表
+   * 按记录的下次计划时间选取，检查被跳过（任务未执行、实例宕机）时在下次检查补生成，
+   * 错过的多个计划时间只补生成一次；先推进下次计划时间占用配置，多实例同时执行时只生成一次
+   */
+  async runDueReports(now: Date = new Date()): Promise<number> {
+    const configs = await this.prisma.reportConfig.findMany({
+      where: { schedule: { not: null }, OR: [{ nextRunAt: null }, { nextRunAt: { lte: now } }] },
+      orderBy: { nextRunAt: 'asc' }
+    });
+    let count = 0;
+
+    for (const config of configs) {
+      const scheduledAt = config.nextRunAt;
+      const claim = await this.prisma.reportConfig.updateMany({
+        where: { id: config.id, nextRunAt: scheduledAt },
+        data: { nextRunAt: this.nextRunAt(config.name, config.schedule, now) }
+      });
+      // 尚未计算计划时间的配置（升级前创建）从现在开始计划
+      if (claim.count === 0 || !scheduledAt) continue;
+
+      try {
+        await this.runReport(config.id, 'schedule', now);
+        count += 1;
+      } catch (error) {
+        logger.error(`定时报表生成失败 - 报表: ${config.name}, 计划时间: ${scheduledAt.toISOString()}`, error);
+      }
+    }
+
+    return count;
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * 医生排班服务
+ *
+ * 功能：
+ * - 排班管理（按星期、时间段设置出诊时间和号源数量）
+ * - 根据排班生成某日可预约时间段及剩余号源
+ */
+
+import { PrismaClient, Prisma, DoctorSchedule, AppointmentStatus, TimeSlot } from '@prisma/client';
+import { logger } from '../utils/logger';
+
+export interface CreateScheduleInput {
+  doctorId: string;
+  dayOfWeek: number;
+  timeSlot: TimeSlot;
+  startTime: string;
+  endTime: string;
+  maxPatients: number;
+  isActive?: boolean;
+}
+
+export interface UpdateScheduleInput {
+  startTime?: string;
+  endTime?: string;
+  maxPatients?: number;
+  isActive?: boolean;
+}
+
+export interface ScheduleSearchParams {
+  doctorId?: string;
+  departmentId?: string;
+  activeOnly?: boolean;
+}
+
+/**
+ * 时间段号源情况
+ */
+export interface SlotCapacity {
+  scheduleId: string;
+  timeSlot: TimeSlot;
+  startTime: string;
+  endTime: string;
+  maxPatients: number;
+  booked: number;
+  remaining: number;
+  available: boolean;
+}
+
+/**
+ * 占用号源的挂号状态（取消和爽约的号源释放）
+ */
+export const CAPACITY_STATUSES: AppointmentStatus[] = [
+  AppointmentStatus.PENDING,
+  AppointmentStatus.CONFIRMED,
+  AppointmentStatus.CHECKED_IN,
+  AppointmentStatus.IN_PROGRESS,
+  AppointmentStatus.COMPLETED
+];
+
+/**
+ * 根据排班和已预约数量计算各时间段号源，按开始时间排序
+ */
+export function buildSlotCapacities(
+  schedules: Pick<DoctorSchedule, 'id' | 'timeSlot' | 'startTime' | 'endTime' | 'maxPatients'>[],
+  bookedCounts: Partial<Record<TimeSlot, number>>
+): SlotCapacity[] {
+  return schedules
+    .map((schedule) => {
+      const booked = bookedCounts[schedule.timeSlot] || 0;
+      const remaining = Math.max(schedule.maxPatients - booked, 0);
+      return {
+        scheduleId: schedule.id,
+        timeSlot: schedule.timeSlot,
+        startTime: schedule.startTime,
+        endTime: schedule.endTime,
+        maxPatients: schedule.maxPatients,
+        booked,
+        remaining,
+        available: remaining > 0
+      };
+    })
+    .sort((a, b) => a.startTime.localeCompare(b.startTime));
+}
+
+/**
+ * 医生排班服务类
+ */
+export class ScheduleService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * 查询排班列表
+   */
+  async listSchedules(params: ScheduleSearchParams = {}) {
+    const where: Prisma.DoctorScheduleWhereInput = {};
+    if (params.doctorId) where.doctorId = params.doctorId;
+    if (params.departmentId) where.doctor = { departmentId: params.departmentId };
+    if (params.activeOnly) where.isActive = true;
+
+    return this.prisma.doctorSchedule.findMany({
+      where,
+      include: {
+        doctor: {
+          select: {
+            id: true,
+            doctorNo: true,
+            name: true,
+            title: true,
+            departmentId: true
+          }
+        }
+      },
+      orderBy: [{ doctorId: 'asc' }, { dayOfWeek: 'asc' }, { startTime: 'asc' }]
+    });
+  }
+
+  /**
+   * 创建排班
+   */
+  async createSchedule(input: CreateScheduleInput): Promise<DoctorSchedule> {
+    const doctor = await this.prisma.doctor.findUnique({ where: { id: input.doctorId } });
+    if (!doctor) {
+      throw new Error('医生不存在');
+    }
+
+    const existing = await this.prisma.doctorSchedule.findUnique({
+      where: {
+        doctorId_dayOfWeek_timeSlot: {
+          doctorId: input.doctorId,
+          dayOfWeek: input.dayOfWeek,
+          timeSlot: input.timeSlot
+        }
+      }
+    });
+    if (existing) {
+      throw new Error('该医生在此时间段已有排班');
+    }
+
+    const schedule = await this.prisma.doctorSchedule.create({
+      data: {
+        doctorId: input.doctorId,
+        dayOfWeek: input.dayOfWeek,
+        timeSlot: input.timeSlot,
+        startTime: input.startTime,
+        endTime: input.endTime,
+        maxPatients: input.maxPatients,
+        isActive: input.isActive ?? true
+      }
+    });
+
+    logger.info(`排班创建成功: 医生 ${doctor.name}, 星期${input.dayOfWeek} ${input.timeSlot}`);
+    return schedule;
+  }
+
+  /**
+   * 更新排班
+   * 减少号源不影响已有挂号，只限制后续预约
+   */
+  async updateSchedule(id: string, input: UpdateScheduleInput): Promise<DoctorSchedule> {
+    const schedule = await this.prisma.doctorSchedule.findUnique({ where: { id } });
+    if (!schedule) {
+      throw new Error('排班不存在');
+    }
+
+    const startTime = input.startTime ?? schedule.startTime;
+    const endTime = input.endTime ?? schedule.endTime;
+    if (startTime >= endTime) {
+      throw new Error('结束时间必须晚于开始时间');
+    }
+
+    return this.prisma.doctorSchedule.update({
+      where: { id },
+      data: input
+    });
+  }
+
+  /**
+   * 删除排班
+   */
+  async deleteSchedule(id: string): Promise<void> {
+    const schedule = await this.prisma.doctorSchedule.findUnique({ where: { id } });
+    if (!schedule) {
+      throw new Error('排班不存在');
+    }
+
+    await this.prisma.doctorSchedule.delete({ where: { id } });
+    logger.info(`排班已删除: ${id}`);
+  }
+
+  /**
+   * 获取医生某日的可预约时间段及剩余号源
+   * 日期按UTC解析（与@db.Date字段一致），星期取UTC日期
+   * 传入事务客户端时在事务内统计已预约数量
+   */
+  async getDaySlots(
+    doctorId: string,
+    date: Date,
+    client: Prisma.TransactionClient = this.prisma
+  ): Promise<SlotCapacity[]> {
+    const schedules = await client.doctorSchedule.findMany({
+      where: {
+        doctorId,
+        dayOfWeek: date.getUTCDay(),
+        isActive: true
+      }
+    });
+    if (schedules.length === 0) {
+      return [];
+    }
+
+    const counts = await client.appointment.groupBy({
+      by: ['timeSlot'],
+      where: {
+        doctorId,
+        appointmentDate: date,
+        status: { in: CAPACITY_STATUSES }
+      },
+      _count: { _all: true }
+    });
+
+    const bookedCounts: Partial<Record<TimeSlot, number>> = {};
+    for (const count of counts) {
+      bookedCounts[count.timeSlot] = count._count._all;
+    }
+
+    return buildSlotCapacities(schedules, bookedCounts);
+  }
+
+  /**
+   * 获取指定时间段的号源情况，医生当日该时间段未出诊返回null
+   */
+  async getSlotCapacity(
+    doctorId: string,
+    date: Date,
+    timeSlot: TimeSlot,
+    client: Prisma.TransactionClient = this.prisma
+  ): Promise<SlotCapacity | null> {
+    const slots = await this.getDaySlots(doctorId, date, client);
+    return slots.find((slot) => slot.timeSlot === timeSlot) || null;
+  }
+}
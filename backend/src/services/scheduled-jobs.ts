@@ -0,0 +1,100 @@
+/**
+ * 系统定时任务
+ *
+ * 任务：
+ * - announcement-expiry：公告到期自动下线（每5分钟）
+ * - appointment-no-show：就诊日过后未就诊的挂号记为爽约（每天00:10）
+ * - queue-call-timeout：多次叫号无应答且超时未到诊的患者记为爽约（每分钟）
+ * - stock-expiry-scan：药品效期巡检（每天07:00）
+ * - report-generation：按报表配置的CRON计划生成报表（每分钟）
+ * - message-delivery-retry：重试发送失败的患者消息（每分钟）
+ * - job-history-cleanup：清理过期的任务执行记录（每天03:30）
+ *
+ * JOB_SCHEDULER_ENABLED=false 时本实例不运行定时任务（仍可通过管理接口手动执行）
+ */
+
+import { prisma } from '../utils/prisma';
+import { JobScheduler } from './job-scheduler.service';
+import { autoExpireAnnouncements } from './announcement.service';
+import { AppointmentService } from './appointment.service';
+import { InventoryService } from './inventory.service';
+import { QueueService } from './queue.service';
+import { ReportService } from './report.service';
+import { MessagingService } from './messaging.service';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const jobScheduler = new JobScheduler(prisma);
+
+jobScheduler.register({
+  name: 'announcement-expiry',
+  description: '公告到期自动下线',
+  schedule: '*/5 * * * *',
+  handler: async () => {
+    const { expiredCount } = await autoExpireAnnouncements();
+    return { expiredCount };
+  }
+});
+
+jobScheduler.register({
+  name: 'appointment-no-show',
+  description: '就诊日过后未就诊的挂号记为爽约',
+  schedule: '10 0 * * *',
+  handler: async () => ({ noShowCount: await new AppointmentService(prisma).markNoShows(new Date()) })
+});
+
+jobScheduler.register({
+  name: 'queue-call-timeout',
+  description: '多次叫号无应答且超时未到诊的患者记为爽约',
+  schedule: '* * * * *',
+  retries: 0, // 下一分钟会再次检查
+  handler: async ({ scheduledAt }) => ({
+    noShowCount: await new QueueService(prisma).expireUnansweredCalls(scheduledAt || new Date())
+  })
+});
+
+jobScheduler.register({
+  name: 'stock-expiry-scan',
+  description: '药品效期巡检，通知库存管理人员',
+  schedule: '0 7 * * *',
+  handler: () =>
+    new InventoryService(prisma).scanExpiringStock(new Date(), parseInt(process.env.STOCK_EXPIRY_WARNING_DAYS || '30', 10))
+});
+
+jobScheduler.register({
+  name: 'report-generation',
+  description: '按报表配置的CRON计划生成报表',
+  schedule: '* * * * *',
+  retries: 0, // 单个报表失败不影响其他报表，整体重试会重复生成已成功的报表
+  handler: async ({ scheduledAt }) => ({
+    generatedCount: await new ReportService(prisma).runDueReports(scheduledAt || new Date())
+  })
+});
+
+jobScheduler.register({
+  name: 'message-delivery-retry',
+  description: '重试发送失败的患者消息',
+  schedule: '* * * * *',
+  retries: 0, // 每条消息有自己的重试次数和间隔
+  handler: ({ scheduledAt }) => new MessagingService(prisma).retryDueDeliveries(scheduledAt || new Date())
+});
+
+jobScheduler.register({
+  name: 'job-history-cleanup',
+  description: '清理过期的任务执行记录',
+  schedule: '30 3 * * *',
+  handler: async () => {
+    const days = parseInt(process.env.JOB_HISTORY_RETENTION_DAYS || '30', 10);
+    return { deletedCount: await jobScheduler.pruneRuns(new Date(Date.now() - days * DAY)) };
+  }
+});
+
+/**
+ * 启动定时任务调度
+ */
+export async function startJobScheduler(): Promise<void> {
+  if (process.env.JOB_SCHEDULER_ENABLED === 'false') {
+    return;
+  }
+  await jobScheduler.start();
+}
@@ -3,40 +3,80 @@
  *
  * 功能:
  * - 多维度数据统计（患者、医生、科室、挂号、处方、病历）
- * - 数据聚合和分析
- * - 趋势数据计算
+ * - 按时间范围统计，并与上一周期同期对比
+ * - 按日、周、月的趋势数据
+ * - 按科室、医生筛选
  * - 为Dashboard提供数据支持
  */
 
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma } from '@prisma/client';
 import { logger } from '../utils/logger';
+import {
+  StatisticsTimeRange,
+  TrendGranularity,
+  DateRange,
+  PeriodComparison,
+  resolveTimeRange,
+  getPreviousPeriod,
+  defaultGranularity,
+  buildTrendBuckets,
+  aggregateByBucket,
+  comparePeriods,
+  toDbDate,
+  fromDbDate,
+  toDbDateFilter
+} from '../utils/time-range';
+
+export { StatisticsTimeRange, TrendGranularity, PeriodComparison };
 
 /**
- * 统计时间范围枚举
+ * 自定义时间范围请求
  */
-export enum StatisticsTimeRange {
-  TODAY = 'TODAY',
-  WEEK = 'WEEK',
-  MONTH = 'MONTH',
-  QUARTER = 'QUARTER',
-  YEAR = 'YEAR',
-  CUSTOM = 'CUSTOM'
+export interface CustomTimeRangeRequest {
+  startDate: Date;
+  endDate: Date;
 }
 
 /**
- * 自定义时间范围请求
+ * 统计查询条件
  */
-export interface CustomTimeRangeRequest {
+export interface StatisticsQuery {
+  timeRange?: StatisticsTimeRange;
+  customRange?: CustomTimeRangeRequest;
+  granularity?: TrendGranularity; // 趋势粒度，默认按时间跨度选择
+  departmentId?: string;
+  doctorId?: string;
+}
+
+/**
+ * 统计周期信息（随统计结果返回，便于核对口径）
+ */
+export interface StatisticsPeriod {
+  timeRange: StatisticsTimeRange;
   startDate: Date;
   endDate: Date;
+  previousStartDate: Date;
+  previousEndDate: Date;
+  granularity: TrendGranularity;
+}
+
+/**
+ * 趋势数据点
+ */
+export interface TrendPoint {
+  period: string;
+  count: number;
 }
 
 /**
  * 患者统计数据
+ * 未筛选科室/医生时为截至期末的全部患者，筛选时为期间内在该科室/医生就诊的患者
  */
 export interface PatientStatistics {
+  period: StatisticsPeriod;
   totalCount: number;
-  newThisMonth: number;
+  newCount: PeriodComparison;
+  newTrend: TrendPoint[];
   genderDistribution: { gender: string; count: number }[];
   ageDistribution: { ageGroup: string; count: number }[];
   bloodTypeDistribution: { bloodType: string; count: number }[];
@@ -47,7 +87,9 @@ export interface PatientStatistics {
  * 医生统计数据
  */
 export interface DoctorStatistics {
+  period: StatisticsPeriod;
   totalCount: number;
+  activeCount: PeriodComparison; // 期间内有挂号的医生数
   byDepartment: { department: string; count: number }[];
   byTitle: { title: string; count: number }[];
   topPerformers: {
@@ -63,7 +105,10 @@ export interface DoctorStatistics {
  * 科室统计数据
  */
 export interface DepartmentStatistics {
+  period: StatisticsPeriod;
   totalCount: number;
+  appointmentCount: PeriodComparison;
+  revenue: PeriodComparison;
   appointmentsByDepartment: { department: string; count: number }[];
   revenueByDepartment: { department: string; revenue: number }[];
   averageWaitTime: { department: string; avgWaitMinutes: number }[];
@@ -73,38 +118,54 @@ export interface DepartmentStatistics {
  * 挂号统计数据
  */
 export interface AppointmentStatistics {
+  period: StatisticsPeriod;
   totalCount: number;
   todayCount: number;
   completedCount: number;
   cancelledCount: number;
+  comparison: {
+    totalCount: PeriodComparison;
+    completedCount: PeriodComparison;
+    cancelledCount: PeriodComparison;
+  };
   byStatus: { status: string; count: number }[];
   byPriority: { priority: string; count: number }[];
   byTimeSlot: { timeSlot: string; count: number }[];
-  dailyTrend: { date: string; count: number }[];
+  trend: TrendPoint[];
 }
 
 /**
  * 处方统计数据
  */
 export interface PrescriptionStatistics {
+  period: StatisticsPeriod;
   totalCount: number;
   totalRevenue: number;
   averageAmount: number;
+  comparison: {
+    totalCount: PeriodComparison;
+    totalRevenue: PeriodComparison;
+  };
   byStatus: { status: string; count: number }[];
   topMedicines: { medicine: string; count: number; revenue: number }[];
-  monthlyRevenueTrend: { month: string; revenue: number }[];
+  revenueTrend: (TrendPoint & { revenue: number })[];
 }
 
 /**
  * 病历统计数据
  */
 export interface MedicalRecordStatistics {
+  period: StatisticsPeriod;
   totalCount: number;
+  comparison: {
+    totalCount: PeriodComparison;
+  };
   byRecordType: { recordType: string; count: number }[];
   byDepartment: { department: string; count: number }[];
   withAISummaryCount: number;
   finalizedCount: number;
   averageRecordsPerPatient: number;
+  trend: TrendPoint[];
 }
 
 /**
@@ -145,6 +206,21 @@ export interface DashboardStatistics {
   };
 }
 
+/**
+ * 解析后的查询条件
+ */
+interface ResolvedQuery {
+  period: StatisticsPeriod;
+  current: DateRange;
+  previous: DateRange;
+  departmentId?: string;
+  doctorId?: string;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const decimalToNumber = (value: Prisma.Decimal | null | undefined) => value?.toNumber() || 0;
+const createdAtFilter = (range: DateRange) => ({ gte: range.startDate, lte: range.endDate });
+
 /**
  * 统计数据服务类
  */
@@ -156,43 +232,66 @@ export class StatisticsService {
   }
 
   /**
-   * 获取时间范围的开始和结束日期
+   * 解析查询条件：统计范围、对照期和趋势粒度
    */
-  private getTimeRange(range: StatisticsTimeRange, customRange?: CustomTimeRangeRequest): { startDate: Date; endDate: Date } {
-    const now = new Date();
-    const endDate = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59, 999);
-    let startDate: Date;
-
-    switch (range) {
-      case StatisticsTimeRange.TODAY:
-        startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 0, 0, 0, 0);
-        break;
-      case StatisticsTimeRange.WEEK:
-        startDate = new Date(now);
-        startDate.setDate(now.getDate() - 7);
-        startDate.setHours(0, 0, 0, 0);
-        break;
-      case StatisticsTimeRange.MONTH:
-        startDate = new Date(now.getFullYear(), now.getMonth(), 1, 0, 0, 0, 0);
-        break;
-      case StatisticsTimeRange.QUARTER:
-        const quarterStartMonth = Math.floor(now.getMonth() / 3) * 3;
-        startDate = new Date(now.getFullYear(), quarterStartMonth, 1, 0, 0, 0, 0);
-        break;
-      case StatisticsTimeRange.YEAR:
-        startDate = new Date(now.getFullYear(), 0, 1, 0, 0, 0, 0);
-        break;
-      case StatisticsTimeRange.CUSTOM:
-        if (!customRange) {
-          throw new Error('Custom range requires startDate and endDate');
-        }
-        startDate = customRange.startDate;
-        return { startDate, endDate: customRange.endDate };
-      default:
-        startDate = new Date(now.getFullYear(), now.getMonth(), 1, 0, 0, 0, 0);
+  private resolveQuery(query: StatisticsQuery = {}, now: Date = new Date()): ResolvedQuery {
+    const timeRange = query.timeRange || StatisticsTimeRange.MONTH;
+    const current = resolveTimeRange(timeRange, query.customRange, now);
+    const previous = getPreviousPeriod(timeRange, current);
+
+    return {
+      period: {
+        timeRange,
+        startDate: current.startDate,
+        endDate: current.endDate,
+        previousStartDate: previous.startDate,
+        previousEndDate: previous.endDate,
+        granularity: query.granularity || defaultGranularity(current)
+      },
+      current,
+      previous,
+      departmentId: query.departmentId,
+      doctorId: query.doctorId
+    };
+  }
+
+  /**
+   * 挂号的科室/医生筛选条件
+   */
+  private appointmentScope(query: ResolvedQuery): Prisma.AppointmentWhereInput {
+    return {
+      ...(query.departmentId ? { departmentId: query.departmentId } : {}),
+      ...(query.doctorId ? { doctorId: query.doctorId } : {})
+    };
+  }
+
+  /**
+   * 处方、病历的科室/医生筛选条件（科室取开具医生所在科室）
+   */
+  private doctorScope(query: ResolvedQuery): { doctorId?: string; doctor?: { departmentId: string } } {
+    return {
+      ...(query.doctorId ? { doctorId: query.doctorId } : {}),
+      ...(query.departmentId ? { doctor: { departmentId: query.departmentId } } : {})
+    };
+  }
+
+  /**
+   * 平均候诊时间（分钟）：签到到叫号
+   */
+  private async getAverageWaitMinutes(where: Prisma.AppointmentWhereInput): Promise<number> {
+    const appointments = await this.prisma.appointment.findMany({
+      where: { ...where, checkedInAt: { not: null }, calledAt: { not: null } },
+      select: { checkedInAt: true, calledAt: true }
+    });
+    if (appointments.length === 0) {
+      return 0;
     }
 
-    return { startDate, endDate };
+    const totalMinutes = appointments.reduce(
+      (sum, a) => sum + Math.max(a.calledAt!.getTime() - a.checkedInAt!.getTime(), 0) / 60000,
+      0
+    );
+    return Math.round((totalMinutes / appointments.length) * 10) / 10;
   }
 
   /**
@@ -201,10 +300,10 @@ export class StatisticsService {
   async getDashboardStatistics(): Promise<DashboardStatistics> {
     try {
       const now = new Date();
-      const today = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 0, 0, 0, 0);
-      const thisWeekStart = new Date(now);
-      thisWeekStart.setDate(now.getDate() - 7);
-      const thisMonthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+      const today = resolveTimeRange(StatisticsTimeRange.TODAY, undefined, now).startDate;
+      const thisWeekStart = resolveTimeRange(StatisticsTimeRange.WEEK, undefined, now).startDate;
+      const thisMonthStart = resolveTimeRange(StatisticsTimeRange.MONTH, undefined, now).startDate;
+      const todayDbDate = toDbDate(now);
 
       // 患者统计（排除已软删除患者）
       const activePatientWhere = { deletedAt: null };
@@ -218,7 +317,7 @@ export class StatisticsService {
       // 挂号统计
       const [totalAppointments, todayAppointments, pendingAppointments, completedAppointments] = await Promise.all([
         this.prisma.appointment.count(),
-        this.prisma.appointment.count({ where: { appointmentDate: { gte: today } } }),
+        this.prisma.appointment.count({ where: { appointmentDate: todayDbDate } }),
         this.prisma.appointment.count({ where: { status: 'PENDING' } }),
         this.prisma.appointment.count({ where: { status: 'COMPLETED' } })
       ]);
@@ -248,12 +347,12 @@ export class StatisticsService {
       const totalDoctors = await this.prisma.doctor.count();
       const activeDoctorsToday = await this.prisma.appointment.groupBy({
         by: ['doctorId'],
-        where: { appointmentDate: { gte: today } }
+        where: { appointmentDate: todayDbDate }
       });
 
       // 排队统计
       const waitingQueues = await this.prisma.queue.count({ where: { status: 'WAITING' } });
-      const avgWaitTime = 15; // 简化计算，实际应基于历史数据
+      const avgWaitTime = await this.getAverageWaitMinutes({ appointmentDate: todayDbDate });
 
       return {
         patients: {
@@ -298,28 +397,48 @@ export class StatisticsService {
   /**
    * 获取患者统计数据
    */
-  async getPatientStatistics(_timeRange: StatisticsTimeRange = StatisticsTimeRange.MONTH, _customRange?: CustomTimeRangeRequest): Promise<PatientStatistics> {
+  async getPatientStatistics(query: StatisticsQuery = {}): Promise<PatientStatistics> {
     try {
-      // 患者统计不使用时间范围筛选，返回全局统计
-      // const { startDate, endDate } = this.getTimeRange(timeRange, customRange);
+      const resolved = this.resolveQuery(query);
+      const { current, previous } = resolved;
+      const scoped = Boolean(resolved.departmentId || resolved.doctorId);
+
+      // 统计对象：未筛选时为截至期末的全部患者，筛选时为期间内在该科室/医生就诊的患者
+      const patientWhere = (range: DateRange): Prisma.PatientWhereInput =>
+        scoped
+          ? {
+              deletedAt: null,
+              appointments: {
+                some: { ...this.appointmentScope(resolved), appointmentDate: toDbDateFilter(range) }
+              }
+            }
+          : { deletedAt: null, createdAt: { lte: range.endDate } };
+
+      const totalCount = await this.prisma.patient.count({ where: patientWhere(current) });
 
-      // 总患者数
-      const totalCount = await this.prisma.patient.count();
+      // 期间新增患者及环比
+      const [newCurrent, newPrevious] = await Promise.all([
+        this.prisma.patient.count({ where: { ...patientWhere(current), createdAt: createdAtFilter(current) } }),
+        this.prisma.patient.count({ where: { ...patientWhere(previous), createdAt: createdAtFilter(previous) } })
+      ]);
 
-      // 本月新增患者数
-      const thisMonthStart = new Date(new Date().getFullYear(), new Date().getMonth(), 1);
-      const newThisMonth = await this.prisma.patient.count({
-        where: { createdAt: { gte: thisMonthStart } }
+      const newPatients = await this.prisma.patient.findMany({
+        where: { ...patientWhere(current), createdAt: createdAtFilter(current) },
+        select: { createdAt: true }
       });
+      const buckets = buildTrendBuckets(current, resolved.period.granularity);
+      const newCounts = aggregateByBucket(buckets, newPatients, (p) => p.createdAt);
 
       // 性别分布
       const genderDistribution = await this.prisma.patient.groupBy({
         by: ['gender'],
-        _count: true
+        _count: true,
+        where: patientWhere(current)
       });
 
-      // 年龄分布（简化版：按年龄段分组）
+      // 年龄分布（按期末时的年龄分组）
       const allPatients = await this.prisma.patient.findMany({
+        where: patientWhere(current),
         select: { birthDate: true }
       });
 
@@ -331,9 +450,9 @@ export class StatisticsService {
         '65+': 0
       };
 
-      const now = new Date();
+      const referenceDate = current.endDate;
       allPatients.forEach(patient => {
-        const age = Math.floor((now.getTime() - patient.birthDate.getTime()) / (365.25 * 24 * 60 * 60 * 1000));
+        const age = Math.floor((referenceDate.getTime() - patient.birthDate.getTime()) / (365.25 * 24 * 60 * 60 * 1000));
         if (age <= 18) ageGroups['0-18']++;
         else if (age <= 35) ageGroups['19-35']++;
         else if (age <= 50) ageGroups['36-50']++;
@@ -347,20 +466,23 @@ export class StatisticsService {
       const bloodTypeDistribution = await this.prisma.patient.groupBy({
         by: ['bloodType'],
         _count: true,
-        where: { bloodType: { not: null } }
+        where: { ...patientWhere(current), bloodType: { not: null } }
       });
 
-      // 高频疾病（从病历诊断中提取）
+      // 高频疾病（期间内病历诊断）
       const topDiseases = await this.prisma.medicalRecord.groupBy({
         by: ['diagnosis'],
         _count: true,
+        where: { ...this.doctorScope(resolved), createdAt: createdAtFilter(current) },
         orderBy: { _count: { diagnosis: 'desc' } },
         take: 10
       });
 
       return {
+        period: resolved.period,
         totalCount,
-        newThisMonth,
+        newCount: comparePeriods(newCurrent, newPrevious),
+        newTrend: buckets.map((bucket, i) => ({ period: bucket.label, count: newCounts[i] })),
         genderDistribution: genderDistribution.map(item => ({
           gender: item.gender,
           count: item._count
@@ -383,15 +505,24 @@ export class StatisticsService {
 
   /**
    * 获取医生统计数据
+   * 医生人数为当前在册人数，工作量按统计期间计算
    */
-  async getDoctorStatistics(): Promise<DoctorStatistics> {
+  async getDoctorStatistics(query: StatisticsQuery = {}): Promise<DoctorStatistics> {
     try {
-      const totalCount = await this.prisma.doctor.count();
+      const resolved = this.resolveQuery(query);
+      const { current, previous } = resolved;
+      const doctorWhere: Prisma.DoctorWhereInput = {
+        ...(resolved.departmentId ? { departmentId: resolved.departmentId } : {}),
+        ...(resolved.doctorId ? { id: resolved.doctorId } : {})
+      };
+
+      const totalCount = await this.prisma.doctor.count({ where: doctorWhere });
 
       // 按科室分布
       const byDepartment = await this.prisma.doctor.groupBy({
         by: ['departmentId'],
-        _count: true
+        _count: true,
+        where: doctorWhere
       });
 
       // 获取科室名称
@@ -406,7 +537,8 @@ export class StatisticsService {
       // 按职称分布
       const byTitle = await this.prisma.doctor.groupBy({
         by: ['title'],
-        _count: true
+        _count: true,
+        where: doctorWhere
       });
 
       const titleDistribution = byTitle.map(item => ({
@@ -414,37 +546,59 @@ export class StatisticsService {
         count: item._count
       }));
 
-      // 获取Top医生（基于挂号量、处方量、病历量）
-      const doctors = await this.prisma.doctor.findMany({
-        take: 10,
-        select: {
-          id: true,
-          name: true,
-          _count: {
-            select: {
-              appointments: true,
-              prescriptions: true,
-              medicalRecords: true
-            }
-          }
-        },
-        orderBy: {
-          appointments: {
-            _count: 'desc'
-          }
-        }
+      // 期间内有挂号的医生数及环比
+      const [activeCurrent, activePrevious] = await Promise.all(
+        [current, previous].map(range =>
+          this.prisma.appointment.groupBy({
+            by: ['doctorId'],
+            where: { ...this.appointmentScope(resolved), appointmentDate: toDbDateFilter(range) }
+          })
+        )
+      );
+
+      // Top医生（按期间挂号量排序，同时统计处方量、病历量）
+      const topAppointments = await this.prisma.appointment.groupBy({
+        by: ['doctorId'],
+        _count: true,
+        where: { ...this.appointmentScope(resolved), appointmentDate: toDbDateFilter(current) },
+        orderBy: { _count: { doctorId: 'desc' } },
+        take: 10
       });
+      const doctorIds = topAppointments.map(item => item.doctorId);
+
+      const [prescriptionCounts, recordCounts, doctors] = await Promise.all([
+        this.prisma.prescription.groupBy({
+          by: ['doctorId'],
+          _count: true,
+          where: { doctorId: { in: doctorIds }, createdAt: createdAtFilter(current) }
+        }),
+        this.prisma.medicalRecord.groupBy({
+          by: ['doctorId'],
+          _count: true,
+          where: { doctorId: { in: doctorIds }, createdAt: createdAtFilter(current) }
+        }),
+        this.prisma.doctor.findMany({
+          where: { id: { in: doctorIds } },
+          select: { id: true, name: true }
+        })
+      ]);
 
-      const topPerformers = doctors.map(doctor => ({
-        doctorId: doctor.id,
-        doctorName: doctor.name,
-        appointmentCount: doctor._count.appointments,
-        prescriptionCount: doctor._count.prescriptions,
-        medicalRecordCount: doctor._count.medicalRecords
+      const doctorNames = new Map(doctors.map(d => [d.id, d.name]));
+      const prescriptionMap = new Map(prescriptionCounts.map(item => [item.doctorId, item._count]));
+      const recordMap = new Map(recordCounts.map(item => [item.doctorId, item._count]));
+
+      const topPerformers = topAppointments.map(item => ({
+        doctorId: item.doctorId,
+        doctorName: doctorNames.get(item.doctorId) || '未知',
+        appointmentCount: item._count,
+        prescriptionCount: prescriptionMap.get(item.doctorId) || 0,
+        medicalRecordCount: recordMap.get(item.doctorId) || 0
       }));
 
       return {
+        period: resolved.period,
         totalCount,
+        activeCount: comparePeriods(activeCurrent.length, activePrevious.length),
         byDepartment: departmentDistribution,
         byTitle: titleDistribution,
         topPerformers
@@ -458,53 +612,79 @@ export class StatisticsService {
   /**
    * 获取科室统计数据
    */
-  async getDepartmentStatistics(): Promise<DepartmentStatistics> {
+  async getDepartmentStatistics(query: StatisticsQuery = {}): Promise<DepartmentStatistics> {
     try {
-      const totalCount = await this.prisma.department.count();
+      const resolved = this.resolveQuery(query);
+      const { current, previous } = resolved;
 
-      // 获取所有科室
-      const departments = await this.prisma.department.findMany();
+      // 获取科室（筛选科室时只统计该科室）
+      const departments = await this.prisma.department.findMany({
+        where: resolved.departmentId ? { id: resolved.departmentId } : undefined
+      });
+      const totalCount = departments.length;
 
       // 按科室统计挂号量
       const appointmentsByDept = await Promise.all(
         departments.map(async dept => {
           const count = await this.prisma.appointment.count({
             where: {
-              doctor: {
-                departmentId: dept.id
-              }
+              ...this.appointmentScope(resolved),
+              departmentId: dept.id,
+              appointmentDate: toDbDateFilter(current)
             }
           });
           return { department: dept.name, count };
         })
       );
 
-      // 按科室统计收入（处方总金额）
+      // 按科室统计收入（处方总金额，按开具医生所在科室）
       const revenueByDept = await Promise.all(
         departments.map(async dept => {
           const revenue = await this.prisma.prescription.aggregate({
             _sum: { totalAmount: true },
             where: {
-              doctor: {
-                departmentId: dept.id
-              }
+              ...this.doctorScope(resolved),
+              doctor: { departmentId: dept.id },
+              createdAt: createdAtFilter(current)
             }
           });
           return {
             department: dept.name,
-            revenue: revenue._sum.totalAmount?.toNumber() || 0
+            revenue: round2(decimalToNumber(revenue._sum.totalAmount))
           };
         })
       );
 
-      // 平均等待时间（简化计算）
-      const averageWaitTime = departments.map(dept => ({
-        department: dept.name,
-        avgWaitMinutes: 15 // 简化，实际应基于queue数据计算
-      }));
+      // 挂号量、收入环比
+      const [appointmentsPrevious, revenuePrevious] = await Promise.all([
+        this.prisma.appointment.count({
+          where: { ...this.appointmentScope(resolved), appointmentDate: toDbDateFilter(previous) }
+        }),
+        this.prisma.prescription.aggregate({
+          _sum: { totalAmount: true },
+          where: { ...this.doctorScope(resolved), createdAt: createdAtFilter(previous) }
+        })
+      ]);
+      const appointmentsCurrent = appointmentsByDept.reduce((sum, item) => sum + item.count, 0);
+      const revenueCurrent = revenueByDept.reduce((sum, item) => sum + item.revenue, 0);
+
+      // 平均候诊时间（签到到叫号）
+      const averageWaitTime = await Promise.all(
+        departments.map(async dept => ({
+          department: dept.name,
+          avgWaitMinutes: await this.getAverageWaitMinutes({
+            ...this.appointmentScope(resolved),
+            departmentId: dept.id,
+            appointmentDate: toDbDateFilter(current)
+          })
+        }))
+      );
 
       return {
+        period: resolved.period,
         totalCount,
+        appointmentCount: comparePeriods(appointmentsCurrent, appointmentsPrevious),
+        revenue: comparePeriods(revenueCurrent, decimalToNumber(revenuePrevious._sum.totalAmount)),
         appointmentsByDepartment: appointmentsByDept.sort((a, b) => b.count - a.count),
         revenueByDepartment: revenueByDept.sort((a, b) => b.revenue - a.revenue),
         averageWaitTime
@@ -516,105 +696,75 @@ export class StatisticsService {
   }
 
   /**
-   * 获取挂号统计数据
+   * 获取挂号统计数据（按就诊日期统计）
    */
-  async getAppointmentStatistics(timeRange: StatisticsTimeRange = StatisticsTimeRange.MONTH, customRange?: CustomTimeRangeRequest): Promise<AppointmentStatistics> {
+  async getAppointmentStatistics(query: StatisticsQuery = {}): Promise<AppointmentStatistics> {
     try {
-      const { startDate, endDate } = this.getTimeRange(timeRange, customRange);
+      const resolved = this.resolveQuery(query);
+      const { current, previous } = resolved;
+      const scope = this.appointmentScope(resolved);
+      const where: Prisma.AppointmentWhereInput = { ...scope, appointmentDate: toDbDateFilter(current) };
 
-      const totalCount = await this.prisma.appointment.count({
-        where: {
-          appointmentDate: {
-            gte: startDate,
-            lte: endDate
-          }
-        }
-      });
-
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
       const todayCount = await this.prisma.appointment.count({
-        where: { appointmentDate: { gte: today } }
+        where: { ...scope, appointmentDate: toDbDate(new Date()) }
       });
 
-      // 按状态统计
-      const byStatus = await this.prisma.appointment.groupBy({
-        by: ['status'],
-        _count: true,
-        where: {
-          appointmentDate: {
-            gte: startDate,
-            lte: endDate
-          }
-        }
-      });
+      // 按状态统计（本期与对照期）
+      const [byStatus, previousByStatus] = await Promise.all([
+        this.prisma.appointment.groupBy({ by: ['status'], _count: true, where }),
+        this.prisma.appointment.groupBy({
+          by: ['status'],
+          _count: true,
+          where: { ...scope, appointmentDate: toDbDateFilter(previous) }
+        })
+      ]);
+
+      const countOf = (groups: typeof byStatus, status?: string) =>
+        groups
+          .filter(s => !status || s.status === status)
+          .reduce((sum, s) => sum + s._count, 0);
 
-      const completedCount = byStatus.find(s => s.status === 'COMPLETED')?._count || 0;
-      const cancelledCount = byStatus.find(s => s.status === 'CANCELLED')?._count || 0;
+      const totalCount = countOf(byStatus);
+      const completedCount = countOf(byStatus, 'COMPLETED');
+      const cancelledCount = countOf(byStatus, 'CANCELLED');
 
       // 按优先级统计
       const byPriority = await this.prisma.appointment.groupBy({
         by: ['priority'],
         _count: true,
-        where: {
-          appointmentDate: {
-            gte: startDate,
-            lte: endDate
-          }
-        }
+        where
       });
 
       // 按时间段统计
       const byTimeSlot = await this.prisma.appointment.groupBy({
         by: ['timeSlot'],
         _count: true,
-        where: {
-          appointmentDate: {
-            gte: startDate,
-            lte: endDate
-          }
-        }
+        where
       });
 
-      // 每日趋势（最近7天）
-      const last7Days = Array.from({ length: 7 }, (_, i) => {
-        const date = new Date();
-        date.setDate(date.getDate() - (6 - i));
-        return date;
+      // 趋势
+      const appointments = await this.prisma.appointment.findMany({
+        where,
+        select: { appointmentDate: true }
       });
-
-      const dailyTrend = await Promise.all(
-        last7Days.map(async date => {
-          const dayStart = new Date(date);
-          dayStart.setHours(0, 0, 0, 0);
-          const dayEnd = new Date(date);
-          dayEnd.setHours(23, 59, 59, 999);
-
-          const count = await this.prisma.appointment.count({
-            where: {
-              appointmentDate: {
-                gte: dayStart,
-                lte: dayEnd
-              }
-            }
-          });
-
-          return {
-            date: date.toISOString().split('T')[0],
-            count
-          };
-        })
-      );
+      const buckets = buildTrendBuckets(current, resolved.period.granularity);
+      const counts = aggregateByBucket(buckets, appointments, a => fromDbDate(a.appointmentDate));
 
       return {
+        period: resolved.period,
         totalCount,
         todayCount,
         completedCount,
         cancelledCount,
+        comparison: {
+          totalCount: comparePeriods(totalCount, countOf(previousByStatus)),
+          completedCount: comparePeriods(completedCount, countOf(previousByStatus, 'COMPLETED')),
+          cancelledCount: comparePeriods(cancelledCount, countOf(previousByStatus, 'CANCELLED'))
+        },
         byStatus: byStatus.map(s => ({ status: s.status, count: s._count })),
         byPriority: byPriority.map(p => ({ priority: p.priority, count: p._count })),
         byTimeSlot: byTimeSlot.map(t => ({ timeSlot: t.timeSlot, count: t._count })),
-        dailyTrend
+        trend: buckets.map((bucket, i) => ({ period: bucket.label, count: counts[i] }))
       };
     } catch (error) {
       logger.error('获取挂号统计数据失败:', error);
@@ -623,52 +773,46 @@ export class StatisticsService {
   }
 
   /**
-   * 获取处方统计数据
+   * 获取处方统计数据（按开具时间统计）
    */
-  async getPrescriptionStatistics(timeRange: StatisticsTimeRange = StatisticsTimeRange.MONTH, customRange?: CustomTimeRangeRequest): Promise<PrescriptionStatistics> {
+  async getPrescriptionStatistics(query: StatisticsQuery = {}): Promise<PrescriptionStatistics> {
     try {
-      const { startDate, endDate } = this.getTimeRange(timeRange, customRange);
-
-      const totalCount = await this.prisma.prescription.count({
-        where: {
-          createdAt: {
-            gte: startDate,
-            lte: endDate
-          }
-        }
-      });
+      const resolved = this.resolveQuery(query);
+      const { current, previous } = resolved;
+      const scope = this.doctorScope(resolved);
+      const where: Prisma.PrescriptionWhereInput = { ...scope, createdAt: createdAtFilter(current) };
 
-      const revenueData = await this.prisma.prescription.aggregate({
-        _sum: { totalAmount: true },
-        _avg: { totalAmount: true },
-        where: {
-          createdAt: {
-            gte: startDate,
-            lte: endDate
-          }
-        }
-      });
+      const [revenueData, previousRevenueData] = await Promise.all([
+        this.prisma.prescription.aggregate({
+          _count: true,
+          _sum: { totalAmount: true },
+          _avg: { totalAmount: true },
+          where
+        }),
+        this.prisma.prescription.aggregate({
+          _count: true,
+          _sum: { totalAmount: true },
+          where: { ...scope, createdAt: createdAtFilter(previous) }
+        })
+      ]);
 
-      const totalRevenue = revenueData._sum.totalAmount?.toNumber() || 0;
-      const averageAmount = revenueData._avg.totalAmount?.toNumber() || 0;
+      const totalCount = revenueData._count;
+      const totalRevenue = round2(decimalToNumber(revenueData._sum.totalAmount));
+      const averageAmount = round2(decimalToNumber(revenueData._avg.totalAmount));
 
       // 按状态统计
       const byStatus = await this.prisma.prescription.groupBy({
         by: ['status'],
         _count: true,
-        where: {
-          createdAt: {
-            gte: startDate,
-            lte: endDate
-          }
-        }
+        where
       });
 
-      // Top药品（从prescription_items中统计）
+      // Top药品（期间内处方明细）
       const topMedicinesData = await this.prisma.prescriptionItem.groupBy({
         by: ['medicineId'],
         _count: true,
         _sum: { quantity: true },
+        where: { prescription: where },
         orderBy: { _count: { medicineId: 'desc' } },
         take: 10
       });
@@ -688,46 +832,35 @@ export class StatisticsService {
         return {
           medicine: medicine?.name || '未知',
           count: item._count,
-          revenue: quantity * price
+          revenue: round2(quantity * price)
         };
       });
 
-      // 月度收入趋势（最近6个月）
-      const last6Months = Array.from({ length: 6 }, (_, i) => {
-        const date = new Date();
-        date.setMonth(date.getMonth() - (5 - i));
-        return date;
+      // 收入趋势
+      const prescriptions = await this.prisma.prescription.findMany({
+        where,
+        select: { createdAt: true, totalAmount: true }
       });
-
-      const monthlyRevenueTrend = await Promise.all(
-        last6Months.map(async date => {
-          const monthStart = new Date(date.getFullYear(), date.getMonth(), 1);
-          const monthEnd = new Date(date.getFullYear(), date.getMonth() + 1, 0, 23, 59, 59, 999);
-
-          const monthRevenue = await this.prisma.prescription.aggregate({
-            _sum: { totalAmount: true },
-            where: {
-              createdAt: {
-                gte: monthStart,
-                lte: monthEnd
-              }
-            }
-          });
-
-          return {
-            month: `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`,
-            revenue: monthRevenue._sum.totalAmount?.toNumber() || 0
-          };
-        })
-      );
+      const buckets = buildTrendBuckets(current, resolved.period.granularity);
+      const counts = aggregateByBucket(buckets, prescriptions, p => p.createdAt);
+      const revenues = aggregateByBucket(buckets, prescriptions, p => p.createdAt, p => decimalToNumber(p.totalAmount));
 
       return {
+        period: resolved.period,
         totalCount,
         totalRevenue,
         averageAmount,
+        comparison: {
+          totalCount: comparePeriods(totalCount, previousRevenueData._count),
+          totalRevenue: comparePeriods(totalRevenue, decimalToNumber(previousRevenueData._sum.totalAmount))
+        },
         byStatus: byStatus.map(s => ({ status: s.status, count: s._count })),
         topMedicines,
-        monthlyRevenueTrend
+        revenueTrend: buckets.map((bucket, i) => ({
+          period: bucket.label,
+          count: counts[i],
+          revenue: round2(revenues[i])
+        }))
       };
     } catch (error) {
       logger.error('获取处方统计数据失败:', error);
@@ -736,42 +869,32 @@ export class StatisticsService {
   }
 
   /**
-   * 获取病历统计数据
+   * 获取病历统计数据（按创建时间统计）
    */
-  async getMedicalRecordStatistics(timeRange: StatisticsTimeRange = StatisticsTimeRange.MONTH, customRange?: CustomTimeRangeRequest): Promise<MedicalRecordStatistics> {
+  async getMedicalRecordStatistics(query: StatisticsQuery = {}): Promise<MedicalRecordStatistics> {
     try {
-      const { startDate, endDate } = this.getTimeRange(timeRange, customRange);
-
-      const totalCount = await this.prisma.medicalRecord.count({
-        where: {
-          createdAt: {
-            gte: startDate,
-            lte: endDate
-          }
-        }
-      });
+      const resolved = this.resolveQuery(query);
+      const { current, previous } = resolved;
+      const scope = this.doctorScope(resolved);
+      const where: Prisma.MedicalRecordWhereInput = { ...scope, createdAt: createdAtFilter(current) };
+
+      const [totalCount, previousCount] = await Promise.all([
+        this.prisma.medicalRecord.count({ where }),
+        this.prisma.medicalRecord.count({ where: { ...scope, createdAt: createdAtFilter(previous) } })
+      ]);
 
       // 按病历类型统计
       const byRecordType = await this.prisma.medicalRecord.groupBy({
         by: ['recordType'],
         _count: true,
-        where: {
-          createdAt: {
-            gte: startDate,
-            lte: endDate
-          }
-        }
+        where
       });
 
-      // 按科室统计
-      const byDeptData = await this.prisma.medicalRecord.findMany({
-        where: {
-          createdAt: {
-            gte: startDate,
-            lte: endDate
-          }
-        },
+      // 按科室统计（同时用于趋势）
+      const records = await this.prisma.medicalRecord.findMany({
+        where,
         select: {
+          createdAt: true,
           doctor: {
             select: {
               department: {
@@ -783,7 +906,7 @@ export class StatisticsService {
       });
 
       const deptCount = new Map<string, number>();
-      byDeptData.forEach(record => {
+      records.forEach(record => {
         const deptName = record.doctor.department.name;
         deptCount.set(deptName, (deptCount.get(deptName) || 0) + 1);
       });
@@ -794,38 +917,36 @@ export class StatisticsService {
 
       // 包含AI摘要的病历数
       const withAISummaryCount = await this.prisma.medicalRecord.count({
-        where: {
-          aiSummary: { not: null },
-          createdAt: {
-            gte: startDate,
-            lte: endDate
-          }
-        }
+        where: { ...where, aiSummary: { not: null } }
       });
 
       // 已归档病历数
       const finalizedCount = await this.prisma.medicalRecord.count({
-        where: {
-          isFinal: true,
-          createdAt: {
-            gte: startDate,
-            lte: endDate
-          }
-        }
+        where: { ...where, isFinal: true }
+      });
+
+      // 平均每个患者的病历数（期间内有病历的患者）
+      const patients = await this.prisma.medicalRecord.groupBy({
+        by: ['patientId'],
+        where
       });
+      const averageRecordsPerPatient = patients.length > 0 ? round2(totalCount / patients.length) : 0;
 
-      // 平均每个患者的病历数
-      const patientCount = await this.prisma.patient.count();
-      const allRecordsCount = await this.prisma.medicalRecord.count();
-      const averageRecordsPerPatient = patientCount > 0 ? allRecordsCount / patientCount : 0;
+      const buckets = buildTrendBuckets(current, resolved.period.granularity);
+      const counts = aggregateByBucket(buckets, records, r => r.createdAt);
 
       return {
+        period: resolved.period,
         totalCount,
+        comparison: {
+          totalCount: comparePeriods(totalCount, previousCount)
+        },
         byRecordType: byRecordType.map(r => ({ recordType: r.recordType, count: r._count })),
         byDepartment,
         withAISummaryCount,
         finalizedCount,
-        averageRecordsPerPatient
+        averageRecordsPerPatient,
+        trend: buckets.map((bucket, i) => ({ period: bucket.label, count: counts[i] }))
       };
     } catch (error) {
       logger.error('获取病历统计数据失败:', error);
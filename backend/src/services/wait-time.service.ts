@@ -0,0 +1,303 @@
+/**
+ * 候诊时间预估服务
+ *
+ * 功能：
+ * - 从历史叫号/完成时间学习医生各时间段的就诊时长
+ * - 按优先级区分就诊时长（急诊、加急患者耗时通常不同）
+ * - 按科室排序策略推算叫号顺序
+ * - 结合医生排班的出诊时间推算每位候诊患者的预计就诊时间
+ * - 统计预估误差
+ */
+
+import { PrismaClient, Priority, QueueStatus, TimeSlot } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { toDbDate } from '../utils/time-range';
+import { QueueOrderingService } from './queue-ordering.service';
+
+export const DEFAULT_CONSULTATION_MINUTES = 15; // 历史数据不足时的默认就诊时长（分钟）
+const HISTORY_DAYS = 30; // 学习最近30天的就诊记录
+const HISTORY_LIMIT = 500;
+const MIN_SAMPLES = 5; // 样本数不足时回退到更粗粒度的时长
+const MIN_DURATION_MINUTES = 1; // 超出范围的时长视为漏记或误操作，不参与学习
+const MAX_DURATION_MINUTES = 120;
+const MINUTE = 60 * 1000;
+
+export interface ConsultationSample {
+  priority: Priority;
+  calledAt: Date;
+  completedAt: Date;
+}
+
+/**
+ * 就诊时长画像
+ */
+export interface ConsultationProfile {
+  averageMinutes: number;
+  priorityMinutes: Record<Priority, number>;
+  sampleSize: number;
+}
+
+export interface QueueEntry {
+  id: string;
+  priority: Priority;
+  timeSlot: TimeSlot;
+  queuedAt: Date;
+}
+
+/**
+ * 出诊时段（当天的开始和结束时间）
+ */
+export interface SessionWindow {
+  start: Date;
+  end: Date;
+}
+
+export interface QueueProjectionInput {
+  now: Date;
+  waiting: QueueEntry[];
+  profiles: Partial<Record<TimeSlot, ConsultationProfile>>;
+  sessions: Partial<Record<TimeSlot, SessionWindow>>;
+  inServiceRemainingMinutes?: number; // 正在就诊患者的剩余时长
+}
+
+export interface QueueEstimate {
+  id: string;
+  estimatedTime: Date;
+  waitMinutes: number;
+  exceedsSchedule: boolean; // 预计就诊时间已超过医生该时段的结束时间
+}
+
+export interface PredictionRecord {
+  calledAt: Date;
+  initialEstimatedTime: Date | null;
+  estimatedTime: Date | null;
+}
+
+export interface PredictionErrorSummary {
+  sampleSize: number;
+  initialMeanAbsoluteMinutes: number;
+  initialMeanBiasMinutes: number; // 正数表示实际叫号晚于预估
+  latestMeanAbsoluteMinutes: number;
+}
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * 根据历史就诊记录计算就诊时长画像
+ * 使用中位数，避免个别超长就诊拉高预估
+ */
+export function buildConsultationProfile(samples: ConsultationSample[]): ConsultationProfile {
+  const durations = samples
+    .map((sample) => ({
+      priority: sample.priority,
+      minutes: (sample.completedAt.getTime() - sample.calledAt.getTime()) / MINUTE
+    }))
+    .filter((d) => d.minutes >= MIN_DURATION_MINUTES && d.minutes <= MAX_DURATION_MINUTES);
+
+  const averageMinutes =
+    durations.length >= MIN_SAMPLES
+      ? round1(median(durations.map((d) => d.minutes)))
+      : DEFAULT_CONSULTATION_MINUTES;
+
+  const priorityMinutes = {} as Record<Priority, number>;
+  for (const priority of Object.values(Priority)) {
+    const minutes = durations.filter((d) => d.priority === priority).map((d) => d.minutes);
+    priorityMinutes[priority] = minutes.length >= MIN_SAMPLES ? round1(median(minutes)) : averageMinutes;
+  }
+
+  return { averageMinutes, priorityMinutes, sampleSize: durations.length };
+}
+
+/**
+ * 推算候诊患者的预计就诊时间
+ * waiting需已按叫号顺序排列；每位患者不早于其所属时段的开诊时间
+ */
+export function projectQueueTimes(input: QueueProjectionInput): QueueEstimate[] {
+  const { now, waiting, profiles, sessions } = input;
+  let cursor = now.getTime() + (input.inServiceRemainingMinutes || 0) * MINUTE;
+
+  return waiting.map((entry) => {
+    const session = sessions[entry.timeSlot];
+    if (session) {
+      cursor = Math.max(cursor, session.start.getTime());
+    }
+
+    const estimatedTime = new Date(cursor);
+    const profile = profiles[entry.timeSlot];
+    cursor += (profile?.priorityMinutes[entry.priority] ?? DEFAULT_CONSULTATION_MINUTES) * MINUTE;
+
+    return {
+      id: entry.id,
+      estimatedTime,
+      waitMinutes: Math.max(Math.round((estimatedTime.getTime() - now.getTime()) / MINUTE), 0),
+      exceedsSchedule: session ? estimatedTime.getTime() >= session.end.getTime() : false
+    };
+  });
+}
+
+/**
+ * 汇总预估误差：实际叫号时间 - 预估时间
+ * initial为入队时的首次预估，latest为叫号前最后一次更新的预估
+ */
+export function summarizePredictionErrors(records: PredictionRecord[]): PredictionErrorSummary {
+  const initialErrors = records
+    .filter((r) => r.initialEstimatedTime)
+    .map((r) => (r.calledAt.getTime() - r.initialEstimatedTime!.getTime()) / MINUTE);
+  const latestErrors = records
+    .filter((r) => r.estimatedTime)
+    .map((r) => (r.calledAt.getTime() - r.estimatedTime!.getTime()) / MINUTE);
+
+  const mean = (values: number[]) =>
+    values.length ? round1(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+
+  return {
+    sampleSize: initialErrors.length,
+    initialMeanAbsoluteMinutes: mean(initialErrors.map(Math.abs)),
+    initialMeanBiasMinutes: mean(initialErrors),
+    latestMeanAbsoluteMinutes: mean(latestErrors.map(Math.abs))
+  };
+}
+
+/**
+ * 排班时间（HH:mm）转换为就诊日期当天的本地时间
+ */
+function sessionTime(appointmentDate: Date, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(
+    appointmentDate.getUTCFullYear(),
+    appointmentDate.getUTCMonth(),
+    appointmentDate.getUTCDate(),
+    hours,
+    minutes
+  );
+}
+
+/**
+ * 候诊时间预估服务类
+ */
+export class WaitTimeService {
+  private orderingService: QueueOrderingService;
+
+  constructor(private prisma: PrismaClient) {
+    this.orderingService = new QueueOrderingService(prisma);
+  }
+
+  /**
+   * 获取医生某时间段的就诊时长画像
+   * 该时间段样本不足时使用医生全部时间段的记录
+   */
+  async getConsultationProfile(doctorId: string, timeSlot: TimeSlot, now: Date = new Date()): Promise<ConsultationProfile> {
+    const since = new Date(now.getTime() - HISTORY_DAYS * 24 * 60 * MINUTE);
+    const loadSamples = async (slot?: TimeSlot) => {
+      const appointments = await this.prisma.appointment.findMany({
+        where: {
+          doctorId,
+          ...(slot ? { timeSlot: slot } : {}),
+          calledAt: { gte: since },
+          completedAt: { not: null }
+        },
+        select: { priority: true, calledAt: true, completedAt: true },
+        orderBy: { calledAt: 'desc' },
+        take: HISTORY_LIMIT
+      });
+      return appointments as ConsultationSample[];
+    };
+
+    const profile = buildConsultationProfile(await loadSamples(timeSlot));
+    if (profile.sampleSize >= MIN_SAMPLES) {
+      return profile;
+    }
+    return buildConsultationProfile(await loadSamples());
+  }
+
+  /**
+   * 重新计算医生全部候诊患者的预计就诊时间并保存
+   * 首次计算时同时记录入队预估，用于误差统计
+   * 只计算当天的排队，往日遗留未结束的排队不参与推算
+   */
+  async recalculateDoctorQueue(doctorId: string, now: Date = new Date()): Promise<QueueEstimate[]> {
+    const appointmentDate = toDbDate(now);
+    const queues = await this.prisma.queue.findMany({
+      where: {
+        appointment: { doctorId, appointmentDate },
+        status: { in: [QueueStatus.WAITING, QueueStatus.CALLED, QueueStatus.IN_PROGRESS] }
+      },
+      include: {
+        appointment: {
+          select: { priority: true, timeSlot: true, appointmentDate: true, calledAt: true, departmentId: true }
+        }
+      }
+    });
+
+    const candidates = queues
+      .filter((queue) => queue.status === QueueStatus.WAITING)
+      .map((queue) => ({
+        id: queue.id,
+        priority: queue.appointment.priority,
+        timeSlot: queue.appointment.timeSlot,
+        appointmentDate: queue.appointment.appointmentDate,
+        queuedAt: queue.queuedAt,
+        initialEstimatedTime: queue.initialEstimatedTime
+      }));
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    // 按科室排序策略推算叫号顺序
+    const departmentId = queues[0].appointment.departmentId;
+    const waiting = (await this.orderingService.orderDoctorQueue(candidates, doctorId, departmentId, now))
+      .map((ordered) => ordered.entry);
+
+    const timeSlots = [...new Set(queues.map((queue) => queue.appointment.timeSlot))];
+    const profiles: Partial<Record<TimeSlot, ConsultationProfile>> = {};
+    for (const timeSlot of timeSlots) {
+      profiles[timeSlot] = await this.getConsultationProfile(doctorId, timeSlot, now);
+    }
+
+    // 出诊时段取当天对应星期的排班
+    const schedules = await this.prisma.doctorSchedule.findMany({
+      where: { doctorId, dayOfWeek: appointmentDate.getUTCDay(), isActive: true }
+    });
+    const sessions: Partial<Record<TimeSlot, SessionWindow>> = {};
+    for (const schedule of schedules) {
+      sessions[schedule.timeSlot] = {
+        start: sessionTime(appointmentDate, schedule.startTime),
+        end: sessionTime(appointmentDate, schedule.endTime)
+      };
+    }
+
+    // 正在就诊的患者按其优先级时长扣除已用时间
+    let inServiceRemainingMinutes = 0;
+    for (const queue of queues) {
+      if (queue.status === QueueStatus.WAITING || !queue.appointment.calledAt) continue;
+      const expected =
+        profiles[queue.appointment.timeSlot]?.priorityMinutes[queue.appointment.priority] ?? DEFAULT_CONSULTATION_MINUTES;
+      const elapsed = (now.getTime() - queue.appointment.calledAt.getTime()) / MINUTE;
+      inServiceRemainingMinutes = Math.max(inServiceRemainingMinutes, expected - elapsed);
+    }
+
+    const estimates = projectQueueTimes({ now, waiting, profiles, sessions, inServiceRemainingMinutes });
+    const initialById = new Map(waiting.map((entry) => [entry.id, entry.initialEstimatedTime]));
+
+    await this.prisma.$transaction(
+      estimates.map((estimate) =>
+        this.prisma.queue.update({
+          where: { id: estimate.id },
+          data: {
+            estimatedTime: estimate.estimatedTime,
+            initialEstimatedTime: initialById.get(estimate.id) ?? estimate.estimatedTime
+          }
+        })
+      )
+    );
+
+    logger.debug(`候诊时间已更新 - 医生: ${doctorId}, 候诊人数: ${estimates.length}`);
+    return estimates;
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * CRON表达式工具
+ *
+ * 支持标准5段格式：分 时 日 月 周
+ * - 每段支持 *、数字、范围(1-5)、步长(*\/15、1-30/5)、列表(1,3,5)
+ * - 周取值0-7，0和7均表示周日
+ * - 日和周同时指定时满足其一即可（与crontab一致）
+ * - 支持 @hourly、@daily、@weekly、@monthly、@yearly 简写
+ * 按服务器本地时间计算
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1-12
+  daysOfWeek: Set<number>; // 0-6，0为周日
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *'
+};
+
+const FIELD_RANGES: [number, number][] = [
+  [0, 59], // 分
+  [0, 23], // 时
+  [1, 31], // 日
+  [1, 12], // 月
+  [0, 7] // 周
+];
+
+const MAX_SEARCH_DAYS = 366 * 5; // 查找下次执行时间的上限（如2月30日永远不会执行）
+
+/**
+ * 解析单个字段
+ */
+function parseField(field: string, [min, max]: [number, number], expression: string): Set<number> {
+  const values = new Set<number>();
+  const invalid = () => new Error(`无效的CRON表达式: ${expression}`);
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) throw invalid();
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      [start, end] = rangePart.split('-').map(Number);
+    } else {
+      start = Number(rangePart);
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw invalid();
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * 解析CRON表达式，格式错误时抛出异常
+ */
+export function parseCron(expression: string): CronSchedule {
+  const normalized = MACROS[expression.trim().toLowerCase()] || expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`无效的CRON表达式: ${expression}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+    parseField(field, FIELD_RANGES[i], expression)
+  );
+
+  // 7和0都表示周日
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*'
+  };
+}
+
+/**
+ * 校验CRON表达式
+ */
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.anyDayOfMonth) return dayOfWeek;
+  if (schedule.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * 判断某一分钟是否应执行
+ */
+export function matchesCron(schedule: CronSchedule, date: Date): boolean {
+  return (
+    schedule.minutes.has(date.getMinutes()) &&
+    schedule.hours.has(date.getHours()) &&
+    schedule.months.has(date.getMonth() + 1) &&
+    matchesDay(schedule, date)
+  );
+}
+
+/**
+ * 计算after之后（不含）的下一次执行时间，找不到时返回null
+ */
+export function nextCronTime(schedule: CronSchedule, after: Date): Date | null {
+  const date = new Date(after.getFullYear(), after.getMonth(), after.getDate(), after.getHours(), after.getMinutes() + 1);
+  const limit = new Date(date.getTime() + MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000);
+
+  while (date < limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date;
+  }
+
+  return null;
+}
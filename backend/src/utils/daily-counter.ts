@@ -0,0 +1,68 @@
+/**
+ * 按日计数器
+ *
+ * 基于daily_counters表在数据库层面生成按天递增的序号（挂号号码、排队号等）。
+ * 递增语句会对计数行加排他锁直到事务提交，同一范围的并发事务在此串行化，
+ * 因此也可用作号源等业务的行锁。
+ */
+
+import { Prisma } from '@prisma/client';
+import { logger } from './logger';
+
+// 唯一约束冲突、写冲突或死锁，可以重试整个事务
+const RETRYABLE_ERROR_CODES = new Set(['P2002', 'P2034']);
+
+/**
+ * 获取计数范围在指定日期的下一个值
+ * 计数行不存在时以seed()返回的已有最大值为起点创建（兼容计数器上线前的历史数据），
+ * 并发创建时后到者会触发唯一约束冲突，由withTransactionRetry重试
+ */
+export async function nextDailyValue(
+  tx: Prisma.TransactionClient,
+  scope: string,
+  date: Date,
+  seed?: () => Promise<number>
+): Promise<number> {
+  const { count } = await tx.dailyCounter.updateMany({
+    where: { scope, date },
+    data: { value: { increment: 1 } }
+  });
+
+  if (count > 0) {
+    const counter = await tx.dailyCounter.findUniqueOrThrow({
+      where: { scope_date: { scope, date } }
+    });
+    return counter.value;
+  }
+
+  const initial = seed ? await seed() : 0;
+  const counter = await tx.dailyCounter.create({
+    data: { scope, date, value: initial + 1 }
+  });
+  return counter.value;
+}
+
+/**
+ * 判断是否为可重试的事务错误
+ */
+export function isRetryableTransactionError(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && RETRYABLE_ERROR_CODES.has(error.code);
+}
+
+/**
+ * 遇到唯一约束冲突或死锁时重试事务
+ */
+export async function withTransactionRetry<T>(operation: () => Promise<T>, maxAttempts = 5): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (!isRetryableTransactionError(error) || attempt >= maxAttempts) {
+        throw error;
+      }
+      logger.warn(`事务冲突，第${attempt}次重试`);
+      // 随机退避，避免冲突的事务再次同时执行
+      await new Promise((resolve) => setTimeout(resolve, Math.random() * 20 * attempt));
+    }
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * 字段级加密工具
+ *
+ * - AES-256-GCM加密，密文格式：enc:v{版本}:{iv}:{authTag}:{密文}（base64）
+ * - 密钥带版本号，新数据使用当前版本加密，旧版本密钥仅用于解密，支持密钥轮换
+ * - 盲索引（HMAC-SHA256）用于在不解密的情况下进行精确匹配查询
+ */
+
+import * as crypto from 'crypto';
+import { logger } from './logger';
+
+const ALGORITHM = 'aes-256-gcm';
+const CIPHERTEXT_PREFIX = 'enc:v';
+const KEY_SALT = 'ailiaox-field-encryption';
+const INDEX_SALT = 'ailiaox-blind-index';
+
+export interface FieldEncryptionConfig {
+  currentVersion: number;
+  keys: Record<number, string>; // 版本号 => 密钥原文
+  blindIndexKey: string;
+}
+
+/**
+ * 从环境变量读取加密配置
+ * ENCRYPTION_KEY为当前密钥，ENCRYPTION_KEYS_PREVIOUS为历史密钥（格式：1:secret,2:secret）
+ */
+export function loadFieldEncryptionConfig(env: NodeJS.ProcessEnv = process.env): FieldEncryptionConfig {
+  const currentVersion = parseInt(env.ENCRYPTION_KEY_VERSION || '1');
+  const currentKey = env.ENCRYPTION_KEY || 'default-encryption-key-change-in-production';
+
+  if (!env.ENCRYPTION_KEY) {
+    logger.warn('使用默认字段加密密钥，请在生产环境中设置ENCRYPTION_KEY环境变量');
+  }
+
+  const keys: Record<number, string> = {};
+  for (const entry of (env.ENCRYPTION_KEYS_PREVIOUS || '').split(',').filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const version = parseInt(entry.substring(0, separator));
+    if (separator > 0 && !isNaN(version)) {
+      keys[version] = entry.substring(separator + 1);
+    }
+  }
+  keys[currentVersion] = currentKey;
+
+  return {
+    currentVersion,
+    keys,
+    // 建议单独配置BLIND_INDEX_KEY，使索引值与加密密钥解耦，轮换加密密钥时无需重建索引
+    blindIndexKey: env.BLIND_INDEX_KEY || currentKey
+  };
+}
+
+export class FieldEncryptor {
+  private currentVersion: number;
+  private keys = new Map<number, Buffer>();
+  private indexKey: Buffer;
+
+  constructor(config: FieldEncryptionConfig = loadFieldEncryptionConfig()) {
+    this.currentVersion = config.currentVersion;
+    for (const [version, secret] of Object.entries(config.keys)) {
+      this.keys.set(Number(version), crypto.scryptSync(secret, KEY_SALT, 32));
+    }
+    this.indexKey = crypto.scryptSync(config.blindIndexKey, INDEX_SALT, 32);
+
+    if (!this.keys.has(this.currentVersion)) {
+      throw new Error(`缺少当前版本的字段加密密钥: v${this.currentVersion}`);
+    }
+  }
+
+  get keyVersion(): number {
+    return this.currentVersion;
+  }
+
+  /**
+   * 判断值是否已加密
+   */
+  isEncrypted(value: string): boolean {
+    return value.startsWith(CIPHERTEXT_PREFIX);
+  }
+
+  /**
+   * 获取密文使用的密钥版本，明文返回null
+   */
+  getVersion(value: string): number | null {
+    if (!this.isEncrypted(value)) {
+      return null;
+    }
+    const version = parseInt(value.substring(CIPHERTEXT_PREFIX.length, value.indexOf(':', CIPHERTEXT_PREFIX.length)));
+    return isNaN(version) ? null : version;
+  }
+
+  /**
+   * 是否需要（重新）加密：明文或使用旧版本密钥加密
+   */
+  needsReencryption(value: string): boolean {
+    return this.getVersion(value) !== this.currentVersion;
+  }
+
+  /**
+   * 加密
+   */
+  encrypt(plaintext: string): string {
+    const key = this.keys.get(this.currentVersion)!;
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+
+    const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    const authTag = cipher.getAuthTag();
+
+    return [
+      `${CIPHERTEXT_PREFIX}${this.currentVersion}`,
+      iv.toString('base64'),
+      authTag.toString('base64'),
+      encrypted.toString('base64')
+    ].join(':');
+  }
+
+  /**
+   * 解密
+   * 未加密的历史明文原样返回，便于迁移期间读取
+   */
+  decrypt(value: string): string {
+    if (!this.isEncrypted(value)) {
+      return value;
+    }
+
+    const parts = value.split(':');
+    const version = this.getVersion(value);
+    const key = version !== null ? this.keys.get(version) : undefined;
+    if (parts.length !== 5 || !key) {
+      throw new Error(`无法解密字段：缺少密钥版本 v${version}`);
+    }
+
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(parts[2], 'base64'));
+    decipher.setAuthTag(Buffer.from(parts[3], 'base64'));
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(parts[4], 'base64')),
+      decipher.final()
+    ]).toString('utf8');
+  }
+
+  /**
+   * 计算盲索引
+   * 调用方负责规范化输入（去空格、统一大小写），写入和查询必须使用相同的规范化
+   */
+  blindIndex(value: string): string {
+    return crypto.createHmac('sha256', this.indexKey).update(value).digest('hex');
+  }
+}
+
+let defaultEncryptor: FieldEncryptor | null = null;
+
+/**
+ * 获取默认加密器（延迟创建，避免在未使用时派生密钥）
+ */
+export function getFieldEncryptor(): FieldEncryptor {
+  if (!defaultEncryptor) {
+    defaultEncryptor = new FieldEncryptor();
+  }
+  return defaultEncryptor;
+}
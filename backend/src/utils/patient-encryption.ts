@@ -0,0 +1,120 @@
+/**
+ * 患者敏感字段加密
+ *
+ * 通过Prisma中间件透明地加密写入、解密读取，业务代码照常读写明文：
+ * - 写入Patient时加密idCard、phone、emergencyContact、emergencyPhone，并维护盲索引
+ * - 读取任意模型结果时解密其中（含嵌套include的）患者加密字段
+ */
+
+import { Prisma } from '@prisma/client';
+import { FieldEncryptor, getFieldEncryptor } from './field-encryption';
+import { logger } from './logger';
+
+export const PATIENT_ENCRYPTED_FIELDS = ['idCard', 'phone', 'emergencyContact', 'emergencyPhone'] as const;
+
+type PatientEncryptedField = typeof PATIENT_ENCRYPTED_FIELDS[number];
+
+// 需要维护盲索引的字段 => 索引字段
+const BLIND_INDEX_FIELDS: Partial<Record<PatientEncryptedField, 'idCardHash' | 'phoneHash'>> = {
+  idCard: 'idCardHash',
+  phone: 'phoneHash'
+};
+
+const PATIENT_WRITE_ACTIONS = new Set(['create', 'update', 'upsert', 'createMany', 'updateMany']);
+
+/**
+ * 规范化后计算盲索引：去除空白，身份证末位X统一大写
+ */
+export function patientBlindIndex(value: string, encryptor: FieldEncryptor = getFieldEncryptor()): string {
+  return encryptor.blindIndex(value.replace(/\s+/g, '').toUpperCase());
+}
+
+/**
+ * 加密患者写入数据（返回新对象，不修改入参）
+ * 值为null表示清空，同时清空对应的盲索引
+ */
+export function encryptPatientData<T extends Record<string, any>>(
+  data: T,
+  encryptor: FieldEncryptor = getFieldEncryptor()
+): T {
+  const result: Record<string, any> = { ...data };
+
+  for (const field of PATIENT_ENCRYPTED_FIELDS) {
+    if (!(field in result) || result[field] === undefined) continue;
+
+    const value = result[field];
+    const indexField = BLIND_INDEX_FIELDS[field];
+
+    if (value === null || value === '') {
+      result[field] = null;
+      if (indexField) result[indexField] = null;
+      continue;
+    }
+
+    if (typeof value !== 'string') continue;
+
+    const plaintext = encryptor.decrypt(value);
+    result[field] = encryptor.isEncrypted(value) && !encryptor.needsReencryption(value)
+      ? value
+      : encryptor.encrypt(plaintext);
+    if (indexField) {
+      result[indexField] = patientBlindIndex(plaintext, encryptor);
+    }
+  }
+
+  return result as T;
+}
+
+/**
+ * 递归解密查询结果中的患者加密字段
+ */
+export function decryptPatientFields<T>(value: T, encryptor: FieldEncryptor = getFieldEncryptor()): T {
+  if (Array.isArray(value)) {
+    value.forEach((item) => decryptPatientFields(item, encryptor));
+    return value;
+  }
+
+  if (value && typeof value === 'object' && !(value instanceof Date) && !Buffer.isBuffer(value)) {
+    const record = value as Record<string, any>;
+    for (const [key, fieldValue] of Object.entries(record)) {
+      if (typeof fieldValue === 'string') {
+        if ((PATIENT_ENCRYPTED_FIELDS as readonly string[]).includes(key) && encryptor.isEncrypted(fieldValue)) {
+          try {
+            record[key] = encryptor.decrypt(fieldValue);
+          } catch (error) {
+            logger.error(`患者字段解密失败: ${key}`, error);
+          }
+        }
+      } else if (fieldValue && typeof fieldValue === 'object') {
+        decryptPatientFields(fieldValue, encryptor);
+      }
+    }
+  }
+
+  return value;
+}
+
+/**
+ * 创建Prisma中间件
+ * 未指定加密器时在首次查询时才创建默认加密器
+ */
+export function createPatientEncryptionMiddleware(encryptor?: FieldEncryptor): Prisma.Middleware {
+  return async (params, next) => {
+    const activeEncryptor = encryptor ?? getFieldEncryptor();
+
+    if (params.model === 'Patient' && PATIENT_WRITE_ACTIONS.has(params.action) && params.args) {
+      const args = params.args;
+      if (params.action === 'upsert') {
+        args.create = encryptPatientData(args.create, activeEncryptor);
+        args.update = encryptPatientData(args.update, activeEncryptor);
+      } else if (Array.isArray(args.data)) {
+        args.data = args.data.map((item: Record<string, any>) => encryptPatientData(item, activeEncryptor));
+      } else if (args.data) {
+        args.data = encryptPatientData(args.data, activeEncryptor);
+      }
+    }
+
+    const result = await next(params);
+    return decryptPatientFields(result, activeEncryptor);
+  };
+}
@@ -1,12 +1,18 @@
 import { PrismaClient } from '@prisma/client';
 import { logger } from './logger';
+import { createPatientEncryptionMiddleware } from './patient-encryption';
 
 // 创建Prisma客户端单例
 const prismaClientSingleton = () => {
-  return new PrismaClient({
+  const client = new PrismaClient({
     log: process.env.NODE_ENV === 'development' ? ['query', 'error', 'warn'] : ['error'],
     errorFormat: 'pretty',
   });
+
+  // 患者敏感字段透明加解密
+  client.$use(createPatientEncryptionMiddleware());
+
+  return client;
 };
 
 type PrismaClientSingleton = ReturnType<typeof prismaClientSingleton>;
@@ -0,0 +1,290 @@
+/**
+ * 表格文件生成工具
+ *
+ * 功能：
+ * - 生成CSV（带BOM，Excel打开中文不乱码）
+ * - 生成XLSX（多工作表，表头加粗）
+ * - 流式写入CSV/XLSX，导出大量数据时无需全部加载到内存
+ * - CSV中以公式字符开头的文本前加单引号，防止在表格软件中被当作公式执行
+ */
+
+import { Writable } from 'stream';
+import { createZip, writeWithBackpressure, ZipEntry, ZipStreamWriter } from './zip';
+
+export type CellValue = string | number | boolean | Date | null | undefined;
+
+/**
+ * 工作表
+ */
+export interface Sheet {
+  name: string;
+  headers: string[];
+  rows: CellValue[][];
+}
+
+export const CSV_BOM = '\uFEFF';
+
+const SHEET_NAME_MAX_LENGTH = 31;
+// 公式字符（含全角写法），允许前面有空白
+const FORMULA_PREFIX = /^(?:[\t\r]|\s*[=+\-@\uFF1D\uFF0B\uFF0D\uFF20])/;
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * 日期格式化：零点只显示日期，否则显示日期时间（本地时间）
+ */
+function formatDateValue(date: Date): string {
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  if (date.getHours() === 0 && date.getMinutes() === 0 && date.getSeconds() === 0) {
+    return day;
+  }
+  return `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+/**
+ * 单元格文本
+ */
+function toText(value: CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return formatDateValue(value);
+  return String(value);
+}
+
+/**
+ * CSV单元格：公式字符开头的文本前加单引号后再按需加引号转义
+ * 只处理字符串，数字（如负数）和日期按原值输出
+ */
+function toCsvCell(value: CellValue): string {
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : toText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * 生成一行CSV（含换行符）
+ */
+export function toCsvRow(values: CellValue[]): string {
+  return values.map(toCsvCell).join(',') + '\r\n';
+}
+
+/**
+ * 生成CSV文本（单个工作表）
+ */
+export function toCsv(sheet: Sheet): string {
+  return CSV_BOM + toCsvRow(sheet.headers) + sheet.rows.map(toCsvRow).join('');
+}
+
+/**
+ * 多个工作表合并为一个CSV：单个工作表直接输出，多个时各表以表名行开头、空行分隔
+ */
+export function sheetsToCsv(sheets: Sheet[]): string {
+  if (sheets.length === 1) {
+    return toCsv(sheets[0]);
+  }
+  return (
+    CSV_BOM +
+    sheets
+      .map((sheet) => toCsvRow([sheet.name]) + toCsvRow(sheet.headers) + sheet.rows.map(toCsvRow).join(''))
+      .join('\r\n')
+  );
+}
+
+/**
+ * XML不允许的控制字符（制表符、换行、回车除外）
+ */
+function isXmlControlChar(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code < 0x20 && code !== 0x09 && code !== 0x0a && code !== 0x0d;
+}
+
+/**
+ * XML转义，并去除XML不允许的控制字符
+ */
+function escapeXml(text: string): string {
+  return Array.from(text)
+    .filter((char) => !isXmlControlChar(char))
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * 列序号转列名（0 -> A, 26 -> AA）
+ */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function buildCell(value: CellValue, ref: string, style: number): string {
+  const styleAttr = style ? ` s="${style}"` : '';
+  if (value === null || value === undefined || value === '') return '';
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c r="${ref}"${styleAttr}><v>${value}</v></c>`;
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${ref}"${styleAttr} t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  return `<c r="${ref}"${styleAttr} t="inlineStr"><is><t xml:space="preserve">${escapeXml(toText(value))}</t></is></c>`;
+}
+
+function buildRowXml(values: CellValue[], rowIndex: number): string {
+  const style = rowIndex === 0 ? 1 : 0; // 表头加粗
+  const cells = values.map((value, colIndex) => buildCell(value, `${columnName(colIndex)}${rowIndex + 1}`, style));
+  return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+}
+
+function sheetXmlHeader(frozenHeader: boolean): string {
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    (frozenHeader ? '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' : '') +
+    '<sheetData>'
+  );
+}
+
+const SHEET_XML_FOOTER = '</sheetData></worksheet>';
+
+function buildSheetXml(sheet: Sheet): string {
+  const rows = [sheet.headers, ...sheet.rows].map(buildRowXml);
+  return sheetXmlHeader(sheet.headers.length > 0) + rows.join('') + SHEET_XML_FOOTER;
+}
+
+/**
+ * 工作表名称：去除非法字符、截断到31个字符并保证唯一
+ */
+function uniqueSheetNames(sheets: Sheet[]): string[] {
+  const used = new Set<string>();
+  return sheets.map((sheet, index) => {
+    const base = sheet.name.replace(/[\\/?*[\]:]/g, ' ').trim().slice(0, SHEET_NAME_MAX_LENGTH) || `Sheet${index + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      const suffix = `(${n})`;
+      name = base.slice(0, SHEET_NAME_MAX_LENGTH - suffix.length) + suffix;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+const STYLES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+  '</styleSheet>';
+
+/**
+ * 工作簿中除工作表内容外的文件
+ */
+function workbookEntries(sheetNames: string[]): ZipEntry[] {
+  const contentTypes =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    sheetNames
+      .map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`)
+      .join('') +
+    '</Types>';
+
+  const rootRels =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>';
+
+  const workbook =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    `<sheets>${sheetNames.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets>` +
+    '</workbook>';
+
+  const workbookRels =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    sheetNames
+      .map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`)
+      .join('') +
+    `<Relationship Id="rId${sheetNames.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+    '</Relationships>';
+
+  return [
+    { name: '[Content_Types].xml', data: contentTypes },
+    { name: '_rels/.rels', data: rootRels },
+    { name: 'xl/workbook.xml', data: workbook },
+    { name: 'xl/_rels/workbook.xml.rels', data: workbookRels },
+    { name: 'xl/styles.xml', data: STYLES_XML }
+  ];
+}
+
+/**
+ * 生成XLSX文件
+ */
+export function toXlsx(sheets: Sheet[]): Buffer {
+  const workbookSheets = sheets.length > 0 ? sheets : [{ name: 'Sheet1', headers: [], rows: [] }];
+  return createZip([
+    ...workbookEntries(uniqueSheetNames(workbookSheets)),
+    ...workbookSheets.map((sheet, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, data: buildSheetXml(sheet) }))
+  ]);
+}
+
+/**
+ * 逐批写入的表格（用于流式导出）
+ */
+export interface TableWriter {
+  writeRows(rows: CellValue[][]): Promise<void>;
+  end(): Promise<void>;
+}
+
+/**
+ * 创建CSV流式写入器，表头立即输出
+ */
+export async function createCsvWriter(output: Writable, headers: string[]): Promise<TableWriter> {
+  await writeWithBackpressure(output, CSV_BOM + toCsvRow(headers));
+  return {
+    writeRows: async (rows) => {
+      if (rows.length > 0) {
+        await writeWithBackpressure(output, rows.map(toCsvRow).join(''));
+      }
+    },
+    end: async () => undefined
+  };
+}
+
+/**
+ * 创建XLSX流式写入器（单个工作表），表头立即输出
+ */
+export async function createXlsxWriter(output: Writable, sheetName: string, headers: string[]): Promise<TableWriter> {
+  const zip = new ZipStreamWriter(output);
+  const [name] = uniqueSheetNames([{ name: sheetName, headers, rows: [] }]);
+  for (const entry of workbookEntries([name])) {
+    await zip.addEntry(entry.name, entry.data);
+  }
+
+  let rowIndex = 0;
+  await zip.beginEntry('xl/worksheets/sheet1.xml');
+  await zip.writeEntry(sheetXmlHeader(true) + buildRowXml(headers, rowIndex++));
+
+  return {
+    writeRows: async (rows) => {
+      if (rows.length > 0) {
+        await zip.writeEntry(rows.map((row) => buildRowXml(row, rowIndex++)).join(''));
+      }
+    },
+    end: async () => {
+      await zip.writeEntry(SHEET_XML_FOOTER);
+      await zip.endEntry();
+      await zip.finish();
+    }
+  };
+}
@@ -0,0 +1,207 @@
+/**
+ * 统计结果转表格
+ *
+ * 将统计服务的结果拆分为工作表，用于报表文件和数据导出：
+ * - 统计区间、数值指标（含分组下的指标）和环比对比汇总为概览表
+ * - 分布、排行、趋势等对象数组各自成表
+ * - 表头使用中文，未登记的字段保留原字段名
+ * 结果可以是统计服务直接返回的对象，也可以是存储后的JSON（日期为字符串）
+ */
+
+import { CellValue, Sheet } from './spreadsheet';
+import { formatDate } from './time-range';
+
+/**
+ * 统计字段中文名称
+ */
+export const STATISTICS_LABELS: Record<string, string> = {
+  // 指标
+  totalCount: '总数',
+  newCount: '新增患者数',
+  activeCount: '出诊医生数',
+  appointmentCount: '挂号数',
+  prescriptionCount: '处方数',
+  medicalRecordCount: '病历数',
+  revenue: '收入',
+  todayCount: '今日数量',
+  thisWeekCount: '近7天数量',
+  completedCount: '已完成数',
+  cancelledCount: '已取消数',
+  totalRevenue: '总收入',
+  averageAmount: '平均处方金额',
+  withAISummaryCount: '含AI摘要数',
+  finalizedCount: '已定稿数',
+  averageRecordsPerPatient: '人均病历数',
+  total: '总数',
+  newToday: '今日新增',
+  newThisWeek: '本周新增',
+  newThisMonth: '本月新增',
+  pendingCount: '待处理数',
+  withAICount: '含AI摘要数',
+  activeToday: '今日出诊',
+  waitingCount: '候诊人数',
+  totalDiagnoses: '诊断总数',
+  uniqueDiagnoses: '诊断种类数',
+  recentDiagnoses: '近30天诊断数',
+  // 分组（综合统计）
+  patients: '患者',
+  appointments: '挂号',
+  prescriptions: '处方',
+  medicalRecords: '病历',
+  doctors: '医生',
+  queue: '排队',
+  // 明细表
+  newTrend: '新增患者趋势',
+  genderDistribution: '性别分布',
+  ageDistribution: '年龄分布',
+  bloodTypeDistribution: '血型分布',
+  topDiseases: '常见疾病',
+  byDepartment: '按科室',
+  byTitle: '按职称',
+  topPerformers: '医生工作量排行',
+  appointmentsByDepartment: '科室挂号量',
+  revenueByDepartment: '科室收入',
+  averageWaitTime: '平均候诊时间（分钟）',
+  statusStats: '按状态',
+  topDiagnoses: '常见诊断',
+  byStatus: '按状态',
+  byPriority: '按优先级',
+  byTimeSlot: '按时段',
+  byRecordType: '按病历类型',
+  trend: '趋势',
+  revenueTrend: '收入趋势',
+  topMedicines: '常用药品',
+  // 列
+  period: '周期',
+  count: '数量',
+  gender: '性别',
+  ageGroup: '年龄段',
+  bloodType: '血型',
+  disease: '疾病',
+  diagnosis: '诊断',
+  department: '科室',
+  title: '职称',
+  status: '状态',
+  priority: '优先级',
+  timeSlot: '时段',
+  recordType: '病历类型',
+  medicine: '药品',
+  avgWaitMinutes: '平均候诊时间（分钟）',
+  doctorId: '医生ID',
+  doctorName: '医生'
+};
+
+export const SUMMARY_HEADERS = ['指标', '本期', '上期', '变化', '变化率(%)'];
+
+const label = (key: string) => STATISTICS_LABELS[key] || key;
+
+type Row = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Row =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+
+const isComparison = (value: unknown): value is Row =>
+  isObject(value) && 'current' in value && 'previous' in value && 'change' in value;
+
+const toDate = (value: unknown): Date | null => {
+  if (value instanceof Date) return value;
+  if (typeof value === 'string' && !isNaN(Date.parse(value))) return new Date(value);
+  return null;
+};
+
+const formatRange = (start: unknown, end: unknown): string => {
+  const startDate = toDate(start);
+  const endDate = toDate(end);
+  return startDate && endDate ? `${formatDate(startDate)} ~ ${formatDate(endDate)}` : '';
+};
+
+const toCell = (value: unknown): CellValue => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' || value instanceof Date) {
+    return value;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * 对象数组转工作表，列为所有行字段的并集
+ */
+export function rowsToSheet(name: string, rows: Row[]): Sheet {
+  const keys: string[] = [];
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!keys.includes(key)) keys.push(key);
+    }
+  }
+
+  return {
+    name,
+    headers: keys.map(label),
+    rows: rows.map((row) => keys.map((key) => toCell(row[key])))
+  };
+}
+
+/**
+ * 统计结果转工作表
+ * @param title 工作表名称前缀（如"患者统计"），多个统计结果合并到一个文件时用于区分
+ */
+export function statisticsToSheets(data: object, title?: string): Sheet[] {
+  const summary: CellValue[][] = [];
+  const tables: Sheet[] = [];
+  const prefix = title ? `${title}-` : '';
+  const result = data as Row;
+
+  // 与环比对比重复的数值指标只保留对比行
+  const comparisons: Record<string, Row> = {};
+  for (const [key, value] of Object.entries(result)) {
+    if (isComparison(value)) {
+      comparisons[key] = value;
+    } else if (key === 'comparison' && isObject(value)) {
+      for (const [metric, comparison] of Object.entries(value)) {
+        if (isComparison(comparison)) comparisons[metric] = comparison;
+      }
+    }
+  }
+
+  const period = result.period;
+  if (isObject(period)) {
+    summary.push([
+      '统计区间',
+      formatRange(period.startDate, period.endDate),
+      formatRange(period.previousStartDate, period.previousEndDate),
+      null,
+      null
+    ]);
+  }
+
+  for (const [key, value] of Object.entries(result)) {
+    if (key === 'period' || key === 'comparison') continue;
+
+    if (typeof value === 'number' && !comparisons[key]) {
+      summary.push([label(key), value, null, null, null]);
+    } else if (isObject(value) && !isComparison(value)) {
+      for (const [metric, metricValue] of Object.entries(value)) {
+        if (typeof metricValue === 'number') {
+          summary.push([`${label(key)}-${label(metric)}`, metricValue, null, null, null]);
+        }
+      }
+    } else if (Array.isArray(value)) {
+      const rows = value.filter(isObject);
+      if (rows.length > 0 || value.length === 0) {
+        tables.push(rowsToSheet(`${prefix}${label(key)}`, rows));
+      }
+    }
+  }
+
+  for (const [key, comparison] of Object.entries(comparisons)) {
+    summary.push([
+      label(key),
+      toCell(comparison.current),
+      toCell(comparison.previous),
+      toCell(comparison.change),
+      toCell(comparison.changeRate)
+    ]);
+  }
+
+  return [{ name: `${prefix}概览`, headers: SUMMARY_HEADERS, rows: summary }, ...tables];
+}
@@ -0,0 +1,236 @@
+/**
+ * 统计时间范围工具
+ *
+ * 功能：
+ * - 解析统计时间范围（今日、近7天、本月、本季度、本年、自定义）
+ * - 计算环比对照期（本月至今对比上月同期，与月报口径一致）
+ * - 按日、周、月生成趋势区间并聚合
+ * - 本地日期与@db.Date字段（UTC零点）互相转换
+ */
+
+export enum StatisticsTimeRange {
+  TODAY = 'TODAY',
+  WEEK = 'WEEK',
+  MONTH = 'MONTH',
+  QUARTER = 'QUARTER',
+  YEAR = 'YEAR',
+  CUSTOM = 'CUSTOM'
+}
+
+export type TrendGranularity = 'day' | 'week' | 'month';
+
+/**
+ * 时间区间（包含首尾）
+ */
+export interface DateRange {
+  startDate: Date;
+  endDate: Date;
+}
+
+/**
+ * 趋势区间
+ */
+export interface TrendBucket extends DateRange {
+  label: string; // 日、周：区间开始日期 YYYY-MM-DD；月：YYYY-MM
+}
+
+/**
+ * 环比对比结果
+ */
+export interface PeriodComparison {
+  current: number;
+  previous: number;
+  change: number;
+  changeRate: number | null; // 百分比，对照期为0时为null
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const MAX_TREND_BUCKETS = 400;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+const endOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * 本地日期格式化为 YYYY-MM-DD
+ */
+export function formatDate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * 本地日期转换为@db.Date字段值（UTC零点）
+ */
+export function toDbDate(date: Date): Date {
+  return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+}
+
+/**
+ * @db.Date字段值转换为本地日期零点
+ */
+export function fromDbDate(date: Date): Date {
+  return new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+/**
+ * 区间转换为@db.Date字段的查询条件
+ */
+export function toDbDateFilter(range: DateRange): { gte: Date; lte: Date } {
+  return { gte: toDbDate(range.startDate), lte: toDbDate(range.endDate) };
+}
+
+/**
+ * 日期按月平移，日超出目标月天数时取月末，保留时分秒
+ */
+function shiftMonths(date: Date, months: number): Date {
+  const target = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const day = Math.min(date.getDate(), daysInMonth(target.getFullYear(), target.getMonth()));
+  return new Date(
+    target.getFullYear(),
+    target.getMonth(),
+    day,
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+    date.getMilliseconds()
+  );
+}
+
+/**
+ * 解析统计时间范围
+ * 内置范围截至今天结束；WEEK为含今天在内的最近7天；自定义范围按整天处理
+ */
+export function resolveTimeRange(range: StatisticsTimeRange, customRange?: DateRange, now: Date = new Date()): DateRange {
+  const endDate = endOfDay(now);
+
+  switch (range) {
+    case StatisticsTimeRange.TODAY:
+      return { startDate: startOfDay(now), endDate };
+    case StatisticsTimeRange.WEEK:
+      return { startDate: addDays(now, -6), endDate };
+    case StatisticsTimeRange.MONTH:
+      return { startDate: new Date(now.getFullYear(), now.getMonth(), 1), endDate };
+    case StatisticsTimeRange.QUARTER:
+      return { startDate: new Date(now.getFullYear(), Math.floor(now.getMonth() / 3) * 3, 1), endDate };
+    case StatisticsTimeRange.YEAR:
+      return { startDate: new Date(now.getFullYear(), 0, 1), endDate };
+    case StatisticsTimeRange.CUSTOM: {
+      if (!customRange) {
+        throw new Error('自定义时间范围需要提供开始和结束日期');
+      }
+      const custom = { startDate: startOfDay(customRange.startDate), endDate: endOfDay(customRange.endDate) };
+      if (custom.startDate > custom.endDate) {
+        throw new Error('开始日期不能晚于结束日期');
+      }
+      return custom;
+    }
+    default:
+      throw new Error(`不支持的时间范围: ${range}`);
+  }
+}
+
+/**
+ * 计算环比对照期
+ * 本月、本季度、本年对比上一周期的同期（如6月1日-18日对比5月1日-18日）；
+ * 今日、近7天、自定义范围对比紧邻的等长区间
+ */
+export function getPreviousPeriod(range: StatisticsTimeRange, current: DateRange): DateRange {
+  const calendarMonths: Partial<Record<StatisticsTimeRange, number>> = {
+    [StatisticsTimeRange.MONTH]: 1,
+    [StatisticsTimeRange.QUARTER]: 3,
+    [StatisticsTimeRange.YEAR]: 12
+  };
+  const months = calendarMonths[range];
+  if (months) {
+    // 上一周期天数较少时（如3月31日对应2月），对照期截至上一周期末
+    return {
+      startDate: shiftMonths(current.startDate, -months),
+      endDate: shiftMonths(current.endDate, -months)
+    };
+  }
+
+  const days = Math.round((startOfDay(current.endDate).getTime() - startOfDay(current.startDate).getTime()) / DAY) + 1;
+  return {
+    startDate: addDays(current.startDate, -days),
+    endDate: endOfDay(addDays(current.endDate, -days))
+  };
+}
+
+/**
+ * 默认趋势粒度：3个月以内按日，1年以内按周，更长按月
+ */
+export function defaultGranularity(range: DateRange): TrendGranularity {
+  const days = (range.endDate.getTime() - range.startDate.getTime()) / DAY;
+  if (days <= 92) return 'day';
+  if (days <= 366) return 'week';
+  return 'month';
+}
+
+/**
+ * 生成趋势区间，首尾区间截取到统计范围内；周从周一开始
+ */
+export function buildTrendBuckets(range: DateRange, granularity: TrendGranularity): TrendBucket[] {
+  const buckets: TrendBucket[] = [];
+  let cursor = startOfDay(range.startDate);
+
+  while (cursor <= range.endDate) {
+    let next: Date;
+    let label: string;
+    if (granularity === 'month') {
+      next = new Date(cursor.getFullYear(), cursor.getMonth() + 1, 1);
+      label = `${cursor.getFullYear()}-${pad(cursor.getMonth() + 1)}`;
+    } else if (granularity === 'week') {
+      const daysToMonday = (8 - cursor.getDay()) % 7 || 7;
+      next = addDays(cursor, daysToMonday);
+      label = formatDate(cursor);
+    } else {
+      next = addDays(cursor, 1);
+      label = formatDate(cursor);
+    }
+
+    const endDate = new Date(Math.min(next.getTime() - 1, range.endDate.getTime()));
+    buckets.push({ label, startDate: cursor, endDate });
+    if (buckets.length > MAX_TREND_BUCKETS) {
+      throw new Error('趋势数据点过多，请选择更粗的时间粒度');
+    }
+    cursor = next;
+  }
+
+  return buckets;
+}
+
+/**
+ * 按趋势区间汇总数据，区间外的数据忽略
+ * @param value 每条数据的值，默认计数
+ */
+export function aggregateByBucket<T>(
+  buckets: TrendBucket[],
+  items: T[],
+  dateOf: (item: T) => Date,
+  value: (item: T) => number = () => 1
+): number[] {
+  const totals = buckets.map(() => 0);
+  for (const item of items) {
+    const time = dateOf(item).getTime();
+    const index = buckets.findIndex((bucket) => time >= bucket.startDate.getTime() && time <= bucket.endDate.getTime());
+    if (index >= 0) {
+      totals[index] += value(item);
+    }
+  }
+  return totals;
+}
+
+/**
+ * 计算环比变化
+ */
+export function comparePeriods(current: number, previous: number): PeriodComparison {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return {
+    current: round(current),
+    previous: round(previous),
+    change: round(current - previous),
+    changeRate: previous === 0 ? null : round(((current - previous) / previous) * 100)
+  };
+}
@@ -0,0 +1,252 @@
+/**
+ * ZIP打包工具
+ *
+ * 生成标准ZIP文件（DEFLATE压缩，文件名UTF-8编码），用于XLSX等基于ZIP的文档格式
+ * - createZip：在内存中打包
+ * - ZipStreamWriter：边生成边输出，适合导出大量数据
+ */
+
+import { Writable } from 'stream';
+import { once } from 'events';
+import { constants, deflateRawSync } from 'zlib';
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer | string;
+}
+
+interface CentralRecord {
+  name: Buffer;
+  flags: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+const FLAG_UTF8 = 0x0800; // 文件名UTF-8编码
+const FLAG_DATA_DESCRIPTOR = 0x0008; // 校验值和大小写在数据之后
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * 计算CRC32校验值，传入previous可分段累计
+ */
+export function crc32(data: Buffer, previous: number = 0): number {
+  let crc = (previous ^ 0xffffffff) >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * 写入可写流，缓冲区满时等待（连接已关闭时报错，避免一直等待）
+ */
+export async function writeWithBackpressure(output: Writable, chunk: Buffer | string): Promise<void> {
+  if (output.destroyed) {
+    throw new Error('输出流已关闭');
+  }
+  if (!output.write(chunk)) {
+    await Promise.race([once(output, 'drain'), once(output, 'close')]);
+    if (output.destroyed) {
+      throw new Error('输出流已关闭');
+    }
+  }
+}
+
+const toBuffer = (data: Buffer | string) => (Buffer.isBuffer(data) ? data : Buffer.from(data, 'utf8'));
+
+/**
+ * 转换为DOS日期时间格式
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+function localHeader(record: CentralRecord, modifiedAt: Date): Buffer {
+  const { time, date } = toDosDateTime(modifiedAt);
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(0x04034b50, 0); // 本地文件头标识
+  header.writeUInt16LE(20, 4); // 解压所需版本
+  header.writeUInt16LE(record.flags, 6);
+  header.writeUInt16LE(8, 8); // DEFLATE
+  header.writeUInt16LE(time, 10);
+  header.writeUInt16LE(date, 12);
+  header.writeUInt32LE(record.crc, 14);
+  header.writeUInt32LE(record.compressedSize, 18);
+  header.writeUInt32LE(record.size, 22);
+  header.writeUInt16LE(record.name.length, 26);
+  header.writeUInt16LE(0, 28);
+  return Buffer.concat([header, record.name]);
+}
+
+function centralDirectory(records: CentralRecord[], offset: number, modifiedAt: Date): Buffer {
+  const { time, date } = toDosDateTime(modifiedAt);
+  const parts = records.map((record) => {
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0); // 中央目录标识
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(20, 6);
+    header.writeUInt16LE(record.flags, 8);
+    header.writeUInt16LE(8, 10);
+    header.writeUInt16LE(time, 12);
+    header.writeUInt16LE(date, 14);
+    header.writeUInt32LE(record.crc, 16);
+    header.writeUInt32LE(record.compressedSize, 20);
+    header.writeUInt32LE(record.size, 24);
+    header.writeUInt16LE(record.name.length, 28);
+    header.writeUInt32LE(record.offset, 42); // 本地文件头偏移
+    return Buffer.concat([header, record.name]);
+  });
+
+  const directory = Buffer.concat(parts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0); // 中央目录结束标识
+  end.writeUInt16LE(records.length, 8);
+  end.writeUInt16LE(records.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([directory, end]);
+}
+
+/**
+ * 打包文件为ZIP
+ */
+export function createZip(entries: ZipEntry[], modifiedAt: Date = new Date()): Buffer {
+  const parts: Buffer[] = [];
+  const records: CentralRecord[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const content = toBuffer(entry.data);
+    const compressed = deflateRawSync(content);
+    const record: CentralRecord = {
+      name: Buffer.from(entry.name, 'utf8'),
+      flags: FLAG_UTF8,
+      crc: crc32(content),
+      compressedSize: compressed.length,
+      size: content.length,
+      offset
+    };
+    const header = localHeader(record, modifiedAt);
+    parts.push(header, compressed);
+    records.push(record);
+    offset += header.length + compressed.length;
+  }
+
+  return Buffer.concat([...parts, centralDirectory(records, offset, modifiedAt)]);
+}
+
+/**
+ * 流式ZIP写入
+ * 文件内容分段压缩后立即输出，校验值和大小写在数据描述符中；
+ * 每段独立压缩并以同步刷新结束，拼接后仍是合法的DEFLATE数据
+ */
+export class ZipStreamWriter {
+  private offset = 0;
+  private records: CentralRecord[] = [];
+  private current: CentralRecord | null = null;
+
+  constructor(
+    private output: Writable,
+    private modifiedAt: Date = new Date()
+  ) {}
+
+  private async write(chunk: Buffer): Promise<void> {
+    this.offset += chunk.length;
+    await writeWithBackpressure(this.output, chunk);
+  }
+
+  /**
+   * 开始写入文件
+   */
+  async beginEntry(name: string): Promise<void> {
+    if (this.current) {
+      throw new Error('上一个文件尚未结束');
+    }
+    this.current = {
+      name: Buffer.from(name, 'utf8'),
+      flags: FLAG_UTF8 | FLAG_DATA_DESCRIPTOR,
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+      offset: this.offset
+    };
+    await this.write(localHeader(this.current, this.modifiedAt));
+  }
+
+  /**
+   * 写入文件内容
+   */
+  async writeEntry(data: Buffer | string): Promise<void> {
+    const entry = this.current;
+    if (!entry) {
+      throw new Error('请先开始写入文件');
+    }
+    const content = toBuffer(data);
+    if (content.length === 0) return;
+
+    const compressed = deflateRawSync(content, { finishFlush: constants.Z_SYNC_FLUSH });
+    entry.crc = crc32(content, entry.crc);
+    entry.size += content.length;
+    entry.compressedSize += compressed.length;
+    await this.write(compressed);
+  }
+
+  /**
+   * 结束当前文件：写入结束块和数据描述符
+   */
+  async endEntry(): Promise<void> {
+    const entry = this.current;
+    if (!entry) {
+      throw new Error('请先开始写入文件');
+    }
+    const finalBlock = deflateRawSync(Buffer.alloc(0));
+    entry.compressedSize += finalBlock.length;
+    await this.write(finalBlock);
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0); // 数据描述符标识
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    await this.write(descriptor);
+
+    this.records.push(entry);
+    this.current = null;
+  }
+
+  /**
+   * 写入完整文件
+   */
+  async addEntry(name: string, data: Buffer | string): Promise<void> {
+    await this.beginEntry(name);
+    await this.writeEntry(data);
+    await this.endEntry();
+  }
+
+  /**
+   * 写入中央目录，完成ZIP文件（不关闭输出流）
+   */
+  async finish(): Promise<void> {
+    if (this.current) {
+      await this.endEntry();
+    }
+    const offset = this.offset;
+    await this.write(centralDirectory(this.records, offset, this.modifiedAt));
+  }
+}
@@ -4,7 +4,20 @@
  */
 
 import { z } from 'zod';
-import { Gender, AnnouncementType, AnnouncementPriority, AnnouncementStatus } from '@prisma/client';
+import {
+  Gender,
+  AnnouncementType,
+  AnnouncementPriority,
+  AnnouncementStatus,
+  ReportType,
+  ReportFormat,
+  MessageChannel,
+  MessageDeliveryStatus,
+  MessageEvent,
+  AIQuotaScope,
+  AIQuotaPeriod
+} from '@prisma/client';
+import { isValidCron } from '../utils/cron';
 
 /**
  * 患者相关验证Schema
@@ -98,6 +111,73 @@ export const MedicalQASchema = z.object({
   professionalLevel: z.enum(['doctor', 'patient']).default('doctor')
 });
 
+const optionalDateString = z.string().refine(
+  (date) => !isNaN(new Date(date).getTime()),
+  { message: '日期格式无效' }
+).transform(date => new Date(date)).optional();
+
+export const MedicalRecordSearchSchema = z.object({
+  query: z.string().min(1, '搜索查询不能为空').max(500, '搜索查询过长'),
+  patientId: z.string().optional(),
+  department: z.string().optional(),
+  dateRange: z.object({
+    from: optionalDateString,
+    to: optionalDateString
+  }).optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(10)
+});
+
+export const CreateAIChatSessionSchema = z.object({
+  patientId: z.string().uuid('患者ID格式无效').optional(),
+  appointmentId: z.string().uuid('挂号ID格式无效').optional(),
+  title: z.string().max(200, '标题过长').optional()
+});
+
+export const AIChatMessageSchema = z.object({
+  content: z.string().trim().min(1, '消息不能为空').max(4000, '消息过长')
+});
+
+export const AIChatSessionSearchSchema = z.object({
+  patientId: z.string().uuid('患者ID格式无效').optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+/**
+ * AI提示词管理验证Schema
+ */
+export const CreatePromptVersionSchema = z.object({
+  departmentId: z.string().uuid('科室ID格式无效').nullable().optional(),
+  system: z.string().trim().min(1, '系统提示词不能为空').max(5000, '系统提示词过长'),
+  user: z.string().trim().min(1, '用户提示词不能为空').max(20000, '用户提示词过长'),
+  note: z.string().max(200, '修改说明过长').optional(),
+  activate: z.boolean().optional()
+});
+
+export const PromptPreviewSchema = z
+  .object({
+    departmentId: z.string().uuid('科室ID格式无效').nullable().optional(),
+    system: z.string().max(5000, '系统提示词过长').optional(),
+    user: z.string().max(20000, '用户提示词过长').optional(),
+    variables: z.record(z.union([z.string(), z.number()])).optional()
+  })
+  .refine((data) => (data.system === undefined) === (data.user === undefined), '系统提示词和用户提示词需同时提供');
+
+export const PromptDepartmentQuerySchema = z.object({
+  departmentId: z.string().uuid('科室ID格式无效').optional()
+});
+
+export const SchemaViolationStatsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(7)
+});
+
+export const AIAssistantRunSearchSchema = z.object({
+  feature: z.string().max(50).optional(),
+  promptVersionId: z.string().uuid('提示词版本ID格式无效').optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20)
+});
+
 /**
  * 挂号相关验证Schema
  */
@@ -144,6 +224,33 @@ export const AppointmentSearchSchema = z.object({
   sortOrder: z.enum(['asc', 'desc']).optional()
 });
 
+/**
+ * 医生排班相关验证Schema
+ */
+const ScheduleTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, '时间格式必须是HH:MM');
+
+export const CreateScheduleSchema = z.object({
+  doctorId: z.string().uuid('医生ID格式无效'),
+  dayOfWeek: z.number().int().min(0, '星期取值0-6').max(6, '星期取值0-6'),
+  timeSlot: z.enum(['MORNING', 'AFTERNOON', 'EVENING'], {
+    errorMap: () => ({ message: '时间段必须是MORNING、AFTERNOON或EVENING' })
+  }),
+  startTime: ScheduleTimeSchema,
+  endTime: ScheduleTimeSchema,
+  maxPatients: z.number().int().min(1, '号源数量至少为1').max(500, '号源数量过大'),
+  isActive: z.boolean().optional()
+}).refine((data) => data.startTime < data.endTime, {
+  message: '结束时间必须晚于开始时间',
+  path: ['endTime']
+});
+
+export const UpdateScheduleSchema = z.object({
+  startTime: ScheduleTimeSchema.optional(),
+  endTime: ScheduleTimeSchema.optional(),
+  maxPatients: z.number().int().min(1, '号源数量至少为1').max(500, '号源数量过大').optional(),
+  isActive: z.boolean().optional()
+});
+
 /**
  * 排队相关验证Schema
  */
@@ -151,6 +258,83 @@ export const CreateQueueSchema = z.object({
   appointmentId: z.string().uuid('挂号ID格式无效')
 });
 
+export const RecallQueueSchema = z.object({
+  position: z.number().int('位置必须为整数').min(1, '位置至少为1').max(100, '位置过大').optional()
+});
+
+export const TransferQueueSchema = z.object({
+  doctorId: z.string().uuid('医生ID格式无效')
+});
+
+export const QueuePolicySchema = z.object({
+  type: z.enum(['strict', 'aging'], { errorMap: () => ({ message: '排序策略必须为strict或aging' }) }),
+  agingMinutes: z.number().int('提升间隔必须为整数').min(1, '提升间隔至少为1分钟').max(240, '提升间隔最多240分钟'),
+  maxConsecutiveInsertions: z.number().int('插队上限必须为整数').min(0, '插队上限不能为负数').max(20, '插队上限过大')
+});
+
+/**
+ * 统计查询验证Schema
+ * 日期按本地日期解析，与统计口径一致
+ */
+const StatisticsDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, '日期格式应为YYYY-MM-DD')
+  .transform((value) => {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day);
+  });
+
+export const StatisticsQuerySchema = z
+  .object({
+    timeRange: z.enum(['TODAY', 'WEEK', 'MONTH', 'QUARTER', 'YEAR', 'CUSTOM']).default('MONTH'),
+    startDate: StatisticsDateSchema.optional(),
+    endDate: StatisticsDateSchema.optional(),
+    granularity: z.enum(['day', 'week', 'month']).optional(),
+    departmentId: z.string().uuid('科室ID格式无效').optional(),
+    doctorId: z.string().uuid('医生ID格式无效').optional()
+  })
+  .refine((query) => query.timeRange !== 'CUSTOM' || (query.startDate && query.endDate), {
+    message: 'CUSTOM时间范围需要提供startDate和endDate',
+    path: ['startDate']
+  })
+  .refine((query) => !query.startDate || !query.endDate || query.startDate <= query.endDate, {
+    message: '开始日期不能晚于结束日期',
+    path: ['endDate']
+  });
+
+/**
+ * AI用量与配额验证Schema
+ */
+export const AIUsageSummaryQuerySchema = z
+  .object({
+    startDate: StatisticsDateSchema.optional(), // 默认本月1日
+    endDate: StatisticsDateSchema.optional(), // 默认今天
+    groupBy: z.enum(['department', 'user', 'provider', 'model', 'feature']).default('department')
+  })
+  .refine((query) => !query.startDate || !query.endDate || query.startDate <= query.endDate, {
+    message: '开始日期不能晚于结束日期',
+    path: ['endDate']
+  });
+
+const QuotaLimitSchema = z.number().int('配额必须为整数').positive('配额必须大于0').nullable().optional();
+
+export const SetAIQuotaSchema = z
+  .object({
+    scope: z.nativeEnum(AIQuotaScope),
+    targetId: z.string().uuid('用户或科室ID格式无效').nullable().optional(), // 为空表示默认配额
+    period: z.nativeEnum(AIQuotaPeriod),
+    softLimit: QuotaLimitSchema,
+    hardLimit: QuotaLimitSchema
+  })
+  .refine((quota) => quota.softLimit != null || quota.hardLimit != null, {
+    message: '至少设置软限制或硬限制',
+    path: ['hardLimit']
+  })
+  .refine((quota) => quota.softLimit == null || quota.hardLimit == null || quota.softLimit <= quota.hardLimit, {
+    message: '软限制不能大于硬限制',
+    path: ['softLimit']
+  });
+
 /**
  * 系统公告相关验证Schema
  */
@@ -219,6 +403,103 @@ export const AnnouncementSearchSchema = z.object({
   limit: z.coerce.number().int().min(1).max(100).default(20)
 });
 
+/**
+ * 报表相关验证Schema
+ * query以JSON保存在报表配置中，日期保持YYYY-MM-DD字符串，生成时按统计查询解析
+ */
+export const ReportQuerySchema = z
+  .object({
+    timeRange: z.enum(['TODAY', 'WEEK', 'MONTH', 'QUARTER', 'YEAR', 'CUSTOM']).default('MONTH'),
+    startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, '日期格式应为YYYY-MM-DD').optional(),
+    endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, '日期格式应为YYYY-MM-DD').optional(),
+    granularity: z.enum(['day', 'week', 'month']).optional(),
+    departmentId: z.string().uuid('科室ID格式无效').optional(),
+    doctorId: z.string().uuid('医生ID格式无效').optional(),
+    sections: z
+      .array(z.enum(['patients', 'doctors', 'departments', 'appointments', 'prescriptions', 'medicalRecords']))
+      .min(1, '至少选择一项统计内容')
+      .optional()
+  })
+  .refine((query) => query.timeRange !== 'CUSTOM' || (query.startDate && query.endDate), {
+    message: 'CUSTOM时间范围需要提供startDate和endDate',
+    path: ['startDate']
+  })
+  .refine((query) => !query.startDate || !query.endDate || query.startDate <= query.endDate, {
+    message: '开始日期不能晚于结束日期',
+    path: ['endDate']
+  });
+
+const ReportConfigBaseSchema = z.object({
+  name: z.string().min(2, '报表名称至少2个字符').max(100, '报表名称最多100个字符'),
+  reportType: z.nativeEnum(ReportType, { errorMap: () => ({ message: '报表类型无效' }) }),
+  schedule: z.string().max(100, 'CRON表达式过长').refine(isValidCron, 'CRON表达式格式无效').nullable().optional(),
+  format: z.nativeEnum(ReportFormat, { errorMap: () => ({ message: '报表格式必须是CSV、XLSX或PDF' }) }).optional(),
+  query: ReportQuerySchema.optional(),
+  chartConfig: z.record(z.unknown()).nullable().optional(),
+  recipients: z.array(z.string().uuid('接收人ID格式无效')).max(100, '接收人最多100个').optional()
+});
+
+export const CreateReportConfigSchema = ReportConfigBaseSchema.refine(
+  (config) => config.reportType !== ReportType.CUSTOM || Boolean(config.query?.sections),
+  { message: '自定义报表需要在query.sections中指定统计内容', path: ['query', 'sections'] }
+);
+
+export const UpdateReportConfigSchema = ReportConfigBaseSchema.partial();
+
+export const ReportSearchSchema = z.object({
+  configId: z.string().uuid('报表配置ID格式无效').optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+/**
+ * 患者消息相关验证Schema
+ * 短信地址为空时使用患者手机号，邮件和微信启用时必须填写地址
+ */
+const MOBILE_PATTERN = /^1[3-9]\d{9}$/;
+
+const ChannelPreferenceSchema = z
+  .object({
+    channel: z.nativeEnum(MessageChannel, { errorMap: () => ({ message: '渠道必须是SMS、EMAIL或WECHAT' }) }),
+    enabled: z.boolean(),
+    address: z.string().trim().max(200, '地址过长').nullable().optional()
+  })
+  .refine(
+    ({ channel, address }) => channel !== MessageChannel.SMS || !address || MOBILE_PATTERN.test(address),
+    { message: '手机号格式无效', path: ['address'] }
+  )
+  .refine(
+    ({ channel, address }) =>
+      channel !== MessageChannel.EMAIL || !address || z.string().email().safeParse(address).success,
+    { message: '邮箱格式无效', path: ['address'] }
+  )
+  .refine(
+    ({ channel, enabled, address }) => channel === MessageChannel.SMS || !enabled || Boolean(address),
+    { message: '启用邮件或微信渠道时必须填写地址', path: ['address'] }
+  );
+
+export const ChannelPreferencesSchema = z.object({
+  preferences: z
+    .array(ChannelPreferenceSchema)
+    .min(1, '至少设置一个渠道')
+    .refine((preferences) => new Set(preferences.map((item) => item.channel)).size === preferences.length, '渠道不能重复')
+});
+
+export const MessageTemplateSchema = z.object({
+  subject: z.string().max(200, '主题过长').nullable().optional(),
+  body: z.string().min(1, '模板内容不能为空').max(1000, '模板内容过长'),
+  enabled: z.boolean().optional()
+});
+
+export const MessageDeliverySearchSchema = z.object({
+  patientId: z.string().uuid('患者ID格式无效').optional(),
+  status: z.nativeEnum(MessageDeliveryStatus).optional(),
+  channel: z.nativeEnum(MessageChannel).optional(),
+  event: z.nativeEnum(MessageEvent).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20)
+});
+
 // 导出类型
 export type CreatePatientInput = z.infer<typeof CreatePatientSchema>;
 export type UpdatePatientInput = z.infer<typeof UpdatePatientSchema>;
@@ -228,10 +509,28 @@ export type DiagnoseInput = z.infer<typeof DiagnoseSchema>;
 export type PatientAnalysisInput = z.infer<typeof PatientAnalysisSchema>;
 export type QuickRecordInput = z.infer<typeof QuickRecordSchema>;
 export type MedicalQAInput = z.infer<typeof MedicalQASchema>;
+export type MedicalRecordSearchInput = z.infer<typeof MedicalRecordSearchSchema>;
+export type CreateAIChatSessionInput = z.infer<typeof CreateAIChatSessionSchema>;
+export type AIChatMessageInput = z.infer<typeof AIChatMessageSchema>;
+export type AIChatSessionSearchInput = z.infer<typeof AIChatSessionSearchSchema>;
+export type CreatePromptVersionInput = z.infer<typeof CreatePromptVersionSchema>;
+export type PromptPreviewInput = z.infer<typeof PromptPreviewSchema>;
 export type CreateAppointmentInput = z.infer<typeof CreateAppointmentSchema>;
 export type UpdateAppointmentInput = z.infer<typeof UpdateAppointmentSchema>;
 export type AppointmentSearchInput = z.infer<typeof AppointmentSearchSchema>;
+export type CreateScheduleInput = z.infer<typeof CreateScheduleSchema>;
+export type UpdateScheduleInput = z.infer<typeof UpdateScheduleSchema>;
 export type CreateQueueInput = z.infer<typeof CreateQueueSchema>;
+export type RecallQueueInput = z.infer<typeof RecallQueueSchema>;
+export type TransferQueueInput = z.infer<typeof TransferQueueSchema>;
+export type QueuePolicyInput = z.infer<typeof QueuePolicySchema>;
+export type StatisticsQueryInput = z.infer<typeof StatisticsQuerySchema>;
 export type CreateAnnouncementInput = z.infer<typeof CreateAnnouncementSchema>;
 export type UpdateAnnouncementInput = z.infer<typeof UpdateAnnouncementSchema>;
-export type AnnouncementSearchInput = z.infer<typeof AnnouncementSearchSchema>;
\ No newline at end of file
+export type AnnouncementSearchInput = z.infer<typeof AnnouncementSearchSchema>;
+export type ReportQueryInput = z.infer<typeof ReportQuerySchema>;
+export type CreateReportConfigInput = z.infer<typeof CreateReportConfigSchema>;
+export type UpdateReportConfigInput = z.infer<typeof UpdateReportConfigSchema>;
+export type ReportSearchInput = z.infer<typeof ReportSearchSchema>;
+export type ChannelPreferencesInput = z.infer<typeof ChannelPreferencesSchema>;
+export type MessageTemplateInput = z.infer<typeof MessageTemplateSchema>;
@@ -0,0 +1,176 @@
+import { deidentifyRequest, deidentifyTexts, reidentify, StreamReidentifier } from '../../src/ai/deidentification';
+import { AIProviderManager } from '../../src/ai/ai-provider-manager';
+import { DeepSeekProvider } from '../../src/ai/providers/deepseek.provider';
+import { OpenAIProvider } from '../../src/ai/providers/openai.provider';
+import { AIProviderType, ChatRequest, EmbeddingRequest, MessageRole } from '../../src/ai/types';
+import { logger } from '../../src/utils/logger';
+
+const request: ChatRequest = {
+  messages: [
+    { role: MessageRole.SYSTEM, content: '你是一位专业的医疗AI助手。' },
+    {
+      role: MessageRole.USER,
+      content:
+        '患者信息：\n- 姓名：张三\n- 身份证号：110101199003071234\n- 电话：13812345678\n' +
+        '- 住址：北京市朝阳区建国路88号3单元\n- 患者编号：P202501010001\n张三近一周反复头晕，请分析。'
+    }
+  ],
+  context: { userId: 'user-1' }
+};
+
+describe('PHI去标识化', () => {
+  it('替换姓名、身份证号、电话、地址和编号，同一值使用同一占位符', () => {
+    const { request: redacted, mapping, counts } = deidentifyRequest(request);
+    const content = redacted.messages[1].content;
+
+    expect(counts).toEqual({ name: 1, idCard: 1, phone: 1, address: 1, recordNo: 1 });
+    for (const value of ['张三', '110101199003071234', '13812345678', '建国路88号', 'P202501010001']) {
+      expect(content).not.toContain(value);
+    }
+    expect(content).toContain('[姓名1]近一周反复头晕');
+    expect(mapping.get('[电话1]')).toBe('13812345678');
+    expect(redacted.messages[0].content).toContain('占位符');
+  });
+
+  it('使用调用方提供的姓名，提示不随请求发出', () => {
+    const { request: redacted, counts } = deidentifyRequest({
+      messages: [{ role: MessageRole.USER, content: '李四，女，45岁，李四的血压偏高' }],
+      context: { userId: 'user-1', phi: { names: ['李四'] } }
+    });
+
+    expect(counts).toEqual({ name: 1 });
+    expect(redacted.messages[1].content).toBe('[姓名1]，女，45岁，[姓名1]的血压偏高');
+    expect(redacted.context).toEqual({ userId: 'user-1' });
+  });
+
+  it('嵌入文本逐条去标识化', () => {
+    const { texts, counts } = deidentifyTexts(['主诉：头晕。联系人：王五，电话13812345678', '胸闷两天'], { names: ['赵六'] });
+
+    expect(texts).toEqual(['主诉：头晕。联系人：[姓名1]，电话[电话1]', '胸闷两天']);
+    expect(counts).toEqual({ name: 1, phone: 1 });
+  });
+
+  it('没有身份信息时原样返回请求', () => {
+    const plain: ChatRequest = { messages: [{ role: MessageRole.USER, content: '高血压患者的一线用药有哪些？' }] };
+    expect(deidentifyRequest(plain).request).toBe(plain);
+  });
+
+  it('还原响应和流式输出中的占位符', () => {
+    const mapping = new Map([['[姓名1]', '张三'], ['[电话1]', '13812345678']]);
+    expect(reidentify('【姓名1】需复查血压，联系[电话1]，[姓名9]保持原样', mapping)).toBe(
+      '张三需复查血压，联系13812345678，[姓名9]保持原样'
+    );
+
+    const restorer = new StreamReidentifier(mapping);
+    const output = ['建议[', '姓名', '1]每日监测', '血压[电话'].map((chunk) => restorer.push(chunk)).join('');
+    expect(output + restorer.flush()).toBe('建议张三每日监测血压[电话');
+  });
+});
+
+describe('AIProviderManager 去标识化', () => {
+  let manager: AIProviderManager;
+  let sent: ChatRequest[];
+
+  beforeEach(() => {
+    sent = [];
+    jest.spyOn(DeepSeekProvider.prototype as any, 'validateApiKey').mockResolvedValue(true);
+    jest.spyOn(DeepSeekProvider.prototype, 'chat').mockImplementation(async (chatRequest: ChatRequest) => {
+      sent.push(chatRequest);
+      return {
+        id: 'r',
+        provider: AIProviderType.DEEPSEEK,
+        model: 'deepseek-chat',
+        message: { role: MessageRole.ASSISTANT, content: '建议[姓名1]低盐饮食' }
+      };
+    });
+    manager = new AIProviderManager({ enableFailover: false, loadBalanceStrategy: undefined, healthCheckInterval: 0 });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await manager.dispose();
+  });
+
+  it('发往院外Provider的请求去标识化，响应还原', async () => {
+    await manager.registerProvider(AIProviderType.DEEPSEEK, { apiKey: 'test' });
+    manager.setActiveProvider(AIProviderType.DEEPSEEK);
+    const redacted = jest.fn();
+    manager.on('phiRedacted', redacted);
+    const info = jest.spyOn(logger, 'info');
+
+    const response = await manager.chat(request);
+
+    expect(sent[0].messages[1].content).not.toContain('张三');
+    expect(response.message.content).toBe('建议张三低盐饮食');
+    expect(redacted).toHaveBeenCalledWith('deepseek', expect.objectContaining({ name: 1, phone: 1 }));
+    // 去标识化记录写入日志文件，只含类型和数量
+    expect(info).toHaveBeenCalledWith(expect.stringContaining('去标识化'), {
+      provider: 'deepseek',
+      userId: 'user-1',
+      counts: expect.objectContaining({ name: 1, phone: 1 })
+    });
+  });
+
+  it('可信Provider原样发送', async () => {
+    await manager.registerProvider(AIProviderType.DEEPSEEK, { apiKey: 'test', trusted: true });
+    manager.setActiveProvider(AIProviderType.DEEPSEEK);
+
+    await manager.chat(request);
+
+    expect(sent[0]).toBe(request);
+  });
+});
+
+describe('AIProviderManager 嵌入去标识化', () => {
+  let manager: AIProviderManager;
+  let sent: EmbeddingRequest[];
+  const input = [
+    '主诉：头晕一周。姓名：张三，身份证号110101199003071234，电话13812345678，住址：北京市朝阳区建国路88号',
+    '李四自述胸闷'
+  ];
+
+  beforeEach(() => {
+    sent = [];
+    jest.spyOn(OpenAIProvider.prototype, 'validateApiKey').mockResolvedValue(true);
+    jest.spyOn(OpenAIProvider.prototype, 'embed').mockImplementation(async (embeddingRequest: EmbeddingRequest) => {
+      sent.push(embeddingRequest);
+      return { provider: AIProviderType.OPENAI, model: 'text-embedding-3-small', dimensions: 2, embeddings: [[1, 0], [0, 1]] };
+    });
+    manager = new AIProviderManager({ enableFailover: false, loadBalanceStrategy: undefined, healthCheckInterval: 0 });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await manager.dispose();
+  });
+
+  it('发往院外Provider的嵌入输入不含身份信息', async () => {
+    await manager.registerProvider(AIProviderType.OPENAI, { apiKey: 'test' });
+    manager.setActiveProvider(AIProviderType.OPENAI);
+
+    const info = jest.spyOn(logger, 'info');
+
+    await manager.embed({ input, phi: { names: ['李四'] }, userId: 'user-1' });
+
+    expect(info).toHaveBeenCalledWith(expect.stringContaining('去标识化'), {
+      provider: 'openai',
+      userId: 'user-1',
+      counts: expect.objectContaining({ name: 2, idCard: 1 })
+    });
+    const outbound = JSON.stringify(sent[0]);
+    for (const value of ['张三', '李四', '110101199003071234', '13812345678', '建国路88号']) {
+      expect(outbound).not.toContain(value);
+    }
+    expect(sent[0].phi).toBeUndefined();
+    expect(sent[0].userId).toBeUndefined();
+  });
+
+  it('可信Provider的嵌入输入原样发送', async () => {
+    await manager.registerProvider(AIProviderType.OPENAI, { apiKey: 'test', trusted: true });
+    manager.setActiveProvider(AIProviderType.OPENAI);
+
+    await manager.embed({ input });
+
+    expect(sent[0].input).toEqual(input);
+  });
+});
@@ -0,0 +1,105 @@
+import { LocalEmbedder, LOCAL_EMBEDDING_MODEL } from '../../src/ai/local-embedding';
+import { InMemoryVectorIndex, cosineSimilarity } from '../../src/ai/vector-index';
+import { AIProviderManager } from '../../src/ai/ai-provider-manager';
+
+describe('Embedding', () => {
+  const embedder = new LocalEmbedder();
+
+  describe('LocalEmbedder', () => {
+    it('相同文本应该得到相同向量', () => {
+      expect(embedder.embed('胸痛两小时')).toEqual(embedder.embed('胸痛两小时'));
+    });
+
+    it('向量应该归一化且维度固定', () => {
+      const vector = embedder.embed('原发性高血压 BP 160/95');
+      const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+
+      expect(vector).toHaveLength(embedder.dimensions);
+      expect(norm).toBeCloseTo(1, 6);
+    });
+
+    it('临床表现相近的文本相似度更高', () => {
+      const query = embedder.embed('反复头晕，血压升高，诊断高血压');
+      const similar = embedder.embed('头晕一周，诊断原发性高血压');
+      const unrelated = embedder.embed('咳嗽发热，上呼吸道感染');
+
+      expect(cosineSimilarity(query, similar)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+    });
+
+    it('空文本返回零向量', () => {
+      expect(embedder.embed('').every(v => v === 0)).toBe(true);
+    });
+  });
+
+  describe('InMemoryVectorIndex', () => {
+    let index: InMemoryVectorIndex<{ patientId: string }>;
+
+    beforeEach(async () => {
+      index = new InMemoryVectorIndex();
+      const texts: Record<string, [string, string]> = {
+        r1: ['头晕一周，诊断原发性高血压', 'p1'],
+        r2: ['胸痛两小时，急性冠脉综合征，高血压病史', 'p2'],
+        r3: ['咳嗽发热，上呼吸道感染', 'p3']
+      };
+
+      for (const [id, [text, patientId]] of Object.entries(texts)) {
+        await index.upsert({
+          id,
+          vector: embedder.embed(text),
+          model: LOCAL_EMBEDDING_MODEL,
+          metadata: { patientId },
+          updatedAt: new Date()
+        });
+      }
+    });
+
+    it('应该按相似度降序返回', async () => {
+      const matches = await index.query({
+        vector: embedder.embed('高血压头晕'),
+        model: LOCAL_EMBEDDING_MODEL,
+        topK: 3
+      });
+
+      expect(matches[0].id).toBe('r1');
+      for (let i = 1; i < matches.length; i++) {
+        expect(matches[i - 1].score).toBeGreaterThanOrEqual(matches[i].score);
+      }
+    });
+
+    it('应该跳过不同嵌入模型生成的向量', async () => {
+      const matches = await index.query({
+        vector: embedder.embed('高血压头晕'),
+        model: 'text-embedding-3-small'
+      });
+
+      expect(matches).toHaveLength(0);
+    });
+
+    it('应该支持元数据过滤和删除', async () => {
+      await index.remove('r2');
+
+      const matches = await index.query({
+        vector: embedder.embed('高血压'),
+        model: LOCAL_EMBEDDING_MODEL,
+        filter: metadata => metadata.patientId !== 'p1'
+      });
+
+      expect(matches.map(match => match.id)).not.toContain('r1');
+      expect(matches.map(match => match.id)).not.toContain('r2');
+      expect(await index.size()).toBe(2);
+    });
+  });
+
+  describe('AIProviderManager.embed', () => {
+    it('没有可用Provider时降级为本地嵌入', async () => {
+      const manager = new AIProviderManager({ healthCheckInterval: 0 });
+
+      const response = await manager.embed({ input: ['胸痛', '头晕'] });
+
+      expect(response.provider).toBe('local');
+      expect(response.model).toBe(LOCAL_EMBEDDING_MODEL);
+      expect(response.embeddings).toHaveLength(2);
+      expect(response.embeddings[0]).toEqual(embedder.embed('胸痛'));
+    });
+  });
+});
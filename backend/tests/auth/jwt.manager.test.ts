@@ -1,21 +1,27 @@
 import { JWTManager } from '../../src/auth/jwt.manager';
+import { InMemoryTokenStore } from '../../src/auth/token.store';
+import { AuthErrorCode } from '../../src/auth/types';
 import { UserRole } from '@prisma/client';
 
 describe('JWTManager', () => {
   let jwtManager: JWTManager;
+  let tokenStore: InMemoryTokenStore;
 
   beforeEach(() => {
+    tokenStore = new InMemoryTokenStore();
     jwtManager = new JWTManager(
       'test-secret',
       'test-refresh-secret',
       '15m',
-      '7d'
+      '7d',
+      'AiliaoX',
+      tokenStore
     );
   });
 
   describe('generateTokens', () => {
-    it('应该生成Token对', () => {
-      const tokens = jwtManager.generateTokens(
+    it('应该生成Token对', async () => {
+      const tokens = await jwtManager.generateTokens(
         'user-123',
         'testuser',
         'test@example.com',
@@ -28,8 +34,8 @@ describe('JWTManager', () => {
       expect(tokens.refreshExpiresIn).toBe(604800); // 7天 = 604800秒
     });
 
-    it('生成的Token应该包含正确的载荷', () => {
-      const tokens = jwtManager.generateTokens(
+    it('生成的Token应该包含正确的载荷', async () => {
+      const tokens = await jwtManager.generateTokens(
         'user-123',
         'testuser',
         'test@example.com',
@@ -47,98 +53,90 @@ describe('JWTManager', () => {
   });
 
   describe('verifyAccessToken', () => {
-    it('应该验证有效的Access Token', () => {
-      const tokens = jwtManager.generateTokens(
+    it('应该验证有效的Access Token', async () => {
+      const tokens = await jwtManager.generateTokens(
         'user-123',
         'testuser',
         'test@example.com',
         UserRole.DOCTOR
       );
 
-      const payload = jwtManager.verifyAccessToken(tokens.accessToken);
+      const payload = await jwtManager.verifyAccessToken(tokens.accessToken);
 
       expect(payload.userId).toBe('user-123');
       expect(payload.username).toBe('testuser');
       expect(payload.role).toBe(UserRole.DOCTOR);
     });
 
-    it('应该拒绝无效的Token', () => {
+    it('应该拒绝无效的Token', async () => {
       const invalidToken = 'invalid.token.here';
 
-      expect(() => {
-        jwtManager.verifyAccessToken(invalidToken);
-      }).toThrow('无效的Access Token');
+      await expect(jwtManager.verifyAccessToken(invalidToken)).rejects.toThrow('无效的Access Token');
     });
 
-    it('应该拒绝Refresh Token作为Access Token', () => {
-      const tokens = jwtManager.generateTokens(
+    it('应该拒绝Refresh Token作为Access Token', async () => {
+      const tokens = await jwtManager.generateTokens(
         'user-123',
         'testuser',
         'test@example.com',
         UserRole.DOCTOR
       );
 
-      expect(() => {
-        jwtManager.verifyAccessToken(tokens.refreshToken);
-      }).toThrow('无效的Token类型');
+      await expect(jwtManager.verifyAccessToken(tokens.refreshToken)).rejects.toThrow('无效的Token类型');
     });
 
-    it('应该拒绝已撤销的Token', () => {
-      const tokens = jwtManager.generateTokens(
+    it('应该拒绝已撤销的Token', async () => {
+      const tokens = await jwtManager.generateTokens(
         'user-123',
         'testuser',
         'test@example.com',
         UserRole.DOCTOR
       );
 
-      jwtManager.revokeToken(tokens.accessToken);
+      await jwtManager.revokeToken(tokens.accessToken);
 
-      expect(() => {
-        jwtManager.verifyAccessToken(tokens.accessToken);
-      }).toThrow('Token已被撤销');
+      await expect(jwtManager.verifyAccessToken(tokens.accessToken)).rejects.toThrow('Token已被撤销');
     });
   });
 
   describe('verifyRefreshToken', () => {
-    it('应该验证有效的Refresh Token', () => {
-      const tokens = jwtManager.generateTokens(
+    it('应该验证有效的Refresh Token', async () => {
+      const tokens = await jwtManager.generateTokens(
         'user-123',
         'testuser',
         'test@example.com',
         UserRole.DOCTOR
       );
 
-      const payload = jwtManager.verifyRefreshToken(tokens.refreshToken);
+      const payload = await jwtManager.verifyRefreshToken(tokens.refreshToken);
 
       expect(payload.userId).toBe('user-123');
       expect(payload.username).toBe('testuser');
       expect(payload.type).toBe('refresh');
     });
 
-    it('应该拒绝Access Token作为Refresh Token', () => {
-      const tokens = jwtManager.generateTokens(
+    it('应该拒绝Access Token作为Refresh Token', async () => {
+      const tokens = await jwtManager.generateTokens(
         'user-123',
         'testuser',
         'test@example.com',
         UserRole.DOCTOR
       );
 
-      expect(() => {
-        jwtManager.verifyRefreshToken(tokens.accessToken);
-      }).toThrow('无效的Token类型');
+      await expect(jwtManager.verifyRefreshToken(tokens.accessToken)).rejects.toThrow('无效的Token类型');
     });
   });
 
   describe('refreshTokens', () => {
-    it('应该使用Refresh Token生成新的Token对', () => {
-      const originalTokens = jwtManager.generateTokens(
+    it('应该使用Refresh Token生成新的Token对', async () => {
+      const originalTokens = await jwtManager.generateTokens(
         'user-123',
         'testuser',
         'test@example.com',
         UserRole.DOCTOR
       );
 
-      const newTokens = jwtManager.refreshTokens(originalTokens.refreshToken);
+      const newTokens = await jwtManager.refreshTokens(originalTokens.refreshToken);
 
       expect(newTokens.accessToken).toBeDefined();
       expect(newTokens.refreshToken).toBeDefined();
@@ -146,19 +144,87 @@ describe('JWTManager', () => {
       expect(newTokens.refreshToken).not.toBe(originalTokens.refreshToken);
     });
 
-    it('应该撤销旧的Refresh Token', () => {
-      const originalTokens = jwtManager.generateTokens(
+    it('应该撤销旧的Refresh Token', async () => {
+      const originalTokens = await jwtManager.generateTokens(
         'user-123',
         'testuser',
         'test@example.com',
         UserRole.DOCTOR
       );
 
-      jwtManager.refreshTokens(originalTokens.refreshToken);
+      await jwtManager.refreshTokens(originalTokens.refreshToken);
 
-      expect(() => {
-        jwtManager.verifyRefreshToken(originalTokens.refreshToken);
-      }).toThrow('Refresh Token已被撤销');
+      await expect(jwtManager.verifyRefreshToken(originalTokens.refreshToken)).rejects.toThrow('Refresh Token已被撤销');
+    });
+
+    it('轮换后的Token应沿用同一会话标识', async () => {
+      const originalTokens = await jwtManager.generateTokens(
+        'user-123',
+        'testuser',
+        'test@example.com',
+        UserRole.DOCTOR
+      );
+
+      const newTokens = await jwtManager.refreshTokens(originalTokens.refreshToken);
+
+      const originalPayload = jwtManager.decodeToken(originalTokens.refreshToken);
+      const newPayload = jwtManager.decodeToken(newTokens.refreshToken);
+      expect(newPayload?.familyId).toBe(originalPayload?.familyId);
+      expect(newPayload?.jti).not.toBe(originalPayload?.jti);
+      await expect(jwtManager.verifyRefreshToken(newTokens.refreshToken)).resolves.toMatchObject({ userId: 'user-123' });
+    });
+
+    it('重复使用已轮换的Refresh Token应撤销整个会话', async () => {
+      const originalTokens = await jwtManager.generateTokens(
+        'user-123',
+        'testuser',
+        'test@example.com',
+        UserRole.DOCTOR
+      );
+      const rotatedTokens = await jwtManager.refreshTokens(originalTokens.refreshToken);
+
+      await expect(jwtManager.refreshTokens(originalTokens.refreshToken)).rejects.toMatchObject({
+        code: AuthErrorCode.REFRESH_TOKEN_REUSED
+      });
+
+      // 合法持有者手中的最新Token也随之失效
+      await expect(jwtManager.refreshTokens(rotatedTokens.refreshToken)).rejects.toThrow('Refresh Token已被撤销');
+      await expect(jwtManager.verifyAccessToken(rotatedTokens.accessToken)).rejects.toThrow('Token已被撤销');
+    });
+
+    it('重放检测不应影响同一用户的其他会话', async () => {
+      const sessionA = await jwtManager.generateTokens('user-123', 'testuser', undefined, UserRole.DOCTOR);
+      const sessionB = await jwtManager.generateTokens('user-123', 'testuser', undefined, UserRole.DOCTOR);
+
+      await jwtManager.refreshTokens(sessionA.refreshToken);
+      await expect(jwtManager.refreshTokens(sessionA.refreshToken)).rejects.toThrow();
+
+      await expect(jwtManager.refreshTokens(sessionB.refreshToken)).resolves.toBeDefined();
+    });
+
+    it('并发使用同一Refresh Token时只有一个请求成功', async () => {
+      const tokens = await jwtManager.generateTokens('user-123', 'testuser', undefined, UserRole.DOCTOR);
+
+      const results = await Promise.allSettled([
+        jwtManager.refreshTokens(tokens.refreshToken),
+        jwtManager.refreshTokens(tokens.refreshToken)
+      ]);
+
+      expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    });
+
+    it('应该拒绝未登记的Refresh Token', async () => {
+      const tokens = await jwtManager.generateTokens('user-123', 'testuser', undefined, UserRole.DOCTOR);
+      const otherManager = new JWTManager(
+        'test-secret',
+        'test-refresh-secret',
+        '15m',
+        '7d',
+        'AiliaoX',
+        new InMemoryTokenStore()
+      );
+
+      await expect(otherManager.refreshTokens(tokens.refreshToken)).rejects.toThrow('无效的Refresh Token');
     });
   });
 
@@ -178,17 +244,67 @@ describe('JWTManager', () => {
   });
 
   describe('revokeToken', () => {
-    it('应该撤销Token', () => {
-      const tokens = jwtManager.generateTokens(
+    it('应该撤销Token', async () => {
+      const tokens = await jwtManager.generateTokens(
+        'user-123',
+        'testuser',
+        'test@example.com',
+        UserRole.DOCTOR
+      );
+
+      await jwtManager.revokeToken(tokens.accessToken);
+
+      expect(await jwtManager.isTokenRevoked(tokens.accessToken)).toBe(true);
+    });
+
+    it('撤销Refresh Token应使整个会话失效', async () => {
+      const tokens = await jwtManager.generateTokens(
+        'user-123',
+        'testuser',
+        'test@example.com',
+        UserRole.DOCTOR
+      );
+
+      await jwtManager.revokeToken(tokens.refreshToken);
+
+      expect(await jwtManager.isTokenRevoked(tokens.refreshToken)).toBe(true);
+      await expect(jwtManager.verifyAccessToken(tokens.accessToken)).rejects.toThrow('Token已被撤销');
+    });
+
+    it('撤销会话应使同一会话的Refresh Token失效', async () => {
+      const tokens = await jwtManager.generateTokens(
         'user-123',
         'testuser',
         'test@example.com',
         UserRole.DOCTOR
       );
 
-      jwtManager.revokeToken(tokens.accessToken);
+      await jwtManager.revokeSession(tokens.accessToken);
+
+      await expect(jwtManager.verifyAccessToken(tokens.accessToken)).rejects.toThrow('Token已被撤销');
+      await expect(jwtManager.refreshTokens(tokens.refreshToken)).rejects.toThrow('Refresh Token已被撤销');
+    });
+
+    it('撤销状态应在共享存储的实例间生效', async () => {
+      const tokens = await jwtManager.generateTokens(
+        'user-123',
+        'testuser',
+        'test@example.com',
+        UserRole.DOCTOR
+      );
+      await jwtManager.revokeToken(tokens.accessToken);
+
+      // 模拟服务重启或另一实例
+      const anotherManager = new JWTManager(
+        'test-secret',
+        'test-refresh-secret',
+        '15m',
+        '7d',
+        'AiliaoX',
+        tokenStore
+      );
 
-      expect(jwtManager.isTokenRevoked(tokens.accessToken)).toBe(true);
+      await expect(anotherManager.verifyAccessToken(tokens.accessToken)).rejects.toThrow('Token已被撤销');
     });
   });
 
@@ -0,0 +1,125 @@
+import { LoginAttemptManager, calculateLockMinutes } from '../../src/auth/login-attempt.manager';
+import { AuthErrorCode } from '../../src/auth/types';
+
+/**
+ * 基于内存数组模拟LoginLog和User表
+ */
+function createMockPrisma() {
+  const logs: any[] = [];
+  const users = new Map<string, any>();
+  let clock = Date.now() - 60000;
+
+  const matches = (log: any, where: any) =>
+    Object.entries(where).every(([key, value]: [string, any]) => {
+      if (key === 'loginAt') {
+        return log.loginAt >= value.gte;
+      }
+      return log[key] === value;
+    });
+
+  const prisma: any = {
+    loginLog: {
+      create: jest.fn(async ({ data }) => {
+        // 保证每条记录时间递增
+        clock += 1000;
+        const log = { id: `l${logs.length + 1}`, loginAt: new Date(clock), ...data };
+        logs.push(log);
+        return log;
+      }),
+      findMany: jest.fn(async ({ where, take }) =>
+        logs
+          .filter((log) => matches(log, where))
+          .sort((a, b) => b.loginAt.getTime() - a.loginAt.getTime())
+          .slice(0, take)
+      ),
+      count: jest.fn(async ({ where }) => logs.filter((log) => matches(log, where)).length)
+    },
+    user: {
+      update: jest.fn(async ({ where, data }) => {
+        const user = { ...users.get(where.id), ...data };
+        users.set(where.id, user);
+        return user;
+      })
+    }
+  };
+
+  return { prisma, logs, users };
+}
+
+const policy = { maxFailures: 3, windowMinutes: 15, baseLockMinutes: 10, maxLockMinutes: 60 };
+
+describe('LoginAttemptManager', () => {
+  const baseUser = { id: 'u1', username: 'doctor01', lockedUntil: null, lockoutCount: 0 };
+
+  it('窗口内连续失败达到阈值时锁定账号', async () => {
+    const { prisma, users } = createMockPrisma();
+    const manager = new LoginAttemptManager(prisma, policy);
+
+    expect(await manager.recordFailure(baseUser)).toBeNull();
+    expect(await manager.recordFailure(baseUser)).toBeNull();
+    const lockedUntil = await manager.recordFailure(baseUser);
+
+    expect(lockedUntil).toBeInstanceOf(Date);
+    expect(users.get('u1')).toMatchObject({ lockoutCount: 1, lockedUntil });
+  });
+
+  it('管理员解锁后，导致锁定的失败记录不再计入', async () => {
+    const { prisma, logs, users } = createMockPrisma();
+    const manager = new LoginAttemptManager(prisma, policy);
+
+    await manager.recordFailure(baseUser);
+    await manager.recordFailure(baseUser);
+    expect(await manager.recordFailure(baseUser)).toBeInstanceOf(Date);
+
+    // 模拟管理员解锁
+    const unlockedAt = new Date(logs[logs.length - 1].loginAt.getTime() + 500);
+    users.set('u1', { ...users.get('u1'), lockedUntil: null, lockoutCount: 0, unlockedAt });
+    const unlocked = { ...baseUser, unlockedAt };
+
+    expect(await manager.recordFailure(unlocked)).toBeNull();
+    expect(await manager.recordFailure(unlocked)).toBeNull();
+    expect(await manager.recordFailure(unlocked)).toBeInstanceOf(Date);
+  });
+
+  it('成功登录会中断连续失败计数', async () => {
+    const { prisma } = createMockPrisma();
+    const manager = new LoginAttemptManager(prisma, policy);
+
+    await manager.recordFailure(baseUser);
+    await manager.recordFailure(baseUser);
+    await manager.recordSuccess(baseUser);
+
+    expect(await manager.recordFailure(baseUser)).toBeNull();
+  });
+
+  it('锁定期内拒绝登录，响应与密码错误相同', () => {
+    const manager = new LoginAttemptManager(createMockPrisma().prisma, policy);
+    const lockedUntil = new Date(Date.now() + 5 * 60000);
+
+    expect(() => manager.assertNotLocked({ username: 'doctor01', lockedUntil })).toThrow(
+      expect.objectContaining({ code: AuthErrorCode.INVALID_CREDENTIALS, statusCode: 401, message: '用户名或密码错误' })
+    );
+    expect(() => manager.assertNotLocked({ username: 'doctor01', lockedUntil: new Date(Date.now() - 1000) })).not.toThrow();
+  });
+
+  it('锁定时长逐次翻倍且不超过上限', () => {
+    expect(calculateLockMinutes(1, policy)).toBe(10);
+    expect(calculateLockMinutes(2, policy)).toBe(20);
+    expect(calculateLockMinutes(3, policy)).toBe(40);
+    expect(calculateLockMinutes(4, policy)).toBe(60);
+  });
+
+  it('识别来自新IP和新设备的登录', async () => {
+    const { prisma, logs } = createMockPrisma();
+    const manager = new LoginAttemptManager(prisma, policy);
+
+    const first = await manager.recordSuccess(baseUser, { ip: '10.0.0.1', userAgent: 'Chrome' });
+    const same = await manager.recordSuccess(baseUser, { ip: '10.0.0.1', userAgent: 'Chrome' });
+    const newIp = await manager.recordSuccess(baseUser, { ip: '203.0.113.9', userAgent: 'Chrome' });
+
+    expect(first).toEqual({ isNewIp: false, isNewUserAgent: false });
+    expect(same).toEqual({ isNewIp: false, isNewUserAgent: false });
+    expect(newIp).toEqual({ isNewIp: true, isNewUserAgent: false });
+    expect(logs[2]).toMatchObject({ isNewIp: true, ip: '203.0.113.9' });
+  });
+});
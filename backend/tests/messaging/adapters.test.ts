@@ -0,0 +1,130 @@
+import { createServer, Server, Socket } from 'net';
+import { AddressInfo } from 'net';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MessageChannel } from '@prisma/client';
+import { FileAdapter, SmtpAdapter, maskRecipient, renderTemplate } from '../../src/messaging';
+
+/**
+ * 最简SMTP服务：记录收到的命令和邮件原文
+ */
+function startSmtpServer(): Promise<{ server: Server; port: number; commands: string[]; messages: string[] }> {
+  const commands: string[] = [];
+  const messages: string[] = [];
+
+  const server = createServer((socket: Socket) => {
+    let buffer = '';
+    let data: string | null = null;
+    socket.write('220 localhost ESMTP\r\n');
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        if (data !== null) {
+          if (line === '.') {
+            messages.push(data);
+            data = null;
+            socket.write('250 OK queued\r\n');
+          } else {
+            data += `${line}\r\n`;
+          }
+          continue;
+        }
+
+        commands.push(line);
+        if (line.startsWith('EHLO')) socket.write('250-localhost\r\n250 SIZE 10240000\r\n');
+        else if (line === 'DATA') {
+          data = '';
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (line === 'QUIT') socket.end('221 Bye\r\n');
+        else if (line.startsWith('RCPT TO:<reject')) socket.write('550 No such user\r\n');
+        else socket.write('250 OK\r\n');
+      }
+    });
+  });
+
+  return new Promise((resolve) =>
+    server.listen(0, () => resolve({ server, port: (server.address() as AddressInfo).port, commands, messages }))
+  );
+}
+
+describe('SmtpAdapter', () => {
+  let smtp: Awaited<ReturnType<typeof startSmtpServer>>;
+
+  beforeEach(async () => {
+    smtp = await startSmtpServer();
+  });
+
+  afterEach((done) => {
+    smtp.server.close(() => done());
+  });
+
+  it('通过SMTP发送邮件', async () => {
+    const adapter = new SmtpAdapter({ host: '127.0.0.1', port: smtp.port, from: 'AiliaoX <noreply@ailiaox.local>' });
+
+    const result = await adapter.send({
+      channel: MessageChannel.EMAIL,
+      to: 'zhangsan@example.com',
+      subject: '挂号成功',
+      body: '张三您好，您已成功挂号。'
+    });
+
+    expect(smtp.commands.slice(1)).toEqual([
+      'MAIL FROM:<noreply@ailiaox.local>',
+      'RCPT TO:<zhangsan@example.com>',
+      'DATA',
+      'QUIT'
+    ]);
+    expect(result.externalId).toMatch(/^<.+@ailiaox\.local>$/);
+
+    const [raw] = smtp.messages;
+    expect(raw).toContain('To: zhangsan@example.com');
+    expect(raw).toContain(`Message-ID: ${result.externalId}`);
+    const body = raw.split('\r\n\r\n')[1].replace(/\r\n/g, '');
+    expect(Buffer.from(body, 'base64').toString('utf8')).toBe('张三您好，您已成功挂号。');
+  });
+
+  it('服务器拒绝时抛出错误', async () => {
+    const adapter = new SmtpAdapter({ host: '127.0.0.1', port: smtp.port, from: 'noreply@ailiaox.local' });
+
+    await expect(
+      adapter.send({ channel: MessageChannel.EMAIL, to: 'reject@example.com', subject: '', body: '' })
+    ).rejects.toThrow('SMTP错误 550: No such user');
+  });
+});
+
+describe('本地渠道适配器', () => {
+  it('文件适配器每条消息追加一行JSON', async () => {
+    const filePath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'ailiaox-outbox-')), 'sms.jsonl');
+    const adapter = new FileAdapter(MessageChannel.SMS, filePath);
+
+    await adapter.send({ channel: MessageChannel.SMS, to: '13800000000', body: '第一条' });
+    const { externalId } = await adapter.send({ channel: MessageChannel.SMS, to: '13800000001', body: '第二条' });
+
+    const lines = (await fs.readFile(filePath, 'utf8')).trim().split('\n').map((line) => JSON.parse(line));
+    expect(lines.map((line) => line.body)).toEqual(['第一条', '第二条']);
+    expect(lines[1]).toMatchObject({ id: externalId, channel: MessageChannel.SMS, to: '13800000001' });
+    await fs.rm(path.dirname(filePath), { recursive: true, force: true });
+  });
+
+  it('接收人脱敏与模板渲染', () => {
+    expect(maskRecipient('13800001234')).toBe('138****1234');
+    expect(maskRecipient('a@b.cn')).toBe('a***');
+
+    const context = {
+      patient: { name: '张三', patientNo: 'P0001' },
+      appointment: { appointmentNo: 'X1', date: '2025-06-18', timeSlot: '上午', queueNumber: null },
+      doctor: { name: '李医生', title: '' },
+      department: { name: '内科', location: '2层' },
+      hospital: { name: '测试医院' }
+    };
+    expect(renderTemplate('{{ patient.name }}，排队号{{appointment.queueNumber}}，{{unknown.path}}', context)).toBe(
+      '张三，排队号，'
+    );
+  });
+});
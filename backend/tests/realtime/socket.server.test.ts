@@ -0,0 +1,112 @@
+import { createServer, Server as HttpServer } from 'http';
+import { AddressInfo } from 'net';
+import { Server } from 'socket.io';
+import { io as connect, Socket } from 'socket.io-client';
+import { QueueStatus, UserRole } from '@prisma/client';
+import { JWTManager } from '../../src/auth/jwt.manager';
+import { InMemoryTokenStore } from '../../src/auth/token.store';
+import { QueueEventBus } from '../../src/realtime/queue-events';
+import { NotificationEventBus } from '../../src/realtime/notification-events';
+import { initializeSocketServer, SOCKET_EVENTS } from '../../src/realtime/socket.server';
+
+// Token存储使用内存实现，测试不连接数据库
+jest.mock('../../src/utils/prisma', () => ({ prisma: {} }));
+
+const queue = { id: 'q1', appointmentId: 'a1', queueNumber: 3, status: QueueStatus.CALLED };
+
+describe('WebSocket排队推送', () => {
+  let httpServer: HttpServer;
+  let io: Server;
+  let events: QueueEventBus;
+  let notifications: NotificationEventBus;
+  let jwtManager: JWTManager;
+  let url: string;
+  const clients: Socket[] = [];
+
+  beforeEach((done) => {
+    jwtManager = new JWTManager('test-secret', 'test-refresh-secret', '15m', '7d', 'AiliaoX', new InMemoryTokenStore());
+    events = new QueueEventBus();
+    notifications = new NotificationEventBus();
+    httpServer = createServer();
+    io = initializeSocketServer(httpServer, { jwtManager, events, notifications });
+    httpServer.listen(0, () => {
+      url = `http://localhost:${(httpServer.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterEach((done) => {
+    clients.splice(0).forEach((client) => client.disconnect());
+    io.close(() => done());
+  });
+
+  async function connectAs(role: UserRole, userId = 'u1'): Promise<Socket> {
+    const { accessToken } = await jwtManager.generateTokens(userId, 'tester', undefined, role);
+    const client = connect(url, { auth: { token: accessToken }, transports: ['websocket'] });
+    clients.push(client);
+    return client;
+  }
+
+  function connected(client: Socket) {
+    return new Promise<void>((resolve) => (client.connected ? resolve() : client.on('connect', () => resolve())));
+  }
+
+  function subscribe(client: Socket, payload: object) {
+    return new Promise<{ success: boolean; message?: string }>((resolve) => {
+      client.emit(SOCKET_EVENTS.QUEUE_SUBSCRIBE, payload, resolve);
+    });
+  }
+
+  it('只向订阅了对应科室或医生的连接推送', async () => {
+    const departmentClient = await connectAs(UserRole.OPERATOR);
+    const otherClient = await connectAs(UserRole.DOCTOR);
+    await subscribe(departmentClient, { departmentId: 'dep1' });
+    await subscribe(otherClient, { doctorId: 'd2' });
+
+    const otherListener = jest.fn();
+    otherClient.on(SOCKET_EVENTS.QUEUE_UPDATE, otherListener);
+    const received = new Promise<any>((resolve) => departmentClient.on(SOCKET_EVENTS.QUEUE_CALL, resolve));
+
+    events.publish('called', queue, { departmentId: 'dep1', doctorId: 'd1' });
+
+    await expect(received).resolves.toMatchObject({ type: 'called', queueNumber: 3, departmentId: 'dep1' });
+    expect(otherListener).not.toHaveBeenCalled();
+  });
+
+  it('订阅参数无效时返回错误', async () => {
+    const client = await connectAs(UserRole.DOCTOR);
+
+    await expect(subscribe(client, {})).resolves.toEqual({ success: false, message: '订阅参数无效' });
+  });
+
+  it('通知只推送给所属用户', async () => {
+    const owner = await connectAs(UserRole.PATIENT, 'u1');
+    const other = await connectAs(UserRole.DOCTOR, 'u2');
+    await Promise.all([connected(owner), connected(other)]);
+
+    const otherListener = jest.fn();
+    other.on(SOCKET_EVENTS.NOTIFICATION_NEW, otherListener);
+    const created = new Promise<any>((resolve) => owner.on(SOCKET_EVENTS.NOTIFICATION_NEW, resolve));
+    const changed = new Promise<any>((resolve) => owner.on(SOCKET_EVENTS.NOTIFICATION_CHANGE, resolve));
+
+    const notification = { id: 'n1', userId: 'u1', title: '处方已审核通过' } as any;
+    notifications.publish({ type: 'created', userId: 'u1', notification });
+    notifications.publish({ type: 'read', userId: 'u1', notificationIds: null });
+
+    await expect(created).resolves.toMatchObject({ id: 'n1', title: '处方已审核通过' });
+    await expect(changed).resolves.toEqual({ type: 'read', notificationIds: null });
+    expect(otherListener).not.toHaveBeenCalled();
+  });
+
+  it('拒绝无Token或Token无效的连接', async () => {
+    const anonymous = connect(url, { transports: ['websocket'] });
+    const forged = connect(url, { auth: { token: 'invalid-token' }, transports: ['websocket'] });
+    clients.push(anonymous, forged);
+
+    const error = (client: Socket) => new Promise<Error>((resolve) => client.on('connect_error', resolve));
+    const [anonymousError, forgedError] = await Promise.all([error(anonymous), error(forged)]);
+
+    expect(anonymousError.message).toBe('未提供认证Token');
+    expect(forgedError.message).toBe('无效的Access Token');
+  });
+});
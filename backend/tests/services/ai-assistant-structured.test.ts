@@ -0,0 +1,201 @@
+import { AIAssistantService } from '../../src/services/ai-assistant.service';
+import { AIProviderManager } from '../../src/ai/ai-provider-manager';
+import { DeepSeekProvider } from '../../src/ai/providers/deepseek.provider';
+import { extractJson, parseStructuredOutput } from '../../src/ai/structured-output';
+import { PrescriptionReviewOutputSchema } from '../../src/ai/assistant-schemas';
+import { AIProviderType, ChatRequest, MessageRole } from '../../src/ai/types';
+import { logger } from '../../src/utils/logger';
+
+const review = {
+  overallApproval: '通过',
+  riskLevel: '低风险',
+  appropriateness: { score: '90', assessment: '处方合理' },
+  issues: [{ severity: '提示', category: '疗程', description: '疗程偏长' }],
+  strengths: '药物选择恰当',
+  summary: '可以发药',
+  confidence: 85
+};
+
+const request = {
+  diagnosis: '社区获得性肺炎',
+  medicines: [{ name: '阿莫西林', dosage: '0.5g', frequency: '每日3次', duration: '7天' }],
+  patientInfo: { age: 45, gender: '男' }
+};
+
+function createMockPrisma() {
+  const runs: any[] = [];
+  return {
+    runs,
+    aIPromptVersion: { findMany: jest.fn(async () => []) },
+    doctor: { findUnique: jest.fn(async () => null) },
+    aIAssistantRun: {
+      create: jest.fn(async ({ data }) => {
+        runs.push(data);
+        return data;
+      }),
+      groupBy: jest.fn()
+    },
+    aIUsageRecord: { create: jest.fn(async ({ data }) => data) }
+  } as any;
+}
+
+/**
+ * 模拟AI：按顺序返回预设回复，记录每次请求
+ */
+function createMockAI(replies: string[]) {
+  const requests: ChatRequest[] = [];
+  const chat = jest.fn(async (chatRequest: ChatRequest) => {
+    requests.push({ ...chatRequest, messages: [...chatRequest.messages] });
+    return {
+      id: 'r',
+      provider: AIProviderType.DEEPSEEK,
+      model: 'deepseek-chat',
+      message: { role: MessageRole.ASSISTANT, content: replies[Math.min(requests.length, replies.length) - 1] },
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 }
+    };
+  });
+  return { manager: { chat } as any, requests };
+}
+
+describe('结构化输出解析', () => {
+  it('从代码块或夹带说明的回复中取出JSON', () => {
+    expect(extractJson('审核结果如下：\n```json\n{"a": 1}\n```\n请参考')).toBe('{"a": 1}');
+    expect(extractJson('结论 {"a": {"b": 2}} 完毕')).toBe('{"a": {"b": 2}}');
+    expect(extractJson('处方基本合理，无需调整')).toBeNull();
+  });
+
+  it('归一化中文枚举和数字字符串，自报置信度按百分制换算', () => {
+    const parsed = parseStructuredOutput(PrescriptionReviewOutputSchema, JSON.stringify(review));
+
+    expect(parsed).toMatchObject({
+      success: true,
+      confidence: 0.85,
+      data: {
+        overallApproval: 'approve',
+        riskLevel: 'low',
+        appropriateness: { score: 90 },
+        issues: [{ severity: 'info', recommendation: '' }],
+        strengths: ['药物选择恰当'],
+        improvements: []
+      }
+    });
+  });
+
+  it('校验失败时列出字段问题', () => {
+    const parsed = parseStructuredOutput(
+      PrescriptionReviewOutputSchema,
+      JSON.stringify({ ...review, riskLevel: '需人工审核', summary: undefined })
+    );
+
+    expect(parsed.success).toBe(false);
+    if (!parsed.success) {
+      expect(parsed.error).toContain('riskLevel');
+      expect(parsed.error).toContain('summary');
+    }
+  });
+});
+
+describe('AIAssistantService 结构化输出', () => {
+  it('输出符合结构时直接返回类型化结果', async () => {
+    const prisma = createMockPrisma();
+    const ai = createMockAI([JSON.stringify(review)]);
+    const service = new AIAssistantService(ai.manager, prisma, { repairAttempts: 1 });
+
+    const result = await service.reviewPrescription(request);
+
+    expect(result).toMatchObject({ riskLevel: 'low', confidence: 0.85, fallback: false, attempts: 1 });
+    expect(prisma.runs).toEqual([expect.objectContaining({ attempt: 1, schemaValid: true, provider: 'deepseek' })]);
+  });
+
+  it('输出为散文时要求模型修正格式', async () => {
+    const prisma = createMockPrisma();
+    const ai = createMockAI(['该处方基本合理，建议发药。', JSON.stringify({ ...review, confidence: undefined })]);
+    const service = new AIAssistantService(ai.manager, prisma, { repairAttempts: 1 });
+
+    const result = await service.reviewPrescription(request);
+
+    expect(result).toMatchObject({ overallApproval: 'approve', confidence: 0.8, fallback: false, attempts: 2 });
+    const repair = ai.requests[1].messages;
+    expect(repair[2]).toEqual({ role: MessageRole.ASSISTANT, content: '该处方基本合理，建议发药。' });
+    expect(repair[3].content).toContain('回复中没有JSON对象');
+    expect(prisma.runs.map((run: any) => [run.attempt, run.schemaValid])).toEqual([
+      [1, false],
+      [2, true]
+    ]);
+  });
+
+  it('修复重试后仍不符合时返回降级结果', async () => {
+    const prisma = createMockPrisma();
+    const ai = createMockAI(['该处方基本合理，建议发药。']);
+    const service = new AIAssistantService(ai.manager, prisma, { repairAttempts: 1 });
+
+    const result = await service.reviewPrescription(request);
+
+    expect(result).toMatchObject({
+      overallApproval: 'conditional',
+      riskLevel: 'medium',
+      summary: '该处方基本合理，建议发药。',
+      confidence: 0,
+      fallback: true,
+      attempts: 2
+    });
+  });
+
+  it('请求携带发起用户，普通输出和结构化输出均传递', async () => {
+    const ai = createMockAI(['多饮水', JSON.stringify(review)]);
+    const service = new AIAssistantService(ai.manager, createMockPrisma());
+    const context = { userId: 'user-1', departmentId: null };
+
+    await service.medicalQA({ question: '感冒怎么办' }, context);
+    await service.reviewPrescription(request, context);
+
+    expect(ai.requests.map((chatRequest) => chatRequest.context?.userId)).toEqual(['user-1', 'user-1']);
+  });
+
+  it('去标识化日志记录发起用户', async () => {
+    jest.spyOn(DeepSeekProvider.prototype as any, 'validateApiKey').mockResolvedValue(true);
+    jest.spyOn(DeepSeekProvider.prototype, 'chat').mockResolvedValue({
+      id: 'r',
+      provider: AIProviderType.DEEPSEEK,
+      model: 'deepseek-chat',
+      message: { role: MessageRole.ASSISTANT, content: JSON.stringify(review) }
+    });
+    const manager = new AIProviderManager({ enableFailover: false, loadBalanceStrategy: undefined, healthCheckInterval: 0 });
+    await manager.registerProvider(AIProviderType.DEEPSEEK, { apiKey: 'test' });
+    manager.setActiveProvider(AIProviderType.DEEPSEEK);
+    const info = jest.spyOn(logger, 'info');
+
+    try {
+      const service = new AIAssistantService(manager, createMockPrisma());
+      await service.reviewPrescription(
+        { ...request, diagnosis: '社区获得性肺炎，家属电话13812345678' },
+        { userId: 'user-1', departmentId: null }
+      );
+
+      expect(info).toHaveBeenCalledWith(expect.stringContaining('去标识化'), {
+        provider: 'deepseek',
+        userId: 'user-1',
+        counts: expect.objectContaining({ phone: 1 })
+      });
+    } finally {
+      jest.restoreAllMocks();
+      await manager.dispose();
+    }
+  });
+
+  it('按服务商统计结构化输出违规率', async () => {
+    const prisma = createMockPrisma();
+    prisma.aIAssistantRun.groupBy.mockResolvedValue([
+      { provider: 'deepseek', schemaValid: true, _count: { _all: 9 } },
+      { provider: 'deepseek', schemaValid: false, _count: { _all: 1 } },
+      { provider: 'kimi', schemaValid: false, _count: { _all: 1 } },
+      { provider: 'kimi', schemaValid: true, _count: { _all: 3 } }
+    ]);
+    const service = new AIAssistantService(createMockAI([]).manager, prisma);
+
+    expect(await service.getSchemaViolationStats(new Date())).toEqual([
+      { provider: 'kimi', total: 4, violations: 1, violationRate: 0.25 },
+      { provider: 'deepseek', total: 10, violations: 1, violationRate: 0.1 }
+    ]);
+  });
+});
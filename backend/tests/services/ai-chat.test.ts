@@ -0,0 +1,150 @@
+import { AIChatService, estimateTokens } from '../../src/services/ai-chat.service';
+import { AIProviderType, ChatRequest, MessageRole } from '../../src/ai/types';
+
+const patient = {
+  id: 'p1',
+  name: '张三',
+  patientNo: 'P0001',
+  gender: 'MALE',
+  birthDate: new Date('1980-01-01'),
+  allergies: '青霉素',
+  medicalHistory: null
+};
+
+/**
+ * 模拟Prisma：会话和对话记录保存在内存中
+ */
+function createMockPrisma() {
+  const sessions: any[] = [];
+  const chats: any[] = [];
+  const withPatient = (session: any) => ({ ...session, patient: session.patientId ? patient : null, appointment: null });
+
+  return {
+    sessions,
+    chats,
+    patient: { findFirst: jest.fn(async ({ where }) => (where.id === patient.id ? patient : null)) },
+    appointment: {
+      findUnique: jest.fn(async ({ where }) => (where.id === 'a1' ? { id: 'a1', patientId: 'p2' } : null))
+    },
+    aIChatSession: {
+      create: jest.fn(async ({ data }) => {
+        const session = { id: `s${sessions.length + 1}`, summary: null, summarizedTurns: 0, turnCount: 0, ...data };
+        sessions.push(session);
+        return withPatient(session);
+      }),
+      findFirst: jest.fn(async ({ where }) => {
+        const session = sessions.find((item) => item.id === where.id && item.userId === where.userId);
+        return session ? withPatient(session) : null;
+      }),
+      update: jest.fn(async ({ where, data }) =>
+        withPatient(Object.assign(sessions.find((item) => item.id === where.id), data))
+      ),
+      delete: jest.fn(async ({ where }) => sessions.splice(sessions.findIndex((item) => item.id === where.id), 1))
+    },
+    aIChat: {
+      findMany: jest.fn(async ({ where }) => chats.filter((item) => item.sessionId === where.sessionId)),
+      create: jest.fn(async ({ data }) => {
+        const chat = { id: `c${chats.length + 1}`, createdAt: new Date(), ...data };
+        chats.push(chat);
+        return chat;
+      })
+    },
+    doctor: { findUnique: jest.fn(async () => null) },
+    aIUsageRecord: { create: jest.fn(async ({ data }) => data) }
+  } as any;
+}
+
+/**
+ * 模拟AI：摘要请求返回固定摘要，其余请求回复序号
+ */
+function createMockAI(options: { failSummary?: boolean } = {}) {
+  const requests: ChatRequest[] = [];
+  let replies = 0;
+  const chat = jest.fn(async (request: ChatRequest) => {
+    const isSummary = request.messages[0].content.startsWith('你负责整理医疗问诊对话的摘要');
+    if (isSummary && options.failSummary) throw new Error('AI服务不可用');
+    if (!isSummary) requests.push(request);
+    return {
+      id: 'r',
+      provider: AIProviderType.DEEPSEEK,
+      model: 'deepseek-chat',
+      message: { role: MessageRole.ASSISTANT, content: isSummary ? '摘要：患者头痛三天' : `回复${++replies}` },
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 }
+    };
+  });
+  return { manager: { chat } as any, chat, requests };
+}
+
+describe('AIChatService', () => {
+  it('保存每轮对话，后续提问带上历史记录', async () => {
+    const prisma = createMockPrisma();
+    const ai = createMockAI();
+    const service = new AIChatService(prisma, ai.manager);
+
+    const session = await service.createSession('u1', { patientId: 'p1' });
+    await service.sendMessage('u1', session.id, '患者头痛三天，伴有低热');
+    const result = await service.sendMessage('u1', session.id, '需要做哪些检查？');
+
+    expect(result.message.content).toBe('回复2');
+    expect(result.session).toMatchObject({ turnCount: 2, title: '患者头痛三天，伴有低热' });
+    expect(prisma.chats[0]).toMatchObject({ sessionId: session.id, userId: 'u1', provider: 'deepseek', tokensUsed: 15 });
+
+    const [system, ...history] = ai.requests[1].messages;
+    expect(system.content).toContain('当前患者：张三，男');
+    expect(system.content).toContain('过敏史：青霉素');
+    expect(history.map((message) => message.content)).toEqual(['患者头痛三天，伴有低热', '回复1', '需要做哪些检查？']);
+
+    const restored = await service.getSession('u1', session.id);
+    expect(restored.messages.map((message) => message.role)).toEqual(['user', 'assistant', 'user', 'assistant']);
+  });
+
+  it('超出轮次上限时较早的对话压缩为摘要', async () => {
+    const prisma = createMockPrisma();
+    const ai = createMockAI();
+    const service = new AIChatService(prisma, ai.manager, { maxRecentTurns: 4 });
+    const session = await service.createSession('u1');
+
+    for (let i = 1; i <= 5; i++) {
+      await service.sendMessage('u1', session.id, `问题${i}`);
+    }
+    const result = await service.sendMessage('u1', session.id, '问题6');
+
+    // 第6轮时未压缩的5轮超出上限，保留最近2轮
+    expect(result.session).toMatchObject({ summary: '摘要：患者头痛三天', summarizedTurns: 3, turnCount: 6 });
+    const contents = ai.requests[5].messages.map((message) => message.content);
+    expect(contents[1]).toBe('此前对话摘要：\n摘要：患者头痛三天');
+    expect(contents.slice(2)).toEqual(['问题4', '回复4', '问题5', '回复5', '问题6']);
+  });
+
+  it('摘要失败时按token预算裁剪较早的对话', async () => {
+    const prisma = createMockPrisma();
+    const ai = createMockAI({ failSummary: true });
+    const service = new AIChatService(prisma, ai.manager, { contextTokens: 200 });
+    const session = await service.createSession('u1');
+
+    await service.sendMessage('u1', session.id, '症'.repeat(160));
+    const result = await service.sendMessage('u1', session.id, '继续');
+
+    expect(result.message.content).toBe('回复2');
+    expect(result.session).toMatchObject({ summary: null, summarizedTurns: 1 });
+    expect(ai.requests[1].messages.map((message) => message.content).slice(1)).toEqual(['继续']);
+  });
+
+  it('会话仅创建者可访问，挂号需属于指定患者', async () => {
+    const prisma = createMockPrisma();
+    const service = new AIChatService(prisma, createMockAI().manager);
+    const session = await service.createSession('u1', { patientId: 'p1' });
+
+    await expect(service.sendMessage('u2', session.id, '你好')).rejects.toThrow('会话不存在');
+    await expect(service.deleteSession('u2', session.id)).rejects.toThrow('会话不存在');
+    await expect(service.createSession('u1', { patientId: 'p1', appointmentId: 'a1' })).rejects.toThrow(
+      '挂号不属于该患者'
+    );
+    await expect(service.createSession('u1', { patientId: 'p9' })).rejects.toThrow('患者不存在');
+  });
+
+  it('估算token数：中文按字计，其余按4个字符计', () => {
+    expect(estimateTokens('头痛三天')).toBe(4);
+    expect(estimateTokens('fever 38C')).toBe(3);
+  });
+});
@@ -0,0 +1,179 @@
+import { EventEmitter } from 'events';
+import { AIUsageService } from '../../src/services/ai-usage.service';
+import { AIQuotaMiddleware } from '../../src/middleware/ai-quota.middleware';
+import { estimateCost } from '../../src/ai/pricing';
+import { AIProviderType } from '../../src/ai/types';
+
+const now = new Date(2026, 2, 15, 10, 0);
+const today = new Date(2026, 2, 15, 8, 0);
+const yesterday = new Date(2026, 2, 14, 8, 0);
+
+function createMockPrisma(quotas: any[] = []) {
+  const records: any[] = [];
+  const matches = (record: any, where: any) =>
+    (where.userId === undefined || record.userId === where.userId) &&
+    (where.departmentId === undefined || record.departmentId === where.departmentId) &&
+    record.createdAt >= where.createdAt.gte;
+
+  return {
+    records,
+    doctor: {
+      findUnique: jest.fn(async ({ where }) => (where.userId === 'u1' ? { departmentId: 'd1' } : null))
+    },
+    aIUsageRecord: {
+      create: jest.fn(async ({ data }) => {
+        records.push({ createdAt: now, ...data });
+        return data;
+      }),
+      aggregate: jest.fn(async ({ where }) => ({
+        _sum: {
+          totalTokens: records.filter((record) => matches(record, where)).reduce((sum, record) => sum + record.totalTokens, 0)
+        }
+      })),
+      groupBy: jest.fn()
+    },
+    aIQuota: {
+      findMany: jest.fn(async ({ where }) =>
+        quotas.filter((quota) =>
+          where.OR.some((target: any) => target.scope === quota.scope && target.targetId === quota.targetId)
+        )
+      )
+    },
+    department: { findMany: jest.fn(async () => [{ id: 'd1', name: '心内科' }]) }
+  } as any;
+}
+
+const quota = (scope: string, targetId: string | null, period: string, softLimit: number | null, hardLimit: number | null) => ({
+  id: `${scope}-${targetId}-${period}`,
+  scope,
+  targetId,
+  period,
+  softLimit,
+  hardLimit
+});
+
+describe('AIUsageService', () => {
+  it('记录用量时按单价估算费用并归属到用户所在科室', async () => {
+    const prisma = createMockPrisma();
+    const service = new AIUsageService(prisma);
+
+    await service.record({
+      userId: 'u1',
+      feature: 'diagnose',
+      response: {
+        provider: AIProviderType.DEEPSEEK,
+        model: 'deepseek-chat',
+        usage: { promptTokens: 1000, completionTokens: 500, totalTokens: 1500 }
+      }
+    });
+
+    expect(prisma.records[0]).toMatchObject({ userId: 'u1', departmentId: 'd1', totalTokens: 1500, cost: 0.006 });
+  });
+
+  it('带日期后缀的模型按前缀匹配单价', () => {
+    const usage = { promptTokens: 1000000, completionTokens: 0, totalTokens: 1000000 };
+    expect(estimateCost('openai', 'gpt-4o-mini-2024-07-18', usage)).toBe(1.08);
+    expect(estimateCost('openai', 'gpt-4o-2024-08-06', usage)).toBe(18);
+    expect(estimateCost('kimi', 'moonshot-v1-auto', usage)).toBe(12);
+  });
+
+  it('单独配置的配额优先于默认配额，只统计当前周期', async () => {
+    const prisma = createMockPrisma([
+      quota('USER', null, 'DAILY', null, 10000),
+      quota('USER', 'u1', 'DAILY', 20000, 50000),
+      quota('DEPARTMENT', null, 'MONTHLY', null, 40000)
+    ]);
+    prisma.records.push(
+      { userId: 'u1', departmentId: 'd1', totalTokens: 30000, createdAt: today },
+      { userId: 'u1', departmentId: 'd1', totalTokens: 9000, createdAt: yesterday },
+      { userId: 'u2', departmentId: 'd1', totalTokens: 2000, createdAt: today }
+    );
+    const service = new AIUsageService(prisma);
+
+    const status = await service.checkQuota('u1', now);
+
+    expect(status.allowed).toBe(false);
+    expect(status.exceeded).toMatchObject({ scope: 'DEPARTMENT', period: 'MONTHLY', targetId: 'd1', used: 41000 });
+    expect(status.warnings).toEqual([expect.objectContaining({ scope: 'USER', targetId: 'u1', used: 30000 })]);
+    expect(status.checks).toHaveLength(2);
+  });
+
+  it('并发调用计入先前调用的预留，释放后恢复', async () => {
+    const prisma = createMockPrisma([quota('USER', 'u1', 'DAILY', null, 10000)]);
+    prisma.records.push({ userId: 'u1', departmentId: 'd1', totalTokens: 7000, createdAt: today });
+    const service = new AIUsageService(prisma);
+
+    // 三个请求同时检查：剩余3000，放行两次预估2000的调用后额度已预留完
+    const reservations = await Promise.all([1, 2, 3].map(() => service.reserveQuota('u1', 2000, now)));
+    const admitted = reservations.filter((reservation) => reservation.status.allowed);
+    expect(admitted).toHaveLength(2);
+    expect((await service.checkQuota('u1', now)).checks[0].used).toBe(11000);
+
+    admitted.forEach((reservation) => reservation.release());
+    admitted[0].release();
+    expect((await service.checkQuota('u1', now)).checks[0].used).toBe(7000);
+    expect((await service.reserveQuota('u1', 2000, now)).status.allowed).toBe(true);
+  });
+
+  it('汇总用量附科室名称并按费用排序', async () => {
+    const prisma = createMockPrisma();
+    const sum = (totalTokens: number, cost: number) => ({
+      promptTokens: totalTokens,
+      completionTokens: 0,
+      totalTokens,
+      cost: { toNumber: () => cost }
+    });
+    prisma.aIUsageRecord.aggregate.mockResolvedValue({ _count: { _all: 3 }, _sum: sum(3000, 1.5) });
+    prisma.aIUsageRecord.groupBy.mockResolvedValue([
+      { departmentId: null, _count: { _all: 1 }, _sum: sum(1000, 0.2) },
+      { departmentId: 'd1', _count: { _all: 2 }, _sum: sum(2000, 1.3) }
+    ]);
+    const service = new AIUsageService(prisma);
+
+    const summary = await service.getSummary({ startDate: yesterday, endDate: today, groupBy: 'department' });
+
+    expect(summary.totals).toMatchObject({ requests: 3, totalTokens: 3000, cost: 1.5 });
+    expect(summary.groups.map((group) => [group.label, group.cost])).toEqual([
+      ['心内科', 1.3],
+      ['未归属科室', 0.2]
+    ]);
+  });
+});
+
+describe('AIQuotaMiddleware', () => {
+  const check = { quotaId: 'q', scope: 'USER', period: 'DAILY', targetId: 'u1', used: 12000, softLimit: 10000, hardLimit: 12000 };
+
+  function run(status: any) {
+    const release = jest.fn();
+    const middleware = new AIQuotaMiddleware({ reserveQuota: jest.fn(async () => ({ status, release })) } as any);
+    const res: any = new EventEmitter();
+    res.setHeader = jest.fn();
+    res.status = jest.fn(() => res);
+    res.json = jest.fn(() => res);
+    const next = jest.fn();
+    return middleware
+      .enforce()({ user: { userId: 'u1', username: 'doctor' } } as any, res, next)
+      .then(() => ({ res, next, release }));
+  }
+
+  it('超出硬限制时拒绝调用', async () => {
+    const { res, next } = await run({ allowed: false, exceeded: check, warnings: [], checks: [check] });
+
+    expect(res.status).toHaveBeenCalledWith(429);
+    expect(res.json.mock.calls[0][0].error.code).toBe('AI_QUOTA_EXCEEDED');
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('超出软限制时放行并通过响应头提醒', async () => {
+    const warning = { ...check, used: 11000 };
+    const { res, next, release } = await run({ allowed: true, warnings: [warning], checks: [warning] });
+
+    expect(res.setHeader).toHaveBeenCalledWith('X-AI-Quota-Warning', 'user:daily:11000/10000');
+    expect(next).toHaveBeenCalled();
+
+    // 响应结束后释放预留
+    expect(release).not.toHaveBeenCalled();
+    res.emit('finish');
+    expect(release).toHaveBeenCalled();
+  });
+});
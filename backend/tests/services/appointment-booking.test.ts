@@ -0,0 +1,231 @@
+import { MessageEvent, Prisma, TimeSlot } from '@prisma/client';
+import { AppointmentService } from '../../src/services/appointment.service';
+
+// 患者消息发送单独测试，这里只记录调用
+const notifyAppointment = jest.fn(async () => []);
+jest.mock('../../src/services/messaging.service', () => ({
+  MessagingService: jest.fn().mockImplementation(() => ({ notifyAppointment }))
+}));
+
+const APPOINTMENT_DATE = new Date('2025-06-16'); // 周一
+const MAX_PATIENTS = 5;
+
+function uniqueViolation() {
+  return new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+    code: 'P2002',
+    clientVersion: 'test'
+  });
+}
+
+// 让出事件循环，使并发请求的各步操作交错执行
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+/**
+ * 基于内存数据模拟数据库：
+ * - 每个操作原子执行，操作之间可交错
+ * - 计数行被更新或创建后加锁，直到事务结束才释放（模拟InnoDB行锁）
+ * - 挂号号码、科室+日期+排队号唯一
+ */
+function createMockDatabase() {
+  const counters = new Map<string, { scope: string; date: Date; value: number }>();
+  const appointments: any[] = [];
+  const lockOwners = new Map<string, number>();
+  const lockWaiters = new Map<string, Array<() => void>>();
+  let transactionSeq = 0;
+
+  async function acquire(key: string, txId: number) {
+    while (lockOwners.has(key) && lockOwners.get(key) !== txId) {
+      await new Promise<void>((resolve) => {
+        lockWaiters.set(key, [...(lockWaiters.get(key) || []), resolve]);
+      });
+    }
+    lockOwners.set(key, txId);
+  }
+
+  function releaseAll(txId: number) {
+    for (const [key, owner] of [...lockOwners.entries()]) {
+      if (owner !== txId) continue;
+      lockOwners.delete(key);
+      const waiters = lockWaiters.get(key) || [];
+      lockWaiters.delete(key);
+      waiters.forEach((resolve) => resolve());
+    }
+  }
+
+  const counterKey = (scope: string, date: Date) => `${scope}|${date.toISOString()}`;
+
+  function createClient(txId: number): any {
+    return {
+      dailyCounter: {
+        updateMany: jest.fn(async ({ where }) => {
+          await tick();
+          const key = counterKey(where.scope, where.date);
+          if (!counters.has(key)) return { count: 0 };
+          await acquire(key, txId);
+          counters.get(key)!.value += 1;
+          return { count: 1 };
+        }),
+        findUniqueOrThrow: jest.fn(async ({ where }) => {
+          await tick();
+          return { ...counters.get(counterKey(where.scope_date.scope, where.scope_date.date)) };
+        }),
+        create: jest.fn(async ({ data }) => {
+          await tick();
+          const key = counterKey(data.scope, data.date);
+          if (counters.has(key)) throw uniqueViolation();
+          counters.set(key, { ...data });
+          lockOwners.set(key, txId);
+          return { ...data };
+        })
+      },
+      doctorSchedule: {
+        findMany: jest.fn(async ({ where }) => {
+          await tick();
+          return where.dayOfWeek === 1
+            ? [{ id: `sc-${where.doctorId}`, timeSlot: TimeSlot.MORNING, startTime: '08:00', endTime: '12:00', maxPatients: MAX_PATIENTS }]
+            : [];
+        })
+      },
+      appointment: {
+        groupBy: jest.fn(async ({ where }) => {
+          await tick();
+          const count = appointments.filter(
+            (a) => a.doctorId === where.doctorId && where.status.in.includes(a.status)
+          ).length;
+          return count > 0 ? [{ timeSlot: TimeSlot.MORNING, _count: { _all: count } }] : [];
+        }),
+        findFirst: jest.fn(async ({ where }) => {
+          await tick();
+          const matches = appointments
+            .filter((a) => !where.patientId || (a.patientId === where.patientId && a.doctorId === where.doctorId))
+            .filter((a) => !where.appointmentNo || a.appointmentNo.startsWith(where.appointmentNo.startsWith))
+            .sort((a, b) => b.appointmentNo.localeCompare(a.appointmentNo));
+          return matches[0] || null;
+        }),
+        aggregate: jest.fn(async ({ where }) => {
+          await tick();
+          const numbers = appointments.filter((a) => a.departmentId === where.departmentId).map((a) => a.queueNumber);
+          return { _max: { queueNumber: numbers.length ? Math.max(...numbers) : null } };
+        }),
+        create: jest.fn(async ({ data }) => {
+          await tick();
+          const conflict = appointments.some(
+            (a) => a.appointmentNo === data.appointmentNo ||
+              (a.departmentId === data.departmentId && a.queueNumber === data.queueNumber)
+          );
+          if (conflict) throw uniqueViolation();
+          const appointment = { id: `a${appointments.length + 1}`, ...data };
+          appointments.push(appointment);
+          return appointment;
+        })
+      }
+    };
+  }
+
+  const prisma: any = {
+    patient: { findUnique: jest.fn(async ({ where }) => ({ id: where.id, name: `患者${where.id}` })) },
+    doctor: { findUnique: jest.fn(async ({ where }) => ({ id: where.id, name: '医生' })) },
+    department: { findUnique: jest.fn(async () => ({ id: 'dep1', departmentNo: 'NEI01' })) },
+    $transaction: jest.fn(async (fn: (tx: any) => Promise<any>) => {
+      const txId = ++transactionSeq;
+      try {
+        return await fn(createClient(txId));
+      } finally {
+        releaseAll(txId);
+      }
+    })
+  };
+
+  return { prisma, appointments };
+}
+
+describe('AppointmentService 并发挂号', () => {
+  it('并发挂号不超出号源且号码不重复', async () => {
+    const { prisma, appointments } = createMockDatabase();
+    const service = new AppointmentService(prisma);
+
+    // 两位医生同一时间段各5个号源，30人同时挂号
+    const results = await Promise.allSettled(
+      Array.from({ length: 30 }, (_, i) =>
+        service.createAppointment({
+          patientId: `p${i}`,
+          doctorId: i % 2 === 0 ? 'd1' : 'd2',
+          departmentId: 'dep1',
+          appointmentDate: APPOINTMENT_DATE,
+          timeSlot: TimeSlot.MORNING
+        })
+      )
+    );
+
+    const fulfilled = results.filter((r) => r.status === 'fulfilled');
+    const rejected = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+
+    expect(fulfilled).toHaveLength(MAX_PATIENTS * 2);
+    expect(rejected.every((r) => r.reason.message === '该时间段号源已满')).toBe(true);
+    expect(appointments.filter((a) => a.doctorId === 'd1')).toHaveLength(MAX_PATIENTS);
+    expect(appointments.filter((a) => a.doctorId === 'd2')).toHaveLength(MAX_PATIENTS);
+
+    // 挂号号码唯一且连续，排队号为1..10
+    const appointmentNos = appointments.map((a) => a.appointmentNo).sort();
+    expect(new Set(appointmentNos).size).toBe(appointmentNos.length);
+    expect(appointmentNos[0]).toBe('NEI2025061600001');
+    expect(appointments.map((a) => a.queueNumber).sort((a, b) => a - b))
+      .toEqual(Array.from({ length: 10 }, (_, i) => i + 1));
+  });
+
+  it('同一患者并发重复挂号只成功一次', async () => {
+    const { prisma, appointments } = createMockDatabase();
+    const service = new AppointmentService(prisma);
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 4 }, () =>
+        service.createAppointment({
+          patientId: 'p1',
+          doctorId: 'd1',
+          departmentId: 'dep1',
+          appointmentDate: APPOINTMENT_DATE,
+          timeSlot: TimeSlot.MORNING
+        })
+      )
+    );
+
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    expect(appointments).toHaveLength(1);
+  });
+
+  it('挂号成功后向患者发送消息', async () => {
+    const { prisma, appointments } = createMockDatabase();
+    notifyAppointment.mockClear();
+
+    await new AppointmentService(prisma).createAppointment({
+      patientId: 'p1',
+      doctorId: 'd1',
+      departmentId: 'dep1',
+      appointmentDate: APPOINTMENT_DATE,
+      timeSlot: TimeSlot.MORNING
+    });
+
+    expect(notifyAppointment).toHaveBeenCalledWith(MessageEvent.APPOINTMENT_CREATED, appointments[0].id);
+  });
+});
+
+describe('AppointmentService.markNoShows', () => {
+  it('按本地日期比较@db.Date就诊日', async () => {
+    const tx = {
+      queue: { findMany: jest.fn(async () => []), updateMany: jest.fn() },
+      appointment: { updateMany: jest.fn(async () => ({ count: 2 })) }
+    };
+    const prisma = { $transaction: jest.fn(async (fn: any) => fn(tx)) } as any;
+
+    const count = await new AppointmentService(prisma).markNoShows(new Date(2025, 5, 18, 0, 10));
+
+    expect(count).toBe(2);
+    const cutoff = { appointmentDate: { lt: new Date('2025-06-18') } };
+    expect(tx.queue.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ appointment: cutoff }) })
+    );
+    expect(tx.appointment.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining(cutoff) })
+    );
+  });
+});
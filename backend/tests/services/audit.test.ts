@@ -0,0 +1,286 @@
+import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
+import { diffFields } from '../../src/services/audit.service';
+import { AuditMiddleware, buildAuditAction, parseAuditPath } from '../../src/middleware/audit.middleware';
+import { streamExport } from '../../src/middleware/export.middleware';
+
+const PATIENT_ID = '3f1c2b4a-9d8e-4c7b-a6f5-1e2d3c4b5a69';
+
+describe('diffFields', () => {
+  it('只记录发生变化的字段', () => {
+    const changes = diffFields(
+      { name: '张三', bloodType: 'A', updatedAt: new Date('2024-01-01') },
+      { name: '张三', bloodType: 'AB', updatedAt: new Date('2024-02-01') }
+    );
+
+    expect(changes).toEqual([{ field: 'bloodType', before: 'A', after: 'AB' }]);
+  });
+
+  it('敏感字段只记录变更不记录原值', () => {
+    const changes = diffFields({ passwordHash: 'old-hash' }, { passwordHash: 'new-hash' });
+
+    expect(changes).toEqual([{ field: 'passwordHash', before: '[已脱敏]', after: '[已脱敏]' }]);
+  });
+});
+
+describe('buildAuditAction', () => {
+  it('根据方法和路径生成动作名', () => {
+    expect(buildAuditAction('patient', 'GET', '/')).toBe('patient.list');
+    expect(buildAuditAction('patient', 'GET', `/${PATIENT_ID}`)).toBe('patient.read');
+    expect(buildAuditAction('patient', 'PUT', `/${PATIENT_ID}`)).toBe('patient.update');
+    expect(buildAuditAction('prescription', 'POST', `/${PATIENT_ID}/dispense`)).toBe('prescription.dispense');
+  });
+
+  it('挂载点之后的UUID才是资源ID，其余UUID记为关联对象ID', () => {
+    expect(parseAuditPath(`/patient/${PATIENT_ID}`)).toEqual({
+      resourceId: undefined,
+      subAction: undefined,
+      relatedIds: { patientId: PATIENT_ID }
+    });
+    expect(buildAuditAction('medicalRecord', 'GET', `/patient/${PATIENT_ID}`)).toBe('medicalRecord.list');
+    expect(buildAuditAction('prescription', 'GET', `/doctor/${PATIENT_ID}/statistics`)).toBe('prescription.statistics');
+  });
+});
+
+describe('AuditMiddleware', () => {
+  function createRequest(method: string, path: string) {
+    return {
+      method,
+      path,
+      query: {},
+      ip: '10.0.0.8',
+      headers: { authorization: 'Bearer token' },
+      get: () => 'jest',
+      user: undefined as any
+    } as any;
+  }
+
+  // 只有 Bearer token 视为有效Token
+  const jwtManager: any = {
+    extractTokenFromHeader: (header?: string) => header?.replace('Bearer ', '') || null,
+    verifyAccessToken: jest.fn(async (token: string) => {
+      if (token !== 'token') throw new Error('Token无效');
+      return { userId: 'u1' };
+    })
+  };
+
+  function createResponse() {
+    const res: any = new EventEmitter();
+    res.statusCode = 200;
+    res.locals = {};
+    res.json = jest.fn(() => res);
+    return res;
+  }
+
+  /**
+   * 可写入的响应，用于导出
+   */
+  function createStreamResponse() {
+    const res: any = new PassThrough();
+    res.resume();
+    res.on('error', () => undefined);
+    res.statusCode = 200;
+    res.locals = {};
+    res.setHeader = jest.fn();
+    res.json = jest.fn(() => res);
+    return res;
+  }
+
+  async function* batches(items: Array<Array<{ id: string; name: string }>>, failAfter?: number) {
+    for (let i = 0; i < items.length; i++) {
+      if (i === failAfter) throw new Error('数据库连接断开');
+      yield items[i];
+    }
+  }
+
+  const columns = [{ header: '姓名', value: (item: { name: string }) => item.name }];
+
+  it('修改成功后记录字段级差异', async () => {
+    const snapshots = [{ name: '张三', address: '朝阳区' }, { name: '张三', address: '海淀区' }];
+    const auditService: any = {
+      loadSnapshot: jest.fn(async () => snapshots.shift()),
+      record: jest.fn(async () => undefined)
+    };
+    const middleware = new AuditMiddleware(auditService, jwtManager);
+    const req = createRequest('PUT', `/${PATIENT_ID}`);
+    const res = createResponse();
+    const next = jest.fn();
+
+    await middleware.track('patient')(req, res, next);
+    // 模拟路由内认证中间件写入用户信息并返回响应
+    req.user = { userId: 'u1', username: 'doctor01' };
+    res.json({ success: true });
+    res.emit('finish');
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(next).toHaveBeenCalled();
+    expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'u1',
+      action: 'patient.update',
+      resourceId: PATIENT_ID,
+      status: 'SUCCESS',
+      metadata: expect.objectContaining({
+        changes: [{ field: 'address', before: '朝阳区', after: '海淀区' }]
+      })
+    }));
+  });
+
+  it('失败的请求记录错误信息，未认证请求不记录', async () => {
+    const auditService: any = {
+      loadSnapshot: jest.fn(async () => null),
+      record: jest.fn(async () => undefined)
+    };
+    const middleware = new AuditMiddleware(auditService, jwtManager);
+
+    const req = createRequest('GET', `/${PATIENT_ID}`);
+    const res = createResponse();
+    await middleware.track('patient')(req, res, jest.fn());
+    req.user = { userId: 'u1', username: 'doctor01' };
+    res.statusCode = 404;
+    res.json({ success: false, message: '患者不存在' });
+    res.emit('finish');
+
+    const anonymousReq = createRequest('GET', '/');
+    const anonymousRes = createResponse();
+    await middleware.track('patient')(anonymousReq, anonymousRes, jest.fn());
+    anonymousRes.emit('finish');
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(auditService.record).toHaveBeenCalledTimes(1);
+    expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'patient.read',
+      status: 'FAILURE',
+      errorMsg: '患者不存在'
+    }));
+  });
+
+  it('Token无效的修改请求不读取资源快照', async () => {
+    const auditService: any = {
+      loadSnapshot: jest.fn(async () => ({ name: '张三' })),
+      record: jest.fn(async () => undefined)
+    };
+    const middleware = new AuditMiddleware(auditService, jwtManager);
+    const req = createRequest('DELETE', `/${PATIENT_ID}`);
+    req.headers.authorization = 'Bearer forged';
+    const next = jest.fn();
+
+    await middleware.track('patient')(req, createResponse(), next);
+
+    expect(next).toHaveBeenCalled();
+    expect(auditService.loadSnapshot).not.toHaveBeenCalled();
+  });
+
+  it('列表和搜索请求记录返回的资源ID', async () => {
+    const auditService: any = {
+      loadSnapshot: jest.fn(async () => null),
+      record: jest.fn(async () => undefined)
+    };
+    const middleware = new AuditMiddleware(auditService, jwtManager);
+
+    const req = createRequest('GET', '/');
+    req.query = { keyword: '张' };
+    const res = createResponse();
+    await middleware.track('patient')(req, res, jest.fn());
+    req.user = { userId: 'u1', username: 'doctor01' };
+    res.json({ success: true, data: { patients: [{ id: 'p1' }, { id: 'p2' }], total: 2 } });
+    res.emit('finish');
+
+    const searchReq = createRequest('POST', '/ai-search');
+    const searchRes = createResponse();
+    await middleware.track('medicalRecord')(searchReq, searchRes, jest.fn());
+    searchReq.user = { userId: 'u1', username: 'doctor01' };
+    searchRes.json({ success: true, data: { records: [{ id: 'r1' }], keywords: ['头痛'] } });
+    searchRes.emit('finish');
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'patient.list',
+      metadata: expect.objectContaining({ query: { keyword: '张' }, resultIds: ['p1', 'p2'] })
+    }));
+    expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'medicalRecord.ai-search',
+      metadata: expect.objectContaining({ resultIds: ['r1'] })
+    }));
+  });
+
+  it('按患者查询的列表记录患者ID和返回的资源ID', async () => {
+    const auditService: any = {
+      loadSnapshot: jest.fn(async () => null),
+      record: jest.fn(async () => undefined)
+    };
+    const middleware = new AuditMiddleware(auditService, jwtManager);
+
+    const req = createRequest('GET', `/patient/${PATIENT_ID}`);
+    const res = createResponse();
+    await middleware.track('prescription')(req, res, jest.fn());
+    req.user = { userId: 'u1', username: 'doctor01' };
+    res.json({ success: true, data: [{ id: 'rx1' }, { id: 'rx2' }] });
+    res.emit('finish');
+
+    const detailReq = createRequest('GET', `/${PATIENT_ID}`);
+    const detailRes = createResponse();
+    await middleware.track('prescription')(detailReq, detailRes, jest.fn());
+    detailReq.user = { userId: 'u1', username: 'doctor01' };
+    detailRes.json({ success: true, data: { id: PATIENT_ID, items: [{ id: 'item1' }] } });
+    detailRes.emit('finish');
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'prescription.list',
+      resourceId: undefined,
+      metadata: expect.objectContaining({ patientId: PATIENT_ID, resultIds: ['rx1', 'rx2'] })
+    }));
+    // 单个资源中的明细不记为返回的资源
+    expect(auditService.record.mock.calls[1][0].metadata.resultIds).toBeUndefined();
+  });
+
+  it('导出记录格式、行数和全部导出的资源ID', async () => {
+    const auditService: any = {
+      loadSnapshot: jest.fn(async () => null),
+      record: jest.fn(async () => undefined)
+    };
+    const middleware = new AuditMiddleware(auditService, jwtManager);
+    const req = createRequest('GET', '/');
+    const res = createStreamResponse();
+    await middleware.track('patient')(req, res, jest.fn());
+    req.user = { userId: 'u1', username: 'admin' };
+
+    // 请求不带format参数（按Accept头协商导出）时同样记录导出格式
+    await streamExport(res, 'csv', '患者列表', columns, batches([[{ id: 'p1', name: '张三' }], [{ id: 'p2', name: '李四' }]]));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(auditService.record).toHaveBeenCalledTimes(1);
+    expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'patient.list',
+      status: 'SUCCESS',
+      metadata: expect.objectContaining({
+        export: { format: 'csv', rowCount: 2, completed: true },
+        resultIds: ['p1', 'p2']
+      })
+    }));
+  });
+
+  it('导出中断时记录已输出的资源ID', async () => {
+    const auditService: any = {
+      loadSnapshot: jest.fn(async () => null),
+      record: jest.fn(async () => undefined)
+    };
+    const middleware = new AuditMiddleware(auditService, jwtManager);
+    const req = createRequest('GET', '/');
+    const res = createStreamResponse();
+    await middleware.track('patient')(req, res, jest.fn());
+    req.user = { userId: 'u1', username: 'admin' };
+
+    await streamExport(res, 'xlsx', '患者列表', columns, batches([[{ id: 'p1', name: '张三' }], [{ id: 'p2', name: '李四' }]], 1));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'FAILURE',
+      errorMsg: '响应未完成，连接已中断',
+      metadata: expect.objectContaining({
+        export: { format: 'xlsx', rowCount: 1, completed: false },
+        resultIds: ['p1']
+      })
+    }));
+  });
+});
@@ -0,0 +1,185 @@
+import { InventoryTransactionType } from '@prisma/client';
+import { InventoryService } from '../../src/services/inventory.service';
+
+/**
+ * 基于内存数据模拟Prisma库存相关操作
+ */
+function createMockPrisma() {
+  const stocks = new Map<string, any>([
+    ['s1', { id: 's1', medicineId: 'm1', batchNo: 'B001', location: '主药房', quantity: 10, medicine: { name: '阿莫西林' } }],
+    ['s2', { id: 's2', medicineId: 'm1', batchNo: 'B002', location: '主药房', quantity: 5, medicine: { name: '阿莫西林' } }]
+  ]);
+  const ledger: any[] = [];
+
+  const tx: any = {
+    medicineStock: {
+      findUnique: jest.fn(async ({ where }) => (stocks.has(where.id) ? { ...stocks.get(where.id) } : null)),
+      findUniqueOrThrow: jest.fn(async ({ where }) => ({ ...stocks.get(where.id) })),
+      updateMany: jest.fn(async ({ where, data }) => {
+        const stock = stocks.get(where.id);
+        if (!stock || (where.quantity && stock.quantity < where.quantity.gte)) {
+          return { count: 0 };
+        }
+        stock.quantity += data.quantity.increment;
+        return { count: 1 };
+      })
+    },
+    inventoryTransaction: {
+      create: jest.fn(async ({ data }) => {
+        const entry = { id: `t${ledger.length + 1}`, ...data };
+        ledger.push(entry);
+        return entry;
+      })
+    }
+  };
+
+  const prisma: any = {
+    ...tx,
+    $transaction: jest.fn(async (fn: (client: any) => Promise<any>) => fn(tx))
+  };
+
+  return { prisma, tx, stocks, ledger };
+}
+
+describe('InventoryService', () => {
+  it('出库应扣减库存并记录流水及结存', async () => {
+    const { prisma, tx, stocks, ledger } = createMockPrisma();
+    const service = new InventoryService(prisma);
+
+    const entry = await service.applyMovement(tx, {
+      stockId: 's1',
+      quantity: -4,
+      type: InventoryTransactionType.DISPENSE
+    });
+
+    expect(stocks.get('s1').quantity).toBe(6);
+    expect(entry).toMatchObject({ quantity: -4, balanceAfter: 6, batchNo: 'B001', medicineId: 'm1' });
+    expect(ledger).toHaveLength(1);
+  });
+
+  it('库存不足时拒绝出库且不记录流水', async () => {
+    const { prisma, tx, stocks, ledger } = createMockPrisma();
+    const service = new InventoryService(prisma);
+
+    await expect(service.applyMovement(tx, {
+      stockId: 's2',
+      quantity: -6,
+      type: InventoryTransactionType.ADJUSTMENT
+    })).rejects.toThrow('库存不足');
+
+    expect(stocks.get('s2').quantity).toBe(5);
+    expect(ledger).toHaveLength(0);
+  });
+
+  it('变动数量为0时拒绝', async () => {
+    const { prisma, tx } = createMockPrisma();
+    const service = new InventoryService(prisma);
+
+    await expect(service.applyMovement(tx, {
+      stockId: 's1',
+      quantity: 0,
+      type: InventoryTransactionType.ADJUSTMENT
+    })).rejects.toThrow('非零整数');
+  });
+
+  it('盘点只为有差异的批次生成流水', async () => {
+    const { prisma, stocks, ledger } = createMockPrisma();
+    const service = new InventoryService(prisma);
+
+    const result = await service.stocktake({
+      items: [
+        { stockId: 's1', countedQuantity: 8 },
+        { stockId: 's2', countedQuantity: 5 }
+      ]
+    });
+
+    expect(result.adjustedCount).toBe(1);
+    expect(result.items[0]).toMatchObject({ systemQuantity: 10, countedQuantity: 8, difference: -2 });
+    expect(stocks.get('s1').quantity).toBe(8);
+    expect(ledger).toHaveLength(1);
+    expect(ledger[0]).toMatchObject({
+      type: InventoryTransactionType.STOCKTAKE,
+      referenceType: 'STOCKTAKE',
+      referenceId: result.stocktakeId
+    });
+  });
+
+  it('盘点先锁定批次再读取系统数量', async () => {
+    const { prisma, tx } = createMockPrisma();
+    const service = new InventoryService(prisma);
+
+    await service.stocktake({ items: [{ stockId: 's1', countedQuantity: 8 }] });
+
+    expect(tx.medicineStock.updateMany.mock.calls[0][0]).toEqual({
+      where: { id: 's1' },
+      data: { quantity: { increment: 0 } }
+    });
+    expect(tx.medicineStock.updateMany.mock.invocationCallOrder[0]).toBeLessThan(
+      tx.medicineStock.findUnique.mock.invocationCallOrder[0]
+    );
+  });
+
+  it('未指定库位的入库归入主库位，同一批次唯一', async () => {
+    const { prisma, tx, stocks } = createMockPrisma();
+    tx.medicine = { findUnique: jest.fn(async () => ({ id: 'm1' })) };
+    tx.medicineStock.upsert = jest.fn(async ({ where, create }) => {
+      const key = where.medicineId_batchNo_location;
+      const existing = [...stocks.values()].find(
+        (stock) => stock.medicineId === key.medicineId && stock.batchNo === key.batchNo && stock.location === key.location
+      );
+      if (existing) return { ...existing };
+      const stock = { id: `s${stocks.size + 1}`, ...create };
+      stocks.set(stock.id, stock);
+      return { ...stock };
+    });
+    const service = new InventoryService(prisma);
+    const receipt = { medicineId: 'm1', batchNo: 'B003', expiryDate: new Date('2027-01-01'), quantity: 5 };
+
+    await service.receiveStock(receipt);
+    const stock = await service.receiveStock(receipt);
+
+    expect(stock).toMatchObject({ location: 'MAIN', quantity: 10 });
+    expect(stocks.size).toBe(3);
+  });
+});
+
+describe('InventoryService 低库存提醒', () => {
+  const expiry = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
+
+  function createLowStockPrisma(stocks: any[]) {
+    return {
+      medicineStock: { findMany: jest.fn(async () => stocks) },
+      user: { findMany: jest.fn(async () => [{ id: 'u1' }]) },
+      notification: { create: jest.fn(async ({ data }) => ({ id: 'n1', ...data })) },
+      $transaction: jest.fn(async (operations: Promise<any>[]) => Promise.all(operations))
+    } as any;
+  }
+
+  const batch = (quantity: number, minStock: number, expiryDate = expiry) => ({
+    medicineId: 'm1',
+    quantity,
+    minStock,
+    expiryDate,
+    medicine: { name: '阿莫西林', unit: '盒' }
+  });
+
+  it('出库使可用库存越过下限时通知库存管理人员', async () => {
+    const prisma = createLowStockPrisma([batch(6, 10), batch(3, 0), batch(50, 0, new Date('2020-01-01'))]);
+
+    const lowStock = await new InventoryService(prisma).checkLowStock(new Map([['m1', 4]]));
+
+    expect(lowStock).toEqual(['m1']);
+    expect(prisma.notification.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: 'u1', title: '药品库存不足' })
+    });
+  });
+
+  it('出库前已低于下限时不重复提醒', async () => {
+    const prisma = createLowStockPrisma([batch(5, 10)]);
+
+    const lowStock = await new InventoryService(prisma).checkLowStock(new Map([['m1', 2]]));
+
+    expect(lowStock).toEqual([]);
+    expect(prisma.notification.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,174 @@
+import { JobRunStatus } from '@prisma/client';
+import { JobScheduler } from '../../src/services/job-scheduler.service';
+
+/**
+ * 按Prisma查询条件匹配记录（仅支持本测试用到的 等于/lt/OR/AND）
+ */
+function matches(record: Record<string, any>, where: Record<string, any>): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === 'AND') return condition.every((item: any) => matches(record, item));
+    if (key === 'OR') return condition.some((item: any) => matches(record, item));
+    if (condition !== null && typeof condition === 'object' && 'lt' in condition) {
+      return record[key] !== null && record[key] < condition.lt;
+    }
+    return record[key] === condition;
+  });
+}
+
+/**
+ * 模拟Prisma：任务状态和执行记录保存在内存中，多个调度器共享同一份数据模拟多实例
+ */
+function createMockPrisma() {
+  const jobs: Record<string, any> = {};
+  const runs: any[] = [];
+
+  return {
+    jobs,
+    runs,
+    scheduledJob: {
+      upsert: jest.fn(async ({ where, create, update }) => {
+        jobs[where.name] = jobs[where.name]
+          ? { ...jobs[where.name], ...update }
+          : { enabled: true, lockedBy: null, lockedUntil: null, lastScheduledAt: null, ...create };
+        return jobs[where.name];
+      }),
+      updateMany: jest.fn(async ({ where, data }) => {
+        const targets = Object.values(jobs).filter((job) => matches(job, where));
+        targets.forEach((job) => Object.assign(job, data));
+        return { count: targets.length };
+      }),
+      findMany: jest.fn(async () => Object.values(jobs))
+    },
+    jobRun: {
+      create: jest.fn(async ({ data }) => {
+        const run = { id: `run${runs.length + 1}`, ...data };
+        runs.push(run);
+        return run;
+      }),
+      update: jest.fn(async ({ where, data }) => Object.assign(runs.find((run) => run.id === where.id), data))
+    }
+  } as any;
+}
+
+const at = (hours: number, minutes: number, seconds = 0) => new Date(2025, 5, 18, hours, minutes, seconds);
+
+describe('JobScheduler', () => {
+  it('只执行当前分钟到期的任务并记录结果', async () => {
+    const prisma = createMockPrisma();
+    const scheduler = new JobScheduler(prisma, { instanceId: 'a' });
+    const hourly = jest.fn(async () => ({ expiredCount: 2 }));
+    const daily = jest.fn(async () => null);
+    scheduler.register({ name: 'hourly', description: '', schedule: '0 * * * *', handler: hourly });
+    scheduler.register({ name: 'daily', description: '', schedule: '0 7 * * *', handler: daily });
+    await prisma.scheduledJob.upsert({ where: { name: 'hourly' }, create: { name: 'hourly' }, update: {} });
+
+    await scheduler.tick(at(9, 0, 12));
+
+    expect(hourly).toHaveBeenCalledWith({ trigger: 'schedule', scheduledAt: at(9, 0), attempt: 1 });
+    expect(daily).not.toHaveBeenCalled();
+    expect(prisma.runs[0]).toMatchObject({ status: JobRunStatus.SUCCEEDED, attempts: 1, result: { expiredCount: 2 } });
+    expect(prisma.jobs.hourly).toMatchObject({ lockedBy: null, lastStatus: JobRunStatus.SUCCEEDED });
+  });
+
+  it('多实例同一计划时间只执行一次', async () => {
+    const prisma = createMockPrisma();
+    const handler = jest.fn(async () => undefined);
+    const schedulers = ['a', 'b'].map((instanceId) => {
+      const scheduler = new JobScheduler(prisma, { instanceId });
+      scheduler.register({ name: 'job', description: '', schedule: '* * * * *', handler });
+      return scheduler;
+    });
+    await prisma.scheduledJob.upsert({ where: { name: 'job' }, create: { name: 'job' }, update: {} });
+
+    await Promise.all(schedulers.map((scheduler) => scheduler.tick(at(9, 1, 3))));
+    await schedulers[1].tick(at(9, 1, 40));
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    await schedulers[1].tick(at(9, 2));
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('锁未过期时跳过，停用的任务不按计划执行', async () => {
+    const prisma = createMockPrisma();
+    const scheduler = new JobScheduler(prisma, { instanceId: 'a' });
+    const handler = jest.fn(async () => undefined);
+    scheduler.register({ name: 'job', description: '', schedule: '* * * * *', handler });
+    await prisma.scheduledJob.upsert({
+      where: { name: 'job' },
+      create: { name: 'job', lockedBy: 'b', lockedUntil: new Date(Date.now() + 60000) },
+      update: {}
+    });
+
+    await scheduler.tick(at(9, 0));
+    expect(handler).not.toHaveBeenCalled();
+
+    prisma.jobs.job.lockedUntil = new Date(Date.now() - 1000); // 实例b异常退出，锁已过期
+    await scheduler.setEnabled('job', false);
+    await scheduler.tick(at(9, 1));
+    expect(handler).not.toHaveBeenCalled();
+
+    await scheduler.runNow('job');
+    expect(handler).toHaveBeenCalledWith({ trigger: 'manual', scheduledAt: null, attempt: 1 });
+  });
+
+  it('执行时间超过锁有效期时续期，其他实例不会同时执行', async () => {
+    const prisma = createMockPrisma();
+    const handler = jest.fn(() => new Promise((resolve) => setTimeout(resolve, 300)));
+    const [a, b] = ['a', 'b'].map((instanceId) => {
+      const scheduler = new JobScheduler(prisma, { instanceId });
+      scheduler.register({ name: 'job', description: '', schedule: '* * * * *', lockTtlMs: 150, handler });
+      return scheduler;
+    });
+    await prisma.scheduledJob.upsert({ where: { name: 'job' }, create: { name: 'job' }, update: {} });
+
+    const running = a.runNow('job');
+    await new Promise((resolve) => setTimeout(resolve, 200)); // 超过初始锁有效期
+    expect(await b.runNow('job')).toBeNull();
+    await running;
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(prisma.jobs.job).toMatchObject({ lockedBy: null, lockedUntil: null });
+  });
+
+  it('失败后按加倍间隔重试，全部失败时记录错误', async () => {
+    const prisma = createMockPrisma();
+    const sleep = jest.fn(async () => undefined);
+    const scheduler = new JobScheduler(prisma, { instanceId: 'a', sleep });
+    const handler = jest.fn(async () => {
+      throw new Error('数据库连接失败');
+    });
+    scheduler.register({ name: 'job', description: '', schedule: '* * * * *', retries: 2, retryDelayMs: 1000, handler });
+    await prisma.scheduledJob.upsert({ where: { name: 'job' }, create: { name: 'job' }, update: {} });
+
+    const run = await scheduler.runNow('job');
+
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(sleep.mock.calls).toEqual([[1000], [2000]]);
+    expect(run).toMatchObject({ status: JobRunStatus.FAILED, attempts: 3, error: '数据库连接失败' });
+    expect(prisma.jobs.job).toMatchObject({ lockedBy: null, lastStatus: JobRunStatus.FAILED });
+  });
+
+  it('重试成功后记为成功', async () => {
+    const prisma = createMockPrisma();
+    const scheduler = new JobScheduler(prisma, { instanceId: 'a', sleep: async () => undefined });
+    const handler = jest.fn().mockRejectedValueOnce(new Error('超时')).mockResolvedValueOnce({ count: 1 });
+    scheduler.register({ name: 'job', description: '', schedule: '* * * * *', handler });
+    await prisma.scheduledJob.upsert({ where: { name: 'job' }, create: { name: 'job' }, update: {} });
+
+    const run = await scheduler.runNow('job');
+
+    expect(run).toMatchObject({ status: JobRunStatus.SUCCEEDED, attempts: 2, result: { count: 1 }, error: null });
+  });
+
+  it('无效的CRON表达式和重复任务名在注册时报错', () => {
+    const scheduler = new JobScheduler(createMockPrisma());
+    scheduler.register({ name: 'job', description: '', schedule: '* * * * *', handler: async () => undefined });
+
+    expect(() =>
+      scheduler.register({ name: 'bad', description: '', schedule: '61 * * * *', handler: async () => undefined })
+    ).toThrow('无效的CRON表达式');
+    expect(() =>
+      scheduler.register({ name: 'job', description: '', schedule: '* * * * *', handler: async () => undefined })
+    ).toThrow('定时任务已存在');
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  INDEX_NOT_READY_MESSAGE,
+  MedicalRecordEmbeddingService
+} from '../../src/services/medical-record-embedding.service';
+import { localEmbedder } from '../../src/ai/local-embedding';
+import { AIProviderType, EmbeddingRequest } from '../../src/ai/types';
+
+const records = [
+  { id: 'r1', recordNo: 'MR001', patientId: 'p1', doctorId: 'd1', createdAt: new Date(), chiefComplaint: '胸痛三天', patient: { name: '张三' } },
+  { id: 'r2', recordNo: 'MR002', patientId: 'p2', doctorId: 'd1', createdAt: new Date(), chiefComplaint: '胸痛伴气短', patient: { name: '李四' } },
+  { id: 'r3', recordNo: 'MR003', patientId: 'p3', doctorId: 'd1', createdAt: new Date(), chiefComplaint: '头痛发热', patient: { name: '王五' } }
+];
+
+/**
+ * 模拟Prisma：按游标分批返回病历
+ */
+function createMockPrisma(batchSize?: number) {
+  return {
+    medicalRecord: {
+      findMany: jest.fn(async (args: any) => {
+        if (args.where?.id?.in) {
+          return records.filter((record) => args.where.id.in.includes(record.id));
+        }
+        const start = args.cursor ? records.findIndex((record) => record.id === args.cursor.id) + 1 : 0;
+        return records.slice(start, start + (batchSize ?? args.take));
+      }),
+      findUnique: jest.fn(async ({ where }) => records.find((record) => record.id === where.id) || null)
+    },
+    aIUsageRecord: { create: jest.fn(async ({ data }) => data) }
+  } as any;
+}
+
+/**
+ * 模拟AI：按调用顺序决定是否降级为本地向量
+ */
+function createMockAI(fallbackCalls: number[] = []) {
+  let calls = 0;
+  const embed = jest.fn(async (request: EmbeddingRequest) => {
+    const local = fallbackCalls.includes(calls++);
+    return {
+      provider: local ? ('local' as const) : AIProviderType.OPENAI,
+      model: local ? localEmbedder.model : 'text-embedding-3-small',
+      dimensions: localEmbedder.dimensions,
+      embeddings: localEmbedder.embedBatch(request.input)
+    };
+  });
+  return { embed } as any;
+}
+
+describe('MedicalRecordEmbeddingService', () => {
+  it('索引构建完成前拒绝检索，不在请求中全量构建', async () => {
+    const prisma = createMockPrisma();
+    const service = new MedicalRecordEmbeddingService(prisma, createMockAI());
+
+    await expect(service.findSimilarRecords('r1')).rejects.toThrow(INDEX_NOT_READY_MESSAGE);
+    expect(prisma.medicalRecord.findMany).not.toHaveBeenCalled();
+  });
+
+  it('重建时部分批次降级为本地向量，全部改用本地向量重建', async () => {
+    const ai = createMockAI([1]);
+    // 每批一条病历，第二批降级
+    const batched = new MedicalRecordEmbeddingService(createMockPrisma(1), ai);
+
+    expect(await batched.rebuild()).toBe(3);
+    // 第一批使用服务商向量，第二批降级后不再调用AI服务
+    expect(ai.embed).toHaveBeenCalledTimes(2);
+
+    const hits = await batched.findSimilarRecords('r1', { minScore: 0 });
+    expect(hits.map((hit) => hit.recordId).sort()).toEqual(['r2', 'r3']);
+    expect(ai.embed).toHaveBeenCalledTimes(2);
+  });
+
+  it('查询向量降级为本地而索引为服务商向量时报错，不返回空结果', async () => {
+    // 重建只调用一次AI服务，查询时降级
+    const ai = createMockAI([1]);
+    const service = new MedicalRecordEmbeddingService(createMockPrisma(), ai);
+
+    expect(await service.rebuild()).toBe(3);
+    await expect(service.findSimilarToText('胸痛')).rejects.toThrow('向量化服务暂不可用');
+  });
+
+  it('服务商向量正常时按同一模型检索', async () => {
+    const service = new MedicalRecordEmbeddingService(createMockPrisma(), createMockAI());
+
+    await service.rebuild();
+    const hits = await service.findSimilarToText('胸痛', { minScore: 0 });
+
+    expect(hits[0].recordId).toMatch(/^r[12]$/);
+    expect(hits).toHaveLength(3);
+  });
+});
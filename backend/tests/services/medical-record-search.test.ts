@@ -0,0 +1,132 @@
+import {
+  tokenize,
+  extractQueryTerms,
+  normalizeTerms,
+  buildSnippet,
+  MedicalRecordTextIndex,
+  MedicalRecordSearchService
+} from '../../src/services/medical-record-search.service';
+
+describe('MedicalRecordSearch', () => {
+  describe('tokenize', () => {
+    it('应该将中文切分为二元组', () => {
+      expect(tokenize('高血压')).toEqual(['高血', '血压']);
+    });
+
+    it('应该保留英文和数字词并转为小写', () => {
+      expect(tokenize('BP 160/95 mmHg')).toEqual(['bp', '160', '95', 'mmhg']);
+    });
+
+    it('空文本返回空数组', () => {
+      expect(tokenize(null)).toEqual([]);
+      expect(tokenize('')).toEqual([]);
+    });
+  });
+
+  describe('extractQueryTerms', () => {
+    it('应该去掉查询中的通用词', () => {
+      expect(extractQueryTerms('查找所有高血压患者的病历')).toEqual(['高血压']);
+    });
+
+    it('应该按标点和空格拆分多个检索词', () => {
+      expect(extractQueryTerms('糖尿病，冠心病')).toEqual(['糖尿病', '冠心病']);
+    });
+  });
+
+  describe('normalizeTerms', () => {
+    it('应该去重并过滤无效检索词', () => {
+      expect(normalizeTerms(['高血压', ' 高血压 ', '', undefined, 'a', 'CT'])).toEqual(['高血压', 'CT']);
+    });
+  });
+
+  describe('buildSnippet', () => {
+    it('应该截取命中词附近的内容', () => {
+      const text = `${'甲'.repeat(60)}胸痛${'乙'.repeat(60)}`;
+      const snippet = buildSnippet(text, ['胸痛'], 5);
+
+      expect(snippet).toBe(`…${'甲'.repeat(5)}胸痛${'乙'.repeat(5)}…`);
+    });
+
+    it('未命中时返回开头内容', () => {
+      expect(buildSnippet('头痛三天', ['胸痛'])).toBe('头痛三天');
+    });
+  });
+
+  describe('MedicalRecordTextIndex', () => {
+    let index: MedicalRecordTextIndex;
+
+    beforeEach(() => {
+      index = new MedicalRecordTextIndex();
+      index.add('r1', {
+        chiefComplaint: '头晕一周',
+        diagnosis: '原发性高血压',
+        treatmentPlan: '口服降压药'
+      });
+      index.add('r2', {
+        chiefComplaint: '胸痛两小时',
+        diagnosis: '急性冠脉综合征',
+        pastHistory: '高血压病史十年'
+      });
+      index.add('r3', {
+        chiefComplaint: '咳嗽发热',
+        diagnosis: '上呼吸道感染',
+        treatmentPlan: '对症治疗'
+      });
+    });
+
+    it('诊断字段命中的得分应高于既往史命中', () => {
+      const r1 = index.score('r1', ['高血压']);
+      const r2 = index.score('r2', ['高血压']);
+
+      expect(r1.score).toBeGreaterThan(r2.score);
+      expect(r1.matchedFields[0]).toBe('diagnosis');
+      expect(r2.matchedFields[0]).toBe('pastHistory');
+    });
+
+    it('未命中的文档得分为0', () => {
+      const result = index.score('r3', ['高血压']);
+
+      expect(result.score).toBe(0);
+      expect(result.matchedTerms).toHaveLength(0);
+    });
+
+    it('应该返回命中的检索词', () => {
+      const result = index.score('r2', ['胸痛', '高血压', '糖尿病']);
+
+      expect(result.matchedTerms).toEqual(['胸痛', '高血压']);
+    });
+  });
+
+  describe('MedicalRecordSearchService.search', () => {
+    it('全部预筛选命中的病历参与排序，较早的高相关病历不被截断', async () => {
+      // 600条仅既往史提及高血压的病历，ID排在前面；最早的一条诊断为高血压
+      const records = Array.from({ length: 600 }, (_, i) => ({
+        id: `r${String(i + 1).padStart(3, '0')}`,
+        recordNo: `MR${i + 1}`,
+        chiefComplaint: '复诊',
+        diagnosis: '上呼吸道感染',
+        pastHistory: '高血压病史'
+      }));
+      records.push({ id: 'r999', recordNo: 'MR-OLD', chiefComplaint: '头晕', diagnosis: '原发性高血压', pastHistory: '' });
+
+      const prisma: any = {
+        medicalRecord: {
+          count: jest.fn(async () => records.length),
+          findMany: jest.fn(async ({ where, take, cursor }) => {
+            if (where.id?.in) {
+              return records.filter(record => where.id.in.includes(record.id));
+            }
+            const start = cursor ? records.findIndex(record => record.id === cursor.id) + 1 : 0;
+            return records.slice(start, start + take);
+          })
+        }
+      };
+
+      const result = await new MedicalRecordSearchService(prisma).search({ query: '高血压', limit: 1 });
+
+      expect(result.totalCandidates).toBe(601);
+      expect(result.hits.map(hit => hit.recordNo)).toEqual(['MR-OLD']);
+      expect(result.hits[0].record).toMatchObject({ id: 'r999' });
+    });
+  });
+});
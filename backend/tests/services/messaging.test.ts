@@ -0,0 +1,176 @@
+import { MessageChannel, MessageDeliveryStatus, MessageEvent, TimeSlot } from '@prisma/client';
+import { ChannelAdapter, EmailCaptureAdapter, OutboundMessage } from '../../src/messaging';
+import { MessagingService } from '../../src/services/messaging.service';
+import { FieldEncryptor } from '../../src/utils/field-encryption';
+
+const encryptor = new FieldEncryptor({ currentVersion: 1, keys: { 1: 'test-key' }, blindIndexKey: 'index-key' });
+
+const appointment = {
+  id: 'a1',
+  appointmentNo: 'NEI2025061800003',
+  appointmentDate: new Date('2025-06-18T00:00:00Z'),
+  timeSlot: TimeSlot.MORNING,
+  queueNumber: 3,
+  patient: { id: 'p1', name: '张三', patientNo: 'P0001', phone: '13800000000' },
+  doctor: { name: '李医生', title: '主任医师' },
+  department: { name: '内科', location: '门诊楼2层' }
+};
+
+/**
+ * 模拟Prisma：投递记录保存在内存中
+ */
+function createMockPrisma(preferences: any[] = [], templates: any[] = []) {
+  const deliveries: any[] = [];
+
+  return {
+    deliveries,
+    appointment: { findUnique: jest.fn(async () => appointment) },
+    patientChannelPreference: { findMany: jest.fn(async () => preferences) },
+    messageTemplate: { findMany: jest.fn(async () => templates) },
+    messageDelivery: {
+      create: jest.fn(async ({ data }) => {
+        const delivery = { id: `d${deliveries.length + 1}`, status: MessageDeliveryStatus.PENDING, attempts: 0, ...data };
+        deliveries.push(delivery);
+        return delivery;
+      }),
+      update: jest.fn(async ({ where, data }) => Object.assign(deliveries.find((item) => item.id === where.id), data)),
+      findMany: jest.fn(async ({ where }) =>
+        deliveries.filter((item) => item.status === where.status && item.nextAttemptAt <= where.nextAttemptAt.lte)
+      ),
+      updateMany: jest.fn(async ({ where, data }) => {
+        const target = deliveries.find(
+          (item) => item.id === where.id && item.status === where.status && item.nextAttemptAt === where.nextAttemptAt
+        );
+        if (target) Object.assign(target, data);
+        return { count: target ? 1 : 0 };
+      })
+    }
+  } as any;
+}
+
+/**
+ * 记录发送内容的测试适配器，可指定前几次发送失败
+ */
+function createAdapter(channel: MessageChannel, failures = 0) {
+  const sent: OutboundMessage[] = [];
+  const adapter: ChannelAdapter = {
+    name: 'test',
+    channel,
+    send: jest.fn(async (message: OutboundMessage) => {
+      if (failures-- > 0) throw new Error('网关超时');
+      sent.push(message);
+      return { externalId: `ext-${sent.length}` };
+    })
+  };
+  return { adapter, sent };
+}
+
+describe('MessagingService', () => {
+  it('未设置渠道偏好时通过手机号发送短信，按默认模板渲染', async () => {
+    const prisma = createMockPrisma();
+    const sms = createAdapter(MessageChannel.SMS);
+    const service = new MessagingService(prisma, { adapters: { SMS: sms.adapter }, hospitalName: '测试医院', encryptor });
+
+    const [delivery] = await service.notifyAppointment(MessageEvent.APPOINTMENT_CREATED, 'a1');
+
+    expect(sms.sent).toHaveLength(1);
+    expect(sms.sent[0].to).toBe('13800000000');
+    expect(sms.sent[0].subject).toBeUndefined();
+    expect(sms.sent[0].body).toBe(
+      '张三您好，您已成功挂号内科李医生医生，就诊时间2025-06-18上午，排队号3，挂号单号NEI2025061800003。请按时到门诊楼2层候诊。'
+    );
+    expect(delivery).toMatchObject({ status: MessageDeliveryStatus.SENT, attempts: 1, externalId: 'ext-1' });
+    expect(delivery.recipient).not.toContain('13800000000');
+    expect(encryptor.decrypt(delivery.recipient)).toBe('13800000000');
+  });
+
+  it('按渠道偏好发送，停用的模板跳过对应渠道', async () => {
+    const prisma = createMockPrisma(
+      [
+        { channel: MessageChannel.SMS, enabled: false, address: null },
+        { channel: MessageChannel.EMAIL, enabled: true, address: encryptor.encrypt('zhangsan@example.com') },
+        { channel: MessageChannel.WECHAT, enabled: true, address: encryptor.encrypt('openid-1') }
+      ],
+      [
+        { channel: MessageChannel.EMAIL, enabled: true, subject: '叫号提醒', body: '请{{appointment.queueNumber}}号{{patient.name}}就诊' },
+        { channel: MessageChannel.WECHAT, enabled: false, subject: null, body: '' }
+      ]
+    );
+    const email = new EmailCaptureAdapter('noreply@ailiaox.local');
+    const wechat = createAdapter(MessageChannel.WECHAT);
+    const service = new MessagingService(prisma, { adapters: { EMAIL: email, WECHAT: wechat.adapter }, encryptor });
+
+    const deliveries = await service.notifyAppointment(MessageEvent.QUEUE_CALLED, 'a1');
+
+    expect(deliveries.map((item) => item.channel)).toEqual([MessageChannel.EMAIL]);
+    expect(wechat.sent).toHaveLength(0);
+    expect(email.captured).toHaveLength(1);
+    expect(email.captured[0]).toMatchObject({ to: 'zhangsan@example.com', subject: '叫号提醒' });
+    expect(email.captured[0].raw).toContain(`Subject: =?UTF-8?B?${Buffer.from('叫号提醒').toString('base64')}?=`);
+    expect(email.captured[0].raw).toContain(Buffer.from('请3号张三就诊').toString('base64'));
+  });
+
+  it('发送失败后按加倍间隔重试，达到最大次数记为失败', async () => {
+    const prisma = createMockPrisma();
+    const sms = createAdapter(MessageChannel.SMS, 3);
+    const service = new MessagingService(prisma, {
+      adapters: { SMS: sms.adapter },
+      maxAttempts: 3,
+      retryDelayMs: 1000,
+      encryptor
+    });
+
+    const [delivery] = await service.notifyAppointment(MessageEvent.APPOINTMENT_CANCELLED, 'a1');
+    expect(delivery).toMatchObject({ status: MessageDeliveryStatus.PENDING, attempts: 1, lastError: '网关超时' });
+    const firstRetryAt = delivery.nextAttemptAt!.getTime();
+
+    // 未到重试时间不发送
+    expect(await service.retryDueDeliveries(new Date(firstRetryAt - 1))).toEqual({ sent: 0, failed: 0 });
+
+    await service.retryDueDeliveries(new Date(firstRetryAt));
+    expect(prisma.deliveries[0].attempts).toBe(2);
+    expect(prisma.deliveries[0].nextAttemptAt.getTime() - Date.now()).toBeGreaterThan(1500); // 第二次间隔加倍
+
+    expect(await service.retryDueDeliveries(new Date(Date.now() + 10000))).toEqual({ sent: 0, failed: 1 });
+    expect(prisma.deliveries[0]).toMatchObject({ status: MessageDeliveryStatus.FAILED, attempts: 3, nextAttemptAt: null });
+    expect(sms.adapter.send).toHaveBeenCalledTimes(3);
+  });
+
+  it('立即发送期间定时重试不重复发送', async () => {
+    const prisma = createMockPrisma();
+    let service: MessagingService;
+    let sweep: Promise<{ sent: number; failed: number }> | undefined;
+    const sms = createAdapter(MessageChannel.SMS);
+    const send = sms.adapter.send as jest.Mock;
+    const deliver = send.getMockImplementation()!;
+    send.mockImplementation(async (message: OutboundMessage) => {
+      // 首次发送尚未返回时定时任务执行
+      sweep = service.retryDueDeliveries(new Date(Date.now() + 60 * 1000));
+      await sweep;
+      return deliver(message);
+    });
+    service = new MessagingService(prisma, { adapters: { SMS: sms.adapter }, encryptor });
+
+    const [delivery] = await service.notifyAppointment(MessageEvent.APPOINTMENT_CREATED, 'a1');
+
+    expect(await sweep).toEqual({ sent: 0, failed: 0 });
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(delivery).toMatchObject({ status: MessageDeliveryStatus.SENT, attempts: 1 });
+  });
+
+  it('无可用渠道时不生成投递记录', async () => {
+    const prisma = createMockPrisma([{ channel: MessageChannel.EMAIL, enabled: false, address: null }]);
+    const service = new MessagingService(prisma, { adapters: {}, encryptor });
+
+    await expect(service.notifyAppointment(MessageEvent.APPOINTMENT_CREATED, 'a1')).resolves.toEqual([]);
+    expect(prisma.messageDelivery.create).not.toHaveBeenCalled();
+  });
+
+  it('模板包含未知占位符时拒绝保存', async () => {
+    const service = new MessagingService(createMockPrisma(), { adapters: {}, encryptor });
+
+    await expect(
+      service.upsertTemplate(MessageEvent.QUEUE_CALLED, MessageChannel.SMS, { body: '{{patient.phone}}请就诊' })
+    ).rejects.toThrow('模板包含未知占位符: patient.phone');
+  });
+});
@@ -0,0 +1,123 @@
+import { NotificationType, UserRole } from '@prisma/client';
+import { Permission } from '../../src/auth/types';
+import { NotificationService, rolesWithPermission } from '../../src/services/notification.service';
+import { NotificationEvent, NotificationEventBus } from '../../src/realtime/notification-events';
+
+/**
+ * 模拟Prisma：通知保存在内存中
+ */
+function createMockPrisma() {
+  const notifications: any[] = [];
+
+  const prisma: any = {
+    notifications,
+    notification: {
+      create: jest.fn(async ({ data }) => {
+        const notification = { id: `n${notifications.length + 1}`, isRead: false, readAt: null, ...data };
+        notifications.push(notification);
+        return notification;
+      }),
+      findFirst: jest.fn(async ({ where }) =>
+        notifications.find((item) => item.id === where.id && item.userId === where.userId) || null
+      ),
+      update: jest.fn(async ({ where, data }) => Object.assign(notifications.find((item) => item.id === where.id), data)),
+      updateMany: jest.fn(async ({ where, data }) => {
+        const targets = notifications.filter((item) => item.userId === where.userId && !item.isRead);
+        targets.forEach((item) => Object.assign(item, data));
+        return { count: targets.length };
+      }),
+      deleteMany: jest.fn(async ({ where }) => {
+        const index = notifications.findIndex((item) => item.id === where.id && item.userId === where.userId);
+        if (index < 0) return { count: 0 };
+        notifications.splice(index, 1);
+        return { count: 1 };
+      })
+    },
+    user: {
+      findMany: jest.fn(async () => [{ id: 'u1' }, { id: 'u2' }]),
+      count: jest.fn(async () => 1)
+    },
+    $transaction: jest.fn(async (operations: Promise<any>[]) => Promise.all(operations))
+  };
+  return prisma;
+}
+
+const input = { title: '处方已审核通过', content: '处方RX001已审核通过', type: NotificationType.PRESCRIPTION_READY };
+
+describe('NotificationService', () => {
+  let events: NotificationEventBus;
+  let received: NotificationEvent[];
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    events = new NotificationEventBus();
+    received = [];
+    unsubscribe = events.subscribe((event) => received.push(event));
+  });
+
+  afterEach(() => unsubscribe());
+
+  it('向多个用户发送通知，重复的用户只发送一次并逐一推送', async () => {
+    const prisma = createMockPrisma();
+
+    const notifications = await new NotificationService(prisma, events).notifyUsers(['u1', 'u2', 'u1'], input);
+
+    expect(notifications.map((item) => item.userId)).toEqual(['u1', 'u2']);
+    expect(received.map((event) => [event.type, event.userId])).toEqual([
+      ['created', 'u1'],
+      ['created', 'u2']
+    ]);
+  });
+
+  it('按权限查找接收人，可排除操作人本人', async () => {
+    const prisma = createMockPrisma();
+
+    await new NotificationService(prisma, events).notifyPermission(Permission.INVENTORY_MANAGE, input, 'u3');
+
+    expect(rolesWithPermission(Permission.INVENTORY_MANAGE)).toEqual(
+      expect.arrayContaining([UserRole.ADMIN, UserRole.OPERATOR])
+    );
+    expect(rolesWithPermission(Permission.INVENTORY_MANAGE)).not.toContain(UserRole.DOCTOR);
+    expect(prisma.user.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ id: { not: 'u3' } }) })
+    );
+  });
+
+  it('只能标记和删除自己的通知', async () => {
+    const prisma = createMockPrisma();
+    const service = new NotificationService(prisma, events);
+    const notification = await service.notifyUser('u1', input);
+
+    await expect(service.markAsRead('u2', notification.id)).rejects.toThrow('通知不存在');
+    await expect(service.deleteNotification('u2', notification.id)).rejects.toThrow('通知不存在');
+
+    const read = await service.markAsRead('u1', notification.id);
+    expect(read.isRead).toBe(true);
+    expect(received[received.length - 1]).toEqual({ type: 'read', userId: 'u1', notificationIds: [notification.id] });
+  });
+
+  it('全部已读只在有未读通知时推送', async () => {
+    const prisma = createMockPrisma();
+    const service = new NotificationService(prisma, events);
+    await service.notifyUsers(['u1'], input);
+    await service.notifyUsers(['u1'], input);
+
+    expect(await service.markAllAsRead('u1')).toBe(2);
+    expect(await service.markAllAsRead('u1')).toBe(0);
+    expect(received.filter((event) => event.type === 'read')).toEqual([
+      { type: 'read', userId: 'u1', notificationIds: null }
+    ]);
+  });
+
+  it('系统通知的接收人必须是在职用户', async () => {
+    const prisma = createMockPrisma();
+
+    await expect(
+      new NotificationService(prisma, events).sendSystemNotification('admin', ['u1', 'missing'], {
+        title: '系统维护',
+        content: '今晚22点系统维护'
+      })
+    ).rejects.toThrow('接收人不存在');
+    expect(prisma.notification.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,43 @@
+import { allocateBatchesFefo, StockBatch } from '../../src/services/prescription.service';
+
+describe('allocateBatchesFefo', () => {
+  const asOf = new Date('2025-06-15T10:00:00');
+
+  const batches: StockBatch[] = [
+    { id: 's1', batchNo: 'B003', quantity: 50, expiryDate: new Date('2026-01-01') },
+    { id: 's2', batchNo: 'B001', quantity: 10, expiryDate: new Date('2025-05-01') },
+    { id: 's3', batchNo: 'B002', quantity: 20, expiryDate: new Date('2025-08-01') }
+  ];
+
+  it('应该优先分配效期最早的批次', () => {
+    const { allocations, shortfall } = allocateBatchesFefo(batches, 30, asOf);
+
+    expect(shortfall).toBe(0);
+    expect(allocations).toEqual([
+      expect.objectContaining({ stockId: 's3', quantity: 20 }),
+      expect.objectContaining({ stockId: 's1', quantity: 10 })
+    ]);
+  });
+
+  it('应该跳过已过期批次', () => {
+    const { allocations } = allocateBatchesFefo(batches, 5, asOf);
+
+    expect(allocations.map(a => a.stockId)).not.toContain('s2');
+  });
+
+  it('当天到期的批次仍可发放', () => {
+    const { allocations } = allocateBatchesFefo(
+      [{ id: 's4', batchNo: 'B004', quantity: 5, expiryDate: new Date('2025-06-15T00:00:00') }],
+      5,
+      asOf
+    );
+
+    expect(allocations).toHaveLength(1);
+  });
+
+  it('库存不足时返回缺口数量', () => {
+    const { shortfall } = allocateBatchesFefo(batches, 100, asOf);
+
+    expect(shortfall).toBe(30);
+  });
+});
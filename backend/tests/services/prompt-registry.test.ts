@@ -0,0 +1,152 @@
+import { PromptRegistryService } from '../../src/services/prompt-registry.service';
+import { AIAssistantService } from '../../src/services/ai-assistant.service';
+import { DEFAULT_PROMPTS, renderPrompt } from '../../src/ai/prompts';
+import { AIProviderType, MessageRole } from '../../src/ai/types';
+
+/**
+ * 模拟Prisma：提示词版本和调用记录保存在内存中
+ */
+function createMockPrisma() {
+  const versions: any[] = [];
+  const runs: any[] = [];
+  const matches = (item: any, where: any): boolean =>
+    Object.entries(where).every(([field, value]) =>
+      field === 'OR' ? (value as any[]).some((condition) => matches(item, condition)) : item[field] === value
+    );
+
+  const aIPromptVersion = {
+    findMany: jest.fn(async ({ where }) => versions.filter((item) => matches(item, where))),
+    findFirst: jest.fn(async ({ where }) =>
+      versions.filter((item) => matches(item, where)).sort((a, b) => b.version - a.version)[0] ?? null
+    ),
+    findUnique: jest.fn(async ({ where }) => versions.find((item) => item.id === where.id) ?? null),
+    create: jest.fn(async ({ data }) => {
+      const version = { id: `v${versions.length + 1}`, createdAt: new Date(), ...data };
+      versions.push(version);
+      return version;
+    }),
+    update: jest.fn(async ({ where, data }) => Object.assign(versions.find((item) => item.id === where.id), data)),
+    updateMany: jest.fn(async ({ where, data }) => {
+      const matched = versions.filter((item) => matches(item, where));
+      matched.forEach((item) => Object.assign(item, data));
+      return { count: matched.length };
+    })
+  };
+
+  const prisma: any = {
+    versions,
+    runs,
+    aIPromptVersion,
+    aIAssistantRun: {
+      create: jest.fn(async ({ data }) => {
+        runs.push(data);
+        return data;
+      })
+    },
+    department: { findUnique: jest.fn(async ({ where }) => (where.id === 'd1' ? { id: 'd1' } : null)) },
+    doctor: { findUnique: jest.fn(async ({ where }) => (where.userId === 'u1' ? { departmentId: 'd1' } : null)) },
+    $transaction: jest.fn(async (arg: any) => (typeof arg === 'function' ? arg(prisma) : Promise.all(arg)))
+  };
+  return prisma;
+}
+
+describe('renderPrompt', () => {
+  it('替换变量，变量为空时省略所在行和段落', () => {
+    const template = '症状：{{symptoms}}\n年龄：{{age}}\n{{#history}}既往史：\n{{history}}\n{{/history}}\n\n\n请分析';
+
+    expect(renderPrompt(template, { symptoms: '头痛', age: 45, history: '高血压' })).toBe(
+      '症状：头痛\n年龄：45\n既往史：\n高血压\n\n请分析'
+    );
+    expect(renderPrompt(template, { symptoms: '头痛' })).toBe('症状：头痛\n\n请分析');
+  });
+});
+
+describe('PromptRegistryService', () => {
+  it('依次使用科室版本、全院版本和内置默认提示词', async () => {
+    const prisma = createMockPrisma();
+    const registry = new PromptRegistryService(prisma);
+
+    expect(await registry.resolve('diagnose', 'd1')).toMatchObject({
+      version: 0,
+      versionId: null,
+      user: DEFAULT_PROMPTS.diagnose.user
+    });
+
+    await registry.createVersion('diagnose', { system: '全院', user: '症状：{{symptoms}}' }, 'admin');
+    expect(await registry.resolve('diagnose', 'd1')).toMatchObject({ version: 1, departmentId: null, system: '全院' });
+
+    await registry.createVersion('diagnose', { departmentId: 'd1', system: '科室', user: '{{symptoms}}' }, 'admin');
+    expect(await registry.resolve('diagnose', 'd1')).toMatchObject({ version: 1, departmentId: 'd1', system: '科室' });
+    expect(await registry.resolve('diagnose', 'd2')).toMatchObject({ departmentId: null, system: '全院' });
+
+    await registry.resetToDefault('diagnose', 'd1');
+    expect(await registry.resolve('diagnose', 'd1')).toMatchObject({ departmentId: null, system: '全院' });
+  });
+
+  it('保存递增版本号，可回滚到历史版本', async () => {
+    const prisma = createMockPrisma();
+    const registry = new PromptRegistryService(prisma);
+
+    const first = await registry.createVersion('record-summary', { system: 'A', user: '{{chiefComplaint}}' });
+    const second = await registry.createVersion('record-summary', { system: 'B', user: '{{chiefComplaint}}', note: '精简' });
+    expect(second.version).toBe(2);
+    expect(prisma.versions.filter((item: any) => item.isActive).map((item: any) => item.id)).toEqual([second.id]);
+
+    await registry.activateVersion(first.id);
+    expect(await registry.resolve('record-summary')).toMatchObject({ version: 1, system: 'A' });
+    await expect(registry.activateVersion('v9')).rejects.toThrow('提示词版本不存在');
+  });
+
+  it('拒绝未知变量、未知提示词和不存在的科室', async () => {
+    const registry = new PromptRegistryService(createMockPrisma());
+
+    await expect(
+      registry.createVersion('diagnose', { system: '', user: '{{symptoms}} {{#foo}}{{/foo}}' })
+    ).rejects.toThrow('提示词包含未知变量: foo');
+    await expect(registry.createVersion('unknown', { system: '', user: '' })).rejects.toThrow('提示词不存在');
+    await expect(
+      registry.createVersion('diagnose', { departmentId: 'd9', system: '', user: '{{symptoms}}' })
+    ).rejects.toThrow('科室不存在');
+  });
+
+  it('预览时使用示例变量渲染', async () => {
+    const registry = new PromptRegistryService(createMockPrisma());
+
+    const preview = await registry.preview('search-intent', { system: '检索', user: '查询：{{query}}' });
+    expect(preview.user).toBe('查询：近半年胸痛伴高血压的患者');
+  });
+});
+
+describe('AIAssistantService 提示词版本记录', () => {
+  it('使用医生所在科室的提示词，并记录本次输出的版本', async () => {
+    const prisma = createMockPrisma();
+    const registry = new PromptRegistryService(prisma);
+    const version = await registry.createVersion('search-intent', {
+      departmentId: 'd1',
+      system: '科室检索',
+      user: '查询：{{query}}'
+    });
+
+    const chat = jest.fn(async () => ({
+      id: 'r',
+      provider: AIProviderType.DEEPSEEK,
+      model: 'deepseek-chat',
+      message: { role: MessageRole.ASSISTANT, content: '{"intent":"检索","keywords":["胸痛"]}' },
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 }
+    }));
+    const service = new AIAssistantService({ chat } as any, prisma);
+
+    await (service as any).interpretSearchQuery('胸痛', { userId: 'u1' });
+
+    expect((chat.mock.calls[0] as any[])[0].messages[1].content).toBe('查询：胸痛');
+    expect(prisma.runs[0]).toMatchObject({
+      feature: 'search-intent',
+      promptVersionId: version.id,
+      version: 1,
+      departmentId: 'd1',
+      userId: 'u1',
+      provider: 'deepseek',
+      tokensUsed: 15
+    });
+  });
+});
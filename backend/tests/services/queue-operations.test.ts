@@ -0,0 +1,197 @@
+import { AppointmentStatus, Priority, QueueStatus } from '@prisma/client';
+import { QueueService } from '../../src/services/queue.service';
+import { queueEvents } from '../../src/realtime/queue-events';
+
+/**
+ * 模拟Prisma：一条排队记录，科室dep1有医生d1、d2，科室dep2有医生d3
+ * 查询返回记录快照，按条件更新时检查当前状态（模拟并发时读到的旧数据）
+ */
+function createMockPrisma(queue: { status: QueueStatus; callCount: number }) {
+  const record = {
+    id: 'q1',
+    appointmentId: 'a1',
+    queueNumber: 5,
+    queuedAt: new Date('2025-06-16T08:00:00'),
+    lastCalledAt: new Date('2025-06-16T08:30:00'),
+    ...queue,
+    appointment: {
+      id: 'a1',
+      doctorId: 'd1',
+      departmentId: 'dep1',
+      priority: Priority.NORMAL,
+      status: AppointmentStatus.CHECKED_IN as AppointmentStatus
+    }
+  };
+  const doctors: Record<string, any> = {
+    d2: { id: 'd2', name: '王医生', departmentId: 'dep1' },
+    d3: { id: 'd3', name: '赵医生', departmentId: 'dep2' }
+  };
+
+  const prisma: any = {
+    record,
+    $transaction: jest.fn(async (fn: (tx: any) => Promise<unknown>) => fn(prisma)),
+    queue: {
+      findUnique: jest.fn(async () => ({ ...record, appointment: { ...record.appointment } })),
+      findUniqueOrThrow: jest.fn(async () => ({
+        ...record,
+        appointment: { ...record.appointment, patient: { name: '张三' } }
+      })),
+      // 叫号超时检查按条件筛选，其余查询（候诊队列）返回空
+      findMany: jest.fn(async ({ where }) =>
+        where.lastCalledAt &&
+        record.status === where.status &&
+        record.callCount >= where.callCount.gte &&
+        record.lastCalledAt <= where.lastCalledAt.lte
+          ? [{ ...record }]
+          : []
+      ),
+      updateMany: jest.fn(async ({ where, data }) => {
+        const matched =
+          record.status === where.status &&
+          (where.callCount === undefined || record.callCount === where.callCount) &&
+          (where.appointment === undefined || record.appointment.status !== where.appointment.status.not);
+        if (matched) Object.assign(record, data);
+        return { count: matched ? 1 : 0 };
+      }),
+      update: jest.fn(async ({ data }) => {
+        Object.assign(record, data);
+        return { ...record };
+      })
+    },
+    appointment: {
+      update: jest.fn(async ({ data }) => {
+        Object.assign(record.appointment, data);
+        return data;
+      })
+    },
+    doctor: { findUnique: jest.fn(async ({ where }) => doctors[where.id] || null) }
+  };
+  return prisma;
+}
+
+describe('QueueService 过号与爽约', () => {
+  it('叫号次数未达上限时过号', async () => {
+    const prisma = createMockPrisma({ status: QueueStatus.CALLED, callCount: 1 });
+    const events: string[] = [];
+    const unsubscribe = queueEvents.subscribe((event) => events.push(event.type));
+
+    const queue = await new QueueService(prisma).skipQueue('q1');
+    unsubscribe();
+
+    expect(queue.status).toBe(QueueStatus.SKIPPED);
+    expect(prisma.appointment.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { status: AppointmentStatus.CHECKED_IN } })
+    );
+    expect(events).toEqual(['skipped']);
+  });
+
+  it('多次叫号无应答后过号记为爽约', async () => {
+    const prisma = createMockPrisma({ status: QueueStatus.CALLED, callCount: 3 });
+
+    const queue = await new QueueService(prisma).skipQueue('q1');
+
+    expect(queue.status).toBe(QueueStatus.NO_SHOW);
+    expect(prisma.appointment.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { status: AppointmentStatus.NO_SHOW } })
+    );
+  });
+
+  it('达到叫号上限后不能再重呼', async () => {
+    const prisma = createMockPrisma({ status: QueueStatus.CALLED, callCount: 3 });
+
+    await expect(new QueueService(prisma).callAgain('q1')).rejects.toThrow('已呼叫3次，请过号处理');
+  });
+
+  it('并发过号只生效一次', async () => {
+    const prisma = createMockPrisma({ status: QueueStatus.CALLED, callCount: 1 });
+    const service = new QueueService(prisma);
+
+    const results = await Promise.allSettled([service.skipQueue('q1'), service.transferQueue('q1', 'd2')]);
+
+    expect(results.map((result) => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect((results[1] as PromiseRejectedResult).reason.message).toBe('排队状态已变更，请刷新后重试');
+    expect(prisma.appointment.update).toHaveBeenCalledTimes(1);
+    expect(prisma.record.status).toBe(QueueStatus.SKIPPED);
+  });
+
+  it('叫号次数达到上限且超时未到诊时自动记为爽约', async () => {
+    const prisma = createMockPrisma({ status: QueueStatus.CALLED, callCount: 3 });
+    const service = new QueueService(prisma);
+    const events: string[] = [];
+    const unsubscribe = queueEvents.subscribe((event) => events.push(event.type));
+
+    expect(await service.expireUnansweredCalls(new Date('2025-06-16T08:34:00'))).toBe(0);
+    expect(await service.expireUnansweredCalls(new Date('2025-06-16T08:35:00'))).toBe(1);
+    unsubscribe();
+
+    expect(prisma.record.status).toBe(QueueStatus.NO_SHOW);
+    expect(prisma.appointment.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { status: AppointmentStatus.NO_SHOW } })
+    );
+    expect(events).toEqual(['no_show']);
+  });
+
+  it('叫号次数未达上限时不自动记为爽约', async () => {
+    const prisma = createMockPrisma({ status: QueueStatus.CALLED, callCount: 2 });
+
+    expect(await new QueueService(prisma).expireUnansweredCalls(new Date('2025-06-16T09:30:00'))).toBe(0);
+    expect(prisma.record.status).toBe(QueueStatus.CALLED);
+  });
+
+  it('只有过号的患者可以回队', async () => {
+    const waiting = createMockPrisma({ status: QueueStatus.WAITING, callCount: 0 });
+    await expect(new QueueService(waiting).recallQueue('q1')).rejects.toThrow('只能对已过号的患者回队');
+
+    const skipped = createMockPrisma({ status: QueueStatus.SKIPPED, callCount: 1 });
+    const queue = await new QueueService(skipped).recallQueue('q1', 2);
+    expect(queue.status).toBe(QueueStatus.WAITING);
+  });
+
+  it('取消排队后不能回队或转诊', async () => {
+    const prisma = createMockPrisma({ status: QueueStatus.WAITING, callCount: 0 });
+    const service = new QueueService(prisma);
+
+    await service.cancelQueue('q1');
+    expect(prisma.record.status).toBe(QueueStatus.SKIPPED);
+    expect(prisma.record.appointment.status).toBe(AppointmentStatus.CANCELLED);
+
+    await expect(service.recallQueue('q1')).rejects.toThrow('挂号已取消，不能回队');
+    await expect(service.transferQueue('q1', 'd2')).rejects.toThrow('挂号已取消，不能转诊');
+    expect(prisma.record.status).toBe(QueueStatus.SKIPPED);
+    expect(prisma.record.appointment.status).toBe(AppointmentStatus.CANCELLED);
+  });
+
+  it('回队时挂号已被并发取消则不回队', async () => {
+    const prisma = createMockPrisma({ status: QueueStatus.SKIPPED, callCount: 1 });
+    // 读取排队后、回队前挂号被取消
+    prisma.queue.findUnique.mockImplementationOnce(async () => {
+      const snapshot = { ...prisma.record, appointment: { ...prisma.record.appointment } };
+      prisma.record.appointment.status = AppointmentStatus.CANCELLED;
+      return snapshot;
+    });
+
+    await expect(new QueueService(prisma).recallQueue('q1')).rejects.toThrow('排队状态已变更，请刷新后重试');
+    expect(prisma.record.status).toBe(QueueStatus.SKIPPED);
+  });
+});
+
+describe('QueueService 转诊', () => {
+  it('转到同科室医生并保留排队时间', async () => {
+    const prisma = createMockPrisma({ status: QueueStatus.WAITING, callCount: 0 });
+
+    await new QueueService(prisma).transferQueue('q1', 'd2');
+
+    expect(prisma.appointment.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { doctorId: 'd2', status: AppointmentStatus.CHECKED_IN } })
+    );
+    const { data } = prisma.queue.updateMany.mock.calls[0][0];
+    expect(data).toEqual({ status: QueueStatus.WAITING, callCount: 0 });
+  });
+
+  it('拒绝转到其他科室的医生', async () => {
+    const prisma = createMockPrisma({ status: QueueStatus.WAITING, callCount: 0 });
+
+    await expect(new QueueService(prisma).transferQueue('q1', 'd3')).rejects.toThrow('只能转到同科室的医生');
+    expect(prisma.appointment.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,96 @@
+import { Priority } from '@prisma/client';
+import {
+  AgingPriorityPolicy,
+  compareQueueOrder,
+  countRecentInsertions,
+  queuedAtForPosition,
+  StrictPriorityPolicy
+} from '../../src/services/queue-ordering.service';
+
+const at = (time: string) => new Date(`2025-06-16T${time}:00`);
+const entry = (id: string, priority: Priority, time: string) => ({ id, priority, queuedAt: at(time) });
+
+describe('排队顺序', () => {
+  it('优先级高的在前，相同优先级按排队时间', () => {
+    const queue = [
+      { priority: Priority.NORMAL, queuedAt: at('08:00') },
+      { priority: Priority.URGENT, queuedAt: at('08:10') },
+      { priority: Priority.NORMAL, queuedAt: at('07:50') }
+    ].sort(compareQueueOrder);
+
+    expect(queue.map((q) => q.queuedAt)).toEqual([at('08:10'), at('07:50'), at('08:00')]);
+  });
+
+  it('按指定位置计算回队的排队时间', () => {
+    const waiting = [
+      { priority: Priority.URGENT, queuedAt: at('08:30') },
+      { priority: Priority.NORMAL, queuedAt: at('08:00') },
+      { priority: Priority.NORMAL, queuedAt: at('08:10') },
+      { priority: Priority.NORMAL, queuedAt: at('08:20') }
+    ];
+    const insert = (position: number) => {
+      const recalled = { priority: Priority.NORMAL, queuedAt: queuedAtForPosition(waiting, Priority.NORMAL, position, at('09:00')) };
+      return [...waiting, recalled].sort(compareQueueOrder).indexOf(recalled) + 1;
+    };
+
+    expect(insert(3)).toBe(3);
+    expect(insert(2)).toBe(2);
+    // 不能排到高优先级患者之前，超出队列长度时排在末尾
+    expect(insert(1)).toBe(2);
+    expect(insert(10)).toBe(5);
+  });
+});
+
+describe('排序策略', () => {
+  // 一位普通患者先到，之后陆续来了紧急患者
+  const waiting = [
+    entry('n1', Priority.NORMAL, '08:00'),
+    entry('u1', Priority.URGENT, '08:05'),
+    entry('u2', Priority.URGENT, '08:06'),
+    entry('u3', Priority.URGENT, '08:07'),
+    entry('e1', Priority.EMERGENCY, '08:08')
+  ];
+
+  it('严格优先级策略下普通患者排在所有紧急患者之后', () => {
+    const ordered = new StrictPriorityPolicy().order(waiting, { now: at('08:10'), recentInsertions: 0 });
+
+    expect(ordered.map((o) => o.entry.id)).toEqual(['e1', 'u1', 'u2', 'u3', 'n1']);
+    expect(ordered.map((o) => o.reason)).toEqual([
+      'emergency', 'priority_insertion', 'priority_insertion', 'priority_insertion', 'arrival_order'
+    ]);
+  });
+
+  it('连续插队达到上限后按排队顺序，急诊不受限制', () => {
+    const policy = new AgingPriorityPolicy(60, 2);
+
+    const ordered = policy.order(waiting, { now: at('08:10'), recentInsertions: 0 });
+    expect(ordered.map((o) => o.entry.id)).toEqual(['e1', 'u1', 'u2', 'n1', 'u3']);
+    expect(ordered[3]).toMatchObject({ reason: 'insertion_capped', jumped: false });
+
+    // 之前已连续插队2次时，下一位直接按排队顺序
+    const afterHistory = policy.order(waiting, { now: at('08:10'), recentInsertions: 2 });
+    expect(afterHistory.map((o) => o.entry.id)).toEqual(['e1', 'n1', 'u1', 'u2', 'u3']);
+  });
+
+  it('等待时间足够长的普通患者优先级提升', () => {
+    const policy = new AgingPriorityPolicy(30, 0);
+
+    const early = policy.order(waiting, { now: at('08:10'), recentInsertions: 0 });
+    expect(early.map((o) => o.entry.id)).toEqual(['e1', 'u1', 'u2', 'u3', 'n1']);
+
+    // 等待30分钟后提升到与紧急相同，排队更早的先叫
+    const late = policy.order(waiting, { now: at('08:30'), recentInsertions: 0 });
+    expect(late.map((o) => o.entry.id)).toEqual(['e1', 'n1', 'u1', 'u2', 'u3']);
+    expect(late[1].reason).toBe('aged');
+  });
+
+  it('统计连续插队次数时跳过急诊', () => {
+    expect(countRecentInsertions([
+      { jumpedQueue: true, priority: Priority.URGENT },
+      { jumpedQueue: false, priority: Priority.EMERGENCY },
+      { jumpedQueue: true, priority: Priority.URGENT },
+      { jumpedQueue: false, priority: Priority.NORMAL },
+      { jumpedQueue: true, priority: Priority.URGENT }
+    ])).toBe(2);
+  });
+});
@@ -0,0 +1,60 @@
+import { ReportService } from '../../src/services/report.service';
+
+/**
+ * 模拟Prisma：报表配置保存在内存中
+ */
+function createMockPrisma(configs: any[]) {
+  const sameTime = (a: Date | null, b: Date | null) => (a === null || b === null ? a === b : a.getTime() === b.getTime());
+
+  return {
+    configs,
+    reportConfig: {
+      findMany: jest.fn(async ({ where }) =>
+        configs.filter((config) => config.schedule && (config.nextRunAt === null || config.nextRunAt <= where.OR[1].nextRunAt.lte))
+      ),
+      updateMany: jest.fn(async ({ where, data }) => {
+        const target = configs.find((config) => config.id === where.id && sameTime(config.nextRunAt, where.nextRunAt));
+        if (target) Object.assign(target, data);
+        return { count: target ? 1 : 0 };
+      })
+    }
+  } as any;
+}
+
+describe('ReportService.runDueReports', () => {
+  const config = (id: string, nextRunAt: Date | null) => ({ id, name: id, schedule: '0 8 * * *', nextRunAt });
+
+  it('错过计划时间的报表在下次检查时补生成一次', async () => {
+    const prisma = createMockPrisma([config('daily', new Date(2026, 2, 15, 8, 0))]);
+    const service = new ReportService(prisma);
+    const runReport = jest.spyOn(service, 'runReport').mockResolvedValue({} as any);
+
+    // 08:00 的检查被跳过，08:03 执行
+    expect(await service.runDueReports(new Date(2026, 2, 15, 8, 3))).toBe(1);
+    expect(runReport).toHaveBeenCalledTimes(1);
+    expect(prisma.configs[0].nextRunAt).toEqual(new Date(2026, 2, 16, 8, 0));
+
+    // 再次检查不重复生成
+    expect(await service.runDueReports(new Date(2026, 2, 15, 8, 4))).toBe(0);
+  });
+
+  it('未到计划时间不生成，升级前创建的配置从现在开始计划', async () => {
+    const prisma = createMockPrisma([config('later', new Date(2026, 2, 15, 8, 0)), config('legacy', null)]);
+    const service = new ReportService(prisma);
+    const runReport = jest.spyOn(service, 'runReport').mockResolvedValue({} as any);
+
+    expect(await service.runDueReports(new Date(2026, 2, 15, 7, 59))).toBe(0);
+    expect(runReport).not.toHaveBeenCalled();
+    expect(prisma.configs[1].nextRunAt).toEqual(new Date(2026, 2, 15, 8, 0));
+  });
+
+  it('其他实例已占用的报表不再生成', async () => {
+    const prisma = createMockPrisma([config('daily', new Date(2026, 2, 15, 8, 0))]);
+    prisma.reportConfig.updateMany.mockResolvedValue({ count: 0 });
+    const service = new ReportService(prisma);
+    const runReport = jest.spyOn(service, 'runReport').mockResolvedValue({} as any);
+
+    expect(await service.runDueReports(new Date(2026, 2, 15, 8, 0))).toBe(0);
+    expect(runReport).not.toHaveBeenCalled();
+  });
+});
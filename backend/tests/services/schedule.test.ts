@@ -0,0 +1,102 @@
+import { Priority, TimeSlot } from '@prisma/client';
+import { buildSlotCapacities, ScheduleService } from '../../src/services/schedule.service';
+import { AppointmentService } from '../../src/services/appointment.service';
+
+const schedules = [
+  { id: 'sc2', timeSlot: TimeSlot.AFTERNOON, startTime: '14:00', endTime: '17:30', maxPatients: 2 },
+  { id: 'sc1', timeSlot: TimeSlot.MORNING, startTime: '08:00', endTime: '12:00', maxPatients: 3 }
+];
+
+/**
+ * 模拟Prisma：医生周一（2025-06-16）上午、下午出诊，下午号源已约满
+ */
+function createMockPrisma() {
+  const prisma: any = {
+    patient: { findUnique: jest.fn(async () => ({ id: 'p1', name: '张三' })) },
+    doctor: { findUnique: jest.fn(async () => ({ id: 'd1', name: '李医生' })) },
+    department: { findUnique: jest.fn(async () => ({ id: 'dep1', departmentNo: 'NEI01' })) },
+    doctorSchedule: {
+      findMany: jest.fn(async ({ where }) => (where.dayOfWeek === 1 ? schedules : []))
+    },
+    appointment: {
+      groupBy: jest.fn(async () => [{ timeSlot: TimeSlot.AFTERNOON, _count: { _all: 2 } }]),
+      findFirst: jest.fn(async () => null),
+      aggregate: jest.fn(async () => ({ _max: { queueNumber: null } })),
+      create: jest.fn(async ({ data }) => ({ id: 'a1', ...data }))
+    },
+    dailyCounter: {
+      updateMany: jest.fn(async () => ({ count: 0 })),
+      create: jest.fn(async ({ data }) => data)
+    }
+  };
+  prisma.$transaction = jest.fn(async (fn: (tx: any) => Promise<any>) => fn(prisma));
+  return prisma;
+}
+
+describe('buildSlotCapacities', () => {
+  it('按开始时间排序并计算剩余号源', () => {
+    const slots = buildSlotCapacities(schedules, { MORNING: 1, AFTERNOON: 5 });
+
+    expect(slots.map((slot) => slot.timeSlot)).toEqual([TimeSlot.MORNING, TimeSlot.AFTERNOON]);
+    expect(slots[0]).toMatchObject({ booked: 1, remaining: 2, available: true });
+    expect(slots[1]).toMatchObject({ booked: 5, remaining: 0, available: false });
+  });
+});
+
+describe('ScheduleService', () => {
+  it('只返回医生当天出诊的时间段', async () => {
+    const service = new ScheduleService(createMockPrisma());
+
+    const monday = await service.getDaySlots('d1', new Date('2025-06-16'));
+    const sunday = await service.getDaySlots('d1', new Date('2025-06-15'));
+
+    expect(monday.map((slot) => slot.timeSlot)).toEqual([TimeSlot.MORNING, TimeSlot.AFTERNOON]);
+    expect(sunday).toEqual([]);
+  });
+});
+
+describe('AppointmentService 号源控制', () => {
+  const baseInput = {
+    patientId: 'p1',
+    doctorId: 'd1',
+    departmentId: 'dep1',
+    appointmentDate: new Date('2025-06-16')
+  };
+
+  it('有剩余号源时可以挂号', async () => {
+    const prisma = createMockPrisma();
+    const service = new AppointmentService(prisma);
+
+    await service.createAppointment({ ...baseInput, timeSlot: TimeSlot.MORNING });
+
+    expect(prisma.appointment.create).toHaveBeenCalled();
+  });
+
+  it('号源已满或医生未出诊时拒绝挂号', async () => {
+    const prisma = createMockPrisma();
+    const service = new AppointmentService(prisma);
+
+    await expect(service.createAppointment({ ...baseInput, timeSlot: TimeSlot.AFTERNOON }))
+      .rejects.toThrow('该时间段号源已满');
+    await expect(service.createAppointment({ ...baseInput, timeSlot: TimeSlot.EVENING }))
+      .rejects.toThrow('医生该日该时间段未出诊');
+    expect(prisma.appointment.create).not.toHaveBeenCalled();
+  });
+
+  it('急诊可以在号源已满时加号', async () => {
+    const prisma = createMockPrisma();
+    const service = new AppointmentService(prisma);
+
+    await service.createAppointment({ ...baseInput, timeSlot: TimeSlot.AFTERNOON, priority: Priority.EMERGENCY });
+
+    expect(prisma.appointment.create).toHaveBeenCalled();
+  });
+
+  it('检查可用性返回剩余号源', async () => {
+    const service = new AppointmentService(createMockPrisma());
+
+    const availability = await service.checkTimeSlotAvailability('d1', new Date('2025-06-16'), TimeSlot.MORNING);
+
+    expect(availability).toMatchObject({ available: true, scheduled: true, maxPatients: 3, remaining: 3 });
+  });
+});
@@ -0,0 +1,135 @@
+import { Priority, QueueStatus, TimeSlot } from '@prisma/client';
+import { QueueOrderingService } from '../../src/services/queue-ordering.service';
+import {
+  WaitTimeService,
+  buildConsultationProfile,
+  DEFAULT_CONSULTATION_MINUTES,
+  projectQueueTimes,
+  summarizePredictionErrors
+} from '../../src/services/wait-time.service';
+
+const at = (time: string) => new Date(`2025-06-16T${time}:00`);
+
+// 生成一条就诊记录：叫号时间 + 就诊分钟数
+const sample = (priority: Priority, minutes: number) => ({
+  priority,
+  calledAt: at('09:00'),
+  completedAt: new Date(at('09:00').getTime() + minutes * 60000)
+});
+
+describe('buildConsultationProfile', () => {
+  it('按中位数学习就诊时长并剔除异常记录', () => {
+    const profile = buildConsultationProfile([
+      ...[8, 9, 10, 11, 12].map((m) => sample(Priority.NORMAL, m)),
+      ...[20, 22, 24, 26, 28].map((m) => sample(Priority.EMERGENCY, m)),
+      sample(Priority.NORMAL, 0), // 叫号后立即完成
+      sample(Priority.NORMAL, 600) // 忘记点击完成
+    ]);
+
+    expect(profile.sampleSize).toBe(10);
+    expect(profile.priorityMinutes[Priority.NORMAL]).toBe(10);
+    expect(profile.priorityMinutes[Priority.EMERGENCY]).toBe(24);
+    // 样本不足的优先级使用整体中位数
+    expect(profile.priorityMinutes[Priority.URGENT]).toBe(profile.averageMinutes);
+  });
+
+  it('历史数据不足时使用默认时长', () => {
+    const profile = buildConsultationProfile([sample(Priority.NORMAL, 30)]);
+
+    expect(profile.averageMinutes).toBe(DEFAULT_CONSULTATION_MINUTES);
+  });
+});
+
+describe('projectQueueTimes', () => {
+  const profile = buildConsultationProfile([
+    ...[10, 10, 10, 10, 10].map((m) => sample(Priority.NORMAL, m)),
+    ...[30, 30, 30, 30, 30].map((m) => sample(Priority.EMERGENCY, m))
+  ]);
+  const entry = (id: string, priority: Priority, timeSlot: TimeSlot = TimeSlot.MORNING) => ({
+    id,
+    priority,
+    timeSlot,
+    queuedAt: at('08:00')
+  });
+
+  it('按前面患者的优先级累计时长，并从开诊时间起算', () => {
+    const estimates = projectQueueTimes({
+      now: at('07:30'),
+      waiting: [entry('e1', Priority.EMERGENCY), entry('n1', Priority.NORMAL), entry('n2', Priority.NORMAL)],
+      profiles: { MORNING: profile },
+      sessions: { MORNING: { start: at('08:00'), end: at('12:00') } }
+    });
+
+    expect(estimates.map((e) => e.estimatedTime)).toEqual([at('08:00'), at('08:30'), at('08:40')]);
+    expect(estimates[2].waitMinutes).toBe(70);
+  });
+
+  it('计入正在就诊患者的剩余时长，超过出诊结束时间时标记', () => {
+    const estimates = projectQueueTimes({
+      now: at('11:40'),
+      waiting: [entry('n1', Priority.NORMAL), entry('n2', Priority.NORMAL), entry('a1', Priority.NORMAL, TimeSlot.AFTERNOON)],
+      profiles: { MORNING: profile, AFTERNOON: profile },
+      sessions: {
+        MORNING: { start: at('08:00'), end: at('12:00') },
+        AFTERNOON: { start: at('14:00'), end: at('17:30') }
+      },
+      inServiceRemainingMinutes: 15
+    });
+
+    expect(estimates.map((e) => e.estimatedTime)).toEqual([at('11:55'), at('12:05'), at('14:00')]);
+    expect(estimates.map((e) => e.exceedsSchedule)).toEqual([false, true, false]);
+  });
+});
+
+describe('预估误差统计', () => {
+  it('统计首次预估和最终预估的误差', () => {
+    const summary = summarizePredictionErrors([
+      { calledAt: at('09:20'), initialEstimatedTime: at('09:00'), estimatedTime: at('09:15') },
+      { calledAt: at('09:30'), initialEstimatedTime: at('09:40'), estimatedTime: at('09:30') }
+    ]);
+
+    expect(summary).toEqual({
+      sampleSize: 2,
+      initialMeanAbsoluteMinutes: 15,
+      initialMeanBiasMinutes: 5,
+      latestMeanAbsoluteMinutes: 2.5
+    });
+  });
+});
+
+describe('WaitTimeService.recalculateDoctorQueue', () => {
+  it('只推算当天的排队，排班按当天星期查找', async () => {
+    jest
+      .spyOn(QueueOrderingService.prototype, 'orderDoctorQueue')
+      .mockImplementation(async (entries) => entries.map((entry) => ({ entry })) as any);
+    const queue = (id: string, appointmentDate: Date) => ({
+      id,
+      status: QueueStatus.WAITING,
+      queuedAt: at('08:00'),
+      initialEstimatedTime: null,
+      appointment: { priority: Priority.NORMAL, timeSlot: TimeSlot.MORNING, appointmentDate, calledAt: null, departmentId: 'd1' }
+    });
+    const today = new Date(Date.UTC(2025, 5, 16));
+    const queues = [queue('yesterday', new Date(Date.UTC(2025, 5, 15))), queue('today', today)];
+    const prisma: any = {
+      queue: {
+        findMany: jest.fn(async ({ where }) =>
+          queues.filter((item) => item.appointment.appointmentDate.getTime() === where.appointment.appointmentDate.getTime())
+        ),
+        update: jest.fn()
+      },
+      appointment: { findMany: jest.fn(async () => []) },
+      doctorSchedule: {
+        findMany: jest.fn(async () => [{ timeSlot: TimeSlot.MORNING, startTime: '08:00', endTime: '12:00' }])
+      },
+      $transaction: jest.fn(async () => [])
+    };
+
+    const estimates = await new WaitTimeService(prisma).recalculateDoctorQueue('doc1', at('08:30'));
+
+    expect(estimates.map((estimate) => estimate.id)).toEqual(['today']);
+    expect(prisma.doctorSchedule.findMany).toHaveBeenCalledWith({
+      where: { doctorId: 'doc1', dayOfWeek: 1, isActive: true }
+    });
+  });
+});
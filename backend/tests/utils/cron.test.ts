@@ -0,0 +1,55 @@
+import { isValidCron, matchesCron, nextCronTime, parseCron } from '../../src/utils/cron';
+
+const at = (year: number, month: number, date: number, hours = 0, minutes = 0) =>
+  new Date(year, month - 1, date, hours, minutes);
+
+describe('parseCron', () => {
+  it('支持范围、步长、列表和简写', () => {
+    const schedule = parseCron('*/15 8-18/5 1,15 * 1-5');
+
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([8, 13, 18]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect(parseCron('@daily').minutes).toEqual(new Set([0]));
+  });
+
+  it('格式错误或超出取值范围时报错', () => {
+    expect(() => parseCron('0 8 * *')).toThrow('无效的CRON表达式');
+    expect(isValidCron('60 * * * *')).toBe(false);
+    expect(isValidCron('0 8 * * 7')).toBe(true);
+    expect(isValidCron('*/0 * * * *')).toBe(false);
+    expect(isValidCron('5-1 * * * *')).toBe(false);
+  });
+});
+
+describe('matchesCron', () => {
+  it('7和0都表示周日', () => {
+    const schedule = parseCron('0 8 * * 7');
+
+    expect(matchesCron(schedule, at(2025, 6, 15, 8, 0))).toBe(true); // 周日
+    expect(matchesCron(schedule, at(2025, 6, 16, 8, 0))).toBe(false);
+  });
+
+  it('日和周同时指定时满足其一即可', () => {
+    const schedule = parseCron('0 9 1 * 1');
+
+    expect(matchesCron(schedule, at(2025, 6, 1, 9, 0))).toBe(true); // 1日（周日）
+    expect(matchesCron(schedule, at(2025, 6, 2, 9, 0))).toBe(true); // 周一
+    expect(matchesCron(schedule, at(2025, 6, 3, 9, 0))).toBe(false);
+  });
+});
+
+describe('nextCronTime', () => {
+  it('返回严格晚于给定时间的下一次执行时间', () => {
+    const daily = parseCron('30 8 * * *');
+
+    expect(nextCronTime(daily, at(2025, 6, 18, 8, 0))).toEqual(at(2025, 6, 18, 8, 30));
+    expect(nextCronTime(daily, at(2025, 6, 18, 8, 30))).toEqual(at(2025, 6, 19, 8, 30));
+  });
+
+  it('跨月、跨年查找，永远不会执行时返回null', () => {
+    expect(nextCronTime(parseCron('0 0 1 * *'), at(2025, 12, 15))).toEqual(at(2026, 1, 1));
+    expect(nextCronTime(parseCron('0 6 29 2 *'), at(2025, 3, 1))).toEqual(at(2028, 2, 29, 6, 0));
+    expect(nextCronTime(parseCron('0 0 30 2 *'), at(2025, 1, 1))).toBeNull();
+  });
+});
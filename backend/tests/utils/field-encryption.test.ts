@@ -0,0 +1,81 @@
+import { FieldEncryptor } from '../../src/utils/field-encryption';
+import {
+  createPatientEncryptionMiddleware,
+  decryptPatientFields,
+  encryptPatientData,
+  patientBlindIndex
+} from '../../src/utils/patient-encryption';
+
+const v1 = new FieldEncryptor({ currentVersion: 1, keys: { 1: 'key-v1' }, blindIndexKey: 'index-key' });
+const v2 = new FieldEncryptor({ currentVersion: 2, keys: { 1: 'key-v1', 2: 'key-v2' }, blindIndexKey: 'index-key' });
+
+describe('FieldEncryptor', () => {
+  it('加密后可以解密，相同明文每次密文不同', () => {
+    const first = v1.encrypt('13800000000');
+    const second = v1.encrypt('13800000000');
+
+    expect(first).toMatch(/^enc:v1:/);
+    expect(first).not.toBe(second);
+    expect(v1.decrypt(first)).toBe('13800000000');
+    expect(v1.decrypt('未加密的历史数据')).toBe('未加密的历史数据');
+  });
+
+  it('密钥轮换后仍能解密旧版本密文，并标记需要重新加密', () => {
+    const legacy = v1.encrypt('110101199001010011');
+
+    expect(v2.decrypt(legacy)).toBe('110101199001010011');
+    expect(v2.needsReencryption(legacy)).toBe(true);
+    expect(v2.needsReencryption(v2.encrypt('110101199001010011'))).toBe(false);
+    expect(() => v1.decrypt(v2.encrypt('x'))).toThrow('缺少密钥版本 v2');
+  });
+
+  it('盲索引与加密密钥版本无关，并对输入做规范化', () => {
+    expect(patientBlindIndex('11010119900101001x', v1)).toBe(patientBlindIndex('110101 19900101001X', v2));
+    expect(patientBlindIndex('13800000000', v1)).not.toBe(patientBlindIndex('13800000001', v1));
+  });
+});
+
+describe('患者字段加密', () => {
+  it('写入时加密并维护盲索引，清空时同时清空索引', () => {
+    const data = encryptPatientData({ name: '张三', phone: '13800000000', idCard: null }, v1);
+
+    expect(data.name).toBe('张三');
+    expect(v1.decrypt(data.phone as string)).toBe('13800000000');
+    expect((data as any).phoneHash).toBe(patientBlindIndex('13800000000', v1));
+    expect(data.idCard).toBeNull();
+    expect((data as any).idCardHash).toBeNull();
+    expect('emergencyPhone' in data).toBe(false);
+  });
+
+  it('递归解密嵌套结果', () => {
+    const result = decryptPatientFields({
+      id: 'a1',
+      patient: { name: '张三', phone: v1.encrypt('13800000000'), emergencyPhone: '13900000000' }
+    }, v1);
+
+    expect(result.patient.phone).toBe('13800000000');
+    expect(result.patient.emergencyPhone).toBe('13900000000');
+  });
+
+  it('中间件加密Patient写入并解密返回值', async () => {
+    const middleware = createPatientEncryptionMiddleware(v2);
+    const stored: any[] = [];
+    const next = jest.fn(async (params: any) => {
+      stored.push(params.args.data);
+      return { ...params.args.data, id: 'p1' };
+    });
+
+    const result = await middleware({
+      model: 'Patient',
+      action: 'create',
+      args: { data: { name: '张三', idCard: '110101199001010011', emergencyContact: '李四' } },
+      dataPath: [],
+      runInTransaction: false
+    }, next);
+
+    expect(stored[0].idCard).toMatch(/^enc:v2:/);
+    expect(stored[0].emergencyContact).toMatch(/^enc:v2:/);
+    expect(stored[0].idCardHash).toBe(patientBlindIndex('110101199001010011', v2));
+    expect(result).toEqual(expect.objectContaining({ idCard: '110101199001010011', emergencyContact: '李四' }));
+  });
+});
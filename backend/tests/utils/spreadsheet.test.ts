@@ -0,0 +1,146 @@
+import { PassThrough } from 'stream';
+import { inflateRawSync } from 'zlib';
+import { CSV_BOM, createCsvWriter, createXlsxWriter, sheetsToCsv, toCsv, toCsvRow, toXlsx } from '../../src/utils/spreadsheet';
+import { statisticsToSheets, SUMMARY_HEADERS } from '../../src/utils/statistics-tables';
+import { crc32 } from '../../src/utils/zip';
+
+/**
+ * 从ZIP中读取文件（按中央目录定位）
+ */
+function readZipEntries(zip: Buffer): Record<string, string> {
+  const entries: Record<string, string> = {};
+  const endOffset = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = zip.readUInt16LE(endOffset + 10);
+  let offset = zip.readUInt32LE(endOffset + 16);
+
+  for (let i = 0; i < count; i++) {
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.subarray(offset + 46, offset + 46 + nameLength).toString('utf8');
+
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26);
+    const content = inflateRawSync(zip.subarray(dataStart, dataStart + compressedSize));
+    expect(crc32(content)).toBe(zip.readUInt32LE(offset + 16));
+    entries[name] = content.toString('utf8');
+
+    offset += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('CSV', () => {
+  it('带BOM，转义引号、逗号和换行', () => {
+    const csv = toCsv({ name: '患者', headers: ['姓名', '备注'], rows: [['张三', '咳嗽, 发热'], ['李四', '说"无"\n复诊']] });
+
+    expect(csv.startsWith(CSV_BOM)).toBe(true);
+    expect(csv).toBe(`${CSV_BOM}姓名,备注\r\n张三,"咳嗽, 发热"\r\n李四,"说""无""\n复诊"\r\n`);
+  });
+
+  it('公式字符开头的文本前加单引号，数字不受影响', () => {
+    expect(toCsvRow(['=SUM(A1)', '@cmd', -5, null, new Date(2025, 5, 18)])).toBe("'=SUM(A1),'@cmd,-5,,2025-06-18\r\n");
+  });
+
+  it('前有空白、全角或以制表符、回车开头的公式文本同样加单引号，再按需加引号', () => {
+    expect(toCsvRow(['+86 138', '-2+3', ' =1+1', '＝1+1', '\tcmd', '\rcmd', '青霉素过敏'])).toBe(
+      `'+86 138,'-2+3,' =1+1,'＝1+1,'\tcmd,"'\rcmd",青霉素过敏\r\n`
+    );
+    expect(toCsvRow(['=HYPERLINK("http://x","点击")'])).toBe(`"'=HYPERLINK(""http://x"",""点击"")"\r\n`);
+  });
+
+  it('流式导出的表头和数据行同样处理公式字符', async () => {
+    const output = new PassThrough();
+    const chunks: Buffer[] = [];
+    output.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+    const writer = await createCsvWriter(output, ['姓名', '过敏史']);
+    await writer.writeRows([['=cmd|\' /C calc\'!A0', '@SUM(1)']]);
+    await writer.end();
+
+    expect(Buffer.concat(chunks).toString('utf8')).toBe(`${CSV_BOM}姓名,过敏史\r\n'=cmd|' /C calc'!A0,'@SUM(1)\r\n`);
+  });
+
+  it('多张表依次输出，各表前加表名', () => {
+    const csv = sheetsToCsv([
+      { name: '概览', headers: ['指标', '本期'], rows: [['总数', 3]] },
+      { name: '按状态', headers: ['状态'], rows: [] }
+    ]);
+
+    expect(csv).toBe(`${CSV_BOM}概览\r\n指标,本期\r\n总数,3\r\n\r\n按状态\r\n状态\r\n`);
+  });
+});
+
+describe('XLSX', () => {
+  it('生成包含各工作表的标准ZIP包', () => {
+    const xlsx = toXlsx([
+      { name: '概览', headers: ['指标', '本期'], rows: [['总数', 12]] },
+      { name: '概览', headers: ['科室'], rows: [['内科 & 外科']] }
+    ]);
+    const entries = readZipEntries(xlsx);
+
+    expect(Object.keys(entries)).toEqual(
+      expect.arrayContaining(['[Content_Types].xml', 'xl/workbook.xml', 'xl/worksheets/sheet1.xml', 'xl/worksheets/sheet2.xml'])
+    );
+    // 重名工作表自动编号
+    expect(entries['xl/workbook.xml']).toContain('name="概览(2)"');
+    expect(entries['xl/worksheets/sheet1.xml']).toContain('<c r="B2"><v>12</v></c>');
+    expect(entries['xl/worksheets/sheet2.xml']).toContain('内科 &amp; 外科');
+  });
+
+  it('文本单元格按原样写入，不加单引号', () => {
+    const entries = readZipEntries(toXlsx([{ name: '患者', headers: ['地址'], rows: [['=1+1']] }]));
+
+    expect(entries['xl/worksheets/sheet1.xml']).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">=1+1</t></is></c>');
+  });
+
+  it('去除XML不允许的控制字符，保留制表符和换行', () => {
+    const entries = readZipEntries(toXlsx([{ name: '患者', headers: ['备注'], rows: [['咳嗽\u0000\u0007\t发热\n复诊\u001F']] }]));
+
+    expect(entries['xl/worksheets/sheet1.xml']).toContain('<t xml:space="preserve">咳嗽\t发热\n复诊</t>');
+  });
+
+  it('流式写入的工作表可以正常解压', async () => {
+    const output = new PassThrough();
+    const chunks: Buffer[] = [];
+    output.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+    const writer = await createXlsxWriter(output, '患者列表', ['姓名', '年龄']);
+    await writer.writeRows([['张三', 30]]);
+    await writer.writeRows([['李四', 41]]);
+    await writer.end();
+    const entries = readZipEntries(Buffer.concat(chunks));
+
+    expect(entries['xl/workbook.xml']).toContain('name="患者列表"');
+    expect(entries['xl/worksheets/sheet1.xml']).toContain('<c r="B3"><v>41</v></c>');
+    expect(entries['xl/worksheets/sheet1.xml']).toMatch(/<\/worksheet>$/);
+  });
+});
+
+describe('statisticsToSheets', () => {
+  it('数值指标和环比汇总为概览，对象数组各自成表', () => {
+    const sheets = statisticsToSheets(
+      {
+        period: {
+          startDate: '2025-06-01T00:00:00.000Z',
+          endDate: new Date(2025, 5, 18, 23, 59, 59),
+          previousStartDate: new Date(2025, 4, 1),
+          previousEndDate: new Date(2025, 4, 18, 23, 59, 59)
+        },
+        totalCount: 30,
+        todayCount: 2,
+        comparison: { totalCount: { current: 30, previous: 20, change: 10, changeRate: 50 } },
+        byStatus: [{ status: 'COMPLETED', count: 18 }]
+      },
+      '挂号统计'
+    );
+
+    expect(sheets.map((sheet) => sheet.name)).toEqual(['挂号统计-概览', '挂号统计-按状态']);
+    expect(sheets[0].headers).toEqual(SUMMARY_HEADERS);
+    expect(sheets[0].rows).toEqual([
+      ['统计区间', expect.stringMatching(/^2025-06-0[12] ~ 2025-06-18$/), '2025-05-01 ~ 2025-05-18', null, null],
+      ['今日数量', 2, null, null, null],
+      ['总数', 30, 20, 10, 50]
+    ]);
+    expect(sheets[1]).toEqual({ name: '挂号统计-按状态', headers: ['状态', '数量'], rows: [['COMPLETED', 18]] });
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  aggregateByBucket,
+  buildTrendBuckets,
+  comparePeriods,
+  formatDate,
+  fromDbDate,
+  getPreviousPeriod,
+  resolveTimeRange,
+  StatisticsTimeRange,
+  toDbDate
+} from '../../src/utils/time-range';
+
+const day = (value: string) => {
+  const [year, month, date] = value.split('-').map(Number);
+  return new Date(year, month - 1, date);
+};
+const formatRange = (range: { startDate: Date; endDate: Date }) => [formatDate(range.startDate), formatDate(range.endDate)];
+
+describe('resolveTimeRange', () => {
+  const now = new Date(2025, 5, 18, 15, 30); // 2025-06-18 周三
+
+  it('内置范围截至今天结束，近7天包含今天', () => {
+    expect(formatRange(resolveTimeRange(StatisticsTimeRange.TODAY, undefined, now))).toEqual(['2025-06-18', '2025-06-18']);
+    expect(formatRange(resolveTimeRange(StatisticsTimeRange.WEEK, undefined, now))).toEqual(['2025-06-12', '2025-06-18']);
+    expect(formatRange(resolveTimeRange(StatisticsTimeRange.QUARTER, undefined, now))).toEqual(['2025-04-01', '2025-06-18']);
+    expect(resolveTimeRange(StatisticsTimeRange.MONTH, undefined, now).endDate).toEqual(new Date(2025, 5, 18, 23, 59, 59, 999));
+  });
+
+  it('自定义范围按整天处理，开始晚于结束时报错', () => {
+    const range = resolveTimeRange(StatisticsTimeRange.CUSTOM, { startDate: day('2025-05-01'), endDate: day('2025-05-31') });
+    expect(range.endDate).toEqual(new Date(2025, 4, 31, 23, 59, 59, 999));
+
+    expect(() => resolveTimeRange(StatisticsTimeRange.CUSTOM)).toThrow('自定义时间范围需要提供开始和结束日期');
+    expect(() =>
+      resolveTimeRange(StatisticsTimeRange.CUSTOM, { startDate: day('2025-06-02'), endDate: day('2025-06-01') })
+    ).toThrow('开始日期不能晚于结束日期');
+  });
+});
+
+describe('getPreviousPeriod', () => {
+  it('本月至今对比上月同期，上月天数不足时截至月末', () => {
+    const june = resolveTimeRange(StatisticsTimeRange.MONTH, undefined, new Date(2025, 5, 18));
+    expect(formatRange(getPreviousPeriod(StatisticsTimeRange.MONTH, june))).toEqual(['2025-05-01', '2025-05-18']);
+
+    const march = resolveTimeRange(StatisticsTimeRange.MONTH, undefined, new Date(2025, 2, 31));
+    expect(formatRange(getPreviousPeriod(StatisticsTimeRange.MONTH, march))).toEqual(['2025-02-01', '2025-02-28']);
+
+    const year = resolveTimeRange(StatisticsTimeRange.YEAR, undefined, new Date(2025, 5, 18));
+    expect(formatRange(getPreviousPeriod(StatisticsTimeRange.YEAR, year))).toEqual(['2024-01-01', '2024-06-18']);
+  });
+
+  it('近7天和自定义范围对比紧邻的等长区间', () => {
+    const week = resolveTimeRange(StatisticsTimeRange.WEEK, undefined, new Date(2025, 5, 18));
+    expect(formatRange(getPreviousPeriod(StatisticsTimeRange.WEEK, week))).toEqual(['2025-06-05', '2025-06-11']);
+
+    const custom = resolveTimeRange(StatisticsTimeRange.CUSTOM, { startDate: day('2025-03-01'), endDate: day('2025-03-10') });
+    expect(formatRange(getPreviousPeriod(StatisticsTimeRange.CUSTOM, custom))).toEqual(['2025-02-19', '2025-02-28']);
+  });
+});
+
+describe('趋势区间', () => {
+  const range = { startDate: day('2025-06-01'), endDate: new Date(2025, 5, 18, 23, 59, 59, 999) };
+
+  it('按周从周一开始，首尾截取到统计范围内', () => {
+    const buckets = buildTrendBuckets(range, 'week');
+
+    // 2025-06-01为周日
+    expect(buckets.map((b) => b.label)).toEqual(['2025-06-01', '2025-06-02', '2025-06-09', '2025-06-16']);
+    expect(buckets[3].endDate).toEqual(range.endDate);
+  });
+
+  it('按月汇总跨月数据，区间外数据忽略', () => {
+    const buckets = buildTrendBuckets({ startDate: day('2025-01-15'), endDate: day('2025-03-10') }, 'month');
+    const items = [day('2025-01-20'), day('2025-02-01'), day('2025-02-28'), day('2025-03-11')];
+
+    expect(buckets.map((b) => b.label)).toEqual(['2025-01', '2025-02', '2025-03']);
+    expect(aggregateByBucket(buckets, items, (d) => d)).toEqual([1, 2, 0]);
+  });
+
+  it('数据点过多时要求更粗的粒度', () => {
+    expect(() => buildTrendBuckets({ startDate: day('2020-01-01'), endDate: day('2025-01-01') }, 'day'))
+      .toThrow('趋势数据点过多');
+  });
+});
+
+describe('辅助函数', () => {
+  it('@db.Date字段与本地日期互相转换', () => {
+    const local = day('2025-06-18');
+    expect(toDbDate(local).toISOString()).toBe('2025-06-18T00:00:00.000Z');
+    expect(fromDbDate(toDbDate(local))).toEqual(local);
+  });
+
+  it('对照期为0时不计算变化率', () => {
+    expect(comparePeriods(30, 20)).toEqual({ current: 30, previous: 20, change: 10, changeRate: 50 });
+    expect(comparePeriods(5, 0).changeRate).toBeNull();
+  });
+});
@@ -11,6 +11,7 @@ import { DoctorQueuePage } from './pages/DoctorQueuePage'
 import { QueueDisplayPage } from './pages/QueueDisplayPage'
 import { PatientQueueStatusPage } from './pages/PatientQueueStatusPage'
 import { MedicineListPage } from './pages/MedicineListPage'
+import { InventoryPage } from './pages/InventoryPage'
 import { PrescriptionListPage } from './pages/PrescriptionListPage'
 import { PrescriptionFormPage } from './pages/PrescriptionFormPage'
 import { PrescriptionDetailPage } from './pages/PrescriptionDetailPage'
@@ -23,6 +24,10 @@ import { DashboardPage } from './pages/DashboardPage'
 import { AnnouncementListPage } from './pages/AnnouncementListPage'
 import { AnnouncementDetailPage } from './pages/AnnouncementDetailPage'
 import { AnnouncementFormPage } from './pages/AnnouncementFormPage'
+import { AuditLogPage } from './pages/AuditLogPage'
+import { AIPromptManagementPage } from './pages/AIPromptManagementPage'
+import { AIUsagePage } from './pages/AIUsagePage'
+import { DoctorSchedulePage } from './pages/DoctorSchedulePage'
 import { LandingPage } from './pages/LandingPage'
 import { ProtectedRoute } from './components/auth/ProtectedRoute'
 import { useAuthStore } from './store/auth.store'
@@ -82,6 +87,14 @@ function App() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/schedules"
+        element={
+          <ProtectedRoute requiredPermissions={['schedule:view']}>
+            <DoctorSchedulePage />
+          </ProtectedRoute>
+        }
+      />
 
       {/* 受保护路由 - 医生叫号控制台 */}
       <Route
@@ -112,6 +125,14 @@ function App() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/inventory"
+        element={
+          <ProtectedRoute>
+            <InventoryPage />
+          </ProtectedRoute>
+        }
+      />
 
       {/* 受保护路由 - 处方管理 */}
       <Route
@@ -233,6 +254,36 @@ function App() {
         }
       />
 
+      {/* 受保护路由 - 审计日志（仅管理员） */}
+      <Route
+        path="/audit-logs"
+        element={
+          <ProtectedRoute requiredPermissions={['audit:view']}>
+            <AuditLogPage />
+          </ProtectedRoute>
+        }
+      />
+
+      {/* 受保护路由 - AI提示词管理（仅管理员） */}
+      <Route
+        path="/ai-prompts"
+        element={
+          <ProtectedRoute requiredPermissions={['system:manage']}>
+            <AIPromptManagementPage />
+          </ProtectedRoute>
+        }
+      />
+
+      {/* 受保护路由 - AI用量与配额（仅管理员） */}
+      <Route
+        path="/ai-usage"
+        element={
+          <ProtectedRoute requiredPermissions={['system:manage']}>
+            <AIUsagePage />
+          </ProtectedRoute>
+        }
+      />
+
       {/* 占位路由 - 病历管理（兼容旧路径） */}
       <Route
         path="/records"
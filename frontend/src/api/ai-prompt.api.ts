@@ -0,0 +1,139 @@
+/**
+ * AI提示词管理API服务（仅管理员）
+ */
+import { get, post, del } from '@/api/client'
+
+/**
+ * 提示词变量
+ */
+export interface PromptVariable {
+  name: string
+  label: string
+  sample: string
+}
+
+/**
+ * 提示词内容
+ */
+export interface PromptContent {
+  system: string
+  user: string
+}
+
+/**
+ * 提示词概览
+ */
+export interface PromptSummary {
+  key: string
+  name: string
+  description: string
+  variables: PromptVariable[]
+  activeVersion: number // 0表示使用内置默认提示词
+  departmentOverrides: Array<{
+    departmentId: string
+    department: { id: string; name: string }
+    version: number
+  }>
+}
+
+/**
+ * 提示词版本
+ */
+export interface PromptVersion extends PromptContent {
+  id: string
+  key: string
+  departmentId: string | null
+  version: number
+  note: string | null
+  isActive: boolean
+  createdBy: string | null
+  createdAt: string
+}
+
+export interface PromptVersionList {
+  default: PromptContent & { name: string; description: string; variables: PromptVariable[] }
+  versions: PromptVersion[]
+}
+
+export interface CreatePromptVersionData extends PromptContent {
+  departmentId?: string
+  note?: string
+  activate?: boolean
+}
+
+export interface PromptPreview extends PromptContent {
+  variables: Record<string, string | number | null>
+}
+
+/**
+ * 获取全部提示词
+ */
+export async function getPrompts(): Promise<PromptSummary[]> {
+  const response = await get<PromptSummary[]>('/ai-prompts')
+  return response.data
+}
+
+/**
+ * 获取提示词历史版本（不指定科室时为全院版本）
+ */
+export async function getPromptVersions(key: string, departmentId?: string): Promise<PromptVersionList> {
+  const response = await get<PromptVersionList>(`/ai-prompts/${key}/versions`, {
+    params: { departmentId },
+  })
+  return response.data
+}
+
+/**
+ * 保存提示词新版本
+ */
+export async function createPromptVersion(key: string, data: CreatePromptVersionData): Promise<PromptVersion> {
+  const response = await post<PromptVersion>(`/ai-prompts/${key}/versions`, data)
+  return response.data
+}
+
+/**
+ * 预览提示词（使用示例变量）
+ */
+export async function previewPrompt(
+  key: string,
+  content?: PromptContent,
+  departmentId?: string
+): Promise<PromptPreview> {
+  const response = await post<PromptPreview>(`/ai-prompts/${key}/preview`, { ...content, departmentId })
+  return response.data
+}
+
+/**
+ * 激活历史版本（回滚）
+ */
+export async function activatePromptVersion(id: string): Promise<PromptVersion> {
+  const response = await post<PromptVersion>(`/ai-prompts/versions/${id}/activate`)
+  return response.data
+}
+
+/**
+ * 恢复默认提示词（科室恢复后使用全院版本）
+ */
+export async function resetPrompt(key: string, departmentId?: string): Promise<void> {
+  await del(`/ai-prompts/${key}/active`, { params: { departmentId } })
+}
+
+/**
+ * AI服务商结构化输出违规统计
+ */
+export interface SchemaViolationStat {
+  provider: string
+  total: number
+  violations: number
+  violationRate: number // 0-1
+}
+
+/**
+ * 获取最近若干天各AI服务商的结构化输出违规率
+ */
+export async function getSchemaViolationStats(days = 7): Promise<SchemaViolationStat[]> {
+  const response = await get<SchemaViolationStat[]>('/ai-assistant/metrics/schema-violations', {
+    params: { days },
+  })
+  return response.data
+}
@@ -0,0 +1,126 @@
+/**
+ * AI用量与配额API服务
+ */
+import { get, put, del } from '@/api/client'
+
+export type AIQuotaScope = 'USER' | 'DEPARTMENT'
+export type AIQuotaPeriod = 'DAILY' | 'MONTHLY'
+export type AIUsageGroupBy = 'department' | 'user' | 'provider' | 'model' | 'feature'
+
+export const quotaScopeLabels: Record<AIQuotaScope, string> = {
+  USER: '个人',
+  DEPARTMENT: '科室',
+}
+
+export const quotaPeriodLabels: Record<AIQuotaPeriod, string> = {
+  DAILY: '每日',
+  MONTHLY: '每月',
+}
+
+/**
+ * 单项配额的使用情况
+ */
+export interface AIQuotaCheck {
+  quotaId: string
+  scope: AIQuotaScope
+  period: AIQuotaPeriod
+  targetId: string
+  used: number
+  softLimit: number | null
+  hardLimit: number | null
+}
+
+export interface AIQuotaStatus {
+  allowed: boolean
+  exceeded?: AIQuotaCheck
+  warnings: AIQuotaCheck[]
+  checks: AIQuotaCheck[]
+}
+
+export interface AIUsageTotals {
+  requests: number
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  cost: number // 元
+}
+
+export interface AIUsageGroup extends AIUsageTotals {
+  key: string | null
+  label: string
+}
+
+export interface AIUsageSummary {
+  startDate: string
+  endDate: string
+  groupBy: AIUsageGroupBy
+  totals: AIUsageTotals
+  groups: AIUsageGroup[]
+}
+
+export interface AIUsageSummaryParams {
+  startDate?: string // YYYY-MM-DD，默认本月1日
+  endDate?: string // YYYY-MM-DD，默认今天
+  groupBy?: AIUsageGroupBy
+}
+
+/**
+ * 配额配置，targetId为空表示该范围的默认配额
+ */
+export interface AIQuota {
+  id: string
+  scope: AIQuotaScope
+  targetId: string | null
+  targetName: string | null
+  period: AIQuotaPeriod
+  softLimit: number | null
+  hardLimit: number | null
+  updatedAt: string
+}
+
+export interface SetAIQuotaData {
+  scope: AIQuotaScope
+  targetId?: string | null
+  period: AIQuotaPeriod
+  softLimit?: number | null
+  hardLimit?: number | null
+}
+
+/**
+ * 获取当前用户的配额使用情况
+ */
+export async function getMyAIUsage(): Promise<AIQuotaStatus> {
+  const response = await get<AIQuotaStatus>('/ai-usage/me')
+  return response.data
+}
+
+/**
+ * 获取用量汇总（仅管理员）
+ */
+export async function getAIUsageSummary(params: AIUsageSummaryParams): Promise<AIUsageSummary> {
+  const response = await get<AIUsageSummary>('/ai-usage/summary', { params })
+  return response.data
+}
+
+/**
+ * 获取配额配置（仅管理员）
+ */
+export async function getAIQuotas(): Promise<AIQuota[]> {
+  const response = await get<AIQuota[]>('/ai-usage/quotas')
+  return response.data
+}
+
+/**
+ * 设置配额，同一对象和周期已有配额时覆盖（仅管理员）
+ */
+export async function setAIQuota(data: SetAIQuotaData): Promise<AIQuota> {
+  const response = await put<AIQuota>('/ai-usage/quotas', data)
+  return response.data
+}
+
+/**
+ * 删除配额（仅管理员）
+ */
+export async function deleteAIQuota(id: string): Promise<void> {
+  await del(`/ai-usage/quotas/${id}`)
+}
@@ -1,7 +1,8 @@
 /**
  * AI助手相关API服务
  */
-import { post } from '@/api/client'
+import apiClient, { get, post, del } from '@/api/client'
+import type { ApiResponse } from '@/api/client'
 import type { DiagnosisSuggestion } from '@/@types'
 
 /**
@@ -33,6 +34,111 @@ export async function sendAIChat(data: AIChatRequest): Promise<AIChatResponse> {
   return response.data
 }
 
+/**
+ * AI问诊会话（对话记录保存在服务端，可恢复继续问诊）
+ */
+export interface AIChatSession {
+  id: string
+  userId: string
+  patientId?: string | null
+  appointmentId?: string | null
+  title: string
+  summary?: string | null
+  turnCount: number
+  lastMessageAt?: string | null
+  createdAt: string
+  updatedAt: string
+  patient?: { id: string; name: string; patientNo: string } | null
+}
+
+/**
+ * 会话中的一条消息
+ */
+export interface AIChatSessionMessage {
+  role: 'user' | 'assistant'
+  content: string
+  createdAt: string
+}
+
+export interface AIChatSessionDetail extends AIChatSession {
+  messages: AIChatSessionMessage[]
+}
+
+export interface CreateAIChatSessionRequest {
+  patientId?: string
+  appointmentId?: string
+  title?: string
+}
+
+export interface AIChatSessionSearchParams {
+  patientId?: string
+  page?: number
+  limit?: number
+}
+
+/**
+ * 会话列表响应
+ */
+export interface AIChatSessionListResponse {
+  sessions: AIChatSession[]
+  total: number
+  page: number
+  pageSize: number
+  totalPages: number
+}
+
+/**
+ * 会话发送消息响应
+ */
+export interface AIChatSessionReply {
+  message: { role: 'assistant'; content: string }
+  session: AIChatSession
+}
+
+/**
+ * 创建AI问诊会话
+ */
+export async function createAIChatSession(data: CreateAIChatSessionRequest): Promise<AIChatSession> {
+  const response = await post<AIChatSession>('/ai/sessions', data)
+  return response.data
+}
+
+/**
+ * 获取AI问诊会话列表
+ */
+export async function getAIChatSessions(params?: AIChatSessionSearchParams): Promise<AIChatSessionListResponse> {
+  const response = await apiClient.get<
+    ApiResponse<AIChatSession[]> & {
+      pagination: { total: number; page: number; pageSize: number; totalPages: number }
+    }
+  >('/ai/sessions', { params })
+  const { data, pagination } = response.data
+  return { sessions: data, ...pagination }
+}
+
+/**
+ * 获取AI问诊会话详情和对话记录
+ */
+export async function getAIChatSession(id: string): Promise<AIChatSessionDetail> {
+  const response = await get<AIChatSessionDetail>(`/ai/sessions/${id}`)
+  return response.data
+}
+
+/**
+ * 在会话中发送消息
+ */
+export async function sendAIChatSessionMessage(id: string, content: string): Promise<AIChatSessionReply> {
+  const response = await post<AIChatSessionReply>(`/ai/sessions/${id}/messages`, { content })
+  return response.data
+}
+
+/**
+ * 删除AI问诊会话
+ */
+export async function deleteAIChatSession(id: string): Promise<void> {
+  await del(`/ai/sessions/${id}`)
+}
+
 /**
  * AI问诊分析
  */
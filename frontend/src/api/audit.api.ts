@@ -0,0 +1,83 @@
+/**
+ * 审计日志API服务
+ */
+import { get } from '@/api/client'
+import type { PaginatedResponse } from '@/@types'
+
+export type AuditResource = 'patient' | 'medicalRecord' | 'prescription' | 'user'
+
+export type AuditStatus = 'SUCCESS' | 'FAILURE'
+
+export const auditResourceLabels: Record<AuditResource, string> = {
+  patient: '患者',
+  medicalRecord: '病历',
+  prescription: '处方',
+  user: '用户',
+}
+
+/**
+ * 字段级变更
+ */
+export interface AuditFieldChange {
+  field: string
+  before: unknown
+  after: unknown
+}
+
+/**
+ * 审计日志
+ */
+export interface AuditLog {
+  id: string
+  userId: string
+  action: string
+  resource: AuditResource
+  resourceId?: string
+  method: string
+  ip: string
+  userAgent?: string
+  status: AuditStatus
+  errorMsg?: string
+  metadata?: {
+    statusCode?: number
+    durationMs?: number
+    query?: Record<string, unknown>
+    changes?: AuditFieldChange[]
+    deleted?: boolean
+  }
+  createdAt: string
+  user: {
+    id: string
+    username: string
+    role: string
+  }
+}
+
+export interface AuditLogQueryParams {
+  username?: string
+  resource?: AuditResource
+  resourceId?: string
+  status?: AuditStatus
+  startDate?: string
+  endDate?: string
+  page?: number
+  pageSize?: number
+}
+
+/**
+ * 查询审计日志
+ */
+export async function getAuditLogs(params?: AuditLogQueryParams): Promise<PaginatedResponse<AuditLog>> {
+  // 结束日期包含当天全部记录
+  const query = params?.endDate ? { ...params, endDate: `${params.endDate}T23:59:59` } : params
+  const response = await get<AuditLog[]>('/audit-logs', { params: query })
+  const pagination = (response as any).pagination
+
+  return {
+    data: response.data,
+    total: pagination.total,
+    page: pagination.page,
+    pageSize: pagination.pageSize,
+    totalPages: pagination.totalPages
+  }
+}
@@ -2,6 +2,7 @@
  * API客户端配置
  */
 import axios, { AxiosError, AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios'
+import { toast } from 'sonner'
 import { API_BASE_URL, STORAGE_KEYS } from '@/utils/constants'
 
 /**
@@ -31,11 +32,34 @@ apiClient.interceptors.request.use(
   }
 )
 
+/**
+ * AI配额提醒：超出软限制时后端通过响应头返回 scope:period:used/limit，每项只提醒一次（刷新页面后重置）
+ */
+const notifiedQuotaWarnings = new Set<string>()
+
+function notifyQuotaWarning(header: string) {
+  for (const item of header.split(',')) {
+    const [scope, period, usage] = item.split(':')
+    const key = `${scope}:${period}`
+    if (!usage || notifiedQuotaWarnings.has(key)) continue
+
+    notifiedQuotaWarnings.add(key)
+    const [used, limit] = usage.split('/')
+    toast.warning(
+      `${scope === 'department' ? '科室' : '个人'}${period === 'daily' ? '今日' : '本月'}AI用量已超过提醒额度（${used} / ${limit} tokens）`
+    )
+  }
+}
+
 /**
  * 响应拦截器 - 统一错误处理
  */
 apiClient.interceptors.response.use(
   (response: AxiosResponse) => {
+    const quotaWarning = response.headers['x-ai-quota-warning']
+    if (typeof quotaWarning === 'string') {
+      notifyQuotaWarning(quotaWarning)
+    }
     return response
   },
   async (error: AxiosError) => {
@@ -5,6 +5,7 @@ import { get } from '@/api/client'
 
 export interface Doctor {
   id: string
+  userId: string
   doctorNo: string
   name: string
   departmentId: string
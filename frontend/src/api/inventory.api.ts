@@ -0,0 +1,190 @@
+/**
+ * 药房库存API服务
+ */
+import { get, post } from '@/api/client'
+import type { PaginatedResponse } from '@/@types'
+
+/**
+ * 库存流水类型
+ */
+export enum InventoryTransactionType {
+  OPENING = 'OPENING',
+  RECEIPT = 'RECEIPT',
+  DISPENSE = 'DISPENSE',
+  DISPENSE_RETURN = 'DISPENSE_RETURN',
+  SUPPLIER_RETURN = 'SUPPLIER_RETURN',
+  ADJUSTMENT = 'ADJUSTMENT',
+  TRANSFER_OUT = 'TRANSFER_OUT',
+  TRANSFER_IN = 'TRANSFER_IN',
+  STOCKTAKE = 'STOCKTAKE',
+}
+
+export const transactionTypeLabels: Record<InventoryTransactionType, string> = {
+  [InventoryTransactionType.OPENING]: '期初结存',
+  [InventoryTransactionType.RECEIPT]: '采购入库',
+  [InventoryTransactionType.DISPENSE]: '处方发药',
+  [InventoryTransactionType.DISPENSE_RETURN]: '取消退药',
+  [InventoryTransactionType.SUPPLIER_RETURN]: '供应商退货',
+  [InventoryTransactionType.ADJUSTMENT]: '库存调整',
+  [InventoryTransactionType.TRANSFER_OUT]: '调拨出库',
+  [InventoryTransactionType.TRANSFER_IN]: '调拨入库',
+  [InventoryTransactionType.STOCKTAKE]: '盘点差异',
+}
+
+/**
+ * 库存批次
+ */
+export interface StockBatch {
+  id: string
+  medicineId: string
+  batchNo: string
+  quantity: number
+  minStock: number
+  maxStock: number
+  expiryDate: string
+  location: string
+  medicine: {
+    id: string
+    medicineNo: string
+    name: string
+    specification: string
+    unit: string
+  }
+}
+
+/**
+ * 库存流水
+ */
+export interface InventoryTransaction {
+  id: string
+  type: InventoryTransactionType
+  medicineId: string
+  stockId: string
+  batchNo: string
+  location?: string
+  quantity: number
+  balanceAfter: number
+  reason?: string
+  referenceType?: string
+  referenceId?: string
+  operatorId?: string
+  createdAt: string
+  medicine: {
+    id: string
+    name: string
+    unit: string
+  }
+}
+
+export interface StockQueryParams {
+  medicineId?: string
+  location?: string
+  keyword?: string
+  includeEmpty?: boolean
+}
+
+export interface LedgerQueryParams {
+  medicineId?: string
+  stockId?: string
+  type?: InventoryTransactionType
+  startDate?: string
+  endDate?: string
+  page?: number
+  pageSize?: number
+}
+
+export interface ReceiveStockRequest {
+  medicineId: string
+  batchNo: string
+  expiryDate: string
+  quantity: number
+  location?: string
+  minStock?: number
+  maxStock?: number
+  reason?: string
+}
+
+export interface StocktakeResult {
+  stocktakeId: string
+  items: {
+    stockId: string
+    batchNo: string
+    medicineName: string
+    systemQuantity: number
+    countedQuantity: number
+    difference: number
+  }[]
+  adjustedCount: number
+}
+
+/**
+ * 获取库存批次
+ */
+export async function getStockBatches(params?: StockQueryParams): Promise<StockBatch[]> {
+  const response = await get<StockBatch[]>('/inventory/stocks', { params })
+  return response.data
+}
+
+/**
+ * 获取库存流水
+ */
+export async function getInventoryTransactions(params?: LedgerQueryParams): Promise<PaginatedResponse<InventoryTransaction>> {
+  const response = await get<InventoryTransaction[]>('/inventory/transactions', { params })
+  const pagination = (response as any).pagination
+
+  return {
+    data: response.data,
+    total: pagination.total,
+    page: pagination.page,
+    pageSize: pagination.pageSize,
+    totalPages: pagination.totalPages
+  }
+}
+
+/**
+ * 采购入库
+ */
+export async function receiveStock(data: ReceiveStockRequest): Promise<StockBatch> {
+  const response = await post<StockBatch>('/inventory/receipts', data)
+  return response.data
+}
+
+/**
+ * 库存调整
+ */
+export async function adjustStock(data: { stockId: string; quantity: number; reason: string }): Promise<InventoryTransaction> {
+  const response = await post<InventoryTransaction>('/inventory/adjustments', data)
+  return response.data
+}
+
+/**
+ * 库位调拨
+ */
+export async function transferStock(data: {
+  stockId: string
+  toLocation: string
+  quantity: number
+  reason?: string
+}): Promise<{ transferId: string; from: InventoryTransaction; to: InventoryTransaction }> {
+  const response = await post('/inventory/transfers', data)
+  return response.data
+}
+
+/**
+ * 退货给供应商
+ */
+export async function returnToSupplier(data: { stockId: string; quantity: number; reason: string }): Promise<InventoryTransaction> {
+  const response = await post<InventoryTransaction>('/inventory/returns', data)
+  return response.data
+}
+
+/**
+ * 提交盘点结果
+ */
+export async function submitStocktake(data: {
+  items: { stockId: string; countedQuantity: number }[]
+  reason?: string
+}): Promise<StocktakeResult> {
+  const response = await post<StocktakeResult>('/inventory/stocktakes', data)
+  return response.data
+}
@@ -279,7 +279,8 @@ export async function searchMedicalRecordsWithAI(query: string, filters?: {
   endDate?: string
 }): Promise<{
   records: MedicalRecord[]
-  relevanceScores: { recordId: string; score: number }[]
+  relevanceScores: { recordId: string; score: number; matchedContent?: string }[]
+  keywords: string[]
   explanation: string
 }> {
   const response = await post('/medical-records/ai-search', { query, filters })
@@ -301,10 +302,39 @@ export async function searchMedicalRecordsWithAI(query: string, filters?: {
   return {
     records,
     relevanceScores: backendData.relevanceScores || [],
+    keywords: backendData.keywords || [],
     explanation: backendData.explanation || ''
   }
 }
 
+/**
+ * 查找临床表现相似的病历
+ */
+export async function getSimilarMedicalRecords(id: string, limit = 5): Promise<{
+  records: (MedicalRecord & { similarity: number })[]
+  total: number
+}> {
+  const response = await get<any>(`/medical-records/${id}/similar`, {
+    params: { limit }
+  })
+
+  const backendData = response.data
+  const records = (backendData.records || []).map((record: any) => ({
+    ...record,
+    recordNumber: record.recordNo,
+    patientName: record.patient?.name,
+    doctorName: record.doctor?.name,
+    department: record.doctor?.department?.name,
+    visitDate: record.createdAt,
+    status: record.isFinal ? MedicalRecordStatus.ARCHIVED : MedicalRecordStatus.DRAFT,
+  }))
+
+  return {
+    records,
+    total: backendData.total || records.length
+  }
+}
+
 /**
  * AI病历智能摘要
  */
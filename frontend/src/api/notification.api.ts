@@ -0,0 +1,100 @@
+/**
+ * 站内通知API服务
+ */
+import apiClient, { get, post, patch, del } from '@/api/client'
+import type { ApiResponse } from '@/api/client'
+
+/**
+ * 通知类型枚举
+ */
+export enum NotificationType {
+  APPOINTMENT_REMINDER = 'APPOINTMENT_REMINDER', // 预约提醒
+  QUEUE_CALL = 'QUEUE_CALL',                     // 叫号
+  PRESCRIPTION_READY = 'PRESCRIPTION_READY',     // 处方就绪
+  SYSTEM_ALERT = 'SYSTEM_ALERT',                 // 系统提醒
+  ANNOUNCEMENT = 'ANNOUNCEMENT',                 // 公告
+  MESSAGE = 'MESSAGE',                           // 消息
+}
+
+/**
+ * 通知信息接口
+ */
+export interface Notification {
+  id: string
+  userId: string
+  type: NotificationType
+  title: string
+  content: string
+  data?: Record<string, unknown> | null
+  isRead: boolean
+  readAt?: string | null
+  createdAt: string
+}
+
+/**
+ * 通知查询参数
+ */
+export interface NotificationSearchParams {
+  isRead?: boolean
+  type?: NotificationType
+  page?: number
+  pageSize?: number
+}
+
+/**
+ * 通知列表响应
+ */
+export interface NotificationListResponse {
+  notifications: Notification[]
+  unreadCount: number
+  total: number
+  page: number
+  pageSize: number
+  totalPages: number
+}
+
+/**
+ * 获取通知列表（含未读数）
+ */
+export async function getNotifications(params?: NotificationSearchParams): Promise<NotificationListResponse> {
+  const response = await apiClient.get<
+    ApiResponse<Notification[]> & {
+      unreadCount: number
+      pagination: { total: number; page: number; pageSize: number; totalPages: number }
+    }
+  >('/notifications', { params })
+  const { data, unreadCount, pagination } = response.data
+  return { notifications: data, unreadCount, ...pagination }
+}
+
+/**
+ * 获取未读通知数
+ */
+export async function getUnreadNotificationCount(): Promise<number> {
+  const response = await get<{ count: number }>('/notifications/unread-count')
+  return response.data.count
+}
+
+/**
+ * 标记通知已读
+ */
+export async function markNotificationAsRead(id: string): Promise<Notification> {
+  const response = await patch<Notification>(`/notifications/${id}/read`)
+  return response.data
+}
+
+/**
+ * 全部标记已读
+ */
+export async function markAllNotificationsAsRead(): Promise<number> {
+  const response = await post<{ count: number }>('/notifications/read-all')
+  return response.data.count
+}
+
+/**
+ * 删除通知
+ */
+export async function deleteNotification(id: string): Promise<ApiResponse> {
+  const response = await del(`/notifications/${id}`)
+  return response
+}
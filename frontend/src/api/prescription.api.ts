@@ -59,15 +59,32 @@ export enum PrescriptionStatus {
 }
 
 /**
- * AI审查结果
+ * AI审查结果（服务端按结构校验，模型输出始终不符合时fallback为true，summary为模型原文）
  */
 export interface AIReviewResult {
-  overallRisk: 'LOW' | 'MEDIUM' | 'HIGH'
-  warnings: string[]
-  suggestions: string[]
-  interactions: DrugInteraction[]
-  contraindications: string[]
-  dosageIssues: string[]
+  overallApproval: 'approve' | 'reject' | 'conditional'
+  riskLevel: 'low' | 'medium' | 'high'
+  appropriateness: {
+    score: number
+    assessment: string
+  }
+  issues: AIReviewIssue[]
+  strengths: string[]
+  improvements: string[]
+  summary: string
+  confidence: number // 0-1
+  fallback: boolean
+  attempts: number
+}
+
+/**
+ * AI审查发现的问题
+ */
+export interface AIReviewIssue {
+  severity: 'critical' | 'warning' | 'info'
+  category: string
+  description: string
+  recommendation: string
 }
 
 /**
@@ -18,6 +18,7 @@ export interface QueueItem {
   doctorName?: string
   status: QueueStatus
   priority: QueuePriority
+  callCount: number // 叫号次数
   queuePosition?: number
   estimatedWaitTime?: number
   calledAt?: string
@@ -36,6 +37,7 @@ export enum QueueStatus {
   IN_PROGRESS = 'IN_PROGRESS',
   COMPLETED = 'COMPLETED',
   SKIPPED = 'SKIPPED',
+  NO_SHOW = 'NO_SHOW',
 }
 
 /**
@@ -147,12 +149,48 @@ export async function getDepartmentQueue(department: string): Promise<QueueItem[
 
 /**
  * 获取医生排队列表
+ * @param includeSkipped 是否包含已过号的患者
  */
-export async function getDoctorQueue(doctorId: string): Promise<QueueItem[]> {
-  const response = await get<any[]>(`/queue/doctor/${doctorId}`)
+export async function getDoctorQueue(doctorId: string, includeSkipped = false): Promise<QueueItem[]> {
+  const response = await get<any[]>(`/queue/doctor/${doctorId}`, {
+    params: includeSkipped ? { includeSkipped: true } : undefined,
+  })
   return response.data?.map(transformQueueItem) ?? []
 }
 
+/**
+ * 重呼
+ */
+export async function callAgain(id: string): Promise<QueueItem> {
+  const response = await post<any>(`/queue/${id}/call`)
+  return transformQueueItem(response.data)
+}
+
+/**
+ * 过号（叫号次数达到上限时后端记为爽约）
+ */
+export async function skipQueue(id: string): Promise<QueueItem> {
+  const response = await post<any>(`/queue/${id}/skip`)
+  return transformQueueItem(response.data)
+}
+
+/**
+ * 过号回队
+ * @param position 排在候诊队列第几位，不传时使用系统默认
+ */
+export async function recallQueue(id: string, position?: number): Promise<QueueItem> {
+  const response = await post<any>(`/queue/${id}/recall`, position ? { position } : {})
+  return transformQueueItem(response.data)
+}
+
+/**
+ * 转诊到同科室其他医生
+ */
+export async function transferQueue(id: string, doctorId: string): Promise<QueueItem> {
+  const response = await post<any>(`/queue/${id}/transfer`, { doctorId })
+  return transformQueueItem(response.data)
+}
+
 /**
  * 查询患者排队位置
  */
@@ -215,6 +253,7 @@ const transformQueueItem = (queue: any): QueueItem => {
     doctorName: resolvedDoctorName,
     status: (queue.status ?? QueueStatus.WAITING) as QueueStatus,
     priority: (queue.priority ?? appointment.priority ?? QueuePriority.NORMAL) as QueuePriority,
+    callCount: queue.callCount ?? 0,
     queuePosition: queue.queuePosition ?? queue.position ?? undefined,
     estimatedWaitTime:
       queue.estimatedWaitTime ??
@@ -0,0 +1,101 @@
+/**
+ * 医生排班API服务
+ */
+import { get, post, put, del } from '@/api/client'
+import type { TimeSlotBackend } from '@/api/appointment.api'
+
+export const timeSlotLabels: Record<string, string> = {
+  MORNING: '上午',
+  AFTERNOON: '下午',
+  EVENING: '晚上',
+}
+
+export const weekdayLabels = ['周日', '周一', '周二', '周三', '周四', '周五', '周六']
+
+/**
+ * 医生排班
+ */
+export interface DoctorSchedule {
+  id: string
+  doctorId: string
+  dayOfWeek: number // 0-6（周日-周六）
+  timeSlot: TimeSlotBackend
+  startTime: string // HH:MM
+  endTime: string
+  maxPatients: number
+  isActive: boolean
+  doctor?: {
+    id: string
+    doctorNo: string
+    name: string
+    title?: string
+    departmentId: string
+  }
+}
+
+/**
+ * 时间段号源情况
+ */
+export interface SlotCapacity {
+  scheduleId: string
+  timeSlot: TimeSlotBackend
+  startTime: string
+  endTime: string
+  maxPatients: number
+  booked: number
+  remaining: number
+  available: boolean
+}
+
+export interface CreateScheduleRequest {
+  doctorId: string
+  dayOfWeek: number
+  timeSlot: TimeSlotBackend
+  startTime: string
+  endTime: string
+  maxPatients: number
+  isActive?: boolean
+}
+
+export type UpdateScheduleRequest = Partial<Pick<CreateScheduleRequest, 'startTime' | 'endTime' | 'maxPatients' | 'isActive'>>
+
+/**
+ * 获取排班列表
+ */
+export async function getSchedules(params?: { doctorId?: string; departmentId?: string; activeOnly?: boolean }): Promise<DoctorSchedule[]> {
+  const response = await get<DoctorSchedule[]>('/schedules', { params })
+  return response.data
+}
+
+/**
+ * 创建排班
+ */
+export async function createSchedule(data: CreateScheduleRequest): Promise<DoctorSchedule> {
+  const response = await post<DoctorSchedule>('/schedules', data)
+  return response.data
+}
+
+/**
+ * 更新排班
+ */
+export async function updateSchedule(id: string, data: UpdateScheduleRequest): Promise<DoctorSchedule> {
+  const response = await put<DoctorSchedule>(`/schedules/${id}`, data)
+  return response.data
+}
+
+/**
+ * 删除排班
+ */
+export async function deleteSchedule(id: string): Promise<void> {
+  await del(`/schedules/${id}`)
+}
+
+/**
+ * 获取医生某日可预约时间段及剩余号源
+ */
+export async function getAvailableSlots(doctorId: string, date: string): Promise<SlotCapacity[]> {
+  const response = await get<SlotCapacity[]>('/appointments/available-slots', {
+    params: { doctorId, date },
+  })
+  return response.data
+}
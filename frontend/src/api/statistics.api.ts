@@ -3,7 +3,7 @@
  * Dashboard统计、患者统计、医生统计、科室统计、挂号统计、处方统计、病历统计
  */
 
-import { get } from './client'
+import apiClient, { get } from './client'
 
 /**
  * 时间范围枚举
@@ -17,6 +17,41 @@ export enum StatisticsTimeRange {
   CUSTOM = 'CUSTOM'
 }
 
+/**
+ * 趋势粒度
+ */
+export type TrendGranularity = 'day' | 'week' | 'month'
+
+/**
+ * 统计周期（本期与环比对照期）
+ */
+export interface StatisticsPeriod {
+  timeRange: StatisticsTimeRange
+  startDate: string
+  endDate: string
+  previousStartDate: string
+  previousEndDate: string
+  granularity: TrendGranularity
+}
+
+/**
+ * 环比对比
+ */
+export interface PeriodComparison {
+  current: number
+  previous: number
+  change: number
+  changeRate: number | null // 百分比，对照期为0时为null
+}
+
+/**
+ * 趋势数据点
+ */
+export interface TrendPoint {
+  period: string
+  count: number
+}
+
 /**
  * Dashboard综合统计数据
  */
@@ -59,8 +94,10 @@ export interface DashboardStatistics {
  * 患者统计数据
  */
 export interface PatientStatistics {
+  period: StatisticsPeriod
   totalCount: number
-  newThisMonth: number
+  newCount: PeriodComparison
+  newTrend: TrendPoint[]
   genderDistribution: { gender: string; count: number }[]
   ageDistribution: { ageGroup: string; count: number }[]
   bloodTypeDistribution: { bloodType: string; count: number }[]
@@ -71,7 +108,9 @@ export interface PatientStatistics {
  * 医生统计数据
  */
 export interface DoctorStatistics {
+  period: StatisticsPeriod
   totalCount: number
+  activeCount: PeriodComparison
   byDepartment: { department: string; count: number }[]
   byTitle: { title: string; count: number }[]
   topPerformers: {
@@ -87,7 +126,10 @@ export interface DoctorStatistics {
  * 科室统计数据
  */
 export interface DepartmentStatistics {
+  period: StatisticsPeriod
   totalCount: number
+  appointmentCount: PeriodComparison
+  revenue: PeriodComparison
   appointmentsByDepartment: { department: string; count: number }[]
   revenueByDepartment: { department: string; revenue: number }[]
   averageWaitTime: { department: string; avgWaitMinutes: number }[]
@@ -97,38 +139,54 @@ export interface DepartmentStatistics {
  * 挂号统计数据
  */
 export interface AppointmentStatistics {
+  period: StatisticsPeriod
   totalCount: number
   todayCount: number
   completedCount: number
   cancelledCount: number
+  comparison: {
+    totalCount: PeriodComparison
+    completedCount: PeriodComparison
+    cancelledCount: PeriodComparison
+  }
   byStatus: { status: string; count: number }[]
   byPriority: { priority: string; count: number }[]
   byTimeSlot: { timeSlot: string; count: number }[]
-  dailyTrend: { date: string; count: number }[]
+  trend: TrendPoint[]
 }
 
 /**
  * 处方统计数据
  */
 export interface PrescriptionStatistics {
+  period: StatisticsPeriod
   totalCount: number
   totalRevenue: number
   averageAmount: number
+  comparison: {
+    totalCount: PeriodComparison
+    totalRevenue: PeriodComparison
+  }
   byStatus: { status: string; count: number }[]
   topMedicines: { medicine: string; count: number; revenue: number }[]
-  monthlyRevenueTrend: { month: string; revenue: number }[]
+  revenueTrend: (TrendPoint & { revenue: number })[]
 }
 
 /**
  * 病历统计数据
  */
 export interface MedicalRecordStatistics {
+  period: StatisticsPeriod
   totalCount: number
+  comparison: {
+    totalCount: PeriodComparison
+  }
   byRecordType: { recordType: string; count: number }[]
   byDepartment: { department: string; count: number }[]
   withAISummaryCount: number
   finalizedCount: number
   averageRecordsPerPatient: number
+  trend: TrendPoint[]
 }
 
 /**
@@ -136,8 +194,43 @@ export interface MedicalRecordStatistics {
  */
 export interface StatisticsQueryParams {
   timeRange?: StatisticsTimeRange
-  startDate?: string
+  startDate?: string // YYYY-MM-DD，CUSTOM时必填
   endDate?: string
+  granularity?: TrendGranularity
+  departmentId?: string
+  doctorId?: string
+}
+
+/**
+ * 统计导出格式
+ */
+export type StatisticsExportFormat = 'csv' | 'xlsx'
+
+/**
+ * 统计接口名称（对应 /statistics/:name）
+ */
+export type StatisticsEndpoint =
+  | 'dashboard'
+  | 'patients'
+  | 'doctors'
+  | 'departments'
+  | 'appointments'
+  | 'prescriptions'
+  | 'medical-records'
+
+/**
+ * 导出统计数据为CSV/XLSX文件（需要report:export权限）
+ */
+export async function exportStatistics(
+  endpoint: StatisticsEndpoint,
+  format: StatisticsExportFormat,
+  params?: StatisticsQueryParams
+): Promise<Blob> {
+  const response = await apiClient.get<Blob>(`/statistics/${endpoint}`, {
+    params: { ...params, format },
+    responseType: 'blob',
+  })
+  return response.data
 }
 
 /**
@@ -159,16 +252,16 @@ export async function getPatientStatistics(params?: StatisticsQueryParams): Prom
 /**
  * 获取医生统计数据
  */
-export async function getDoctorStatistics(): Promise<DoctorStatistics> {
-  const response = await get<DoctorStatistics>('/statistics/doctors')
+export async function getDoctorStatistics(params?: StatisticsQueryParams): Promise<DoctorStatistics> {
+  const response = await get<DoctorStatistics>('/statistics/doctors', { params })
   return response.data
 }
 
 /**
  * 获取科室统计数据
  */
-export async function getDepartmentStatistics(): Promise<DepartmentStatistics> {
-  const response = await get<DepartmentStatistics>('/statistics/departments')
+export async function getDepartmentStatistics(params?: StatisticsQueryParams): Promise<DepartmentStatistics> {
+  const response = await get<DepartmentStatistics>('/statistics/departments', { params })
   return response.data
 }
 
@@ -0,0 +1,133 @@
+/**
+ * 库存变动表单组件 - 调整/调拨/退货
+ */
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { toast } from 'sonner'
+import { Modal } from '@/components/ui/Modal'
+import { Input } from '@/components/ui/Input'
+import { Button } from '@/components/ui/Button'
+import {
+  adjustStock,
+  transferStock,
+  returnToSupplier,
+  type StockBatch,
+} from '@/api/inventory.api'
+
+export type StockMovementMode = 'adjust' | 'transfer' | 'return'
+
+const modeTitles: Record<StockMovementMode, string> = {
+  adjust: '库存调整',
+  transfer: '库位调拨',
+  return: '退货给供应商',
+}
+
+const movementSchema = z.object({
+  quantity: z.coerce.number().int('数量必须为整数').refine((v) => v !== 0, '数量不能为0'),
+  toLocation: z.string().optional(),
+  reason: z.string().optional(),
+})
+
+type MovementFormData = z.infer<typeof movementSchema>
+
+interface StockMovementFormProps {
+  mode: StockMovementMode
+  stock: StockBatch
+  onClose: () => void
+  onSuccess: () => void
+}
+
+export function StockMovementForm({ mode, stock, onClose, onSuccess }: StockMovementFormProps) {
+  const {
+    register,
+    handleSubmit,
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm<MovementFormData>({
+    resolver: zodResolver(movementSchema),
+    defaultValues: {
+      quantity: 0,
+      toLocation: '',
+      reason: '',
+    },
+  })
+
+  const onSubmit = async (data: MovementFormData) => {
+    // 调整允许负数，调拨和退货只能为正数
+    if (mode !== 'adjust' && data.quantity < 0) {
+      setError('quantity', { message: '数量必须大于0' })
+      return
+    }
+    if (mode !== 'transfer' && !data.reason) {
+      setError('reason', { message: '请填写原因' })
+      return
+    }
+    if (mode === 'transfer' && !data.toLocation) {
+      setError('toLocation', { message: '请输入调入库位' })
+      return
+    }
+
+    try {
+      if (mode === 'adjust') {
+        await adjustStock({ stockId: stock.id, quantity: data.quantity, reason: data.reason! })
+      } else if (mode === 'transfer') {
+        await transferStock({
+          stockId: stock.id,
+          toLocation: data.toLocation!,
+          quantity: data.quantity,
+          reason: data.reason || undefined,
+        })
+      } else {
+        await returnToSupplier({ stockId: stock.id, quantity: data.quantity, reason: data.reason! })
+      }
+      toast.success(`${modeTitles[mode]}成功`)
+      onSuccess()
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || `${modeTitles[mode]}失败`)
+    }
+  }
+
+  return (
+    <Modal
+      open
+      onClose={onClose}
+      title={modeTitles[mode]}
+      description={`${stock.medicine.name} · 批次 ${stock.batchNo} · ${stock.location || '未指定库位'} · 当前库存 ${stock.quantity}${stock.medicine.unit}`}
+      size="md"
+    >
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-text-primary mb-2">
+            {mode === 'adjust' ? '调整数量（负数为减少）' : '数量'} <span className="text-red-500">*</span>
+          </label>
+          <Input type="number" {...register('quantity')} error={errors.quantity?.message} />
+        </div>
+        {mode === 'transfer' && (
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-2">
+              调入库位 <span className="text-red-500">*</span>
+            </label>
+            <Input {...register('toLocation')} error={errors.toLocation?.message} />
+          </div>
+        )}
+        <div>
+          <label className="block text-sm font-medium text-text-primary mb-2">
+            原因 {mode !== 'transfer' && <span className="text-red-500">*</span>}
+          </label>
+          <Input {...register('reason')} error={errors.reason?.message} />
+        </div>
+
+        {/* 表单按钮 */}
+        <div className="flex justify-end gap-4 pt-4 border-t border-white/10">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+            取消
+          </Button>
+          <Button type="submit" variant="neon" disabled={isSubmitting}>
+            {isSubmitting ? '提交中...' : '确认'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  )
+}
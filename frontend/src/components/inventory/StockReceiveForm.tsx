@@ -0,0 +1,150 @@
+/**
+ * 采购入库表单组件
+ */
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { toast } from 'sonner'
+import { useQuery } from '@tanstack/react-query'
+import { Modal } from '@/components/ui/Modal'
+import { Input } from '@/components/ui/Input'
+import { NativeSelect } from '@/components/ui/NativeSelect'
+import { Button } from '@/components/ui/Button'
+import { getMedicines } from '@/api/medicine.api'
+import { receiveStock } from '@/api/inventory.api'
+
+const receiveSchema = z.object({
+  medicineId: z.string().min(1, '请选择药品'),
+  batchNo: z.string().min(1, '请输入批号'),
+  expiryDate: z.string().min(1, '请选择效期'),
+  quantity: z.coerce.number().int('数量必须为整数').positive('入库数量必须大于0'),
+  location: z.string().optional(),
+  minStock: z.coerce.number().int().min(0).optional(),
+  maxStock: z.coerce.number().int().min(0).optional(),
+  reason: z.string().optional(),
+})
+
+type ReceiveFormData = z.infer<typeof receiveSchema>
+
+interface StockReceiveFormProps {
+  onClose: () => void
+  onSuccess: () => void
+}
+
+export function StockReceiveForm({ onClose, onSuccess }: StockReceiveFormProps) {
+  // 获取药品列表
+  const { data: medicinesData, isLoading: medicinesLoading } = useQuery({
+    queryKey: ['medicines', { page: 1, pageSize: 100 }],
+    queryFn: () => getMedicines({ page: 1, pageSize: 100 }),
+  })
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ReceiveFormData>({
+    resolver: zodResolver(receiveSchema),
+    defaultValues: {
+      medicineId: '',
+      batchNo: '',
+      expiryDate: '',
+      quantity: 0,
+      location: '',
+      minStock: 0,
+      maxStock: 0,
+      reason: '',
+    },
+  })
+
+  const onSubmit = async (data: ReceiveFormData) => {
+    try {
+      await receiveStock({
+        ...data,
+        location: data.location || undefined,
+        reason: data.reason || undefined,
+      })
+      toast.success('入库成功')
+      onSuccess()
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || '入库失败')
+    }
+  }
+
+  return (
+    <Modal open onClose={onClose} title="采购入库" size="lg">
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-text-primary mb-2">
+              药品 <span className="text-red-500">*</span>
+            </label>
+            <NativeSelect
+              {...register('medicineId')}
+              error={errors.medicineId?.message}
+              disabled={medicinesLoading}
+            >
+              <option value="">请选择药品</option>
+              {medicinesData?.data.map((medicine) => (
+                <option key={medicine.id} value={medicine.id}>
+                  {medicine.name} ({medicine.specification})
+                </option>
+              ))}
+            </NativeSelect>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-2">
+              批号 <span className="text-red-500">*</span>
+            </label>
+            <Input {...register('batchNo')} error={errors.batchNo?.message} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-2">
+              效期 <span className="text-red-500">*</span>
+            </label>
+            <Input type="date" {...register('expiryDate')} error={errors.expiryDate?.message} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-2">
+              入库数量 <span className="text-red-500">*</span>
+            </label>
+            <Input type="number" {...register('quantity')} error={errors.quantity?.message} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-2">
+              库位
+            </label>
+            <Input {...register('location')} placeholder="如：主药房、急诊药房" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-2">
+              最低库存
+            </label>
+            <Input type="number" {...register('minStock')} error={errors.minStock?.message} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-2">
+              最高库存
+            </label>
+            <Input type="number" {...register('maxStock')} error={errors.maxStock?.message} />
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-text-primary mb-2">
+              备注
+            </label>
+            <Input {...register('reason')} placeholder="如：采购单号、供应商" />
+          </div>
+        </div>
+
+        {/* 表单按钮 */}
+        <div className="flex justify-end gap-4 pt-4 border-t border-white/10">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+            取消
+          </Button>
+          <Button type="submit" variant="neon" disabled={isSubmitting}>
+            {isSubmitting ? '提交中...' : '确认入库'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  )
+}
@@ -18,8 +18,14 @@ import {
   User,
   Activity,
   Bell,
+  Package,
+  ShieldCheck,
+  CalendarClock,
+  Bot,
+  Coins,
 } from 'lucide-react'
 import { useAuthStore } from '@/store/auth.store'
+import { NotificationBell } from '@/components/layout/NotificationBell'
 import { cn } from '@/utils/cn'
 
 interface SubMenuItem {
@@ -32,6 +38,7 @@ interface MenuItem {
   path: string
   icon: React.ElementType
   subItems?: SubMenuItem[]
+  permission?: string // 需要的权限，未设置则所有登录用户可见
 }
 
 const menuItems: MenuItem[] = [
@@ -46,10 +53,15 @@ const menuItems: MenuItem[] = [
       { name: '医生叫号', path: '/doctor/queue' },
     ],
   },
+  { name: '医生排班', path: '/schedules', icon: CalendarClock, permission: 'schedule:view' },
   { name: '药物医嘱', path: '/prescriptions', icon: Pill },
+  { name: '药房库存', path: '/inventory', icon: Package },
   { name: '病历管理', path: '/records', icon: FileText },
   { name: '系统公告', path: '/announcements', icon: Bell },
   { name: '系统监控', path: '/dashboard', icon: Activity },
+  { name: '审计日志', path: '/audit-logs', icon: ShieldCheck, permission: 'audit:view' },
+  { name: 'AI提示词', path: '/ai-prompts', icon: Bot, permission: 'system:manage' },
+  { name: 'AI用量', path: '/ai-usage', icon: Coins, permission: 'system:manage' },
 ]
 
 interface DashboardLayoutProps {
@@ -63,6 +75,9 @@ export const DashboardLayout = ({ children }: DashboardLayoutProps) => {
   const location = useLocation()
   const navigate = useNavigate()
   const { user, logout } = useAuthStore()
+  const visibleMenuItems = menuItems.filter(
+    (item) => !item.permission || user?.permissions?.includes(item.permission)
+  )
 
   const handleLogout = () => {
     logout()
@@ -100,6 +115,7 @@ export const DashboardLayout = ({ children }: DashboardLayoutProps) => {
 
           {/* 用户信息 */}
           <div className="flex items-center gap-4">
+            <NotificationBell />
             <div className="hidden md:flex items-center gap-3 px-4 py-2 glass rounded-lg">
               <User className="w-5 h-5 text-primary-400" />
               <div>
@@ -128,7 +144,7 @@ export const DashboardLayout = ({ children }: DashboardLayoutProps) => {
         <div className="flex flex-col h-full">
           {/* 菜单项 */}
           <nav className="flex-1 p-4 space-y-2">
-            {menuItems.map((item) => {
+            {visibleMenuItems.map((item) => {
               const isActive = location.pathname.startsWith(item.path)
               const Icon = item.icon
               const hasSubItems = item.subItems && item.subItems.length > 0
@@ -265,7 +281,7 @@ export const DashboardLayout = ({ children }: DashboardLayoutProps) => {
               className="fixed top-16 left-0 bottom-0 w-64 glass-strong border-r border-border-subtle z-50 lg:hidden"
             >
               <nav className="p-4 space-y-2">
-                {menuItems.map((item) => {
+                {visibleMenuItems.map((item) => {
                   const isActive = location.pathname.startsWith(item.path)
                   const Icon = item.icon
                   const hasSubItems = item.subItems && item.subItems.length > 0
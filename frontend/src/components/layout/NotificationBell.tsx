@@ -0,0 +1,155 @@
+/**
+ * NotificationBell 通知铃铛 - 顶部导航栏的未读数角标和通知下拉列表
+ */
+import { useEffect, useRef, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { Bell, CheckCheck, Trash2 } from 'lucide-react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import {
+  markNotificationAsRead,
+  markAllNotificationsAsRead,
+  deleteNotification,
+} from '@/api/notification.api'
+import type { Notification } from '@/api/notification.api'
+import { useNotifications, NOTIFICATIONS_QUERY_KEY } from '@/hooks/useNotifications'
+import { formatDateTimeShort } from '@/utils/format'
+import { cn } from '@/utils/cn'
+
+export const NotificationBell = () => {
+  const [open, setOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const queryClient = useQueryClient()
+
+  const { notifications, unreadCount, isLoading } = useNotifications({
+    onNotification: (notification) => toast.info(notification.title, { description: notification.content }),
+  })
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_QUERY_KEY })
+
+  const readMutation = useMutation({
+    mutationFn: markNotificationAsRead,
+    onSuccess: refresh,
+  })
+
+  const readAllMutation = useMutation({
+    mutationFn: markAllNotificationsAsRead,
+    onSuccess: refresh,
+    onError: () => toast.error('标记已读失败'),
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteNotification,
+    onSuccess: refresh,
+    onError: () => toast.error('删除通知失败'),
+  })
+
+  // 点击下拉框外部时关闭
+  useEffect(() => {
+    if (!open) return
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [open])
+
+  const handleSelect = (notification: Notification) => {
+    if (!notification.isRead) {
+      readMutation.mutate(notification.id)
+    }
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative flex items-center justify-center w-10 h-10 glass rounded-lg hover:bg-background-secondary/70 transition-colors"
+        aria-label="通知"
+      >
+        <Bell className="w-5 h-5 text-text-secondary" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-error-500 text-white text-xs font-medium flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            transition={{ duration: 0.15 }}
+            className="absolute right-0 mt-2 w-80 sm:w-96 glass-strong border border-border-subtle rounded-lg shadow-xl z-50"
+          >
+            <div className="flex items-center justify-between px-4 py-3 border-b border-border-subtle">
+              <span className="text-sm font-medium text-text-primary">
+                通知{unreadCount > 0 && <span className="text-text-tertiary">（{unreadCount}条未读）</span>}
+              </span>
+              <button
+                onClick={() => readAllMutation.mutate()}
+                disabled={unreadCount === 0 || readAllMutation.isPending}
+                className="flex items-center gap-1 text-xs text-primary-400 hover:text-primary-300 disabled:text-text-tertiary disabled:cursor-not-allowed transition-colors"
+              >
+                <CheckCheck className="w-4 h-4" />
+                全部已读
+              </button>
+            </div>
+
+            <div className="max-h-96 overflow-y-auto">
+              {isLoading ? (
+                <p className="px-4 py-8 text-center text-sm text-text-tertiary">加载中...</p>
+              ) : notifications.length === 0 ? (
+                <p className="px-4 py-8 text-center text-sm text-text-tertiary">暂无通知</p>
+              ) : (
+                notifications.map((notification) => (
+                  <div
+                    key={notification.id}
+                    onClick={() => handleSelect(notification)}
+                    className={cn(
+                      'group flex gap-3 px-4 py-3 border-b border-border-subtle last:border-b-0 cursor-pointer hover:bg-background-secondary/50 transition-colors',
+                      !notification.isRead && 'bg-primary-500/5'
+                    )}
+                  >
+                    <div
+                      className={cn(
+                        'mt-1.5 w-2 h-2 rounded-full flex-shrink-0',
+                        notification.isRead ? 'bg-transparent' : 'bg-primary-400'
+                      )}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p
+                        className={cn(
+                          'text-sm truncate',
+                          notification.isRead ? 'text-text-secondary' : 'text-text-primary font-medium'
+                        )}
+                      >
+                        {notification.title}
+                      </p>
+                      <p className="text-xs text-text-tertiary mt-0.5 line-clamp-2">{notification.content}</p>
+                      <p className="text-xs text-text-tertiary mt-1">{formatDateTimeShort(notification.createdAt)}</p>
+                    </div>
+                    <button
+                      onClick={(event) => {
+                        event.stopPropagation()
+                        deleteMutation.mutate(notification.id)
+                      }}
+                      className="self-start opacity-0 group-hover:opacity-100 text-text-tertiary hover:text-error-500 transition-all"
+                      aria-label="删除通知"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
@@ -1,15 +1,25 @@
 /**
  * AIConsultationDialog AI智能问诊对话框组件
+ *
+ * 对话保存在服务端会话中，可从历史会话恢复继续问诊
  */
 import { useState, useRef, useEffect } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Send, Sparkles, User, Bot, Loader2 } from 'lucide-react'
+import { Send, Sparkles, User, Bot, Loader2, History, Plus, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
 import { Modal } from '@/components/ui/Modal'
 import { Button } from '@/components/ui/Button'
 import { Textarea } from '@/components/ui/Textarea'
-import { sendAIChat } from '@/api/ai.api'
+import {
+  createAIChatSession,
+  deleteAIChatSession,
+  getAIChatSession,
+  getAIChatSessions,
+  sendAIChatSessionMessage,
+} from '@/api/ai.api'
 import type { Patient, ChatMessage } from '@/@types'
-import { formatDate } from '@/utils/format'
+import { formatDate, formatDateTimeShort } from '@/utils/format'
 
 interface AIConsultationDialogProps {
   open: boolean
@@ -25,22 +35,47 @@ const PRESET_QUESTIONS = [
   '推荐的治疗方案',
 ]
 
+// 计算年龄
+const calculateAge = (birthDate: string): number => {
+  const birth = new Date(birthDate)
+  const today = new Date()
+  let age = today.getFullYear() - birth.getFullYear()
+  const monthDiff = today.getMonth() - birth.getMonth()
+  if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birth.getDate())) {
+    age--
+  }
+  return age
+}
+
+// 欢迎消息（仅在前端显示，不保存到会话）
+const createWelcomeMessage = (patient: Patient): ChatMessage => ({
+  id: 'welcome',
+  role: 'assistant',
+  content: `您好！我是AI智能助手，正在为患者【${patient.name}】提供问诊服务。\n\n患者信息：\n- 性别：${patient.gender === 'MALE' ? '男' : '女'}\n- 年龄：${calculateAge(patient.birthDate)}岁\n- 血型：${patient.bloodType || '未知'}\n${patient.allergies ? `- 过敏史：${patient.allergies}` : ''}\n\n请描述患者的症状，我会为您提供专业的诊断建议。`,
+  timestamp: new Date().toISOString(),
+})
+
 export const AIConsultationDialog = ({ open, onClose, patient }: AIConsultationDialogProps) => {
+  const queryClient = useQueryClient()
   const [messages, setMessages] = useState<ChatMessage[]>([])
+  const [sessionId, setSessionId] = useState<string | null>(null)
+  const [showHistory, setShowHistory] = useState(false)
   const [inputValue, setInputValue] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const messagesEndRef = useRef<HTMLDivElement>(null)
 
+  // 该患者的历史会话
+  const sessionsQueryKey = ['ai-chat-sessions', patient.id]
+  const { data: sessionList, isPending: isSessionsPending } = useQuery({
+    queryKey: sessionsQueryKey,
+    queryFn: () => getAIChatSessions({ patientId: patient.id, limit: 50 }),
+    enabled: open && showHistory,
+  })
+
   // 初始化对话
   useEffect(() => {
     if (open && messages.length === 0) {
-      const welcomeMessage: ChatMessage = {
-        id: '1',
-        role: 'assistant',
-        content: `您好！我是AI智能助手，正在为患者【${patient.name}】提供问诊服务。\n\n患者信息：\n- 性别：${patient.gender === 'MALE' ? '男' : '女'}\n- 年龄：${calculateAge(patient.birthDate)}岁\n- 血型：${patient.bloodType || '未知'}\n${patient.allergies ? `- 过敏史：${patient.allergies}` : ''}\n\n请描述患者的症状，我会为您提供专业的诊断建议。`,
-        timestamp: new Date().toISOString(),
-      }
-      setMessages([welcomeMessage])
+      setMessages([createWelcomeMessage(patient)])
     }
   }, [open, patient, messages.length])
 
@@ -49,16 +84,50 @@ export const AIConsultationDialog = ({ open, onClose, patient }: AIConsultationD
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }, [messages])
 
-  // 计算年龄
-  const calculateAge = (birthDate: string): number => {
-    const birth = new Date(birthDate)
-    const today = new Date()
-    let age = today.getFullYear() - birth.getFullYear()
-    const monthDiff = today.getMonth() - birth.getMonth()
-    if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birth.getDate())) {
-      age--
+  // 开始新对话
+  const handleNewSession = () => {
+    setSessionId(null)
+    setMessages([createWelcomeMessage(patient)])
+  }
+
+  // 恢复历史会话
+  const handleResumeSession = async (id: string) => {
+    if (isLoading || id === sessionId) return
+
+    setIsLoading(true)
+    try {
+      const session = await getAIChatSession(id)
+      setSessionId(session.id)
+      setMessages([
+        createWelcomeMessage(patient),
+        ...session.messages.map((message, index) => ({
+          id: `${session.id}-${index}`,
+          role: message.role,
+          content: message.content,
+          timestamp: message.createdAt,
+        })),
+      ])
+    } catch (error) {
+      console.error('加载会话失败:', error)
+      toast.error('加载会话失败')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // 删除历史会话
+  const handleDeleteSession = async (id: string) => {
+    try {
+      await deleteAIChatSession(id)
+      if (id === sessionId) {
+        handleNewSession()
+      }
+      queryClient.invalidateQueries({ queryKey: sessionsQueryKey })
+      toast.success('会话已删除')
+    } catch (error) {
+      console.error('删除会话失败:', error)
+      toast.error('删除会话失败')
     }
-    return age
   }
 
   // 发送消息
@@ -77,35 +146,26 @@ export const AIConsultationDialog = ({ open, onClose, patient }: AIConsultationD
     setIsLoading(true)
 
     try {
-      // 调用AI API
-      const response = await sendAIChat({
-        message: content,
-        context: {
-          patientId: patient.id,
-          symptoms: content,
-          history: patient.medicalHistory,
-        },
-      })
+      // 首次提问时创建会话
+      let currentSessionId = sessionId
+      if (!currentSessionId) {
+        const session = await createAIChatSession({ patientId: patient.id })
+        currentSessionId = session.id
+        setSessionId(session.id)
+      }
+
+      // 调用AI API（服务端带上会话历史）
+      const response = await sendAIChatSessionMessage(currentSessionId, content.trim())
 
       // 添加AI回复
       const aiMessage: ChatMessage = {
         id: (Date.now() + 1).toString(),
         role: 'assistant',
-        content: response.message,
+        content: response.message.content,
         timestamp: new Date().toISOString(),
       }
       setMessages((prev) => [...prev, aiMessage])
-
-      // 如果有后续问题建议，添加为系统消息
-      if (response.followUpQuestions && response.followUpQuestions.length > 0) {
-        const followUpMessage: ChatMessage = {
-          id: (Date.now() + 2).toString(),
-          role: 'system',
-          content: `建议继续询问：\n${response.followUpQuestions.map((q, i) => `${i + 1}. ${q}`).join('\n')}`,
-          timestamp: new Date().toISOString(),
-        }
-        setMessages((prev) => [...prev, followUpMessage])
-      }
+      queryClient.invalidateQueries({ queryKey: sessionsQueryKey })
     } catch (error) {
       console.error('AI对话失败:', error)
       const errorMessage: ChatMessage = {
@@ -127,142 +187,210 @@ export const AIConsultationDialog = ({ open, onClose, patient }: AIConsultationD
 
   return (
     <Modal open={open} onClose={onClose} size="xl" title="AI智能问诊" showCloseButton={true}>
-      <div className="flex flex-col h-[600px]">
-        {/* 消息列表 */}
-        <div className="flex-1 overflow-y-auto space-y-4 mb-4 pr-2">
-          <AnimatePresence>
-            {messages.map((message, index) => (
-              <motion.div
-                key={message.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                exit={{ opacity: 0, y: -20 }}
-                transition={{ duration: 0.3, delay: index * 0.05 }}
-                className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
-              >
-                <div
-                  className={`flex gap-3 max-w-[85%] ${
-                    message.role === 'user' ? 'flex-row-reverse' : 'flex-row'
-                  }`}
-                >
-                  {/* 头像 */}
+      <div className="flex gap-4 h-[600px]">
+        {/* 历史会话 */}
+        {showHistory && (
+          <div className="w-60 flex-shrink-0 flex flex-col border-r border-border-subtle pr-4">
+            <div className="text-sm font-medium text-text-primary mb-3">历史会话</div>
+            <div className="flex-1 overflow-y-auto space-y-2">
+              {isSessionsPending ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="w-5 h-5 animate-spin text-text-tertiary" />
+                </div>
+              ) : !sessionList?.sessions.length ? (
+                <p className="text-sm text-text-tertiary text-center py-6">暂无历史会话</p>
+              ) : (
+                sessionList.sessions.map((session) => (
                   <div
-                    className={`flex-shrink-0 w-10 h-10 rounded-full flex items-center justify-center ${
-                      message.role === 'user'
-                        ? 'bg-primary-500/20 text-primary-400'
-                        : message.role === 'system'
-                        ? 'bg-accent-500/20 text-accent-400'
-                        : 'bg-secondary-500/20 text-secondary-400'
+                    key={session.id}
+                    onClick={() => handleResumeSession(session.id)}
+                    className={`group px-3 py-2 rounded-lg cursor-pointer border transition-all ${
+                      session.id === sessionId
+                        ? 'bg-primary-500/20 border-primary-500/30'
+                        : 'border-border-subtle hover:bg-background-tertiary'
                     }`}
                   >
-                    {message.role === 'user' ? (
-                      <User className="w-5 h-5" />
-                    ) : message.role === 'system' ? (
-                      <Sparkles className="w-5 h-5" />
-                    ) : (
-                      <Bot className="w-5 h-5" />
-                    )}
+                    <div className="flex items-start justify-between gap-2">
+                      <p className="text-sm text-text-primary truncate">{session.title}</p>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          handleDeleteSession(session.id)
+                        }}
+                        className="opacity-0 group-hover:opacity-100 text-text-tertiary hover:text-error-500 transition-opacity"
+                        title="删除会话"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <p className="text-xs text-text-tertiary mt-1">
+                      {formatDateTimeShort(session.lastMessageAt || session.createdAt)} · {session.turnCount}轮
+                    </p>
                   </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="flex-1 flex flex-col min-w-0">
+          {/* 会话操作 */}
+          <div className="flex justify-end gap-2 mb-3">
+            <Button
+              variant="ghost"
+              size="sm"
+              icon={<History className="w-4 h-4" />}
+              onClick={() => setShowHistory((prev) => !prev)}
+            >
+              {showHistory ? '收起历史' : '历史会话'}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              icon={<Plus className="w-4 h-4" />}
+              onClick={handleNewSession}
+              disabled={isLoading || !sessionId}
+            >
+              新对话
+            </Button>
+          </div>
 
-                  {/* 消息气泡 */}
+          {/* 消息列表 */}
+          <div className="flex-1 overflow-y-auto space-y-4 mb-4 pr-2">
+            <AnimatePresence>
+              {messages.map((message, index) => (
+                <motion.div
+                  key={message.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -20 }}
+                  transition={{ duration: 0.3, delay: index * 0.05 }}
+                  className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
+                >
                   <div
-                    className={`flex flex-col ${
-                      message.role === 'user' ? 'items-end' : 'items-start'
+                    className={`flex gap-3 max-w-[85%] ${
+                      message.role === 'user' ? 'flex-row-reverse' : 'flex-row'
                     }`}
                   >
+                    {/* 头像 */}
                     <div
-                      className={`px-4 py-3 rounded-2xl ${
+                      className={`flex-shrink-0 w-10 h-10 rounded-full flex items-center justify-center ${
                         message.role === 'user'
-                          ? 'bg-primary-500/20 text-text-primary border border-primary-500/30'
+                          ? 'bg-primary-500/20 text-primary-400'
                           : message.role === 'system'
-                          ? 'bg-accent-500/10 text-text-secondary border border-accent-500/20 text-sm'
-                          : 'glass text-text-primary border border-border-subtle'
+                          ? 'bg-accent-500/20 text-accent-400'
+                          : 'bg-secondary-500/20 text-secondary-400'
+                      }`}
+                    >
+                      {message.role === 'user' ? (
+                        <User className="w-5 h-5" />
+                      ) : message.role === 'system' ? (
+                        <Sparkles className="w-5 h-5" />
+                      ) : (
+                        <Bot className="w-5 h-5" />
+                      )}
+                    </div>
+
+                    {/* 消息气泡 */}
+                    <div
+                      className={`flex flex-col ${
+                        message.role === 'user' ? 'items-end' : 'items-start'
                       }`}
                     >
-                      <p className="whitespace-pre-wrap leading-relaxed">{message.content}</p>
+                      <div
+                        className={`px-4 py-3 rounded-2xl ${
+                          message.role === 'user'
+                            ? 'bg-primary-500/20 text-text-primary border border-primary-500/30'
+                            : message.role === 'system'
+                            ? 'bg-accent-500/10 text-text-secondary border border-accent-500/20 text-sm'
+                            : 'glass text-text-primary border border-border-subtle'
+                        }`}
+                      >
+                        <p className="whitespace-pre-wrap leading-relaxed">{message.content}</p>
+                      </div>
+                      <span className="text-xs text-text-tertiary mt-1">
+                        {formatDate(message.timestamp, 'HH:mm')}
+                      </span>
+                    </div>
+                  </div>
+                </motion.div>
+              ))}
+            </AnimatePresence>
+
+            {/* 加载状态 */}
+            {isLoading && (
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                className="flex justify-start"
+              >
+                <div className="flex gap-3 max-w-[85%]">
+                  <div className="flex-shrink-0 w-10 h-10 rounded-full bg-secondary-500/20 text-secondary-400 flex items-center justify-center">
+                    <Bot className="w-5 h-5" />
+                  </div>
+                  <div className="glass px-4 py-3 rounded-2xl border border-border-subtle">
+                    <div className="flex items-center gap-2">
+                      <Loader2 className="w-4 h-4 animate-spin text-secondary-400" />
+                      <span className="text-text-secondary">AI思考中...</span>
                     </div>
-                    <span className="text-xs text-text-tertiary mt-1">
-                      {formatDate(message.timestamp, 'HH:mm')}
-                    </span>
                   </div>
                 </div>
               </motion.div>
-            ))}
-          </AnimatePresence>
+            )}
+
+            <div ref={messagesEndRef} />
+          </div>
 
-          {/* 加载状态 */}
-          {isLoading && (
+          {/* 预设问题快捷按钮 */}
+          {messages.length <= 1 && (
             <motion.div
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              className="flex justify-start"
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="flex flex-wrap gap-2 mb-4"
             >
-              <div className="flex gap-3 max-w-[85%]">
-                <div className="flex-shrink-0 w-10 h-10 rounded-full bg-secondary-500/20 text-secondary-400 flex items-center justify-center">
-                  <Bot className="w-5 h-5" />
-                </div>
-                <div className="glass px-4 py-3 rounded-2xl border border-border-subtle">
-                  <div className="flex items-center gap-2">
-                    <Loader2 className="w-4 h-4 animate-spin text-secondary-400" />
-                    <span className="text-text-secondary">AI思考中...</span>
-                  </div>
-                </div>
-              </div>
+              {PRESET_QUESTIONS.map((question, index) => (
+                <button
+                  key={index}
+                  onClick={() => handlePresetClick(question)}
+                  disabled={isLoading}
+                  className="px-4 py-2 text-sm glass rounded-lg hover:bg-primary-500/20 hover:border-primary-500/50 transition-all border border-border-subtle text-text-secondary hover:text-primary-400 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {question}
+                </button>
+              ))}
             </motion.div>
           )}
 
-          <div ref={messagesEndRef} />
-        </div>
-
-        {/* 预设问题快捷按钮 */}
-        {messages.length <= 1 && (
-          <motion.div
-            initial={{ opacity: 0, y: 10 }}
-            animate={{ opacity: 1, y: 0 }}
-            className="flex flex-wrap gap-2 mb-4"
-          >
-            {PRESET_QUESTIONS.map((question, index) => (
-              <button
-                key={index}
-                onClick={() => handlePresetClick(question)}
+          {/* 输入框 */}
+          <div className="flex gap-3 items-end">
+            <div className="flex-1">
+              <Textarea
+                value={inputValue}
+                onChange={(e) => setInputValue(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault()
+                    handleSendMessage(inputValue)
+                  }
+                }}
+                placeholder="描述患者症状，按Enter发送，Shift+Enter换行..."
+                rows={2}
                 disabled={isLoading}
-                className="px-4 py-2 text-sm glass rounded-lg hover:bg-primary-500/20 hover:border-primary-500/50 transition-all border border-border-subtle text-text-secondary hover:text-primary-400 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                {question}
-              </button>
-            ))}
-          </motion.div>
-        )}
-
-        {/* 输入框 */}
-        <div className="flex gap-3 items-end">
-          <div className="flex-1">
-            <Textarea
-              value={inputValue}
-              onChange={(e) => setInputValue(e.target.value)}
-              onKeyDown={(e) => {
-                if (e.key === 'Enter' && !e.shiftKey) {
-                  e.preventDefault()
-                  handleSendMessage(inputValue)
-                }
-              }}
-              placeholder="描述患者症状，按Enter发送，Shift+Enter换行..."
-              rows={2}
-              disabled={isLoading}
-            />
+              />
+            </div>
+            <Button
+              onClick={() => handleSendMessage(inputValue)}
+              disabled={!inputValue.trim() || isLoading}
+              variant="primary"
+              className="px-6"
+            >
+              {isLoading ? (
+                <Loader2 className="w-5 h-5 animate-spin" />
+              ) : (
+                <Send className="w-5 h-5" />
+              )}
+            </Button>
           </div>
-          <Button
-            onClick={() => handleSendMessage(inputValue)}
-            disabled={!inputValue.trim() || isLoading}
-            variant="primary"
-            className="px-6"
-          >
-            {isLoading ? (
-              <Loader2 className="w-5 h-5 animate-spin" />
-            ) : (
-              <Send className="w-5 h-5" />
-            )}
-          </Button>
         </div>
       </div>
     </Modal>
@@ -4,44 +4,59 @@
 import { motion } from 'framer-motion'
 import { Card } from '@/components/ui/Card'
 import { Badge } from '@/components/ui/Badge'
-import { AlertTriangle, Info, AlertCircle, CheckCircle } from 'lucide-react'
-import type { AIReviewResult as AIReviewResultType } from '@/api/prescription.api'
+import { AlertTriangle, Info, AlertCircle, CheckCircle, ThumbsUp, Lightbulb } from 'lucide-react'
+import type { AIReviewResult as AIReviewResultType, AIReviewIssue } from '@/api/prescription.api'
 
 interface AIReviewResultProps {
   result: AIReviewResultType
 }
 
-export function AIReviewResult({ result }: AIReviewResultProps) {
-  // 获取风险等级配置
-  const getRiskConfig = () => {
-    const configs = {
-      LOW: {
-        color: 'text-green-500',
-        bgColor: 'bg-green-500/10',
-        borderColor: 'border-green-500/30',
-        icon: CheckCircle,
-        label: '低风险',
-      },
-      MEDIUM: {
-        color: 'text-orange-500',
-        bgColor: 'bg-orange-500/10',
-        borderColor: 'border-orange-500/30',
-        icon: AlertCircle,
-        label: '中风险',
-      },
-      HIGH: {
-        color: 'text-red-500',
-        bgColor: 'bg-red-500/10',
-        borderColor: 'border-red-500/30',
-        icon: AlertTriangle,
-        label: '高风险',
-      },
-    }
-    return configs[result.overallRisk]
-  }
+const riskConfigs = {
+  low: {
+    color: 'text-green-500',
+    bgColor: 'bg-green-500/10',
+    borderColor: 'border-green-500/30',
+    icon: CheckCircle,
+    label: '低风险',
+    badge: 'success' as const,
+  },
+  medium: {
+    color: 'text-orange-500',
+    bgColor: 'bg-orange-500/10',
+    borderColor: 'border-orange-500/30',
+    icon: AlertCircle,
+    label: '中风险',
+    badge: 'warning' as const,
+  },
+  high: {
+    color: 'text-red-500',
+    bgColor: 'bg-red-500/10',
+    borderColor: 'border-red-500/30',
+    icon: AlertTriangle,
+    label: '高风险',
+    badge: 'danger' as const,
+  },
+}
+
+const approvalLabels: Record<AIReviewResultType['overallApproval'], string> = {
+  approve: '建议通过',
+  conditional: '有条件通过',
+  reject: '建议驳回',
+}
+
+const issueConfigs: Record<AIReviewIssue['severity'], { label: string; className: string; badge: 'danger' | 'warning' | 'default' }> = {
+  critical: { label: '严重', className: 'bg-red-500/10 border-red-500/30', badge: 'danger' },
+  warning: { label: '警告', className: 'bg-orange-500/10 border-orange-500/30', badge: 'warning' },
+  info: { label: '提示', className: 'bg-yellow-500/10 border-yellow-500/30', badge: 'default' },
+}
 
-  const riskConfig = getRiskConfig()
+export function AIReviewResult({ result }: AIReviewResultProps) {
+  // 未知等级按中风险展示，避免旧数据或异常数据导致渲染失败
+  const riskConfig = riskConfigs[result.riskLevel] ?? riskConfigs.medium
   const RiskIcon = riskConfig.icon
+  const issues = result.issues ?? []
+  const improvements = result.improvements ?? []
+  const strengths = result.strengths ?? []
 
   return (
     <motion.div
@@ -58,192 +73,114 @@ export function AIReviewResult({ result }: AIReviewResultProps) {
               </div>
               <div>
                 <h3 className="text-xl font-bold text-gradient">AI智能审查结果</h3>
-                <p className="text-sm text-text-secondary mt-1">基于大模型的用药安全分析</p>
+                <p className="text-sm text-text-secondary mt-1">
+                  基于大模型的用药安全分析
+                  {!result.fallback && ` · 置信度 ${Math.round(result.confidence * 100)}%`}
+                </p>
               </div>
             </div>
-            <Badge
-              variant={
-                result.overallRisk === 'LOW'
-                  ? 'success'
-                  : result.overallRisk === 'MEDIUM'
-                  ? 'warning'
-                  : 'danger'
-              }
-            >
-              {riskConfig.label}
-            </Badge>
+            <div className="flex items-center gap-2">
+              {!result.fallback && (
+                <Badge variant="gray">{approvalLabels[result.overallApproval] ?? '需人工审核'}</Badge>
+              )}
+              <Badge variant={riskConfig.badge}>{riskConfig.label}</Badge>
+            </div>
           </div>
 
-          {/* 警告列表 */}
-          {result.warnings && result.warnings.length > 0 && (
-            <div className="space-y-2">
-              <div className="flex items-center gap-2 text-red-500 font-semibold">
-                <AlertTriangle className="h-5 w-5" />
-                <span>警告事项 ({result.warnings.length})</span>
-              </div>
-              <div className="space-y-2">
-                {result.warnings.map((warning, index) => (
-                  <motion.div
-                    key={index}
-                    initial={{ opacity: 0, x: -10 }}
-                    animate={{ opacity: 1, x: 0 }}
-                    transition={{ delay: index * 0.1 }}
-                    className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg"
-                  >
-                    <div className="flex items-start gap-2">
-                      <AlertCircle className="h-4 w-4 text-red-500 flex-shrink-0 mt-0.5" />
-                      <p className="text-sm text-text-primary">{warning}</p>
-                    </div>
-                  </motion.div>
-                ))}
+          {/* 模型未给出结构化结论 */}
+          {result.fallback && (
+            <div className="p-3 bg-orange-500/10 border border-orange-500/30 rounded-lg">
+              <div className="flex items-start gap-2">
+                <AlertCircle className="h-4 w-4 text-orange-500 flex-shrink-0 mt-0.5" />
+                <p className="text-sm text-text-primary">AI未能给出结构化的审查结论，以下为原始分析，请人工审核</p>
               </div>
             </div>
           )}
 
-          {/* 药物相互作用 */}
-          {result.interactions && result.interactions.length > 0 && (
-            <div className="space-y-2">
-              <div className="flex items-center gap-2 text-orange-500 font-semibold">
-                <AlertCircle className="h-5 w-5" />
-                <span>药物相互作用 ({result.interactions.length})</span>
-              </div>
-              <div className="space-y-2">
-                {result.interactions.map((interaction, index) => (
-                  <motion.div
-                    key={index}
-                    initial={{ opacity: 0, x: -10 }}
-                    animate={{ opacity: 1, x: 0 }}
-                    transition={{ delay: index * 0.1 }}
-                    className={`p-3 rounded-lg ${
-                      interaction.severity === 'SEVERE'
-                        ? 'bg-red-500/10 border border-red-500/30'
-                        : interaction.severity === 'MODERATE'
-                        ? 'bg-orange-500/10 border border-orange-500/30'
-                        : 'bg-yellow-500/10 border border-yellow-500/30'
-                    }`}
-                  >
-                    <div className="flex items-start justify-between gap-4">
-                      <div className="flex-1">
-                        <div className="flex items-center gap-2 mb-1">
-                          <span className="text-sm font-medium text-text-primary">
-                            {interaction.drug1} + {interaction.drug2}
-                          </span>
-                          <Badge
-                            variant={
-                              interaction.severity === 'SEVERE'
-                                ? 'danger'
-                                : interaction.severity === 'MODERATE'
-                                ? 'warning'
-                                : 'default'
-                            }
-                          >
-                            {interaction.severity === 'SEVERE'
-                              ? '严重'
-                              : interaction.severity === 'MODERATE'
-                              ? '中度'
-                              : '轻度'}
-                          </Badge>
-                        </div>
-                        <p className="text-sm text-text-secondary">{interaction.description}</p>
-                      </div>
-                    </div>
-                  </motion.div>
-                ))}
-              </div>
-            </div>
+          {/* 审查总结 */}
+          {result.summary && (
+            <p className="text-sm text-text-primary whitespace-pre-wrap">{result.summary}</p>
           )}
 
-          {/* 禁忌症 */}
-          {result.contraindications && result.contraindications.length > 0 && (
+          {/* 问题列表 */}
+          {issues.length > 0 && (
             <div className="space-y-2">
               <div className="flex items-center gap-2 text-red-500 font-semibold">
                 <AlertTriangle className="h-5 w-5" />
-                <span>禁忌症提示 ({result.contraindications.length})</span>
+                <span>发现问题 ({issues.length})</span>
               </div>
               <div className="space-y-2">
-                {result.contraindications.map((contraindication, index) => (
-                  <motion.div
-                    key={index}
-                    initial={{ opacity: 0, x: -10 }}
-                    animate={{ opacity: 1, x: 0 }}
-                    transition={{ delay: index * 0.1 }}
-                    className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg"
-                  >
-                    <div className="flex items-start gap-2">
-                      <AlertCircle className="h-4 w-4 text-red-500 flex-shrink-0 mt-0.5" />
-                      <p className="text-sm text-text-primary">{contraindication}</p>
-                    </div>
-                  </motion.div>
-                ))}
+                {issues.map((issue, index) => {
+                  const config = issueConfigs[issue.severity] ?? issueConfigs.info
+                  return (
+                    <motion.div
+                      key={index}
+                      initial={{ opacity: 0, x: -10 }}
+                      animate={{ opacity: 1, x: 0 }}
+                      transition={{ delay: index * 0.1 }}
+                      className={`p-3 rounded-lg border ${config.className}`}
+                    >
+                      <div className="flex items-center gap-2 mb-1">
+                        <Badge variant={config.badge}>{config.label}</Badge>
+                        {issue.category && (
+                          <span className="text-sm font-medium text-text-primary">{issue.category}</span>
+                        )}
+                      </div>
+                      <p className="text-sm text-text-secondary">{issue.description}</p>
+                      {issue.recommendation && (
+                        <p className="text-sm text-text-primary mt-1">建议：{issue.recommendation}</p>
+                      )}
+                    </motion.div>
+                  )
+                })}
               </div>
             </div>
           )}
 
-          {/* 剂量问题 */}
-          {result.dosageIssues && result.dosageIssues.length > 0 && (
+          {/* 改进建议 */}
+          {improvements.length > 0 && (
             <div className="space-y-2">
-              <div className="flex items-center gap-2 text-orange-500 font-semibold">
-                <AlertCircle className="h-5 w-5" />
-                <span>剂量相关问题 ({result.dosageIssues.length})</span>
+              <div className="flex items-center gap-2 text-neon-blue font-semibold">
+                <Lightbulb className="h-5 w-5" />
+                <span>改进建议 ({improvements.length})</span>
               </div>
               <div className="space-y-2">
-                {result.dosageIssues.map((issue, index) => (
-                  <motion.div
-                    key={index}
-                    initial={{ opacity: 0, x: -10 }}
-                    animate={{ opacity: 1, x: 0 }}
-                    transition={{ delay: index * 0.1 }}
-                    className="p-3 bg-orange-500/10 border border-orange-500/30 rounded-lg"
-                  >
+                {improvements.map((improvement, index) => (
+                  <div key={index} className="p-3 bg-neon-blue/10 border border-neon-blue/30 rounded-lg">
                     <div className="flex items-start gap-2">
-                      <AlertCircle className="h-4 w-4 text-orange-500 flex-shrink-0 mt-0.5" />
-                      <p className="text-sm text-text-primary">{issue}</p>
+                      <Info className="h-4 w-4 text-neon-blue flex-shrink-0 mt-0.5" />
+                      <p className="text-sm text-text-primary">{improvement}</p>
                     </div>
-                  </motion.div>
+                  </div>
                 ))}
               </div>
             </div>
           )}
 
-          {/* 建议列表 */}
-          {result.suggestions && result.suggestions.length > 0 && (
+          {/* 处方优点 */}
+          {strengths.length > 0 && (
             <div className="space-y-2">
-              <div className="flex items-center gap-2 text-neon-blue font-semibold">
-                <Info className="h-5 w-5" />
-                <span>用药建议 ({result.suggestions.length})</span>
+              <div className="flex items-center gap-2 text-green-500 font-semibold">
+                <ThumbsUp className="h-5 w-5" />
+                <span>处方优点</span>
               </div>
-              <div className="space-y-2">
-                {result.suggestions.map((suggestion, index) => (
-                  <motion.div
-                    key={index}
-                    initial={{ opacity: 0, x: -10 }}
-                    animate={{ opacity: 1, x: 0 }}
-                    transition={{ delay: index * 0.1 }}
-                    className="p-3 bg-neon-blue/10 border border-neon-blue/30 rounded-lg"
-                  >
-                    <div className="flex items-start gap-2">
-                      <Info className="h-4 w-4 text-neon-blue flex-shrink-0 mt-0.5" />
-                      <p className="text-sm text-text-primary">{suggestion}</p>
-                    </div>
-                  </motion.div>
+              <ul className="text-sm text-text-secondary space-y-1">
+                {strengths.map((strength, index) => (
+                  <li key={index}>• {strength}</li>
                 ))}
-              </div>
+              </ul>
             </div>
           )}
 
           {/* 无问题提示 */}
-          {result.overallRisk === 'LOW' &&
-            (!result.warnings || result.warnings.length === 0) &&
-            (!result.interactions || result.interactions.length === 0) &&
-            (!result.contraindications || result.contraindications.length === 0) &&
-            (!result.dosageIssues || result.dosageIssues.length === 0) && (
-              <div className="p-4 bg-green-500/10 border border-green-500/30 rounded-lg">
-                <div className="flex items-center gap-2 text-green-500">
-                  <CheckCircle className="h-5 w-5" />
-                  <span className="font-medium">处方审查通过，未发现明显用药风险</span>
-                </div>
+          {!result.fallback && result.riskLevel === 'low' && issues.length === 0 && (
+            <div className="p-4 bg-green-500/10 border border-green-500/30 rounded-lg">
+              <div className="flex items-center gap-2 text-green-500">
+                <CheckCircle className="h-5 w-5" />
+                <span className="font-medium">处方审查通过，未发现明显用药风险</span>
               </div>
-            )}
+            </div>
+          )}
         </div>
       </Card>
     </motion.div>
@@ -0,0 +1,128 @@
+/**
+ * 排队调整表单组件 - 过号回队/转诊
+ */
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useQuery } from '@tanstack/react-query'
+import { z } from 'zod'
+import { toast } from 'sonner'
+import { Modal } from '@/components/ui/Modal'
+import { Input } from '@/components/ui/Input'
+import { NativeSelect } from '@/components/ui/NativeSelect'
+import { Button } from '@/components/ui/Button'
+import { recallQueue, transferQueue, type QueueItem } from '@/api/queue.api'
+import { getDoctors } from '@/api/doctor.api'
+
+export type QueueMoveMode = 'recall' | 'transfer'
+
+const modeTitles: Record<QueueMoveMode, string> = {
+  recall: '过号回队',
+  transfer: '转诊',
+}
+
+const moveSchema = z.object({
+  position: z.coerce.number().int('位置必须为整数').min(1, '位置至少为1'),
+  doctorId: z.string().optional(),
+})
+
+type MoveFormData = z.infer<typeof moveSchema>
+
+interface QueueMoveFormProps {
+  mode: QueueMoveMode
+  queue: QueueItem
+  departmentId?: string
+  onClose: () => void
+  onSuccess: () => void
+}
+
+export function QueueMoveForm({ mode, queue, departmentId, onClose, onSuccess }: QueueMoveFormProps) {
+  const {
+    register,
+    handleSubmit,
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm<MoveFormData>({
+    resolver: zodResolver(moveSchema),
+    defaultValues: {
+      position: 3,
+      doctorId: '',
+    },
+  })
+
+  // 只能转到同科室的其他医生
+  const { data: doctors = [] } = useQuery({
+    queryKey: ['doctors', departmentId],
+    queryFn: () => getDoctors(departmentId),
+    enabled: mode === 'transfer' && !!departmentId,
+  })
+  const targetDoctors = doctors.filter((doctor) => doctor.id !== queue.doctorId)
+
+  const onSubmit = async (data: MoveFormData) => {
+    if (mode === 'transfer' && !data.doctorId) {
+      setError('doctorId', { message: '请选择医生' })
+      return
+    }
+
+    try {
+      if (mode === 'recall') {
+        await recallQueue(queue.id, data.position)
+      } else {
+        await transferQueue(queue.id, data.doctorId!)
+      }
+      toast.success(mode === 'recall' ? '已回队' : '已转诊')
+      onSuccess()
+    } catch (error: any) {
+      toast.error(error.response?.data?.error?.message || `${modeTitles[mode]}失败`)
+    }
+  }
+
+  return (
+    <Modal
+      open
+      onClose={onClose}
+      title={modeTitles[mode]}
+      description={`排队号 ${queue.queueNumber} · ${queue.patientName || '未命名患者'}`}
+      size="sm"
+    >
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+        {mode === 'recall' ? (
+          <Input
+            label="排在第几位"
+            type="number"
+            min={1}
+            required
+            {...register('position')}
+            error={errors.position?.message}
+            helperText="急诊、紧急患者始终排在前面"
+          />
+        ) : (
+          <NativeSelect
+            label="转至医生"
+            required
+            {...register('doctorId')}
+            error={errors.doctorId?.message}
+            helperText="保留原排队时间"
+          >
+            <option value="">请选择医生</option>
+            {targetDoctors.map((doctor) => (
+              <option key={doctor.id} value={doctor.id}>
+                {doctor.name}
+                {doctor.title ? ` (${doctor.title})` : ''}
+              </option>
+            ))}
+          </NativeSelect>
+        )}
+
+        {/* 表单按钮 */}
+        <div className="flex justify-end gap-4 pt-4 border-t border-white/10">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+            取消
+          </Button>
+          <Button type="submit" variant="neon" disabled={isSubmitting}>
+            {isSubmitting ? '提交中...' : '确定'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  )
+}
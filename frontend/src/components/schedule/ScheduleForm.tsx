@@ -0,0 +1,169 @@
+/**
+ * 医生排班表单组件 - 新增/编辑排班
+ */
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { toast } from 'sonner'
+import { Modal } from '@/components/ui/Modal'
+import { Input } from '@/components/ui/Input'
+import { NativeSelect } from '@/components/ui/NativeSelect'
+import { Button } from '@/components/ui/Button'
+import { TimeSlotBackend } from '@/api/appointment.api'
+import {
+  createSchedule,
+  updateSchedule,
+  timeSlotLabels,
+  weekdayLabels,
+  type DoctorSchedule,
+} from '@/api/schedule.api'
+import type { Doctor } from '@/api/doctor.api'
+
+// 各时间段默认出诊时间
+const defaultTimes: Record<TimeSlotBackend, { startTime: string; endTime: string }> = {
+  MORNING: { startTime: '08:00', endTime: '12:00' },
+  AFTERNOON: { startTime: '14:00', endTime: '17:30' },
+  EVENING: { startTime: '18:00', endTime: '21:00' },
+}
+
+const scheduleSchema = z
+  .object({
+    doctorId: z.string().min(1, '请选择医生'),
+    dayOfWeek: z.coerce.number().int().min(0).max(6),
+    timeSlot: z.nativeEnum(TimeSlotBackend),
+    startTime: z.string().regex(/^\d{2}:\d{2}$/, '请输入开始时间'),
+    endTime: z.string().regex(/^\d{2}:\d{2}$/, '请输入结束时间'),
+    maxPatients: z.coerce.number().int('号源数量必须为整数').min(1, '号源数量至少为1'),
+  })
+  .refine((data) => data.startTime < data.endTime, {
+    message: '结束时间必须晚于开始时间',
+    path: ['endTime'],
+  })
+
+type ScheduleFormData = z.infer<typeof scheduleSchema>
+
+interface ScheduleFormProps {
+  doctors: Doctor[]
+  schedule?: DoctorSchedule // 传入时为编辑模式
+  defaultDoctorId?: string
+  onClose: () => void
+  onSuccess: () => void
+}
+
+export function ScheduleForm({ doctors, schedule, defaultDoctorId, onClose, onSuccess }: ScheduleFormProps) {
+  const isEdit = !!schedule
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    formState: { errors, isSubmitting },
+  } = useForm<ScheduleFormData>({
+    resolver: zodResolver(scheduleSchema),
+    defaultValues: {
+      doctorId: schedule?.doctorId || defaultDoctorId || '',
+      dayOfWeek: schedule?.dayOfWeek ?? 1,
+      timeSlot: schedule?.timeSlot || TimeSlotBackend.MORNING,
+      startTime: schedule?.startTime || defaultTimes.MORNING.startTime,
+      endTime: schedule?.endTime || defaultTimes.MORNING.endTime,
+      maxPatients: schedule?.maxPatients || 20,
+    },
+  })
+
+  const onSubmit = async (data: ScheduleFormData) => {
+    try {
+      if (isEdit) {
+        await updateSchedule(schedule.id, {
+          startTime: data.startTime,
+          endTime: data.endTime,
+          maxPatients: data.maxPatients,
+        })
+      } else {
+        await createSchedule(data)
+      }
+      toast.success(isEdit ? '排班已更新' : '排班已创建')
+      onSuccess()
+    } catch (error: any) {
+      toast.error(error.response?.data?.error?.message || (isEdit ? '更新排班失败' : '创建排班失败'))
+    }
+  }
+
+  return (
+    <Modal
+      open
+      onClose={onClose}
+      title={isEdit ? '编辑排班' : '新增排班'}
+      description={
+        isEdit
+          ? `${schedule.doctor?.name || ''} · ${weekdayLabels[schedule.dayOfWeek]} · ${timeSlotLabels[schedule.timeSlot]}`
+          : undefined
+      }
+      size="md"
+    >
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+        {/* 医生、星期和时间段创建后不可修改 */}
+        {!isEdit && (
+          <>
+            <NativeSelect label="医生" required {...register('doctorId')} error={errors.doctorId?.message}>
+              <option value="">请选择医生</option>
+              {doctors.map((doctor) => (
+                <option key={doctor.id} value={doctor.id}>
+                  {doctor.name}
+                  {doctor.title ? ` (${doctor.title})` : ''}
+                </option>
+              ))}
+            </NativeSelect>
+            <div className="grid grid-cols-2 gap-4">
+              <NativeSelect label="星期" required {...register('dayOfWeek')}>
+                {weekdayLabels.map((label, index) => (
+                  <option key={label} value={index}>
+                    {label}
+                  </option>
+                ))}
+              </NativeSelect>
+              <NativeSelect
+                label="时间段"
+                required
+                {...register('timeSlot', {
+                  onChange: (e) => {
+                    const times = defaultTimes[e.target.value as TimeSlotBackend]
+                    setValue('startTime', times.startTime)
+                    setValue('endTime', times.endTime)
+                  },
+                })}
+              >
+                {Object.values(TimeSlotBackend).map((slot) => (
+                  <option key={slot} value={slot}>
+                    {timeSlotLabels[slot]}
+                  </option>
+                ))}
+              </NativeSelect>
+            </div>
+          </>
+        )}
+        <div className="grid grid-cols-2 gap-4">
+          <Input label="开始时间" type="time" required {...register('startTime')} error={errors.startTime?.message} />
+          <Input label="结束时间" type="time" required {...register('endTime')} error={errors.endTime?.message} />
+        </div>
+        <Input
+          label="号源数量"
+          type="number"
+          min={1}
+          required
+          {...register('maxPatients')}
+          error={errors.maxPatients?.message}
+          helperText="减少号源不影响已有挂号，只限制后续预约"
+        />
+
+        {/* 表单按钮 */}
+        <div className="flex justify-end gap-4 pt-4 border-t border-white/10">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+            取消
+          </Button>
+          <Button type="submit" variant="neon" disabled={isSubmitting}>
+            {isSubmitting ? '提交中...' : '保存'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  )
+}
@@ -0,0 +1,74 @@
+/**
+ * 站内通知Hook - 获取通知列表和未读数，并通过WebSocket接收实时推送
+ *
+ * 推送断开时回退到定时轮询；同一用户在其他标签页已读或删除的通知也会同步
+ */
+import { useEffect, useRef, useState } from 'react'
+import { io } from 'socket.io-client'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { getNotifications } from '@/api/notification.api'
+import type { Notification } from '@/api/notification.api'
+import { STORAGE_KEYS, WS_EVENTS, WS_URL } from '@/utils/constants'
+
+export const NOTIFICATIONS_QUERY_KEY = ['notifications']
+
+const POLL_INTERVAL = 60_000 // 推送不可用时的轮询间隔
+
+interface UseNotificationsOptions {
+  enabled?: boolean
+  pageSize?: number
+  onNotification?: (notification: Notification) => void // 收到新通知
+}
+
+export function useNotifications({ enabled = true, pageSize = 20, onNotification }: UseNotificationsOptions = {}) {
+  const queryClient = useQueryClient()
+  const [connected, setConnected] = useState(false)
+
+  // 回调放在ref中，避免回调变化导致重新连接
+  const onNotificationRef = useRef(onNotification)
+  onNotificationRef.current = onNotification
+
+  const query = useQuery({
+    queryKey: [...NOTIFICATIONS_QUERY_KEY, pageSize],
+    queryFn: () => getNotifications({ pageSize }),
+    enabled,
+    refetchInterval: connected ? false : POLL_INTERVAL,
+  })
+
+  useEffect(() => {
+    if (!enabled || !localStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN)) {
+      return
+    }
+
+    const socket = io(WS_URL || undefined, {
+      auth: (cb) => cb({ token: localStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN) }),
+      transports: ['websocket'],
+    })
+    const refresh = () => queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_QUERY_KEY })
+
+    socket.on(WS_EVENTS.CONNECT, () => {
+      setConnected(true)
+      // 断线期间可能错过推送，重连后重新拉取
+      refresh()
+    })
+    socket.on(WS_EVENTS.DISCONNECT, () => setConnected(false))
+    socket.on(WS_EVENTS.CONNECT_ERROR, () => setConnected(false))
+    socket.on(WS_EVENTS.NOTIFICATION_NEW, (notification: Notification) => {
+      refresh()
+      onNotificationRef.current?.(notification)
+    })
+    socket.on(WS_EVENTS.NOTIFICATION_CHANGE, refresh)
+
+    return () => {
+      socket.disconnect()
+      setConnected(false)
+    }
+  }, [enabled, queryClient])
+
+  return {
+    notifications: query.data?.notifications ?? [],
+    unreadCount: query.data?.unreadCount ?? 0,
+    isLoading: query.isLoading,
+    connected,
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * 排队实时事件Hook - 通过WebSocket订阅科室/医生的排队变化
+ *
+ * 未登录、连接失败、订阅被拒绝或断开时 connected 为 false，页面应回退到定时轮询
+ */
+import { useEffect, useRef, useState } from 'react'
+import { io } from 'socket.io-client'
+import { STORAGE_KEYS, WS_EVENTS, WS_URL } from '@/utils/constants'
+
+export type QueueEventType =
+  | 'created'
+  | 'called'
+  | 'completed'
+  | 'cancelled'
+  | 'skipped'
+  | 'recalled'
+  | 'transferred'
+  | 'no_show'
+
+/**
+ * 服务端推送的排队事件（不含患者信息，收到后应重新拉取列表）
+ */
+export interface QueueEvent {
+  type: QueueEventType
+  queueId: string
+  appointmentId: string
+  queueNumber: number
+  status: string
+  departmentId: string
+  doctorId: string
+  occurredAt: string
+}
+
+interface UseQueueEventsOptions {
+  departmentId?: string
+  doctorId?: string
+  enabled?: boolean
+  onEvent?: (event: QueueEvent) => void // 任意排队变化
+  onCall?: (event: QueueEvent) => void // 叫号
+}
+
+export function useQueueEvents({ departmentId, doctorId, enabled = true, onEvent, onCall }: UseQueueEventsOptions) {
+  const [connected, setConnected] = useState(false)
+
+  // 回调放在ref中，避免回调变化导致重新连接
+  const handlersRef = useRef({ onEvent, onCall })
+  handlersRef.current = { onEvent, onCall }
+
+  useEffect(() => {
+    if (!enabled || (!departmentId && !doctorId)) {
+      return
+    }
+    if (!localStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN)) {
+      return
+    }
+
+    const socket = io(WS_URL || undefined, {
+      // 每次（重新）连接时读取最新Token
+      auth: (cb) => cb({ token: localStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN) }),
+      transports: ['websocket'],
+    })
+
+    // 重连后房间订阅会丢失，每次连接成功都重新订阅；服务端确认订阅后才停止轮询
+    socket.on(WS_EVENTS.CONNECT, () => {
+      socket.emit(
+        WS_EVENTS.QUEUE_SUBSCRIBE,
+        { departmentId, doctorId },
+        (response: { success: boolean; message?: string }) => setConnected(response.success)
+      )
+    })
+    socket.on(WS_EVENTS.DISCONNECT, () => setConnected(false))
+    socket.on(WS_EVENTS.CONNECT_ERROR, () => setConnected(false))
+    socket.on(WS_EVENTS.QUEUE_UPDATE, (event: QueueEvent) => handlersRef.current.onEvent?.(event))
+    socket.on(WS_EVENTS.QUEUE_CALL, (event: QueueEvent) => handlersRef.current.onCall?.(event))
+
+    return () => {
+      socket.disconnect()
+      setConnected(false)
+    }
+  }, [departmentId, doctorId, enabled])
+
+  return { connected }
+}
@@ -0,0 +1,352 @@
+/**
+ * AI提示词管理页面 - 编辑、预览和回滚AI辅助功能使用的提示词（仅管理员）
+ */
+import { useEffect, useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { Bot, Eye, History, RotateCcw, Save } from 'lucide-react'
+import { toast } from 'sonner'
+import { DashboardLayout } from '@/components/layout/DashboardLayout'
+import { Card } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Textarea } from '@/components/ui/Textarea'
+import { NativeSelect } from '@/components/ui/NativeSelect'
+import { Badge } from '@/components/ui/Badge'
+import { Loading } from '@/components/ui/Loading'
+import {
+  getPrompts,
+  getPromptVersions,
+  createPromptVersion,
+  previewPrompt,
+  activatePromptVersion,
+  resetPrompt,
+  getSchemaViolationStats,
+  type PromptPreview,
+} from '@/api/ai-prompt.api'
+import { getDepartments } from '@/api/department.api'
+import { formatDateTime } from '@/utils/format'
+import { cn } from '@/utils/cn'
+
+export function AIPromptManagementPage() {
+  const queryClient = useQueryClient()
+  const [selectedKey, setSelectedKey] = useState<string | null>(null)
+  const [departmentId, setDepartmentId] = useState('')
+  const [draft, setDraft] = useState({ system: '', user: '' })
+  const [note, setNote] = useState('')
+  const [preview, setPreview] = useState<PromptPreview | null>(null)
+
+  const { data: prompts = [], isLoading } = useQuery({
+    queryKey: ['ai-prompts'],
+    queryFn: getPrompts,
+  })
+
+  const { data: departments = [] } = useQuery({
+    queryKey: ['departments'],
+    queryFn: getDepartments,
+  })
+
+  const { data: schemaStats = [] } = useQuery({
+    queryKey: ['ai-schema-violations'],
+    queryFn: () => getSchemaViolationStats(7),
+  })
+
+  const currentKey = selectedKey ?? prompts[0]?.key
+  const current = prompts.find((prompt) => prompt.key === currentKey)
+
+  const { data: versionList } = useQuery({
+    queryKey: ['ai-prompt-versions', currentKey, departmentId],
+    queryFn: () => getPromptVersions(currentKey!, departmentId || undefined),
+    enabled: !!currentKey,
+  })
+
+  // 切换提示词或科室后，编辑区载入当前激活的版本
+  useEffect(() => {
+    if (!versionList) return
+    const active = versionList.versions.find((version) => version.isActive) ?? versionList.default
+    setDraft({ system: active.system, user: active.user })
+    setNote('')
+    setPreview(null)
+  }, [versionList])
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['ai-prompts'] })
+    queryClient.invalidateQueries({ queryKey: ['ai-prompt-versions', currentKey] })
+  }
+
+  const onError = (fallback: string) => (error: any) => {
+    toast.error(error.response?.data?.error?.message || fallback)
+  }
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      createPromptVersion(currentKey!, {
+        ...draft,
+        departmentId: departmentId || undefined,
+        note: note.trim() || undefined,
+      }),
+    onSuccess: (version) => {
+      toast.success(`已保存并启用版本 v${version.version}`)
+      refresh()
+    },
+    onError: onError('保存提示词失败'),
+  })
+
+  const previewMutation = useMutation({
+    mutationFn: () => previewPrompt(currentKey!, draft, departmentId || undefined),
+    onSuccess: setPreview,
+    onError: onError('预览提示词失败'),
+  })
+
+  const activateMutation = useMutation({
+    mutationFn: activatePromptVersion,
+    onSuccess: (version) => {
+      toast.success(`已切换到版本 v${version.version}`)
+      refresh()
+    },
+    onError: onError('切换版本失败'),
+  })
+
+  const resetMutation = useMutation({
+    mutationFn: () => resetPrompt(currentKey!, departmentId || undefined),
+    onSuccess: () => {
+      toast.success(departmentId ? '已恢复为全院提示词' : '已恢复默认提示词')
+      refresh()
+    },
+    onError: onError('恢复默认失败'),
+  })
+
+  const activeVersion = versionList?.versions.find((version) => version.isActive)
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* 页面标题 */}
+        <div>
+          <h1 className="text-3xl font-bold text-gradient">AI提示词管理</h1>
+          <p className="text-text-secondary mt-2">
+            编辑AI辅助功能使用的提示词，每次保存生成新版本，可按科室单独配置并随时回滚
+          </p>
+        </div>
+
+        {/* 结构化输出质量 */}
+        {schemaStats.length > 0 && (
+          <Card className="card-neon p-4">
+            <div className="text-sm text-text-secondary mb-3">近7天结构化输出违规率（含格式修复重试）</div>
+            <div className="flex flex-wrap gap-6">
+              {schemaStats.map((stat) => (
+                <div key={stat.provider}>
+                  <div className="text-xs text-text-tertiary uppercase">{stat.provider}</div>
+                  <div
+                    className={cn(
+                      'text-2xl font-semibold',
+                      stat.violationRate > 0.1 ? 'text-error-500' : 'text-text-primary'
+                    )}
+                  >
+                    {(stat.violationRate * 100).toFixed(1)}%
+                  </div>
+                  <div className="text-xs text-text-tertiary">
+                    {stat.violations} / {stat.total} 次
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        {isLoading ? (
+          <Loading />
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+            {/* 提示词列表 */}
+            <Card className="card-neon p-2 lg:col-span-1 h-fit">
+              {prompts.map((prompt) => (
+                <button
+                  key={prompt.key}
+                  onClick={() => setSelectedKey(prompt.key)}
+                  className={cn(
+                    'w-full text-left px-3 py-2 rounded-lg transition-colors',
+                    prompt.key === currentKey
+                      ? 'bg-primary-500/20 text-primary-400'
+                      : 'text-text-secondary hover:bg-background-tertiary'
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium">{prompt.name}</span>
+                    <span className="text-xs text-text-tertiary">
+                      {prompt.activeVersion ? `v${prompt.activeVersion}` : '默认'}
+                    </span>
+                  </div>
+                  {prompt.departmentOverrides.length > 0 && (
+                    <div className="text-xs text-text-tertiary mt-1">
+                      {prompt.departmentOverrides.length} 个科室单独配置
+                    </div>
+                  )}
+                </button>
+              ))}
+            </Card>
+
+            {current && (
+              <div className="lg:col-span-3 space-y-6">
+                {/* 编辑区 */}
+                <Card className="card-neon p-6 space-y-4">
+                  <div className="flex flex-wrap items-start justify-between gap-4">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <Bot className="w-5 h-5 text-primary-400" />
+                        <h2 className="text-xl font-semibold text-text-primary">{current.name}</h2>
+                        <Badge variant={activeVersion ? 'primary' : 'gray'} size="sm">
+                          {activeVersion ? `v${activeVersion.version}` : departmentId ? '使用全院提示词' : '内置默认'}
+                        </Badge>
+                      </div>
+                      <p className="text-sm text-text-secondary mt-1">{current.description}</p>
+                    </div>
+                    <NativeSelect value={departmentId} onChange={(e) => setDepartmentId(e.target.value)}>
+                      <option value="">全院</option>
+                      {departments.map((department) => (
+                        <option key={department.id} value={department.id}>
+                          {department.name}
+                        </option>
+                      ))}
+                    </NativeSelect>
+                  </div>
+
+                  {/* 可用变量 */}
+                  <div className="flex flex-wrap gap-2 text-xs">
+                    {current.variables.map((variable) => (
+                      <span
+                        key={variable.name}
+                        title={`示例：${variable.sample}`}
+                        className="px-2 py-1 rounded bg-background-tertiary text-text-secondary font-mono"
+                      >
+                        {`{{${variable.name}}}`} {variable.label}
+                      </span>
+                    ))}
+                  </div>
+                  <p className="text-xs text-text-tertiary">
+                    变量为空时所在行会被省略；{'{{#变量}}…{{/变量}}'} 包裹的段落仅在变量有值时保留
+                  </p>
+
+                  <Textarea
+                    label="系统提示词"
+                    rows={3}
+                    fullWidth
+                    value={draft.system}
+                    onChange={(e) => setDraft((prev) => ({ ...prev, system: e.target.value }))}
+                  />
+                  <Textarea
+                    label="用户提示词"
+                    rows={14}
+                    fullWidth
+                    className="font-mono text-sm"
+                    value={draft.user}
+                    onChange={(e) => setDraft((prev) => ({ ...prev, user: e.target.value }))}
+                  />
+                  <Input
+                    placeholder="修改说明（可选）"
+                    value={note}
+                    maxLength={200}
+                    onChange={(e) => setNote(e.target.value)}
+                  />
+
+                  <div className="flex flex-wrap justify-end gap-2">
+                    <Button
+                      variant="ghost"
+                      icon={<RotateCcw className="w-4 h-4" />}
+                      disabled={!activeVersion}
+                      loading={resetMutation.isPending}
+                      onClick={() => resetMutation.mutate()}
+                    >
+                      {departmentId ? '恢复全院提示词' : '恢复默认'}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      icon={<Eye className="w-4 h-4" />}
+                      loading={previewMutation.isPending}
+                      onClick={() => previewMutation.mutate()}
+                    >
+                      预览
+                    </Button>
+                    <Button
+                      icon={<Save className="w-4 h-4" />}
+                      disabled={!draft.system.trim() || !draft.user.trim()}
+                      loading={saveMutation.isPending}
+                      onClick={() => saveMutation.mutate()}
+                    >
+                      保存为新版本
+                    </Button>
+                  </div>
+
+                  {/* 预览 */}
+                  {preview && (
+                    <div className="space-y-2">
+                      <div className="text-sm text-text-secondary">预览（示例变量）</div>
+                      <pre className="p-3 rounded-lg bg-background-secondary text-sm text-text-primary whitespace-pre-wrap">
+                        {preview.system}
+                      </pre>
+                      <pre className="p-3 rounded-lg bg-background-secondary text-sm text-text-primary whitespace-pre-wrap">
+                        {preview.user}
+                      </pre>
+                    </div>
+                  )}
+                </Card>
+
+                {/* 版本历史 */}
+                <Card className="card-neon p-6">
+                  <div className="flex items-center gap-2 mb-4">
+                    <History className="w-5 h-5 text-primary-400" />
+                    <h3 className="text-lg font-semibold text-text-primary">版本历史</h3>
+                  </div>
+                  {versionList?.versions.length ? (
+                    <div className="space-y-2">
+                      {versionList.versions.map((version) => (
+                        <div
+                          key={version.id}
+                          className="flex items-center justify-between gap-4 p-3 rounded-lg bg-background-tertiary"
+                        >
+                          <div className="min-w-0">
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium text-text-primary">v{version.version}</span>
+                              {version.isActive && (
+                                <Badge variant="success" size="sm">
+                                  使用中
+                                </Badge>
+                              )}
+                              <span className="text-xs text-text-tertiary">{formatDateTime(version.createdAt)}</span>
+                            </div>
+                            {version.note && <div className="text-sm text-text-secondary truncate">{version.note}</div>}
+                          </div>
+                          <div className="flex gap-2 shrink-0">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setDraft({ system: version.system, user: version.user })}
+                            >
+                              载入
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={version.isActive}
+                              loading={activateMutation.isPending && activateMutation.variables === version.id}
+                              onClick={() => activateMutation.mutate(version.id)}
+                            >
+                              启用
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="text-sm text-text-secondary">
+                      {departmentId ? '该科室暂无单独配置，使用全院提示词' : '暂无自定义版本，使用内置默认提示词'}
+                    </div>
+                  )}
+                </Card>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  )
+}
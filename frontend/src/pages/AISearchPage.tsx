@@ -71,7 +71,8 @@ export function AISearchPage() {
 
   const [searchResults, setSearchResults] = useState<{
     records: MedicalRecord[]
-    relevanceScores: { recordId: string; score: number }[]
+    relevanceScores: { recordId: string; score: number; matchedContent?: string }[]
+    keywords: string[]
     explanation: string
   } | null>(null)
 
@@ -119,20 +120,30 @@ export function AISearchPage() {
     return scoreData ? scoreData.score : 0
   }
 
+  // 获取命中内容片段
+  const getMatchedContent = (recordId: string) => {
+    return searchResults?.relevanceScores.find(s => s.recordId === recordId)?.matchedContent || ''
+  }
+
   // 高亮关键词
   const highlightText = (text: string, keywords: string[]) => {
-    if (!keywords || keywords.length === 0) return text
+    const escaped = text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+    if (!keywords || keywords.length === 0) return escaped
 
-    let result = text
+    let result = escaped
     keywords.forEach(keyword => {
-      const regex = new RegExp(`(${keyword})`, 'gi')
+      const regex = new RegExp(`(${keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi')
       result = result.replace(regex, '<mark class="bg-primary-500/30 text-primary-300">$1</mark>')
     })
     return result
   }
 
-  // 提取关键词（简单实现）
+  // 检索关键词（优先使用后端实际参与检索的关键词）
   const extractKeywords = () => {
+    if (searchResults?.keywords.length) return searchResults.keywords
     return query.split(/\s+/).filter(k => k.length > 1)
   }
 
@@ -287,6 +298,7 @@ export function AISearchPage() {
                 <div className="grid grid-cols-1 gap-4">
                   {searchResults.records.map((record, index) => {
                     const relevanceScore = getRelevanceScore(record.id)
+                    const matchedContent = getMatchedContent(record.id)
                     const statusConfig = statusBadgeMap[record.status]
 
                     return (
@@ -367,6 +379,17 @@ export function AISearchPage() {
                                     }}
                                   />
                                 </div>
+                                {matchedContent && (
+                                  <div>
+                                    <span className="text-sm text-text-tertiary">命中: </span>
+                                    <span
+                                      className="text-sm text-text-secondary"
+                                      dangerouslySetInnerHTML={{
+                                        __html: highlightText(matchedContent, extractKeywords())
+                                      }}
+                                    />
+                                  </div>
+                                )}
                               </div>
 
                               {/* 相关性进度条 */}
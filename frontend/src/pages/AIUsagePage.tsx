@@ -0,0 +1,370 @@
+/**
+ * AI用量与配额页面 - 按科室/用户/服务商/模型/功能查看AI用量和估算费用，配置用量配额（仅管理员）
+ */
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { Coins, Gauge, Save, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { DashboardLayout } from '@/components/layout/DashboardLayout'
+import { Card } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { NativeSelect } from '@/components/ui/NativeSelect'
+import { DataTable } from '@/components/ui/DataTable'
+import { Badge } from '@/components/ui/Badge'
+import {
+  getAIUsageSummary,
+  getAIQuotas,
+  setAIQuota,
+  deleteAIQuota,
+  quotaScopeLabels,
+  quotaPeriodLabels,
+  type AIQuota,
+  type AIQuotaPeriod,
+  type AIQuotaScope,
+  type AIUsageGroup,
+  type AIUsageGroupBy,
+  type AIUsageSummaryParams,
+} from '@/api/ai-usage.api'
+import { getPrompts } from '@/api/ai-prompt.api'
+import { getDepartments } from '@/api/department.api'
+import { getDoctors } from '@/api/doctor.api'
+import { formatCurrency, formatNumber, formatPercent } from '@/utils/format'
+
+const groupByLabels: Record<AIUsageGroupBy, string> = {
+  department: '科室',
+  user: '用户',
+  provider: '服务商',
+  model: '模型',
+  feature: '功能',
+}
+
+// 不经过提示词管理的功能
+const featureLabels: Record<string, string> = {
+  chat: 'AI问诊',
+  'chat-summary': 'AI问诊摘要',
+}
+
+const emptyQuotaForm = {
+  scope: 'DEPARTMENT' as AIQuotaScope,
+  targetId: '',
+  period: 'MONTHLY' as AIQuotaPeriod,
+  softLimit: '',
+  hardLimit: '',
+}
+
+const formatLimit = (value: number | null) => (value === null ? '-' : formatNumber(value, 0))
+
+export function AIUsagePage() {
+  const queryClient = useQueryClient()
+  const [params, setParams] = useState<AIUsageSummaryParams>({ groupBy: 'department' })
+  const [quotaForm, setQuotaForm] = useState(emptyQuotaForm)
+
+  const { data: summary, isLoading } = useQuery({
+    queryKey: ['ai-usage-summary', params],
+    queryFn: () => getAIUsageSummary(params),
+  })
+
+  const { data: quotas = [], isLoading: quotasLoading } = useQuery({
+    queryKey: ['ai-quotas'],
+    queryFn: getAIQuotas,
+  })
+
+  const { data: prompts = [] } = useQuery({
+    queryKey: ['ai-prompts'],
+    queryFn: getPrompts,
+    enabled: params.groupBy === 'feature',
+  })
+
+  const { data: departments = [] } = useQuery({
+    queryKey: ['departments'],
+    queryFn: getDepartments,
+  })
+
+  const { data: doctors = [] } = useQuery({
+    queryKey: ['doctors'],
+    queryFn: () => getDoctors(),
+  })
+
+  const onError = (fallback: string) => (error: any) => {
+    toast.error(error.response?.data?.error?.message || fallback)
+  }
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      setAIQuota({
+        scope: quotaForm.scope,
+        targetId: quotaForm.targetId || null,
+        period: quotaForm.period,
+        softLimit: quotaForm.softLimit ? Number(quotaForm.softLimit) : null,
+        hardLimit: quotaForm.hardLimit ? Number(quotaForm.hardLimit) : null,
+      }),
+    onSuccess: () => {
+      toast.success('配额已保存')
+      setQuotaForm(emptyQuotaForm)
+      queryClient.invalidateQueries({ queryKey: ['ai-quotas'] })
+    },
+    onError: onError('保存配额失败'),
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteAIQuota,
+    onSuccess: () => {
+      toast.success('配额已删除')
+      queryClient.invalidateQueries({ queryKey: ['ai-quotas'] })
+    },
+    onError: onError('删除配额失败'),
+  })
+
+  const updateFilter = (patch: Partial<AIUsageSummaryParams>) => {
+    setParams((prev) => ({ ...prev, ...patch }))
+  }
+
+  const promptNames = new Map(prompts.map((prompt) => [prompt.key, prompt.name]))
+  const groupLabel = (group: AIUsageGroup) =>
+    params.groupBy === 'feature' && group.key
+      ? promptNames.get(group.key) ?? featureLabels[group.key] ?? group.label
+      : group.label
+
+  const totals = summary?.totals
+  const groups = (summary?.groups ?? []).map((group) => ({ ...group, id: group.key ?? '-' }))
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* 页面标题 */}
+        <div>
+          <h1 className="text-3xl font-bold text-gradient">AI用量与配额</h1>
+          <p className="text-text-secondary mt-2">
+            统计各科室、用户的AI调用量和估算费用，用于费用分摊；配置每日/每月tokens配额
+          </p>
+        </div>
+
+        {/* 筛选 */}
+        <Card className="card-neon p-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Input
+              type="date"
+              value={params.startDate || ''}
+              onChange={(e) => updateFilter({ startDate: e.target.value || undefined })}
+            />
+            <Input
+              type="date"
+              value={params.endDate || ''}
+              onChange={(e) => updateFilter({ endDate: e.target.value || undefined })}
+            />
+            <NativeSelect
+              value={params.groupBy}
+              onChange={(e) => updateFilter({ groupBy: e.target.value as AIUsageGroupBy })}
+            >
+              {Object.entries(groupByLabels).map(([groupBy, label]) => (
+                <option key={groupBy} value={groupBy}>
+                  按{label}汇总
+                </option>
+              ))}
+            </NativeSelect>
+          </div>
+          <p className="text-xs text-text-tertiary mt-3">未选择日期时统计本月1日至今天</p>
+        </Card>
+
+        {/* 合计 */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Card className="card-neon p-4">
+            <div className="text-sm text-text-secondary">调用次数</div>
+            <div className="text-2xl font-semibold text-text-primary">{formatNumber(totals?.requests, 0)}</div>
+          </Card>
+          <Card className="card-neon p-4">
+            <div className="text-sm text-text-secondary">总tokens</div>
+            <div className="text-2xl font-semibold text-text-primary">{formatNumber(totals?.totalTokens, 0)}</div>
+          </Card>
+          <Card className="card-neon p-4">
+            <div className="text-sm text-text-secondary">输入 / 输出tokens</div>
+            <div className="text-lg font-semibold text-text-primary">
+              {formatNumber(totals?.promptTokens, 0)} / {formatNumber(totals?.completionTokens, 0)}
+            </div>
+          </Card>
+          <Card className="card-neon p-4">
+            <div className="flex items-center gap-2 text-sm text-text-secondary">
+              <Coins className="w-4 h-4" />
+              估算费用
+            </div>
+            <div className="text-2xl font-semibold text-primary-400">{formatCurrency(totals?.cost)}</div>
+          </Card>
+        </div>
+
+        {/* 分组明细 */}
+        <Card className="card-neon">
+          <DataTable
+            columns={[
+              {
+                key: 'label',
+                title: groupByLabels[params.groupBy ?? 'department'],
+                render: (group: AIUsageGroup) => (
+                  <span className="font-medium text-text-primary">{groupLabel(group)}</span>
+                ),
+              },
+              { key: 'requests', title: '调用次数', render: (group: AIUsageGroup) => formatNumber(group.requests, 0) },
+              {
+                key: 'promptTokens',
+                title: '输入tokens',
+                render: (group: AIUsageGroup) => formatNumber(group.promptTokens, 0),
+              },
+              {
+                key: 'completionTokens',
+                title: '输出tokens',
+                render: (group: AIUsageGroup) => formatNumber(group.completionTokens, 0),
+              },
+              {
+                key: 'totalTokens',
+                title: '总tokens',
+                render: (group: AIUsageGroup) => formatNumber(group.totalTokens, 0),
+              },
+              { key: 'cost', title: '估算费用', render: (group: AIUsageGroup) => formatCurrency(group.cost) },
+              {
+                key: 'share',
+                title: '费用占比',
+                render: (group: AIUsageGroup) => {
+                  const share = totals?.cost ? group.cost / totals.cost : 0
+                  return (
+                    <div className="flex items-center gap-2 min-w-[120px]">
+                      <div className="flex-1 h-2 rounded-full bg-background-tertiary overflow-hidden">
+                        <div className="h-full bg-primary-500" style={{ width: `${share * 100}%` }} />
+                      </div>
+                      <span className="text-xs text-text-secondary w-12 text-right">{formatPercent(share, 1)}</span>
+                    </div>
+                  )
+                },
+              },
+            ]}
+            data={groups}
+            loading={isLoading}
+            emptyText="所选时间范围内暂无AI调用"
+          />
+        </Card>
+
+        {/* 配额配置 */}
+        <Card className="card-neon p-6 space-y-4">
+          <div className="flex items-center gap-2">
+            <Gauge className="w-5 h-5 text-primary-400" />
+            <h3 className="text-lg font-semibold text-text-primary">用量配额</h3>
+          </div>
+          <p className="text-sm text-text-secondary">
+            超出软限制时提醒使用者，超出硬限制时拒绝AI调用；单独为用户或科室配置的配额优先于默认配额
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-6 gap-4">
+            <NativeSelect
+              value={quotaForm.scope}
+              onChange={(e) =>
+                setQuotaForm((prev) => ({ ...prev, scope: e.target.value as AIQuotaScope, targetId: '' }))
+              }
+            >
+              {Object.entries(quotaScopeLabels).map(([scope, label]) => (
+                <option key={scope} value={scope}>
+                  {label}配额
+                </option>
+              ))}
+            </NativeSelect>
+            <NativeSelect
+              value={quotaForm.targetId}
+              onChange={(e) => setQuotaForm((prev) => ({ ...prev, targetId: e.target.value }))}
+            >
+              {quotaForm.scope === 'DEPARTMENT' ? (
+                <>
+                  <option value="">默认（所有科室）</option>
+                  {departments.map((department) => (
+                    <option key={department.id} value={department.id}>
+                      {department.name}
+                    </option>
+                  ))}
+                </>
+              ) : (
+                <>
+                  <option value="">默认（所有用户）</option>
+                  {doctors.map((doctor) => (
+                    <option key={doctor.id} value={doctor.userId}>
+                      {doctor.name}（{doctor.department.name}）
+                    </option>
+                  ))}
+                </>
+              )}
+            </NativeSelect>
+            <NativeSelect
+              value={quotaForm.period}
+              onChange={(e) => setQuotaForm((prev) => ({ ...prev, period: e.target.value as AIQuotaPeriod }))}
+            >
+              {Object.entries(quotaPeriodLabels).map(([period, label]) => (
+                <option key={period} value={period}>
+                  {label}
+                </option>
+              ))}
+            </NativeSelect>
+            <Input
+              type="number"
+              min={1}
+              placeholder="软限制（tokens）"
+              value={quotaForm.softLimit}
+              onChange={(e) => setQuotaForm((prev) => ({ ...prev, softLimit: e.target.value }))}
+            />
+            <Input
+              type="number"
+              min={1}
+              placeholder="硬限制（tokens）"
+              value={quotaForm.hardLimit}
+              onChange={(e) => setQuotaForm((prev) => ({ ...prev, hardLimit: e.target.value }))}
+            />
+            <Button
+              icon={<Save className="w-4 h-4" />}
+              disabled={!quotaForm.softLimit && !quotaForm.hardLimit}
+              loading={saveMutation.isPending}
+              onClick={() => saveMutation.mutate()}
+            >
+              保存配额
+            </Button>
+          </div>
+
+          <DataTable
+            columns={[
+              {
+                key: 'scope',
+                title: '范围',
+                render: (quota: AIQuota) => <Badge variant="gray">{quotaScopeLabels[quota.scope]}</Badge>,
+              },
+              {
+                key: 'target',
+                title: '对象',
+                render: (quota: AIQuota) =>
+                  quota.targetId ? (
+                    <span className="text-text-primary">{quota.targetName}</span>
+                  ) : (
+                    <span className="text-text-secondary">默认</span>
+                  ),
+              },
+              { key: 'period', title: '周期', render: (quota: AIQuota) => quotaPeriodLabels[quota.period] },
+              { key: 'softLimit', title: '软限制', render: (quota: AIQuota) => formatLimit(quota.softLimit) },
+              { key: 'hardLimit', title: '硬限制', render: (quota: AIQuota) => formatLimit(quota.hardLimit) },
+              {
+                key: 'actions',
+                title: '操作',
+                render: (quota: AIQuota) => (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    icon={<Trash2 className="w-4 h-4" />}
+                    loading={deleteMutation.isPending && deleteMutation.variables === quota.id}
+                    onClick={() => deleteMutation.mutate(quota.id)}
+                  >
+                    删除
+                  </Button>
+                ),
+              },
+            ]}
+            data={quotas}
+            loading={quotasLoading}
+            emptyText="未配置配额，AI调用不受限制"
+          />
+        </Card>
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -24,27 +24,18 @@ import {
   getAppointments,
   getAppointmentStatistics,
   type CreateAppointmentRequest,
-  TimeSlot,
+  TimeSlotBackend,
   AppointmentPriority,
   AppointmentStatus,
   type Appointment,
-  mapTimeSlotToBackend,
 } from '@/api/appointment.api'
 import { getPatients } from '@/api/patient.api'
 import { getDepartments } from '@/api/department.api'
 import { getDoctors } from '@/api/doctor.api'
+import { getAvailableSlots, timeSlotLabels } from '@/api/schedule.api'
 import { cn } from '@/utils/cn'
 import { formatDate } from '@/utils/format'
 
-// 时间段选项
-const TIME_SLOTS: SelectOption[] = [
-  { value: TimeSlot.MORNING_EARLY, label: '早上 08:00-10:00' },
-  { value: TimeSlot.MORNING_LATE, label: '上午 10:00-12:00' },
-  { value: TimeSlot.AFTERNOON_EARLY, label: '下午 14:00-16:00' },
-  { value: TimeSlot.AFTERNOON_LATE, label: '傍晚 16:00-18:00' },
-  { value: TimeSlot.EVENING, label: '晚上 18:00-20:00' },
-]
-
 // 优先级选项
 const PRIORITY_OPTIONS: SelectOption[] = [
   { value: AppointmentPriority.NORMAL, label: '普通' },
@@ -58,7 +49,7 @@ const appointmentSchema = z.object({
   departmentId: z.string().min(1, '请选择科室'),
   doctorId: z.string().min(1, '请选择医生'),
   appointmentDate: z.string().min(1, '请选择日期'),
-  timeSlot: z.nativeEnum(TimeSlot, { errorMap: () => ({ message: '请选择时间段' }) }),
+  timeSlot: z.nativeEnum(TimeSlotBackend, { errorMap: () => ({ message: '请选择时间段' }) }),
   priority: z.nativeEnum(AppointmentPriority).optional(),
   notes: z.string().optional(),
 })
@@ -83,7 +74,7 @@ export function AppointmentPage() {
   })
 
   // 表单管理
-  const { control, handleSubmit, reset, watch, formState: { errors } } = useForm<AppointmentFormData>({
+  const { control, handleSubmit, reset, resetField, watch, formState: { errors } } = useForm<AppointmentFormData>({
     resolver: zodResolver(appointmentSchema),
     defaultValues: {
       priority: AppointmentPriority.NORMAL,
@@ -91,6 +82,8 @@ export function AppointmentPage() {
   })
 
   const watchDepartmentId = watch('departmentId')
+  const watchDoctorId = watch('doctorId')
+  const watchAppointmentDate = watch('appointmentDate')
 
   // 获取医生列表（根据选择的科室）
   const { data: doctorsData } = useQuery({
@@ -99,6 +92,13 @@ export function AppointmentPage() {
     enabled: !!watchDepartmentId,
   })
 
+  // 获取医生当天排班的时间段及剩余号源
+  const { data: slotsData, isLoading: slotsLoading } = useQuery({
+    queryKey: ['available-slots', watchDoctorId, watchAppointmentDate],
+    queryFn: () => getAvailableSlots(watchDoctorId, watchAppointmentDate),
+    enabled: !!watchDoctorId && !!watchAppointmentDate,
+  })
+
   // 获取今日挂号统计
   const { data: statistics } = useQuery({
     queryKey: ['appointment-statistics'],
@@ -128,9 +128,11 @@ export function AppointmentPage() {
       reset()
       queryClient.invalidateQueries({ queryKey: ['appointments-today'] })
       queryClient.invalidateQueries({ queryKey: ['appointment-statistics'] })
+      queryClient.invalidateQueries({ queryKey: ['available-slots'] })
     },
     onError: (error: any) => {
-      toast.error(error.response?.data?.message || '挂号失败，请重试')
+      toast.error(error.response?.data?.error?.message || error.response?.data?.message || '挂号失败，请重试')
+      queryClient.invalidateQueries({ queryKey: ['available-slots'] })
     },
   })
 
@@ -141,9 +143,10 @@ export function AppointmentPage() {
       toast.success('挂号已取消')
       queryClient.invalidateQueries({ queryKey: ['appointments-today'] })
       queryClient.invalidateQueries({ queryKey: ['appointment-statistics'] })
+      queryClient.invalidateQueries({ queryKey: ['available-slots'] })
     },
     onError: (error: any) => {
-      toast.error(error.response?.data?.message || '取消失败')
+      toast.error(error.response?.data?.error?.message || error.response?.data?.message || '取消失败')
     },
   })
 
@@ -153,7 +156,7 @@ export function AppointmentPage() {
       doctorId: data.doctorId,
       departmentId: data.departmentId,
       appointmentDate: data.appointmentDate,
-      timeSlot: mapTimeSlotToBackend(data.timeSlot),
+      timeSlot: data.timeSlot,
       priority: data.priority || AppointmentPriority.NORMAL,
       notes: data.notes,
     }
@@ -178,6 +181,21 @@ export function AppointmentPage() {
     label: `${doctor.name}${doctor.title ? ` (${doctor.title})` : ''}`,
   })) || []
 
+  // 时间段选项（只显示医生当天出诊的时间段，号源已满的不可选）
+  const timeSlotOptions: SelectOption[] = slotsData?.map((slot) => ({
+    value: slot.timeSlot,
+    label: `${timeSlotLabels[slot.timeSlot]} ${slot.startTime}-${slot.endTime}（${slot.available ? `剩余 ${slot.remaining}` : '已约满'}）`,
+    disabled: !slot.available,
+  })) || []
+
+  const timeSlotPlaceholder = !watchDoctorId || !watchAppointmentDate
+    ? '请先选择医生和日期'
+    : slotsLoading
+      ? '加载排班中...'
+      : timeSlotOptions.length === 0
+        ? '医生当天未出诊'
+        : '请选择时间段'
+
   // 状态徽章样式
   const getStatusBadge = (status: AppointmentStatus) => {
     const variants: Record<AppointmentStatus, any> = {
@@ -349,6 +367,10 @@ export function AppointmentPage() {
                   render={({ field }) => (
                     <Select
                       {...field}
+                      onChange={(value) => {
+                        field.onChange(value)
+                        resetField('timeSlot')
+                      }}
                       label="选择医生"
                       placeholder="请先选择科室"
                       options={doctorOptions}
@@ -367,6 +389,10 @@ export function AppointmentPage() {
                   render={({ field }) => (
                     <Input
                       {...field}
+                      onChange={(e) => {
+                        field.onChange(e)
+                        resetField('timeSlot')
+                      }}
                       type="date"
                       label="挂号日期"
                       error={errors.appointmentDate?.message}
@@ -385,11 +411,12 @@ export function AppointmentPage() {
                     <Select
                       {...field}
                       label="时间段"
-                      placeholder="请选择时间段"
-                      options={TIME_SLOTS}
+                      placeholder={timeSlotPlaceholder}
+                      options={timeSlotOptions}
                       error={errors.timeSlot?.message}
                       fullWidth
                       required
+                      disabled={timeSlotOptions.length === 0}
                     />
                   )}
                 />
@@ -489,7 +516,7 @@ export function AppointmentPage() {
                             </div>
                             <div className="flex items-center gap-2 text-text-secondary">
                               <Clock className="w-4 h-4" />
-                              <span>{TIME_SLOTS.find(s => s.value === appointment.timeSlot)?.label}</span>
+                              <span>{timeSlotLabels[appointment.timeSlot] || appointment.timeSlot}</span>
                             </div>
                           </div>
                           {appointment.queueNumber && (
@@ -581,7 +608,7 @@ export function AppointmentPage() {
                 <span className="text-text-secondary">就诊时间：</span>
                 <span className="text-text-primary">
                   {formatDate(createdAppointment.appointmentDate)} {' '}
-                  {TIME_SLOTS.find(s => s.value === createdAppointment.timeSlot)?.label}
+                  {timeSlotLabels[createdAppointment.timeSlot] || createdAppointment.timeSlot}
                 </span>
               </div>
             </div>
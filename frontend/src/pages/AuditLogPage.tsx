@@ -0,0 +1,235 @@
+/**
+ * 审计日志页面 - 查看用户对患者、病历、处方和用户的访问与修改记录（仅管理员）
+ */
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { DashboardLayout } from '@/components/layout/DashboardLayout'
+import { Card } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { NativeSelect } from '@/components/ui/NativeSelect'
+import { DataTable } from '@/components/ui/DataTable'
+import { Badge } from '@/components/ui/Badge'
+import { Modal } from '@/components/ui/Modal'
+import {
+  getAuditLogs,
+  auditResourceLabels,
+  type AuditLog,
+  type AuditLogQueryParams,
+  type AuditResource,
+  type AuditStatus,
+} from '@/api/audit.api'
+import { formatDateTime } from '@/utils/format'
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '-'
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+export function AuditLogPage() {
+  const [params, setParams] = useState<AuditLogQueryParams>({
+    page: 1,
+    pageSize: 20,
+  })
+  const [selectedLog, setSelectedLog] = useState<AuditLog | null>(null)
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['audit-logs', params],
+    queryFn: () => getAuditLogs(params),
+  })
+
+  const updateFilter = (patch: Partial<AuditLogQueryParams>) => {
+    setParams((prev) => ({ ...prev, ...patch, page: 1 }))
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* 页面标题 */}
+        <div>
+          <h1 className="text-3xl font-bold text-gradient">审计日志</h1>
+          <p className="text-text-secondary mt-2">患者、病历、处方和用户的全部访问与修改记录</p>
+        </div>
+
+        {/* 筛选 */}
+        <Card className="card-neon p-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            <Input
+              placeholder="用户名"
+              value={params.username || ''}
+              onChange={(e) => updateFilter({ username: e.target.value || undefined })}
+            />
+            <NativeSelect
+              value={params.resource || ''}
+              onChange={(e) => updateFilter({ resource: (e.target.value as AuditResource) || undefined })}
+            >
+              <option value="">全部资源</option>
+              {Object.entries(auditResourceLabels).map(([resource, label]) => (
+                <option key={resource} value={resource}>
+                  {label}
+                </option>
+              ))}
+            </NativeSelect>
+            <Input
+              placeholder="资源ID"
+              value={params.resourceId || ''}
+              onChange={(e) => updateFilter({ resourceId: e.target.value.trim() || undefined })}
+            />
+            <NativeSelect
+              value={params.status || ''}
+              onChange={(e) => updateFilter({ status: (e.target.value as AuditStatus) || undefined })}
+            >
+              <option value="">全部结果</option>
+              <option value="SUCCESS">成功</option>
+              <option value="FAILURE">失败</option>
+            </NativeSelect>
+            <Input
+              type="date"
+              value={params.startDate || ''}
+              onChange={(e) => updateFilter({ startDate: e.target.value || undefined })}
+            />
+            <Input
+              type="date"
+              value={params.endDate || ''}
+              onChange={(e) => updateFilter({ endDate: e.target.value || undefined })}
+            />
+          </div>
+        </Card>
+
+        <Card className="card-neon">
+          <DataTable
+            columns={[
+              {
+                key: 'createdAt',
+                title: '时间',
+                render: (log: AuditLog) => formatDateTime(log.createdAt),
+              },
+              {
+                key: 'user',
+                title: '用户',
+                render: (log: AuditLog) => (
+                  <div>
+                    <div className="font-medium text-text-primary">{log.user.username}</div>
+                    <div className="text-sm text-text-secondary">{log.ip}</div>
+                  </div>
+                ),
+              },
+              { key: 'action', title: '动作' },
+              {
+                key: 'resource',
+                title: '资源',
+                render: (log: AuditLog) => (
+                  <div>
+                    <div>{auditResourceLabels[log.resource] || log.resource}</div>
+                    <div className="text-xs text-text-tertiary font-mono">{log.resourceId || '-'}</div>
+                  </div>
+                ),
+              },
+              { key: 'method', title: '方法' },
+              {
+                key: 'status',
+                title: '结果',
+                render: (log: AuditLog) => (
+                  <Badge variant={log.status === 'SUCCESS' ? 'success' : 'error'}>
+                    {log.status === 'SUCCESS' ? '成功' : '失败'}
+                  </Badge>
+                ),
+              },
+              {
+                key: 'changes',
+                title: '变更',
+                render: (log: AuditLog) => (
+                  <Button variant="ghost" size="sm" onClick={() => setSelectedLog(log)}>
+                    {log.metadata?.changes?.length ? `${log.metadata.changes.length} 个字段` : '详情'}
+                  </Button>
+                ),
+              },
+            ]}
+            data={data?.data || []}
+            loading={isLoading}
+            emptyText="暂无审计日志"
+          />
+
+          {/* 分页 */}
+          {data && data.total > 0 && (
+            <div className="flex items-center justify-between p-4 border-t border-white/10">
+              <div className="text-sm text-text-secondary">共 {data.total} 条记录</div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={params.page === 1}
+                  onClick={() => setParams((prev) => ({ ...prev, page: (prev.page || 1) - 1 }))}
+                >
+                  上一页
+                </Button>
+                <div className="flex items-center px-4 text-sm text-text-secondary">
+                  第 {params.page} / {data.totalPages} 页
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={(params.page || 1) >= data.totalPages}
+                  onClick={() => setParams((prev) => ({ ...prev, page: (prev.page || 1) + 1 }))}
+                >
+                  下一页
+                </Button>
+              </div>
+            </div>
+          )}
+        </Card>
+      </div>
+
+      {/* 日志详情 */}
+      {selectedLog && (
+        <Modal
+          open
+          onClose={() => setSelectedLog(null)}
+          title={selectedLog.action}
+          description={`${selectedLog.user.username} · ${formatDateTime(selectedLog.createdAt)} · ${selectedLog.ip}`}
+          size="lg"
+        >
+          <div className="space-y-4 text-sm">
+            {selectedLog.errorMsg && (
+              <div className="p-3 rounded-lg bg-red-500/10 text-red-400">{selectedLog.errorMsg}</div>
+            )}
+            {selectedLog.metadata?.deleted && (
+              <div className="text-text-secondary">资源已被删除</div>
+            )}
+            {selectedLog.metadata?.changes && selectedLog.metadata.changes.length > 0 ? (
+              <table className="w-full">
+                <thead>
+                  <tr className="text-left text-text-secondary border-b border-white/10">
+                    <th className="py-2">字段</th>
+                    <th className="py-2">修改前</th>
+                    <th className="py-2">修改后</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {selectedLog.metadata.changes.map((change) => (
+                    <tr key={change.field} className="border-b border-white/5 align-top">
+                      <td className="py-2 font-mono">{change.field}</td>
+                      <td className="py-2 text-red-400 break-all">{formatValue(change.before)}</td>
+                      <td className="py-2 text-green-400 break-all">{formatValue(change.after)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <div className="text-text-secondary">无字段变更</div>
+            )}
+            {selectedLog.metadata?.query && (
+              <div>
+                <div className="text-text-secondary mb-1">查询参数</div>
+                <pre className="p-3 rounded-lg bg-background-secondary overflow-x-auto">
+                  {JSON.stringify(selectedLog.metadata.query, null, 2)}
+                </pre>
+              </div>
+            )}
+            <div className="text-text-tertiary break-all">{selectedLog.userAgent}</div>
+          </div>
+        </Modal>
+      )}
+    </DashboardLayout>
+  )
+}
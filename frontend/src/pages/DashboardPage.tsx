@@ -2,8 +2,11 @@
  * DashboardPage - 统计Dashboard页面
  * 里程碑7：智能统计报表与系统公告
  */
+import { useState } from 'react'
 import { useQuery } from '@tanstack/react-query'
 import { motion } from 'framer-motion'
+import { toast } from 'sonner'
+import { startOfMonth, subMonths } from 'date-fns'
 import {
   Users,
   Calendar,
@@ -14,6 +17,7 @@ import {
   TrendingUp,
   TrendingDown,
   Activity,
+  Download,
 } from 'lucide-react'
 import {
   LineChart,
@@ -32,6 +36,7 @@ import {
 } from 'recharts'
 import { DashboardLayout } from '@/components/layout/DashboardLayout'
 import { Card, CardHeader, CardBody } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
 import { Loading } from '@/components/ui/Loading'
 import { cn } from '@/utils/cn'
 import {
@@ -39,9 +44,12 @@ import {
   getAppointmentStatistics,
   getPrescriptionStatistics,
   getPatientStatistics,
+  exportStatistics,
   StatisticsTimeRange,
+  type StatisticsExportFormat,
 } from '@/api/statistics.api'
-import { formatCurrency } from '@/utils/format'
+import { useAuthStore } from '@/store/auth.store'
+import { formatCurrency, formatDate } from '@/utils/format'
 
 // 霓虹配色
 const NEON_COLORS = {
@@ -138,6 +146,30 @@ const StatCard = ({ title, value, icon: Icon, trend, trendLabel, color, delay =
  */
 export const DashboardPage = () => {
   const refreshInterval = 30000 // 30秒自动刷新
+  const { user } = useAuthStore()
+  const canExport = user?.permissions?.includes('report:export')
+  const [exportingFormat, setExportingFormat] = useState<StatisticsExportFormat | null>(null)
+
+  // 导出综合统计
+  const handleExport = async (format: StatisticsExportFormat) => {
+    setExportingFormat(format)
+    try {
+      const blob = await exportStatistics('dashboard', format)
+      const url = window.URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `综合统计-${formatDate(new Date())}.${format}`
+      document.body.appendChild(a)
+      a.click()
+      window.URL.revokeObjectURL(url)
+      document.body.removeChild(a)
+      toast.success('统计数据导出成功')
+    } catch (error) {
+      toast.error('统计数据导出失败')
+    } finally {
+      setExportingFormat(null)
+    }
+  }
 
   // 获取Dashboard综合统计
   const { data: dashboardStats, isLoading: isDashboardLoading } = useQuery({
@@ -153,10 +185,19 @@ export const DashboardPage = () => {
     refetchInterval: refreshInterval,
   })
 
-  // 获取处方统计（月度收入趋势）
+  // 获取处方统计（最近6个月收入趋势，含本月）
+  const revenueRange = {
+    startDate: formatDate(startOfMonth(subMonths(new Date(), 5))),
+    endDate: formatDate(new Date()),
+  }
   const { data: prescriptionStats, isLoading: isPrescriptionLoading } = useQuery({
-    queryKey: ['prescription-statistics', StatisticsTimeRange.MONTH],
-    queryFn: () => getPrescriptionStatistics({ timeRange: StatisticsTimeRange.MONTH }),
+    queryKey: ['prescription-statistics', revenueRange],
+    queryFn: () =>
+      getPrescriptionStatistics({
+        timeRange: StatisticsTimeRange.CUSTOM,
+        ...revenueRange,
+        granularity: 'month',
+      }),
     refetchInterval: refreshInterval,
   })
 
@@ -193,9 +234,35 @@ export const DashboardPage = () => {
             <h1 className="text-3xl font-bold text-gradient mb-2">数据统计 Dashboard</h1>
             <p className="text-text-secondary">实时数据监控与分析</p>
           </div>
-          <div className="flex items-center gap-2 text-sm text-text-tertiary">
-            <Activity className="w-4 h-4 animate-neon-pulse text-success-400" />
-            <span>自动刷新: 30秒</span>
+          <div className="flex items-center gap-4">
+            {canExport && (
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  icon={<Download className="w-4 h-4" />}
+                  loading={exportingFormat === 'xlsx'}
+                  disabled={exportingFormat !== null}
+                  onClick={() => handleExport('xlsx')}
+                >
+                  导出Excel
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  icon={<Download className="w-4 h-4" />}
+                  loading={exportingFormat === 'csv'}
+                  disabled={exportingFormat !== null}
+                  onClick={() => handleExport('csv')}
+                >
+                  导出CSV
+                </Button>
+              </div>
+            )}
+            <div className="flex items-center gap-2 text-sm text-text-tertiary">
+              <Activity className="w-4 h-4 animate-neon-pulse text-success-400" />
+              <span>自动刷新: 30秒</span>
+            </div>
           </div>
         </motion.div>
 
@@ -278,9 +345,9 @@ export const DashboardPage = () => {
               <CardHeader title="挂号趋势" description="最近7天挂号数量" />
               <CardBody>
                 <ResponsiveContainer width="100%" height={300}>
-                  <LineChart data={appointmentStats?.dailyTrend || []}>
+                  <LineChart data={appointmentStats?.trend || []}>
                     <CartesianGrid strokeDasharray="3 3" stroke="rgba(255, 255, 255, 0.1)" />
-                    <XAxis dataKey="date" stroke="#8C8C8C" style={{ fontSize: 12 }} />
+                    <XAxis dataKey="period" stroke="#8C8C8C" style={{ fontSize: 12 }} />
                     <YAxis stroke="#8C8C8C" style={{ fontSize: 12 }} />
                     <Tooltip
                       contentStyle={{
@@ -316,9 +383,9 @@ export const DashboardPage = () => {
               <CardHeader title="处方收入" description="最近6个月收入趋势" />
               <CardBody>
                 <ResponsiveContainer width="100%" height={300}>
-                  <BarChart data={prescriptionStats?.monthlyRevenueTrend || []}>
+                  <BarChart data={prescriptionStats?.revenueTrend || []}>
                     <CartesianGrid strokeDasharray="3 3" stroke="rgba(255, 255, 255, 0.1)" />
-                    <XAxis dataKey="month" stroke="#8C8C8C" style={{ fontSize: 12 }} />
+                    <XAxis dataKey="period" stroke="#8C8C8C" style={{ fontSize: 12 }} />
                     <YAxis stroke="#8C8C8C" style={{ fontSize: 12 }} />
                     <Tooltip
                       contentStyle={{
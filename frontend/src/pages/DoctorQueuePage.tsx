@@ -5,21 +5,25 @@ import { useState, useEffect } from 'react'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { motion, AnimatePresence } from 'framer-motion'
 import { toast } from 'sonner'
-import { Bell, CheckCircle2, Clock, User, AlertCircle, Phone } from 'lucide-react'
+import { Bell, CheckCircle2, Clock, User, AlertCircle, Phone, Volume2, SkipForward, ArrowRightLeft, Undo2 } from 'lucide-react'
 import { DashboardLayout } from '@/components/layout/DashboardLayout'
 import { Card } from '@/components/ui/Card'
 import { Button } from '@/components/ui/Button'
 import { Badge } from '@/components/ui/Badge'
 import { Loading } from '@/components/ui/Loading'
+import { QueueMoveForm, type QueueMoveMode } from '@/components/queue/QueueMoveForm'
 import {
   getDoctorQueue,
   callNext,
   completeQueue,
+  callAgain,
+  skipQueue,
   QueueStatus,
   QueuePriority,
   type QueueItem,
 } from '@/api/queue.api'
 import { useAuthStore } from '@/store/auth.store'
+import { useQueueEvents } from '@/hooks/useQueueEvents'
 import { cn } from '@/utils/cn'
 
 export function DoctorQueuePage() {
@@ -27,6 +31,7 @@ export function DoctorQueuePage() {
   const { user } = useAuthStore()
   const [currentCalling, setCurrentCalling] = useState<QueueItem | null>(null)
   const [autoRefresh, setAutoRefresh] = useState(true)
+  const [moving, setMoving] = useState<{ mode: QueueMoveMode; queue: QueueItem } | null>(null)
 
   // 从用户信息获取医生ID和科室信息
   const doctorId = user?.doctor?.id
@@ -38,12 +43,19 @@ export function DoctorQueuePage() {
     }
   }, [user])
 
+  // 实时推送排队变化，收到事件后刷新列表
+  const { connected } = useQueueEvents({
+    doctorId,
+    enabled: autoRefresh,
+    onEvent: () => queryClient.invalidateQueries({ queryKey: ['doctor-queue', doctorId] }),
+  })
+
   // 获取医生排队列表
   const { data: queueList, isLoading, refetch } = useQuery({
     queryKey: ['doctor-queue', doctorId],
-    queryFn: () => getDoctorQueue(doctorId!),
+    queryFn: () => getDoctorQueue(doctorId!, true), // 包含已过号患者，便于回队
     enabled: !!doctorId, // 只有当有医生ID时才执行查询
-    refetchInterval: autoRefresh ? 5000 : false, // 5秒自动刷新
+    refetchInterval: autoRefresh && !connected ? 5000 : false, // 实时推送不可用时5秒轮询
   })
 
   // 叫号
@@ -83,6 +95,34 @@ export function DoctorQueuePage() {
     },
   })
 
+  // 重呼
+  const callAgainMutation = useMutation({
+    mutationFn: (id: string) => callAgain(id),
+    onSuccess: (queue) => {
+      toast.success(`第${queue.callCount}次呼叫：${queue.queueNumber} - ${queue.patientName || '未命名患者'}`)
+      queryClient.invalidateQueries({ queryKey: ['doctor-queue', doctorId] })
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error?.message || '重呼失败')
+    },
+  })
+
+  // 过号（多次呼叫无应答时后端记为爽约）
+  const skipMutation = useMutation({
+    mutationFn: (id: string) => skipQueue(id),
+    onSuccess: (queue) => {
+      toast.success(queue.status === QueueStatus.NO_SHOW ? '多次呼叫未到，已记为爽约' : '已过号')
+      setCurrentCalling(null)
+      queryClient.invalidateQueries({ queryKey: ['doctor-queue', doctorId] })
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error?.message || '过号失败')
+    },
+  })
+
+  // 已过号的患者
+  const skippedList = queueList?.filter((q) => q.status === QueueStatus.SKIPPED) || []
+
   // 候诊列表（等待中的患者，按优先级排序）
   const waitingList = queueList?.filter(q => q.status === QueueStatus.WAITING)
     .sort((a, b) => {
@@ -181,6 +221,9 @@ export function DoctorQueuePage() {
                   />
                   自动刷新
                 </label>
+                {autoRefresh && (
+                  <Badge variant={connected ? 'success' : 'secondary'}>{connected ? '实时' : '轮询'}</Badge>
+                )}
                 <Button
                   variant="ghost"
                   size="sm"
@@ -291,6 +334,29 @@ export function DoctorQueuePage() {
                           QueuePriority.NORMAL) as QueuePriority
                       )}
                     </Badge>
+                    {processingPatient?.status === QueueStatus.CALLED && (
+                      <div className="mb-4 space-y-2">
+                        <p className="text-sm text-text-tertiary">已呼叫 {processingPatient.callCount} 次</p>
+                        <div className="grid grid-cols-2 gap-2">
+                          <Button
+                            variant="outline"
+                            onClick={() => callAgainMutation.mutate(processingPatient.id)}
+                            loading={callAgainMutation.isPending}
+                            icon={<Volume2 className="w-4 h-4" />}
+                          >
+                            重呼
+                          </Button>
+                          <Button
+                            variant="warning"
+                            onClick={() => skipMutation.mutate(processingPatient.id)}
+                            loading={skipMutation.isPending}
+                            icon={<SkipForward className="w-4 h-4" />}
+                          >
+                            过号
+                          </Button>
+                        </div>
+                      </div>
+                    )}
                     <Button
                       variant="success"
                       fullWidth
@@ -404,12 +470,22 @@ export function DoctorQueuePage() {
                           </div>
                         </div>
 
-                        {/* 前面还有几人 */}
-                        <div className="text-right">
-                          <div className="text-2xl font-bold text-primary-400">
-                            {index}
+                        <div className="flex items-center gap-4">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setMoving({ mode: 'transfer', queue: item })}
+                            icon={<ArrowRightLeft className="w-4 h-4" />}
+                          >
+                            转诊
+                          </Button>
+                          {/* 前面还有几人 */}
+                          <div className="text-right">
+                            <div className="text-2xl font-bold text-primary-400">
+                              {index}
+                            </div>
+                            <div className="text-xs text-text-tertiary">前面还有</div>
                           </div>
-                          <div className="text-xs text-text-tertiary">前面还有</div>
                         </div>
                       </div>
                     </motion.div>
@@ -424,6 +500,60 @@ export function DoctorQueuePage() {
             </Card>
           </motion.div>
         </div>
+
+        {/* 已过号患者 */}
+        {skippedList.length > 0 && (
+          <Card>
+            <h2 className="text-xl font-semibold text-gradient mb-4">已过号</h2>
+            <div className="space-y-3">
+              {skippedList.map((item) => (
+                <div
+                  key={item.id}
+                  className="flex items-center justify-between p-4 rounded-lg border border-white/10 bg-background-secondary/50"
+                >
+                  <div className="flex items-center gap-4">
+                    <div className="text-2xl font-bold text-gradient min-w-[80px] text-center">{item.queueNumber}</div>
+                    <div>
+                      <div className="text-lg font-semibold text-text-primary">{item.patientName}</div>
+                      <div className="text-sm text-text-secondary">已呼叫 {item.callCount} 次</div>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setMoving({ mode: 'transfer', queue: item })}
+                      icon={<ArrowRightLeft className="w-4 h-4" />}
+                    >
+                      转诊
+                    </Button>
+                    <Button
+                      variant="primary"
+                      size="sm"
+                      onClick={() => setMoving({ mode: 'recall', queue: item })}
+                      icon={<Undo2 className="w-4 h-4" />}
+                    >
+                      回队
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        {moving && (
+          <QueueMoveForm
+            mode={moving.mode}
+            queue={moving.queue}
+            departmentId={user?.doctor?.department?.id}
+            onClose={() => setMoving(null)}
+            onSuccess={() => {
+              setMoving(null)
+              queryClient.invalidateQueries({ queryKey: ['doctor-queue', doctorId] })
+            }}
+          />
+        )}
           </>
         )}
       </div>
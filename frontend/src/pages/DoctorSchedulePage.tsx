@@ -0,0 +1,209 @@
+/**
+ * 医生排班页面 - 按星期和时间段设置医生出诊时间与号源数量
+ */
+import { useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { Plus } from 'lucide-react'
+import { DashboardLayout } from '@/components/layout/DashboardLayout'
+import { Card } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { NativeSelect } from '@/components/ui/NativeSelect'
+import { DataTable } from '@/components/ui/DataTable'
+import { Badge } from '@/components/ui/Badge'
+import { ScheduleForm } from '@/components/schedule/ScheduleForm'
+import { getDepartments } from '@/api/department.api'
+import { getDoctors } from '@/api/doctor.api'
+import {
+  getSchedules,
+  updateSchedule,
+  deleteSchedule,
+  timeSlotLabels,
+  weekdayLabels,
+  type DoctorSchedule,
+} from '@/api/schedule.api'
+import { useAuthStore } from '@/store/auth.store'
+
+export function DoctorSchedulePage() {
+  const queryClient = useQueryClient()
+  const { user } = useAuthStore()
+  const canManage = user?.permissions?.includes('schedule:manage')
+
+  const [departmentId, setDepartmentId] = useState('')
+  const [doctorId, setDoctorId] = useState('')
+  const [editing, setEditing] = useState<DoctorSchedule | null>(null)
+  const [showCreateForm, setShowCreateForm] = useState(false)
+
+  const { data: departments = [] } = useQuery({
+    queryKey: ['departments'],
+    queryFn: getDepartments,
+  })
+
+  const { data: doctors = [] } = useQuery({
+    queryKey: ['doctors', departmentId],
+    queryFn: () => getDoctors(departmentId || undefined),
+  })
+
+  const { data: schedules = [], isLoading } = useQuery({
+    queryKey: ['schedules', departmentId, doctorId],
+    queryFn: () =>
+      getSchedules({
+        departmentId: departmentId || undefined,
+        doctorId: doctorId || undefined,
+      }),
+  })
+
+  const refreshSchedules = () => {
+    queryClient.invalidateQueries({ queryKey: ['schedules'] })
+    queryClient.invalidateQueries({ queryKey: ['available-slots'] })
+  }
+
+  const handleToggleActive = async (schedule: DoctorSchedule) => {
+    try {
+      await updateSchedule(schedule.id, { isActive: !schedule.isActive })
+      toast.success(schedule.isActive ? '已停诊' : '已恢复出诊')
+      refreshSchedules()
+    } catch (error: any) {
+      toast.error(error.response?.data?.error?.message || '更新排班失败')
+    }
+  }
+
+  const handleDelete = async (schedule: DoctorSchedule) => {
+    if (!confirm(`确定删除${schedule.doctor?.name || ''}${weekdayLabels[schedule.dayOfWeek]}${timeSlotLabels[schedule.timeSlot]}的排班吗？`)) {
+      return
+    }
+    try {
+      await deleteSchedule(schedule.id)
+      toast.success('排班已删除')
+      refreshSchedules()
+    } catch (error: any) {
+      toast.error(error.response?.data?.error?.message || '删除排班失败')
+    }
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* 页面标题 */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gradient">医生排班</h1>
+            <p className="text-text-secondary mt-2">设置医生出诊时间和每个时间段的号源数量，挂号按排班放号</p>
+          </div>
+          {canManage && (
+            <Button variant="neon" icon={<Plus className="w-4 h-4" />} onClick={() => setShowCreateForm(true)}>
+              新增排班
+            </Button>
+          )}
+        </div>
+
+        {/* 筛选 */}
+        <Card className="card-neon p-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <NativeSelect
+              value={departmentId}
+              onChange={(e) => {
+                setDepartmentId(e.target.value)
+                setDoctorId('')
+              }}
+            >
+              <option value="">全部科室</option>
+              {departments.map((dept) => (
+                <option key={dept.id} value={dept.id}>
+                  {dept.name}
+                </option>
+              ))}
+            </NativeSelect>
+            <NativeSelect value={doctorId} onChange={(e) => setDoctorId(e.target.value)}>
+              <option value="">全部医生</option>
+              {doctors.map((doctor) => (
+                <option key={doctor.id} value={doctor.id}>
+                  {doctor.name}
+                </option>
+              ))}
+            </NativeSelect>
+          </div>
+        </Card>
+
+        <Card className="card-neon">
+          <DataTable
+            columns={[
+              {
+                key: 'doctor',
+                title: '医生',
+                render: (schedule: DoctorSchedule) => (
+                  <div>
+                    <div className="font-medium text-text-primary">{schedule.doctor?.name}</div>
+                    <div className="text-sm text-text-secondary">{schedule.doctor?.title || schedule.doctor?.doctorNo}</div>
+                  </div>
+                ),
+              },
+              {
+                key: 'dayOfWeek',
+                title: '星期',
+                render: (schedule: DoctorSchedule) => weekdayLabels[schedule.dayOfWeek],
+              },
+              {
+                key: 'timeSlot',
+                title: '时间段',
+                render: (schedule: DoctorSchedule) =>
+                  `${timeSlotLabels[schedule.timeSlot]} ${schedule.startTime}-${schedule.endTime}`,
+              },
+              { key: 'maxPatients', title: '号源数量' },
+              {
+                key: 'isActive',
+                title: '状态',
+                render: (schedule: DoctorSchedule) => (
+                  <Badge variant={schedule.isActive ? 'success' : 'secondary'}>
+                    {schedule.isActive ? '出诊' : '停诊'}
+                  </Badge>
+                ),
+              },
+              ...(canManage
+                ? [
+                    {
+                      key: 'actions',
+                      title: '操作',
+                      render: (schedule: DoctorSchedule) => (
+                        <div className="flex gap-2">
+                          <Button variant="ghost" size="sm" onClick={() => setEditing(schedule)}>
+                            编辑
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleToggleActive(schedule)}>
+                            {schedule.isActive ? '停诊' : '出诊'}
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDelete(schedule)}>
+                            删除
+                          </Button>
+                        </div>
+                      ),
+                    },
+                  ]
+                : []),
+            ]}
+            data={schedules}
+            loading={isLoading}
+            emptyText="暂无排班"
+          />
+        </Card>
+      </div>
+
+      {(showCreateForm || editing) && (
+        <ScheduleForm
+          doctors={doctors}
+          schedule={editing || undefined}
+          defaultDoctorId={doctorId || undefined}
+          onClose={() => {
+            setShowCreateForm(false)
+            setEditing(null)
+          }}
+          onSuccess={() => {
+            setShowCreateForm(false)
+            setEditing(null)
+            refreshSchedules()
+          }}
+        />
+      )}
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,423 @@
+/**
+ * 药房库存管理页面 - 入库、调整、调拨、退货、盘点与库存流水
+ */
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { motion } from 'framer-motion'
+import { toast } from 'sonner'
+import { DashboardLayout } from '@/components/layout/DashboardLayout'
+import { Card } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { NativeSelect } from '@/components/ui/NativeSelect'
+import { DataTable } from '@/components/ui/DataTable'
+import { Badge } from '@/components/ui/Badge'
+import { Loading } from '@/components/ui/Loading'
+import { StockReceiveForm } from '@/components/inventory/StockReceiveForm'
+import { StockMovementForm, type StockMovementMode } from '@/components/inventory/StockMovementForm'
+import {
+  getStockBatches,
+  getInventoryTransactions,
+  submitStocktake,
+  transactionTypeLabels,
+  InventoryTransactionType,
+  type StockBatch,
+  type InventoryTransaction,
+  type LedgerQueryParams,
+} from '@/api/inventory.api'
+import { formatDate, formatDateTime } from '@/utils/format'
+import { ArrowLeft, PackagePlus, ClipboardCheck, SlidersHorizontal, ArrowRightLeft, Undo2 } from 'lucide-react'
+
+const tabs = [
+  { id: 'stocks', label: '库存批次' },
+  { id: 'ledger', label: '库存流水' },
+]
+
+export function InventoryPage() {
+  const navigate = useNavigate()
+  const queryClient = useQueryClient()
+
+  const [currentTab, setCurrentTab] = useState('stocks')
+  const [keyword, setKeyword] = useState('')
+  const [showReceiveForm, setShowReceiveForm] = useState(false)
+  const [movement, setMovement] = useState<{ mode: StockMovementMode; stock: StockBatch } | null>(null)
+  const [stocktakeMode, setStocktakeMode] = useState(false)
+  const [countedQuantities, setCountedQuantities] = useState<Record<string, string>>({})
+  const [submittingStocktake, setSubmittingStocktake] = useState(false)
+  const [ledgerParams, setLedgerParams] = useState<LedgerQueryParams>({
+    page: 1,
+    pageSize: 20,
+  })
+
+  // 获取库存批次
+  const { data: stocks = [], isLoading } = useQuery({
+    queryKey: ['inventory-stocks', keyword],
+    queryFn: () => getStockBatches({ keyword: keyword || undefined }),
+  })
+
+  // 获取库存流水
+  const { data: ledgerData } = useQuery({
+    queryKey: ['inventory-transactions', ledgerParams],
+    queryFn: () => getInventoryTransactions(ledgerParams),
+    enabled: currentTab === 'ledger',
+  })
+
+  const refreshInventory = () => {
+    queryClient.invalidateQueries({ queryKey: ['inventory-stocks'] })
+    queryClient.invalidateQueries({ queryKey: ['inventory-transactions'] })
+    queryClient.invalidateQueries({ queryKey: ['medicines'] })
+  }
+
+  // 提交盘点
+  const handleSubmitStocktake = async () => {
+    const items = Object.entries(countedQuantities)
+      .filter(([, value]) => value !== '')
+      .map(([stockId, value]) => ({ stockId, countedQuantity: Number(value) }))
+
+    if (items.length === 0) {
+      toast.error('请至少填写一个批次的实盘数量')
+      return
+    }
+    if (items.some((item) => !Number.isInteger(item.countedQuantity) || item.countedQuantity < 0)) {
+      toast.error('实盘数量必须为非负整数')
+      return
+    }
+
+    setSubmittingStocktake(true)
+    try {
+      const result = await submitStocktake({ items, reason: '定期盘点' })
+      toast.success(`盘点完成：共 ${result.items.length} 个批次，差异 ${result.adjustedCount} 个`)
+      setStocktakeMode(false)
+      setCountedQuantities({})
+      refreshInventory()
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || '盘点提交失败')
+    } finally {
+      setSubmittingStocktake(false)
+    }
+  }
+
+  const isExpired = (stock: StockBatch) => new Date(stock.expiryDate) < new Date(new Date().toDateString())
+
+  if (isLoading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <Loading size="lg" text="加载库存..." />
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* 页面标题 */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gradient">药房库存</h1>
+            <p className="text-text-secondary mt-2">批次库存、出入库与盘点，所有变动均记录在库存流水中</p>
+          </div>
+          <div className="flex gap-3">
+            <Button variant="outline" onClick={() => navigate('/medicines')}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              药物库
+            </Button>
+            {stocktakeMode ? (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setStocktakeMode(false)
+                    setCountedQuantities({})
+                  }}
+                  disabled={submittingStocktake}
+                >
+                  取消盘点
+                </Button>
+                <Button variant="neon" onClick={handleSubmitStocktake} loading={submittingStocktake}>
+                  提交盘点
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setCurrentTab('stocks')
+                    setStocktakeMode(true)
+                  }}
+                >
+                  <ClipboardCheck className="h-4 w-4 mr-2" />
+                  盘点
+                </Button>
+                <Button variant="neon" onClick={() => setShowReceiveForm(true)}>
+                  <PackagePlus className="h-4 w-4 mr-2" />
+                  采购入库
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+
+        {/* Tab导航 */}
+        <div className="flex border-b border-border-subtle">
+          {tabs.map((tab) => (
+            <button
+              key={tab.id}
+              onClick={() => setCurrentTab(tab.id)}
+              className={`px-6 py-3 text-sm font-medium transition-colors relative ${
+                currentTab === tab.id
+                  ? 'text-primary-400'
+                  : 'text-text-secondary hover:text-text-primary'
+              }`}
+            >
+              {tab.label}
+              {currentTab === tab.id && (
+                <motion.div
+                  layoutId="activeTabInventory"
+                  className="absolute bottom-0 left-0 right-0 h-0.5 bg-primary-500"
+                />
+              )}
+            </button>
+          ))}
+        </div>
+
+        {/* 库存批次 */}
+        {currentTab === 'stocks' && (
+          <>
+            <Card className="card-neon p-4">
+              <Input
+                placeholder="搜索药品名称或批号..."
+                value={keyword}
+                onChange={(e) => setKeyword(e.target.value)}
+                className="w-full"
+              />
+            </Card>
+
+            <Card className="card-neon">
+              <DataTable
+                columns={[
+                  {
+                    key: 'medicine',
+                    title: '药品',
+                    render: (stock: StockBatch) => (
+                      <div>
+                        <div className="font-medium text-text-primary">{stock.medicine.name}</div>
+                        <div className="text-sm text-text-secondary">{stock.medicine.specification}</div>
+                      </div>
+                    ),
+                  },
+                  { key: 'batchNo', title: '批号' },
+                  {
+                    key: 'location',
+                    title: '库位',
+                    render: (stock: StockBatch) => stock.location || '-',
+                  },
+                  {
+                    key: 'expiryDate',
+                    title: '效期',
+                    render: (stock: StockBatch) => (
+                      <div className="flex items-center gap-2">
+                        <span>{formatDate(stock.expiryDate)}</span>
+                        {isExpired(stock) && <Badge variant="danger">已过期</Badge>}
+                      </div>
+                    ),
+                  },
+                  {
+                    key: 'quantity',
+                    title: stocktakeMode ? '系统数量 / 实盘数量' : '库存',
+                    render: (stock: StockBatch) =>
+                      stocktakeMode ? (
+                        <div className="flex items-center gap-2">
+                          <span className="w-16">{stock.quantity}</span>
+                          <Input
+                            type="number"
+                            min={0}
+                            className="w-28"
+                            value={countedQuantities[stock.id] ?? ''}
+                            onChange={(e) =>
+                              setCountedQuantities((prev) => ({ ...prev, [stock.id]: e.target.value }))
+                            }
+                          />
+                        </div>
+                      ) : (
+                        <span className={stock.quantity <= stock.minStock ? 'text-red-500 font-bold' : ''}>
+                          {stock.quantity} {stock.medicine.unit}
+                        </span>
+                      ),
+                  },
+                  {
+                    key: 'actions',
+                    title: '操作',
+                    render: (stock: StockBatch) => (
+                      <div className="flex gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="库存调整"
+                          onClick={() => setMovement({ mode: 'adjust', stock })}
+                        >
+                          <SlidersHorizontal className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="库位调拨"
+                          onClick={() => setMovement({ mode: 'transfer', stock })}
+                        >
+                          <ArrowRightLeft className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="退货给供应商"
+                          onClick={() => setMovement({ mode: 'return', stock })}
+                        >
+                          <Undo2 className="h-4 w-4 text-orange-500" />
+                        </Button>
+                      </div>
+                    ),
+                  },
+                ]}
+                data={stocks}
+                emptyText="暂无库存批次"
+              />
+            </Card>
+          </>
+        )}
+
+        {/* 库存流水 */}
+        {currentTab === 'ledger' && (
+          <>
+            <Card className="card-neon p-4">
+              <div className="w-full md:w-48">
+                <NativeSelect
+                  value={ledgerParams.type || ''}
+                  onChange={(e) =>
+                    setLedgerParams((prev) => ({
+                      ...prev,
+                      type: (e.target.value as InventoryTransactionType) || undefined,
+                      page: 1,
+                    }))
+                  }
+                  className="w-full"
+                >
+                  <option value="">全部类型</option>
+                  {Object.entries(transactionTypeLabels).map(([type, label]) => (
+                    <option key={type} value={type}>
+                      {label}
+                    </option>
+                  ))}
+                </NativeSelect>
+              </div>
+            </Card>
+
+            <Card className="card-neon">
+              <DataTable
+                columns={[
+                  {
+                    key: 'createdAt',
+                    title: '时间',
+                    render: (entry: InventoryTransaction) => formatDateTime(entry.createdAt),
+                  },
+                  {
+                    key: 'type',
+                    title: '类型',
+                    render: (entry: InventoryTransaction) => (
+                      <Badge variant={entry.quantity > 0 ? 'success' : 'warning'}>
+                        {transactionTypeLabels[entry.type]}
+                      </Badge>
+                    ),
+                  },
+                  {
+                    key: 'medicine',
+                    title: '药品 / 批号',
+                    render: (entry: InventoryTransaction) => (
+                      <div>
+                        <div className="font-medium text-text-primary">{entry.medicine.name}</div>
+                        <div className="text-sm text-text-secondary">
+                          {entry.batchNo} · {entry.location || '-'}
+                        </div>
+                      </div>
+                    ),
+                  },
+                  {
+                    key: 'quantity',
+                    title: '变动',
+                    render: (entry: InventoryTransaction) => (
+                      <span className={entry.quantity > 0 ? 'text-green-500' : 'text-red-500'}>
+                        {entry.quantity > 0 ? `+${entry.quantity}` : entry.quantity}
+                      </span>
+                    ),
+                  },
+                  { key: 'balanceAfter', title: '结存' },
+                  {
+                    key: 'reason',
+                    title: '原因',
+                    render: (entry: InventoryTransaction) => entry.reason || '-',
+                  },
+                ]}
+                data={ledgerData?.data || []}
+                emptyText="暂无库存流水"
+              />
+
+              {/* 分页 */}
+              {ledgerData && ledgerData.total > 0 && (
+                <div className="flex items-center justify-between p-4 border-t border-white/10">
+                  <div className="text-sm text-text-secondary">共 {ledgerData.total} 条记录</div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={ledgerParams.page === 1}
+                      onClick={() => setLedgerParams((prev) => ({ ...prev, page: (prev.page || 1) - 1 }))}
+                    >
+                      上一页
+                    </Button>
+                    <div className="flex items-center px-4 text-sm text-text-secondary">
+                      第 {ledgerParams.page} / {ledgerData.totalPages} 页
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={(ledgerParams.page || 1) >= ledgerData.totalPages}
+                      onClick={() => setLedgerParams((prev) => ({ ...prev, page: (prev.page || 1) + 1 }))}
+                    >
+                      下一页
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </Card>
+          </>
+        )}
+      </div>
+
+      {/* 采购入库Modal */}
+      {showReceiveForm && (
+        <StockReceiveForm
+          onClose={() => setShowReceiveForm(false)}
+          onSuccess={() => {
+            setShowReceiveForm(false)
+            refreshInventory()
+          }}
+        />
+      )}
+
+      {/* 库存变动Modal */}
+      {movement && (
+        <StockMovementForm
+          mode={movement.mode}
+          stock={movement.stock}
+          onClose={() => setMovement(null)}
+          onSuccess={() => {
+            setMovement(null)
+            refreshInventory()
+          }}
+        />
+      )}
+    </DashboardLayout>
+  )
+}
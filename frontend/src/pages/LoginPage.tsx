@@ -43,7 +43,7 @@ export const LoginPage = () => {
       toast.success('登录成功')
       navigate(from, { replace: true })
     } catch (error: any) {
-      toast.error(error.response?.data?.message || '登录失败，请重试')
+      toast.error(error.response?.data?.error?.message || error.response?.data?.message || '登录失败，请重试')
     }
   }
 
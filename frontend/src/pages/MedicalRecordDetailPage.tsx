@@ -31,6 +31,7 @@ import {
   generateRecordSummary,
   getDiagnosisSuggestions,
   getMedicalRecordVersions,
+  getSimilarMedicalRecords,
   MedicalRecordStatus
 } from '@/api/medical-record.api'
 import { formatDate } from '@/utils/format'
@@ -76,6 +77,13 @@ export function MedicalRecordDetailPage() {
     enabled: !!id && currentTab === 'versions',
   })
 
+  // 获取相似病例
+  const { data: similarRecords, isLoading: loadingSimilar } = useQuery({
+    queryKey: ['medical-record-similar', id],
+    queryFn: () => getSimilarMedicalRecords(id!),
+    enabled: !!id && currentTab === 'ai',
+  })
+
   // 归档病历
   const archiveMutation = useMutation({
     mutationFn: () => archiveMedicalRecord(id!),
@@ -539,6 +547,37 @@ export function MedicalRecordDetailPage() {
                   )}
                 </div>
               )}
+
+              {/* 相似病例 */}
+              <Card variant="glass" padding="lg">
+                <CardHeader title="相似病例" description="按主诉、诊断等临床表现匹配的其他患者病历" />
+                <CardBody>
+                  {loadingSimilar ? (
+                    <Loading />
+                  ) : similarRecords && similarRecords.records.length > 0 ? (
+                    <div className="space-y-3">
+                      {similarRecords.records.map((similar) => (
+                        <div
+                          key={similar.id}
+                          className="p-4 rounded-lg bg-background-secondary/50 hover:bg-background-secondary cursor-pointer transition-colors"
+                          onClick={() => navigate(`/medical-records/${similar.id}`)}
+                        >
+                          <div className="flex items-center justify-between mb-1">
+                            <span className="font-semibold text-text-primary">{similar.diagnosis}</span>
+                            <Badge variant="blue">相似度 {(similar.similarity * 100).toFixed(0)}%</Badge>
+                          </div>
+                          <p className="text-sm text-text-secondary line-clamp-2">{similar.chiefComplaint}</p>
+                          <p className="text-xs text-text-tertiary mt-1">
+                            {similar.recordNumber} · {similar.department || '-'} · {formatDate(similar.visitDate)}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-text-secondary">暂无相似病例</p>
+                  )}
+                </CardBody>
+              </Card>
             </motion.div>
           )}
 
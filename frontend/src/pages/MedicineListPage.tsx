@@ -2,6 +2,7 @@
  * 药物库管理页面
  */
 import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
 import { useQuery } from '@tanstack/react-query'
 import { motion } from 'framer-motion'
 import { toast } from 'sonner'
@@ -22,9 +23,10 @@ import {
   type Medicine,
   type MedicineSearchParams,
 } from '@/api/medicine.api'
-import { Package, AlertTriangle, Calendar, Plus, Pencil, Trash2 } from 'lucide-react'
+import { Package, AlertTriangle, Calendar, Plus, Pencil, Trash2, Boxes } from 'lucide-react'
 
 export function MedicineListPage() {
+  const navigate = useNavigate()
   const [searchParams, setSearchParams] = useState<MedicineSearchParams>({
     page: 1,
     pageSize: 20,
@@ -120,10 +122,16 @@ export function MedicineListPage() {
             <h1 className="text-3xl font-bold text-gradient">药物库管理</h1>
             <p className="text-text-secondary mt-2">管理医院药品信息和库存</p>
           </div>
-          <Button onClick={handleCreate} variant="neon" size="lg">
-            <Plus className="h-5 w-5 mr-2" />
-            新建药品
-          </Button>
+          <div className="flex gap-3">
+            <Button onClick={() => navigate('/inventory')} variant="outline" size="lg">
+              <Boxes className="h-5 w-5 mr-2" />
+              库存管理
+            </Button>
+            <Button onClick={handleCreate} variant="neon" size="lg">
+              <Plus className="h-5 w-5 mr-2" />
+              新建药品
+            </Button>
+          </div>
         </div>
 
         {/* 统计卡片 */}
@@ -23,6 +23,7 @@ import {
 } from '@/api/queue.api'
 import { getAppointmentById, TimeSlot } from '@/api/appointment.api'
 import { formatDate } from '@/utils/format'
+import { useQueueEvents } from '@/hooks/useQueueEvents'
 
 // 时间段映射
 const TIME_SLOT_LABELS: Record<TimeSlot, string> = {
@@ -58,12 +59,18 @@ export function PatientQueueStatusPage() {
     enabled: !!searchedAppointmentId,
   })
 
+  // 订阅接诊医生的排队变化（需登录，否则回退到轮询）
+  const { connected } = useQueueEvents({
+    doctorId: appointment?.doctorId,
+    onEvent: () => queryClient.invalidateQueries({ queryKey: ['queue-position', searchedAppointmentId] }),
+  })
+
   // 查询排队位置
   const { data: queuePosition, isLoading: queueLoading, refetch: refetchQueue } = useQuery({
     queryKey: ['queue-position', searchedAppointmentId],
     queryFn: () => getPatientQueuePosition(searchedAppointmentId),
     enabled: !!searchedAppointmentId,
-    refetchInterval: 5000, // 5秒刷新
+    refetchInterval: connected ? false : 5000, // 实时推送不可用时5秒轮询
   })
 
   // 取消排队
@@ -107,6 +114,7 @@ export function PatientQueueStatusPage() {
       [QueueStatus.IN_PROGRESS]: { variant: 'success', label: '就诊中', icon: Activity },
       [QueueStatus.COMPLETED]: { variant: 'success', label: '已完成', icon: CheckCircle2 },
       [QueueStatus.SKIPPED]: { variant: 'error', label: '已跳过', icon: AlertCircle },
+      [QueueStatus.NO_SHOW]: { variant: 'error', label: '已爽约', icon: XCircle },
     }
     const config = variants[status] ?? { variant: 'secondary', label: '未知状态', icon: XCircle }
     const Icon = config.icon
@@ -65,8 +65,8 @@ export function PrescriptionDetailPage() {
       toast.success('发药成功')
       queryClient.invalidateQueries({ queryKey: ['prescription', id] })
     },
-    onError: () => {
-      toast.error('发药失败')
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || '发药失败')
     },
   })
 
@@ -77,8 +77,8 @@ export function PrescriptionDetailPage() {
       toast.success('处方已取消')
       queryClient.invalidateQueries({ queryKey: ['prescription', id] })
     },
-    onError: () => {
-      toast.error('取消失败')
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || '取消失败')
     },
   })
 
@@ -177,11 +177,16 @@ export function PrescriptionDetailPage() {
               </Button>
             )}
             {(prescription.status === PrescriptionStatus.DRAFT ||
-              prescription.status === PrescriptionStatus.PENDING) && (
+              prescription.status === PrescriptionStatus.PENDING ||
+              prescription.status === PrescriptionStatus.DISPENSED) && (
               <Button
                 variant="outline"
                 onClick={() => {
-                  const reason = prompt('请输入取消原因：')
+                  const reason = prompt(
+                    prescription.status === PrescriptionStatus.DISPENSED
+                      ? '取消后已发药品将退回原批次库存，请输入取消原因：'
+                      : '请输入取消原因：'
+                  )
                   if (reason) {
                     setCancelReason(reason)
                     cancelMutation.mutate()
@@ -72,14 +72,14 @@ export function PrescriptionListPage() {
   }
 
   // 获取风险等级标签
-  const getRiskBadge = (risk?: 'LOW' | 'MEDIUM' | 'HIGH') => {
-    if (!risk) return null
+  const getRiskBadge = (risk?: 'low' | 'medium' | 'high') => {
     const riskConfig = {
-      LOW: { variant: 'success' as const, label: '低风险' },
-      MEDIUM: { variant: 'warning' as const, label: '中风险' },
-      HIGH: { variant: 'error' as const, label: '高风险' },
+      low: { variant: 'success' as const, label: '低风险' },
+      medium: { variant: 'warning' as const, label: '中风险' },
+      high: { variant: 'error' as const, label: '高风险' },
     }
-    const config = riskConfig[risk]
+    const config = risk && riskConfig[risk]
+    if (!config) return null
     return <Badge variant={config.variant}>{config.label}</Badge>
   }
 
@@ -231,7 +231,7 @@ export function PrescriptionListPage() {
                           {prescription.prescriptionNumber}
                         </h3>
                         {getStatusBadge(prescription.status)}
-                        {prescription.aiReview && getRiskBadge(prescription.aiReview.overallRisk)}
+                        {prescription.aiReview && getRiskBadge(prescription.aiReview.riskLevel)}
                       </div>
 
                       {/* 患者和医生信息 */}
@@ -279,19 +279,19 @@ export function PrescriptionListPage() {
                       </div>
 
                       {/* AI审查警告 */}
-                      {prescription.aiReview && prescription.aiReview.warnings.length > 0 && (
+                      {prescription.aiReview && prescription.aiReview.issues.length > 0 && (
                         <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-3">
                           <div className="flex items-start gap-2">
                             <AlertCircle className="h-4 w-4 text-red-500 flex-shrink-0 mt-0.5" />
                             <div className="flex-1">
                               <p className="text-sm font-medium text-red-500 mb-1">AI审查警告</p>
                               <ul className="text-sm text-text-secondary space-y-1">
-                                {prescription.aiReview.warnings.slice(0, 2).map((warning, idx) => (
-                                  <li key={idx}>• {warning}</li>
+                                {prescription.aiReview.issues.slice(0, 2).map((issue, idx) => (
+                                  <li key={idx}>• {issue.description}</li>
                                 ))}
-                                {prescription.aiReview.warnings.length > 2 && (
+                                {prescription.aiReview.issues.length > 2 && (
                                   <li className="text-neon-blue">
-                                    +{prescription.aiReview.warnings.length - 2} 更多警告
+                                    +{prescription.aiReview.issues.length - 2} 更多警告
                                   </li>
                                 )}
                               </ul>
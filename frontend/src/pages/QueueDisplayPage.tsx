@@ -2,11 +2,12 @@
  * 叫号大屏显示 - 公开大屏展示
  */
 import { useState, useEffect } from 'react'
-import { useQuery } from '@tanstack/react-query'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
 import { motion, AnimatePresence } from 'framer-motion'
 import { Phone, Clock, Users, Activity } from 'lucide-react'
 import { cn } from '@/utils/cn'
 import { getDepartmentQueue, QueueStatus } from '@/api/queue.api'
+import { useQueueEvents } from '@/hooks/useQueueEvents'
 
 // 科室配置（轮播显示）
 const DEPARTMENTS = [
@@ -18,6 +19,7 @@ const DEPARTMENTS = [
 ]
 
 export function QueueDisplayPage() {
+  const queryClient = useQueryClient()
   const [currentDeptIndex, setCurrentDeptIndex] = useState(0)
   const [currentTime, setCurrentTime] = useState(new Date())
   const currentDept = DEPARTMENTS[currentDeptIndex]
@@ -38,11 +40,17 @@ export function QueueDisplayPage() {
     return () => clearInterval(timer)
   }, [])
 
+  // 实时推送当前科室的排队变化
+  const { connected } = useQueueEvents({
+    departmentId: currentDept.value,
+    onEvent: () => queryClient.invalidateQueries({ queryKey: ['department-queue-display', currentDept.value] }),
+  })
+
   // 获取当前科室的排队列表
   const { data: queueList } = useQuery({
     queryKey: ['department-queue-display', currentDept.value],
     queryFn: () => getDepartmentQueue(currentDept.value),
-    refetchInterval: 3000, // 3秒刷新一次
+    refetchInterval: connected ? false : 3000, // 实时推送不可用时3秒轮询
   })
 
   // 当前呼叫的患者
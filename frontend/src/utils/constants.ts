@@ -5,6 +5,9 @@
 // API基础URL
 export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api/v1'
 
+// WebSocket服务地址（为空时连接当前域名，由开发代理转发/socket.io）
+export const WS_URL = import.meta.env.VITE_WS_URL || ''
+
 // 存储键名
 export const STORAGE_KEYS = {
   ACCESS_TOKEN: 'ailiaox_access_token',
@@ -104,6 +107,7 @@ export enum QueueStatus {
   IN_PROGRESS = 'IN_PROGRESS',
   COMPLETED = 'COMPLETED',
   SKIPPED = 'SKIPPED',
+  NO_SHOW = 'NO_SHOW',
 }
 
 // 排队状态标签
@@ -113,6 +117,7 @@ export const QUEUE_STATUS_LABELS: Record<QueueStatus, string> = {
   [QueueStatus.IN_PROGRESS]: '就诊中',
   [QueueStatus.COMPLETED]: '已完成',
   [QueueStatus.SKIPPED]: '已跳过',
+  [QueueStatus.NO_SHOW]: '爽约',
 }
 
 // 处方状态
@@ -231,7 +236,11 @@ export const WS_EVENTS = {
   CONNECT: 'connect',
   DISCONNECT: 'disconnect',
   ERROR: 'error',
+  CONNECT_ERROR: 'connect_error',
+  QUEUE_SUBSCRIBE: 'queue:subscribe',
+  QUEUE_UNSUBSCRIBE: 'queue:unsubscribe',
   QUEUE_UPDATE: 'queue:update',
   QUEUE_CALL: 'queue:call',
-  NOTIFICATION: 'notification',
+  NOTIFICATION_NEW: 'notification:new',
+  NOTIFICATION_CHANGE: 'notification:change',
 } as const
@@ -2,6 +2,7 @@
 
 interface ImportMetaEnv {
   readonly VITE_API_BASE_URL: string
+  readonly VITE_WS_URL?: string
   // 可以添加更多环境变量...
 }
 